@@ -0,0 +1,91 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { AnomalyRuleError, getAidenAnomalyEngine } from "@/lib/aiden/anomaly-engine"
+import { Permission, hasPermission } from "@/lib/auth/permissions"
+import { getSessionUser, isSupabaseConfigured } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+/**
+ * Get an anomaly rule
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const user = await getSessionUser()
+
+  if (!user && isSupabaseConfigured()) {
+    return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+  }
+
+  const rule = await getAidenAnomalyEngine().getRule(id)
+
+  if (!rule) {
+    return NextResponse.json({ message: `Anomaly rule ${id} not found` }, { status: 404 })
+  }
+
+  return NextResponse.json(rule)
+}
+
+/**
+ * Update an anomaly rule, including enabling or disabling it
+ */
+export async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+
+  try {
+    const user = await getSessionUser()
+
+    if (!user) {
+      return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+    }
+
+    if (!hasPermission(user.roles, Permission.MANAGE_ANOMALY_RULES)) {
+      return NextResponse.json({ message: "You are not allowed to manage anomaly rules" }, { status: 403 })
+    }
+
+    const rule = await getAidenAnomalyEngine().updateRule(id, await request.json(), user.email || user.id)
+
+    return NextResponse.json(rule)
+  } catch (error) {
+    if (error instanceof AnomalyRuleError) {
+      return NextResponse.json({ message: error.message }, { status: error.statusCode })
+    }
+
+    logger.error("Failed to update anomaly rule", {
+      ruleId: id,
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ message: "Failed to update anomaly rule" }, { status: 500 })
+  }
+}
+
+/**
+ * Delete an anomaly rule
+ */
+export async function DELETE(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+
+  try {
+    const user = await getSessionUser()
+
+    if (!user) {
+      return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+    }
+
+    if (!hasPermission(user.roles, Permission.MANAGE_ANOMALY_RULES)) {
+      return NextResponse.json({ message: "You are not allowed to manage anomaly rules" }, { status: 403 })
+    }
+
+    await getAidenAnomalyEngine().deleteRule(id, user.email || user.id)
+
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    if (error instanceof AnomalyRuleError) {
+      return NextResponse.json({ message: error.message }, { status: error.statusCode })
+    }
+
+    logger.error("Failed to delete anomaly rule", {
+      ruleId: id,
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ message: "Failed to delete anomaly rule" }, { status: 500 })
+  }
+}
@@ -0,0 +1,58 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { AnomalyRuleError, getAidenAnomalyEngine } from "@/lib/aiden/anomaly-engine"
+import type { AnomalyRule } from "@/lib/aiden/anomaly-rules"
+import { Permission, hasPermission } from "@/lib/auth/permissions"
+import { getSessionUser } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+/**
+ * Evaluate stored or draft anomaly rules against past lab results and variant calls
+ * Nothing is published, the findings are only returned
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser()
+
+    if (!user) {
+      return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+    }
+
+    if (!hasPermission(user.roles, Permission.MANAGE_ANOMALY_RULES)) {
+      return NextResponse.json({ message: "You are not allowed to manage anomaly rules" }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const engine = getAidenAnomalyEngine()
+    let rules: AnomalyRule[] | undefined
+
+    if (Array.isArray(body.rules)) {
+      // Drafts have not been saved yet, so give them placeholder ids
+      rules = body.rules.map((rule: AnomalyRule, index: number) => ({
+        ...rule,
+        enabled: rule.enabled ?? true,
+        id: rule.id || `draft-${index + 1}`,
+      }))
+    } else if (Array.isArray(body.rule_ids)) {
+      const stored = await engine.listRules()
+      rules = stored.filter((rule) => body.rule_ids.includes(rule.id))
+    }
+
+    const result = await engine.dryRun({
+      rules,
+      from: body.from,
+      to: body.to,
+      patientId: body.patient_id,
+    })
+
+    return NextResponse.json(result)
+  } catch (error) {
+    if (error instanceof AnomalyRuleError) {
+      return NextResponse.json({ message: error.message }, { status: error.statusCode })
+    }
+
+    logger.error("Failed to dry-run anomaly rules", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ message: "Failed to dry-run anomaly rules" }, { status: 500 })
+  }
+}
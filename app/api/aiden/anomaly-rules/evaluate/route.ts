@@ -0,0 +1,37 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { getAidenAnomalyEngine } from "@/lib/aiden/anomaly-engine"
+import { getSessionUser, isSupabaseConfigured } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+/**
+ * Run the enabled anomaly rules against new lab results and variant calls for a patient
+ * Each finding is also published as an ANOMALY_DETECTED event
+ */
+export async function POST(request: NextRequest) {
+  const user = await getSessionUser()
+
+  if (!user && isSupabaseConfigured()) {
+    return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+  }
+
+  try {
+    const { patient_id: patientId, lab_results: labResults, variants, called_at: calledAt } = await request.json()
+
+    if (!patientId) {
+      return NextResponse.json({ message: "patient_id is required" }, { status: 400 })
+    }
+
+    const engine = getAidenAnomalyEngine()
+    const findings = [
+      ...(Array.isArray(labResults) ? await engine.evaluateLabResults(patientId, labResults) : []),
+      ...(Array.isArray(variants) ? await engine.evaluateVariantCalls(patientId, variants, calledAt) : []),
+    ]
+
+    return NextResponse.json({ findings })
+  } catch (error) {
+    logger.error("Failed to evaluate anomaly rules", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ message: "Failed to evaluate anomaly rules" }, { status: 500 })
+  }
+}
@@ -0,0 +1,55 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { AnomalyRuleError, getAidenAnomalyEngine } from "@/lib/aiden/anomaly-engine"
+import { Permission, hasPermission } from "@/lib/auth/permissions"
+import { getSessionUser, isSupabaseConfigured } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+/**
+ * List anomaly rules
+ */
+export async function GET() {
+  const user = await getSessionUser()
+
+  if (!user && isSupabaseConfigured()) {
+    return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+  }
+
+  try {
+    return NextResponse.json({ rules: await getAidenAnomalyEngine().listRules() })
+  } catch (error) {
+    logger.error("Failed to list anomaly rules", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ message: "Failed to list anomaly rules" }, { status: 500 })
+  }
+}
+
+/**
+ * Create an anomaly rule
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser()
+
+    if (!user) {
+      return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+    }
+
+    if (!hasPermission(user.roles, Permission.MANAGE_ANOMALY_RULES)) {
+      return NextResponse.json({ message: "You are not allowed to manage anomaly rules" }, { status: 403 })
+    }
+
+    const rule = await getAidenAnomalyEngine().createRule(await request.json(), user.email || user.id)
+
+    return NextResponse.json(rule, { status: 201 })
+  } catch (error) {
+    if (error instanceof AnomalyRuleError) {
+      return NextResponse.json({ message: error.message }, { status: error.statusCode })
+    }
+
+    logger.error("Failed to create anomaly rule", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ message: "Failed to create anomaly rule" }, { status: 500 })
+  }
+}
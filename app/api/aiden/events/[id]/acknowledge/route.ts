@@ -0,0 +1,30 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { AidenEventHistoryError, getAidenEventHistory } from "@/lib/aiden/event-history"
+import { getSessionUser, isSupabaseConfigured } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+/**
+ * Acknowledge a detected anomaly
+ */
+export async function POST(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const user = await getSessionUser()
+
+  if (!user && isSupabaseConfigured()) {
+    return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+  }
+
+  try {
+    return NextResponse.json(await getAidenEventHistory().acknowledge(id, user))
+  } catch (error) {
+    if (error instanceof AidenEventHistoryError) {
+      return NextResponse.json({ message: error.message }, { status: error.statusCode })
+    }
+
+    logger.error("Failed to acknowledge AIDEN event", {
+      eventId: id,
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ message: "Failed to acknowledge event" }, { status: 500 })
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { AidenEventHistoryError, getAidenEventHistory } from "@/lib/aiden/event-history"
+import { getSessionUser, isSupabaseConfigured } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+/**
+ * Add a note to a detected anomaly
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const user = await getSessionUser()
+
+  if (!user && isSupabaseConfigured()) {
+    return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+  }
+
+  try {
+    const body = await request.json().catch(() => null)
+    const text: unknown = body?.text
+
+    if (typeof text !== "string" || !text.trim()) {
+      return NextResponse.json({ message: "Annotation text is required" }, { status: 400 })
+    }
+
+    return NextResponse.json(await getAidenEventHistory().annotate(id, text, user), { status: 201 })
+  } catch (error) {
+    if (error instanceof AidenEventHistoryError) {
+      return NextResponse.json({ message: error.message }, { status: error.statusCode })
+    }
+
+    logger.error("Failed to annotate AIDEN event", {
+      eventId: id,
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ message: "Failed to annotate event" }, { status: 500 })
+  }
+}
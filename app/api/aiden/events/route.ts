@@ -0,0 +1,66 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { AidenEventSeverity } from "@/lib/aiden/aiden-websocket"
+import { getAidenEventHistory } from "@/lib/aiden/event-history"
+import { getSessionUser, isSupabaseConfigured } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+const MAX_PAGE_SIZE = 200
+
+function parseList(value: string | null): string[] | undefined {
+  const items = value?.split(",").map((item) => item.trim()).filter(Boolean)
+  return items?.length ? items : undefined
+}
+
+function parseTimestamp(value: string | null): string | undefined {
+  if (!value) return undefined
+
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString()
+}
+
+/**
+ * Search the AIDEN event history, newest first
+ * Filters: event_type and severity (comma separated), from and to (ISO timestamps), patient_id, acknowledged,
+ * paged with limit and offset
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl
+  const user = await getSessionUser()
+
+  if (!user && isSupabaseConfigured()) {
+    return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+  }
+
+  const severities = parseList(searchParams.get("severity"))
+  const unknownSeverity = severities?.find(
+    (severity) => !Object.values(AidenEventSeverity).includes(severity as AidenEventSeverity),
+  )
+  if (unknownSeverity) {
+    return NextResponse.json({ message: `Unknown severity: ${unknownSeverity}` }, { status: 400 })
+  }
+
+  const acknowledged = searchParams.get("acknowledged")
+  const limit = Math.min(Number(searchParams.get("limit")) || 50, MAX_PAGE_SIZE)
+  const offset = Math.max(Number(searchParams.get("offset")) || 0, 0)
+
+  try {
+    const page = await getAidenEventHistory().query({
+      eventTypes: parseList(searchParams.get("event_type")),
+      from: parseTimestamp(searchParams.get("from")),
+      to: parseTimestamp(searchParams.get("to")),
+      patientId: searchParams.get("patient_id") || undefined,
+      severities: severities as AidenEventSeverity[] | undefined,
+      acknowledged: acknowledged === null ? undefined : acknowledged === "true",
+      viewer: user,
+      limit,
+      offset,
+    })
+
+    return NextResponse.json({ ...page, limit, offset })
+  } catch (error) {
+    logger.error("Failed to query AIDEN event history", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ message: "Failed to load event history" }, { status: 500 })
+  }
+}
@@ -0,0 +1,101 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { isTerminalStatus, toTaskStatusResponse, type AidenTaskStatusResponse } from "@/lib/aiden/aiden-client"
+import { getAidenEventBus } from "@/lib/aiden/aiden-events"
+import { AidenWebSocketEventType } from "@/lib/aiden/aiden-websocket"
+import { canReceiveAidenEvent } from "@/lib/aiden/event-access"
+import { canAccessAidenRecord } from "@/lib/aiden/task-access"
+import { getAidenTaskEngine } from "@/lib/aiden/task-engine"
+import { getSessionUser, isSupabaseConfigured } from "@/lib/supabase/server"
+
+export const dynamic = "force-dynamic"
+
+const HEARTBEAT_INTERVAL_MS = 15_000
+
+/**
+ * Stream status updates for an AIDEN task as server-sent events
+ * The current status is sent first and the stream ends once the task reaches a terminal status. Updates pass the
+ * same owner and role filter as they do over the AIDEN WebSocket.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const user = await getSessionUser()
+
+  if (!user && isSupabaseConfigured()) {
+    return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+  }
+
+  const { id } = await params
+  const task = await getAidenTaskEngine().getTask(id)
+
+  if (!task) {
+    return NextResponse.json({ message: `Task ${id} not found` }, { status: 404 })
+  }
+
+  if (!canAccessAidenRecord(user, task.user_id)) {
+    return NextResponse.json({ message: "You are not allowed to view this task" }, { status: 403 })
+  }
+
+  const encoder = new TextEncoder()
+  let cleanup = () => {}
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false
+
+      const send = (update: AidenTaskStatusResponse) => {
+        controller.enqueue(encoder.encode(`event: task_update\ndata: ${JSON.stringify(update)}\n\n`))
+      }
+
+      const close = () => {
+        if (closed) return
+        closed = true
+        cleanup()
+
+        try {
+          controller.close()
+        } catch {
+          // The client already went away
+        }
+      }
+
+      send(toTaskStatusResponse(task))
+
+      if (isTerminalStatus(task.status)) {
+        close()
+        return
+      }
+
+      const unsubscribe = getAidenEventBus().subscribe((event) => {
+        if (event.event_type !== AidenWebSocketEventType.TASK_UPDATE || event.payload.task_id !== id) return
+        if (!canReceiveAidenEvent(user, event)) return
+
+        send(event.payload)
+
+        if (isTerminalStatus(event.payload.status)) {
+          close()
+        }
+      })
+
+      const heartbeat = setInterval(() => {
+        controller.enqueue(encoder.encode(": keep-alive\n\n"))
+      }, HEARTBEAT_INTERVAL_MS)
+
+      cleanup = () => {
+        unsubscribe()
+        clearInterval(heartbeat)
+      }
+
+      request.signal.addEventListener("abort", close)
+    },
+    cancel() {
+      cleanup()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  })
+}
@@ -0,0 +1,36 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { AidenTaskStatus } from "@/lib/aiden/aiden-client"
+import { canAccessAidenRecord } from "@/lib/aiden/task-access"
+import { getAidenTaskEngine } from "@/lib/aiden/task-engine"
+import { getSessionUser, isSupabaseConfigured } from "@/lib/supabase/server"
+
+/**
+ * Get the result of a completed AIDEN task
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const user = await getSessionUser()
+
+  if (!user && isSupabaseConfigured()) {
+    return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+  }
+
+  const { id } = await params
+  const task = await getAidenTaskEngine().getTask(id)
+
+  if (!task) {
+    return NextResponse.json({ message: `Task ${id} not found` }, { status: 404 })
+  }
+
+  if (!canAccessAidenRecord(user, task.user_id)) {
+    return NextResponse.json({ message: "You are not allowed to view this task" }, { status: 403 })
+  }
+
+  if (task.status !== AidenTaskStatus.COMPLETED) {
+    return NextResponse.json(
+      { message: `Task ${id} is ${task.status}`, task_id: id, status: task.status, error: task.error },
+      { status: 409 },
+    )
+  }
+
+  return NextResponse.json({ task_id: id, status: task.status, result: task.result })
+}
@@ -0,0 +1,52 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { toTaskStatusResponse } from "@/lib/aiden/aiden-client"
+import { canAccessAidenRecord } from "@/lib/aiden/task-access"
+import { AidenTaskError, getAidenTaskEngine } from "@/lib/aiden/task-engine"
+import { Permission, hasPermission } from "@/lib/auth/permissions"
+import { getSessionUser, isSupabaseConfigured } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+/**
+ * Re-queue a failed or cancelled AIDEN task
+ * Retrying needs a role that manages AIDEN tasks, and only reaches tasks the user may read
+ */
+export async function POST(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const engine = getAidenTaskEngine()
+
+  try {
+    const user = await getSessionUser()
+
+    if (!user && isSupabaseConfigured()) {
+      return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+    }
+
+    if (user && !hasPermission(user.roles, Permission.MANAGE_AIDEN_TASKS)) {
+      return NextResponse.json({ message: "You are not allowed to retry tasks" }, { status: 403 })
+    }
+
+    const existing = await engine.getTask(id)
+
+    if (!existing) {
+      return NextResponse.json({ message: `Task ${id} not found` }, { status: 404 })
+    }
+
+    if (!canAccessAidenRecord(user, existing.user_id)) {
+      return NextResponse.json({ message: "You are not allowed to retry this task" }, { status: 403 })
+    }
+
+    const task = await engine.retry(id, user ? user.email || user.id : undefined)
+
+    return NextResponse.json(toTaskStatusResponse(task), { status: 202 })
+  } catch (error) {
+    if (error instanceof AidenTaskError) {
+      return NextResponse.json({ message: error.message }, { status: error.statusCode })
+    }
+
+    logger.error("Failed to retry AIDEN task", {
+      taskId: id,
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ message: "Failed to retry task" }, { status: 500 })
+  }
+}
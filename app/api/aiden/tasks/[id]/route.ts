@@ -0,0 +1,72 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { toTaskStatusResponse } from "@/lib/aiden/aiden-client"
+import { canAccessAidenRecord } from "@/lib/aiden/task-access"
+import { AidenTaskError, getAidenTaskEngine } from "@/lib/aiden/task-engine"
+import { getSessionUser, isSupabaseConfigured } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+/**
+ * Get the full AIDEN task record, including its history
+ * Tasks can be read by their submitter or by roles that view all AIDEN tasks
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const user = await getSessionUser()
+
+  if (!user && isSupabaseConfigured()) {
+    return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+  }
+
+  const { id } = await params
+  const task = await getAidenTaskEngine().getTask(id)
+
+  if (!task) {
+    return NextResponse.json({ message: `Task ${id} not found` }, { status: 404 })
+  }
+
+  if (!canAccessAidenRecord(user, task.user_id)) {
+    return NextResponse.json({ message: "You are not allowed to view this task" }, { status: 403 })
+  }
+
+  return NextResponse.json(task)
+}
+
+/**
+ * Cancel an AIDEN task
+ * Tasks can be cancelled by their submitter or by roles that view all AIDEN tasks
+ */
+export async function DELETE(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const engine = getAidenTaskEngine()
+
+  try {
+    const user = await getSessionUser()
+
+    if (!user && isSupabaseConfigured()) {
+      return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+    }
+
+    const task = await engine.getTask(id)
+
+    if (!task) {
+      return NextResponse.json({ message: `Task ${id} not found` }, { status: 404 })
+    }
+
+    if (!canAccessAidenRecord(user, task.user_id)) {
+      return NextResponse.json({ message: "You are not allowed to cancel this task" }, { status: 403 })
+    }
+
+    const cancelled = await engine.cancel(id, user ? `Cancelled by ${user.email || user.id}` : undefined)
+
+    return NextResponse.json(toTaskStatusResponse(cancelled))
+  } catch (error) {
+    if (error instanceof AidenTaskError) {
+      return NextResponse.json({ message: error.message }, { status: error.statusCode })
+    }
+
+    logger.error("Failed to cancel AIDEN task", {
+      taskId: id,
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ message: "Failed to cancel task" }, { status: 500 })
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { toTaskStatusResponse } from "@/lib/aiden/aiden-client"
+import { canAccessAidenRecord } from "@/lib/aiden/task-access"
+import { getAidenTaskEngine } from "@/lib/aiden/task-engine"
+import { getSessionUser, isSupabaseConfigured } from "@/lib/supabase/server"
+
+/**
+ * Get the current status of an AIDEN task
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const user = await getSessionUser()
+
+  if (!user && isSupabaseConfigured()) {
+    return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+  }
+
+  const { id } = await params
+  const task = await getAidenTaskEngine().getTask(id)
+
+  if (!task) {
+    return NextResponse.json({ message: `Task ${id} not found` }, { status: 404 })
+  }
+
+  if (!canAccessAidenRecord(user, task.user_id)) {
+    return NextResponse.json({ message: "You are not allowed to view this task" }, { status: 403 })
+  }
+
+  return NextResponse.json(toTaskStatusResponse(task))
+}
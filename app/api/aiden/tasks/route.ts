@@ -0,0 +1,78 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { AidenTaskPriority, AidenTaskStatus, AidenTaskType, toTaskStatusResponse } from "@/lib/aiden/aiden-client"
+import { listingOwner } from "@/lib/aiden/task-access"
+import { AidenTaskError, getAidenTaskEngine } from "@/lib/aiden/task-engine"
+import { getSessionUser, isSupabaseConfigured } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+/**
+ * Submit a new AIDEN task
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser()
+
+    if (!user && isSupabaseConfigured()) {
+      return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => null)
+
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ message: "Request body must be a JSON object" }, { status: 400 })
+    }
+
+    if (!Object.values(AidenTaskType).includes(body.task_type)) {
+      return NextResponse.json({ message: `Unknown task type: ${body.task_type}` }, { status: 400 })
+    }
+
+    if (body.priority && !Object.values(AidenTaskPriority).includes(body.priority)) {
+      return NextResponse.json({ message: `Unknown task priority: ${body.priority}` }, { status: 400 })
+    }
+
+    const task = await getAidenTaskEngine().submit({
+      task_type: body.task_type,
+      payload: body.payload,
+      priority: body.priority,
+      metadata: body.metadata,
+      user_id: user?.id,
+    })
+
+    return NextResponse.json(toTaskStatusResponse(task), { status: 202 })
+  } catch (error) {
+    if (error instanceof AidenTaskError) {
+      return NextResponse.json({ message: error.message }, { status: error.statusCode })
+    }
+
+    logger.error("Failed to submit AIDEN task", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ message: "Failed to submit task" }, { status: 500 })
+  }
+}
+
+/**
+ * List recent AIDEN tasks
+ * Users see the tasks they submitted; roles that view all AIDEN tasks see everyone's
+ */
+export async function GET(request: NextRequest) {
+  const user = await getSessionUser()
+
+  if (!user && isSupabaseConfigured()) {
+    return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+  }
+
+  const { searchParams } = request.nextUrl
+  const status = searchParams.get("status") as AidenTaskStatus | null
+  const taskType = searchParams.get("task_type") as AidenTaskType | null
+  const limit = Number(searchParams.get("limit")) || undefined
+
+  const tasks = await getAidenTaskEngine().listTasks({
+    status: status || undefined,
+    taskType: taskType || undefined,
+    userId: listingOwner(user),
+    limit,
+  })
+
+  return NextResponse.json({ tasks: tasks.map(toTaskStatusResponse) })
+}
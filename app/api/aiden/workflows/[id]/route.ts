@@ -0,0 +1,70 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { canAccessAidenRecord } from "@/lib/aiden/task-access"
+import { AidenTaskError } from "@/lib/aiden/task-engine"
+import { getAidenWorkflowEngine } from "@/lib/aiden/workflow-engine"
+import { getSessionUser, isSupabaseConfigured } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+/**
+ * Get an AIDEN workflow run with the status of each step
+ * Runs can be read by their submitter or by roles that view all AIDEN tasks
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const user = await getSessionUser()
+
+  if (!user && isSupabaseConfigured()) {
+    return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+  }
+
+  const { id } = await params
+  const run = await getAidenWorkflowEngine().getRun(id)
+
+  if (!run) {
+    return NextResponse.json({ message: `Workflow run ${id} not found` }, { status: 404 })
+  }
+
+  if (!canAccessAidenRecord(user, run.user_id)) {
+    return NextResponse.json({ message: "You are not allowed to view this workflow" }, { status: 403 })
+  }
+
+  return NextResponse.json(run)
+}
+
+/**
+ * Cancel every unfinished step of an AIDEN workflow run
+ * Runs can be cancelled by their submitter or by roles that view all AIDEN tasks
+ */
+export async function DELETE(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const engine = getAidenWorkflowEngine()
+
+  try {
+    const user = await getSessionUser()
+
+    if (!user && isSupabaseConfigured()) {
+      return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+    }
+
+    const run = await engine.getRun(id)
+
+    if (!run) {
+      return NextResponse.json({ message: `Workflow run ${id} not found` }, { status: 404 })
+    }
+
+    if (!canAccessAidenRecord(user, run.user_id)) {
+      return NextResponse.json({ message: "You are not allowed to cancel this workflow" }, { status: 403 })
+    }
+
+    return NextResponse.json(await engine.cancel(id))
+  } catch (error) {
+    if (error instanceof AidenTaskError) {
+      return NextResponse.json({ message: error.message }, { status: error.statusCode })
+    }
+
+    logger.error("Failed to cancel AIDEN workflow", {
+      runId: id,
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ message: "Failed to cancel workflow" }, { status: 500 })
+  }
+}
@@ -0,0 +1,59 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { AidenWorkflowStatus } from "@/lib/aiden/aiden-client"
+import { listingOwner } from "@/lib/aiden/task-access"
+import { AidenTaskError } from "@/lib/aiden/task-engine"
+import { getAidenWorkflowEngine } from "@/lib/aiden/workflow-engine"
+import { getSessionUser, isSupabaseConfigured } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+/**
+ * Start an AIDEN workflow from its step definitions
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser()
+
+    if (!user && isSupabaseConfigured()) {
+      return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+    }
+
+    const definition = await request.json()
+    const run = await getAidenWorkflowEngine().submit(definition, user?.id)
+
+    return NextResponse.json(run, { status: 202 })
+  } catch (error) {
+    if (error instanceof AidenTaskError) {
+      return NextResponse.json({ message: error.message }, { status: error.statusCode })
+    }
+
+    logger.error("Failed to start AIDEN workflow", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ message: "Failed to start workflow" }, { status: 500 })
+  }
+}
+
+/**
+ * List recent AIDEN workflow runs, newest first
+ * Users see the runs they started; roles that view all AIDEN tasks see everyone's and can filter by user_id
+ */
+export async function GET(request: NextRequest) {
+  const user = await getSessionUser()
+
+  if (!user && isSupabaseConfigured()) {
+    return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+  }
+
+  const { searchParams } = request.nextUrl
+  const status = searchParams.get("status") as AidenWorkflowStatus | null
+  const userId = searchParams.get("user_id")
+  const limit = Number(searchParams.get("limit")) || undefined
+
+  const runs = await getAidenWorkflowEngine().listRuns({
+    status: status || undefined,
+    userId: listingOwner(user) ?? (userId || undefined),
+    limit,
+  })
+
+  return NextResponse.json({ runs })
+}
@@ -0,0 +1,49 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { CDS_HOOKS_CORS_HEADERS, CdsHooksError, getCdsHooksService } from "@/lib/fhir/cds-hooks"
+import { getCdsHooksAuthenticator, getCdsServiceUrl } from "@/lib/fhir/cds-hooks-auth"
+import { FhirError } from "@/lib/fhir/fhir-client"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+/**
+ * Call a CDS service with a hook request from the EHR
+ * Callers authenticate with the JWT CDS clients sign for each call; the response holds the cards to show
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+
+  try {
+    await getCdsHooksAuthenticator().authenticate(
+      request.headers.get("authorization"),
+      getCdsServiceUrl(request.nextUrl.origin, id),
+    )
+
+    const body = await request.json().catch(() => null)
+    const response = await getCdsHooksService().invoke(id, body)
+
+    return NextResponse.json(response, { headers: CDS_HOOKS_CORS_HEADERS })
+  } catch (error) {
+    if (error instanceof CdsHooksError) {
+      return NextResponse.json(
+        { message: error.message },
+        { status: error.statusCode, headers: CDS_HOOKS_CORS_HEADERS },
+      )
+    }
+
+    if (error instanceof FhirError) {
+      return NextResponse.json(
+        { message: error.message, issues: error.issues },
+        { status: error.statusCode, headers: CDS_HOOKS_CORS_HEADERS },
+      )
+    }
+
+    logger.error("Failed to answer CDS hook", {
+      serviceId: id,
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ message: "Failed to answer CDS hook" }, { status: 500, headers: CDS_HOOKS_CORS_HEADERS })
+  }
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, { status: 204, headers: CDS_HOOKS_CORS_HEADERS })
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server"
+import { CDS_HOOKS_CORS_HEADERS, getCdsHooksService } from "@/lib/fhir/cds-hooks"
+
+/**
+ * CDS Hooks discovery: the services Beaker offers, their hooks and prefetch templates
+ */
+export async function GET() {
+  return NextResponse.json(getCdsHooksService().discover(), { headers: CDS_HOOKS_CORS_HEADERS })
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, { status: 204, headers: CDS_HOOKS_CORS_HEADERS })
+}
@@ -0,0 +1,36 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { Permission, hasPermission } from "@/lib/auth/permissions"
+import { ConflictResolutionError, getConflictResolutionService } from "@/lib/matching/conflict-resolution"
+import { getSessionUser } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+/**
+ * Decide a match proposal: { action: "merge" | "not_duplicate" | "defer", choices?, note? }
+ * Merges need a choice of "left" or "right" for every field the records disagree on
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const user = await getSessionUser()
+
+    if (!user) {
+      return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+    }
+
+    if (!hasPermission(user.roles, Permission.RESOLVE_PATIENT_CONFLICTS)) {
+      return NextResponse.json({ message: "You are not allowed to resolve patient conflicts" }, { status: 403 })
+    }
+
+    const proposal = await getConflictResolutionService().resolve(id, await request.json(), user.email || user.id)
+    return NextResponse.json(proposal)
+  } catch (error) {
+    if (error instanceof ConflictResolutionError) {
+      return NextResponse.json({ message: error.message }, { status: error.statusCode })
+    }
+
+    logger.error("Failed to resolve patient match proposal", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ message: "Failed to resolve patient conflict" }, { status: 500 })
+  }
+}
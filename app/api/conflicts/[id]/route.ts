@@ -0,0 +1,36 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { Permission, hasPermission } from "@/lib/auth/permissions"
+import { ConflictResolutionError, getConflictResolutionService } from "@/lib/matching/conflict-resolution"
+import { getSessionUser } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+/**
+ * A match proposal with both records and its audit trail
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const user = await getSessionUser()
+
+    if (!user) {
+      return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+    }
+
+    if (!hasPermission(user.roles, Permission.RESOLVE_PATIENT_CONFLICTS)) {
+      return NextResponse.json({ message: "You are not allowed to resolve patient conflicts" }, { status: 403 })
+    }
+
+    const service = getConflictResolutionService()
+    const [proposal, audit] = await Promise.all([service.get(id), service.audit(id)])
+    return NextResponse.json({ proposal, audit })
+  } catch (error) {
+    if (error instanceof ConflictResolutionError) {
+      return NextResponse.json({ message: error.message }, { status: error.statusCode })
+    }
+
+    logger.error("Failed to load patient match proposal", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ message: "Failed to load patient conflict" }, { status: 500 })
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server"
+import { Permission, hasPermission } from "@/lib/auth/permissions"
+import { getConflictResolutionService } from "@/lib/matching/conflict-resolution"
+import { getSessionUser } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+/**
+ * Every patient match decision, newest first
+ */
+export async function GET() {
+  const user = await getSessionUser()
+
+  if (!user) {
+    return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+  }
+
+  if (!hasPermission(user.roles, Permission.RESOLVE_PATIENT_CONFLICTS)) {
+    return NextResponse.json({ message: "You are not allowed to resolve patient conflicts" }, { status: 403 })
+  }
+
+  try {
+    return NextResponse.json({ entries: await getConflictResolutionService().audit() })
+  } catch (error) {
+    logger.error("Failed to load the patient match audit trail", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ message: "Failed to load the audit trail" }, { status: 500 })
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { Permission, hasPermission } from "@/lib/auth/permissions"
+import {
+  ConflictResolutionError,
+  getConflictResolutionService,
+  parseIngestRequest,
+} from "@/lib/matching/conflict-resolution"
+import { getSessionUser } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+/**
+ * Add patient records to matching and rescore
+ * Takes { records: [{ source, source_id, label?, demographics }] }, { vcf, file_name } with ##SAMPLE header
+ * lines, or { lab_reports: [{ reportId, name, birthDate?, sex?, mrn? }] }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser()
+
+    if (!user) {
+      return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+    }
+
+    if (!hasPermission(user.roles, Permission.RESOLVE_PATIENT_CONFLICTS)) {
+      return NextResponse.json({ message: "You are not allowed to resolve patient conflicts" }, { status: 403 })
+    }
+
+    const inputs = parseIngestRequest(await request.json())
+    return NextResponse.json(await getConflictResolutionService().ingest(inputs))
+  } catch (error) {
+    if (error instanceof ConflictResolutionError) {
+      return NextResponse.json({ message: error.message }, { status: error.statusCode })
+    }
+
+    logger.error("Failed to add patient records to matching", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ message: "Failed to add patient records" }, { status: 500 })
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { Permission, hasPermission } from "@/lib/auth/permissions"
+import { getConflictResolutionService } from "@/lib/matching/conflict-resolution"
+import type { MatchProposalStatus } from "@/lib/matching/match-store"
+import { getSessionUser } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+const STATUSES: MatchProposalStatus[] = ["open", "deferred", "merged", "not_duplicate"]
+
+/**
+ * Proposed duplicate patients, most likely first
+ * ?status= takes a comma separated list and defaults to open,deferred
+ */
+export async function GET(request: NextRequest) {
+  const user = await getSessionUser()
+
+  if (!user) {
+    return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+  }
+
+  if (!hasPermission(user.roles, Permission.RESOLVE_PATIENT_CONFLICTS)) {
+    return NextResponse.json({ message: "You are not allowed to resolve patient conflicts" }, { status: 403 })
+  }
+
+  const requested = request.nextUrl.searchParams.get("status")?.split(",").filter(Boolean)
+  const invalid = requested?.find((status) => !STATUSES.includes(status as MatchProposalStatus))
+  if (invalid) {
+    return NextResponse.json({ message: `Unknown status ${invalid}` }, { status: 400 })
+  }
+
+  try {
+    const proposals = await getConflictResolutionService().list(requested as MatchProposalStatus[] | undefined)
+    return NextResponse.json({ proposals })
+  } catch (error) {
+    logger.error("Failed to list patient match proposals", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ message: "Failed to list patient conflicts" }, { status: 500 })
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server"
+import { Permission, hasPermission } from "@/lib/auth/permissions"
+import { FhirError } from "@/lib/fhir/fhir-client"
+import { getUserFhirClient } from "@/lib/fhir/smart-auth"
+import { getConflictResolutionService } from "@/lib/matching/conflict-resolution"
+import { getSessionUser } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+/**
+ * Load the FHIR server's patients into matching and rescore
+ */
+export async function POST() {
+  try {
+    const user = await getSessionUser()
+
+    if (!user) {
+      return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+    }
+
+    if (!hasPermission(user.roles, Permission.RESOLVE_PATIENT_CONFLICTS)) {
+      return NextResponse.json({ message: "You are not allowed to resolve patient conflicts" }, { status: 403 })
+    }
+
+    const client = await getUserFhirClient(user)
+    return NextResponse.json(await getConflictResolutionService().importFhirPatients(client))
+  } catch (error) {
+    if (error instanceof FhirError) {
+      return NextResponse.json({ message: error.message, issues: error.issues }, { status: error.statusCode })
+    }
+
+    logger.error("Failed to scan FHIR patients for duplicates", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ message: "Failed to scan patients" }, { status: 500 })
+  }
+}
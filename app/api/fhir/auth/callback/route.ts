@@ -0,0 +1,84 @@
+import { NextResponse, type NextRequest } from "next/server"
+import {
+  SMART_AUTHORIZATION_COOKIE,
+  SmartAuthError,
+  getSmartAuthManager,
+  getSmartUserId,
+  type SmartAuthorizationRequest,
+} from "@/lib/fhir/smart-auth"
+import { getSessionUser, isSupabaseConfigured } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+/**
+ * Send the browser back to the page that started the flow, which FhirAuthButton keeps in sessionStorage
+ */
+function returnToApp(result: { success: boolean; error?: string }) {
+  const params = JSON.stringify({
+    fhir_auth: result.success ? "success" : "error",
+    fhir_auth_error: result.error || "",
+  })
+  const html = `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><title>Connecting to FHIR</title></head><body>
+<script>
+  var target = new URL(sessionStorage.getItem("fhir_auth_redirect") || "/", window.location.origin)
+  if (target.origin !== window.location.origin) target = new URL("/", window.location.origin)
+  var params = ${params.replace(/</g, "\\u003c")}
+  Object.keys(params).forEach(function (key) { if (params[key]) target.searchParams.set(key, params[key]) })
+  sessionStorage.removeItem("fhir_auth_redirect")
+  window.location.replace(target.toString())
+</script>
+</body></html>`
+
+  const response = new NextResponse(html, { headers: { "Content-Type": "text/html; charset=utf-8" } })
+  response.cookies.delete({ name: SMART_AUTHORIZATION_COOKIE, path: "/api/fhir/auth" })
+  return response
+}
+
+/**
+ * SMART redirect URI: exchange the authorization code for tokens
+ */
+export async function GET(request: NextRequest) {
+  const query = request.nextUrl.searchParams
+
+  if (query.get("error")) {
+    return returnToApp({ success: false, error: query.get("error_description") || query.get("error") || undefined })
+  }
+
+  const user = await getSessionUser()
+
+  if (!user && isSupabaseConfigured()) {
+    return returnToApp({ success: false, error: "Sign in before connecting to a FHIR server" })
+  }
+
+  try {
+    const cookie = request.cookies.get(SMART_AUTHORIZATION_COOKIE)?.value
+
+    if (!cookie) {
+      throw new SmartAuthError("Authorization request not found, please try connecting again")
+    }
+
+    let authorization: SmartAuthorizationRequest
+    try {
+      authorization = JSON.parse(Buffer.from(cookie, "base64url").toString("utf8"))
+    } catch {
+      throw new SmartAuthError("Authorization request is invalid, please try connecting again")
+    }
+
+    await getSmartAuthManager().completeAuthorization(getSmartUserId(user), authorization, {
+      code: query.get("code"),
+      state: query.get("state"),
+    })
+
+    return returnToApp({ success: true })
+  } catch (error) {
+    if (error instanceof SmartAuthError) {
+      logger.warn("SMART authorization failed", { message: error.message })
+      return returnToApp({ success: false, error: error.message })
+    }
+
+    logger.error("Failed to complete SMART authorization", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return returnToApp({ success: false, error: "Failed to complete FHIR authorization" })
+  }
+}
@@ -0,0 +1,74 @@
+import { NextResponse, type NextRequest } from "next/server"
+import {
+  SMART_AUTHORIZATION_COOKIE,
+  SMART_AUTHORIZATION_TTL_SECONDS,
+  SmartAuthError,
+  getSmartAuthManager,
+  getSmartUserId,
+} from "@/lib/fhir/smart-auth"
+import { getSessionUser, isSupabaseConfigured } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+/**
+ * Start a SMART on FHIR authorization
+ * Used as the SMART launch URL: EHR launches pass iss and launch, standalone launches only a scope
+ */
+export async function GET(request: NextRequest) {
+  const user = await getSessionUser()
+
+  if (!user && isSupabaseConfigured()) {
+    return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+  }
+
+  const query = request.nextUrl.searchParams
+
+  try {
+    const { url, request: authorization } = await getSmartAuthManager().beginAuthorization({
+      iss: query.get("iss"),
+      launch: query.get("launch"),
+      scope: query.get("scope"),
+      redirectUri: process.env.SMART_REDIRECT_URI || `${request.nextUrl.origin}/api/fhir/auth/callback`,
+    })
+
+    const response = NextResponse.redirect(url)
+    response.cookies.set(SMART_AUTHORIZATION_COOKIE, Buffer.from(JSON.stringify(authorization)).toString("base64url"), {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax",
+      path: "/api/fhir/auth",
+      maxAge: SMART_AUTHORIZATION_TTL_SECONDS,
+    })
+
+    return response
+  } catch (error) {
+    if (error instanceof SmartAuthError) {
+      return NextResponse.json({ message: error.message }, { status: error.statusCode })
+    }
+
+    logger.error("Failed to start SMART authorization", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ message: "Failed to start FHIR authorization" }, { status: 500 })
+  }
+}
+
+/**
+ * Disconnect from the FHIR server and forget the stored tokens
+ */
+export async function DELETE() {
+  const user = await getSessionUser()
+
+  if (!user && isSupabaseConfigured()) {
+    return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+  }
+
+  try {
+    await getSmartAuthManager().disconnect(getSmartUserId(user))
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    logger.error("Failed to disconnect from FHIR server", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ message: "Failed to disconnect" }, { status: 500 })
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server"
+import { getSmartAuthManager, getSmartUserId } from "@/lib/fhir/smart-auth"
+import { getSessionUser, isSupabaseConfigured } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+/**
+ * SMART connection state of the current user
+ */
+export async function GET() {
+  const user = await getSessionUser()
+
+  if (!user && isSupabaseConfigured()) {
+    return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+  }
+
+  try {
+    return NextResponse.json(await getSmartAuthManager().getStatus(getSmartUserId(user)))
+  } catch (error) {
+    logger.error("Failed to load SMART connection status", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ message: "Failed to load FHIR connection status" }, { status: 500 })
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { Permission, hasPermission } from "@/lib/auth/permissions"
+import { BulkExportError, getBulkExportManager } from "@/lib/fhir/bulk-export"
+import { getSessionUser } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+/**
+ * Query resources loaded by a bulk export
+ * ?type= is required; job_id (defaults to the latest completed export), patient, code, _count and _offset filter
+ */
+export async function GET(request: NextRequest) {
+  const user = await getSessionUser()
+
+  if (!user) {
+    return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+  }
+
+  if (!hasPermission(user.roles, Permission.VIEW_COHORT_DATA)) {
+    return NextResponse.json({ message: "You are not allowed to view cohort data" }, { status: 403 })
+  }
+
+  const query = request.nextUrl.searchParams
+  const type = query.get("type")
+
+  if (!type) {
+    return NextResponse.json({ message: "type is required" }, { status: 400 })
+  }
+
+  try {
+    return NextResponse.json(
+      await getBulkExportManager().query({
+        type,
+        job_id: query.get("job_id") || undefined,
+        patient: query.get("patient") || undefined,
+        code: query.get("code") || undefined,
+        limit: Number(query.get("_count")) || undefined,
+        offset: Number(query.get("_offset")) || undefined,
+      }),
+    )
+  } catch (error) {
+    if (error instanceof BulkExportError) {
+      return NextResponse.json({ message: error.message }, { status: error.statusCode })
+    }
+
+    logger.error("Failed to query bulk data", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ message: "Failed to query bulk data" }, { status: 500 })
+  }
+}
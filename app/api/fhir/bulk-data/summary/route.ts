@@ -0,0 +1,34 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { Permission, hasPermission } from "@/lib/auth/permissions"
+import { BulkExportError, getBulkExportManager } from "@/lib/fhir/bulk-export"
+import { getSessionUser } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+/**
+ * Cohort counts for a bulk export, the latest completed one unless ?job_id= is given
+ */
+export async function GET(request: NextRequest) {
+  const user = await getSessionUser()
+
+  if (!user) {
+    return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+  }
+
+  if (!hasPermission(user.roles, Permission.VIEW_COHORT_DATA)) {
+    return NextResponse.json({ message: "You are not allowed to view cohort data" }, { status: 403 })
+  }
+
+  try {
+    const jobId = request.nextUrl.searchParams.get("job_id") || undefined
+    return NextResponse.json(await getBulkExportManager().summarize(jobId))
+  } catch (error) {
+    if (error instanceof BulkExportError) {
+      return NextResponse.json({ message: error.message }, { status: error.statusCode })
+    }
+
+    logger.error("Failed to summarize bulk data", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ message: "Failed to summarize bulk data" }, { status: 500 })
+  }
+}
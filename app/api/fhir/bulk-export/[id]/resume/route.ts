@@ -0,0 +1,42 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { Permission, hasPermission } from "@/lib/auth/permissions"
+import { BulkExportError, getBulkExportManager } from "@/lib/fhir/bulk-export"
+import { FhirError } from "@/lib/fhir/fhir-client"
+import { getUserFhirClient } from "@/lib/fhir/smart-auth"
+import { getSessionUser } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+/**
+ * Resume a failed or interrupted bulk export from the last saved download position
+ */
+export async function POST(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const user = await getSessionUser()
+
+  if (!user) {
+    return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+  }
+
+  if (!hasPermission(user.roles, Permission.RUN_BULK_EXPORT)) {
+    return NextResponse.json({ message: "You are not allowed to run bulk exports" }, { status: 403 })
+  }
+
+  try {
+    const job = await getBulkExportManager().resume(id, await getUserFhirClient(user))
+    return NextResponse.json(job, { status: 202 })
+  } catch (error) {
+    if (error instanceof BulkExportError) {
+      return NextResponse.json({ message: error.message }, { status: error.statusCode })
+    }
+
+    if (error instanceof FhirError) {
+      return NextResponse.json({ message: error.message, issues: error.issues }, { status: error.statusCode })
+    }
+
+    logger.error("Failed to resume bulk export", {
+      jobId: id,
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ message: "Failed to resume bulk export" }, { status: 500 })
+  }
+}
@@ -0,0 +1,67 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { Permission, hasPermission } from "@/lib/auth/permissions"
+import { BulkExportError, getBulkExportManager } from "@/lib/fhir/bulk-export"
+import { getUserFhirClient } from "@/lib/fhir/smart-auth"
+import { getSessionUser } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+/**
+ * Read a bulk export with its download progress
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const user = await getSessionUser()
+
+  if (!user) {
+    return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+  }
+
+  if (!hasPermission(user.roles, Permission.VIEW_COHORT_DATA)) {
+    return NextResponse.json({ message: "You are not allowed to view bulk exports" }, { status: 403 })
+  }
+
+  try {
+    const manager = getBulkExportManager()
+    return NextResponse.json({ ...(await manager.getJob(id)), running: manager.isRunning(id) })
+  } catch (error) {
+    if (error instanceof BulkExportError) {
+      return NextResponse.json({ message: error.message }, { status: error.statusCode })
+    }
+
+    logger.error("Failed to read bulk export", {
+      jobId: id,
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ message: "Failed to load bulk export" }, { status: 500 })
+  }
+}
+
+/**
+ * Cancel a bulk export
+ */
+export async function DELETE(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const user = await getSessionUser()
+
+  if (!user) {
+    return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+  }
+
+  if (!hasPermission(user.roles, Permission.RUN_BULK_EXPORT)) {
+    return NextResponse.json({ message: "You are not allowed to run bulk exports" }, { status: 403 })
+  }
+
+  try {
+    return NextResponse.json(await getBulkExportManager().cancel(id, await getUserFhirClient(user)))
+  } catch (error) {
+    if (error instanceof BulkExportError) {
+      return NextResponse.json({ message: error.message }, { status: error.statusCode })
+    }
+
+    logger.error("Failed to cancel bulk export", {
+      jobId: id,
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ message: "Failed to cancel bulk export" }, { status: 500 })
+  }
+}
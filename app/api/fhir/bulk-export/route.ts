@@ -0,0 +1,70 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { Permission, hasPermission } from "@/lib/auth/permissions"
+import { BulkExportError, getBulkExportManager } from "@/lib/fhir/bulk-export"
+import { FhirError } from "@/lib/fhir/fhir-client"
+import { getUserFhirClient } from "@/lib/fhir/smart-auth"
+import { getSessionUser } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+/**
+ * List bulk exports, newest first
+ */
+export async function GET() {
+  const user = await getSessionUser()
+
+  if (!user) {
+    return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+  }
+
+  if (!hasPermission(user.roles, Permission.VIEW_COHORT_DATA)) {
+    return NextResponse.json({ message: "You are not allowed to view bulk exports" }, { status: 403 })
+  }
+
+  try {
+    return NextResponse.json({ jobs: await getBulkExportManager().listJobs() })
+  } catch (error) {
+    logger.error("Failed to list bulk exports", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ message: "Failed to list bulk exports" }, { status: 500 })
+  }
+}
+
+/**
+ * Kick off a system, patient or group $export
+ * Answers once the FHIR server accepts the export; polling and downloads continue in the background
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser()
+
+    if (!user) {
+      return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+    }
+
+    if (!hasPermission(user.roles, Permission.RUN_BULK_EXPORT)) {
+      return NextResponse.json({ message: "You are not allowed to run bulk exports" }, { status: 403 })
+    }
+
+    const manager = getBulkExportManager()
+    const client = await getUserFhirClient(user)
+    const job = await manager.start(client, await request.json(), user.email || user.id)
+
+    manager.run(job.id, client)
+
+    return NextResponse.json(job, { status: 202 })
+  } catch (error) {
+    if (error instanceof BulkExportError) {
+      return NextResponse.json({ message: error.message }, { status: error.statusCode })
+    }
+
+    if (error instanceof FhirError) {
+      return NextResponse.json({ message: error.message, issues: error.issues }, { status: error.statusCode })
+    }
+
+    logger.error("Failed to start bulk export", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ message: "Failed to start bulk export" }, { status: 500 })
+  }
+}
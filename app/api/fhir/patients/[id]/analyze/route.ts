@@ -0,0 +1,36 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { toTaskStatusResponse } from "@/lib/aiden/aiden-client"
+import { AidenTaskError } from "@/lib/aiden/task-engine"
+import { isFhirAnalysisType, submitPatientAnalysis } from "@/lib/fhir/fhir-aiden-integration"
+import { getSessionUser } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+/**
+ * Submit an AIDEN analysis of a patient's record
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+
+  try {
+    const { analysisType, options } = await request.json()
+
+    if (!isFhirAnalysisType(analysisType)) {
+      return NextResponse.json({ message: `Unknown analysis type: ${analysisType}` }, { status: 400 })
+    }
+
+    const user = await getSessionUser()
+    const task = await submitPatientAnalysis(id, analysisType, { ...options, userId: user?.id })
+
+    return NextResponse.json(toTaskStatusResponse(task), { status: 202 })
+  } catch (error) {
+    if (error instanceof AidenTaskError) {
+      return NextResponse.json({ message: error.message }, { status: error.statusCode })
+    }
+
+    logger.error("Failed to submit patient analysis", {
+      patientId: id,
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ message: "Failed to submit patient analysis" }, { status: 500 })
+  }
+}
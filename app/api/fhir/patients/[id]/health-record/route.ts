@@ -0,0 +1,44 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { FhirError } from "@/lib/fhir/fhir-client"
+import { getPatientCacheScope, getPatientDataCache } from "@/lib/fhir/patient-cache"
+import { getPatientHealthRecord } from "@/lib/fhir/patient-record"
+import { getUserFhirClient } from "@/lib/fhir/smart-auth"
+import { getSessionUser, isSupabaseConfigured } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+/**
+ * Read a patient and their conditions, medications, allergies, observations, procedures, immunizations
+ * and diagnostic reports from the FHIR server as a PatientHealthRecord
+ * Served from the patient data cache until a subscription notification invalidates it or ?refresh=true is passed
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const user = await getSessionUser()
+
+  if (!user && isSupabaseConfigured()) {
+    return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+  }
+
+  try {
+    const client = await getUserFhirClient(user)
+    const data = await getPatientDataCache().get(
+      id,
+      getPatientCacheScope(client, user?.id),
+      "health_record",
+      () => getPatientHealthRecord(client, id),
+      { refresh: request.nextUrl.searchParams.get("refresh") === "true" },
+    )
+
+    return NextResponse.json(data)
+  } catch (error) {
+    if (error instanceof FhirError) {
+      return NextResponse.json({ message: error.message, issues: error.issues }, { status: error.statusCode })
+    }
+
+    logger.error("Failed to read FHIR health record", {
+      patientId: id,
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ message: "Failed to load health record" }, { status: 500 })
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { FhirError } from "@/lib/fhir/fhir-client"
+import { toLabPanels } from "@/lib/fhir/lab-panels"
+import { getPatientCacheScope, getPatientDataCache } from "@/lib/fhir/patient-cache"
+import { getPatientHealthRecord } from "@/lib/fhir/patient-record"
+import { getUserFhirClient } from "@/lib/fhir/smart-auth"
+import { getSessionUser, isSupabaseConfigured } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+/**
+ * A patient's laboratory results as lab panels, newest first, built from the cached health record
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const user = await getSessionUser()
+
+  if (!user && isSupabaseConfigured()) {
+    return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+  }
+
+  try {
+    const client = await getUserFhirClient(user)
+    const record = await getPatientDataCache().get(
+      id,
+      getPatientCacheScope(client, user?.id),
+      "health_record",
+      () => getPatientHealthRecord(client, id),
+      { refresh: request.nextUrl.searchParams.get("refresh") === "true" },
+    )
+
+    return NextResponse.json({ panels: toLabPanels(record) })
+  } catch (error) {
+    if (error instanceof FhirError) {
+      return NextResponse.json({ message: error.message, issues: error.issues }, { status: error.statusCode })
+    }
+
+    logger.error("Failed to read FHIR lab results", {
+      patientId: id,
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ message: "Failed to load lab results" }, { status: 500 })
+  }
+}
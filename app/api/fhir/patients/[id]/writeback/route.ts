@@ -0,0 +1,59 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { WritebackError, getFhirWritebackManager } from "@/lib/fhir/fhir-writeback"
+import { getSessionUser, isSupabaseConfigured } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+/**
+ * Write-back drafts for a patient, newest first
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const user = await getSessionUser()
+
+  if (!user && isSupabaseConfigured()) {
+    return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+  }
+
+  try {
+    return NextResponse.json({ drafts: await getFhirWritebackManager().listDrafts({ patient_id: id }) })
+  } catch (error) {
+    logger.error("Failed to list write-back drafts", {
+      patientId: id,
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ message: "Failed to list write-back drafts" }, { status: 500 })
+  }
+}
+
+/**
+ * Draft a clinical summary, risk assessment or genomic findings for clinician review before publishing
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+
+  try {
+    const user = await getSessionUser()
+
+    if (!user && isSupabaseConfigured()) {
+      return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+    }
+
+    const draft = await getFhirWritebackManager().createDraft(
+      id,
+      await request.json(),
+      user?.email || user?.id || "anonymous",
+    )
+
+    return NextResponse.json(draft, { status: 201 })
+  } catch (error) {
+    if (error instanceof WritebackError) {
+      return NextResponse.json({ message: error.message }, { status: error.statusCode })
+    }
+
+    logger.error("Failed to create write-back draft", {
+      patientId: id,
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ message: "Failed to create write-back draft" }, { status: 500 })
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { FhirError, type FhirBundle, type FhirPatient } from "@/lib/fhir/fhir-client"
+import { PatientSearchError, decodeSearchCursor, parsePatientSearch, withCursorLinks } from "@/lib/fhir/patient-search"
+import { getUserFhirClient } from "@/lib/fhir/smart-auth"
+import { getSessionUser, isSupabaseConfigured } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+/**
+ * Search patients on the FHIR server
+ * Accepts FHIR search syntax (modifiers, date prefixes, _has chains, _sort) and returns the searchset Bundle with
+ * its page links rewritten to this route with a _cursor, which continues the search where the link points
+ */
+export async function GET(request: NextRequest) {
+  const user = await getSessionUser()
+
+  if (!user && isSupabaseConfigured()) {
+    return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+  }
+
+  const query = request.nextUrl.searchParams
+  const cursor = query.get("_cursor")
+
+  try {
+    const client = await getUserFhirClient(user)
+    const bundle = cursor
+      ? await client.request<FhirBundle<FhirPatient>>(decodeSearchCursor(cursor, client.getBaseUrl()))
+      : await client.search<FhirPatient>("Patient", parsePatientSearch(query).params)
+
+    return NextResponse.json(withCursorLinks(bundle, `${request.nextUrl.origin}${request.nextUrl.pathname}`))
+  } catch (error) {
+    if (error instanceof PatientSearchError) {
+      return NextResponse.json({ message: error.message }, { status: error.statusCode })
+    }
+
+    if (error instanceof FhirError) {
+      return NextResponse.json({ message: error.message, issues: error.issues }, { status: error.statusCode })
+    }
+
+    logger.error("Failed to search FHIR patients", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ message: "Failed to search patients" }, { status: 500 })
+  }
+}
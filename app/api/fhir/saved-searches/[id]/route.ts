@@ -0,0 +1,56 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { SavedSearchError, getSavedPatientSearchService } from "@/lib/fhir/saved-searches"
+import { getSessionUser, isSupabaseConfigured } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+/**
+ * Rename, change or (un)share a saved search the user owns: { name?, query?, shared? }
+ */
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const user = await getSessionUser()
+
+    if (!user && isSupabaseConfigured()) {
+      return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+    }
+
+    const search = await getSavedPatientSearchService().update(id, user?.id || "anonymous", await request.json())
+    return NextResponse.json(search)
+  } catch (error) {
+    if (error instanceof SavedSearchError) {
+      return NextResponse.json({ message: error.message }, { status: error.statusCode })
+    }
+
+    logger.error("Failed to update saved patient search", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ message: "Failed to update saved search" }, { status: 500 })
+  }
+}
+
+/**
+ * Delete a saved search the user owns
+ */
+export async function DELETE(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const user = await getSessionUser()
+
+    if (!user && isSupabaseConfigured()) {
+      return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+    }
+
+    await getSavedPatientSearchService().remove(id, user?.id || "anonymous")
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    if (error instanceof SavedSearchError) {
+      return NextResponse.json({ message: error.message }, { status: error.statusCode })
+    }
+
+    logger.error("Failed to delete saved patient search", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ message: "Failed to delete saved search" }, { status: 500 })
+  }
+}
@@ -0,0 +1,52 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { SavedSearchError, getSavedPatientSearchService } from "@/lib/fhir/saved-searches"
+import { getSessionUser, isSupabaseConfigured } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+/**
+ * Saved patient searches of the signed-in user, and searches other users shared
+ * Without Supabase every request is the same anonymous user
+ */
+export async function GET() {
+  const user = await getSessionUser()
+
+  if (!user && isSupabaseConfigured()) {
+    return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+  }
+
+  try {
+    return NextResponse.json({ searches: await getSavedPatientSearchService().list(user?.id || "anonymous") })
+  } catch (error) {
+    logger.error("Failed to list saved patient searches", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ message: "Failed to list saved searches" }, { status: 500 })
+  }
+}
+
+/**
+ * Save a patient search: { name, query, shared? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser()
+
+    if (!user && isSupabaseConfigured()) {
+      return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+    }
+
+    const owner = { id: user?.id || "anonymous", name: user?.email || user?.id || "anonymous" }
+    const search = await getSavedPatientSearchService().create(owner, await request.json())
+
+    return NextResponse.json(search, { status: 201 })
+  } catch (error) {
+    if (error instanceof SavedSearchError) {
+      return NextResponse.json({ message: error.message }, { status: error.statusCode })
+    }
+
+    logger.error("Failed to save patient search", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ message: "Failed to save search" }, { status: 500 })
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { getFhirHealthMonitor } from "@/lib/fhir/fhir-health"
+import { getSmartAuthManager, getSmartUserId, getUserFhirClient } from "@/lib/fhir/smart-auth"
+import { getSessionUser, isSupabaseConfigured } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+/**
+ * Health of the current user's FHIR connection with recent history
+ * Reports are cached briefly; ?refresh=true runs the checks again
+ */
+export async function GET(request: NextRequest) {
+  const user = await getSessionUser()
+
+  if (!user && isSupabaseConfigured()) {
+    return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+  }
+
+  const userId = getSmartUserId(user)
+
+  try {
+    const status = await getFhirHealthMonitor().getStatus(
+      userId,
+      async () => {
+        const connection = await getSmartAuthManager().getStatus(userId)
+        return { client: await getUserFhirClient(user), connection: connection.iss ? connection : null }
+      },
+      { refresh: request.nextUrl.searchParams.get("refresh") === "true" },
+    )
+
+    return NextResponse.json(status)
+  } catch (error) {
+    logger.error("Failed to check FHIR connection health", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ message: "Failed to check FHIR connection" }, { status: 500 })
+  }
+}
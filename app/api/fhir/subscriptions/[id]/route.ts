@@ -0,0 +1,43 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { Permission, hasPermission } from "@/lib/auth/permissions"
+import { FhirError } from "@/lib/fhir/fhir-client"
+import { FhirSubscriptionError, getFhirSubscriptionManager } from "@/lib/fhir/fhir-subscriptions"
+import { getUserFhirClient } from "@/lib/fhir/smart-auth"
+import { getSessionUser } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+/**
+ * Delete a subscription from the FHIR server and stop accepting its notifications
+ */
+export async function DELETE(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+
+  try {
+    const user = await getSessionUser()
+
+    if (!user) {
+      return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+    }
+
+    if (!hasPermission(user.roles, Permission.MANAGE_FHIR_SUBSCRIPTIONS)) {
+      return NextResponse.json({ message: "You are not allowed to manage FHIR subscriptions" }, { status: 403 })
+    }
+
+    const client = await getUserFhirClient(user)
+    return NextResponse.json(await getFhirSubscriptionManager().remove(id, client, user.email || user.id))
+  } catch (error) {
+    if (error instanceof FhirSubscriptionError) {
+      return NextResponse.json({ message: error.message }, { status: error.statusCode })
+    }
+
+    if (error instanceof FhirError) {
+      return NextResponse.json({ message: error.message, issues: error.issues }, { status: error.statusCode })
+    }
+
+    logger.error("Failed to delete FHIR subscription", {
+      subscriptionId: id,
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ message: "Failed to delete FHIR subscription" }, { status: 500 })
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { FhirSubscriptionError, getFhirSubscriptionManager } from "@/lib/fhir/fhir-subscriptions"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+/**
+ * Notification from the FHIR server for a subscription, authorized by the subscription's bearer secret
+ * instead of a user session
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+
+  try {
+    let body: unknown
+
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ message: "Request body must be JSON" }, { status: 400 })
+    }
+
+    const result = await getFhirSubscriptionManager().receive(id, request.headers.get("authorization"), body)
+    return NextResponse.json(result)
+  } catch (error) {
+    if (error instanceof FhirSubscriptionError) {
+      return NextResponse.json({ message: error.message }, { status: error.statusCode })
+    }
+
+    logger.error("Failed to handle FHIR subscription notification", {
+      subscriptionId: id,
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ message: "Failed to handle notification" }, { status: 500 })
+  }
+}
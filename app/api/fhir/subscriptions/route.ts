@@ -0,0 +1,72 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { Permission, hasPermission } from "@/lib/auth/permissions"
+import { FhirError } from "@/lib/fhir/fhir-client"
+import { FhirSubscriptionError, getFhirSubscriptionManager } from "@/lib/fhir/fhir-subscriptions"
+import { getUserFhirClient } from "@/lib/fhir/smart-auth"
+import { getSessionUser } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+/**
+ * List FHIR subscriptions, newest first
+ */
+export async function GET() {
+  const user = await getSessionUser()
+
+  if (!user) {
+    return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+  }
+
+  if (!hasPermission(user.roles, Permission.MANAGE_FHIR_SUBSCRIPTIONS)) {
+    return NextResponse.json({ message: "You are not allowed to manage FHIR subscriptions" }, { status: 403 })
+  }
+
+  try {
+    return NextResponse.json({ subscriptions: await getFhirSubscriptionManager().list() })
+  } catch (error) {
+    logger.error("Failed to list FHIR subscriptions", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ message: "Failed to list FHIR subscriptions" }, { status: 500 })
+  }
+}
+
+/**
+ * Subscribe to a SubscriptionTopic on the FHIR server
+ * Notifications are posted to FHIR_SUBSCRIPTION_WEBHOOK_BASE_URL when set, e.g. behind a proxy, or to this origin
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser()
+
+    if (!user) {
+      return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+    }
+
+    if (!hasPermission(user.roles, Permission.MANAGE_FHIR_SUBSCRIPTIONS)) {
+      return NextResponse.json({ message: "You are not allowed to manage FHIR subscriptions" }, { status: 403 })
+    }
+
+    const client = await getUserFhirClient(user)
+    const subscription = await getFhirSubscriptionManager().create(
+      client,
+      await request.json(),
+      process.env.FHIR_SUBSCRIPTION_WEBHOOK_BASE_URL || request.nextUrl.origin,
+      user.email || user.id,
+    )
+
+    return NextResponse.json(subscription, { status: 201 })
+  } catch (error) {
+    if (error instanceof FhirSubscriptionError) {
+      return NextResponse.json({ message: error.message }, { status: error.statusCode })
+    }
+
+    if (error instanceof FhirError) {
+      return NextResponse.json({ message: error.message, issues: error.issues }, { status: error.statusCode })
+    }
+
+    logger.error("Failed to create FHIR subscription", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ message: "Failed to create FHIR subscription" }, { status: 500 })
+  }
+}
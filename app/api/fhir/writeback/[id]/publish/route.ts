@@ -0,0 +1,43 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { Permission, hasPermission } from "@/lib/auth/permissions"
+import { FhirError } from "@/lib/fhir/fhir-client"
+import { WritebackError, getFhirWritebackManager } from "@/lib/fhir/fhir-writeback"
+import { getUserFhirClient } from "@/lib/fhir/smart-auth"
+import { getSessionUser } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+/**
+ * Retry publishing a signed draft that failed; resources the EHR already has are not created again
+ */
+export async function POST(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+
+  try {
+    const user = await getSessionUser()
+
+    if (!user) {
+      return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+    }
+
+    if (!hasPermission(user.roles, Permission.SIGN_CLINICAL_DOCUMENTS)) {
+      return NextResponse.json({ message: "You are not allowed to publish clinical documents" }, { status: 403 })
+    }
+
+    const client = await getUserFhirClient(user)
+    return NextResponse.json(await getFhirWritebackManager().publish(id, client))
+  } catch (error) {
+    if (error instanceof WritebackError) {
+      return NextResponse.json({ message: error.message }, { status: error.statusCode })
+    }
+
+    if (error instanceof FhirError) {
+      return NextResponse.json({ message: error.message, issues: error.issues }, { status: error.statusCode })
+    }
+
+    logger.error("Failed to publish write-back draft", {
+      draftId: id,
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ message: "Failed to publish write-back draft" }, { status: 500 })
+  }
+}
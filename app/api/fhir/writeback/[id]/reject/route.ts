@@ -0,0 +1,37 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { Permission, hasPermission } from "@/lib/auth/permissions"
+import { WritebackError, getFhirWritebackManager } from "@/lib/fhir/fhir-writeback"
+import { getSessionUser } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+/**
+ * Reject a draft during review so it is never published
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+
+  try {
+    const user = await getSessionUser()
+
+    if (!user) {
+      return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+    }
+
+    if (!hasPermission(user.roles, Permission.SIGN_CLINICAL_DOCUMENTS)) {
+      return NextResponse.json({ message: "You are not allowed to review clinical documents" }, { status: 403 })
+    }
+
+    const { reason } = await request.json()
+    return NextResponse.json(await getFhirWritebackManager().reject(id, reason, user.email || user.id))
+  } catch (error) {
+    if (error instanceof WritebackError) {
+      return NextResponse.json({ message: error.message }, { status: error.statusCode })
+    }
+
+    logger.error("Failed to reject write-back draft", {
+      draftId: id,
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ message: "Failed to reject write-back draft" }, { status: 500 })
+  }
+}
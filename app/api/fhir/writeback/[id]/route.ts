@@ -0,0 +1,30 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { WritebackError, getFhirWritebackManager } from "@/lib/fhir/fhir-writeback"
+import { getSessionUser, isSupabaseConfigured } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+/**
+ * A write-back draft with its review and publishing history
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const user = await getSessionUser()
+
+  if (!user && isSupabaseConfigured()) {
+    return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+  }
+
+  try {
+    return NextResponse.json(await getFhirWritebackManager().getDraft(id))
+  } catch (error) {
+    if (error instanceof WritebackError) {
+      return NextResponse.json({ message: error.message }, { status: error.statusCode })
+    }
+
+    logger.error("Failed to load write-back draft", {
+      draftId: id,
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ message: "Failed to load write-back draft" }, { status: 500 })
+  }
+}
@@ -0,0 +1,54 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { Permission, hasPermission } from "@/lib/auth/permissions"
+import { FhirError } from "@/lib/fhir/fhir-client"
+import { WritebackError, getFhirWritebackManager } from "@/lib/fhir/fhir-writeback"
+import { getSmartAuthManager, getSmartUserId, getUserFhirClient } from "@/lib/fhir/smart-auth"
+import { getSessionUser } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+/**
+ * Sign a reviewed draft, optionally with an edited narrative, and publish it to the EHR
+ * The response is the draft, published or failed with the error when the EHR could not be reached
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+
+  try {
+    const user = await getSessionUser()
+
+    if (!user) {
+      return NextResponse.json({ message: "Authentication required" }, { status: 401 })
+    }
+
+    if (!hasPermission(user.roles, Permission.SIGN_CLINICAL_DOCUMENTS)) {
+      return NextResponse.json({ message: "You are not allowed to sign clinical documents" }, { status: 403 })
+    }
+
+    const { narrative } = await request.json().catch(() => ({}))
+    const smartToken = await getSmartAuthManager().getToken(getSmartUserId(user))
+    const client = await getUserFhirClient(user)
+
+    const draft = await getFhirWritebackManager().sign(
+      id,
+      client,
+      { user_id: user.id, display: user.email || user.id, reference: smartToken?.fhir_user || null },
+      { narrative },
+    )
+
+    return NextResponse.json(draft)
+  } catch (error) {
+    if (error instanceof WritebackError) {
+      return NextResponse.json({ message: error.message }, { status: error.statusCode })
+    }
+
+    if (error instanceof FhirError) {
+      return NextResponse.json({ message: error.message, issues: error.issues }, { status: error.statusCode })
+    }
+
+    logger.error("Failed to sign write-back draft", {
+      draftId: id,
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ message: "Failed to sign write-back draft" }, { status: 500 })
+  }
+}
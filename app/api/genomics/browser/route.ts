@@ -0,0 +1,37 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { GenomicRegionError, formatRegion } from "@/lib/genomics/browser/region"
+import { getGenomeBrowserService } from "@/lib/genomics/browser/service"
+import { getSessionUser, isSupabaseConfigured } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+/**
+ * Genome browser tracks for a region: ?region=chr17:43,044,295-43,125,483, or ?gene=BRCA1 for the gene's locus
+ */
+export async function GET(request: NextRequest) {
+  const user = await getSessionUser()
+
+  if (!user && isSupabaseConfigured()) {
+    return NextResponse.json({ error: { message: "Authentication required" } }, { status: 401 })
+  }
+
+  const params = new URL(request.url).searchParams
+  const [region, gene] = [params.get("region"), params.get("gene")]
+  if (!region && !gene) {
+    return NextResponse.json({ error: { message: "region or gene is required" } }, { status: 400 })
+  }
+
+  try {
+    const service = getGenomeBrowserService()
+    const query = region || formatRegion(await service.locate(gene!))
+    return NextResponse.json(await service.tracks(query))
+  } catch (error) {
+    if (error instanceof GenomicRegionError) {
+      return NextResponse.json({ error: { message: error.message } }, { status: error.statusCode })
+    }
+
+    logger.error("Failed to load genome browser tracks", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ error: { message: "Failed to load the genome browser tracks" } }, { status: 500 })
+  }
+}
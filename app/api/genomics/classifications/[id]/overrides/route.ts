@@ -0,0 +1,42 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { Permission, hasPermission } from "@/lib/auth/permissions"
+import { getVariantReclassificationService } from "@/lib/genomics/reclassification"
+import { VariantClassificationError, getVariantClassificationService } from "@/lib/genomics/variant-classification"
+import { getSessionUser } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+/**
+ * Override one ACMG/AMP criterion: { criterion, met: true | false | null, strength?, justification }
+ * met null hands the criterion back to automatic evaluation. Returns the reclassified variant; when its tier changed,
+ * the clinicians of patients it was reported to get re-contact tasks.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const user = await getSessionUser()
+
+    if (!user) {
+      return NextResponse.json({ error: { message: "Authentication required" } }, { status: 401 })
+    }
+
+    if (!hasPermission(user.roles, Permission.CURATE_VARIANTS)) {
+      return NextResponse.json(
+        { error: { message: "You are not allowed to curate variant classifications" } },
+        { status: 403 },
+      )
+    }
+
+    const record = await getVariantClassificationService().override(id, await request.json(), user.email || user.id)
+    await getVariantReclassificationService().review(id)
+    return NextResponse.json(record)
+  } catch (error) {
+    if (error instanceof VariantClassificationError) {
+      return NextResponse.json({ error: { message: error.message } }, { status: error.statusCode })
+    }
+
+    logger.error("Failed to override variant classification criterion", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ error: { message: "Failed to override the criterion" } }, { status: 500 })
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { VariantClassificationError, getVariantClassificationService } from "@/lib/genomics/variant-classification"
+import { getSessionUser, isSupabaseConfigured } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+/**
+ * A variant's ACMG/AMP classification with its evidence trail: the automatic criteria, the curator overrides and
+ * the snapshot releases they came from
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const user = await getSessionUser()
+
+  if (!user && isSupabaseConfigured()) {
+    return NextResponse.json({ error: { message: "Authentication required" } }, { status: 401 })
+  }
+
+  try {
+    const { id } = await params
+    return NextResponse.json(await getVariantClassificationService().get(id))
+  } catch (error) {
+    if (error instanceof VariantClassificationError) {
+      return NextResponse.json({ error: { message: error.message } }, { status: error.statusCode })
+    }
+
+    logger.error("Failed to load variant classification", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ error: { message: "Failed to load the variant classification" } }, { status: 500 })
+  }
+}
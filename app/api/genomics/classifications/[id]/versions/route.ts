@@ -0,0 +1,31 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { getVariantReclassificationService } from "@/lib/genomics/reclassification"
+import { VariantClassificationError } from "@/lib/genomics/variant-classification"
+import { getSessionUser, isSupabaseConfigured } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+/**
+ * A variant's evolution: every classification version, oldest first, the patients it was reported to and the
+ * re-contact tasks its reclassifications raised
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const user = await getSessionUser()
+
+  if (!user && isSupabaseConfigured()) {
+    return NextResponse.json({ error: { message: "Authentication required" } }, { status: 401 })
+  }
+
+  try {
+    const { id } = await params
+    return NextResponse.json(await getVariantReclassificationService().evolution(id))
+  } catch (error) {
+    if (error instanceof VariantClassificationError) {
+      return NextResponse.json({ error: { message: error.message } }, { status: error.statusCode })
+    }
+
+    logger.error("Failed to load variant evolution", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ error: { message: "Failed to load the variant evolution" } }, { status: 500 })
+  }
+}
@@ -0,0 +1,61 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { GenomicEnrichmentError, getGenomicEnrichmentService } from "@/lib/agent/services/genomic-enrichment/service"
+import { VariantUploadError } from "@/lib/genomics/variant-uploads"
+import { VcfFormatError } from "@/lib/genomics/vcf-parser"
+import { getSessionUser, isSupabaseConfigured } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+/**
+ * Installed knowledge source snapshots and their provenance
+ */
+export async function GET() {
+  const user = await getSessionUser()
+
+  if (!user && isSupabaseConfigured()) {
+    return NextResponse.json({ error: { message: "Authentication required" } }, { status: 401 })
+  }
+
+  try {
+    return NextResponse.json({ sources: await getGenomicEnrichmentService().snapshots() })
+  } catch (error) {
+    logger.error("Failed to load knowledge source snapshots", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ error: { message: "Failed to load knowledge sources" } }, { status: 500 })
+  }
+}
+
+/**
+ * Enrich uploaded variants from the local knowledge source snapshots
+ * Takes { data, encoding?, format, sources } where format is vcf, beaker, json or cnv (copy-number segments) and
+ * sources lists the knowledge sources to apply. Records that cannot be read are skipped and listed in errors with
+ * their line number.
+ */
+export async function POST(request: NextRequest) {
+  const user = await getSessionUser()
+
+  if (!user && isSupabaseConfigured()) {
+    return NextResponse.json({ error: { message: "Authentication required" } }, { status: 401 })
+  }
+
+  try {
+    const result = await getGenomicEnrichmentService().enrichUpload(await request.json())
+    return NextResponse.json(result)
+  } catch (error) {
+    if (error instanceof VcfFormatError) {
+      const errors = [{ line: error.line, message: error.message }]
+      return NextResponse.json(
+        { error: { message: `Line ${error.line}: ${error.message}`, errors } },
+        { status: error.statusCode },
+      )
+    }
+    if (error instanceof GenomicEnrichmentError || error instanceof VariantUploadError) {
+      return NextResponse.json({ error: { message: error.message } }, { status: error.statusCode })
+    }
+
+    logger.error("Failed to enrich genomic data", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ error: { message: "Failed to enrich genomic data" } }, { status: 500 })
+  }
+}
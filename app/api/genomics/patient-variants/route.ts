@@ -0,0 +1,67 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { Permission, hasPermission } from "@/lib/auth/permissions"
+import { ReclassificationError, getVariantReclassificationService } from "@/lib/genomics/reclassification"
+import { getSessionUser, isSupabaseConfigured } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+/**
+ * Variants reported to patients and tracked for reclassification, optionally for one patient_id or variant_id
+ */
+export async function GET(request: NextRequest) {
+  const user = await getSessionUser()
+
+  if (!user && isSupabaseConfigured()) {
+    return NextResponse.json({ error: { message: "Authentication required" } }, { status: 401 })
+  }
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const variants = await getVariantReclassificationService().listPatientVariants({
+      patient_id: searchParams.get("patient_id") || undefined,
+      variant_id: searchParams.get("variant_id") || undefined,
+    })
+
+    return NextResponse.json({ variants })
+  } catch (error) {
+    logger.error("Failed to list patient variants", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ error: { message: "Failed to list patient variants" } }, { status: 500 })
+  }
+}
+
+/**
+ * Track variants reported outside the EHR write-back: { patient_id, variants }
+ * The signed-in clinician becomes the ordering clinician who is alerted when a variant is reclassified.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser()
+
+    if (!user) {
+      return NextResponse.json({ error: { message: "Authentication required" } }, { status: 401 })
+    }
+
+    if (!hasPermission(user.roles, Permission.SIGN_CLINICAL_DOCUMENTS)) {
+      return NextResponse.json(
+        { error: { message: "You are not allowed to report genomic findings" } },
+        { status: 403 },
+      )
+    }
+
+    const variants = await getVariantReclassificationService().track(await request.json(), {
+      id: user.id,
+      name: user.email || null,
+    })
+    return NextResponse.json({ variants }, { status: 201 })
+  } catch (error) {
+    if (error instanceof ReclassificationError) {
+      return NextResponse.json({ error: { message: error.message } }, { status: error.statusCode })
+    }
+
+    logger.error("Failed to track patient variants", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ error: { message: "Failed to track the patient variants" } }, { status: 500 })
+  }
+}
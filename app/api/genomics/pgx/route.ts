@@ -0,0 +1,71 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { Permission, hasPermission } from "@/lib/auth/permissions"
+import { PgxError, getPharmacogenomicsService } from "@/lib/genomics/pgx/service"
+import { VcfFormatError } from "@/lib/genomics/vcf-parser"
+import { getSessionUser, isSupabaseConfigured } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+/**
+ * A patient's pharmacogenomic reports, newest first: ?patient_id=
+ */
+export async function GET(request: NextRequest) {
+  const user = await getSessionUser()
+
+  if (!user && isSupabaseConfigured()) {
+    return NextResponse.json({ error: { message: "Authentication required" } }, { status: 401 })
+  }
+
+  const patientId = new URL(request.url).searchParams.get("patient_id")
+  if (!patientId) {
+    return NextResponse.json({ error: { message: "patient_id is required" } }, { status: 400 })
+  }
+
+  try {
+    return NextResponse.json({ reports: await getPharmacogenomicsService().listReports(patientId) })
+  } catch (error) {
+    logger.error("Failed to list PGx reports", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ error: { message: "Failed to list pharmacogenomic reports" } }, { status: 500 })
+  }
+}
+
+/**
+ * Call star alleles, diplotypes and phenotypes from an uploaded VCF: { patient_id, data, encoding?, sample?,
+ * file_name? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser()
+
+    if (!user) {
+      return NextResponse.json({ error: { message: "Authentication required" } }, { status: 401 })
+    }
+
+    if (!hasPermission(user.roles, Permission.SIGN_CLINICAL_DOCUMENTS)) {
+      return NextResponse.json(
+        { error: { message: "You are not allowed to report pharmacogenomic results" } },
+        { status: 403 },
+      )
+    }
+
+    const report = await getPharmacogenomicsService().genotype(await request.json(), user.id)
+    return NextResponse.json(report, { status: 201 })
+  } catch (error) {
+    if (error instanceof VcfFormatError) {
+      const errors = [{ line: error.line, message: error.message }]
+      return NextResponse.json(
+        { error: { message: `Line ${error.line}: ${error.message}`, errors } },
+        { status: error.statusCode },
+      )
+    }
+    if (error instanceof PgxError) {
+      return NextResponse.json({ error: { message: error.message } }, { status: error.statusCode })
+    }
+
+    logger.error("Failed to genotype pharmacogenes", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ error: { message: "Failed to call the pharmacogenomic results" } }, { status: 500 })
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { Permission, hasPermission } from "@/lib/auth/permissions"
+import { ReclassificationError, getVariantReclassificationService } from "@/lib/genomics/reclassification"
+import { getSessionUser } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+/**
+ * Reclassify every reported variant against the installed knowledge source snapshots
+ * Returns the re-contact tasks raised for variants whose ACMG/AMP tier changed.
+ */
+export async function POST(_request: NextRequest) {
+  try {
+    const user = await getSessionUser()
+
+    if (!user) {
+      return NextResponse.json({ error: { message: "Authentication required" } }, { status: 401 })
+    }
+
+    if (!hasPermission(user.roles, Permission.CURATE_VARIANTS)) {
+      return NextResponse.json(
+        { error: { message: "You are not allowed to curate variant classifications" } },
+        { status: 403 },
+      )
+    }
+
+    return NextResponse.json(await getVariantReclassificationService().scan())
+  } catch (error) {
+    if (error instanceof ReclassificationError) {
+      return NextResponse.json({ error: { message: error.message } }, { status: error.statusCode })
+    }
+
+    logger.error("Failed to scan reported variants for reclassification", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ error: { message: "Failed to check for reclassified variants" } }, { status: 500 })
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { Permission, hasPermission } from "@/lib/auth/permissions"
+import { ReclassificationError, getVariantReclassificationService } from "@/lib/genomics/reclassification"
+import { getSessionUser } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+/**
+ * Resolve a re-contact task: { status: "contacted" | "dismissed", note? }; dismissing needs a note
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const user = await getSessionUser()
+
+    if (!user) {
+      return NextResponse.json({ error: { message: "Authentication required" } }, { status: 401 })
+    }
+
+    if (!hasPermission(user.roles, Permission.SIGN_CLINICAL_DOCUMENTS)) {
+      return NextResponse.json(
+        { error: { message: "You are not allowed to resolve re-contact tasks" } },
+        { status: 403 },
+      )
+    }
+
+    const task = await getVariantReclassificationService().resolveTask(id, await request.json(), user.email || user.id)
+    return NextResponse.json(task)
+  } catch (error) {
+    if (error instanceof ReclassificationError) {
+      return NextResponse.json({ error: { message: error.message } }, { status: error.statusCode })
+    }
+
+    logger.error("Failed to resolve re-contact task", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ error: { message: "Failed to resolve the re-contact task" } }, { status: 500 })
+  }
+}
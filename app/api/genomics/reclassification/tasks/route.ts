@@ -0,0 +1,42 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { getVariantReclassificationService } from "@/lib/genomics/reclassification"
+import type { RecontactTaskStatus } from "@/lib/genomics/reclassification-store"
+import { getSessionUser, isSupabaseConfigured } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+const STATUSES: RecontactTaskStatus[] = ["open", "contacted", "dismissed", "superseded"]
+
+/**
+ * Re-contact tasks, newest first
+ * Filter with status, patient_id and variant_id; assignee=me limits the list to the signed-in clinician's tasks.
+ */
+export async function GET(request: NextRequest) {
+  const user = await getSessionUser()
+
+  if (!user && isSupabaseConfigured()) {
+    return NextResponse.json({ error: { message: "Authentication required" } }, { status: 401 })
+  }
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get("status") as RecontactTaskStatus | null
+
+    if (status && !STATUSES.includes(status)) {
+      return NextResponse.json({ error: { message: `status must be one of ${STATUSES.join(", ")}` } }, { status: 400 })
+    }
+
+    const tasks = await getVariantReclassificationService().listTasks({
+      status: status || undefined,
+      patient_id: searchParams.get("patient_id") || undefined,
+      variant_id: searchParams.get("variant_id") || undefined,
+      assignee_id: searchParams.get("assignee") === "me" ? user?.id : undefined,
+    })
+
+    return NextResponse.json({ tasks })
+  } catch (error) {
+    logger.error("Failed to list re-contact tasks", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ error: { message: "Failed to list re-contact tasks" } }, { status: 500 })
+  }
+}
@@ -0,0 +1,55 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { VcfFormatError, parseVcf } from "@/lib/genomics/vcf-parser"
+import { toGenomicVariant } from "@/lib/genomics/vcf-variants"
+import { getSessionUser, isSupabaseConfigured } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+/** Variants returned from one upload; larger files are cut off with a line error */
+const MAX_VARIANTS = 50000
+
+/**
+ * Parse an uploaded VCF into GenomicVariants
+ * Takes { data, encoding? } where data is the VCF text, or the base64 of a gzip or BGZF file with encoding
+ * "base64". Records that cannot be read are skipped and listed in errors with their line number.
+ */
+export async function POST(request: NextRequest) {
+  const user = await getSessionUser()
+
+  if (!user && isSupabaseConfigured()) {
+    return NextResponse.json({ error: { message: "Authentication required" } }, { status: 401 })
+  }
+
+  try {
+    const { data, encoding } = await request.json()
+
+    if (typeof data !== "string" || !data.trim()) {
+      return NextResponse.json({ error: { message: "data must hold the VCF file" } }, { status: 400 })
+    }
+
+    const result = await parseVcf(encoding === "base64" ? Buffer.from(data, "base64") : data, {
+      maxVariants: MAX_VARIANTS,
+    })
+
+    return NextResponse.json({
+      fileFormat: result.header.fileFormat,
+      samples: result.header.samples,
+      variants: result.variants.map((variant) => toGenomicVariant(variant, result.header)),
+      recordCount: result.recordCount,
+      errors: result.errors,
+      errorCount: result.errorCount,
+    })
+  } catch (error) {
+    if (error instanceof VcfFormatError) {
+      const errors = [{ line: error.line, message: error.message }]
+      return NextResponse.json(
+        { error: { message: `Line ${error.line}: ${error.message}`, errors } },
+        { status: error.statusCode },
+      )
+    }
+
+    logger.error("Failed to parse uploaded VCF", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    return NextResponse.json({ error: { message: "Failed to read the VCF file" } }, { status: 500 })
+  }
+}
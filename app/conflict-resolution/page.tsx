@@ -0,0 +1,10 @@
+import { DashboardLayout } from "@/components/layout/dashboard-layout"
+import { ConflictResolution } from "@/components/conflicts/conflict-resolution"
+
+export default function ConflictResolutionPage() {
+  return (
+    <DashboardLayout>
+      <ConflictResolution />
+    </DashboardLayout>
+  )
+}
@@ -0,0 +1,10 @@
+import { DashboardLayout } from "@/components/layout/dashboard-layout"
+import { GenomicEnrichmentWorkspace } from "@/components/genomics/genomic-enrichment-workspace"
+
+export default function GenomicEnrichmentPage() {
+  return (
+    <DashboardLayout>
+      <GenomicEnrichmentWorkspace />
+    </DashboardLayout>
+  )
+}
@@ -0,0 +1,10 @@
+import { DashboardLayout } from "@/components/layout/dashboard-layout"
+import { VariantEvolution } from "@/components/genomics/variant-evolution"
+
+export default function VariantEvolutionPage() {
+  return (
+    <DashboardLayout>
+      <VariantEvolution />
+    </DashboardLayout>
+  )
+}
@@ -0,0 +1,643 @@
+"use client"
+
+/**
+ * Anomaly Rules Manager Component
+ * Lets administrators edit the rules that raise AIDEN anomaly events and dry-run them against past data
+ */
+
+import { useState, useEffect, useCallback } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useToast } from "@/components/ui/toast-provider"
+import { useUserRoles } from "@/hooks/use-user-roles"
+import { AidenEventSeverity } from "@/lib/aiden/aiden-websocket"
+import {
+  AnomalyRuleType,
+  VARIANT_SIGNIFICANCES,
+  isVariantSignificance,
+  type AnomalyFinding,
+  type AnomalyRule,
+} from "@/lib/aiden/anomaly-rules"
+import { Permission, hasPermission } from "@/lib/auth/permissions"
+import { FlaskConical, Pencil, Plus, RefreshCw, Trash2 } from "lucide-react"
+
+interface AnomalyRulesManagerProps {
+  className?: string
+}
+
+/** Form fields, kept as strings until the rule is saved */
+interface RuleDraft {
+  id?: string
+  name: string
+  description: string
+  type: AnomalyRuleType
+  severity: AidenEventSeverity
+  enabled: boolean
+  test: string
+  unit: string
+  min: string
+  max: string
+  change_type: "absolute" | "percent"
+  max_change: string
+  direction: "increase" | "decrease" | "either"
+  window_hours: string
+  significances: string
+  genes: string
+}
+
+interface DryRunResult {
+  findings: AnomalyFinding[]
+  evaluated: { lab_results: number; variant_calls: number; rules: number }
+}
+
+const EMPTY_DRAFT: RuleDraft = {
+  name: "",
+  description: "",
+  type: AnomalyRuleType.THRESHOLD,
+  severity: AidenEventSeverity.HIGH,
+  enabled: true,
+  test: "",
+  unit: "",
+  min: "",
+  max: "",
+  change_type: "absolute",
+  max_change: "",
+  direction: "either",
+  window_hours: "",
+  significances: "pathogenic, likely_pathogenic",
+  genes: "",
+}
+
+const RULE_TYPE_LABELS: Record<AnomalyRuleType, string> = {
+  [AnomalyRuleType.THRESHOLD]: "Threshold",
+  [AnomalyRuleType.DELTA]: "Change between results",
+  [AnomalyRuleType.PATHOGENIC_VARIANT]: "Newly pathogenic variant",
+}
+
+const SEVERITY_BADGES: Record<AidenEventSeverity, string> = {
+  [AidenEventSeverity.INFO]: "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-300",
+  [AidenEventSeverity.LOW]: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300",
+  [AidenEventSeverity.MEDIUM]: "bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-300",
+  [AidenEventSeverity.HIGH]: "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-300",
+  [AidenEventSeverity.CRITICAL]: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300",
+}
+
+function toDraft(rule: AnomalyRule): RuleDraft {
+  const draft: RuleDraft = {
+    ...EMPTY_DRAFT,
+    id: rule.id,
+    name: rule.name,
+    description: rule.description || "",
+    type: rule.type,
+    severity: rule.severity,
+    enabled: rule.enabled,
+  }
+
+  switch (rule.type) {
+    case AnomalyRuleType.THRESHOLD:
+      return { ...draft, test: rule.test, unit: rule.unit || "", min: rule.min?.toString() ?? "", max: rule.max?.toString() ?? "" }
+    case AnomalyRuleType.DELTA:
+      return {
+        ...draft,
+        test: rule.test,
+        unit: rule.unit || "",
+        change_type: rule.change_type,
+        max_change: String(rule.max_change),
+        direction: rule.direction,
+        window_hours: rule.window_hours?.toString() ?? "",
+      }
+    case AnomalyRuleType.PATHOGENIC_VARIANT:
+      return { ...draft, significances: rule.significances.join(", "), genes: (rule.genes || []).join(", ") }
+  }
+}
+
+function optionalNumber(value: string): number | undefined {
+  return value.trim() === "" ? undefined : Number(value)
+}
+
+function splitList(value: string): string[] {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean)
+}
+
+/**
+ * Entries in the significances field that are not variant significances
+ */
+function invalidSignificances(draft: RuleDraft): string[] {
+  return draft.type === AnomalyRuleType.PATHOGENIC_VARIANT
+    ? splitList(draft.significances).filter((significance) => !isVariantSignificance(significance))
+    : []
+}
+
+function fromDraft(draft: RuleDraft): Partial<AnomalyRule> {
+  const base = {
+    name: draft.name.trim(),
+    description: draft.description.trim() || undefined,
+    severity: draft.severity,
+    enabled: draft.enabled,
+  }
+
+  switch (draft.type) {
+    case AnomalyRuleType.THRESHOLD:
+      return {
+        ...base,
+        type: draft.type,
+        test: draft.test.trim(),
+        unit: draft.unit.trim() || undefined,
+        min: optionalNumber(draft.min),
+        max: optionalNumber(draft.max),
+      }
+    case AnomalyRuleType.DELTA:
+      return {
+        ...base,
+        type: draft.type,
+        test: draft.test.trim(),
+        unit: draft.unit.trim() || undefined,
+        change_type: draft.change_type,
+        max_change: Number(draft.max_change),
+        direction: draft.direction,
+        window_hours: optionalNumber(draft.window_hours),
+      }
+    case AnomalyRuleType.PATHOGENIC_VARIANT:
+      return {
+        ...base,
+        type: draft.type,
+        significances: splitList(draft.significances).filter(isVariantSignificance),
+        genes: splitList(draft.genes),
+      }
+  }
+}
+
+function describeRule(rule: AnomalyRule): string {
+  switch (rule.type) {
+    case AnomalyRuleType.THRESHOLD:
+      return [
+        rule.test,
+        typeof rule.min === "number" ? `< ${rule.min}` : null,
+        typeof rule.max === "number" ? `> ${rule.max}` : null,
+        rule.unit,
+      ]
+        .filter(Boolean)
+        .join(" ")
+    case AnomalyRuleType.DELTA:
+      return `${rule.test} ${rule.direction} by more than ${rule.max_change}${rule.change_type === "percent" ? "%" : ` ${rule.unit || ""}`}${rule.window_hours ? ` within ${rule.window_hours}h` : ""}`
+    case AnomalyRuleType.PATHOGENIC_VARIANT:
+      return `${rule.significances.join(", ")}${rule.genes?.length ? ` in ${rule.genes.join(", ")}` : ""}`
+  }
+}
+
+/**
+ * Anomaly Rules Manager Component
+ */
+export function AnomalyRulesManager({ className = "" }: AnomalyRulesManagerProps) {
+  const [rules, setRules] = useState<AnomalyRule[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [draft, setDraft] = useState<RuleDraft | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [dryRunFrom, setDryRunFrom] = useState("")
+  const [dryRunTo, setDryRunTo] = useState("")
+  const [dryRunPatientId, setDryRunPatientId] = useState("")
+  const [dryRunResult, setDryRunResult] = useState<DryRunResult | null>(null)
+  const [isDryRunning, setIsDryRunning] = useState(false)
+
+  const { addToast } = useToast()
+  const { roles } = useUserRoles()
+  const canManageRules = hasPermission(roles, Permission.MANAGE_ANOMALY_RULES)
+
+  const request = useCallback(
+    async (url: string, init: RequestInit | undefined, failureTitle: string) => {
+      try {
+        const response = await fetch(url, {
+          ...init,
+          headers: {
+            "Content-Type": "application/json",
+          },
+        })
+
+        if (!response.ok) {
+          const errorData = await response.json()
+          throw new Error(errorData.message || failureTitle)
+        }
+
+        return response.status === 204 ? true : await response.json()
+      } catch (error) {
+        addToast({
+          type: "error",
+          title: failureTitle,
+          message: error instanceof Error ? error.message : "Unknown error",
+          duration: 5000,
+        })
+        return null
+      }
+    },
+    [addToast],
+  )
+
+  const loadRules = useCallback(async () => {
+    setIsLoading(true)
+    const data = await request("/api/aiden/anomaly-rules", undefined, "Failed to Load Rules")
+    if (data) setRules(data.rules)
+    setIsLoading(false)
+  }, [request])
+
+  useEffect(() => {
+    loadRules()
+  }, [loadRules])
+
+  const replaceRule = (updated: AnomalyRule) => {
+    setRules((prev) => {
+      const exists = prev.some((rule) => rule.id === updated.id)
+      const next = exists ? prev.map((rule) => (rule.id === updated.id ? updated : rule)) : [...prev, updated]
+      return next.sort((a, b) => a.name.localeCompare(b.name))
+    })
+  }
+
+  // Enable or disable a rule without opening the form
+  const handleToggle = async (rule: AnomalyRule, enabled: boolean) => {
+    const updated = await request(
+      `/api/aiden/anomaly-rules/${rule.id}`,
+      { method: "PUT", body: JSON.stringify({ enabled }) },
+      "Failed to Update Rule",
+    )
+    if (updated) replaceRule(updated)
+  }
+
+  const handleDelete = async (rule: AnomalyRule) => {
+    if (!window.confirm(`Delete the rule "${rule.name}"?`)) return
+
+    if (await request(`/api/aiden/anomaly-rules/${rule.id}`, { method: "DELETE" }, "Failed to Delete Rule")) {
+      setRules((prev) => prev.filter((candidate) => candidate.id !== rule.id))
+      if (draft?.id === rule.id) setDraft(null)
+    }
+  }
+
+  const handleSave = async () => {
+    if (!draft) return
+
+    setIsSaving(true)
+    const saved = await request(
+      draft.id ? `/api/aiden/anomaly-rules/${draft.id}` : "/api/aiden/anomaly-rules",
+      { method: draft.id ? "PUT" : "POST", body: JSON.stringify(fromDraft(draft)) },
+      "Failed to Save Rule",
+    )
+    setIsSaving(false)
+
+    if (saved) {
+      replaceRule(saved)
+      setDraft(null)
+      addToast({ type: "success", title: "Rule Saved", message: saved.name, duration: 3000 })
+    }
+  }
+
+  // Dry-run the open draft, or all enabled rules when no draft is open
+  const handleDryRun = async (useDraft: boolean) => {
+    setIsDryRunning(true)
+    const result = await request(
+      "/api/aiden/anomaly-rules/dry-run",
+      {
+        method: "POST",
+        body: JSON.stringify({
+          rules: useDraft && draft ? [{ ...fromDraft(draft), id: draft.id }] : undefined,
+          from: dryRunFrom ? new Date(dryRunFrom).toISOString() : undefined,
+          to: dryRunTo ? new Date(`${dryRunTo}T23:59:59.999`).toISOString() : undefined,
+          patient_id: dryRunPatientId.trim() || undefined,
+        }),
+      },
+      "Dry Run Failed",
+    )
+    setIsDryRunning(false)
+
+    if (result) setDryRunResult(result)
+  }
+
+  const updateDraft = (patch: Partial<RuleDraft>) => setDraft((prev) => (prev ? { ...prev, ...patch } : prev))
+  const unknownSignificances = draft ? invalidSignificances(draft) : []
+
+  const renderForm = (current: RuleDraft) => (
+    <div className="space-y-4 rounded-md border p-4">
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-1">
+          <Label htmlFor="rule-name">Name</Label>
+          <Input id="rule-name" value={current.name} onChange={(e) => updateDraft({ name: e.target.value })} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="rule-description">Description</Label>
+          <Input
+            id="rule-description"
+            value={current.description}
+            onChange={(e) => updateDraft({ description: e.target.value })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label>Type</Label>
+          <Select value={current.type} onValueChange={(value) => updateDraft({ type: value as AnomalyRuleType })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.values(AnomalyRuleType).map((type) => (
+                <SelectItem key={type} value={type}>
+                  {RULE_TYPE_LABELS[type]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>Severity</Label>
+          <Select
+            value={current.severity}
+            onValueChange={(value) => updateDraft({ severity: value as AidenEventSeverity })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.values(AidenEventSeverity).map((severity) => (
+                <SelectItem key={severity} value={severity}>
+                  {severity.charAt(0).toUpperCase() + severity.slice(1)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {current.type !== AnomalyRuleType.PATHOGENIC_VARIANT && (
+          <>
+            <div className="space-y-1">
+              <Label htmlFor="rule-test">Lab test name contains</Label>
+              <Input id="rule-test" value={current.test} onChange={(e) => updateDraft({ test: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="rule-unit">Unit (optional)</Label>
+              <Input id="rule-unit" value={current.unit} onChange={(e) => updateDraft({ unit: e.target.value })} />
+            </div>
+          </>
+        )}
+
+        {current.type === AnomalyRuleType.THRESHOLD && (
+          <>
+            <div className="space-y-1">
+              <Label htmlFor="rule-min">Minimum</Label>
+              <Input
+                id="rule-min"
+                type="number"
+                value={current.min}
+                onChange={(e) => updateDraft({ min: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="rule-max">Maximum</Label>
+              <Input
+                id="rule-max"
+                type="number"
+                value={current.max}
+                onChange={(e) => updateDraft({ max: e.target.value })}
+              />
+            </div>
+          </>
+        )}
+
+        {current.type === AnomalyRuleType.DELTA && (
+          <>
+            <div className="space-y-1">
+              <Label>Direction</Label>
+              <Select
+                value={current.direction}
+                onValueChange={(value) => updateDraft({ direction: value as RuleDraft["direction"] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="increase">Increase</SelectItem>
+                  <SelectItem value="decrease">Decrease</SelectItem>
+                  <SelectItem value="either">Either</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Change measured as</Label>
+              <Select
+                value={current.change_type}
+                onValueChange={(value) => updateDraft({ change_type: value as RuleDraft["change_type"] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="absolute">Absolute value</SelectItem>
+                  <SelectItem value="percent">Percent</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="rule-max-change">Maximum change</Label>
+              <Input
+                id="rule-max-change"
+                type="number"
+                value={current.max_change}
+                onChange={(e) => updateDraft({ max_change: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="rule-window">Within hours (optional)</Label>
+              <Input
+                id="rule-window"
+                type="number"
+                value={current.window_hours}
+                onChange={(e) => updateDraft({ window_hours: e.target.value })}
+              />
+            </div>
+          </>
+        )}
+
+        {current.type === AnomalyRuleType.PATHOGENIC_VARIANT && (
+          <>
+            <div className="space-y-1">
+              <Label htmlFor="rule-significances">Significances</Label>
+              <Input
+                id="rule-significances"
+                value={current.significances}
+                onChange={(e) => updateDraft({ significances: e.target.value })}
+                aria-invalid={unknownSignificances.length > 0}
+              />
+              {unknownSignificances.length > 0 && (
+                <p className="text-sm text-red-600">
+                  Unknown significance {unknownSignificances.join(", ")}. Use {VARIANT_SIGNIFICANCES.join(", ")}.
+                </p>
+              )}
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="rule-genes">Genes (optional, comma separated)</Label>
+              <Input id="rule-genes" value={current.genes} onChange={(e) => updateDraft({ genes: e.target.value })} />
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Switch checked={current.enabled} onCheckedChange={(enabled) => updateDraft({ enabled })} />
+        <span className="text-sm">Enabled</span>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" onClick={() => setDraft(null)}>
+          Cancel
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => handleDryRun(true)}
+          disabled={isDryRunning || unknownSignificances.length > 0}
+        >
+          <FlaskConical className="h-4 w-4 mr-1" />
+          Dry Run Draft
+        </Button>
+        <Button onClick={handleSave} disabled={isSaving || unknownSignificances.length > 0}>
+          {isSaving ? "Saving..." : "Save Rule"}
+        </Button>
+      </div>
+    </div>
+  )
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Anomaly Rules</CardTitle>
+            <CardDescription>Rules that raise AIDEN anomaly alerts from lab results and variant calls</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={loadRules} disabled={isLoading}>
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+            {canManageRules && (
+              <Button size="sm" onClick={() => setDraft({ ...EMPTY_DRAFT })}>
+                <Plus className="h-4 w-4 mr-1" />
+                New Rule
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        {draft && !draft.id && renderForm(draft)}
+
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-12 w-full" />
+            <Skeleton className="h-12 w-full" />
+          </div>
+        ) : rules.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No anomaly rules configured</p>
+        ) : (
+          <div className="space-y-2">
+            {rules.map((rule) =>
+              draft?.id === rule.id ? (
+                <div key={rule.id}>{renderForm(draft)}</div>
+              ) : (
+                <div key={rule.id} className="flex items-center justify-between rounded-md border p-3">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{rule.name}</span>
+                      <Badge className={SEVERITY_BADGES[rule.severity]}>{rule.severity}</Badge>
+                      <Badge variant="outline">{RULE_TYPE_LABELS[rule.type]}</Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">{rule.description || describeRule(rule)}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={rule.enabled}
+                      disabled={!canManageRules}
+                      onCheckedChange={(enabled) => handleToggle(rule, enabled)}
+                      aria-label={`${rule.enabled ? "Disable" : "Enable"} ${rule.name}`}
+                    />
+                    {canManageRules && (
+                      <>
+                        <Button variant="ghost" size="sm" onClick={() => setDraft(toDraft(rule))}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleDelete(rule)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              ),
+            )}
+          </div>
+        )}
+
+        {canManageRules && (
+          <div className="space-y-3 border-t pt-4">
+            <h3 className="text-sm font-medium">Dry Run</h3>
+            <div className="grid gap-3 md:grid-cols-4">
+              <div className="space-y-1">
+                <Label htmlFor="dry-run-from">From</Label>
+                <Input id="dry-run-from" type="date" value={dryRunFrom} onChange={(e) => setDryRunFrom(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="dry-run-to">To</Label>
+                <Input id="dry-run-to" type="date" value={dryRunTo} onChange={(e) => setDryRunTo(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="dry-run-patient">Patient ID</Label>
+                <Input
+                  id="dry-run-patient"
+                  value={dryRunPatientId}
+                  onChange={(e) => setDryRunPatientId(e.target.value)}
+                  placeholder="All patients"
+                />
+              </div>
+              <div className="flex items-end">
+                <Button className="w-full" onClick={() => handleDryRun(false)} disabled={isDryRunning}>
+                  <FlaskConical className="h-4 w-4 mr-1" />
+                  {isDryRunning ? "Running..." : "Dry Run Enabled Rules"}
+                </Button>
+              </div>
+            </div>
+
+            {dryRunResult && (
+              <div className="space-y-2">
+                <p className="text-sm text-muted-foreground">
+                  {dryRunResult.findings.length} finding{dryRunResult.findings.length === 1 ? "" : "s"} from{" "}
+                  {dryRunResult.evaluated.rules} rule{dryRunResult.evaluated.rules === 1 ? "" : "s"} over{" "}
+                  {dryRunResult.evaluated.lab_results} lab results and {dryRunResult.evaluated.variant_calls} variant
+                  calls
+                </p>
+                <div className="max-h-80 space-y-2 overflow-y-auto">
+                  {dryRunResult.findings.map((finding, index) => (
+                    <div key={`${finding.rule_id}-${finding.observed_at}-${index}`} className="rounded-md border p-2">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-2">
+                          <Badge className={SEVERITY_BADGES[finding.severity]}>{finding.severity}</Badge>
+                          <span className="text-sm font-medium">{finding.rule_name}</span>
+                        </div>
+                        <span className="text-xs text-muted-foreground">
+                          {new Date(finding.observed_at).toLocaleString()}
+                        </span>
+                      </div>
+                      <p className="text-sm">{finding.message}</p>
+                      <p className="text-xs text-muted-foreground">Patient {finding.patient_id}</p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -2,16 +2,27 @@
 
 /**
  * AIDEN Real-Time Feed Component
- * Displays real-time updates from the AIDEN AI engine
+ * Displays real-time updates from the AIDEN AI engine on top of the stored event history
  */
 
-import { useState, useEffect } from "react"
+import { useState, useMemo } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Textarea } from "@/components/ui/textarea"
 import { useAidenWebSocket } from "@/hooks/use-aiden-websocket"
-import { AidenWebSocketEventType, type AidenWebSocketEvent } from "@/lib/aiden/aiden-websocket"
+import { useAidenEventHistory } from "@/hooks/use-aiden-event-history"
+import {
+  AidenEventSeverity,
+  AidenWebSocketEventType,
+  getAidenEventPatientId,
+  getAidenEventSeverity,
+  type AidenEventRecord,
+  type AidenWebSocketEvent,
+} from "@/lib/aiden/aiden-websocket"
 import {
   Bell,
   AlertTriangle,
@@ -24,6 +35,9 @@ import {
   WifiOff,
   Filter,
   MoreHorizontal,
+  CheckCircle,
+  MessageSquare,
+  Dna,
 } from "lucide-react"
 
 interface AidenRealTimeFeedProps {
@@ -42,6 +56,7 @@ export function AidenRealTimeFeed({
   subscriptions = [
     AidenWebSocketEventType.TASK_UPDATE,
     AidenWebSocketEventType.ANOMALY_DETECTED,
+    AidenWebSocketEventType.VARIANT_RECLASSIFIED,
     AidenWebSocketEventType.SYSTEM_NOTIFICATION,
   ],
   maxEvents = 50,
@@ -51,26 +66,71 @@ export function AidenRealTimeFeed({
   className,
 }: AidenRealTimeFeedProps) {
   const [activeTab, setActiveTab] = useState<string>("all")
-  const [events, setEvents] = useState<AidenWebSocketEvent[]>([])
-  const [filteredEvents, setFilteredEvents] = useState<AidenWebSocketEvent[]>([])
+  const [liveEvents, setLiveEvents] = useState<AidenWebSocketEvent[]>([])
+  const [reviewedEvents, setReviewedEvents] = useState<Record<string, AidenEventRecord>>({})
+  const [showFilters, setShowFilters] = useState(false)
+  const [severityFilter, setSeverityFilter] = useState<string>("all")
+  const [patientFilter, setPatientFilter] = useState("")
+  const [annotatingEventId, setAnnotatingEventId] = useState<string | null>(null)
+  const [annotationText, setAnnotationText] = useState("")
 
-  const { isConnected, isConnecting, error, eventHistory, connect, disconnect } = useAidenWebSocket({
+  const { isConnected, isConnecting, error, connect, disconnect } = useAidenWebSocket({
     autoConnect: true,
     subscriptions,
     showToasts: true,
     onMessage: (event) => {
-      setEvents((prev) => [event, ...prev].slice(0, maxEvents))
+      setLiveEvents((prev) => [event, ...prev].slice(0, maxEvents))
     },
   })
 
-  // Update filtered events when active tab or events change
-  useEffect(() => {
-    if (activeTab === "all") {
-      setFilteredEvents(events)
-    } else {
-      setFilteredEvents(events.filter((event) => event.event_type === activeTab))
+  const severities = severityFilter === "all" ? undefined : [severityFilter as AidenEventSeverity]
+  const patientId = patientFilter.trim() || undefined
+
+  const history = useAidenEventHistory({
+    eventTypes: subscriptions,
+    severities,
+    patientId,
+    pageSize: maxEvents,
+  })
+
+  // Live events first, then stored history, without the events both of them contain
+  const filteredEvents = useMemo(() => {
+    const matchingLive = liveEvents.filter(
+      (event) =>
+        (!severities || severities.includes(getAidenEventSeverity(event))) &&
+        (!patientId || getAidenEventPatientId(event) === patientId),
+    )
+    const seen = new Set<string>()
+
+    return [...matchingLive, ...history.events]
+      .filter((event) => {
+        if (!event.event_id) return true
+        if (seen.has(event.event_id)) return false
+        seen.add(event.event_id)
+        return true
+      })
+      .map((event) => (event.event_id && reviewedEvents[event.event_id]) || event)
+      .filter((event) => activeTab === "all" || event.event_type === activeTab)
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+  }, [liveEvents, history.events, reviewedEvents, activeTab, severities, patientId])
+
+  // Acknowledge an anomaly
+  const handleAcknowledge = async (eventId: string) => {
+    const updated = await history.acknowledge(eventId)
+    if (updated) {
+      setReviewedEvents((prev) => ({ ...prev, [eventId]: updated }))
+    }
+  }
+
+  // Save a note on an anomaly
+  const handleAnnotate = async (eventId: string) => {
+    const updated = await history.annotate(eventId, annotationText)
+    if (updated) {
+      setReviewedEvents((prev) => ({ ...prev, [eventId]: updated }))
+      setAnnotatingEventId(null)
+      setAnnotationText("")
     }
-  }, [activeTab, events])
+  }
 
   // Get event icon based on event type
   const getEventIcon = (eventType: string) => {
@@ -85,6 +145,8 @@ export function AidenRealTimeFeed({
         return <Bell className="h-4 w-4" />
       case AidenWebSocketEventType.DATA_STREAM:
         return <Database className="h-4 w-4" />
+      case AidenWebSocketEventType.VARIANT_RECLASSIFIED:
+        return <Dna className="h-4 w-4" />
       default:
         return <Info className="h-4 w-4" />
     }
@@ -103,6 +165,8 @@ export function AidenRealTimeFeed({
         return "bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-300"
       case AidenWebSocketEventType.DATA_STREAM:
         return "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300"
+      case AidenWebSocketEventType.VARIANT_RECLASSIFIED:
+        return "bg-rose-100 text-rose-800 dark:bg-rose-900 dark:text-rose-300"
       default:
         return "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-300"
     }
@@ -163,7 +227,12 @@ export function AidenRealTimeFeed({
             </Tabs>
 
             <div className="flex space-x-2 ml-2">
-              <Button variant="outline" size="icon" title="Filter">
+              <Button
+                variant={showFilters ? "default" : "outline"}
+                size="icon"
+                title="Filter"
+                onClick={() => setShowFilters((prev) => !prev)}
+              >
                 <Filter className="h-4 w-4" />
               </Button>
               <Button variant="outline" size="icon" title="More options">
@@ -173,6 +242,29 @@ export function AidenRealTimeFeed({
           </div>
         )}
 
+        {showControls && showFilters && (
+          <div className="mb-4 grid gap-2 sm:grid-cols-2">
+            <Select value={severityFilter} onValueChange={setSeverityFilter}>
+              <SelectTrigger>
+                <SelectValue placeholder="Severity" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All severities</SelectItem>
+                {Object.values(AidenEventSeverity).map((severity) => (
+                  <SelectItem key={severity} value={severity}>
+                    {severity.charAt(0).toUpperCase() + severity.slice(1)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              placeholder="Patient ID"
+              value={patientFilter}
+              onChange={(event) => setPatientFilter(event.target.value)}
+            />
+          </div>
+        )}
+
         {error && (
           <div className="bg-red-50 dark:bg-red-900/20 p-4 rounded-md mb-4">
             <div className="flex items-start">
@@ -189,7 +281,12 @@ export function AidenRealTimeFeed({
         )}
 
         <div className="space-y-2 max-h-96 overflow-y-auto">
-          {filteredEvents.length === 0 ? (
+          {filteredEvents.length === 0 && history.isLoading ? (
+            <div className="flex flex-col items-center justify-center py-8 text-gray-500 dark:text-gray-400">
+              <RefreshCw className="h-8 w-8 mb-2 animate-spin opacity-50" />
+              <p>Loading event history</p>
+            </div>
+          ) : filteredEvents.length === 0 ? (
             <div className="flex flex-col items-center justify-center py-8 text-gray-500 dark:text-gray-400">
               <Bell className="h-12 w-12 mb-2 opacity-50" />
               <p>No events to display</p>
@@ -198,7 +295,7 @@ export function AidenRealTimeFeed({
           ) : (
             filteredEvents.map((event, index) => (
               <div
-                key={index}
+                key={event.event_id ?? event.sequence ?? index}
                 className="p-3 bg-gray-50 dark:bg-gray-800 rounded-md border border-gray-100 dark:border-gray-700"
               >
                 <div className="flex justify-between items-start">
@@ -238,11 +335,84 @@ export function AidenRealTimeFeed({
                     ))}
                   </div>
                 )}
+                {event.event_type === AidenWebSocketEventType.ANOMALY_DETECTED && event.event_id && (
+                  <div className="mt-3 border-t border-gray-200 dark:border-gray-700 pt-2 space-y-2">
+                    {(event as AidenEventRecord).annotations?.map((annotation) => (
+                      <div key={annotation.annotation_id} className="text-xs">
+                        <span className="font-medium">{annotation.author || "Anonymous"}</span>{" "}
+                        <span className="text-gray-500 dark:text-gray-400">{formatTimestamp(annotation.created_at)}</span>
+                        <p>{annotation.text}</p>
+                      </div>
+                    ))}
+
+                    {annotatingEventId === event.event_id && (
+                      <div className="space-y-2">
+                        <Textarea
+                          value={annotationText}
+                          onChange={(change) => setAnnotationText(change.target.value)}
+                          placeholder="Add a note for the care team"
+                          rows={2}
+                        />
+                        <div className="flex justify-end space-x-2">
+                          <Button variant="outline" size="sm" onClick={() => setAnnotatingEventId(null)}>
+                            Cancel
+                          </Button>
+                          <Button
+                            size="sm"
+                            onClick={() => handleAnnotate(event.event_id!)}
+                            disabled={!annotationText.trim()}
+                          >
+                            Save Note
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+
+                    <div className="flex items-center justify-between">
+                      {(event as AidenEventRecord).acknowledged_at ? (
+                        <span className="flex items-center text-xs text-green-700 dark:text-green-400">
+                          <CheckCircle className="mr-1 h-3 w-3" />
+                          Acknowledged
+                          {(event as AidenEventRecord).acknowledged_by
+                            ? ` by ${(event as AidenEventRecord).acknowledged_by}`
+                            : ""}{" "}
+                          at {formatTimestamp((event as AidenEventRecord).acknowledged_at!)}
+                        </span>
+                      ) : (
+                        <Button variant="outline" size="sm" onClick={() => handleAcknowledge(event.event_id!)}>
+                          <CheckCircle className="h-4 w-4 mr-2" />
+                          Acknowledge
+                        </Button>
+                      )}
+                      {annotatingEventId !== event.event_id && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => {
+                            setAnnotatingEventId(event.event_id!)
+                            setAnnotationText("")
+                          }}
+                        >
+                          <MessageSquare className="h-4 w-4 mr-2" />
+                          Add Note
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                )}
               </div>
             ))
           )}
         </div>
 
+        {history.hasMore && (
+          <div className="mt-2 flex justify-center">
+            <Button variant="ghost" size="sm" onClick={history.loadMore} disabled={history.isLoading}>
+              {history.isLoading ? "Loading..." : "Load older events"}
+            </Button>
+          </div>
+        )}
+
         {isConnected && showControls && (
           <div className="mt-4 flex justify-end">
             <Button variant="outline" size="sm" onClick={disconnect}>
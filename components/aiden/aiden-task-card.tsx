@@ -12,8 +12,10 @@ import { Badge } from "@/components/ui/badge"
 import { Skeleton } from "@/components/ui/skeleton"
 import { Progress } from "@/components/ui/progress"
 import { useAidenTask } from "@/hooks/use-aiden-task"
+import { useUserRoles } from "@/hooks/use-user-roles"
 import { AidenTaskStatus, type AidenTaskType } from "@/lib/aiden/aiden-client"
-import { Clock, CheckCircle, AlertTriangle, XCircle, RefreshCw, Download, ExternalLink } from "lucide-react"
+import { Permission, hasPermission } from "@/lib/auth/permissions"
+import { Clock, CheckCircle, AlertTriangle, XCircle, RefreshCw, Download, ExternalLink, RotateCcw, Ban } from "lucide-react"
 
 interface AidenTaskCardProps {
   taskId?: string
@@ -39,7 +41,6 @@ export function AidenTaskCard({
   showControls = true,
   className,
 }: AidenTaskCardProps) {
-  const [progress, setProgress] = useState(0)
   const [estimatedTimeRemaining, setEstimatedTimeRemaining] = useState<string | null>(null)
 
   const {
@@ -49,9 +50,14 @@ export function AidenTaskCard({
     error,
     isLoading,
     isSubmitting,
+    attempts,
+    maxAttempts,
+    progress: taskProgress,
     submitTask,
     getTaskResult,
-    startPolling,
+    watchTask,
+    cancelTask,
+    retryTask,
   } = useAidenTask({
     onSuccess: (result) => {
       if (onResult) {
@@ -60,12 +66,20 @@ export function AidenTaskCard({
     },
   })
 
+  const { roles } = useUserRoles()
+  const canManageTasks = hasPermission(roles, Permission.MANAGE_AIDEN_TASKS)
+
+  const activeTaskId = currentTaskId || taskId || null
+  const isActive = status === AidenTaskStatus.QUEUED || status === AidenTaskStatus.PROCESSING
+  const canRetry = canManageTasks && (status === AidenTaskStatus.FAILED || status === AidenTaskStatus.CANCELLED)
+  const progress = status === AidenTaskStatus.COMPLETED ? 100 : taskProgress?.percent ?? 0
+
   // Initialize with existing taskId if provided
   useEffect(() => {
     if (taskId && !currentTaskId && !isSubmitting && !isLoading) {
-      startPolling(taskId)
+      watchTask(taskId)
     }
-  }, [taskId, currentTaskId, isSubmitting, isLoading, startPolling])
+  }, [taskId, currentTaskId, isSubmitting, isLoading, watchTask])
 
   // Submit task if payload and taskType are provided but no taskId
   useEffect(() => {
@@ -78,50 +92,33 @@ export function AidenTaskCard({
     submitNewTask()
   }, [payload, taskType, taskId, currentTaskId, isSubmitting, submitTask])
 
-  // Update progress based on status
+  // Count the reported ETA down between status updates
   useEffect(() => {
-    if (status === AidenTaskStatus.QUEUED) {
-      setProgress(10)
-    } else if (status === AidenTaskStatus.PROCESSING) {
-      setProgress(50)
-    } else if (status === AidenTaskStatus.COMPLETED) {
-      setProgress(100)
-    } else if (status === AidenTaskStatus.FAILED || status === AidenTaskStatus.CANCELLED) {
-      setProgress(0)
+    if (status !== AidenTaskStatus.PROCESSING || taskProgress?.eta_seconds == null) {
+      setEstimatedTimeRemaining(null)
+      return
     }
-  }, [status])
-
-  // Simulate progress updates for better UX
-  useEffect(() => {
-    let interval: NodeJS.Timeout | null = null
-
-    if (status === AidenTaskStatus.PROCESSING && progress < 90) {
-      interval = setInterval(() => {
-        setProgress((prev) => {
-          const increment = Math.random() * 5
-          return Math.min(prev + increment, 90)
-        })
 
-        // Update estimated time remaining
-        const remainingPercentage = 100 - progress
-        const estimatedSecondsPerPercent = 0.5 // Adjust based on typical task duration
-        const estimatedSeconds = Math.ceil(remainingPercentage * estimatedSecondsPerPercent)
+    const reportedAt = new Date(taskProgress.updated_at).getTime()
+    const etaSeconds = taskProgress.eta_seconds
 
-        if (estimatedSeconds > 60) {
-          const minutes = Math.floor(estimatedSeconds / 60)
-          setEstimatedTimeRemaining(`~${minutes} min remaining`)
-        } else {
-          setEstimatedTimeRemaining(`~${estimatedSeconds} sec remaining`)
-        }
-      }, 2000)
-    }
+    const updateEstimate = () => {
+      const remaining = Math.max(Math.ceil(etaSeconds - (Date.now() - reportedAt) / 1000), 0)
 
-    return () => {
-      if (interval) {
-        clearInterval(interval)
+      if (remaining > 60) {
+        setEstimatedTimeRemaining(`~${Math.ceil(remaining / 60)} min remaining`)
+      } else if (remaining > 0) {
+        setEstimatedTimeRemaining(`~${remaining} sec remaining`)
+      } else {
+        setEstimatedTimeRemaining("Finishing up")
       }
     }
-  }, [status, progress])
+
+    updateEstimate()
+    const interval = setInterval(updateEstimate, 1000)
+
+    return () => clearInterval(interval)
+  }, [status, taskProgress])
 
   // Get status badge
   const getStatusBadge = () => {
@@ -177,8 +174,26 @@ export function AidenTaskCard({
 
   // Handle refresh
   const handleRefresh = () => {
-    if (currentTaskId) {
-      getTaskResult(currentTaskId)
+    if (activeTaskId) {
+      getTaskResult(activeTaskId)
+    }
+  }
+
+  // Handle cancel
+  const handleCancel = () => {
+    if (activeTaskId) {
+      cancelTask(activeTaskId).catch(() => {})
+    }
+  }
+
+  // Handle retry
+  const handleRetry = async () => {
+    if (!activeTaskId) return
+
+    try {
+      await retryTask(activeTaskId)
+    } catch {
+      // Failure is already reported by the hook
     }
   }
 
@@ -190,7 +205,7 @@ export function AidenTaskCard({
     const url = URL.createObjectURL(blob)
     const a = document.createElement("a")
     a.href = url
-    a.download = `aiden-task-${currentTaskId || "result"}.json`
+    a.download = `aiden-task-${activeTaskId || "result"}.json`
     document.body.appendChild(a)
     a.click()
     document.body.removeChild(a)
@@ -212,9 +227,10 @@ export function AidenTaskCard({
         {(isSubmitting || isLoading || status === AidenTaskStatus.PROCESSING || status === AidenTaskStatus.QUEUED) && (
           <div className="space-y-2 mb-4">
             <Progress value={progress} className="h-2" />
-            {estimatedTimeRemaining && (
-              <p className="text-xs text-gray-500 dark:text-gray-400 text-right">{estimatedTimeRemaining}</p>
-            )}
+            <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400">
+              <span>{status === AidenTaskStatus.QUEUED ? "Waiting for a worker" : taskProgress?.stage || ""}</span>
+              {estimatedTimeRemaining && <span>{estimatedTimeRemaining}</span>}
+            </div>
           </div>
         )}
 
@@ -256,14 +272,36 @@ export function AidenTaskCard({
           </div>
         )}
 
-        {currentTaskId && (
-          <div className="mt-4 text-xs text-gray-500 dark:text-gray-400">
-            <span className="font-medium">Task ID:</span> {currentTaskId}
+        {activeTaskId && (
+          <div className="mt-4 text-xs text-gray-500 dark:text-gray-400 flex justify-between">
+            <span>
+              <span className="font-medium">Task ID:</span> {activeTaskId}
+            </span>
+            {attempts > 0 && (
+              <span>
+                <span className="font-medium">Attempt:</span> {attempts}
+                {maxAttempts ? ` of ${maxAttempts}` : ""}
+              </span>
+            )}
           </div>
         )}
       </CardContent>
-      {showControls && (status === AidenTaskStatus.COMPLETED || error) && (
+      {showControls && isActive && (
         <CardFooter className="flex justify-end space-x-2">
+          <Button variant="outline" size="sm" onClick={handleCancel}>
+            <Ban className="h-4 w-4 mr-2" />
+            Cancel
+          </Button>
+        </CardFooter>
+      )}
+      {showControls && (status === AidenTaskStatus.COMPLETED || error || canRetry) && (
+        <CardFooter className="flex justify-end space-x-2">
+          {canRetry && (
+            <Button variant="outline" size="sm" onClick={handleRetry}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Retry
+            </Button>
+          )}
           <Button variant="outline" size="sm" onClick={handleRefresh}>
             <RefreshCw className="h-4 w-4 mr-2" />
             Refresh
@@ -0,0 +1,321 @@
+"use client"
+
+/**
+ * AIDEN Workflow Runs Component
+ * Lists past and active workflow runs and shows each step of the selected run
+ */
+
+import { useState, useEffect, useCallback } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Skeleton } from "@/components/ui/skeleton"
+import { AidenTaskCard } from "@/components/aiden/aiden-task-card"
+import { useToast } from "@/components/ui/toast-provider"
+import {
+  AidenWorkflowStatus,
+  AidenWorkflowStepStatus,
+  type AidenWorkflowRun,
+  type AidenWorkflowStepRun,
+} from "@/lib/aiden/aiden-client"
+import { Ban, CheckCircle, Clock, GitBranch, RefreshCw, SkipForward, XCircle, AlertTriangle } from "lucide-react"
+
+interface AidenWorkflowRunsProps {
+  /** Run to open initially, e.g. one that was just submitted */
+  runId?: string
+  /** Refresh interval for the selected run while it is still running */
+  pollingInterval?: number
+  limit?: number
+  title?: string
+  description?: string
+  className?: string
+}
+
+const RUN_STATUS_BADGES: Record<AidenWorkflowStatus, { label: string; className: string }> = {
+  [AidenWorkflowStatus.RUNNING]: {
+    label: "Running",
+    className: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300",
+  },
+  [AidenWorkflowStatus.COMPLETED]: {
+    label: "Completed",
+    className: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300",
+  },
+  [AidenWorkflowStatus.PARTIALLY_COMPLETED]: {
+    label: "Partially Completed",
+    className: "bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-300",
+  },
+  [AidenWorkflowStatus.FAILED]: {
+    label: "Failed",
+    className: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300",
+  },
+  [AidenWorkflowStatus.CANCELLED]: {
+    label: "Cancelled",
+    className: "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-300",
+  },
+}
+
+/**
+ * AIDEN Workflow Runs Component
+ */
+export function AidenWorkflowRuns({
+  runId,
+  pollingInterval = 3000,
+  limit = 20,
+  title = "AIDEN Workflows",
+  description = "Multi-step analyses and their run history",
+  className,
+}: AidenWorkflowRunsProps) {
+  const [runs, setRuns] = useState<AidenWorkflowRun[]>([])
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(runId || null)
+  const [selectedRun, setSelectedRun] = useState<AidenWorkflowRun | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  const { addToast } = useToast()
+
+  // Load the run history
+  const loadRuns = useCallback(async () => {
+    setIsLoading(true)
+
+    try {
+      const response = await fetch(`/api/aiden/workflows?limit=${limit}`)
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.message || "Failed to load workflow runs")
+      }
+
+      const data = await response.json()
+      setRuns(data.runs)
+      setSelectedRunId((current) => current || data.runs[0]?.run_id || null)
+    } catch (error) {
+      addToast({
+        type: "error",
+        title: "Workflow History Unavailable",
+        message: error instanceof Error ? error.message : "Unknown error",
+        duration: 5000,
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [limit, addToast])
+
+  useEffect(() => {
+    loadRuns()
+  }, [loadRuns])
+
+  useEffect(() => {
+    if (runId) setSelectedRunId(runId)
+  }, [runId])
+
+  // Keep the selected run fresh until every step has finished
+  useEffect(() => {
+    if (!selectedRunId) {
+      setSelectedRun(null)
+      return
+    }
+
+    let timer: ReturnType<typeof setTimeout> | null = null
+    let cancelled = false
+
+    const refresh = async () => {
+      try {
+        const response = await fetch(`/api/aiden/workflows/${selectedRunId}`)
+        if (!response.ok) return
+
+        const run: AidenWorkflowRun = await response.json()
+        if (cancelled) return
+
+        setSelectedRun(run)
+        setRuns((prev) => prev.map((candidate) => (candidate.run_id === run.run_id ? run : candidate)))
+
+        if (run.status === AidenWorkflowStatus.RUNNING) {
+          timer = setTimeout(refresh, pollingInterval)
+        }
+      } catch {
+        if (!cancelled) timer = setTimeout(refresh, pollingInterval)
+      }
+    }
+
+    refresh()
+
+    return () => {
+      cancelled = true
+      if (timer) clearTimeout(timer)
+    }
+  }, [selectedRunId, pollingInterval])
+
+  // Handle cancel
+  const handleCancel = async () => {
+    if (!selectedRun) return
+
+    try {
+      const response = await fetch(`/api/aiden/workflows/${selectedRun.run_id}`, { method: "DELETE" })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.message || "Failed to cancel workflow")
+      }
+
+      setSelectedRun(await response.json())
+    } catch (error) {
+      addToast({
+        type: "error",
+        title: "Cancellation Failed",
+        message: error instanceof Error ? error.message : "Unknown error",
+        duration: 5000,
+      })
+    }
+  }
+
+  const getRunBadge = (status: AidenWorkflowStatus) => {
+    const badge = RUN_STATUS_BADGES[status]
+
+    return (
+      <Badge variant="outline" className={badge.className}>
+        {status === AidenWorkflowStatus.RUNNING && <RefreshCw className="mr-1 h-3 w-3 animate-spin" />}
+        {status === AidenWorkflowStatus.COMPLETED && <CheckCircle className="mr-1 h-3 w-3" />}
+        {status === AidenWorkflowStatus.PARTIALLY_COMPLETED && <AlertTriangle className="mr-1 h-3 w-3" />}
+        {status === AidenWorkflowStatus.FAILED && <XCircle className="mr-1 h-3 w-3" />}
+        {status === AidenWorkflowStatus.CANCELLED && <Ban className="mr-1 h-3 w-3" />}
+        {badge.label}
+      </Badge>
+    )
+  }
+
+  // Steps without a task yet have no card of their own
+  const renderPlaceholderStep = (step: AidenWorkflowStepRun) => (
+    <div
+      key={step.step_id}
+      className="flex items-start justify-between rounded-md border border-dashed p-4 text-sm text-gray-500 dark:text-gray-400"
+    >
+      <div>
+        <p className="font-medium text-gray-700 dark:text-gray-300">{step.step_id}</p>
+        <p>{step.task_type}</p>
+        {step.depends_on.length > 0 && <p className="text-xs">After {step.depends_on.join(", ")}</p>}
+        {step.error && <p className="text-xs mt-1">{step.error}</p>}
+      </div>
+      {step.status === AidenWorkflowStepStatus.SKIPPED ? (
+        <Badge variant="outline">
+          <SkipForward className="mr-1 h-3 w-3" />
+          Skipped
+        </Badge>
+      ) : step.status === AidenWorkflowStepStatus.FAILED ? (
+        <Badge variant="outline" className="bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300">
+          <XCircle className="mr-1 h-3 w-3" />
+          Not Submitted
+        </Badge>
+      ) : (
+        <Badge variant="outline">
+          <Clock className="mr-1 h-3 w-3" />
+          Waiting
+        </Badge>
+      )}
+    </div>
+  )
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <div className="flex justify-between items-start">
+          <div>
+            <CardTitle>{title}</CardTitle>
+            <CardDescription>{description}</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={loadRuns} disabled={isLoading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="grid gap-6 md:grid-cols-[260px_1fr]">
+          <div className="space-y-2">
+            {isLoading && runs.length === 0 ? (
+              <>
+                <Skeleton className="h-14 w-full" />
+                <Skeleton className="h-14 w-full" />
+                <Skeleton className="h-14 w-full" />
+              </>
+            ) : runs.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-6 text-gray-500 dark:text-gray-400">
+                <GitBranch className="h-12 w-12 mb-2 opacity-50" />
+                <p>No workflow runs yet</p>
+              </div>
+            ) : (
+              runs.map((run) => (
+                <button
+                  key={run.run_id}
+                  type="button"
+                  onClick={() => setSelectedRunId(run.run_id)}
+                  className={`w-full rounded-md border p-3 text-left text-sm transition-colors ${
+                    run.run_id === selectedRunId
+                      ? "border-blue-500 bg-blue-50 dark:bg-blue-900/20"
+                      : "hover:bg-gray-50 dark:hover:bg-gray-800"
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium truncate">{run.name}</span>
+                    {getRunBadge(run.status)}
+                  </div>
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    {new Date(run.created_at).toLocaleString()}
+                  </p>
+                </button>
+              ))
+            )}
+          </div>
+
+          {selectedRun ? (
+            <div className="space-y-4">
+              <div className="flex justify-between items-start">
+                <div>
+                  <h3 className="font-medium">{selectedRun.name}</h3>
+                  {selectedRun.description && (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">{selectedRun.description}</p>
+                  )}
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    {selectedRun.steps.filter((step) => step.status === AidenWorkflowStepStatus.COMPLETED).length} of{" "}
+                    {selectedRun.steps.length} steps completed
+                    {selectedRun.failure_policy === "fail_fast" ? " · stops on first failure" : ""}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {getRunBadge(selectedRun.status)}
+                  {selectedRun.status === AidenWorkflowStatus.RUNNING && (
+                    <Button variant="outline" size="sm" onClick={handleCancel}>
+                      <Ban className="h-4 w-4 mr-2" />
+                      Cancel
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              {selectedRun.steps.map((step) =>
+                step.task_id ? (
+                  <AidenTaskCard
+                    key={`${step.step_id}-${step.task_id}`}
+                    taskId={step.task_id}
+                    taskType={step.task_type}
+                    title={step.step_id}
+                    description={
+                      step.depends_on.length > 0 ? `${step.task_type} after ${step.depends_on.join(", ")}` : step.task_type
+                    }
+                  />
+                ) : (
+                  renderPlaceholderStep(step)
+                ),
+              )}
+            </div>
+          ) : (
+            !isLoading && (
+              <div className="flex flex-col items-center justify-center py-6 text-gray-500 dark:text-gray-400">
+                <Clock className="h-12 w-12 mb-2 opacity-50" />
+                <p>Select a run to see its steps</p>
+              </div>
+            )
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -3,12 +3,12 @@
 import { type ReactNode, useEffect, useState } from "react"
 import { useRouter } from "next/navigation"
 import { useUserRoles } from "@/hooks/use-user-roles"
-import type { UserRole } from "@/lib/auth/role-management"
+import type { RoleType } from "@/lib/auth/permissions"
 import { logger } from "@/lib/logging/enhanced-logger"
 
 interface RoleGuardProps {
   children: ReactNode
-  allowedRoles: UserRole[]
+  allowedRoles: Array<RoleType | string>
   fallbackPath?: string
   requireAll?: boolean
 }
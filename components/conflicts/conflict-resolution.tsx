@@ -0,0 +1,332 @@
+"use client"
+
+/**
+ * Conflict Resolution Component
+ * Side-by-side review of patient records the matcher believes are duplicates. Reviewers pick the value to keep
+ * for each field the records disagree on, then merge, mark them as different patients, or defer.
+ */
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Textarea } from "@/components/ui/textarea"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/components/ui/toast-provider"
+import { usePatientConflicts } from "@/hooks/use-patient-conflicts"
+import type { MatchProposalView } from "@/lib/matching/conflict-resolution"
+import type { MatchResolutionAction } from "@/lib/matching/match-store"
+import type { FieldOutcome, MatchField } from "@/lib/matching/patient-matcher"
+import { Clock, GitMerge, RefreshCw, Split } from "lucide-react"
+
+const FIELD_LABELS: Record<MatchField, string> = {
+  identifier: "Identifiers",
+  family: "Family name",
+  given: "Given names",
+  birthDate: "Birth date",
+  gender: "Sex",
+  phone: "Phone",
+  email: "Email",
+  postalCode: "Postal code",
+}
+
+const OUTCOME_STYLES: Record<FieldOutcome, string> = {
+  agree: "",
+  partial: "bg-amber-50 dark:bg-amber-900/10",
+  conflict: "bg-red-50 dark:bg-red-900/10",
+  missing: "text-muted-foreground",
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  fhir: "EHR",
+  vcf: "VCF upload",
+  lab: "Lab report",
+}
+
+const ACTION_LABELS: Record<MatchResolutionAction, string> = {
+  merge: "Merged",
+  not_duplicate: "Not a duplicate",
+  defer: "Deferred",
+}
+
+type Choices = Partial<Record<MatchField, "left" | "right">>
+
+const needsChoice = (outcome: FieldOutcome) => outcome === "conflict" || outcome === "partial"
+
+const formatScore = (score: number) => `${(score * 100).toFixed(score > 0.999 ? 2 : 1)}%`
+
+/**
+ * Conflict Resolution Component
+ */
+export function ConflictResolution() {
+  const { proposals, auditTrail, isLoading, error, scanFhirPatients, resolve } = usePatientConflicts()
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [choices, setChoices] = useState<Choices>({})
+  const [note, setNote] = useState("")
+  const [isScanning, setIsScanning] = useState(false)
+  const [isResolving, setIsResolving] = useState(false)
+
+  const { addToast } = useToast()
+
+  const selected: MatchProposalView | undefined =
+    proposals.find((proposal) => proposal.id === selectedId) || proposals[0]
+
+  // Start every field from the left record, which is kept as the master
+  useEffect(() => {
+    setChoices(
+      Object.fromEntries(
+        (selected?.fields || []).filter((field) => needsChoice(field.outcome)).map((field) => [field.field, "left"]),
+      ),
+    )
+    setNote("")
+  }, [selected?.id])
+
+  const notifyError = (title: string, error: unknown) => {
+    addToast({
+      type: "error",
+      title,
+      message: error instanceof Error ? error.message : "Unknown error",
+      duration: 5000,
+    })
+  }
+
+  const handleScan = async () => {
+    setIsScanning(true)
+
+    try {
+      const result = await scanFhirPatients()
+      addToast({
+        type: "success",
+        title: "Scan Complete",
+        message: `${result.records} records compared, ${result.open} possible duplicates to review`,
+      })
+    } catch (error) {
+      notifyError("Failed to Scan Patients", error)
+    } finally {
+      setIsScanning(false)
+    }
+  }
+
+  const handleResolve = async (action: MatchResolutionAction) => {
+    if (!selected) return
+    setIsResolving(true)
+
+    try {
+      await resolve(selected.id, {
+        action,
+        choices: action === "merge" ? choices : undefined,
+        note: note.trim() || undefined,
+      })
+      setSelectedId(null)
+      addToast({
+        type: "success",
+        title: ACTION_LABELS[action],
+        message: `${selected.left.label} and ${selected.right.label}`,
+      })
+    } catch (error) {
+      notifyError("Failed to Resolve Conflict", error)
+    } finally {
+      setIsResolving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Patient Conflicts</h1>
+          <p className="text-muted-foreground">
+            Records from the EHR, genomic uploads and lab reports that may belong to the same patient
+          </p>
+        </div>
+        <Button variant="outline" onClick={handleScan} disabled={isScanning}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${isScanning ? "animate-spin" : ""}`} />
+          {isScanning ? "Scanning..." : "Scan EHR Patients"}
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error.message}</p>}
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <Card>
+          <CardHeader>
+            <CardTitle>Proposed Merges</CardTitle>
+            <CardDescription>{proposals.length} awaiting a decision</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {isLoading && <Skeleton className="h-24 w-full" />}
+            {!isLoading && proposals.length === 0 && (
+              <p className="text-sm text-muted-foreground">No possible duplicates found</p>
+            )}
+            {proposals.map((proposal) => (
+              <button
+                key={proposal.id}
+                type="button"
+                onClick={() => setSelectedId(proposal.id)}
+                className={`w-full rounded-md border p-3 text-left hover:bg-muted ${
+                  proposal.id === selected?.id ? "border-primary" : ""
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium truncate">{proposal.left.label}</span>
+                  <Badge variant={proposal.classification === "probable" ? "destructive" : "secondary"}>
+                    {formatScore(proposal.score)}
+                  </Badge>
+                </div>
+                <p className="text-xs text-muted-foreground truncate">{proposal.right.label}</p>
+                {proposal.status === "deferred" && (
+                  <p className="text-xs text-muted-foreground flex items-center mt-1">
+                    <Clock className="h-3 w-3 mr-1" />
+                    Deferred by {proposal.resolved_by}
+                  </p>
+                )}
+              </button>
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Side-by-side Review</CardTitle>
+            <CardDescription>
+              {selected
+                ? `Match score ${formatScore(selected.score)} (${selected.weight.toFixed(1)} bits), ` +
+                  `${selected.classification} duplicate`
+                : "Select a proposed merge"}
+            </CardDescription>
+          </CardHeader>
+          {selected && (
+            <CardContent className="space-y-4">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Field</TableHead>
+                    <TableHead>
+                      {SOURCE_LABELS[selected.left.source]}: {selected.left.label}
+                    </TableHead>
+                    <TableHead>
+                      {SOURCE_LABELS[selected.right.source]}: {selected.right.label}
+                    </TableHead>
+                    <TableHead className="text-right">Weight</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {selected.fields.map((field) => (
+                    <TableRow key={field.field} className={OUTCOME_STYLES[field.outcome]}>
+                      <TableCell className="font-medium">{FIELD_LABELS[field.field]}</TableCell>
+                      {needsChoice(field.outcome) ? (
+                        <TableCell colSpan={2}>
+                          <RadioGroup
+                            className="grid-cols-2"
+                            value={choices[field.field]}
+                            onValueChange={(value) =>
+                              setChoices((current) => ({ ...current, [field.field]: value as "left" | "right" }))
+                            }
+                          >
+                            {(["left", "right"] as const).map((side) => (
+                              <label key={side} className="flex items-center gap-2 text-sm">
+                                <RadioGroupItem value={side} />
+                                {field[side] || "—"}
+                              </label>
+                            ))}
+                          </RadioGroup>
+                        </TableCell>
+                      ) : (
+                        <>
+                          <TableCell>{field.left || "—"}</TableCell>
+                          <TableCell>{field.right || "—"}</TableCell>
+                        </>
+                      )}
+                      <TableCell className="text-right text-xs text-muted-foreground">
+                        {field.outcome === "missing" ? "" : field.weight.toFixed(1)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              <Textarea
+                rows={2}
+                placeholder="Note for the audit trail (optional)"
+                value={note}
+                onChange={(event) => setNote(event.target.value)}
+                disabled={isResolving}
+              />
+
+              <div className="flex justify-end space-x-2">
+                <Button variant="ghost" size="sm" onClick={() => handleResolve("defer")} disabled={isResolving}>
+                  <Clock className="h-4 w-4 mr-1" />
+                  Defer
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleResolve("not_duplicate")}
+                  disabled={isResolving}
+                >
+                  <Split className="h-4 w-4 mr-1" />
+                  Not a Duplicate
+                </Button>
+                <Button size="sm" onClick={() => handleResolve("merge")} disabled={isResolving}>
+                  <GitMerge className="h-4 w-4 mr-1" />
+                  Merge Records
+                </Button>
+              </div>
+            </CardContent>
+          )}
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Audit Trail</CardTitle>
+          <CardDescription>Every merge and match decision, newest first</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {auditTrail.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No decisions recorded yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>Decision</TableHead>
+                  <TableHead>Records</TableHead>
+                  <TableHead>Kept values</TableHead>
+                  <TableHead>By</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {auditTrail.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="text-xs">{new Date(entry.created_at).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{ACTION_LABELS[entry.action]}</Badge>
+                      <span className="ml-2 text-xs text-muted-foreground">{formatScore(entry.score)}</span>
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      {entry.left_record_id}
+                      <br />
+                      {entry.right_record_id}
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      {entry.decisions.map((decision) => (
+                        <div key={decision.field}>
+                          {FIELD_LABELS[decision.field]}: {decision.chosen || "—"}
+                        </div>
+                      ))}
+                      {entry.note && <div className="text-muted-foreground">{entry.note}</div>}
+                    </TableCell>
+                    <TableCell className="text-xs">{entry.actor}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -1,9 +1,9 @@
 "use client"
 
-import { useState, useEffect } from "react"
 import { Badge } from "@/components/ui/badge"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
 import { CheckCircle2, AlertTriangle, XCircle } from "lucide-react"
+import { useFhirHealth } from "@/hooks/use-fhir-health"
 
 type EpicConnectionStatus = "connected" | "limited" | "disconnected" | "unknown"
 
@@ -16,27 +16,12 @@ interface EpicStatusIndicatorProps {
  * Displays the current connection status to Epic EHR system
  */
 export function EpicStatusIndicator({ showLabel = false }: EpicStatusIndicatorProps) {
-  const [status, setStatus] = useState<EpicConnectionStatus>("unknown")
-  const [isLoading, setIsLoading] = useState(true)
+  const { health, isLoading, error } = useFhirHealth()
 
-  // Simulate checking Epic connection status
-  useEffect(() => {
-    const checkEpicStatus = async () => {
-      try {
-        // In a real application, this would be an API call to check Epic connection status
-        await new Promise((resolve) => setTimeout(resolve, 1500))
-
-        // Simulate a successful connection (in production, this would be based on actual API response)
-        setStatus("connected")
-      } catch (error) {
-        setStatus("disconnected")
-      } finally {
-        setIsLoading(false)
-      }
-    }
-
-    checkEpicStatus()
-  }, [])
+  const status: EpicConnectionStatus = error ? "disconnected" : health?.state || "unknown"
+  const connection = health?.connection
+  // Earlier checks that ended in a different state, to show when the connection changed
+  const changes = (health?.history || []).filter((entry, index, history) => entry.state !== history[index + 1]?.state)
 
   // Status configuration
   const statusConfig = {
@@ -91,7 +76,41 @@ export function EpicStatusIndicator({ showLabel = false }: EpicStatusIndicatorPr
         <TooltipContent>
           <div className="text-sm">
             <p className="font-medium">{statusConfig[status].label}</p>
-            <p className="text-xs text-gray-500 dark:text-gray-400">{statusConfig[status].description}</p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {error?.message || (status === "connected" ? statusConfig[status].description : health?.summary)}
+            </p>
+            {health && health.degraded.length > 0 && (
+              <ul className="mt-1 text-xs text-amber-600 dark:text-amber-400 list-disc pl-4">
+                {health.degraded.map((item) => (
+                  <li key={item}>{item}</li>
+                ))}
+              </ul>
+            )}
+            {health?.server && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {health.server}
+                {health.fhir_version && ` (FHIR ${health.fhir_version})`}
+              </p>
+            )}
+            {connection?.expires_at && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Token {connection.can_refresh ? "renews" : "expires"} {new Date(connection.expires_at).toLocaleString()}
+              </p>
+            )}
+            {health && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Checked {new Date(health.checked_at).toLocaleTimeString()}
+              </p>
+            )}
+            {changes.length > 1 && (
+              <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                {changes.slice(1, 4).map((entry) => (
+                  <p key={entry.checked_at}>
+                    {statusConfig[entry.state].label} at {new Date(entry.checked_at).toLocaleTimeString()}
+                  </p>
+                ))}
+              </div>
+            )}
           </div>
         </TooltipContent>
       </Tooltip>
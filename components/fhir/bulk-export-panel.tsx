@@ -0,0 +1,289 @@
+"use client"
+
+/**
+ * Bulk Export Panel Component
+ * Starts FHIR Bulk Data exports, shows their download progress, and summarizes the exported cohort
+ */
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Progress } from "@/components/ui/progress"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useToast } from "@/components/ui/toast-provider"
+import { useBulkExport } from "@/hooks/use-bulk-export"
+import { useUserRoles } from "@/hooks/use-user-roles"
+import { Permission, hasPermission } from "@/lib/auth/permissions"
+import type { BulkExportJob, BulkExportLevel, BulkExportStatus } from "@/lib/fhir/bulk-data-store"
+import { Database, Play, RefreshCw, RotateCcw, XCircle } from "lucide-react"
+
+interface BulkExportPanelProps {
+  className?: string
+}
+
+const STATUS_STYLES: Record<BulkExportStatus, string> = {
+  accepted: "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200",
+  "in-progress": "bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-300",
+  downloading: "bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-300",
+  completed: "bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-300",
+  failed: "bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-300",
+  cancelled: "bg-gray-100 text-gray-500 dark:bg-gray-800 dark:text-gray-400",
+}
+
+const LEVEL_LABELS: Record<BulkExportLevel, string> = {
+  system: "System",
+  patient: "All patients",
+  group: "Group",
+}
+
+/**
+ * Share of the export downloaded, by resource count when the manifest reports counts
+ */
+function downloadPercent(job: BulkExportJob): number {
+  if (job.status === "completed") return 100
+  if (job.files.length === 0) return 0
+
+  const expected = job.files.reduce((total, file) => total + (file.count ?? 0), 0)
+  if (expected > 0) {
+    return Math.min(100, Math.round((job.files.reduce((total, file) => total + file.lines_loaded, 0) / expected) * 100))
+  }
+
+  return Math.round((job.files.filter((file) => file.complete).length / job.files.length) * 100)
+}
+
+/**
+ * Bulk Export Panel Component
+ */
+export function BulkExportPanel({ className = "" }: BulkExportPanelProps) {
+  const { jobs, summary, isLoading, error, refresh, startExport, resumeExport, cancelExport } = useBulkExport()
+  const [level, setLevel] = useState<BulkExportLevel>("system")
+  const [groupId, setGroupId] = useState("")
+  const [types, setTypes] = useState("")
+  const [since, setSince] = useState("")
+  const [isStarting, setIsStarting] = useState(false)
+
+  const { addToast } = useToast()
+  const { roles } = useUserRoles()
+  const canRunExports = hasPermission(roles, Permission.RUN_BULK_EXPORT)
+
+  const notifyError = (title: string, error: unknown) => {
+    addToast({
+      type: "error",
+      title,
+      message: error instanceof Error ? error.message : "Unknown error",
+      duration: 5000,
+    })
+  }
+
+  const handleStart = async () => {
+    setIsStarting(true)
+
+    try {
+      await startExport({
+        level,
+        group_id: level === "group" ? groupId.trim() : undefined,
+        types: types
+          .split(",")
+          .map((type) => type.trim())
+          .filter(Boolean),
+        since: since ? new Date(since).toISOString() : undefined,
+      })
+      addToast({ type: "success", title: "Export Started", message: "The FHIR server is preparing the files" })
+    } catch (error) {
+      notifyError("Failed to Start Export", error)
+    } finally {
+      setIsStarting(false)
+    }
+  }
+
+  const handleResume = async (job: BulkExportJob) => {
+    try {
+      await resumeExport(job.id)
+    } catch (error) {
+      notifyError("Failed to Resume Export", error)
+    }
+  }
+
+  const handleCancel = async (job: BulkExportJob) => {
+    if (!window.confirm("Cancel this export?")) return
+
+    try {
+      await cancelExport(job.id)
+    } catch (error) {
+      notifyError("Failed to Cancel Export", error)
+    }
+  }
+
+  return (
+    <div className={`space-y-6 ${className}`}>
+      {canRunExports && (
+        <Card>
+          <CardHeader>
+            <CardTitle>New Bulk Export</CardTitle>
+            <CardDescription>Export population data from the FHIR server for cohort analytics</CardDescription>
+          </CardHeader>
+          <CardContent className="grid gap-4 md:grid-cols-4">
+            <div className="space-y-2">
+              <Label htmlFor="bulk-level">Level</Label>
+              <Select value={level} onValueChange={(value) => setLevel(value as BulkExportLevel)}>
+                <SelectTrigger id="bulk-level">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="system">System</SelectItem>
+                  <SelectItem value="patient">All patients</SelectItem>
+                  <SelectItem value="group">Group</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {level === "group" && (
+              <div className="space-y-2">
+                <Label htmlFor="bulk-group">Group ID</Label>
+                <Input id="bulk-group" value={groupId} onChange={(event) => setGroupId(event.target.value)} />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="bulk-types">Resource types</Label>
+              <Input
+                id="bulk-types"
+                placeholder="Patient, Condition, Observation"
+                value={types}
+                onChange={(event) => setTypes(event.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bulk-since">Updated since</Label>
+              <Input id="bulk-since" type="date" value={since} onChange={(event) => setSince(event.target.value)} />
+            </div>
+            <div className="flex items-end">
+              <Button onClick={handleStart} disabled={isStarting || (level === "group" && !groupId.trim())}>
+                <Play className="h-4 w-4 mr-2" />
+                {isStarting ? "Starting..." : "Start Export"}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle>Exports</CardTitle>
+            <CardDescription>Downloads resume from the last saved position after a failure</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => refresh()}>
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading && <Skeleton className="h-16 w-full" />}
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error.message}</p>}
+          {!isLoading && !error && jobs.length === 0 && (
+            <p className="text-sm text-muted-foreground">No exports yet</p>
+          )}
+          {jobs.map((job) => (
+            <div key={job.id} className="rounded-md border p-4 space-y-3">
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <p className="font-medium">
+                    {LEVEL_LABELS[job.level]}
+                    {job.group_id && ` ${job.group_id}`}
+                    {job.types.length > 0 && ` · ${job.types.join(", ")}`}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Started {new Date(job.created_at).toLocaleString()} by {job.requested_by}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline" className={STATUS_STYLES[job.status]}>
+                    {job.status}
+                  </Badge>
+                  {canRunExports && job.status === "failed" && (
+                    <Button variant="outline" size="sm" onClick={() => handleResume(job)}>
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                      Resume
+                    </Button>
+                  )}
+                  {canRunExports && ["accepted", "in-progress", "downloading"].includes(job.status) && (
+                    <Button variant="ghost" size="sm" onClick={() => handleCancel(job)}>
+                      <XCircle className="h-4 w-4 mr-1" />
+                      Cancel
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              <Progress value={downloadPercent(job)} />
+              {job.progress && <p className="text-xs text-muted-foreground">Server: {job.progress}</p>}
+              {job.error && <p className="text-xs text-red-600 dark:text-red-400">{job.error}</p>}
+
+              {job.files.length > 0 && (
+                <div className="grid gap-1 text-xs text-muted-foreground md:grid-cols-3">
+                  {job.files.map((file) => (
+                    <span key={file.url}>
+                      {file.type}: {file.lines_loaded.toLocaleString()}
+                      {file.count !== null && ` / ${file.count.toLocaleString()}`}
+                      {file.complete && " ✓"}
+                    </span>
+                  ))}
+                </div>
+              )}
+              {job.errors.length > 0 && (
+                <ul className="text-xs text-amber-600 dark:text-amber-400 list-disc pl-4">
+                  {job.errors.map((message) => (
+                    <li key={message}>{message}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      {summary && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Database className="h-5 w-5 mr-2" />
+              Cohort Summary
+            </CardTitle>
+            <CardDescription>
+              {summary.patient_count.toLocaleString()} patients
+              {summary.transaction_time && ` as of ${new Date(summary.transaction_time).toLocaleString()}`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="grid gap-6 md:grid-cols-3">
+            <div>
+              <p className="text-sm font-medium mb-2">Resources</p>
+              {Object.entries(summary.resource_counts).map(([type, count]) => (
+                <p key={type} className="text-sm flex justify-between">
+                  <span>{type}</span>
+                  <span className="text-muted-foreground">{count.toLocaleString()}</span>
+                </p>
+              ))}
+            </div>
+            {[
+              { title: "Top conditions", items: summary.top_conditions },
+              { title: "Top observations", items: summary.top_observations },
+            ].map(({ title, items }) => (
+              <div key={title}>
+                <p className="text-sm font-medium mb-2">{title}</p>
+                {items.length === 0 && <p className="text-sm text-muted-foreground">None</p>}
+                {items.map((item) => (
+                  <p key={item.code} className="text-sm flex justify-between gap-2">
+                    <span className="truncate">{item.display}</span>
+                    <span className="text-muted-foreground">{item.patients} pts</span>
+                  </p>
+                ))}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -2,7 +2,7 @@
 
 import type React from "react"
 
-import { useState } from "react"
+import { useState, useEffect } from "react"
 import { Button } from "@/components/ui/button"
 import { useToast } from "@/components/ui/use-toast"
 import { Link2, Loader2 } from "lucide-react"
@@ -33,6 +33,29 @@ export function FhirAuthButton({
   const [isLoading, setIsLoading] = useState(false)
   const { toast } = useToast()
 
+  // Report the result when the callback sends the browser back here, once on mount
+  useEffect(() => {
+    const url = new URL(window.location.href)
+    const result = url.searchParams.get("fhir_auth")
+    if (!result) return
+
+    const errorMessage = url.searchParams.get("fhir_auth_error") || "Authentication failed"
+    url.searchParams.delete("fhir_auth")
+    url.searchParams.delete("fhir_auth_error")
+    window.history.replaceState(null, "", url.toString())
+
+    if (result === "success") {
+      onSuccess?.()
+    } else {
+      toast({
+        title: "Authentication Error",
+        description: errorMessage,
+        variant: "destructive",
+      })
+      onError?.(errorMessage)
+    }
+  }, [])
+
   const handleAuth = async () => {
     try {
       setIsLoading(true)
@@ -12,6 +12,7 @@ import { Skeleton } from "@/components/ui/skeleton"
 import { useFhirPatient } from "@/hooks/use-fhir-patient"
 import { FhirAnalysisType } from "@/lib/fhir/fhir-aiden-integration"
 import { AidenTaskCard } from "@/components/aiden/aiden-task-card"
+import { WritebackReview } from "@/components/fhir/writeback-review"
 import { useState } from "react"
 import {
   User,
@@ -25,6 +26,7 @@ import {
   FileText,
   Pill,
   Stethoscope,
+  Radio,
 } from "lucide-react"
 
 interface PatientCardProps {
@@ -36,12 +38,14 @@ interface PatientCardProps {
  * Patient Card Component
  */
 export function PatientCard({ patientId, className }: PatientCardProps) {
-  const { patient, healthRecord, isLoading, error, refetch } = useFhirPatient(patientId, {
+  const { patient, healthRecord, isLoading, error, refetch, isLive, lastUpdatedAt } = useFhirPatient(patientId, {
     includeHealthRecord: true,
+    live: true,
   })
 
   const [analysisTaskId, setAnalysisTaskId] = useState<string | null>(null)
   const [analysisType, setAnalysisType] = useState<FhirAnalysisType | null>(null)
+  const [completedTaskId, setCompletedTaskId] = useState<string | null>(null)
 
   // Handle clinical summary generation
   const handleGenerateClinicalSummary = async () => {
@@ -156,7 +160,20 @@ export function PatientCard({ patientId, className }: PatientCardProps) {
                 {patient.identifiers.find((id) => id.type === "Medical Record Number")?.value || "Unknown"}
               </CardDescription>
             </div>
-            <Badge variant={patient.active ? "default" : "destructive"}>{patient.active ? "Active" : "Inactive"}</Badge>
+            <div className="flex items-center gap-2">
+              {isLive && (
+                <Badge
+                  variant="outline"
+                  className="bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300"
+                  title={lastUpdatedAt ? `Updated ${new Date(lastUpdatedAt).toLocaleTimeString()}` : undefined}
+                >
+                  <Radio className="mr-1 h-3 w-3" /> Live
+                </Badge>
+              )}
+              <Badge variant={patient.active ? "default" : "destructive"}>
+                {patient.active ? "Active" : "Inactive"}
+              </Badge>
+            </div>
           </div>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -279,8 +296,20 @@ export function PatientCard({ patientId, className }: PatientCardProps) {
                 : "AIDEN Analysis"
           }
           description={`AI-powered analysis of patient ${patient.name}`}
+          onResult={() => setCompletedTaskId(analysisTaskId)}
         />
       )}
+
+      <WritebackReview
+        patientId={patient.id}
+        analysis={
+          completedTaskId === analysisTaskId &&
+          completedTaskId &&
+          (analysisType === FhirAnalysisType.CLINICAL_SUMMARY || analysisType === FhirAnalysisType.RISK_ASSESSMENT)
+            ? { kind: analysisType, taskId: completedTaskId }
+            : null
+        }
+      />
     </div>
   )
 }
@@ -2,7 +2,8 @@
 
 /**
  * Patient Health Record Component
- * Displays comprehensive patient health information from FHIR
+ * Displays comprehensive patient health information from FHIR, with pharmacogenomic results next to the medication
+ * orders they affect
  */
 
 import { useState } from "react"
@@ -11,7 +12,13 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button"
 import { Skeleton } from "@/components/ui/skeleton"
 import { useFhirPatient } from "@/hooks/use-fhir-patient"
+import { usePgxReports } from "@/hooks/use-pgx-reports"
 import { PatientCard } from "@/components/fhir/patient-card"
+import { PharmacogenomicsPanel } from "@/components/genomics/pharmacogenomics-panel"
+import { Badge } from "@/components/ui/badge"
+import type { CodedValue } from "@/lib/fhir/fhir-transformer"
+import { drugGeneInteractions } from "@/lib/genomics/pgx/interactions"
+import type { DrugGeneInteraction } from "@/lib/genomics/pgx/types"
 import { AlertTriangle, RefreshCw } from "lucide-react"
 
 interface PatientHealthRecordProps {
@@ -25,7 +32,9 @@ interface PatientHealthRecordProps {
 export function PatientHealthRecord({ patientId, className }: PatientHealthRecordProps) {
   const { healthRecord, isLoading, error, refetch } = useFhirPatient(patientId, {
     includeHealthRecord: true,
+    live: true,
   })
+  const pgx = usePgxReports(patientId)
 
   const [activeTab, setActiveTab] = useState("overview")
 
@@ -90,6 +99,8 @@ export function PatientHealthRecord({ patientId, className }: PatientHealthRecor
     )
   }
 
+  const interactions = pgx.report ? drugGeneInteractions(pgx.report, healthRecord.medications) : []
+
   return (
     <div className={className}>
       <Tabs value={activeTab} onValueChange={setActiveTab}>
@@ -97,15 +108,135 @@ export function PatientHealthRecord({ patientId, className }: PatientHealthRecor
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="conditions">Conditions</TabsTrigger>
           <TabsTrigger value="medications">Medications</TabsTrigger>
+          <TabsTrigger value="pharmacogenomics">
+            Pharmacogenomics
+            {interactions.length > 0 && (
+              <Badge variant="destructive" className="ml-2">
+                {interactions.length}
+              </Badge>
+            )}
+          </TabsTrigger>
           <TabsTrigger value="procedures">Procedures</TabsTrigger>
         </TabsList>
         <TabsContent value="overview">
-          <PatientCard patient={healthRecord.patient} />
+          <PatientCard patientId={healthRecord.patient.id} />
+        </TabsContent>
+        <TabsContent value="conditions">
+          <RecordList
+            title="Conditions"
+            emptyMessage="No conditions recorded"
+            items={healthRecord.conditions.map((condition) => ({
+              id: condition.id,
+              display: condition.display,
+              code: condition.code,
+              status: condition.clinicalStatus,
+              detail: condition.onsetDate ? `Onset ${formatDate(condition.onsetDate)}` : undefined,
+            }))}
+          />
+        </TabsContent>
+        <TabsContent value="medications">
+          <RecordList
+            title="Medications"
+            emptyMessage="No medications recorded"
+            items={healthRecord.medications.map((medication) => ({
+              id: medication.id,
+              display: medication.display,
+              code: medication.code,
+              status: medication.status,
+              detail: [medication.dosage, medication.authoredOn && `Ordered ${formatDate(medication.authoredOn)}`]
+                .filter(Boolean)
+                .join(" · "),
+              flags: interactions.filter((interaction) => interaction.medication_id === medication.id),
+            }))}
+          />
+        </TabsContent>
+        <TabsContent value="pharmacogenomics">
+          <PharmacogenomicsPanel report={pgx.report} interactions={interactions} onUpload={pgx.upload} />
+        </TabsContent>
+        <TabsContent value="procedures">
+          <RecordList
+            title="Procedures"
+            emptyMessage="No procedures recorded"
+            items={healthRecord.procedures.map((procedure) => ({
+              id: procedure.id,
+              display: procedure.display,
+              code: procedure.code,
+              status: procedure.status,
+              detail: [procedure.performedDate && formatDate(procedure.performedDate), procedure.performer]
+                .filter(Boolean)
+                .join(" · "),
+            }))}
+          />
         </TabsContent>
-        <TabsContent value="conditions">{/* Render conditions here */}</TabsContent>
-        <TabsContent value="medications">{/* Render medications here */}</TabsContent>
-        <TabsContent value="procedures">{/* Render procedures here */}</TabsContent>
       </Tabs>
     </div>
   )
 }
+
+function formatDate(value: string): string {
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleDateString()
+}
+
+interface RecordListProps {
+  title: string
+  emptyMessage: string
+  items: Array<{
+    id: string
+    display: string
+    code: CodedValue
+    status?: string
+    detail?: string
+    /** Drug–gene interactions of a medication order */
+    flags?: DrugGeneInteraction[]
+  }>
+}
+
+/**
+ * List of coded clinical entries with their terminology code and status
+ */
+function RecordList({ title, emptyMessage, items }: RecordListProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+        <CardDescription>{items.length} recorded</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {items.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{emptyMessage}</p>
+        ) : (
+          <ul className="divide-y">
+            {items.map((item) => (
+              <li key={item.id} className="py-3 flex items-start justify-between gap-4">
+                <div>
+                  <p className="font-medium">{item.display}</p>
+                  {item.code.code && (
+                    <p className="text-xs text-muted-foreground">
+                      {item.code.terminology || item.code.system} {item.code.code}
+                    </p>
+                  )}
+                  {item.detail && <p className="text-sm text-muted-foreground">{item.detail}</p>}
+                  {item.flags?.map((flag) => (
+                    <p
+                      key={`${flag.gene}-${flag.drug}`}
+                      className={
+                        flag.severity === "high"
+                          ? "text-sm flex items-center mt-1 text-red-700 dark:text-red-300"
+                          : "text-sm flex items-center mt-1 text-amber-700 dark:text-amber-300"
+                      }
+                    >
+                      <AlertTriangle className="h-4 w-4 mr-1 shrink-0" />
+                      {flag.gene} {flag.phenotype}: {flag.recommendation}
+                    </p>
+                  ))}
+                </div>
+                {item.status && <Badge variant="outline">{item.status}</Badge>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
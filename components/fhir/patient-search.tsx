@@ -1,97 +1,184 @@
 "use client"
 
-import { useState, useCallback } from "react"
+import { useState, useEffect, useCallback } from "react"
 import { useRouter } from "next/navigation"
-import { Search, Filter, X, ChevronLeft, ChevronRight, User } from "lucide-react"
+import { Search, Filter, X, ChevronLeft, ChevronRight, User, Bookmark, Save, Trash2, Users } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
+import { Checkbox } from "@/components/ui/checkbox"
 import { Card, CardContent, CardHeader, CardTitle, CardFooter } from "@/components/ui/card"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
 import { Skeleton } from "@/components/ui/skeleton"
 import { Badge } from "@/components/ui/badge"
-import type { FhirPatient } from "@/lib/fhir/fhir-client"
-import { debounce } from "@/lib/utils"
+import { useSavedPatientSearches } from "@/hooks/use-saved-patient-searches"
+import type { FhirBundle, FhirPatient } from "@/lib/fhir/fhir-client"
+import type { SavedPatientSearchView } from "@/lib/fhir/saved-searches"
 
 interface PatientSearchProps {
   onPatientSelect?: (patientId: string) => void
   standalone?: boolean
 }
 
-interface SearchParams {
-  name?: string
-  identifier?: string
-  gender?: string
-  birthDate?: string
-  phone?: string
-  email?: string
-  address?: string
-  _count?: string
-  _page?: string
+type NameMatch = "starts" | "exact" | "contains"
+
+interface SearchForm {
+  name: string
+  nameMatch: NameMatch
+  identifier: string
+  gender: string
+  bornFrom: string
+  bornTo: string
+  conditionCode: string
+  phone: string
+  email: string
+  address: string
+  sort: string
+}
+
+const EMPTY_FORM: SearchForm = {
+  name: "",
+  nameMatch: "starts",
+  identifier: "",
+  gender: "any",
+  bornFrom: "",
+  bornTo: "",
+  conditionCode: "",
+  phone: "",
+  email: "",
+  address: "",
+  sort: "relevance",
+}
+
+const PAGE_SIZE = 10
+
+/** Patients with a Condition of this code, through a reverse chain on Condition.patient */
+const CONDITION_CODE_PARAMETER = "_has:Condition:patient:code"
+
+/** Form fields sent as a search parameter of the same name */
+const PLAIN_FIELDS = ["identifier", "gender", "phone", "email", "address"] as const
+
+// Build the FHIR search query for the form
+const toQuery = (form: SearchForm) => {
+  const query = new URLSearchParams()
+
+  if (form.name) query.append(form.nameMatch === "starts" ? "name" : `name:${form.nameMatch}`, form.name)
+  PLAIN_FIELDS.forEach((field) => {
+    if (form[field] && !(field === "gender" && form.gender === "any")) query.append(field, form[field])
+  })
+  if (form.bornFrom) query.append("birthdate", `ge${form.bornFrom}`)
+  if (form.bornTo) query.append("birthdate", `le${form.bornTo}`)
+  if (form.conditionCode) query.append(CONDITION_CODE_PARAMETER, form.conditionCode)
+  if (form.sort !== "relevance") query.append("_sort", form.sort)
+
+  return query.toString()
+}
+
+// Fill the form from a saved search query
+const fromQuery = (queryString: string): SearchForm => {
+  const form = { ...EMPTY_FORM }
+
+  new URLSearchParams(queryString).forEach((value, name) => {
+    const [parameter, modifier] = name.split(":")
+
+    if (parameter === "name") {
+      form.name = value
+      form.nameMatch = (modifier as NameMatch) || "starts"
+    } else if (parameter === "birthdate") {
+      const prefix = value.slice(0, 2)
+      if (["ge", "gt", "sa"].includes(prefix)) form.bornFrom = value.slice(2)
+      else if (["le", "lt", "eb"].includes(prefix)) form.bornTo = value.slice(2)
+      else form.bornFrom = form.bornTo = value.replace(/^eq/, "")
+    } else if (name === CONDITION_CODE_PARAMETER) {
+      form.conditionCode = value
+    } else if (name === "_sort") {
+      form.sort = value
+    } else if ((PLAIN_FIELDS as readonly string[]).includes(name)) {
+      form[name as (typeof PLAIN_FIELDS)[number]] = value
+    }
+  })
+
+  return form
 }
 
 export function PatientSearch({ onPatientSelect, standalone = false }: PatientSearchProps) {
   const router = useRouter()
-  const [searchParams, setSearchParams] = useState<SearchParams>({
-    _count: "10",
-    _page: "1",
-  })
+  const [form, setForm] = useState<SearchForm>(EMPTY_FORM)
   const [showFilters, setShowFilters] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
-  const [results, setResults] = useState<{
-    entry?: Array<{ resource: FhirPatient }>
-    total?: number
-  }>({})
+  const [results, setResults] = useState<FhirBundle<FhirPatient> | null>(null)
+  // URLs of the pages visited, the last is the page shown; later pages come from the Bundle's next link
+  const [pages, setPages] = useState<string[]>([])
   const [error, setError] = useState<string | null>(null)
+  const [saveName, setSaveName] = useState("")
+  const [shareSearch, setShareSearch] = useState(false)
+  const [activeSearch, setActiveSearch] = useState<SavedPatientSearchView | null>(null)
+  const { searches: savedSearches, saveSearch, deleteSearch } = useSavedPatientSearches()
+
+  const query = toQuery(form)
+  // Included resources are not patients
+  const patients = (results?.entry || [])
+    .filter((entry) => entry.search?.mode !== "include" && entry.resource?.resourceType === "Patient")
+    .map((entry) => entry.resource as FhirPatient)
+  const hasResults = patients.length > 0
+  const nextPage = results?.link?.find((link) => link.relation === "next")?.url
+
+  // Load one page of results
+  const loadPage = useCallback(async (url: string, history: string[]) => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch(url)
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.message || `Search failed: ${response.statusText}`)
+      }
 
-  // Calculate pagination info
-  const currentPage = Number.parseInt(searchParams._page || "1")
-  const pageSize = Number.parseInt(searchParams._count || "10")
-  const totalPages = results.total ? Math.ceil(results.total / pageSize) : 0
-  const hasResults = results.entry && results.entry.length > 0
-
-  // Debounced search function
-  const debouncedSearch = useCallback(
-    debounce(async (params: SearchParams) => {
-      setIsLoading(true)
-      setError(null)
-
-      try {
-        // Build query string
-        const queryParams = new URLSearchParams()
-        Object.entries(params).forEach(([key, value]) => {
-          if (value) queryParams.append(key, value)
-        })
-
-        // Execute search
-        const response = await fetch(`/api/fhir/patients?${queryParams.toString()}`)
-
-        if (!response.ok) {
-          throw new Error(`Search failed: ${response.statusText}`)
-        }
-
-        const data = await response.json()
-        setResults(data)
-      } catch (err) {
-        setError(err instanceof Error ? err.message : "Search failed")
-        setResults({})
-      } finally {
-        setIsLoading(false)
+      setResults(await response.json())
+      setPages(history)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Search failed")
+      setResults(null)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  // Start the search over from the first page
+  const runSearch = useCallback(
+    (searchQuery: string) => {
+      if (!searchQuery) {
+        setResults(null)
+        setPages([])
+        setError(null)
+        return
       }
-    }, 500),
-    [],
-  )
 
-  // Handle input changes
-  const handleInputChange = (key: keyof SearchParams, value: string) => {
-    const newParams = { ...searchParams, [key]: value }
-    setSearchParams(newParams)
+      const url = `/api/fhir/patients?${searchQuery}&_count=${PAGE_SIZE}`
+      loadPage(url, [url])
+    },
+    [loadPage],
+  )
 
-    // Reset to page 1 when search criteria change (except when changing page)
-    if (key !== "_page") {
-      newParams._page = "1"
-    }
+  // Search once typing pauses
+  useEffect(() => {
+    const timer = setTimeout(() => runSearch(query), 500)
+    return () => clearTimeout(timer)
+  }, [query, runSearch])
 
-    debouncedSearch(newParams)
+  // Handle input changes
+  const handleInputChange = (key: keyof SearchForm, value: string) => {
+    setForm((current) => ({ ...current, [key]: value }))
+    setActiveSearch(null)
   }
 
   // Handle patient selection
@@ -103,10 +190,39 @@ export function PatientSearch({ onPatientSelect, standalone = false }: PatientSe
     }
   }
 
-  // Handle pagination
-  const goToPage = (page: number) => {
-    if (page < 1 || page > totalPages) return
-    handleInputChange("_page", page.toString())
+  // Handle pagination; the server's cursors only lead forward, so going back reloads the previous page
+  const goToNextPage = () => {
+    if (nextPage) loadPage(nextPage, [...pages, nextPage])
+  }
+
+  const goToPreviousPage = () => {
+    if (pages.length > 1) loadPage(pages[pages.length - 2], pages.slice(0, -1))
+  }
+
+  // Saved searches
+  const applySavedSearch = (search: SavedPatientSearchView) => {
+    setForm(fromQuery(search.query))
+    setActiveSearch(search)
+    setShowFilters(true)
+  }
+
+  const handleSaveSearch = async () => {
+    try {
+      setActiveSearch(await saveSearch(saveName.trim(), query, shareSearch))
+      setSaveName("")
+      setShareSearch(false)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save search")
+    }
+  }
+
+  const handleDeleteSearch = async (search: SavedPatientSearchView) => {
+    try {
+      await deleteSearch(search.id)
+      if (activeSearch?.id === search.id) setActiveSearch(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete search")
+    }
   }
 
   // Format patient name
@@ -134,25 +250,71 @@ export function PatientSearch({ onPatientSelect, standalone = false }: PatientSe
 
   // Clear all filters
   const clearFilters = () => {
-    setSearchParams({
-      _count: "10",
-      _page: "1",
-    })
-    debouncedSearch({
-      _count: "10",
-      _page: "1",
-    })
+    setForm(EMPTY_FORM)
+    setActiveSearch(null)
   }
 
   return (
     <Card className="w-full">
       <CardHeader>
         <CardTitle className="flex items-center justify-between">
-          <span>Patient Search</span>
-          <Button variant="outline" size="sm" onClick={() => setShowFilters(!showFilters)}>
-            <Filter className="h-4 w-4 mr-2" />
-            {showFilters ? "Hide Filters" : "Show Filters"}
-          </Button>
+          <span className="flex items-center gap-2">
+            Patient Search
+            {activeSearch && <Badge variant="secondary">{activeSearch.name}</Badge>}
+          </span>
+          <div className="flex gap-2">
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm">
+                  <Bookmark className="h-4 w-4 mr-2" />
+                  Saved Searches
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-72">
+                <DropdownMenuLabel>Saved searches</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                {savedSearches.length === 0 ? (
+                  <div className="px-2 py-1.5 text-sm text-muted-foreground">No saved searches yet.</div>
+                ) : (
+                  savedSearches.map((search) => (
+                    <DropdownMenuItem
+                      key={search.id}
+                      className="flex items-center justify-between gap-2"
+                      onSelect={() => applySavedSearch(search)}
+                    >
+                      <span className="truncate">{search.name}</span>
+                      <span className="flex items-center gap-1">
+                        {search.shared && (
+                          <Badge variant="outline" title={`Shared by ${search.owner_name}`}>
+                            <Users className="h-3 w-3 mr-1" />
+                            {search.owned ? "Shared" : search.owner_name}
+                          </Badge>
+                        )}
+                        {search.owned && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6"
+                            aria-label={`Delete ${search.name}`}
+                            onClick={(event) => {
+                              event.stopPropagation()
+                              handleDeleteSearch(search)
+                            }}
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        )}
+                      </span>
+                    </DropdownMenuItem>
+                  ))
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button variant="outline" size="sm" onClick={() => setShowFilters(!showFilters)}>
+              <Filter className="h-4 w-4 mr-2" />
+              {showFilters ? "Hide Filters" : "Show Filters"}
+            </Button>
+          </div>
         </CardTitle>
       </CardHeader>
 
@@ -165,12 +327,23 @@ export function PatientSearch({ onPatientSelect, standalone = false }: PatientSe
               type="text"
               placeholder="Search by patient name"
               className="pl-8"
-              value={searchParams.name || ""}
+              value={form.name}
               onChange={(e) => handleInputChange("name", e.target.value)}
             />
           </div>
 
-          <Button variant="default" onClick={() => debouncedSearch(searchParams)} disabled={isLoading}>
+          <Select value={form.nameMatch} onValueChange={(value) => handleInputChange("nameMatch", value)}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="starts">Starts with</SelectItem>
+              <SelectItem value="contains">Contains</SelectItem>
+              <SelectItem value="exact">Exact</SelectItem>
+            </SelectContent>
+          </Select>
+
+          <Button variant="default" onClick={() => runSearch(query)} disabled={isLoading}>
             Search
           </Button>
         </div>
@@ -183,17 +356,14 @@ export function PatientSearch({ onPatientSelect, standalone = false }: PatientSe
               <Input
                 type="text"
                 placeholder="Enter ID"
-                value={searchParams.identifier || ""}
+                value={form.identifier}
                 onChange={(e) => handleInputChange("identifier", e.target.value)}
               />
             </div>
 
             <div>
               <label className="text-sm font-medium mb-1 block">Gender</label>
-              <Select
-                value={searchParams.gender || "any"}
-                onValueChange={(value) => handleInputChange("gender", value)}
-              >
+              <Select value={form.gender} onValueChange={(value) => handleInputChange("gender", value)}>
                 <SelectTrigger>
                   <SelectValue placeholder="Any gender" />
                 </SelectTrigger>
@@ -208,20 +378,52 @@ export function PatientSearch({ onPatientSelect, standalone = false }: PatientSe
             </div>
 
             <div>
-              <label className="text-sm font-medium mb-1 block">Birth Date</label>
+              <label className="text-sm font-medium mb-1 block">Has Condition</label>
+              <Input
+                type="text"
+                placeholder="Code, e.g. 254837009 or system|code"
+                value={form.conditionCode}
+                onChange={(e) => handleInputChange("conditionCode", e.target.value)}
+              />
+            </div>
+
+            <div>
+              <label className="text-sm font-medium mb-1 block">Born On or After</label>
               <Input
                 type="date"
-                value={searchParams.birthDate || ""}
-                onChange={(e) => handleInputChange("birthDate", e.target.value)}
+                value={form.bornFrom}
+                onChange={(e) => handleInputChange("bornFrom", e.target.value)}
               />
             </div>
 
+            <div>
+              <label className="text-sm font-medium mb-1 block">Born On or Before</label>
+              <Input type="date" value={form.bornTo} onChange={(e) => handleInputChange("bornTo", e.target.value)} />
+            </div>
+
+            <div>
+              <label className="text-sm font-medium mb-1 block">Sort By</label>
+              <Select value={form.sort} onValueChange={(value) => handleInputChange("sort", value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="relevance">Server default</SelectItem>
+                  <SelectItem value="family,given">Name (A-Z)</SelectItem>
+                  <SelectItem value="-family,-given">Name (Z-A)</SelectItem>
+                  <SelectItem value="-birthdate">Youngest first</SelectItem>
+                  <SelectItem value="birthdate">Oldest first</SelectItem>
+                  <SelectItem value="-_lastUpdated">Recently updated</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
             <div>
               <label className="text-sm font-medium mb-1 block">Phone</label>
               <Input
                 type="tel"
                 placeholder="Phone number"
-                value={searchParams.phone || ""}
+                value={form.phone}
                 onChange={(e) => handleInputChange("phone", e.target.value)}
               />
             </div>
@@ -231,7 +433,7 @@ export function PatientSearch({ onPatientSelect, standalone = false }: PatientSe
               <Input
                 type="email"
                 placeholder="Email address"
-                value={searchParams.email || ""}
+                value={form.email}
                 onChange={(e) => handleInputChange("email", e.target.value)}
               />
             </div>
@@ -241,12 +443,30 @@ export function PatientSearch({ onPatientSelect, standalone = false }: PatientSe
               <Input
                 type="text"
                 placeholder="Address"
-                value={searchParams.address || ""}
+                value={form.address}
                 onChange={(e) => handleInputChange("address", e.target.value)}
               />
             </div>
 
-            <div className="md:col-span-2 lg:col-span-3 flex justify-end">
+            <div className="md:col-span-2 lg:col-span-3 flex flex-wrap items-center justify-between gap-2">
+              <div className="flex flex-wrap items-center gap-2">
+                <Input
+                  type="text"
+                  placeholder="Name this search"
+                  className="w-56"
+                  value={saveName}
+                  onChange={(e) => setSaveName(e.target.value)}
+                />
+                <label className="flex items-center gap-2 text-sm">
+                  <Checkbox checked={shareSearch} onCheckedChange={(checked) => setShareSearch(checked === true)} />
+                  Share with everyone
+                </label>
+                <Button variant="outline" size="sm" onClick={handleSaveSearch} disabled={!saveName.trim() || !query}>
+                  <Save className="h-4 w-4 mr-2" />
+                  Save Search
+                </Button>
+              </div>
+
               <Button variant="outline" size="sm" onClick={clearFilters}>
                 <X className="h-4 w-4 mr-2" />
                 Clear Filters
@@ -273,7 +493,7 @@ export function PatientSearch({ onPatientSelect, standalone = false }: PatientSe
             ))
           ) : hasResults ? (
             // Results list
-            results.entry?.map(({ resource: patient }) => (
+            patients.map((patient) => (
               <div
                 key={patient.id}
                 className="flex items-center p-3 border rounded-md hover:bg-accent/50 cursor-pointer transition-colors"
@@ -297,7 +517,7 @@ export function PatientSearch({ onPatientSelect, standalone = false }: PatientSe
                 </div>
               </div>
             ))
-          ) : searchParams.name || searchParams.identifier ? (
+          ) : query ? (
             // No results
             <div className="p-4 text-center text-muted-foreground">
               No patients found matching your search criteria.
@@ -310,28 +530,20 @@ export function PatientSearch({ onPatientSelect, standalone = false }: PatientSe
       </CardContent>
 
       {/* Pagination */}
-      {hasResults && totalPages > 1 && (
+      {hasResults && (nextPage || pages.length > 1) && (
         <CardFooter className="flex justify-between items-center border-t p-4">
           <div className="text-sm text-muted-foreground">
-            Showing {(currentPage - 1) * pageSize + 1}-{Math.min(currentPage * pageSize, results.total || 0)} of{" "}
-            {results.total}
+            {results?.total !== undefined ? `${results.total} patients found` : "More patients available"}
           </div>
 
           <div className="flex items-center gap-1">
-            <Button variant="outline" size="icon" onClick={() => goToPage(currentPage - 1)} disabled={currentPage <= 1}>
+            <Button variant="outline" size="icon" onClick={goToPreviousPage} disabled={pages.length <= 1 || isLoading}>
               <ChevronLeft className="h-4 w-4" />
             </Button>
 
-            <div className="text-sm mx-2">
-              Page {currentPage} of {totalPages}
-            </div>
+            <div className="text-sm mx-2">Page {pages.length}</div>
 
-            <Button
-              variant="outline"
-              size="icon"
-              onClick={() => goToPage(currentPage + 1)}
-              disabled={currentPage >= totalPages}
-            >
+            <Button variant="outline" size="icon" onClick={goToNextPage} disabled={!nextPage || isLoading}>
               <ChevronRight className="h-4 w-4" />
             </Button>
           </div>
@@ -0,0 +1,234 @@
+"use client"
+
+/**
+ * Write-back Review Component
+ * Lets a clinician review, edit and sign AIDEN results before they are published to the EHR
+ */
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Textarea } from "@/components/ui/textarea"
+import { useToast } from "@/components/ui/toast-provider"
+import { useFhirWriteback } from "@/hooks/use-fhir-writeback"
+import { useUserRoles } from "@/hooks/use-user-roles"
+import { Permission, hasPermission } from "@/lib/auth/permissions"
+import type { WritebackDraft, WritebackKind, WritebackStatus } from "@/lib/fhir/writeback-store"
+import { FilePlus, PenLine, RotateCcw, Send, XCircle } from "lucide-react"
+
+interface WritebackReviewProps {
+  patientId: string
+  /** Completed AIDEN analysis that can be drafted for the EHR */
+  analysis?: { kind: WritebackKind; taskId: string } | null
+  className?: string
+}
+
+const STATUS_LABELS: Record<WritebackStatus, string> = {
+  pending_review: "Awaiting review",
+  publishing: "Publishing",
+  published: "Published",
+  failed: "Publish failed",
+  rejected: "Rejected",
+}
+
+const STATUS_STYLES: Record<WritebackStatus, string> = {
+  pending_review: "bg-amber-100 text-amber-800 dark:bg-amber-900/20 dark:text-amber-300",
+  publishing: "bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-300",
+  published: "bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-300",
+  failed: "bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-300",
+  rejected: "bg-gray-100 text-gray-500 dark:bg-gray-800 dark:text-gray-400",
+}
+
+/**
+ * Write-back Review Component
+ */
+export function WritebackReview({ patientId, analysis, className = "" }: WritebackReviewProps) {
+  const { drafts, isLoading, error, createDraft, signDraft, rejectDraft, retryPublish } = useFhirWriteback(patientId)
+  const [narratives, setNarratives] = useState<Record<string, string>>({})
+  const [busyDraftId, setBusyDraftId] = useState<string | null>(null)
+  const [isDrafting, setIsDrafting] = useState(false)
+
+  const { addToast } = useToast()
+  const { roles } = useUserRoles()
+  const canSign = hasPermission(roles, Permission.SIGN_CLINICAL_DOCUMENTS)
+
+  const hasAnalysisDraft =
+    !!analysis && drafts.some((draft) => draft.source_task_id === analysis.taskId && draft.status !== "rejected")
+
+  // Start each pending draft's editor from the generated narrative
+  useEffect(() => {
+    setNarratives((current) => {
+      const next = { ...current }
+      drafts
+        .filter((draft) => draft.status === "pending_review" && next[draft.id] === undefined)
+        .forEach((draft) => (next[draft.id] = draft.narrative))
+      return next
+    })
+  }, [drafts])
+
+  const notifyError = (title: string, error: unknown) => {
+    addToast({
+      type: "error",
+      title,
+      message: error instanceof Error ? error.message : "Unknown error",
+      duration: 5000,
+    })
+  }
+
+  const notifyOutcome = (draft: WritebackDraft) => {
+    if (draft.status === "published") {
+      addToast({ type: "success", title: "Published to EHR", message: `${draft.title} was signed and published` })
+    } else {
+      notifyError("Publish Failed", new Error(draft.error || "The EHR did not accept the draft"))
+    }
+  }
+
+  const runAction = async (draftId: string, title: string, action: () => Promise<WritebackDraft | void>) => {
+    setBusyDraftId(draftId)
+
+    try {
+      const draft = await action()
+      if (draft && draft.status !== "rejected") notifyOutcome(draft)
+    } catch (error) {
+      notifyError(title, error)
+    } finally {
+      setBusyDraftId(null)
+    }
+  }
+
+  const handleCreateDraft = async () => {
+    if (!analysis) return
+    setIsDrafting(true)
+
+    try {
+      await createDraft({ kind: analysis.kind, task_id: analysis.taskId })
+    } catch (error) {
+      notifyError("Failed to Draft for EHR", error)
+    } finally {
+      setIsDrafting(false)
+    }
+  }
+
+  const handleReject = (draft: WritebackDraft) => {
+    const reason = window.prompt("Why is this draft being rejected?")
+    if (!reason?.trim()) return
+
+    runAction(draft.id, "Failed to Reject Draft", () => rejectDraft(draft.id, reason))
+  }
+
+  if (!analysis && !isLoading && drafts.length === 0) {
+    return null
+  }
+
+  return (
+    <Card className={className}>
+      <CardHeader className="flex flex-row items-start justify-between">
+        <div>
+          <CardTitle>EHR Write-back</CardTitle>
+          <CardDescription>Results are published to the EHR only after a clinician signs them</CardDescription>
+        </div>
+        {analysis && !hasAnalysisDraft && (
+          <Button variant="outline" size="sm" onClick={handleCreateDraft} disabled={isDrafting}>
+            <FilePlus className="h-4 w-4 mr-2" />
+            {isDrafting ? "Drafting..." : "Draft for EHR"}
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading && <Skeleton className="h-24 w-full" />}
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error.message}</p>}
+
+        {drafts.map((draft) => (
+          <div key={draft.id} className="rounded-md border p-4 space-y-3">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <p className="font-medium">{draft.title}</p>
+                <p className="text-xs text-muted-foreground">
+                  Drafted {new Date(draft.created_at).toLocaleString()} by {draft.created_by}
+                </p>
+              </div>
+              <Badge variant="outline" className={STATUS_STYLES[draft.status]}>
+                {STATUS_LABELS[draft.status]}
+              </Badge>
+            </div>
+
+            {draft.status === "pending_review" ? (
+              <Textarea
+                rows={6}
+                value={narratives[draft.id] ?? draft.narrative}
+                onChange={(event) => setNarratives((current) => ({ ...current, [draft.id]: event.target.value }))}
+                disabled={!canSign || busyDraftId === draft.id}
+              />
+            ) : (
+              <pre className="text-sm whitespace-pre-wrap font-sans text-muted-foreground">{draft.narrative}</pre>
+            )}
+
+            {draft.signed_by && (
+              <p className="text-xs text-muted-foreground flex items-center">
+                <PenLine className="h-3 w-3 mr-1" />
+                Signed by {draft.signed_by.display}
+                {draft.signed_at && ` on ${new Date(draft.signed_at).toLocaleString()}`}
+              </p>
+            )}
+            {draft.status === "published" && (
+              <p className="text-xs text-muted-foreground">
+                {draft.published.map((resource) => `${resource.resourceType}/${resource.id}`).join(", ")}
+              </p>
+            )}
+            {draft.status === "failed" && draft.error && (
+              <p className="text-xs text-red-600 dark:text-red-400">
+                {draft.error} (after {draft.attempts} attempts)
+              </p>
+            )}
+            {draft.status === "rejected" && (
+              <p className="text-xs text-muted-foreground">
+                Rejected by {draft.rejected_by}: {draft.rejected_reason}
+              </p>
+            )}
+
+            {canSign && draft.status === "pending_review" && (
+              <div className="flex justify-end space-x-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleReject(draft)}
+                  disabled={busyDraftId === draft.id}
+                >
+                  <XCircle className="h-4 w-4 mr-1" />
+                  Reject
+                </Button>
+                <Button
+                  size="sm"
+                  disabled={busyDraftId === draft.id || !(narratives[draft.id] ?? draft.narrative).trim()}
+                  onClick={() =>
+                    runAction(draft.id, "Failed to Sign Draft", () =>
+                      signDraft(draft.id, narratives[draft.id] ?? draft.narrative),
+                    )
+                  }
+                >
+                  <Send className="h-4 w-4 mr-1" />
+                  {busyDraftId === draft.id ? "Publishing..." : "Sign & Publish"}
+                </Button>
+              </div>
+            )}
+            {canSign && draft.status === "failed" && (
+              <div className="flex justify-end">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={busyDraftId === draft.id}
+                  onClick={() => runAction(draft.id, "Failed to Publish Draft", () => retryPublish(draft.id))}
+                >
+                  <RotateCcw className="h-4 w-4 mr-1" />
+                  Retry
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
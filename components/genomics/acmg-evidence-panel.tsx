@@ -0,0 +1,293 @@
+"use client"
+
+/**
+ * ACMG Evidence Panel
+ * Why a variant got its ACMG/AMP tier: the combining rule, every criterion evaluated with the evidence behind it,
+ * and the overrides curators made. Curators can decide any criterion with a justification, or hand it back to
+ * automatic evaluation.
+ */
+
+import { useEffect, useState } from "react"
+import { Badge, type BadgeProps } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Textarea } from "@/components/ui/textarea"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/components/ui/toast-provider"
+import { useVariantClassification } from "@/hooks/use-variant-classification"
+import {
+  ACMG_CRITERIA,
+  ACMG_CRITERION_CODES,
+  EVIDENCE_STRENGTHS,
+  type AcmgCriterion,
+  type EvidenceStrength,
+} from "@/lib/genomics/acmg"
+import type { VariantClassificationRecord } from "@/lib/genomics/classification-store"
+import type { GenomicVariant, VariantSignificance } from "@/lib/genomics/types"
+import { Pencil } from "lucide-react"
+
+const TIER_LABELS: Record<VariantSignificance, string> = {
+  pathogenic: "Pathogenic",
+  likely_pathogenic: "Likely Pathogenic",
+  uncertain: "Uncertain Significance",
+  likely_benign: "Likely Benign",
+  benign: "Benign",
+}
+
+const TIER_BADGES: Record<VariantSignificance, BadgeProps["variant"]> = {
+  pathogenic: "destructive",
+  likely_pathogenic: "destructive",
+  uncertain: "secondary",
+  likely_benign: "outline",
+  benign: "outline",
+}
+
+const STRENGTH_LABELS: Record<EvidenceStrength, string> = {
+  stand_alone: "Stand-alone",
+  very_strong: "Very strong",
+  strong: "Strong",
+  moderate: "Moderate",
+  supporting: "Supporting",
+}
+
+type Decision = "met" | "not_met" | "automatic"
+
+const DECISION_LABELS: Record<Decision, string> = {
+  met: "Met",
+  not_met: "Not met",
+  automatic: "Automatic",
+}
+
+interface AcmgEvidencePanelProps {
+  variant: GenomicVariant
+  onReclassified?: (record: VariantClassificationRecord) => void
+}
+
+export function AcmgEvidencePanel({ variant, onReclassified }: AcmgEvidencePanelProps) {
+  const { record, isLoading, overrideCriterion } = useVariantClassification(
+    variant.classification ? variant.id : null,
+  )
+  const [criterion, setCriterion] = useState<AcmgCriterion | null>(null)
+  const [decision, setDecision] = useState<Decision>("met")
+  const [strength, setStrength] = useState<EvidenceStrength | "default">("default")
+  const [justification, setJustification] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+
+  const { addToast } = useToast()
+
+  useEffect(() => {
+    setCriterion(null)
+  }, [variant.id])
+
+  const classification = record?.classification || variant.classification
+  if (!classification) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Not classified. Enrich the variant from the knowledge sources to evaluate the ACMG/AMP criteria.
+      </p>
+    )
+  }
+
+  const unevaluated = ACMG_CRITERION_CODES.filter(
+    (code) => !classification.criteria.some((item) => item.criterion === code),
+  )
+  const overrides = [...(record?.overrides || [])].reverse()
+
+  const startOverride = (code: AcmgCriterion) => {
+    const current = classification.criteria.find((item) => item.criterion === code)
+    setCriterion(code)
+    setDecision(current?.met ? "not_met" : "met")
+    setStrength("default")
+    setJustification("")
+  }
+
+  const handleSave = async () => {
+    if (!criterion) return
+    setIsSaving(true)
+
+    try {
+      const updated = await overrideCriterion({
+        criterion,
+        met: decision === "automatic" ? null : decision === "met",
+        strength: decision === "met" && strength !== "default" ? strength : null,
+        justification,
+      })
+      onReclassified?.(updated)
+      setCriterion(null)
+      addToast({
+        type: "success",
+        title: "Criterion Overridden",
+        message: `${criterion} ${DECISION_LABELS[decision].toLowerCase()}; the variant is now ${
+          TIER_LABELS[updated.classification.tier]
+        }`,
+      })
+    } catch (error) {
+      addToast({
+        type: "error",
+        title: "Failed to Override Criterion",
+        message: error instanceof Error ? error.message : "Unknown error",
+        duration: 5000,
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="flex flex-wrap items-center gap-2">
+          <h3 className="font-semibold">ACMG/AMP Classification</h3>
+          <Badge variant={TIER_BADGES[classification.tier]}>{TIER_LABELS[classification.tier]}</Badge>
+          {classification.conflicting && <Badge variant="outline">Conflicting evidence</Badge>}
+          {variant.significance !== classification.tier && (
+            <Badge variant="outline">Reported {TIER_LABELS[variant.significance]}</Badge>
+          )}
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {classification.rule}
+          {classification.met.length > 0 && ` · ${classification.met.join(", ")}`}
+        </p>
+      </div>
+
+      {isLoading && <Skeleton className="h-24 w-full" />}
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Criterion</TableHead>
+            <TableHead>Strength</TableHead>
+            <TableHead>Result</TableHead>
+            <TableHead>Evidence</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {classification.criteria.map((item) => (
+            <TableRow key={item.criterion} className={item.met ? "" : "text-muted-foreground"}>
+              <TableCell>
+                <div className="font-medium">{item.criterion}</div>
+                <div className="text-xs text-muted-foreground">{ACMG_CRITERIA[item.criterion].description}</div>
+              </TableCell>
+              <TableCell className="text-xs">{STRENGTH_LABELS[item.strength]}</TableCell>
+              <TableCell>
+                {item.met ? (
+                  <Badge variant={ACMG_CRITERIA[item.criterion].direction === "pathogenic" ? "destructive" : "default"}>
+                    Met
+                  </Badge>
+                ) : (
+                  <span className="text-xs">Not met</span>
+                )}
+              </TableCell>
+              <TableCell className="text-xs">
+                {item.reason}
+                {item.override && (
+                  <div className="text-muted-foreground">
+                    Overridden by {item.override.curator} on {new Date(item.override.created_at).toLocaleDateString()}
+                  </div>
+                )}
+              </TableCell>
+              <TableCell className="text-right">
+                <Button variant="ghost" size="sm" onClick={() => startOverride(item.criterion)} disabled={isSaving}>
+                  <Pencil className="h-3 w-3 mr-1" />
+                  Override
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      {unevaluated.length > 0 && !criterion && (
+        <div className="flex items-center gap-2">
+          <Label className="text-sm text-muted-foreground">Add evidence the knowledge sources cannot assess</Label>
+          <Select onValueChange={(value) => startOverride(value as AcmgCriterion)}>
+            <SelectTrigger className="w-48">
+              <SelectValue placeholder="Criterion" />
+            </SelectTrigger>
+            <SelectContent>
+              {unevaluated.map((code) => (
+                <SelectItem key={code} value={code}>
+                  {code} · {ACMG_CRITERIA[code].description}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {criterion && (
+        <div className="space-y-3 rounded-md border p-4">
+          <div>
+            <p className="font-medium">Override {criterion}</p>
+            <p className="text-xs text-muted-foreground">{ACMG_CRITERIA[criterion].description}</p>
+          </div>
+          <RadioGroup
+            className="grid-cols-3"
+            value={decision}
+            onValueChange={(value) => setDecision(value as Decision)}
+          >
+            {(Object.keys(DECISION_LABELS) as Decision[]).map((option) => (
+              <label key={option} className="flex items-center gap-2 text-sm">
+                <RadioGroupItem value={option} />
+                {DECISION_LABELS[option]}
+              </label>
+            ))}
+          </RadioGroup>
+          {decision === "met" && (
+            <div className="space-y-1">
+              <Label>Strength</Label>
+              <Select value={strength} onValueChange={(value) => setStrength(value as EvidenceStrength | "default")}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="default">
+                    Default ({STRENGTH_LABELS[ACMG_CRITERIA[criterion].strength]})
+                  </SelectItem>
+                  {EVIDENCE_STRENGTHS[ACMG_CRITERIA[criterion].direction].map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {STRENGTH_LABELS[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <Textarea
+            rows={2}
+            placeholder="Justification, e.g. the segregation data or functional study relied on"
+            value={justification}
+            onChange={(event) => setJustification(event.target.value)}
+            disabled={isSaving}
+          />
+          <div className="flex justify-end space-x-2">
+            <Button variant="ghost" size="sm" onClick={() => setCriterion(null)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={handleSave} disabled={isSaving || !justification.trim()}>
+              {isSaving ? "Saving..." : "Save Override"}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {overrides.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-sm font-medium">Curation history</p>
+          {overrides.map((override) => (
+            <p key={`${override.criterion}-${override.created_at}`} className="text-xs text-muted-foreground">
+              {new Date(override.created_at).toLocaleString()} · {override.curator} ·{" "}
+              <span className="font-medium">{override.criterion}</span>{" "}
+              {override.met === null ? "returned to automatic" : override.met ? "met" : "not met"}
+              {override.strength && ` (${STRENGTH_LABELS[override.strength]})`}: {override.justification}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,881 @@
+"use client"
+
+/**
+ * Genome Browser Component
+ * A locus browser for the variant viewer: the chromosome ideogram with the region in view, a coordinate ruler, the
+ * variants at their positions, genes and exons from the installed Ensembl annotation, and lollipops of the variants
+ * on one gene's protein with its domains. Pans and zooms with the mouse and the keyboard, and jumps to locus queries
+ * such as chr17:43,044,295-43,125,483 or to a gene by name.
+ */
+
+import type React from "react"
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { useToast } from "@/components/ui/toast-provider"
+import { useGenomeTracks } from "@/hooks/use-genome-tracks"
+import {
+  GRCH38_CHROMOSOME_LENGTHS,
+  clampRegion,
+  formatRegion,
+  panRegion,
+  parseRegion,
+  regionWidth,
+  zoomRegion,
+  type GenomicRegion,
+} from "@/lib/genomics/browser/region"
+import type { GeneTrack, GenomeTracks, ProteinDomain } from "@/lib/genomics/browser/types"
+import { proteinLength, proteinPosition, type TranscriptModel } from "@/lib/genomics/gene-model"
+import type { EnrichedVariant } from "@/lib/genomics/knowledge/types"
+import type { GenomicVariant, VariantSignificance } from "@/lib/genomics/types"
+import { viewerChromosome } from "@/lib/genomics/vcf-variants"
+import { ChevronLeft, ChevronRight, Loader2, Search, ZoomIn, ZoomOut } from "lucide-react"
+
+const CANVAS_WIDTH = 800
+/** Left margin for the track labels */
+const LEFT = 64
+const PLOT_WIDTH = CANVAS_WIDTH - LEFT - 16
+
+const IDEOGRAM = { top: 8, height: 14 }
+const RULER_Y = 34
+const VARIANT_TRACK = { top: 60, bottom: 82 }
+const GENE_TRACK_TOP = 92
+const GENE_ROW = 28
+
+const DEFAULT_REGION = "chr17:43,044,295-43,125,483"
+
+const SIGNIFICANCE_COLORS: Record<VariantSignificance, string> = {
+  pathogenic: "#ef4444",
+  likely_pathogenic: "#f97316",
+  uncertain: "#f59e0b",
+  likely_benign: "#34d399",
+  benign: "#10b981",
+}
+
+const BAND_COLORS: Record<string, string> = {
+  gneg: "#f9fafb",
+  gpos25: "#d1d5db",
+  gpos50: "#9ca3af",
+  gpos75: "#6b7280",
+  gpos100: "#374151",
+  gvar: "#c4b5fd",
+  stalk: "#cbd5e1",
+  acen: "#f87171",
+}
+
+const DOMAIN_COLORS = ["#60a5fa", "#a78bfa", "#34d399", "#fbbf24", "#f472b6", "#22d3ee"]
+
+const CHROMOSOME_ORDER = Object.keys(GRCH38_CHROMOSOME_LENGTHS)
+
+interface ProteinVariant {
+  variant: GenomicVariant
+  /** Amino acid position */
+  position: number
+}
+
+interface ProteinTrack {
+  gene: GeneTrack
+  transcript: TranscriptModel
+  /** Codons, counting the stop codon */
+  length: number
+  domains: ProteinDomain[]
+  variants: ProteinVariant[]
+  /** Variants in the transcript outside its coding sequence */
+  noncoding: GenomicVariant[]
+}
+
+interface CanvasHits {
+  variants: Array<{ x: number; y: number; radius: number; variant: GenomicVariant }>
+  genes: Array<{ left: number; right: number; top: number; bottom: number; gene: string }>
+}
+
+interface GenomeBrowserProps {
+  variants: GenomicVariant[]
+  selectedVariant: GenomicVariant | null
+  onVariantSelect: (variant: GenomicVariant) => void
+  height?: number
+  /** Lets the viewer download the drawn tracks */
+  canvasRef?: React.RefObject<HTMLCanvasElement>
+}
+
+const isEnriched = (variant: GenomicVariant): variant is EnrichedVariant => "annotations" in variant
+
+const sameGene = (track: GeneTrack, name: string) =>
+  !!name && [track.gene.name, track.gene.id].some((value) => value.toUpperCase() === name.toUpperCase())
+
+const unversioned = (id: string) => id.split(".")[0]
+
+/** Tick spacing of 1, 2 or 5 times a power of ten */
+function niceStep(raw: number): number {
+  const power = 10 ** Math.floor(Math.log10(Math.max(raw, 1)))
+  return [1, 2, 5, 10].map((multiple) => multiple * power).find((step) => step >= raw) || power * 10
+}
+
+/**
+ * The first view: the selected variant, or the first one, with its neighbours within a megabase
+ */
+function initialRegion(variants: GenomicVariant[], selected: GenomicVariant | null): GenomicRegion {
+  const focus = selected || variants[0]
+  if (!focus) return parseRegion(DEFAULT_REGION)
+
+  const chromosome = viewerChromosome(focus.chromosome)
+  const positions = variants
+    .filter((variant) => viewerChromosome(variant.chromosome) === chromosome)
+    .map((variant) => variant.position)
+    .filter((position) => Math.abs(position - focus.position) < 1_000_000)
+  const [start, end] = [Math.min(...positions), Math.max(...positions)]
+  const padding = Math.max(100, Math.round((end - start) * 0.2))
+
+  return clampRegion({ chromosome, start: start - padding, end: end + padding })
+}
+
+/** Amino acid of a variant: Ensembl's when it annotated this transcript, otherwise from the transcript's exons */
+function variantProteinPosition(variant: GenomicVariant, transcript: TranscriptModel): number | null {
+  const ensembl = isEnriched(variant) ? variant.annotations.ensembl : undefined
+  if (ensembl?.transcript_id === transcript.id && ensembl.protein_position !== null) return ensembl.protein_position
+
+  // VCF indels start with the unchanged base before them
+  const position = proteinPosition(transcript, variant.position)
+  return position === null && variant.reference.length !== variant.alternate.length
+    ? proteinPosition(transcript, variant.position + 1)
+    : position
+}
+
+/**
+ * The variants on a gene's canonical protein, or its first coding transcript's when none is marked canonical
+ */
+function proteinTrack(track: GeneTrack, variants: GenomicVariant[]): ProteinTrack | null {
+  const coding = track.transcripts.filter((transcript) => transcript.cds)
+  const transcript = coding.find((candidate) => candidate.canonical) || coding[0]
+  const length = transcript && proteinLength(transcript)
+  if (!transcript || !length) return null
+
+  const protein: ProteinTrack = {
+    gene: track,
+    transcript,
+    length,
+    domains: track.domains.filter(
+      (domain) => !domain.transcript_id || unversioned(domain.transcript_id) === unversioned(transcript.id),
+    ),
+    variants: [],
+    noncoding: [],
+  }
+
+  for (const variant of variants) {
+    if (viewerChromosome(variant.chromosome) !== transcript.chromosome) continue
+    if (variant.position < transcript.start - 1 || variant.position > transcript.end) continue
+
+    const position = variantProteinPosition(variant, transcript)
+    if (position === null) protein.noncoding.push(variant)
+    else protein.variants.push({ variant, position })
+  }
+  protein.variants.sort((a, b) => a.position - b.position)
+
+  return protein
+}
+
+function drawIdeogram(ctx: CanvasRenderingContext2D, region: GenomicRegion, chromosome: GenomeTracks["chromosome"]) {
+  const length = chromosome.length ?? region.end
+  const x = (position: number) => LEFT + (position / length) * PLOT_WIDTH
+  const { top, height } = IDEOGRAM
+
+  ctx.fillStyle = "#4b5563"
+  ctx.font = "bold 11px Inter, sans-serif"
+  ctx.textAlign = "left"
+  ctx.fillText(`chr${chromosome.name}`, 4, top + height - 3)
+
+  if (chromosome.bands.length === 0) {
+    ctx.fillStyle = "#e5e7eb"
+    ctx.fillRect(LEFT, top, PLOT_WIDTH, height)
+  }
+  for (const band of chromosome.bands) {
+    const [left, right] = [x(band.start - 1), x(band.end)]
+    ctx.fillStyle = BAND_COLORS[band.stain] || BAND_COLORS.gneg
+
+    if (band.stain === "acen") {
+      // The centromere narrows towards the boundary between the arms
+      const narrow = band.name.startsWith("p") ? right : left
+      const wide = band.name.startsWith("p") ? left : right
+      ctx.beginPath()
+      ctx.moveTo(wide, top)
+      ctx.lineTo(narrow, top + height / 2)
+      ctx.lineTo(wide, top + height)
+      ctx.closePath()
+      ctx.fill()
+    } else {
+      ctx.fillRect(left, top, Math.max(right - left, 0.5), height)
+    }
+  }
+
+  ctx.strokeStyle = "#6b7280"
+  ctx.lineWidth = 1
+  ctx.strokeRect(LEFT, top, PLOT_WIDTH, height)
+
+  // The region in view
+  const [left, right] = [x(region.start - 1), x(region.end)]
+  ctx.strokeStyle = "#dc2626"
+  ctx.lineWidth = 2
+  ctx.strokeRect(left, top - 3, Math.max(right - left, 2), height + 6)
+}
+
+function drawRuler(ctx: CanvasRenderingContext2D, region: GenomicRegion, x: (position: number) => number) {
+  const step = niceStep(regionWidth(region) / 8)
+
+  ctx.strokeStyle = "#9ca3af"
+  ctx.lineWidth = 1
+  ctx.beginPath()
+  ctx.moveTo(LEFT, RULER_Y)
+  ctx.lineTo(LEFT + PLOT_WIDTH, RULER_Y)
+  ctx.stroke()
+
+  ctx.fillStyle = "#6b7280"
+  ctx.font = "10px Inter, sans-serif"
+  ctx.textAlign = "center"
+  for (let tick = Math.ceil(region.start / step) * step; tick <= region.end; tick += step) {
+    const tickX = x(tick + 0.5)
+    ctx.beginPath()
+    ctx.moveTo(tickX, RULER_Y)
+    ctx.lineTo(tickX, RULER_Y + 5)
+    ctx.stroke()
+    ctx.fillText(tick.toLocaleString("en-US"), tickX, RULER_Y + 16)
+  }
+}
+
+function drawVariants(
+  ctx: CanvasRenderingContext2D,
+  region: GenomicRegion,
+  x: (position: number) => number,
+  variants: GenomicVariant[],
+  selected: GenomicVariant | null,
+  hits: CanvasHits,
+) {
+  ctx.fillStyle = "#4b5563"
+  ctx.font = "11px Inter, sans-serif"
+  ctx.textAlign = "left"
+  ctx.fillText("Variants", 4, VARIANT_TRACK.bottom - 4)
+
+  const visible = variants.filter(
+    (variant) =>
+      viewerChromosome(variant.chromosome) === region.chromosome &&
+      variant.position >= region.start &&
+      variant.position <= region.end,
+  )
+  // The selected variant is drawn last, on top of its neighbours
+  visible.sort((a, b) => Number(a.id === selected?.id) - Number(b.id === selected?.id))
+
+  for (const variant of visible) {
+    const isSelected = variant.id === selected?.id
+    const [variantX, headY] = [x(variant.position + 0.5), VARIANT_TRACK.top + 4]
+    const radius = isSelected ? 6 : 4
+
+    ctx.strokeStyle = "#9ca3af"
+    ctx.lineWidth = 1
+    ctx.beginPath()
+    ctx.moveTo(variantX, VARIANT_TRACK.bottom)
+    ctx.lineTo(variantX, headY)
+    ctx.stroke()
+
+    ctx.beginPath()
+    ctx.arc(variantX, headY, radius, 0, Math.PI * 2)
+    ctx.fillStyle = SIGNIFICANCE_COLORS[variant.significance] || "#6b7280"
+    ctx.fill()
+    if (isSelected) {
+      ctx.strokeStyle = "#1f2937"
+      ctx.lineWidth = 2
+      ctx.stroke()
+    }
+
+    hits.variants.push({ x: variantX, y: headY, radius, variant })
+  }
+}
+
+function drawTranscript(
+  ctx: CanvasRenderingContext2D,
+  transcript: TranscriptModel,
+  x: (position: number) => number,
+  centerY: number,
+  color: string,
+) {
+  const [left, right] = [x(transcript.start), x(transcript.end + 1)]
+  ctx.strokeStyle = color
+  ctx.fillStyle = color
+  ctx.lineWidth = 1
+  ctx.beginPath()
+  ctx.moveTo(Math.max(left, LEFT), centerY)
+  ctx.lineTo(Math.min(right, LEFT + PLOT_WIDTH), centerY)
+  ctx.stroke()
+
+  // Strand arrows along the introns
+  const direction = transcript.strand === "+" ? 1 : -1
+  for (let arrowX = Math.max(left, LEFT) + 12; arrowX < Math.min(right, LEFT + PLOT_WIDTH) - 6; arrowX += 24) {
+    ctx.beginPath()
+    ctx.moveTo(arrowX - 2 * direction, centerY - 3)
+    ctx.lineTo(arrowX + 2 * direction, centerY)
+    ctx.lineTo(arrowX - 2 * direction, centerY + 3)
+    ctx.stroke()
+  }
+
+  // UTRs are drawn thin and the coding sequence thick
+  for (const exon of transcript.exons) {
+    const exonLeft = x(exon.start)
+    ctx.fillRect(exonLeft, centerY - 4, Math.max(x(exon.end + 1) - exonLeft, 1), 8)
+
+    const { cds } = transcript
+    if (!cds || exon.end < cds.start || exon.start > cds.end) continue
+    const codingLeft = x(Math.max(exon.start, cds.start))
+    ctx.fillRect(codingLeft, centerY - 7, Math.max(x(Math.min(exon.end, cds.end) + 1) - codingLeft, 1), 14)
+  }
+}
+
+/**
+ * Genes packed into rows; each gene shows its canonical transcript, or only its span when the view is too wide
+ */
+function drawGenes(
+  ctx: CanvasRenderingContext2D,
+  region: GenomicRegion,
+  x: (position: number) => number,
+  genes: GeneTrack[],
+  rows: number,
+  focus: GeneTrack | null,
+  hits: CanvasHits,
+) {
+  ctx.fillStyle = "#4b5563"
+  ctx.font = "11px Inter, sans-serif"
+  ctx.textAlign = "left"
+  ctx.fillText("Genes", 4, GENE_TRACK_TOP + 12)
+
+  ctx.save()
+  ctx.beginPath()
+  ctx.rect(LEFT, GENE_TRACK_TOP - 2, PLOT_WIDTH, rows * GENE_ROW)
+  ctx.clip()
+  ctx.font = "10px Inter, sans-serif"
+
+  const rowEnds: number[] = []
+  let hidden = 0
+
+  for (const track of genes) {
+    const { gene } = track
+    if (gene.chromosome !== region.chromosome || gene.end < region.start || gene.start > region.end) continue
+
+    const left = Math.max(x(gene.start), LEFT)
+    const right = Math.max(Math.min(x(gene.end + 1), LEFT + PLOT_WIDTH), left + ctx.measureText(gene.name).width)
+    const free = rowEnds.findIndex((end) => end + 8 < left)
+    const row = free !== -1 ? free : rowEnds.length < rows ? rowEnds.length : -1
+    if (row === -1) {
+      hidden++
+      continue
+    }
+    rowEnds[row] = right
+
+    const top = GENE_TRACK_TOP + row * GENE_ROW
+    const color = track === focus ? "#1d4ed8" : "#374151"
+    const transcript = track.transcripts.find((candidate) => candidate.canonical) || track.transcripts[0]
+
+    if (transcript) {
+      drawTranscript(ctx, transcript, x, top + 8, color)
+    } else {
+      ctx.fillStyle = "#9ca3af"
+      ctx.fillRect(x(gene.start), top + 4, Math.max(x(gene.end + 1) - x(gene.start), 1), 8)
+    }
+
+    ctx.fillStyle = color
+    ctx.textAlign = "left"
+    ctx.fillText(`${gene.name}${gene.strand === "+" ? " →" : " ←"}`, left, top + 25)
+    hits.genes.push({ left, right, top, bottom: top + GENE_ROW, gene: gene.name })
+  }
+  ctx.restore()
+
+  if (hidden > 0) {
+    ctx.fillStyle = "#6b7280"
+    ctx.font = "10px Inter, sans-serif"
+    ctx.textAlign = "left"
+    ctx.fillText(`+${hidden} more`, 4, GENE_TRACK_TOP + 26)
+  }
+}
+
+/**
+ * Lollipops of the variants on a protein, stacked where several change the same amino acid, over its domains
+ */
+function drawProtein(
+  ctx: CanvasRenderingContext2D,
+  protein: ProteinTrack,
+  top: number,
+  bottom: number,
+  selected: GenomicVariant | null,
+  hits: CanvasHits,
+) {
+  const backboneY = bottom - 22
+  const x = (aminoAcid: number) => LEFT + ((aminoAcid - 0.5) / protein.length) * PLOT_WIDTH
+
+  ctx.fillStyle = "#4b5563"
+  ctx.font = "bold 11px Inter, sans-serif"
+  ctx.textAlign = "left"
+  ctx.fillText(protein.gene.gene.name, 4, backboneY + 8)
+  ctx.font = "10px Inter, sans-serif"
+  ctx.fillText(`${protein.length} aa`, 4, backboneY + 20)
+
+  ctx.fillStyle = "#e5e7eb"
+  ctx.fillRect(LEFT, backboneY, PLOT_WIDTH, 8)
+
+  protein.domains.forEach((domain, index) => {
+    const left = LEFT + ((domain.start - 1) / protein.length) * PLOT_WIDTH
+    const width = Math.max(((domain.end - domain.start + 1) / protein.length) * PLOT_WIDTH, 2)
+    ctx.fillStyle = DOMAIN_COLORS[index % DOMAIN_COLORS.length]
+    ctx.fillRect(left, backboneY - 4, width, 16)
+
+    if (ctx.measureText(domain.name).width + 6 < width) {
+      ctx.fillStyle = "#1f2937"
+      ctx.textAlign = "center"
+      ctx.fillText(domain.name, left + width / 2, backboneY + 8)
+    }
+  })
+
+  ctx.fillStyle = "#6b7280"
+  ctx.textAlign = "left"
+  ctx.fillText("1", LEFT, bottom)
+  ctx.textAlign = "right"
+  ctx.fillText(String(protein.length), LEFT + PLOT_WIDTH, bottom)
+
+  const byPosition = new Map<number, GenomicVariant[]>()
+  for (const { variant, position } of protein.variants) {
+    byPosition.set(position, [...(byPosition.get(position) || []), variant])
+  }
+
+  for (const [position, variants] of byPosition) {
+    const stemX = x(position)
+    const headY = (index: number) => Math.max(backboneY - 20 - index * 11, top + 6)
+
+    ctx.strokeStyle = "#9ca3af"
+    ctx.lineWidth = 1
+    ctx.beginPath()
+    ctx.moveTo(stemX, backboneY - 4)
+    ctx.lineTo(stemX, headY(variants.length - 1))
+    ctx.stroke()
+
+    variants.forEach((variant, index) => {
+      const isSelected = variant.id === selected?.id
+      const radius = isSelected ? 6 : 4.5
+      ctx.beginPath()
+      ctx.arc(stemX, headY(index), radius, 0, Math.PI * 2)
+      ctx.fillStyle = SIGNIFICANCE_COLORS[variant.significance] || "#6b7280"
+      ctx.fill()
+      if (isSelected) {
+        ctx.strokeStyle = "#1f2937"
+        ctx.lineWidth = 2
+        ctx.stroke()
+        ctx.fillStyle = "#1f2937"
+        ctx.textAlign = "center"
+        ctx.fillText(String(position), stemX, headY(variants.length - 1) - 9)
+      }
+      hits.variants.push({ x: stemX, y: headY(index), radius, variant })
+    })
+  }
+}
+
+/**
+ * Locus browser over a set of variants
+ */
+export function GenomeBrowser({
+  variants,
+  selectedVariant,
+  onVariantSelect,
+  height = 400,
+  canvasRef,
+}: GenomeBrowserProps) {
+  const [region, setRegion] = useState<GenomicRegion>(() => initialRegion(variants, selectedVariant))
+  const [query, setQuery] = useState(() => formatRegion(region))
+  const [focusGene, setFocusGene] = useState<string | null>(null)
+  const ownCanvasRef = useRef<HTMLCanvasElement>(null)
+  const canvas = canvasRef || ownCanvasRef
+  const hits = useRef<CanvasHits>({ variants: [], genes: [] })
+  const drag = useRef<{ clientX: number; region: GenomicRegion; moved: boolean } | null>(null)
+  const { tracks, isLoading, error, locate } = useGenomeTracks(region)
+  const { addToast } = useToast()
+
+  const length =
+    tracks?.chromosome.name === region.chromosome ? (tracks.chromosome.length ?? undefined) : undefined
+  const geneRows = height >= 360 ? 4 : height >= 280 ? 3 : 2
+  const proteinTop = GENE_TRACK_TOP + geneRows * GENE_ROW + 8
+
+  const placed = useRef(variants.length > 0)
+
+  useEffect(() => {
+    setQuery(formatRegion(region))
+  }, [region])
+
+  // Variants that arrive after the browser opened are brought into view once
+  useEffect(() => {
+    if (placed.current || variants.length === 0) return
+
+    placed.current = true
+    setRegion(initialRegion(variants, selectedVariant))
+  }, [variants, selectedVariant])
+
+  // The server knows the length of chromosomes outside GRCh38 from its cytoband file
+  useEffect(() => {
+    const chromosomeLength = tracks?.chromosome.length
+    if (!tracks || !chromosomeLength) return
+
+    setRegion((current) =>
+      current.chromosome === tracks.chromosome.name && current.end > chromosomeLength
+        ? clampRegion(current, chromosomeLength)
+        : current,
+    )
+  }, [tracks])
+
+  // Bring a variant selected elsewhere into view, keeping the zoom
+  useEffect(() => {
+    if (!selectedVariant) return
+
+    const chromosome = viewerChromosome(selectedVariant.chromosome)
+    const { position } = selectedVariant
+    setRegion((current) => {
+      if (current.chromosome === chromosome && position >= current.start && position <= current.end) return current
+
+      const half = Math.floor(regionWidth(current) / 2)
+      return clampRegion({ chromosome, start: position - half, end: position + half })
+    })
+  }, [selectedVariant])
+
+  const focus = useMemo(() => {
+    const inView = (tracks?.genes || []).filter(
+      (track) =>
+        track.gene.chromosome === region.chromosome &&
+        track.gene.end >= region.start &&
+        track.gene.start <= region.end &&
+        track.transcripts.some((transcript) => transcript.cds),
+    )
+    const named = (name: string | null | undefined) => (name && inView.find((track) => sameGene(track, name))) || null
+    const variantCount = (track: GeneTrack) =>
+      variants.filter(
+        (variant) =>
+          viewerChromosome(variant.chromosome) === track.gene.chromosome &&
+          variant.position >= track.gene.start &&
+          variant.position <= track.gene.end,
+      ).length
+
+    return (
+      named(focusGene) ||
+      named(selectedVariant?.gene) ||
+      [...inView].sort((a, b) => variantCount(b) - variantCount(a))[0] ||
+      null
+    )
+  }, [tracks, region, focusGene, selectedVariant, variants])
+
+  const protein = useMemo(() => focus && proteinTrack(focus, variants), [focus, variants])
+
+  const domainGroups = useMemo(() => {
+    if (!protein) return []
+
+    const groups = protein.domains.map((domain) => ({
+      key: `${domain.name}-${domain.start}`,
+      label: `${domain.name} (${domain.start}–${domain.end})`,
+      variants: protein.variants.filter(({ position }) => position >= domain.start && position <= domain.end),
+    }))
+    groups.push({
+      key: "outside",
+      label: protein.domains.length > 0 ? "Outside domains" : "Protein",
+      variants: protein.variants.filter(
+        ({ position }) => !protein.domains.some((domain) => position >= domain.start && position <= domain.end),
+      ),
+    })
+    groups.push({
+      key: "noncoding",
+      label: "Outside the coding sequence",
+      variants: protein.noncoding.map((variant) => ({ variant, position: 0 })),
+    })
+    return groups.filter((group) => group.variants.length > 0)
+  }, [protein])
+
+  // Variants in genome order, for stepping through them
+  const ordered = useMemo(() => {
+    const rank = (variant: GenomicVariant) => {
+      const index = CHROMOSOME_ORDER.indexOf(viewerChromosome(variant.chromosome))
+      return index === -1 ? CHROMOSOME_ORDER.length : index
+    }
+    return [...variants].sort((a, b) => rank(a) - rank(b) || a.position - b.position)
+  }, [variants])
+
+  useEffect(() => {
+    const element = canvas.current
+    const ctx = element?.getContext("2d")
+    if (!element || !ctx) return
+
+    ctx.clearRect(0, 0, element.width, element.height)
+    hits.current = { variants: [], genes: [] }
+    const x = (position: number) => LEFT + ((position - region.start) / regionWidth(region)) * PLOT_WIDTH
+
+    const chromosome =
+      tracks?.chromosome.name === region.chromosome
+        ? tracks.chromosome
+        : { name: region.chromosome, length: GRCH38_CHROMOSOME_LENGTHS[region.chromosome] ?? null, bands: [] }
+    drawIdeogram(ctx, region, chromosome)
+    drawRuler(ctx, region, x)
+
+    ctx.save()
+    ctx.beginPath()
+    ctx.rect(LEFT - 6, VARIANT_TRACK.top - 4, PLOT_WIDTH + 12, VARIANT_TRACK.bottom - VARIANT_TRACK.top + 6)
+    ctx.clip()
+    drawVariants(ctx, region, x, variants, selectedVariant, hits.current)
+    ctx.restore()
+
+    drawGenes(ctx, region, x, tracks?.genes || [], geneRows, focus, hits.current)
+
+    if (protein) {
+      drawProtein(ctx, protein, proteinTop, element.height - 6, selectedVariant, hits.current)
+    } else {
+      ctx.fillStyle = "#6b7280"
+      ctx.font = "11px Inter, sans-serif"
+      ctx.textAlign = "center"
+      ctx.fillText(
+        tracks && !tracks.detailed ? "Zoom in to see transcripts and proteins" : "No protein-coding gene in view",
+        LEFT + PLOT_WIDTH / 2,
+        (proteinTop + element.height) / 2,
+      )
+    }
+  }, [canvas, region, tracks, variants, selectedVariant, focus, protein, geneRows, proteinTop])
+
+  // Wheel zoom around the pointer; registered natively so the page does not scroll with it
+  useEffect(() => {
+    const element = canvas.current
+    if (!element) return
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault()
+      const rect = element.getBoundingClientRect()
+      const canvasX = ((event.clientX - rect.left) * element.width) / rect.width
+      const fraction = Math.min(Math.max((canvasX - LEFT) / PLOT_WIDTH, 0), 1)
+
+      setRegion((current) =>
+        zoomRegion(current, event.deltaY > 0 ? 1.25 : 0.8, current.start + fraction * regionWidth(current), length),
+      )
+    }
+
+    element.addEventListener("wheel", handleWheel, { passive: false })
+    return () => element.removeEventListener("wheel", handleWheel)
+  }, [canvas, length])
+
+  const zoom = (factor: number) => setRegion((current) => zoomRegion(current, factor, undefined, length))
+  const pan = (fraction: number) => setRegion((current) => panRegion(current, fraction, length))
+
+  const step = (direction: 1 | -1) => {
+    if (ordered.length === 0) return
+
+    const index = selectedVariant ? ordered.findIndex((variant) => variant.id === selectedVariant.id) : -1
+    if (index !== -1) {
+      onVariantSelect(ordered[(index + direction + ordered.length) % ordered.length])
+      return
+    }
+
+    // Without a selection, start from the view
+    const after = ordered.findIndex(
+      (variant) => viewerChromosome(variant.chromosome) === region.chromosome && variant.position >= region.start,
+    )
+    onVariantSelect(ordered[after === -1 ? 0 : after])
+  }
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (event.target instanceof HTMLInputElement || event.altKey || event.ctrlKey || event.metaKey) return
+
+    const actions: Record<string, () => void> = {
+      ArrowLeft: () => pan(event.shiftKey ? -0.8 : -0.2),
+      ArrowRight: () => pan(event.shiftKey ? 0.8 : 0.2),
+      ArrowUp: () => zoom(0.5),
+      ArrowDown: () => zoom(2),
+      "+": () => zoom(0.5),
+      "=": () => zoom(0.5),
+      "-": () => zoom(2),
+      n: () => step(1),
+      p: () => step(-1),
+    }
+    const action = actions[event.key]
+    if (!action) return
+
+    event.preventDefault()
+    action()
+  }
+
+  const handleSearch = async (event: React.FormEvent) => {
+    event.preventDefault()
+    const text = query.trim()
+    if (!text) return
+
+    const lengths = { ...GRCH38_CHROMOSOME_LENGTHS }
+    if (tracks?.chromosome.length) lengths[tracks.chromosome.name] = tracks.chromosome.length
+
+    try {
+      // Anything that is neither a range nor a known chromosome is looked up as a gene
+      if (text.includes(":") || viewerChromosome(text) in lengths) {
+        setRegion(parseRegion(text, lengths))
+      } else {
+        setRegion(await locate(text))
+        setFocusGene(text)
+      }
+    } catch (error) {
+      addToast({
+        type: "error",
+        title: "Region Not Found",
+        message: error instanceof Error ? error.message : "Unknown error",
+        duration: 5000,
+      })
+    }
+  }
+
+  /** Canvas coordinates of a mouse event */
+  const canvasPoint = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    return {
+      x: ((event.clientX - rect.left) * event.currentTarget.width) / rect.width,
+      y: ((event.clientY - rect.top) * event.currentTarget.height) / rect.height,
+    }
+  }
+
+  const handleClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const { x, y } = canvasPoint(event)
+
+    const variant = hits.current.variants.find((hit) => Math.hypot(hit.x - x, hit.y - y) <= hit.radius + 3)
+    if (variant) {
+      onVariantSelect(variant.variant)
+      return
+    }
+
+    const gene = hits.current.genes.find((hit) => x >= hit.left && x <= hit.right && y >= hit.top && y <= hit.bottom)
+    if (gene) {
+      setFocusGene(gene.gene)
+      return
+    }
+
+    // A click on the ideogram moves the view there
+    if (y <= IDEOGRAM.top + IDEOGRAM.height + 4 && x >= LEFT && x <= LEFT + PLOT_WIDTH) {
+      const chromosomeLength = length ?? GRCH38_CHROMOSOME_LENGTHS[region.chromosome]
+      if (!chromosomeLength) return
+
+      const center = ((x - LEFT) / PLOT_WIDTH) * chromosomeLength
+      const half = regionWidth(region) / 2
+      setRegion(clampRegion({ ...region, start: center - half, end: center + half - 1 }, length))
+    }
+  }
+
+  const handleMouseMove = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!drag.current) return
+
+    const rect = event.currentTarget.getBoundingClientRect()
+    const moved = ((event.clientX - drag.current.clientX) * event.currentTarget.width) / rect.width
+    if (Math.abs(moved) < 3 && !drag.current.moved) return
+
+    drag.current.moved = true
+    const start = drag.current.region
+    const shift = Math.round((-moved / PLOT_WIDTH) * regionWidth(start))
+    setRegion(clampRegion({ ...start, start: start.start + shift, end: start.end + shift }, length))
+  }
+
+  const handleMouseUp = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const wasDragged = drag.current?.moved
+    drag.current = null
+    if (!wasDragged) handleClick(event)
+  }
+
+  const centerBand = tracks?.chromosome.bands.find(
+    (band) => band.start <= (region.start + region.end) / 2 && band.end >= (region.start + region.end) / 2,
+  )
+
+  return (
+    <div
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+      className="outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+      aria-label="Genome browser"
+    >
+      <div className="flex flex-wrap items-center gap-2 border-b p-2">
+        <form onSubmit={handleSearch} className="flex items-center gap-2">
+          <Input
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+            placeholder="chr17:43,044,295-43,125,483 or BRCA1"
+            className="h-8 w-72 font-mono text-xs"
+            aria-label="Region or gene"
+          />
+          <Button type="submit" variant="outline" size="sm">
+            <Search className="h-4 w-4 mr-1" />
+            Go
+          </Button>
+        </form>
+        <div className="flex items-center gap-1">
+          <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => pan(-0.5)} aria-label="Pan left">
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => pan(0.5)} aria-label="Pan right">
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => zoom(0.5)} aria-label="Zoom in">
+            <ZoomIn className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => zoom(2)} aria-label="Zoom out">
+            <ZoomOut className="h-4 w-4" />
+          </Button>
+        </div>
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          {isLoading && <Loader2 className="h-4 w-4 animate-spin" />}
+          <span>
+            {regionWidth(region).toLocaleString("en-US")} bp
+            {centerBand && ` · ${region.chromosome}${centerBand.name}`}
+            {tracks?.assembly && ` · ${tracks.assembly}`}
+          </span>
+          {error && <span className="text-red-600">{error.message}</span>}
+          {tracks && !tracks.sources.genes && <span>No gene annotation installed</span>}
+          {tracks?.truncated && <span>Showing the first genes only; zoom in for all of them</span>}
+        </div>
+      </div>
+      <canvas
+        ref={canvas}
+        width={CANVAS_WIDTH}
+        height={height}
+        className="w-full"
+        style={{ height: `${height}px`, cursor: "pointer" }}
+        onMouseDown={(event) => {
+          drag.current = { clientX: event.clientX, region, moved: false }
+        }}
+        onMouseMove={handleMouseMove}
+        onMouseUp={handleMouseUp}
+        onMouseLeave={() => {
+          drag.current = null
+        }}
+      />
+      <p className="px-2 pb-1 text-xs text-muted-foreground">
+        Drag or ←/→ to pan, scroll or ↑/↓ to zoom, n/p for the next or previous variant; click a gene to show its
+        protein
+      </p>
+      {protein && domainGroups.length > 0 && (
+        <div className="border-t p-2 space-y-1">
+          <p className="text-sm font-medium">
+            {protein.gene.gene.name} variants by protein domain{" "}
+            <span className="text-xs font-normal text-muted-foreground">{protein.transcript.id}</span>
+          </p>
+          {domainGroups.map((group) => (
+            <div key={group.key} className="flex flex-wrap items-center gap-1 text-xs">
+              <span className="w-56 shrink-0 text-muted-foreground">{group.label}</span>
+              {group.variants.map(({ variant, position }) => (
+                <button
+                  key={variant.id}
+                  type="button"
+                  onClick={() => onVariantSelect(variant)}
+                  className={`rounded border px-1.5 py-0.5 ${
+                    variant.id === selectedVariant?.id ? "border-gray-900 font-medium" : "border-gray-200"
+                  }`}
+                >
+                  <span
+                    className="mr-1 inline-block h-2 w-2 rounded-full"
+                    style={{ backgroundColor: SIGNIFICANCE_COLORS[variant.significance] }}
+                  />
+                  {variant.hgvs || `${variant.reference}>${variant.alternate}`}
+                  {position > 0 && <span className="text-muted-foreground"> · aa {position}</span>}
+                </button>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
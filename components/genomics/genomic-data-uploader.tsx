@@ -10,11 +10,30 @@ import { Label } from "@/components/ui/label"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Textarea } from "@/components/ui/textarea"
 import { useToast } from "@/components/ui/use-toast"
-import { Loader2, Upload, FileText, Database } from "lucide-react"
-import { KnowledgeSource } from "@/lib/agent/services/genomic-enrichment"
+import { Loader2, Upload, FileText, Database, AlertTriangle } from "lucide-react"
+import {
+  KnowledgeSource,
+  type GenomicEnrichmentResult,
+  type GenomicUploadFormat,
+} from "@/lib/agent/services/genomic-enrichment"
+import type { VcfLineError } from "@/lib/genomics/vcf-parser"
+
+/** Line errors listed under the form; the rest are counted */
+const MAX_SHOWN_ERRORS = 20
+
+/**
+ * Base64 of a file's bytes, for sending compressed VCFs in a JSON body
+ */
+export function toBase64(bytes: Uint8Array): string {
+  let binary = ""
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000))
+  }
+  return btoa(binary)
+}
 
 interface GenomicDataUploaderProps {
-  onEnrichmentComplete?: (result: any) => void
+  onEnrichmentComplete?: (result: GenomicEnrichmentResult) => void
   className?: string
 }
 
@@ -26,8 +45,9 @@ export function GenomicDataUploader({ onEnrichmentComplete, className }: Genomic
   const [isLoading, setIsLoading] = useState(false)
   const [activeTab, setActiveTab] = useState("file")
   const [pasteData, setPasteData] = useState("")
-  const [selectedFormat, setSelectedFormat] = useState<"vcf" | "beaker" | "json">("vcf")
+  const [selectedFormat, setSelectedFormat] = useState<GenomicUploadFormat>("vcf")
   const [selectedSources, setSelectedSources] = useState<KnowledgeSource[]>(Object.values(KnowledgeSource))
+  const [lineErrors, setLineErrors] = useState<{ errors: VcfLineError[]; total: number }>({ errors: [], total: 0 })
   const fileInputRef = useRef<HTMLInputElement>(null)
   const { toast } = useToast()
 
@@ -35,6 +55,10 @@ export function GenomicDataUploader({ onEnrichmentComplete, className }: Genomic
     // Reset state when a new file is selected
     setPasteData("")
     setActiveTab("file")
+    setLineErrors({ errors: [], total: 0 })
+    const name = event.target.files?.[0]?.name || ""
+    if (/\.(vcf|gz|bgz)$/i.test(name)) setSelectedFormat("vcf")
+    if (/\.(seg|cns)$/i.test(name)) setSelectedFormat("cnv")
   }
 
   const handlePasteDataChange = (event: React.ChangeEvent<HTMLTextAreaElement>) => {
@@ -48,9 +72,11 @@ export function GenomicDataUploader({ onEnrichmentComplete, className }: Genomic
   const handleSubmit = async (event: React.FormEvent) => {
     event.preventDefault()
     setIsLoading(true)
+    setLineErrors({ errors: [], total: 0 })
 
     try {
       let data: string
+      let encoding: "base64" | undefined
 
       if (activeTab === "file") {
         // Get file data
@@ -65,8 +91,11 @@ export function GenomicDataUploader({ onEnrichmentComplete, className }: Genomic
           return
         }
 
-        const file = files[0]
-        data = await file.text()
+        // gzip and BGZF files are sent as base64 and decompressed on the server
+        const bytes = new Uint8Array(await files[0].arrayBuffer())
+        const compressed = bytes[0] === 0x1f && bytes[1] === 0x8b
+        data = compressed ? toBase64(bytes) : new TextDecoder().decode(bytes)
+        encoding = compressed ? "base64" : undefined
       } else {
         // Use pasted data
         data = pasteData
@@ -89,6 +118,7 @@ export function GenomicDataUploader({ onEnrichmentComplete, className }: Genomic
         },
         body: JSON.stringify({
           data,
+          encoding,
           format: selectedFormat,
           sources: selectedSources,
         }),
@@ -96,14 +126,20 @@ export function GenomicDataUploader({ onEnrichmentComplete, className }: Genomic
 
       if (!response.ok) {
         const errorData = await response.json()
+        const errors: VcfLineError[] = errorData.error?.errors || []
+        setLineErrors({ errors, total: errors.length })
         throw new Error(errorData.error?.message || "Failed to enrich genomic data")
       }
 
-      const result = await response.json()
+      const result: GenomicEnrichmentResult = await response.json()
+      const skipped = result.errors?.length ? (result.errorCount ?? result.errors.length) : 0
+      if (skipped > 0) setLineErrors({ errors: result.errors, total: skipped })
 
       toast({
         title: "Enrichment Complete",
-        description: `Successfully enriched ${result.enrichedVariantCount} variants.`,
+        description: skipped
+          ? `Enriched ${result.enrichedVariantCount} variants; ${skipped} lines were skipped.`
+          : `Successfully enriched ${result.enrichedVariantCount} variants.`,
       })
 
       if (onEnrichmentComplete) {
@@ -149,7 +185,7 @@ export function GenomicDataUploader({ onEnrichmentComplete, className }: Genomic
                   type="file"
                   ref={fileInputRef}
                   onChange={handleFileChange}
-                  accept=".vcf,.txt,.json"
+                  accept=".vcf,.vcf.gz,.gz,.bgz,.txt,.json,.seg,.cns,.tsv"
                   disabled={isLoading}
                 />
               </div>
@@ -159,7 +195,7 @@ export function GenomicDataUploader({ onEnrichmentComplete, className }: Genomic
                 <Label htmlFor="data">Paste Genomic Data</Label>
                 <Textarea
                   id="data"
-                  placeholder="Paste VCF, Beaker report, or JSON data here..."
+                  placeholder="Paste VCF, Beaker report, JSON or copy-number segment data here..."
                   value={pasteData}
                   onChange={handlePasteDataChange}
                   className="min-h-[200px]"
@@ -200,6 +236,15 @@ export function GenomicDataUploader({ onEnrichmentComplete, className }: Genomic
                 >
                   JSON
                 </Button>
+                <Button
+                  type="button"
+                  variant={selectedFormat === "cnv" ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setSelectedFormat("cnv")}
+                  disabled={isLoading}
+                >
+                  CNV Segments
+                </Button>
               </div>
             </div>
 
@@ -221,6 +266,27 @@ export function GenomicDataUploader({ onEnrichmentComplete, className }: Genomic
               </div>
             </div>
           </div>
+
+          {lineErrors.total > 0 && (
+            <div className="mt-4 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm dark:bg-amber-900/10">
+              <p className="flex items-center font-medium text-amber-800 dark:text-amber-300">
+                <AlertTriangle className="mr-2 h-4 w-4" />
+                {lineErrors.total} {lineErrors.total === 1 ? "line" : "lines"} could not be read
+              </p>
+              <ul className="mt-2 max-h-48 space-y-1 overflow-y-auto font-mono text-xs">
+                {lineErrors.errors.slice(0, MAX_SHOWN_ERRORS).map((error, index) => (
+                  <li key={`${error.line}-${index}`}>
+                    Line {error.line}: {error.message}
+                  </li>
+                ))}
+              </ul>
+              {lineErrors.total > MAX_SHOWN_ERRORS && (
+                <p className="mt-1 text-xs text-muted-foreground">
+                  and {lineErrors.total - MAX_SHOWN_ERRORS} more
+                </p>
+              )}
+            </div>
+          )}
         </form>
       </CardContent>
       <CardFooter>
@@ -0,0 +1,78 @@
+"use client"
+
+/**
+ * Genomic Enrichment Workspace
+ * Upload a variant file, see which knowledge source snapshots annotated it, and browse the enriched variants.
+ */
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { GenomicDataUploader } from "@/components/genomics/genomic-data-uploader"
+import { GenomicVariantViewer } from "@/components/genomics/genomic-variant-viewer"
+import type { GenomicEnrichmentResult } from "@/lib/agent/services/genomic-enrichment"
+
+export function GenomicEnrichmentWorkspace() {
+  const [result, setResult] = useState<GenomicEnrichmentResult | null>(null)
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-6 lg:grid-cols-2">
+        <GenomicDataUploader onEnrichmentComplete={setResult} />
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Knowledge Sources</CardTitle>
+            <CardDescription>
+              {result
+                ? `${result.enrichedVariantCount} of ${result.variantCount} variants annotated`
+                : "Snapshot provenance appears here after an enrichment"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {result && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Source</TableHead>
+                    <TableHead>Snapshot</TableHead>
+                    <TableHead className="text-right">Annotated</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.sources.map((report) => (
+                    <TableRow key={report.source}>
+                      <TableCell className="font-medium">
+                        {report.provenance?.name || report.source.toUpperCase()}
+                        {report.status === "unavailable" && (
+                          <Badge variant="destructive" className="ml-2">
+                            Unavailable
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {report.provenance ? (
+                          <>
+                            {report.provenance.version || "Unversioned"}
+                            {report.provenance.assembly && ` · ${report.provenance.assembly}`}
+                            <div className="font-mono">{report.provenance.file}</div>
+                          </>
+                        ) : (
+                          report.message
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{report.annotatedCount}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {result && <GenomicVariantViewer initialVariants={result.variants} />}
+    </div>
+  )
+}
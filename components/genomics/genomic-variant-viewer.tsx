@@ -4,22 +4,26 @@ import { useState, useEffect, useRef } from "react"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { LoadingState } from "@/components/ui/loading-state"
-import { ZoomIn, ZoomOut, Download, Maximize2 } from "lucide-react"
+import { ZoomIn, ZoomOut, Download, Maximize2, Send } from "lucide-react"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
-
-interface GenomicVariant {
-  id: string
-  position: number
-  chromosome: string
-  reference: string
-  alternate: string
-  gene: string
-  consequence: string
-  significance: "benign" | "likely_benign" | "uncertain" | "likely_pathogenic" | "pathogenic"
-  frequency: number
-  rsid?: string
-  hgvs?: string
-}
+import { useToast } from "@/components/ui/toast-provider"
+import { AcmgEvidencePanel } from "@/components/genomics/acmg-evidence-panel"
+import { GenomeBrowser } from "@/components/genomics/genome-browser"
+import {
+  angleAt,
+  circularLayout,
+  variantAngles,
+  withinAngles,
+  type ChromosomeArc,
+} from "@/lib/genomics/browser/circular"
+import type { VariantClassificationRecord } from "@/lib/genomics/classification-store"
+import type {
+  GenomicVariant,
+  StructuralVariant,
+  StructuralVariantType,
+  VariantSignificance,
+} from "@/lib/genomics/types"
+import { copyNumberCall } from "@/lib/genomics/variant-uploads"
 
 interface GenomicVariantViewerProps {
   patientId?: string
@@ -32,9 +36,369 @@ interface GenomicVariantViewerProps {
   onVariantSelect?: (variant: GenomicVariant) => void
 }
 
+/** Significance colors of the circular view's variant markers */
+const SIGNIFICANCE_COLORS: Record<VariantSignificance, string> = {
+  pathogenic: "#ef4444",
+  likely_pathogenic: "#f97316",
+  uncertain: "#f59e0b",
+  likely_benign: "#34d399",
+  benign: "#10b981",
+}
+
+/** Link colors of structural variants; deletions and losses are blue, duplications and gains red */
+const STRUCTURAL_COLORS: Record<Exclude<StructuralVariantType, "CNV">, string> = {
+  DEL: "#2563eb",
+  DUP: "#dc2626",
+  INV: "#7c3aed",
+  BND: "#0d9488",
+}
+
+const STRUCTURAL_LABELS: Record<StructuralVariantType, string> = {
+  DEL: "Deletion",
+  DUP: "Duplication",
+  INV: "Inversion",
+  BND: "Translocation",
+  CNV: "Copy number",
+}
+
+/** Narrowest arcs drawn, in radians, so that short events can be seen and clicked */
+const MIN_SEGMENT_ANGLE = 0.008
+const MIN_LINK_ANGLE = 0.04
+
+/** Markers stacked inward where variants crowd one position */
+const MAX_MARKER_STACK = 3
+
+/** Genes are labelled around the circle when there are no more than this many */
+const MAX_GENE_LABELS = 12
+
+interface CircularRings {
+  centerX: number
+  centerY: number
+  /** Chromosome arcs span inner to outer */
+  ideogram: { inner: number; outer: number }
+  /** Radius of the first marker of a stack */
+  markers: number
+  cnv: { inner: number; outer: number }
+  /** Radius where links meet the circle */
+  links: number
+}
+
+interface CircularMarker {
+  variant: GenomicVariant
+  angle: number
+  x: number
+  y: number
+}
+
+interface Point {
+  x: number
+  y: number
+}
+
+const isSegment = (variant: GenomicVariant) => variant.structural?.type === "CNV"
+
+function circularRings(canvas: HTMLCanvasElement): CircularRings {
+  const radius = Math.min(canvas.width, canvas.height) / 2 - 44
+
+  return {
+    centerX: canvas.width / 2,
+    centerY: canvas.height / 2,
+    ideogram: { inner: radius - 10, outer: radius },
+    markers: radius - 20,
+    cnv: { inner: radius - 66, outer: radius - 52 },
+    links: radius - 70,
+  }
+}
+
+const polar = (rings: CircularRings, radius: number, angle: number): Point => ({
+  x: rings.centerX + Math.cos(angle) * radius,
+  y: rings.centerY + Math.sin(angle) * radius,
+})
+
+/** Angles of a span, widened about its middle to at least the given width */
+function widened([start, end]: [number, number], minimum: number): [number, number] {
+  const middle = (start + end) / 2
+  const half = Math.max(end - start, minimum) / 2
+  return [middle - half, middle + half]
+}
+
+/**
+ * Marker of every variant but copy-number segments, at its start; markers closer than their size stack inward
+ */
+function circularMarkers(
+  rings: CircularRings,
+  layout: ChromosomeArc[],
+  variants: GenomicVariant[],
+  zoom: number,
+): CircularMarker[] {
+  const step = 2 * 5 * zoom + 1
+  const placed: Array<{ angle: number; level: number }> = []
+
+  return variants.flatMap((variant) => {
+    const angle = isSegment(variant) ? null : angleAt(layout, variant.chromosome, variant.position)
+    if (angle === null) return []
+
+    const crowded = placed.filter((marker) => Math.abs(marker.angle - angle) * rings.markers < step)
+    const level = Math.min(crowded.length, MAX_MARKER_STACK - 1)
+    placed.push({ angle, level })
+    return [{ variant, angle, ...polar(rings, rings.markers - level * step, angle) }]
+  })
+}
+
+/**
+ * Curve of a structural variant inside the circle: deletions, duplications and inversions bow inward between their
+ * ends, and translocations cross the centre to their mate
+ */
+function linkCurve(
+  rings: CircularRings,
+  layout: ChromosomeArc[],
+  variant: GenomicVariant,
+): { from: Point; control: Point; to: Point } | null {
+  const structural = variant.structural
+  if (!structural || structural.type === "CNV") return null
+
+  if (structural.type === "BND") {
+    const start = angleAt(layout, variant.chromosome, variant.position)
+    const mate = structural.mate && angleAt(layout, structural.mate.chromosome, structural.mate.position)
+    if (start === null || mate === null || mate === undefined) return null
+
+    const center = { x: rings.centerX, y: rings.centerY }
+    return { from: polar(rings, rings.links, start), control: center, to: polar(rings, rings.links, mate) }
+  }
+
+  const angles = variantAngles(layout, variant)
+  if (!angles) return null
+
+  const [start, end] = widened(angles, MIN_LINK_ANGLE)
+  return {
+    from: polar(rings, rings.links, start),
+    control: polar(rings, rings.links * 0.6, (start + end) / 2),
+    to: polar(rings, rings.links, end),
+  }
+}
+
+function curvePoint({ from, control, to }: { from: Point; control: Point; to: Point }, t: number): Point {
+  const u = 1 - t
+  return {
+    x: u * u * from.x + 2 * u * t * control.x + t * t * to.x,
+    y: u * u * from.y + 2 * u * t * control.y + t * t * to.y,
+  }
+}
+
+/** Heat of a segment: blue for losses, red for gains, deeper the further the copy ratio is from diploid */
+function segmentColor(structural: StructuralVariant): string {
+  const call = copyNumberCall(structural)
+  if (call === "neutral") return "#e5e7eb"
+
+  const { copyNumber, log2Ratio } = structural
+  const ratio = log2Ratio ?? Math.log2(Math.max(copyNumber ?? 2, 0.1) / 2)
+  const alpha = 0.3 + 0.7 * Math.min(Math.abs(ratio) / 2, 1)
+  return call === "loss" ? `rgba(37, 99, 235, ${alpha})` : `rgba(220, 38, 38, ${alpha})`
+}
+
+function ringSegment(
+  ctx: CanvasRenderingContext2D,
+  rings: CircularRings,
+  inner: number,
+  outer: number,
+  [start, end]: [number, number],
+) {
+  ctx.beginPath()
+  ctx.arc(rings.centerX, rings.centerY, outer, start, end)
+  ctx.arc(rings.centerX, rings.centerY, inner, end, start, true)
+  ctx.closePath()
+}
+
+function drawChromosomeArcs(ctx: CanvasRenderingContext2D, rings: CircularRings, layout: ChromosomeArc[]) {
+  const { inner, outer } = rings.ideogram
+
+  layout.forEach((arc, index) => {
+    ringSegment(ctx, rings, inner, outer, [arc.startAngle, arc.endAngle])
+    ctx.fillStyle = index % 2 === 0 ? "#9ca3af" : "#d1d5db"
+    ctx.fill()
+
+    const label = polar(rings, outer + 12, (arc.startAngle + arc.endAngle) / 2)
+    ctx.fillStyle = "#4b5563"
+    ctx.font = "10px Inter, sans-serif"
+    ctx.textAlign = "center"
+    ctx.textBaseline = "middle"
+    ctx.fillText(arc.chromosome, label.x, label.y)
+  })
+  ctx.textBaseline = "alphabetic"
+}
+
+function drawCnvTrack(
+  ctx: CanvasRenderingContext2D,
+  rings: CircularRings,
+  layout: ChromosomeArc[],
+  variants: GenomicVariant[],
+  selected: GenomicVariant | null,
+) {
+  const { inner, outer } = rings.cnv
+  const segments = variants.filter(isSegment)
+  if (segments.length === 0) return
+
+  // The track's background shows which stretches were segmented
+  layout.forEach((arc) => {
+    ringSegment(ctx, rings, inner, outer, [arc.startAngle, arc.endAngle])
+    ctx.fillStyle = "#f9fafb"
+    ctx.fill()
+  })
+
+  segments.forEach((segment) => {
+    const angles = variantAngles(layout, segment)
+    if (!angles) return
+
+    ringSegment(ctx, rings, inner, outer, widened(angles, MIN_SEGMENT_ANGLE))
+    ctx.fillStyle = segmentColor(segment.structural!)
+    ctx.fill()
+    if (segment.id === selected?.id) {
+      ctx.strokeStyle = "#1f2937"
+      ctx.lineWidth = 2
+      ctx.stroke()
+    }
+  })
+}
+
+function drawStructuralLinks(
+  ctx: CanvasRenderingContext2D,
+  rings: CircularRings,
+  layout: ChromosomeArc[],
+  variants: GenomicVariant[],
+  selected: GenomicVariant | null,
+) {
+  // The selected link is drawn last, over the others
+  const ordered = [...variants].sort((a, b) => Number(a.id === selected?.id) - Number(b.id === selected?.id))
+
+  ordered.forEach((variant) => {
+    const curve = linkCurve(rings, layout, variant)
+    if (!curve) return
+
+    const isSelected = variant.id === selected?.id
+    ctx.beginPath()
+    ctx.moveTo(curve.from.x, curve.from.y)
+    ctx.quadraticCurveTo(curve.control.x, curve.control.y, curve.to.x, curve.to.y)
+    const type = variant.structural!.type as keyof typeof STRUCTURAL_COLORS
+    ctx.strokeStyle = isSelected ? "#1f2937" : STRUCTURAL_COLORS[type]
+    ctx.globalAlpha = isSelected ? 1 : 0.7
+    ctx.lineWidth = isSelected ? 3 : 1.5
+    ctx.stroke()
+    ctx.globalAlpha = 1
+  })
+}
+
+function drawVariantMarkers(
+  ctx: CanvasRenderingContext2D,
+  rings: CircularRings,
+  markers: CircularMarker[],
+  zoom: number,
+  selected: GenomicVariant | null,
+) {
+  markers.forEach(({ variant, x, y }) => {
+    const isSelected = variant.id === selected?.id
+    ctx.beginPath()
+    ctx.arc(x, y, (isSelected ? 7 : 5) * zoom, 0, Math.PI * 2)
+    ctx.fillStyle = SIGNIFICANCE_COLORS[variant.significance] || "#6b7280"
+    ctx.fill()
+
+    if (isSelected) {
+      ctx.strokeStyle = "#1f2937"
+      ctx.lineWidth = 2
+      ctx.stroke()
+    }
+  })
+
+  // Genes are labelled once, outside the chromosome labels
+  const genes = new Map<string, number>()
+  markers.forEach(({ variant, angle }) => {
+    if (variant.gene && !genes.has(variant.gene)) genes.set(variant.gene, angle)
+  })
+  const selectedMarker = markers.find((marker) => marker.variant.id === selected?.id)
+  const labels = genes.size <= MAX_GENE_LABELS ? [...genes] : []
+  if (selectedMarker?.variant.gene && genes.size > MAX_GENE_LABELS) {
+    labels.push([selectedMarker.variant.gene, selectedMarker.angle])
+  }
+
+  labels.forEach(([gene, angle]) => {
+    const label = polar(rings, rings.ideogram.outer + 30, angle)
+    const isSelected = gene === selected?.gene
+    ctx.fillStyle = isSelected ? "#1f2937" : "#6b7280"
+    ctx.font = `${isSelected ? "bold " : ""}12px Inter, sans-serif`
+    ctx.textAlign = Math.cos(angle) > 0.2 ? "left" : Math.cos(angle) < -0.2 ? "right" : "center"
+    ctx.fillText(gene, label.x, label.y)
+  })
+}
+
+/**
+ * The variant drawn under a point: a marker, then a copy-number segment, then a structural variant link
+ */
+function circularHit(
+  rings: CircularRings,
+  layout: ChromosomeArc[],
+  variants: GenomicVariant[],
+  markers: CircularMarker[],
+  zoom: number,
+  point: Point,
+): GenomicVariant | null {
+  const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y)
+
+  const marker = markers
+    .map((candidate) => ({ variant: candidate.variant, away: distance(candidate, point) }))
+    .filter((candidate) => candidate.away <= 8 * zoom)
+    .sort((a, b) => a.away - b.away)[0]
+  if (marker) return marker.variant
+
+  const radius = distance(point, { x: rings.centerX, y: rings.centerY })
+  const angle = Math.atan2(point.y - rings.centerY, point.x - rings.centerX)
+  if (radius >= rings.cnv.inner && radius <= rings.cnv.outer) {
+    // Where segments overlap, as for several samples, the narrowest is the one that can be told apart
+    const segment = variants
+      .filter(isSegment)
+      .map((candidate) => ({ variant: candidate, angles: variantAngles(layout, candidate) }))
+      .filter(({ angles }) => angles && withinAngles(angle, ...widened(angles, MIN_SEGMENT_ANGLE)))
+      .sort((a, b) => a.angles![1] - a.angles![0] - (b.angles![1] - b.angles![0]))[0]
+    if (segment) return segment.variant
+  }
+
+  if (radius > rings.links) return null
+  return (
+    variants.find((variant) => {
+      const curve = linkCurve(rings, layout, variant)
+      if (!curve) return false
+      return Array.from({ length: 33 }, (_, step) => curvePoint(curve, step / 32)).some(
+        (sample) => distance(sample, point) <= 5,
+      )
+    }) || null
+  )
+}
+
+/** A variant as the footer names it: structural variants by class and extent, others by their change */
+function describeVariant(variant: GenomicVariant): string {
+  const structural = variant.structural
+  if (!structural) return variant.hgvs || `${variant.reference}>${variant.alternate}`
+
+  const label = STRUCTURAL_LABELS[structural.type]
+  if (structural.type === "BND") {
+    const { mate } = structural
+    const joined = mate ? ` to chr${mate.chromosome}:${mate.position.toLocaleString()}` : ""
+    return `${label} chr${variant.chromosome}:${variant.position.toLocaleString()}${joined}`
+  }
+
+  const span = `chr${variant.chromosome}:${variant.position.toLocaleString()}-${structural.end.toLocaleString()}`
+  if (structural.type !== "CNV") return `${label} ${span}`
+
+  const level = [
+    structural.copyNumber !== null ? `CN ${structural.copyNumber}` : null,
+    structural.log2Ratio !== null ? `log2 ${structural.log2Ratio.toFixed(2)}` : null,
+  ]
+  return `${label} ${span} (${level.filter(Boolean).join(", ")})`
+}
+
 /**
  * Professional genomic variant visualization component
- * Displays genomic variants with interactive controls and detailed information
+ * Displays genomic variants with interactive controls and detailed information. The linear view is a locus browser
+ * at genomic coordinates; the circular view shows the whole genome at once, with copy-number segments as a heat track
+ * and structural variants as links between their ends.
  */
 export function GenomicVariantViewer({
   patientId,
@@ -50,7 +414,12 @@ export function GenomicVariantViewer({
   const [selectedVariant, setSelectedVariant] = useState<GenomicVariant | null>(null)
   const [zoomLevel, setZoomLevel] = useState(1)
   const [viewMode, setViewMode] = useState<"linear" | "circular">("linear")
+  const [isDrafting, setIsDrafting] = useState(false)
   const canvasRef = useRef<HTMLCanvasElement>(null)
+  const { addToast } = useToast()
+
+  // Benign findings are not reported back to the EHR
+  const reportableVariants = variants.filter((variant) => !["benign", "likely_benign"].includes(variant.significance))
 
   // Fetch variants if not provided
   useEffect(() => {
@@ -144,9 +513,9 @@ export function GenomicVariantViewer({
     fetchVariants()
   }, [initialVariants, isLoading, variantId])
 
-  // Draw the visualization when variants or zoom level changes
+  // Draw the circular visualization when variants or zoom level changes; the genome browser draws the linear view
   useEffect(() => {
-    if (isLoading || variants.length === 0 || !canvasRef.current) return
+    if (isLoading || viewMode !== "circular" || variants.length === 0 || !canvasRef.current) return
 
     const canvas = canvasRef.current
     const ctx = canvas.getContext("2d")
@@ -155,11 +524,7 @@ export function GenomicVariantViewer({
     // Clear canvas
     ctx.clearRect(0, 0, canvas.width, canvas.height)
 
-    if (viewMode === "linear") {
-      drawLinearView(ctx, canvas, variants, zoomLevel, selectedVariant)
-    } else {
-      drawCircularView(ctx, canvas, variants, zoomLevel, selectedVariant)
-    }
+    drawCircularView(ctx, canvas, variants, zoomLevel, selectedVariant)
   }, [variants, zoomLevel, selectedVariant, viewMode, isLoading])
 
   // Handle variant selection
@@ -170,104 +535,17 @@ export function GenomicVariantViewer({
     }
   }
 
-  // Draw linear genomic view
-  const drawLinearView = (
-    ctx: CanvasRenderingContext2D,
-    canvas: HTMLCanvasElement,
-    variants: GenomicVariant[],
-    zoom: number,
-    selected: GenomicVariant | null,
-  ) => {
-    const width = canvas.width
-    const height = canvas.height
-    const padding = 40
-
-    // Draw chromosome axis
-    ctx.beginPath()
-    ctx.moveTo(padding, height / 2)
-    ctx.lineTo(width - padding, height / 2)
-    ctx.strokeStyle = "#9ca3af"
-    ctx.lineWidth = 2
-    ctx.stroke()
+  // A curator override changed the selected variant's classification
+  const handleReclassified = (record: VariantClassificationRecord) => {
+    if (!selectedVariant) return
 
-    // Draw axis labels
-    ctx.font = "12px Inter, sans-serif"
-    ctx.fillStyle = "#4b5563"
-    ctx.textAlign = "center"
-
-    // Draw variants
-    variants.forEach((variant, index) => {
-      // Calculate position (simplified for demo)
-      const x = padding + ((width - padding * 2) * index) / (variants.length - 1 || 1)
-      const y = height / 2
-
-      // Determine color based on significance
-      let color
-      switch (variant.significance) {
-        case "benign":
-          color = "#10b981" // Green
-          break
-        case "likely_benign":
-          color = "#34d399" // Light green
-          break
-        case "uncertain":
-          color = "#f59e0b" // Amber
-          break
-        case "likely_pathogenic":
-          color = "#f97316" // Orange
-          break
-        case "pathogenic":
-          color = "#ef4444" // Red
-          break
-        default:
-          color = "#6b7280" // Gray
-      }
-
-      // Draw variant marker
-      const radius = variant === selected ? 8 * zoom : 6 * zoom
-      ctx.beginPath()
-      ctx.arc(x, y, radius, 0, Math.PI * 2)
-      ctx.fillStyle = color
-      ctx.fill()
-
-      // Add stroke for selected variant
-      if (variant === selected) {
-        ctx.strokeStyle = "#1f2937"
-        ctx.lineWidth = 2
-        ctx.stroke()
-      }
-
-      // Draw gene label
-      ctx.fillStyle = variant === selected ? "#1f2937" : "#6b7280"
-      ctx.font = `${variant === selected ? "bold " : ""}12px Inter, sans-serif`
-      ctx.textAlign = "center"
-      ctx.fillText(variant.gene, x, y - 20)
-
-      // Draw position label
-      ctx.fillStyle = "#6b7280"
-      ctx.font = "10px Inter, sans-serif"
-      ctx.fillText(`Chr${variant.chromosome}:${variant.position}`, x, y + 20)
-
-      // Make variants clickable
-      canvas.onclick = (e) => {
-        const rect = canvas.getBoundingClientRect()
-        const mouseX = e.clientX - rect.left
-        const mouseY = e.clientY - rect.top
-
-        variants.forEach((v, i) => {
-          const vx = padding + ((width - padding * 2) * i) / (variants.length - 1 || 1)
-          const vy = height / 2
-          const distance = Math.sqrt(Math.pow(mouseX - vx, 2) + Math.pow(mouseY - vy, 2))
-
-          if (distance <= 10 * zoom) {
-            handleVariantClick(v)
-          }
-        })
-      }
-    })
+    const { classification } = record
+    const updated = { ...selectedVariant, classification }
+    setVariants((current) => current.map((variant) => (variant.id === updated.id ? updated : variant)))
+    setSelectedVariant(updated)
   }
 
-  // Draw circular genomic view
+  // Draw circular genomic view: chromosome arcs, variant markers, the CNV heat track and structural variant links
   const drawCircularView = (
     ctx: CanvasRenderingContext2D,
     canvas: HTMLCanvasElement,
@@ -275,90 +553,26 @@ export function GenomicVariantViewer({
     zoom: number,
     selected: GenomicVariant | null,
   ) => {
-    const width = canvas.width
-    const height = canvas.height
-    const centerX = width / 2
-    const centerY = height / 2
-    const radius = Math.min(width, height) / 2 - 50
-
-    // Draw circular chromosome
-    ctx.beginPath()
-    ctx.arc(centerX, centerY, radius, 0, Math.PI * 2)
-    ctx.strokeStyle = "#9ca3af"
-    ctx.lineWidth = 2
-    ctx.stroke()
-
-    // Draw variants
-    variants.forEach((variant, index) => {
-      // Calculate position on circle
-      const angle = (index / variants.length) * Math.PI * 2
-      const x = centerX + Math.cos(angle) * radius
-      const y = centerY + Math.sin(angle) * radius
-
-      // Determine color based on significance
-      let color
-      switch (variant.significance) {
-        case "benign":
-          color = "#10b981" // Green
-          break
-        case "likely_benign":
-          color = "#34d399" // Light green
-          break
-        case "uncertain":
-          color = "#f59e0b" // Amber
-          break
-        case "likely_pathogenic":
-          color = "#f97316" // Orange
-          break
-        case "pathogenic":
-          color = "#ef4444" // Red
-          break
-        default:
-          color = "#6b7280" // Gray
-      }
-
-      // Draw variant marker
-      const markerRadius = variant === selected ? 8 * zoom : 6 * zoom
-      ctx.beginPath()
-      ctx.arc(x, y, markerRadius, 0, Math.PI * 2)
-      ctx.fillStyle = color
-      ctx.fill()
-
-      // Add stroke for selected variant
-      if (variant === selected) {
-        ctx.strokeStyle = "#1f2937"
-        ctx.lineWidth = 2
-        ctx.stroke()
+    const rings = circularRings(canvas)
+    const layout = circularLayout()
+    const markers = circularMarkers(rings, layout, variants, zoom)
+
+    drawChromosomeArcs(ctx, rings, layout)
+    drawCnvTrack(ctx, rings, layout, variants, selected)
+    drawStructuralLinks(ctx, rings, layout, variants, selected)
+    drawVariantMarkers(ctx, rings, markers, zoom, selected)
+
+    // Make markers, segments and links clickable; the canvas is scaled to its box
+    canvas.onclick = (e) => {
+      const rect = canvas.getBoundingClientRect()
+      const point = {
+        x: ((e.clientX - rect.left) * canvas.width) / rect.width,
+        y: ((e.clientY - rect.top) * canvas.height) / rect.height,
       }
 
-      // Draw gene label
-      const labelRadius = radius + 20
-      const labelX = centerX + Math.cos(angle) * labelRadius
-      const labelY = centerY + Math.sin(angle) * labelRadius
-
-      ctx.fillStyle = variant === selected ? "#1f2937" : "#6b7280"
-      ctx.font = `${variant === selected ? "bold " : ""}12px Inter, sans-serif`
-      ctx.textAlign = "center"
-      ctx.fillText(variant.gene, labelX, labelY)
-
-      // Make variants clickable
-      canvas.onclick = (e) => {
-        const rect = canvas.getBoundingClientRect()
-        const mouseX = e.clientX - rect.left
-        const mouseY = e.clientY - rect.top
-
-        variants.forEach((v, i) => {
-          const angle = (i / variants.length) * Math.PI * 2
-          const vx = centerX + Math.cos(angle) * radius
-          const vy = centerY + Math.sin(angle) * radius
-          const distance = Math.sqrt(Math.pow(mouseX - vx, 2) + Math.pow(mouseY - vy, 2))
-
-          if (distance <= 10 * zoom) {
-            handleVariantClick(v)
-          }
-        })
-      }
-    })
+      const variant = circularHit(rings, layout, variants, markers, zoom, point)
+      if (variant) handleVariantClick(variant)
+    }
   }
 
   // Handle zoom controls
@@ -380,6 +594,40 @@ export function GenomicVariantViewer({
     link.click()
   }
 
+  // Draft the reportable variants as genomic findings for clinician review before they reach the EHR
+  const handleDraftFindings = async () => {
+    if (!patientId || reportableVariants.length === 0) return
+    setIsDrafting(true)
+
+    try {
+      const response = await fetch(`/api/fhir/patients/${patientId}/writeback`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ kind: "genomic_findings", variants: reportableVariants }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.message || "Failed to draft genomic findings")
+      }
+
+      addToast({
+        type: "success",
+        title: "Findings Drafted",
+        message: `${reportableVariants.length} variants are awaiting review in the patient's EHR write-back`,
+      })
+    } catch (error) {
+      addToast({
+        type: "error",
+        title: "Failed to Draft Findings",
+        message: error instanceof Error ? error.message : "Unknown error",
+        duration: 5000,
+      })
+    } finally {
+      setIsDrafting(false)
+    }
+  }
+
   // Significance color legend
   const significanceLegend = [
     { label: "Pathogenic", color: "#ef4444" },
@@ -389,6 +637,19 @@ export function GenomicVariantViewer({
     { label: "Benign", color: "#10b981" },
   ]
 
+  // Link and heat track colors, for a circular view drawing structural variants
+  const structuralLegend =
+    viewMode === "circular" && variants.some((variant) => variant.structural)
+      ? [
+          ...(Object.keys(STRUCTURAL_COLORS) as Array<keyof typeof STRUCTURAL_COLORS>).map((type) => ({
+            label: STRUCTURAL_LABELS[type],
+            color: STRUCTURAL_COLORS[type],
+          })),
+          { label: "Copy Number Loss", color: "rgba(37, 99, 235, 0.65)" },
+          { label: "Copy Number Gain", color: "rgba(220, 38, 38, 0.65)" },
+        ]
+      : []
+
   return (
     <Card className="overflow-hidden">
       <CardHeader className="bg-gray-50 dark:bg-gray-800 border-b">
@@ -416,31 +677,36 @@ export function GenomicVariantViewer({
                 </Tooltip>
               </TooltipProvider>
 
-              <TooltipProvider>
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <Button variant="outline" size="icon" onClick={handleZoomIn}>
-                      <ZoomIn className="h-4 w-4" />
-                    </Button>
-                  </TooltipTrigger>
-                  <TooltipContent>
-                    <p>Zoom In</p>
-                  </TooltipContent>
-                </Tooltip>
-              </TooltipProvider>
-
-              <TooltipProvider>
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <Button variant="outline" size="icon" onClick={handleZoomOut}>
-                      <ZoomOut className="h-4 w-4" />
-                    </Button>
-                  </TooltipTrigger>
-                  <TooltipContent>
-                    <p>Zoom Out</p>
-                  </TooltipContent>
-                </Tooltip>
-              </TooltipProvider>
+              {/* The genome browser has its own zoom controls */}
+              {viewMode === "circular" && (
+                <>
+                  <TooltipProvider>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Button variant="outline" size="icon" onClick={handleZoomIn}>
+                          <ZoomIn className="h-4 w-4" />
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p>Zoom In</p>
+                      </TooltipContent>
+                    </Tooltip>
+                  </TooltipProvider>
+
+                  <TooltipProvider>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Button variant="outline" size="icon" onClick={handleZoomOut}>
+                          <ZoomOut className="h-4 w-4" />
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p>Zoom Out</p>
+                      </TooltipContent>
+                    </Tooltip>
+                  </TooltipProvider>
+                </>
+              )}
 
               <TooltipProvider>
                 <Tooltip>
@@ -454,26 +720,58 @@ export function GenomicVariantViewer({
                   </TooltipContent>
                 </Tooltip>
               </TooltipProvider>
+
+              {patientId && (
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={handleDraftFindings}
+                        disabled={isDrafting || reportableVariants.length === 0}
+                      >
+                        <Send className="h-4 w-4" />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <p>Draft Findings for EHR</p>
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+              )}
             </div>
           )}
         </div>
       </CardHeader>
       <CardContent className="p-0">
-        <div className="relative" style={{ height: `${height}px`, width }}>
-          {isLoading ? (
-            <div className="absolute inset-0 flex items-center justify-center">
-              <LoadingState text="Loading genomic data..." size="lg" />
-            </div>
-          ) : (
-            <canvas
-              ref={canvasRef}
-              width={800}
+        {viewMode === "linear" && !isLoading ? (
+          <div style={{ width }}>
+            <GenomeBrowser
+              variants={variants}
+              selectedVariant={selectedVariant}
+              onVariantSelect={handleVariantClick}
               height={height}
-              className="w-full h-full"
-              style={{ cursor: "pointer" }}
+              canvasRef={canvasRef}
             />
-          )}
-        </div>
+          </div>
+        ) : (
+          <div className="relative" style={{ height: `${height}px`, width }}>
+            {isLoading ? (
+              <div className="absolute inset-0 flex items-center justify-center">
+                <LoadingState text="Loading genomic data..." size="lg" />
+              </div>
+            ) : (
+              <canvas
+                ref={canvasRef}
+                width={800}
+                height={height}
+                className="w-full h-full"
+                style={{ cursor: "pointer" }}
+              />
+            )}
+          </div>
+        )}
       </CardContent>
       <CardFooter className="bg-gray-50 dark:bg-gray-800 border-t p-4 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
         <div className="flex flex-wrap gap-3">
@@ -483,14 +781,25 @@ export function GenomicVariantViewer({
               <span className="text-xs text-gray-600 dark:text-gray-400">{item.label}</span>
             </div>
           ))}
+          {structuralLegend.map((item) => (
+            <div key={item.label} className="flex items-center">
+              <div className="w-4 h-1 rounded-sm mr-1" style={{ backgroundColor: item.color }} />
+              <span className="text-xs text-gray-600 dark:text-gray-400">{item.label}</span>
+            </div>
+          ))}
         </div>
         {selectedVariant && (
           <div className="text-sm">
-            <span className="font-medium">Selected:</span> {selectedVariant.gene} (
-            {selectedVariant.hgvs || `${selectedVariant.reference}>${selectedVariant.alternate}`})
+            <span className="font-medium">Selected:</span> {selectedVariant.gene}{" "}
+            ({describeVariant(selectedVariant)})
           </div>
         )}
       </CardFooter>
+      {selectedVariant && (
+        <CardContent className="border-t p-4">
+          <AcmgEvidencePanel variant={selectedVariant} onReclassified={handleReclassified} />
+        </CardContent>
+      )}
     </Card>
   )
 }
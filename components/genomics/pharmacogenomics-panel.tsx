@@ -0,0 +1,289 @@
+"use client"
+
+/**
+ * Pharmacogenomics Panel Component
+ * Shows a patient's star-allele diplotypes, phenotypes and the guideline recommendations they lead to, with the
+ * drug–gene interactions of the patient's medication orders first. Clinicians upload a new VCF from here.
+ */
+
+import type React from "react"
+
+import { useRef, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge, type BadgeProps } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/components/ui/toast-provider"
+import { toBase64 } from "@/components/genomics/genomic-data-uploader"
+import type { PgxUpload } from "@/hooks/use-pgx-reports"
+import type {
+  DrugAction,
+  DrugGeneInteraction,
+  GeneCallStatus,
+  PgxReport,
+  RecommendationStrength,
+} from "@/lib/genomics/pgx/types"
+import { AlertTriangle, Loader2, Pill, Upload } from "lucide-react"
+
+const STATUS_LABELS: Record<GeneCallStatus, string> = {
+  called: "Called",
+  ambiguous: "Ambiguous",
+  indeterminate: "Indeterminate",
+  not_covered: "Not covered",
+}
+
+const STATUS_BADGES: Record<GeneCallStatus, BadgeProps["variant"]> = {
+  called: "default",
+  ambiguous: "secondary",
+  indeterminate: "outline",
+  not_covered: "outline",
+}
+
+const ACTION_LABELS: Record<DrugAction, string> = {
+  standard: "Standard dosing",
+  adjust_dose: "Adjust dose",
+  avoid: "Avoid",
+}
+
+const STRENGTH_LABELS: Record<RecommendationStrength, string> = {
+  strong: "Strong",
+  moderate: "Moderate",
+  optional: "Optional",
+}
+
+interface PharmacogenomicsPanelProps {
+  report: PgxReport | null
+  interactions: DrugGeneInteraction[]
+  onUpload: (file: PgxUpload) => Promise<PgxReport>
+  className?: string
+}
+
+/**
+ * Pharmacogenomic results of one patient
+ */
+export function PharmacogenomicsPanel({ report, interactions, onUpload, className }: PharmacogenomicsPanelProps) {
+  const [sample, setSample] = useState("")
+  const [isUploading, setIsUploading] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const { addToast } = useToast()
+
+  const handleUpload = async (event: React.FormEvent) => {
+    event.preventDefault()
+    const file = fileInputRef.current?.files?.[0]
+    if (!file) {
+      addToast({ type: "warning", title: "No File Selected", message: "Choose a VCF to genotype" })
+      return
+    }
+
+    setIsUploading(true)
+    try {
+      // gzip and BGZF files are sent as base64 and decompressed on the server
+      const bytes = new Uint8Array(await file.arrayBuffer())
+      const compressed = bytes[0] === 0x1f && bytes[1] === 0x8b
+      const result = await onUpload({
+        data: compressed ? toBase64(bytes) : new TextDecoder().decode(bytes),
+        encoding: compressed ? "base64" : undefined,
+        sample: sample.trim() || undefined,
+        file_name: file.name,
+      })
+      const called = result.genes.filter((gene) => gene.status === "called").length
+      addToast({
+        type: called === result.genes.length ? "success" : "warning",
+        title: "Pharmacogenes Called",
+        message: `${called} of ${result.genes.length} genes called from sample ${result.sample}`,
+      })
+    } catch (error) {
+      addToast({
+        type: "error",
+        title: "Failed to Call Pharmacogenes",
+        message: error instanceof Error ? error.message : "Unknown error",
+        duration: 5000,
+      })
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  const actionable = report?.genes.flatMap((gene) =>
+    gene.recommendations.filter((recommendation) => recommendation.action !== "standard"),
+  )
+
+  return (
+    <div className={className}>
+      <div className="space-y-4">
+        <Card>
+          <CardHeader>
+            <CardTitle>Pharmacogenomics</CardTitle>
+            <CardDescription>
+              {report
+                ? `Sample ${report.sample}${report.file_name ? ` from ${report.file_name}` : ""}, called ${new Date(
+                    report.created_at,
+                  ).toLocaleDateString()} with ${report.guidelines.name} tables ${report.guidelines.version}`
+                : "No pharmacogenomic results for this patient yet"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleUpload} className="flex flex-wrap items-end gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="pgx-file">VCF</Label>
+                <Input
+                  id="pgx-file"
+                  type="file"
+                  ref={fileInputRef}
+                  accept=".vcf,.vcf.gz,.gz,.bgz"
+                  disabled={isUploading}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="pgx-sample">Sample</Label>
+                <Input
+                  id="pgx-sample"
+                  placeholder="Only for multi-sample VCFs"
+                  value={sample}
+                  onChange={(event) => setSample(event.target.value)}
+                  disabled={isUploading}
+                />
+              </div>
+              <Button type="submit" disabled={isUploading}>
+                {isUploading ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Upload className="h-4 w-4 mr-2" />
+                )}
+                Call Pharmacogenes
+              </Button>
+            </form>
+            {report && report.errorCount > 0 && (
+              <p className="mt-3 flex items-center text-sm text-amber-700 dark:text-amber-300">
+                <AlertTriangle className="h-4 w-4 mr-2" />
+                {report.errorCount} VCF {report.errorCount === 1 ? "line" : "lines"} could not be read
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {interactions.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Drug–Gene Interactions</CardTitle>
+              <CardDescription>Medication orders the patient&apos;s genotype affects</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {interactions.map((interaction) => (
+                <div
+                  key={`${interaction.medication_id}-${interaction.gene}-${interaction.drug}`}
+                  className={
+                    interaction.severity === "high"
+                      ? "rounded-md border border-red-300 bg-red-50 p-3 dark:bg-red-900/20"
+                      : "rounded-md border border-amber-300 bg-amber-50 p-3 dark:bg-amber-900/10"
+                  }
+                >
+                  <p className="flex items-center font-medium">
+                    <Pill className="h-4 w-4 mr-2" />
+                    {interaction.medication}
+                    <Badge variant={interaction.severity === "high" ? "destructive" : "secondary"} className="ml-2">
+                      {ACTION_LABELS[interaction.action]}
+                    </Badge>
+                  </p>
+                  <p className="text-sm mt-1">
+                    {interaction.gene} {interaction.phenotype}: {interaction.recommendation}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {STRENGTH_LABELS[interaction.strength]} recommendation
+                  </p>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {report && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Diplotypes and Phenotypes</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Gene</TableHead>
+                    <TableHead>Diplotype</TableHead>
+                    <TableHead>Phenotype</TableHead>
+                    <TableHead>Activity Score</TableHead>
+                    <TableHead>Call</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.genes.map((gene) => (
+                    <TableRow key={gene.gene}>
+                      <TableCell className="font-medium">{gene.gene}</TableCell>
+                      <TableCell>
+                        <p>{gene.diplotype || "—"}</p>
+                        {gene.observed.length > 0 && (
+                          <p className="text-xs text-muted-foreground">
+                            {gene.observed
+                              .map((variant) => `${variant.label}${variant.dosage === 2 ? " (hom)" : ""}`)
+                              .join(", ")}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell>{gene.phenotype}</TableCell>
+                      <TableCell>{gene.activity_score ?? "—"}</TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_BADGES[gene.status]}>{STATUS_LABELS[gene.status]}</Badge>
+                        {gene.message && <p className="text-xs text-muted-foreground mt-1">{gene.message}</p>}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+
+        {actionable && actionable.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Guideline Recommendations</CardTitle>
+              <CardDescription>Drugs to avoid or dose differently, whether or not they are ordered</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Drug</TableHead>
+                    <TableHead>Gene</TableHead>
+                    <TableHead>Recommendation</TableHead>
+                    <TableHead>Strength</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {actionable.map((recommendation) => (
+                    <TableRow key={`${recommendation.gene}-${recommendation.drug}`}>
+                      <TableCell className="font-medium capitalize">{recommendation.drug}</TableCell>
+                      <TableCell>
+                        {recommendation.gene} {recommendation.phenotype}
+                      </TableCell>
+                      <TableCell>
+                        <Badge
+                          variant={recommendation.action === "avoid" ? "destructive" : "secondary"}
+                          className="mr-2"
+                        >
+                          {ACTION_LABELS[recommendation.action]}
+                        </Badge>
+                        {recommendation.recommendation}
+                      </TableCell>
+                      <TableCell>{STRENGTH_LABELS[recommendation.strength]}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  )
+}
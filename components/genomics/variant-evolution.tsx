@@ -0,0 +1,354 @@
+"use client"
+
+/**
+ * Variant Evolution Component
+ * Follows the variants reported to patients as knowledge sources are updated. Curators check the reported variants
+ * against the installed snapshots, ordering clinicians work through the re-contact tasks a reclassification raises,
+ * and each variant's timeline shows every classification version with the snapshots or override behind it.
+ */
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge, type BadgeProps } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Textarea } from "@/components/ui/textarea"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/components/ui/toast-provider"
+import {
+  useVariantEvolution,
+  useVariantReclassification,
+  type RecontactResolution,
+} from "@/hooks/use-variant-evolution"
+import type { ClassificationVersion } from "@/lib/genomics/classification-store"
+import type { PatientVariantRecord, RecontactTask, RecontactTaskStatus } from "@/lib/genomics/reclassification-store"
+import type { VariantSignificance } from "@/lib/genomics/types"
+import { ArrowRight, Check, PhoneCall, RefreshCw, X } from "lucide-react"
+
+const TIER_LABELS: Record<VariantSignificance, string> = {
+  pathogenic: "Pathogenic",
+  likely_pathogenic: "Likely Pathogenic",
+  uncertain: "Uncertain Significance",
+  likely_benign: "Likely Benign",
+  benign: "Benign",
+}
+
+const TIER_BADGES: Record<VariantSignificance, BadgeProps["variant"]> = {
+  pathogenic: "destructive",
+  likely_pathogenic: "destructive",
+  uncertain: "secondary",
+  likely_benign: "outline",
+  benign: "outline",
+}
+
+const STATUS_LABELS: Record<RecontactTaskStatus, string> = {
+  open: "Open",
+  contacted: "Patient contacted",
+  dismissed: "Dismissed",
+  superseded: "Superseded",
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  clinvar: "ClinVar",
+  gnomad: "gnomAD",
+  ensembl: "Ensembl",
+}
+
+const variantLabel = (item: { gene: string; hgvs?: string | null; variant_id?: string }) =>
+  [item.gene, item.hgvs].filter(Boolean).join(" ") || item.variant_id || "Unknown variant"
+
+const describeSnapshots = (version: ClassificationVersion) =>
+  Object.entries(version.snapshots)
+    .map(([source, release]) => `${SOURCE_LABELS[source] || source} ${release || "(unversioned)"}`)
+    .join(", ") || "No knowledge sources"
+
+function TierChange({ from, to }: { from: VariantSignificance; to: VariantSignificance }) {
+  return (
+    <span className="inline-flex items-center gap-1">
+      <Badge variant={TIER_BADGES[from]}>{TIER_LABELS[from]}</Badge>
+      <ArrowRight className="h-3 w-3" />
+      <Badge variant={TIER_BADGES[to]}>{TIER_LABELS[to]}</Badge>
+    </span>
+  )
+}
+
+/**
+ * Variant Evolution Component
+ */
+export function VariantEvolution() {
+  const { patientVariants, tasks, isLoading, error, scan, resolveTask } = useVariantReclassification()
+  const [selectedVariantId, setSelectedVariantId] = useState<string | null>(null)
+  const [revision, setRevision] = useState(0)
+  const [resolvingTaskId, setResolvingTaskId] = useState<string | null>(null)
+  const [note, setNote] = useState("")
+  const [isScanning, setIsScanning] = useState(false)
+  const [isResolving, setIsResolving] = useState(false)
+
+  const { addToast } = useToast()
+
+  const variantId = selectedVariantId || patientVariants[0]?.variant_id || null
+  const { evolution, isLoading: isLoadingEvolution } = useVariantEvolution(variantId, revision)
+  const openTasks = tasks.filter((task) => task.status === "open")
+  const selected: PatientVariantRecord | undefined = patientVariants.find((record) => record.variant_id === variantId)
+
+  const notifyError = (title: string, error: unknown) => {
+    addToast({
+      type: "error",
+      title,
+      message: error instanceof Error ? error.message : "Unknown error",
+      duration: 5000,
+    })
+  }
+
+  const handleScan = async () => {
+    setIsScanning(true)
+
+    try {
+      const result = await scan()
+      setRevision((current) => current + 1)
+      addToast({
+        type: result.tasks.length > 0 ? "warning" : "success",
+        title: "Check Complete",
+        message: `${result.variantCount} variants checked, ${result.tasks.length} reclassified`,
+      })
+    } catch (error) {
+      notifyError("Failed to Check for Reclassifications", error)
+    } finally {
+      setIsScanning(false)
+    }
+  }
+
+  const handleResolve = async (task: RecontactTask, status: RecontactResolution["status"]) => {
+    setIsResolving(true)
+
+    try {
+      await resolveTask(task.id, { status, note: note.trim() || undefined })
+      setResolvingTaskId(null)
+      setNote("")
+      setRevision((current) => current + 1)
+      addToast({
+        type: "success",
+        title: STATUS_LABELS[status],
+        message: `${variantLabel(task)} for patient ${task.patient_id}`,
+      })
+    } catch (error) {
+      notifyError("Failed to Resolve Task", error)
+    } finally {
+      setIsResolving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Variant Evolution</h1>
+          <p className="text-muted-foreground">
+            How reported variants are reclassified as ClinVar, gnomAD and Ensembl snapshots are updated
+          </p>
+        </div>
+        <Button variant="outline" onClick={handleScan} disabled={isScanning}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${isScanning ? "animate-spin" : ""}`} />
+          {isScanning ? "Checking..." : "Check for Reclassifications"}
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error.message}</p>}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Re-contact Tasks</CardTitle>
+          <CardDescription>{openTasks.length} patients to re-contact about a reclassified variant</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {isLoading && <Skeleton className="h-24 w-full" />}
+          {!isLoading && openTasks.length === 0 && (
+            <p className="text-sm text-muted-foreground">No patients need to be re-contacted</p>
+          )}
+          {openTasks.map((task) => (
+            <div key={task.id} className="rounded-md border p-3 space-y-2">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{variantLabel(task)}</span>
+                    {task.priority === "urgent" && <Badge variant="destructive">Urgent</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Patient {task.patient_id} · ordered by {task.assignee.name || task.assignee.id} ·{" "}
+                    {new Date(task.created_at).toLocaleString()}
+                  </p>
+                </div>
+                <TierChange from={task.previous_significance} to={task.significance} />
+              </div>
+              {resolvingTaskId === task.id ? (
+                <div className="space-y-2">
+                  <Textarea
+                    rows={2}
+                    placeholder="How the patient was contacted, or why no contact is needed"
+                    value={note}
+                    onChange={(event) => setNote(event.target.value)}
+                    disabled={isResolving}
+                  />
+                  <div className="flex justify-end space-x-2">
+                    <Button variant="ghost" size="sm" onClick={() => setResolvingTaskId(null)} disabled={isResolving}>
+                      Cancel
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleResolve(task, "dismissed")}
+                      disabled={isResolving || !note.trim()}
+                    >
+                      <X className="h-4 w-4 mr-1" />
+                      Dismiss
+                    </Button>
+                    <Button size="sm" onClick={() => handleResolve(task, "contacted")} disabled={isResolving}>
+                      <Check className="h-4 w-4 mr-1" />
+                      Patient Contacted
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex justify-end space-x-2">
+                  <Button variant="ghost" size="sm" onClick={() => setSelectedVariantId(task.variant_id)}>
+                    Timeline
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => {
+                      setResolvingTaskId(task.id)
+                      setNote("")
+                    }}
+                  >
+                    <PhoneCall className="h-4 w-4 mr-1" />
+                    Resolve
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Reported Variants</CardTitle>
+            <CardDescription>
+              Variants in published genomic findings, as reported and as currently classified
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {!isLoading && patientVariants.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No variants are tracked yet. Variants are tracked once genomic findings are published to the EHR.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Variant</TableHead>
+                    <TableHead>Patient</TableHead>
+                    <TableHead>Reported</TableHead>
+                    <TableHead>Current</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {patientVariants.map((record) => (
+                    <TableRow
+                      key={record.id}
+                      onClick={() => setSelectedVariantId(record.variant_id)}
+                      className={`cursor-pointer ${record.variant_id === variantId ? "bg-muted" : ""}`}
+                    >
+                      <TableCell>
+                        <div className="font-medium">{variantLabel(record.variant)}</div>
+                        <div className="text-xs text-muted-foreground">{record.variant_id}</div>
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {record.patient_id}
+                        <div className="text-muted-foreground">
+                          {record.ordering_clinician.name || record.ordering_clinician.id}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={TIER_BADGES[record.reported_significance]}>
+                          {TIER_LABELS[record.reported_significance]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={TIER_BADGES[record.current_significance]}>
+                          {TIER_LABELS[record.current_significance]}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Evolution Timeline</CardTitle>
+            <CardDescription>
+              {selected ? variantLabel(selected.variant) : "Select a reported variant"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoadingEvolution && <Skeleton className="h-24 w-full" />}
+            {!isLoadingEvolution && variantId && !evolution && (
+              <p className="text-sm text-muted-foreground">
+                Not classified yet. Check for reclassifications to classify it from the knowledge sources.
+              </p>
+            )}
+            {evolution && (
+              <ol className="relative border-l pl-6 space-y-4">
+                {[...evolution.versions].reverse().map((version, index, versions) => {
+                  const previous = versions[index + 1]
+                  const raised = evolution.tasks.filter((task) => task.version === version.version)
+
+                  return (
+                    <li key={version.id} className="relative">
+                      <span
+                        className={`absolute -left-[31px] top-1 h-3 w-3 rounded-full border-2 border-background ${
+                          previous && previous.tier !== version.tier ? "bg-red-500" : "bg-muted-foreground"
+                        }`}
+                      />
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="text-sm font-medium">Version {version.version}</span>
+                        {previous && previous.tier !== version.tier ? (
+                          <TierChange from={previous.tier} to={version.tier} />
+                        ) : (
+                          <Badge variant={TIER_BADGES[version.tier]}>{TIER_LABELS[version.tier]}</Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {new Date(version.created_at).toLocaleString()} ·{" "}
+                        {version.cause === "override"
+                          ? `Curator override by ${version.changed_by}`
+                          : describeSnapshots(version)}
+                      </p>
+                      <p className="text-xs">
+                        {version.rule}
+                        {version.met.length > 0 && ` · ${version.met.join(", ")}`}
+                      </p>
+                      {raised.length > 0 && (
+                        <p className="text-xs text-muted-foreground">
+                          Re-contact:{" "}
+                          {raised
+                            .map((task) => `patient ${task.patient_id} (${STATUS_LABELS[task.status].toLowerCase()})`)
+                            .join(", ")}
+                        </p>
+                      )}
+                    </li>
+                  )
+                })}
+              </ol>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
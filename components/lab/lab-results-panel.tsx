@@ -16,37 +16,11 @@ import {
   FileText,
   TrendingUp,
   TrendingDown,
+  Radio,
 } from "lucide-react"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
-
-interface LabTest {
-  id: string
-  name: string
-  value: number | string
-  unit: string
-  referenceRange: string
-  status: "normal" | "abnormal" | "critical" | "pending"
-  timestamp: string
-  trend?: "increasing" | "decreasing" | "stable"
-  previousValue?: number | string
-  notes?: string
-}
-
-interface LabPanel {
-  id: string
-  name: string
-  category: string
-  collectedAt: string
-  receivedAt: string
-  reportedAt: string
-  status: "complete" | "partial" | "pending"
-  tests: LabTest[]
-  provider: string
-  specimenType: string
-  specimenId: string
-  orderedBy: string
-  notes?: string
-}
+import { usePatientUpdates } from "@/hooks/use-patient-updates"
+import type { LabPanel } from "@/lib/lab/types"
 
 interface LabResultsPanelProps {
   patientId?: string
@@ -63,6 +37,37 @@ export function LabResultsPanel({ patientId, initialPanels, isLoading = false, o
   const [panels, setPanels] = useState<LabPanel[]>(initialPanels || [])
   const [selectedPanel, setSelectedPanel] = useState<LabPanel | null>(null)
   const [activeTab, setActiveTab] = useState("all")
+  const [isFetching, setIsFetching] = useState(false)
+  const [fetchError, setFetchError] = useState<string | null>(null)
+
+  // Load the patient's panels from the EHR, keeping the selected panel when it is still there
+  const loadPatientPanels = async (id: string, silent = false) => {
+    if (!silent) setIsFetching(true)
+
+    try {
+      const response = await fetch(`/api/fhir/patients/${id}/labs`)
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.message || "Failed to fetch lab results")
+      }
+
+      const { panels: patientPanels }: { panels: LabPanel[] } = await response.json()
+      setPanels(patientPanels)
+      setSelectedPanel(
+        (current) => patientPanels.find((panel) => panel.id === current?.id) || patientPanels[0] || null,
+      )
+      setFetchError(null)
+    } catch (error) {
+      setFetchError(error instanceof Error ? error.message : "Unknown error")
+    } finally {
+      setIsFetching(false)
+    }
+  }
+
+  const { isLive } = usePatientUpdates(patientId, () => patientId && loadPatientPanels(patientId, true), {
+    enabled: !initialPanels,
+  })
 
   // Fetch lab panels if not provided
   useEffect(() => {
@@ -76,9 +81,13 @@ export function LabResultsPanel({ patientId, initialPanels, isLoading = false, o
 
     if (isLoading) return
 
-    // Simulate fetching lab data
+    if (patientId) {
+      loadPatientPanels(patientId)
+      return
+    }
+
+    // Demo data for views without a patient
     const fetchLabPanels = async () => {
-      // In a real app, this would be an API call
       const mockPanels: LabPanel[] = [
         {
           id: "panel1",
@@ -415,7 +424,7 @@ export function LabResultsPanel({ patientId, initialPanels, isLoading = false, o
     return date.toLocaleString()
   }
 
-  if (isLoading) {
+  if (isLoading || isFetching) {
     return (
       <Card>
         <CardHeader>
@@ -449,9 +458,18 @@ export function LabResultsPanel({ patientId, initialPanels, isLoading = false, o
         <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
           <div>
             <CardTitle>Laboratory Results</CardTitle>
-            <CardDescription>View and analyze patient laboratory test results</CardDescription>
+            <CardDescription>
+              {fetchError
+                ? `Failed to load lab results: ${fetchError}`
+                : "View and analyze patient laboratory test results"}
+            </CardDescription>
           </div>
           <div className="flex items-center space-x-2">
+            {isLive && (
+              <Badge variant="outline" className="bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300">
+                <Radio className="mr-1 h-3 w-3" /> Live
+              </Badge>
+            )}
             <TooltipProvider>
               <Tooltip>
                 <TooltipTrigger asChild>
@@ -0,0 +1,158 @@
+"use client"
+
+/**
+ * Hook for the AIDEN event history
+ * Loads past events page by page and acknowledges or annotates detected anomalies
+ */
+
+import { useState, useEffect, useCallback } from "react"
+import type { AidenEventRecord, AidenEventSeverity } from "@/lib/aiden/aiden-websocket"
+import { useToast } from "@/components/ui/toast-provider"
+
+export interface AidenEventHistoryFilters {
+  eventTypes?: string[]
+  severities?: AidenEventSeverity[]
+  patientId?: string
+  from?: string
+  to?: string
+  acknowledged?: boolean
+}
+
+interface UseAidenEventHistoryOptions extends AidenEventHistoryFilters {
+  pageSize?: number
+  autoLoad?: boolean
+}
+
+function buildQuery(filters: AidenEventHistoryFilters, limit: number, offset: number): string {
+  const params = new URLSearchParams({ limit: String(limit), offset: String(offset) })
+
+  if (filters.eventTypes?.length) params.set("event_type", filters.eventTypes.join(","))
+  if (filters.severities?.length) params.set("severity", filters.severities.join(","))
+  if (filters.patientId) params.set("patient_id", filters.patientId)
+  if (filters.from) params.set("from", filters.from)
+  if (filters.to) params.set("to", filters.to)
+  if (filters.acknowledged !== undefined) params.set("acknowledged", String(filters.acknowledged))
+
+  return params.toString()
+}
+
+/**
+ * Hook for the AIDEN event history
+ */
+export function useAidenEventHistory(options: UseAidenEventHistoryOptions = {}) {
+  const { pageSize = 50, autoLoad = true, eventTypes, severities, patientId, from, to, acknowledged } = options
+
+  const [events, setEvents] = useState<AidenEventRecord[]>([])
+  const [total, setTotal] = useState(0)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<Error | null>(null)
+
+  const { addToast } = useToast()
+
+  // Arrays are compared by value so callers can pass literals
+  const filterKey = JSON.stringify({ eventTypes, severities, patientId, from, to, acknowledged })
+
+  const loadPage = useCallback(
+    async (offset: number) => {
+      setIsLoading(true)
+      setError(null)
+
+      try {
+        const response = await fetch(`/api/aiden/events?${buildQuery(JSON.parse(filterKey), pageSize, offset)}`)
+
+        if (!response.ok) {
+          const errorData = await response.json()
+          throw new Error(errorData.message || "Failed to load event history")
+        }
+
+        const data = await response.json()
+
+        setEvents((prev) => {
+          const previous = offset === 0 ? [] : prev
+          const seen = new Set(previous.map((event) => event.event_id))
+          return [...previous, ...data.events.filter((event: AidenEventRecord) => !seen.has(event.event_id))]
+        })
+        setTotal(data.total)
+      } catch (error) {
+        setError(error instanceof Error ? error : new Error("Unknown error"))
+      } finally {
+        setIsLoading(false)
+      }
+    },
+    [filterKey, pageSize],
+  )
+
+  // Reload the first page
+  const refresh = useCallback(() => loadPage(0), [loadPage])
+
+  // Load the next page of older events
+  const loadMore = useCallback(() => loadPage(events.length), [loadPage, events.length])
+
+  // Apply an updated record returned by the API
+  const replaceEvent = useCallback((updated: AidenEventRecord) => {
+    setEvents((prev) => prev.map((event) => (event.event_id === updated.event_id ? updated : event)))
+  }, [])
+
+  const updateAnomaly = useCallback(
+    async (url: string, body: any, failureTitle: string): Promise<AidenEventRecord | null> => {
+      try {
+        const response = await fetch(url, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: body ? JSON.stringify(body) : undefined,
+        })
+
+        if (!response.ok) {
+          const errorData = await response.json()
+          throw new Error(errorData.message || failureTitle)
+        }
+
+        const updated: AidenEventRecord = await response.json()
+        replaceEvent(updated)
+        return updated
+      } catch (error) {
+        addToast({
+          type: "error",
+          title: failureTitle,
+          message: error instanceof Error ? error.message : "Unknown error",
+          duration: 5000,
+        })
+        return null
+      }
+    },
+    [addToast, replaceEvent],
+  )
+
+  // Acknowledge a detected anomaly
+  const acknowledge = useCallback(
+    (eventId: string) => updateAnomaly(`/api/aiden/events/${eventId}/acknowledge`, null, "Acknowledgement Failed"),
+    [updateAnomaly],
+  )
+
+  // Add a note to a detected anomaly
+  const annotate = useCallback(
+    (eventId: string, text: string) =>
+      updateAnomaly(`/api/aiden/events/${eventId}/annotations`, { text }, "Annotation Failed"),
+    [updateAnomaly],
+  )
+
+  useEffect(() => {
+    if (autoLoad) {
+      loadPage(0)
+    }
+  }, [autoLoad, loadPage])
+
+  return {
+    events,
+    total,
+    isLoading,
+    error,
+    hasMore: events.length < total,
+    refresh,
+    loadMore,
+    acknowledge,
+    annotate,
+  }
+}
@@ -2,17 +2,27 @@
 
 /**
  * Hook for managing AIDEN tasks
- * Provides functionality to submit, track, and retrieve results from AIDEN tasks
+ * Provides functionality to submit, track, and retrieve results from AIDEN tasks.
+ * Status updates are pushed over a stream shared by every hook watching the same task.
  */
 
-import { useState, useEffect, useCallback } from "react"
-import { type AidenTaskType, AidenTaskStatus, type AidenTaskPriority } from "@/lib/aiden/aiden-client"
+import { useState, useEffect, useCallback, useRef } from "react"
+import {
+  type AidenTaskType,
+  AidenTaskStatus,
+  type AidenTaskPriority,
+  type AidenTaskProgress,
+  type AidenTaskStatusResponse,
+  isTerminalStatus,
+} from "@/lib/aiden/aiden-client"
+import { resumeTaskSubscription, subscribeToTask } from "@/lib/aiden/task-subscriptions"
 import { useToast } from "@/components/ui/toast-provider"
 
 interface UseAidenTaskOptions {
   onSuccess?: (result: any) => void
   onError?: (error: Error) => void
   autoFetch?: boolean
+  /** Status polling interval used when the update stream is unavailable */
   pollingInterval?: number
 }
 
@@ -23,7 +33,10 @@ interface AidenTaskState<T = any> {
   error: Error | null
   isLoading: boolean
   isSubmitting: boolean
-  isPolling: boolean
+  isWatching: boolean
+  attempts: number
+  maxAttempts: number | null
+  progress: AidenTaskProgress | null
 }
 
 /**
@@ -39,10 +52,14 @@ export function useAidenTask<T = any>(options: UseAidenTaskOptions = {}) {
     error: null,
     isLoading: false,
     isSubmitting: false,
-    isPolling: false,
+    isWatching: false,
+    attempts: 0,
+    maxAttempts: null,
+    progress: null,
   })
 
   const { addToast } = useToast()
+  const unsubscribeRef = useRef<(() => void) | null>(null)
 
   // Submit a task to AIDEN
   const submitTask = useCallback(
@@ -74,6 +91,8 @@ export function useAidenTask<T = any>(options: UseAidenTaskOptions = {}) {
           ...prev,
           taskId: data.task_id,
           status: data.status,
+          attempts: data.attempts ?? 0,
+          maxAttempts: data.max_attempts ?? null,
           isSubmitting: false,
         }))
 
@@ -129,6 +148,9 @@ export function useAidenTask<T = any>(options: UseAidenTaskOptions = {}) {
         setState((prev) => ({
           ...prev,
           status: data.status,
+          attempts: data.attempts ?? prev.attempts,
+          maxAttempts: data.max_attempts ?? prev.maxAttempts,
+          progress: data.progress ?? null,
           isLoading: false,
         }))
 
@@ -198,76 +220,172 @@ export function useAidenTask<T = any>(options: UseAidenTaskOptions = {}) {
     [onSuccess, onError],
   )
 
-  // Poll for task status and result
-  const pollTaskStatus = useCallback(
-    async (taskId: string) => {
+  // Stop watching the current task
+  const unwatchTask = useCallback(() => {
+    unsubscribeRef.current?.()
+    unsubscribeRef.current = null
+    setState((prev) => ({ ...prev, isWatching: false }))
+  }, [])
+
+  // Apply a pushed status update
+  const handleTaskUpdate = useCallback(
+    (update: AidenTaskStatusResponse) => {
+      setState((prev) => ({
+        ...prev,
+        status: update.status,
+        attempts: update.attempts ?? prev.attempts,
+        maxAttempts: update.max_attempts ?? prev.maxAttempts,
+        progress: update.progress ?? null,
+      }))
+
+      if (!isTerminalStatus(update.status)) return
+
+      unwatchTask()
+
+      if (update.status === AidenTaskStatus.COMPLETED) {
+        getTaskResult(update.task_id).catch(() => {})
+      } else {
+        addToast({
+          type: update.status === AidenTaskStatus.CANCELLED ? "warning" : "error",
+          title: update.status === AidenTaskStatus.CANCELLED ? "Task Cancelled" : "Task Failed",
+          message: update.error
+            ? `Task ${update.task_id}: ${update.error}`
+            : `Task ${update.task_id} has ${update.status === AidenTaskStatus.CANCELLED ? "been cancelled" : "failed"}`,
+          duration: 5000,
+        })
+      }
+    },
+    [unwatchTask, getTaskResult, addToast],
+  )
+
+  // Start watching a task for status updates
+  const watchTask = useCallback(
+    (taskId: string) => {
       if (!taskId) return
 
-      setState((prev) => ({ ...prev, isPolling: true }))
+      unsubscribeRef.current?.()
+      setState((prev) => ({ ...prev, taskId, isWatching: true }))
+      unsubscribeRef.current = subscribeToTask(taskId, handleTaskUpdate, { pollingInterval })
+    },
+    [handleTaskUpdate, pollingInterval],
+  )
 
+  // Cancel a queued or running task
+  const cancelTask = useCallback(
+    async (taskId: string) => {
       try {
-        const statusData = await getTaskStatus(taskId)
-
-        if (statusData.status === AidenTaskStatus.COMPLETED) {
-          await getTaskResult(taskId)
-          setState((prev) => ({ ...prev, isPolling: false }))
-        } else if (statusData.status === AidenTaskStatus.FAILED || statusData.status === AidenTaskStatus.CANCELLED) {
-          setState((prev) => ({ ...prev, isPolling: false }))
-
-          addToast({
-            type: "error",
-            title: "Task Failed",
-            message: `Task ${taskId} has failed or been cancelled`,
-            duration: 5000,
-          })
+        const response = await fetch(`/api/aiden/tasks/${taskId}`, { method: "DELETE" })
+
+        if (!response.ok) {
+          const errorData = await response.json()
+          throw new Error(errorData.message || "Failed to cancel task")
         }
+
+        const data = await response.json()
+
+        // Watchers are told about the cancellation through the update stream
+        setState((prev) => ({
+          ...prev,
+          status: data.status,
+          attempts: data.attempts ?? prev.attempts,
+        }))
+
+        return data
       } catch (error) {
-        setState((prev) => ({ ...prev, isPolling: false }))
+        const errorMessage = error instanceof Error ? error.message : "Unknown error"
+
+        addToast({
+          type: "error",
+          title: "Cancellation Failed",
+          message: errorMessage,
+          duration: 5000,
+        })
+
+        if (onError) {
+          onError(error instanceof Error ? error : new Error(errorMessage))
+        }
+
+        throw error
       }
     },
-    [getTaskStatus, getTaskResult, addToast],
+    [addToast, onError],
   )
 
-  // Start polling for task status
-  const startPolling = useCallback(
-    (taskId: string) => {
-      if (!taskId) return
+  // Re-queue a failed or cancelled task
+  const retryTask = useCallback(
+    async (taskId: string) => {
+      try {
+        const response = await fetch(`/api/aiden/tasks/${taskId}/retry`, { method: "POST" })
+
+        if (!response.ok) {
+          const errorData = await response.json()
+          throw new Error(errorData.message || "Failed to retry task")
+        }
+
+        const data = await response.json()
+        resumeTaskSubscription(taskId)
 
-      const poll = async () => {
-        await pollTaskStatus(taskId)
+        setState((prev) => ({
+          ...prev,
+          taskId: data.task_id,
+          status: data.status,
+          attempts: data.attempts ?? prev.attempts,
+          maxAttempts: data.max_attempts ?? prev.maxAttempts,
+          progress: null,
+          result: null,
+          error: null,
+        }))
+
+        addToast({
+          type: "success",
+          title: "Task Requeued",
+          message: `Task ${taskId} will be retried`,
+          duration: 3000,
+        })
 
-        if (
-          state.status !== AidenTaskStatus.COMPLETED &&
-          state.status !== AidenTaskStatus.FAILED &&
-          state.status !== AidenTaskStatus.CANCELLED
-        ) {
-          setTimeout(poll, pollingInterval)
+        return data
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error"
+
+        addToast({
+          type: "error",
+          title: "Retry Failed",
+          message: errorMessage,
+          duration: 5000,
+        })
+
+        if (onError) {
+          onError(error instanceof Error ? error : new Error(errorMessage))
         }
-      }
 
-      poll()
+        throw error
+      }
     },
-    [pollTaskStatus, state.status, pollingInterval],
+    [addToast, onError],
   )
 
-  // Stop polling
-  const stopPolling = useCallback(() => {
-    setState((prev) => ({ ...prev, isPolling: false }))
-  }, [])
+  // Watch the task once it has been submitted
+  useEffect(() => {
+    if (autoFetch && state.taskId && !state.isWatching && !state.result && !isTerminalStatus(state.status)) {
+      watchTask(state.taskId)
+    }
+  }, [autoFetch, state.taskId, state.isWatching, state.result, state.status, watchTask])
 
-  // Auto-fetch result when taskId changes
+  // Release the shared subscription on unmount
   useEffect(() => {
-    if (autoFetch && state.taskId && !state.result && !state.isPolling) {
-      startPolling(state.taskId)
+    return () => {
+      unsubscribeRef.current?.()
     }
-  }, [autoFetch, state.taskId, state.result, state.isPolling, startPolling])
+  }, [])
 
   return {
     ...state,
     submitTask,
     getTaskStatus,
     getTaskResult,
-    startPolling,
-    stopPolling,
+    watchTask,
+    unwatchTask,
+    cancelTask,
+    retryTask,
   }
 }
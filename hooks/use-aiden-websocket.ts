@@ -36,6 +36,11 @@ export function useAidenWebSocket(options: UseAidenWebSocketOptions = {}) {
   const [eventHistory, setEventHistory] = useState<AidenWebSocketEvent[]>([])
 
   const wsClientRef = useRef<AidenWebSocketClient | null>(null)
+  // Survives client re-creation so a new client resumes where the previous one stopped
+  const lastSequenceRef = useRef<number | null>(null)
+  const callbacksRef = useRef({ onMessage, onOpen, onClose, onError })
+  callbacksRef.current = { onMessage, onOpen, onClose, onError }
+  const subscriptionKey = subscriptions.join(",")
   const { addToast } = useToast()
 
   // Initialize WebSocket client
@@ -43,7 +48,8 @@ export function useAidenWebSocket(options: UseAidenWebSocketOptions = {}) {
     if (!wsClientRef.current) {
       wsClientRef.current = new AidenWebSocketClient({
         autoReconnect: true,
-        subscriptions: subscriptions as string[],
+        subscriptions: subscriptionKey ? subscriptionKey.split(",") : [],
+        lastSequence: lastSequenceRef.current,
         onOpen: () => {
           setIsConnected(true)
           setIsConnecting(false)
@@ -58,9 +64,7 @@ export function useAidenWebSocket(options: UseAidenWebSocketOptions = {}) {
             })
           }
 
-          if (onOpen) {
-            onOpen()
-          }
+          callbacksRef.current.onOpen?.()
         },
         onClose: (event) => {
           setIsConnected(false)
@@ -74,9 +78,7 @@ export function useAidenWebSocket(options: UseAidenWebSocketOptions = {}) {
             })
           }
 
-          if (onClose) {
-            onClose(event)
-          }
+          callbacksRef.current.onClose?.(event)
         },
         onError: (event) => {
           setError(new Error("WebSocket connection error"))
@@ -90,28 +92,28 @@ export function useAidenWebSocket(options: UseAidenWebSocketOptions = {}) {
             })
           }
 
-          if (onError) {
-            onError(event)
-          }
+          callbacksRef.current.onError?.(event)
         },
         onMessage: (event) => {
+          lastSequenceRef.current = event.sequence ?? lastSequenceRef.current
           setLastEvent(event)
           setEventHistory((prev) => [event, ...prev].slice(0, 50)) // Keep last 50 events
 
-          if (onMessage) {
-            onMessage(event)
-          }
+          callbacksRef.current.onMessage?.(event)
         },
       })
     }
 
     return () => {
       if (wsClientRef.current) {
+        lastSequenceRef.current = wsClientRef.current.getLastSequence()
         wsClientRef.current.disconnect()
         wsClientRef.current = null
+        setIsConnected(false)
+        setIsConnecting(false)
       }
     }
-  }, [subscriptions, onOpen, onClose, onError, onMessage, addToast, showToasts])
+  }, [subscriptionKey, addToast, showToasts])
 
   // Auto-connect if enabled
   useEffect(() => {
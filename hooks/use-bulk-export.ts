@@ -0,0 +1,118 @@
+"use client"
+
+/**
+ * Hook for FHIR Bulk Data exports and the cohort summary of the latest completed export
+ */
+
+import { useState, useEffect, useCallback } from "react"
+import type { BulkExportJob } from "@/lib/fhir/bulk-data-store"
+import type { BulkDataSummary, BulkExportRequest } from "@/lib/fhir/bulk-export"
+
+interface UseBulkExportOptions {
+  /** Refresh this often while an export is running */
+  activePollingInterval?: number
+}
+
+const ACTIVE_STATUSES = ["accepted", "in-progress", "downloading"]
+
+async function requestJson<T>(url: string, init: RequestInit | undefined, failureMessage: string): Promise<T> {
+  const response = await fetch(url, { ...init, headers: { "Content-Type": "application/json" } })
+
+  if (!response.ok) {
+    const errorData = await response.json()
+    throw new Error(errorData.message || failureMessage)
+  }
+
+  return response.json()
+}
+
+/**
+ * Hook for FHIR Bulk Data exports
+ */
+export function useBulkExport(options: UseBulkExportOptions = {}) {
+  const { activePollingInterval = 2000 } = options
+
+  const [jobs, setJobs] = useState<BulkExportJob[]>([])
+  const [summary, setSummary] = useState<BulkDataSummary | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  const refresh = useCallback(async () => {
+    try {
+      const data = await requestJson<{ jobs: BulkExportJob[] }>(
+        "/api/fhir/bulk-export",
+        undefined,
+        "Failed to load exports",
+      )
+      setJobs(data.jobs)
+      setError(null)
+
+      // The summary only exists once an export has completed
+      if (data.jobs.some((job) => job.status === "completed")) {
+        const cohort = await requestJson<BulkDataSummary>(
+          "/api/fhir/bulk-data/summary",
+          undefined,
+          "Failed to load summary",
+        )
+        setSummary(cohort)
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error : new Error("Unknown error"))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  const startExport = useCallback(
+    async (request: BulkExportRequest) => {
+      const job = await requestJson<BulkExportJob>(
+        "/api/fhir/bulk-export",
+        { method: "POST", body: JSON.stringify(request) },
+        "Failed to start export",
+      )
+      await refresh()
+      return job
+    },
+    [refresh],
+  )
+
+  const resumeExport = useCallback(
+    async (jobId: string) => {
+      await requestJson(`/api/fhir/bulk-export/${jobId}/resume`, { method: "POST" }, "Failed to resume export")
+      await refresh()
+    },
+    [refresh],
+  )
+
+  const cancelExport = useCallback(
+    async (jobId: string) => {
+      await requestJson(`/api/fhir/bulk-export/${jobId}`, { method: "DELETE" }, "Failed to cancel export")
+      await refresh()
+    },
+    [refresh],
+  )
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  // Poll only while an export is running
+  const hasActiveJob = jobs.some((job) => ACTIVE_STATUSES.includes(job.status))
+
+  useEffect(() => {
+    if (!hasActiveJob || !activePollingInterval) return
+    const interval = setInterval(refresh, activePollingInterval)
+    return () => clearInterval(interval)
+  }, [hasActiveJob, activePollingInterval, refresh])
+
+  return {
+    jobs,
+    summary,
+    isLoading,
+    error,
+    refresh,
+    startExport,
+    resumeExport,
+    cancelExport,
+  }
+}
@@ -0,0 +1,70 @@
+"use client"
+
+/**
+ * Hook for the current user's SMART on FHIR connection
+ */
+
+import { useState, useEffect, useCallback } from "react"
+import type { SmartConnectionStatus } from "@/lib/fhir/smart-auth"
+
+interface UseFhirConnectionOptions {
+  /** Re-check the connection this often, 0 to disable */
+  pollingInterval?: number
+}
+
+/**
+ * Hook for the current user's SMART on FHIR connection
+ */
+export function useFhirConnection(options: UseFhirConnectionOptions = {}) {
+  const { pollingInterval = 60000 } = options
+
+  const [status, setStatus] = useState<SmartConnectionStatus | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch("/api/fhir/auth/status")
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.message || "Failed to load FHIR connection status")
+      }
+
+      setStatus(await response.json())
+      setError(null)
+    } catch (error) {
+      setError(error instanceof Error ? error : new Error("Unknown error"))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  // Forget the stored tokens
+  const disconnect = useCallback(async () => {
+    const response = await fetch("/api/fhir/auth", { method: "DELETE" })
+
+    if (!response.ok) {
+      const errorData = await response.json()
+      throw new Error(errorData.message || "Failed to disconnect")
+    }
+
+    await refresh()
+  }, [refresh])
+
+  useEffect(() => {
+    refresh()
+
+    if (!pollingInterval) return
+    const interval = setInterval(refresh, pollingInterval)
+    return () => clearInterval(interval)
+  }, [refresh, pollingInterval])
+
+  return {
+    status,
+    isLoading,
+    error,
+    refresh,
+    disconnect,
+  }
+}
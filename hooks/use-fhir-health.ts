@@ -0,0 +1,60 @@
+"use client"
+
+/**
+ * Hook for the health of the current user's FHIR connection
+ */
+
+import { useState, useEffect, useCallback } from "react"
+import type { FhirHealthStatus } from "@/lib/fhir/fhir-health"
+
+interface UseFhirHealthOptions {
+  /** Re-check the connection this often, 0 to disable */
+  pollingInterval?: number
+}
+
+/**
+ * Hook for the health of the current user's FHIR connection
+ */
+export function useFhirHealth(options: UseFhirHealthOptions = {}) {
+  const { pollingInterval = 60000 } = options
+
+  const [health, setHealth] = useState<FhirHealthStatus | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  const load = useCallback(async (refresh: boolean) => {
+    try {
+      const response = await fetch(`/api/fhir/status${refresh ? "?refresh=true" : ""}`)
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.message || "Failed to check FHIR connection")
+      }
+
+      setHealth(await response.json())
+      setError(null)
+    } catch (error) {
+      setError(error instanceof Error ? error : new Error("Unknown error"))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  // Run the checks again instead of reusing the server's cached report
+  const recheck = useCallback(() => load(true), [load])
+
+  useEffect(() => {
+    load(false)
+
+    if (!pollingInterval) return
+    const interval = setInterval(() => load(false), pollingInterval)
+    return () => clearInterval(interval)
+  }, [load, pollingInterval])
+
+  return {
+    health,
+    isLoading,
+    error,
+    recheck,
+  }
+}
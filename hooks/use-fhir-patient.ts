@@ -9,10 +9,20 @@ import { useToast } from "@/components/ui/toast-provider"
 import type { PatientSummary, PatientHealthRecord } from "@/lib/fhir/fhir-transformer"
 import type { FhirAnalysisType } from "@/lib/fhir/fhir-aiden-integration"
 import { useAidenTask } from "@/hooks/use-aiden-task"
+import { usePatientUpdates } from "@/hooks/use-patient-updates"
 
 interface UseFhirPatientOptions {
   autoFetch?: boolean
   includeHealthRecord?: boolean
+  /** Reload in the background when the EHR reports changes to the patient */
+  live?: boolean
+}
+
+interface FetchOptions {
+  /** Bypass the server's patient data cache */
+  refresh?: boolean
+  /** Keep showing the current data instead of a loading state */
+  silent?: boolean
 }
 
 interface UseFhirPatientReturn {
@@ -21,6 +31,9 @@ interface UseFhirPatientReturn {
   isLoading: boolean
   error: Error | null
   refetch: () => Promise<void>
+  /** Whether live updates are connected */
+  isLive: boolean
+  lastUpdatedAt: string | null
   analyzePatientData: (analysisType: FhirAnalysisType, options?: any) => Promise<any>
 }
 
@@ -28,25 +41,26 @@ interface UseFhirPatientReturn {
  * Hook for fetching and managing FHIR patient data
  */
 export function useFhirPatient(patientId: string, options: UseFhirPatientOptions = {}): UseFhirPatientReturn {
-  const { autoFetch = true, includeHealthRecord = false } = options
+  const { autoFetch = true, includeHealthRecord = false, live = false } = options
 
   const [patient, setPatient] = useState<PatientSummary | null>(null)
   const [healthRecord, setHealthRecord] = useState<PatientHealthRecord | null>(null)
   const [isLoading, setIsLoading] = useState<boolean>(false)
   const [error, setError] = useState<Error | null>(null)
+  const [lastUpdatedAt, setLastUpdatedAt] = useState<string | null>(null)
 
   const { addToast } = useToast()
   const { submitTask } = useAidenTask()
 
   // Fetch patient data
-  const fetchPatient = async () => {
+  const fetchPatient = async ({ refresh = false, silent = false }: FetchOptions = {}) => {
     if (!patientId) return
 
-    setIsLoading(true)
+    if (!silent) setIsLoading(true)
     setError(null)
 
     try {
-      const response = await fetch(`/api/fhir/patients/${patientId}`)
+      const response = await fetch(`/api/fhir/patients/${patientId}${refresh ? "?refresh=true" : ""}`)
 
       if (!response.ok) {
         const errorData = await response.json()
@@ -55,6 +69,7 @@ export function useFhirPatient(patientId: string, options: UseFhirPatientOptions
 
       const data = await response.json()
       setPatient(data)
+      setLastUpdatedAt(new Date().toISOString())
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : "Unknown error"
       setError(error instanceof Error ? error : new Error(errorMessage))
@@ -71,14 +86,14 @@ export function useFhirPatient(patientId: string, options: UseFhirPatientOptions
   }
 
   // Fetch patient health record
-  const fetchHealthRecord = async () => {
+  const fetchHealthRecord = async ({ refresh = false, silent = false }: FetchOptions = {}) => {
     if (!patientId) return
 
-    setIsLoading(true)
+    if (!silent) setIsLoading(true)
     setError(null)
 
     try {
-      const response = await fetch(`/api/fhir/patients/${patientId}/health-record`)
+      const response = await fetch(`/api/fhir/patients/${patientId}/health-record${refresh ? "?refresh=true" : ""}`)
 
       if (!response.ok) {
         const errorData = await response.json()
@@ -87,6 +102,7 @@ export function useFhirPatient(patientId: string, options: UseFhirPatientOptions
 
       const data = await response.json()
       setHealthRecord(data)
+      setLastUpdatedAt(new Date().toISOString())
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : "Unknown error"
       setError(error instanceof Error ? error : new Error(errorMessage))
@@ -102,14 +118,17 @@ export function useFhirPatient(patientId: string, options: UseFhirPatientOptions
     }
   }
 
-  // Refetch data
-  const refetch = async () => {
-    await fetchPatient()
+  // Refetch data, bypassing the server cache unless told otherwise
+  const refetch = async (fetchOptions: FetchOptions = { refresh: true }) => {
+    await fetchPatient(fetchOptions)
     if (includeHealthRecord) {
-      await fetchHealthRecord()
+      await fetchHealthRecord(fetchOptions)
     }
   }
 
+  // The webhook has already invalidated the server cache, so a plain silent fetch gets the new data
+  const { isLive } = usePatientUpdates(patientId, () => refetch({ silent: true }), { enabled: live })
+
   // Analyze patient data
   const analyzePatientData = async (analysisType: FhirAnalysisType, options: any = {}) => {
     if (!patientId) {
@@ -172,7 +191,9 @@ export function useFhirPatient(patientId: string, options: UseFhirPatientOptions
     healthRecord,
     isLoading,
     error,
-    refetch,
+    refetch: () => refetch(),
+    isLive,
+    lastUpdatedAt,
     analyzePatientData,
   }
 }
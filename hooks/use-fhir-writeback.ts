@@ -0,0 +1,120 @@
+"use client"
+
+/**
+ * Hook for reviewing, signing and publishing a patient's EHR write-back drafts
+ */
+
+import { useState, useEffect, useCallback } from "react"
+import type { WritebackDraftRequest } from "@/lib/fhir/fhir-writeback"
+import type { WritebackDraft } from "@/lib/fhir/writeback-store"
+
+async function requestJson<T>(url: string, init: RequestInit | undefined, failureMessage: string): Promise<T> {
+  const response = await fetch(url, { ...init, headers: { "Content-Type": "application/json" } })
+
+  if (!response.ok) {
+    const errorData = await response.json()
+    throw new Error(errorData.message || failureMessage)
+  }
+
+  return response.json()
+}
+
+/**
+ * Hook for a patient's EHR write-back drafts
+ */
+export function useFhirWriteback(patientId: string) {
+  const [drafts, setDrafts] = useState<WritebackDraft[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  const refresh = useCallback(async () => {
+    if (!patientId) return
+
+    try {
+      const data = await requestJson<{ drafts: WritebackDraft[] }>(
+        `/api/fhir/patients/${patientId}/writeback`,
+        undefined,
+        "Failed to load write-back drafts",
+      )
+      setDrafts(data.drafts)
+      setError(null)
+    } catch (error) {
+      setError(error instanceof Error ? error : new Error("Unknown error"))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [patientId])
+
+  // Every action answers with the updated draft, so swap it in rather than reloading the list
+  const applyDraft = useCallback((draft: WritebackDraft) => {
+    setDrafts((current) =>
+      current.some((item) => item.id === draft.id)
+        ? current.map((item) => (item.id === draft.id ? draft : item))
+        : [draft, ...current],
+    )
+    return draft
+  }, [])
+
+  const createDraft = useCallback(
+    async (request: WritebackDraftRequest) =>
+      applyDraft(
+        await requestJson<WritebackDraft>(
+          `/api/fhir/patients/${patientId}/writeback`,
+          { method: "POST", body: JSON.stringify(request) },
+          "Failed to create write-back draft",
+        ),
+      ),
+    [patientId, applyDraft],
+  )
+
+  const signDraft = useCallback(
+    async (draftId: string, narrative?: string) =>
+      applyDraft(
+        await requestJson<WritebackDraft>(
+          `/api/fhir/writeback/${draftId}/sign`,
+          { method: "POST", body: JSON.stringify({ narrative }) },
+          "Failed to sign write-back draft",
+        ),
+      ),
+    [applyDraft],
+  )
+
+  const rejectDraft = useCallback(
+    async (draftId: string, reason: string) =>
+      applyDraft(
+        await requestJson<WritebackDraft>(
+          `/api/fhir/writeback/${draftId}/reject`,
+          { method: "POST", body: JSON.stringify({ reason }) },
+          "Failed to reject write-back draft",
+        ),
+      ),
+    [applyDraft],
+  )
+
+  const retryPublish = useCallback(
+    async (draftId: string) =>
+      applyDraft(
+        await requestJson<WritebackDraft>(
+          `/api/fhir/writeback/${draftId}/publish`,
+          { method: "POST" },
+          "Failed to publish write-back draft",
+        ),
+      ),
+    [applyDraft],
+  )
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  return {
+    drafts,
+    isLoading,
+    error,
+    refresh,
+    createDraft,
+    signDraft,
+    rejectDraft,
+    retryPublish,
+  }
+}
@@ -0,0 +1,103 @@
+"use client"
+
+/**
+ * Hook for the genome browser's annotation tracks around the region in view
+ */
+
+import { useState, useEffect, useCallback, useRef } from "react"
+import {
+  clampRegion,
+  containsRegion,
+  formatRegion,
+  regionWidth,
+  type GenomicRegion,
+} from "@/lib/genomics/browser/region"
+import { TRANSCRIPT_TRACK_WIDTH, type GenomeTracks } from "@/lib/genomics/browser/types"
+
+async function requestJson<T>(url: string, failureMessage: string): Promise<T> {
+  const response = await fetch(url, { headers: { "Content-Type": "application/json" } })
+
+  if (!response.ok) {
+    const errorData = await response.json()
+    throw new Error(errorData.error?.message || failureMessage)
+  }
+
+  return response.json()
+}
+
+/** Whether loaded tracks can draw a region without another request */
+const covers = (tracks: GenomeTracks, region: GenomicRegion) =>
+  containsRegion(tracks.region, region) && (tracks.detailed || regionWidth(region) > TRANSCRIPT_TRACK_WIDTH)
+
+/**
+ * Hook for the tracks of a region. A view width is loaded on each side, so panning only asks the server again once
+ * the view leaves what was loaded.
+ */
+export function useGenomeTracks(region: GenomicRegion | null) {
+  const [tracks, setTracks] = useState<GenomeTracks | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<Error | null>(null)
+  // The server clamps regions to the chromosome it knows, so an answer may not cover the view; it is not asked again
+  const requested = useRef<string | null>(null)
+
+  useEffect(() => {
+    if (!region || (tracks && covers(tracks, region))) return
+
+    const width = regionWidth(region)
+    const length = tracks?.chromosome.name === region.chromosome ? (tracks.chromosome.length ?? undefined) : undefined
+    const padded = clampRegion(
+      { chromosome: region.chromosome, start: region.start - width, end: region.end + width },
+      length,
+    )
+
+    const query = formatRegion(padded)
+    if (query === requested.current) return
+
+    let cancelled = false
+    let done = false
+    requested.current = query
+    setIsLoading(true)
+    requestJson<GenomeTracks>(
+      `/api/genomics/browser?region=${encodeURIComponent(query)}`,
+      "Failed to load the genome browser tracks",
+    )
+      .then((result) => {
+        if (cancelled) return
+        setTracks(result)
+        setError(null)
+      })
+      .catch((error) => {
+        if (!cancelled) setError(error instanceof Error ? error : new Error("Unknown error"))
+      })
+      .finally(() => {
+        done = true
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+      if (!done) {
+        requested.current = null
+        setIsLoading(false)
+      }
+    }
+  }, [region, tracks])
+
+  /** The locus of a gene by name, with its tracks */
+  const locate = useCallback(async (gene: string) => {
+    const result = await requestJson<GenomeTracks>(
+      `/api/genomics/browser?gene=${encodeURIComponent(gene)}`,
+      `Failed to find gene ${gene}`,
+    )
+    setTracks(result)
+    setError(null)
+    return result.region
+  }, [])
+
+  return {
+    tracks,
+    isLoading,
+    error,
+    locate,
+  }
+}
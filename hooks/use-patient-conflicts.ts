@@ -0,0 +1,99 @@
+"use client"
+
+/**
+ * Hook for reviewing proposed duplicate patients and their audit trail
+ */
+
+import { useState, useEffect, useCallback } from "react"
+import type { MatchProposalView, MatchRefreshResult } from "@/lib/matching/conflict-resolution"
+import type { MatchResolutionAction, PatientMatchAuditEntry } from "@/lib/matching/match-store"
+import type { MatchField } from "@/lib/matching/patient-matcher"
+
+async function requestJson<T>(url: string, init: RequestInit | undefined, failureMessage: string): Promise<T> {
+  const response = await fetch(url, { ...init, headers: { "Content-Type": "application/json" } })
+
+  if (!response.ok) {
+    const errorData = await response.json()
+    throw new Error(errorData.message || failureMessage)
+  }
+
+  return response.json()
+}
+
+export interface PatientConflictDecision {
+  action: MatchResolutionAction
+  choices?: Partial<Record<MatchField, "left" | "right">>
+  note?: string
+}
+
+/**
+ * Hook for the open and deferred duplicate patient proposals
+ */
+export function usePatientConflicts() {
+  const [proposals, setProposals] = useState<MatchProposalView[]>([])
+  const [auditTrail, setAuditTrail] = useState<PatientMatchAuditEntry[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  const refresh = useCallback(async () => {
+    try {
+      const [list, audit] = await Promise.all([
+        requestJson<{ proposals: MatchProposalView[] }>(
+          "/api/conflicts",
+          undefined,
+          "Failed to load patient conflicts",
+        ),
+        requestJson<{ entries: PatientMatchAuditEntry[] }>(
+          "/api/conflicts/audit",
+          undefined,
+          "Failed to load the audit trail",
+        ),
+      ])
+      setProposals(list.proposals)
+      setAuditTrail(audit.entries)
+      setError(null)
+    } catch (error) {
+      setError(error instanceof Error ? error : new Error("Unknown error"))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  const scanFhirPatients = useCallback(async () => {
+    const result = await requestJson<MatchRefreshResult>(
+      "/api/conflicts/scan",
+      { method: "POST" },
+      "Failed to scan patients for duplicates",
+    )
+    await refresh()
+    return result
+  }, [refresh])
+
+  // A merge can settle other proposals too, so reload rather than patching the list
+  const resolve = useCallback(
+    async (proposalId: string, decision: PatientConflictDecision) => {
+      const proposal = await requestJson<MatchProposalView>(
+        `/api/conflicts/${proposalId}/resolve`,
+        { method: "POST", body: JSON.stringify(decision) },
+        "Failed to resolve patient conflict",
+      )
+      await refresh()
+      return proposal
+    },
+    [refresh],
+  )
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  return {
+    proposals,
+    auditTrail,
+    isLoading,
+    error,
+    refresh,
+    scanFhirPatients,
+    resolve,
+  }
+}
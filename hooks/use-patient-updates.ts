@@ -0,0 +1,64 @@
+"use client"
+
+/**
+ * Hook for live patient updates
+ * Listens for PATIENT_UPDATE events from FHIR Subscription notifications and calls back once a burst of
+ * events for the patient has settled
+ */
+
+import { useEffect, useRef, useState } from "react"
+import { useAidenWebSocket } from "@/hooks/use-aiden-websocket"
+import { AidenWebSocketEventType, getAidenEventPatientId, type AidenWebSocketEvent } from "@/lib/aiden/aiden-websocket"
+
+interface UsePatientUpdatesOptions {
+  enabled?: boolean
+  /** Wait this long after the last event before calling back, so one transaction triggers one reload */
+  debounceMs?: number
+}
+
+const SUBSCRIPTIONS = [AidenWebSocketEventType.PATIENT_UPDATE]
+
+/**
+ * Call onUpdate when the patient's data changes in the EHR
+ * Events without a patient, sent when notifications were lost, count as an update for every patient
+ */
+export function usePatientUpdates(
+  patientId: string | undefined,
+  onUpdate: (event: AidenWebSocketEvent) => void,
+  options: UsePatientUpdatesOptions = {},
+) {
+  const { enabled = true, debounceMs = 500 } = options
+  const [lastUpdate, setLastUpdate] = useState<AidenWebSocketEvent | null>(null)
+
+  const onUpdateRef = useRef(onUpdate)
+  onUpdateRef.current = onUpdate
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  const { isConnected } = useAidenWebSocket({
+    subscriptions: SUBSCRIPTIONS,
+    autoConnect: enabled && !!patientId,
+    showToasts: false,
+    onMessage: (event) => {
+      if (event.event_type !== AidenWebSocketEventType.PATIENT_UPDATE) return
+
+      const eventPatientId = getAidenEventPatientId(event)
+      if (eventPatientId && eventPatientId !== patientId) return
+
+      if (timerRef.current) clearTimeout(timerRef.current)
+      timerRef.current = setTimeout(() => {
+        timerRef.current = null
+        setLastUpdate(event)
+        onUpdateRef.current(event)
+      }, debounceMs)
+    },
+  })
+
+  useEffect(
+    () => () => {
+      if (timerRef.current) clearTimeout(timerRef.current)
+    },
+    [patientId],
+  )
+
+  return { isLive: enabled && !!patientId && isConnected, lastUpdate }
+}
@@ -0,0 +1,79 @@
+"use client"
+
+/**
+ * Hook for a patient's pharmacogenomic reports and VCF uploads
+ */
+
+import { useState, useEffect, useCallback } from "react"
+import type { PgxReport } from "@/lib/genomics/pgx/types"
+
+async function requestJson<T>(url: string, init: RequestInit | undefined, failureMessage: string): Promise<T> {
+  const response = await fetch(url, { ...init, headers: { "Content-Type": "application/json" } })
+
+  if (!response.ok) {
+    const errorData = await response.json()
+    throw new Error(errorData.error?.message || failureMessage)
+  }
+
+  return response.json()
+}
+
+export interface PgxUpload {
+  data: string
+  encoding?: "base64"
+  sample?: string
+  file_name?: string
+}
+
+/**
+ * Hook for the PGx reports of one patient, newest first; report is the current one
+ */
+export function usePgxReports(patientId: string) {
+  const [reports, setReports] = useState<PgxReport[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  const refresh = useCallback(async () => {
+    if (!patientId) return
+
+    try {
+      const result = await requestJson<{ reports: PgxReport[] }>(
+        `/api/genomics/pgx?patient_id=${encodeURIComponent(patientId)}`,
+        undefined,
+        "Failed to load pharmacogenomic reports",
+      )
+      setReports(result.reports)
+      setError(null)
+    } catch (error) {
+      setError(error instanceof Error ? error : new Error("Unknown error"))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [patientId])
+
+  const upload = useCallback(
+    async (file: PgxUpload) => {
+      const report = await requestJson<PgxReport>(
+        "/api/genomics/pgx",
+        { method: "POST", body: JSON.stringify({ ...file, patient_id: patientId }) },
+        "Failed to call the pharmacogenomic results",
+      )
+      setReports((current) => [report, ...current])
+      return report
+    },
+    [patientId],
+  )
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  return {
+    report: reports[0] || null,
+    reports,
+    isLoading,
+    error,
+    refresh,
+    upload,
+  }
+}
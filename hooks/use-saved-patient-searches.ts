@@ -0,0 +1,100 @@
+"use client"
+
+/**
+ * Hook for the user's saved patient searches and the searches others shared
+ */
+
+import { useState, useEffect, useCallback } from "react"
+import type { SavedPatientSearchView } from "@/lib/fhir/saved-searches"
+
+interface SavedSearchChanges {
+  name?: string
+  query?: string
+  shared?: boolean
+}
+
+async function requestJson<T>(url: string, init: RequestInit | undefined, failureMessage: string): Promise<T> {
+  const response = await fetch(url, { ...init, headers: { "Content-Type": "application/json" } })
+
+  if (!response.ok) {
+    const errorData = await response.json()
+    throw new Error(errorData.message || failureMessage)
+  }
+
+  return response.status === 204 ? (undefined as T) : response.json()
+}
+
+/**
+ * Hook for saved patient searches, sorted by name
+ */
+export function useSavedPatientSearches() {
+  const [searches, setSearches] = useState<SavedPatientSearchView[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  const refresh = useCallback(async () => {
+    try {
+      const data = await requestJson<{ searches: SavedPatientSearchView[] }>(
+        "/api/fhir/saved-searches",
+        undefined,
+        "Failed to load saved searches",
+      )
+      setSearches(data.searches)
+      setError(null)
+    } catch (error) {
+      setError(error instanceof Error ? error : new Error("Unknown error"))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  const applySearch = useCallback((search: SavedPatientSearchView) => {
+    setSearches((current) =>
+      [...current.filter((item) => item.id !== search.id), search].sort((a, b) => a.name.localeCompare(b.name)),
+    )
+    return search
+  }, [])
+
+  const saveSearch = useCallback(
+    async (name: string, query: string, shared = false) =>
+      applySearch(
+        await requestJson<SavedPatientSearchView>(
+          "/api/fhir/saved-searches",
+          { method: "POST", body: JSON.stringify({ name, query, shared }) },
+          "Failed to save search",
+        ),
+      ),
+    [applySearch],
+  )
+
+  const updateSearch = useCallback(
+    async (searchId: string, changes: SavedSearchChanges) =>
+      applySearch(
+        await requestJson<SavedPatientSearchView>(
+          `/api/fhir/saved-searches/${searchId}`,
+          { method: "PATCH", body: JSON.stringify(changes) },
+          "Failed to update saved search",
+        ),
+      ),
+    [applySearch],
+  )
+
+  const deleteSearch = useCallback(async (searchId: string) => {
+    await requestJson<void>(`/api/fhir/saved-searches/${searchId}`, { method: "DELETE" }, "Failed to delete search")
+    setSearches((current) => current.filter((item) => item.id !== searchId))
+  }, [])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  return {
+    searches,
+    isLoading,
+    error,
+    refresh,
+    saveSearch,
+    updateSearch,
+    deleteSearch,
+  }
+}
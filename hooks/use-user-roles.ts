@@ -2,12 +2,24 @@
 
 import { useEffect, useState } from "react"
 import { getSupabaseClient } from "@/lib/supabase/client"
-import { type UserRole, getCurrentUserRoles, getCurrentUserPrimaryRole } from "@/lib/auth/role-management"
+import { RoleType } from "@/lib/auth/permissions"
 import { logger } from "@/lib/logging/enhanced-logger"
 
+/** Roles from most to least privileged; the first one a user holds is their primary role */
+const ROLE_PRECEDENCE: string[] = Object.values(RoleType)
+
+const precedence = (role: string) => {
+  const rank = ROLE_PRECEDENCE.indexOf(role)
+  return rank === -1 ? ROLE_PRECEDENCE.length : rank
+}
+
+/**
+ * Role names of the signed-in user, read from user_roles as the server does for its permission checks
+ * Without Supabase configured there is no signed-in user and no roles.
+ */
 export function useUserRoles() {
-  const [roles, setRoles] = useState<UserRole[]>([])
-  const [primaryRole, setPrimaryRole] = useState<UserRole | null>(null)
+  const [roles, setRoles] = useState<string[]>([])
+  const [primaryRole, setPrimaryRole] = useState<string | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<Error | null>(null)
 
@@ -15,14 +27,22 @@ export function useUserRoles() {
     async function loadUserRoles() {
       try {
         setIsLoading(true)
+        if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) return
+
         const supabase = getSupabaseClient()
+        const {
+          data: { user },
+        } = await supabase.auth.getUser()
 
-        // Get user roles from JWT claims
-        const userRoles = await getCurrentUserRoles(supabase)
-        const primaryRole = await getCurrentUserPrimaryRole(supabase)
+        let names: string[] = []
+        if (user) {
+          const { data, error: rolesError } = await supabase.from("user_roles").select("role").eq("user_id", user.id)
+          if (rolesError) throw new Error(rolesError.message)
+          names = (data || []).map((row: { role: string }) => row.role)
+        }
 
-        setRoles(userRoles)
-        setPrimaryRole(primaryRole)
+        setRoles(names)
+        setPrimaryRole([...names].sort((a, b) => precedence(a) - precedence(b))[0] ?? null)
         setError(null)
       } catch (err) {
         logger.error("Error loading user roles", {
@@ -42,7 +62,7 @@ export function useUserRoles() {
    * @param role - The role to check
    * @returns Boolean indicating if user has the role
    */
-  const hasRole = (role: UserRole): boolean => {
+  const hasRole = (role: RoleType | string): boolean => {
     return roles.includes(role)
   }
 
@@ -51,7 +71,7 @@ export function useUserRoles() {
    * @param requiredRoles - Array of roles to check
    * @returns Boolean indicating if user has any of the roles
    */
-  const hasAnyRole = (requiredRoles: UserRole[]): boolean => {
+  const hasAnyRole = (requiredRoles: Array<RoleType | string>): boolean => {
     return requiredRoles.some((role) => roles.includes(role))
   }
 
@@ -60,7 +80,7 @@ export function useUserRoles() {
    * @param requiredRoles - Array of roles to check
    * @returns Boolean indicating if user has all of the roles
    */
-  const hasAllRoles = (requiredRoles: UserRole[]): boolean => {
+  const hasAllRoles = (requiredRoles: Array<RoleType | string>): boolean => {
     return requiredRoles.every((role) => roles.includes(role))
   }
 
@@ -0,0 +1,81 @@
+"use client"
+
+/**
+ * Hook for a variant's ACMG/AMP classification and curator overrides of its criteria
+ */
+
+import { useState, useEffect, useCallback } from "react"
+import type { AcmgCriterion, EvidenceStrength } from "@/lib/genomics/acmg"
+import type { VariantClassificationRecord } from "@/lib/genomics/classification-store"
+
+async function requestJson<T>(url: string, init: RequestInit | undefined, failureMessage: string): Promise<T> {
+  const response = await fetch(url, { ...init, headers: { "Content-Type": "application/json" } })
+
+  if (!response.ok) {
+    const errorData = await response.json()
+    throw new Error(errorData.error?.message || failureMessage)
+  }
+
+  return response.json()
+}
+
+export interface CriterionOverrideInput {
+  criterion: AcmgCriterion
+  /** null hands the criterion back to automatic evaluation */
+  met: boolean | null
+  strength: EvidenceStrength | null
+  justification: string
+}
+
+/**
+ * Hook for the stored classification of one variant; pass null for variants that were never classified
+ */
+export function useVariantClassification(variantId: string | null) {
+  const [record, setRecord] = useState<VariantClassificationRecord | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<Error | null>(null)
+
+  useEffect(() => {
+    setRecord(null)
+    setError(null)
+    if (!variantId) return
+
+    let cancelled = false
+    setIsLoading(true)
+
+    requestJson<VariantClassificationRecord>(
+      `/api/genomics/classifications/${encodeURIComponent(variantId)}`,
+      undefined,
+      "Failed to load the variant classification",
+    )
+      .then((loaded) => !cancelled && setRecord(loaded))
+      .catch((error) => !cancelled && setError(error instanceof Error ? error : new Error("Unknown error")))
+      .finally(() => !cancelled && setIsLoading(false))
+
+    return () => {
+      cancelled = true
+    }
+  }, [variantId])
+
+  const overrideCriterion = useCallback(
+    async (input: CriterionOverrideInput) => {
+      if (!variantId) throw new Error("The variant has not been classified")
+
+      const updated = await requestJson<VariantClassificationRecord>(
+        `/api/genomics/classifications/${encodeURIComponent(variantId)}/overrides`,
+        { method: "POST", body: JSON.stringify(input) },
+        "Failed to override the criterion",
+      )
+      setRecord(updated)
+      return updated
+    },
+    [variantId],
+  )
+
+  return {
+    record,
+    isLoading,
+    error,
+    overrideCriterion,
+  }
+}
@@ -0,0 +1,134 @@
+"use client"
+
+/**
+ * Hooks for reported variants, the re-contact tasks their reclassifications raise and each variant's evolution
+ */
+
+import { useState, useEffect, useCallback } from "react"
+import type { ReclassificationScan, VariantEvolution } from "@/lib/genomics/reclassification"
+import type { PatientVariantRecord, RecontactTask } from "@/lib/genomics/reclassification-store"
+
+async function requestJson<T>(url: string, init: RequestInit | undefined, failureMessage: string): Promise<T> {
+  const response = await fetch(url, { ...init, headers: { "Content-Type": "application/json" } })
+
+  if (!response.ok) {
+    const errorData = await response.json()
+    throw new Error(errorData.error?.message || failureMessage)
+  }
+
+  return response.json()
+}
+
+export interface RecontactResolution {
+  status: "contacted" | "dismissed"
+  note?: string
+}
+
+/**
+ * Hook for the tracked patient variants and their re-contact tasks
+ */
+export function useVariantReclassification() {
+  const [patientVariants, setPatientVariants] = useState<PatientVariantRecord[]>([])
+  const [tasks, setTasks] = useState<RecontactTask[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  const refresh = useCallback(async () => {
+    try {
+      const [variantList, taskList] = await Promise.all([
+        requestJson<{ variants: PatientVariantRecord[] }>(
+          "/api/genomics/patient-variants",
+          undefined,
+          "Failed to load reported variants",
+        ),
+        requestJson<{ tasks: RecontactTask[] }>(
+          "/api/genomics/reclassification/tasks",
+          undefined,
+          "Failed to load re-contact tasks",
+        ),
+      ])
+      setPatientVariants(variantList.variants)
+      setTasks(taskList.tasks)
+      setError(null)
+    } catch (error) {
+      setError(error instanceof Error ? error : new Error("Unknown error"))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  const scan = useCallback(async () => {
+    const result = await requestJson<ReclassificationScan>(
+      "/api/genomics/reclassification/scan",
+      { method: "POST" },
+      "Failed to check for reclassified variants",
+    )
+    await refresh()
+    return result
+  }, [refresh])
+
+  const resolveTask = useCallback(
+    async (taskId: string, resolution: RecontactResolution) => {
+      const task = await requestJson<RecontactTask>(
+        `/api/genomics/reclassification/tasks/${taskId}`,
+        { method: "POST", body: JSON.stringify(resolution) },
+        "Failed to resolve the re-contact task",
+      )
+      setTasks((current) => current.map((item) => (item.id === task.id ? task : item)))
+      return task
+    },
+    [],
+  )
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  return {
+    patientVariants,
+    tasks,
+    isLoading,
+    error,
+    refresh,
+    scan,
+    resolveTask,
+  }
+}
+
+/**
+ * Hook for the classification versions of one variant; pass null when no variant is selected
+ * Bump revision to reload it, e.g. after a scan or a resolved task.
+ */
+export function useVariantEvolution(variantId: string | null, revision = 0) {
+  const [evolution, setEvolution] = useState<VariantEvolution | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<Error | null>(null)
+
+  useEffect(() => {
+    setEvolution(null)
+    setError(null)
+    if (!variantId) return
+
+    let cancelled = false
+    setIsLoading(true)
+
+    requestJson<VariantEvolution>(
+      `/api/genomics/classifications/${encodeURIComponent(variantId)}/versions`,
+      undefined,
+      "Failed to load the variant evolution",
+    )
+      .then((loaded) => !cancelled && setEvolution(loaded))
+      .catch((error) => !cancelled && setError(error instanceof Error ? error : new Error("Unknown error")))
+      .finally(() => !cancelled && setIsLoading(false))
+
+    return () => {
+      cancelled = true
+    }
+  }, [variantId, revision])
+
+  return {
+    evolution,
+    isLoading,
+    error,
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Genomic enrichment types shared by the uploader and the enrichment service
+ * The service itself reads snapshot files and lives in ./service, which only server code may import.
+ */
+
+import type { VcfLineError } from "@/lib/genomics/vcf-parser"
+import type { EnrichedVariant, KnowledgeSource, SnapshotProvenance } from "@/lib/genomics/knowledge/types"
+
+export { KnowledgeSource } from "@/lib/genomics/knowledge/types"
+export type {
+  ClinVarAnnotation,
+  EnrichedVariant,
+  PopulationAnnotation,
+  SnapshotProvenance,
+  TranscriptAnnotation,
+  VariantAnnotations,
+} from "@/lib/genomics/knowledge/types"
+
+export type GenomicUploadFormat = "vcf" | "beaker" | "json" | "cnv"
+
+export interface GenomicEnrichmentRequest {
+  data?: unknown
+  /** "base64" for compressed VCFs */
+  encoding?: unknown
+  format?: unknown
+  sources?: unknown
+}
+
+export interface EnrichmentSourceReport {
+  source: KnowledgeSource
+  status: "applied" | "unavailable"
+  provenance: SnapshotProvenance | null
+  /** Variants the source had something to say about */
+  annotatedCount: number
+  message?: string
+}
+
+export interface GenomicEnrichmentResult {
+  format: GenomicUploadFormat
+  /** Sample names of a VCF upload or segment table */
+  samples: string[]
+  variants: EnrichedVariant[]
+  variantCount: number
+  /** Variants at least one source annotated */
+  enrichedVariantCount: number
+  sources: EnrichmentSourceReport[]
+  recordCount: number
+  errors: VcfLineError[]
+  errorCount: number
+  enriched_at: string
+}
@@ -0,0 +1,281 @@
+/**
+ * Genomic enrichment
+ * Annotates uploaded variants from local knowledge source snapshots: clinical significance from ClinVar, population
+ * frequency from gnomAD and gene and transcript consequence from Ensembl gene models. Each source is an adapter, so
+ * sources can be added without changing the pipeline, and the result names the snapshot behind every annotation.
+ * The annotations are then classified under the ACMG/AMP rules, kept beside the significance ClinVar asserts.
+ */
+
+import type { GenomicVariant } from "@/lib/genomics/types"
+import type { CodonVariant } from "@/lib/genomics/acmg"
+import type { GeneModelIndex } from "@/lib/genomics/gene-model"
+import { InMemoryVariantClassificationStore } from "@/lib/genomics/classification-store"
+import { VariantClassificationService, getVariantClassificationService } from "@/lib/genomics/variant-classification"
+import { parseVcf } from "@/lib/genomics/vcf-parser"
+import { pairBreakends, toGenomicVariant, variantKey } from "@/lib/genomics/vcf-variants"
+import { parseBeakerReport, parseCnvSegments, parseVariantJson } from "@/lib/genomics/variant-uploads"
+import { ClinVarAdapter } from "@/lib/genomics/knowledge/clinvar"
+import { EnsemblAdapter } from "@/lib/genomics/knowledge/ensembl"
+import { GnomadAdapter } from "@/lib/genomics/knowledge/gnomad"
+import { snapshotDirectory } from "@/lib/genomics/knowledge/snapshot"
+import {
+  KnowledgeSource,
+  type EnrichedVariant,
+  type KnowledgeSourceAdapter,
+  type VariantAnnotations,
+} from "@/lib/genomics/knowledge/types"
+import type {
+  EnrichmentSourceReport,
+  GenomicEnrichmentRequest,
+  GenomicEnrichmentResult,
+  GenomicUploadFormat,
+} from "@/lib/agent/services/genomic-enrichment"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+export class GenomicEnrichmentError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode = 400,
+  ) {
+    super(message)
+    this.name = "GenomicEnrichmentError"
+  }
+}
+
+const FORMATS: GenomicUploadFormat[] = ["vcf", "beaker", "json", "cnv"]
+
+/** Variants read from one upload; larger VCFs are cut off with a line error */
+const MAX_VARIANTS = 50000
+
+/**
+ * Default adapters, one per knowledge source, reading from the snapshot directory
+ */
+export function createSnapshotAdapters(directory: () => string = snapshotDirectory): KnowledgeSourceAdapter[] {
+  return [new ClinVarAdapter(directory), new GnomadAdapter(directory), new EnsemblAdapter(directory)]
+}
+
+function parseSources(value: unknown): KnowledgeSource[] {
+  if (value === undefined) return Object.values(KnowledgeSource)
+
+  const known = Object.values(KnowledgeSource) as string[]
+  if (!Array.isArray(value) || value.some((source) => !known.includes(source))) {
+    throw new GenomicEnrichmentError(`sources must be a list of ${known.join(", ")}`)
+  }
+  if (value.length === 0) throw new GenomicEnrichmentError("Choose at least one knowledge source")
+
+  return [...new Set(value as KnowledgeSource[])]
+}
+
+export class GenomicEnrichmentService {
+  constructor(
+    private readonly adapters: KnowledgeSourceAdapter[],
+    private readonly classifications = new VariantClassificationService(new InMemoryVariantClassificationStore()),
+  ) {}
+
+  /**
+   * Load the selected sources' snapshots; a missing or unreadable snapshot leaves its source unavailable
+   */
+  async snapshots(sources: KnowledgeSource[] = Object.values(KnowledgeSource)): Promise<EnrichmentSourceReport[]> {
+    return Promise.all(
+      sources.map(async (source): Promise<EnrichmentSourceReport> => {
+        const adapter = this.adapters.find((candidate) => candidate.source === source)
+        if (!adapter) {
+          return { source, status: "unavailable", provenance: null, annotatedCount: 0, message: "No adapter" }
+        }
+
+        try {
+          const provenance = await adapter.load()
+          return provenance
+            ? { source, status: "applied", provenance, annotatedCount: 0 }
+            : {
+                source,
+                status: "unavailable",
+                provenance: null,
+                annotatedCount: 0,
+                message: "No snapshot is installed",
+              }
+        } catch (error) {
+          const message = error instanceof Error ? error.message : "Unknown error"
+          logger.warn("Knowledge source snapshot could not be loaded", { source, error: message })
+          return {
+            source,
+            status: "unavailable",
+            provenance: null,
+            annotatedCount: 0,
+            message: `The snapshot could not be read: ${message}`,
+          }
+        }
+      }),
+    )
+  }
+
+  /**
+   * Gene models of the Ensembl snapshot, or null when none is installed
+   */
+  async geneModels(): Promise<GeneModelIndex | null> {
+    const ensembl = this.adapters.find((adapter): adapter is EnsemblAdapter => adapter instanceof EnsemblAdapter)
+    if (!ensembl) return null
+
+    await ensembl.load()
+    return ensembl.geneModels
+  }
+
+  /**
+   * Annotate variants from the selected sources and classify them
+   * ClinVar sets the significance, gnomAD the frequency and Ensembl the gene, consequence and HGVS; fields a source
+   * has nothing for keep the uploaded value. The ACMG/AMP tier the annotations support is the variant's classification.
+   */
+  async enrich(
+    variants: GenomicVariant[],
+    sources: KnowledgeSource[] = Object.values(KnowledgeSource),
+    now = new Date(),
+  ) {
+    const reports = await this.snapshots(sources)
+    const applied = this.adapters.filter((adapter) =>
+      reports.some((report) => report.source === adapter.source && report.status === "applied"),
+    )
+
+    const annotated = variants.map((variant): EnrichedVariant => {
+      const annotations: VariantAnnotations = {}
+      for (const adapter of applied) {
+        const annotation = adapter.annotate(variant)
+        if (!annotation) continue
+
+        Object.assign(annotations, { [adapter.source]: annotation })
+        reports.find((report) => report.source === adapter.source)!.annotatedCount++
+      }
+
+      const { clinvar, gnomad, ensembl } = annotations
+      return {
+        ...variant,
+        gene: ensembl?.gene || variant.gene || clinvar?.gene || "",
+        consequence: ensembl?.consequence || variant.consequence,
+        significance: clinvar?.significance ?? variant.significance,
+        frequency: gnomad?.af ?? variant.frequency,
+        hgvs: ensembl?.hgvs_c || variant.hgvs,
+        annotations,
+      }
+    })
+
+    const snapshots = Object.fromEntries(
+      reports
+        .filter((report) => report.status === "applied")
+        .map((report) => [report.source, report.provenance?.version ?? null]),
+    )
+    const appliedSources = applied.map((adapter) => adapter.source)
+    const enriched = await this.classifications.classify(
+      annotated.map((variant) => ({
+        variant,
+        evidence: { sources: appliedSources, codonVariants: this.codonVariants(variant, applied) },
+        snapshots,
+      })),
+      now,
+    )
+
+    return {
+      variants: enriched,
+      enrichedVariantCount: enriched.filter((variant) => Object.keys(variant.annotations).length > 0).length,
+      sources: reports,
+    }
+  }
+
+  /**
+   * Read an upload in any supported format and enrich its variants
+   */
+  async enrichUpload(request: GenomicEnrichmentRequest, now = new Date()): Promise<GenomicEnrichmentResult> {
+    const format = (request.format ?? "vcf") as GenomicUploadFormat
+    if (!FORMATS.includes(format)) throw new GenomicEnrichmentError(`format must be one of ${FORMATS.join(", ")}`)
+    if (typeof request.data !== "string" || !request.data.trim()) {
+      throw new GenomicEnrichmentError("data must hold the uploaded file")
+    }
+    if (request.encoding !== undefined && request.encoding !== "base64") {
+      throw new GenomicEnrichmentError('encoding must be "base64" when given')
+    }
+
+    const sources = parseSources(request.sources)
+    const upload = await this.readUpload(format, request.data, request.encoding === "base64")
+    const { variants, enrichedVariantCount, sources: reports } = await this.enrich(upload.variants, sources, now)
+
+    if (reports.every((report) => report.status === "unavailable")) {
+      throw new GenomicEnrichmentError(
+        `None of the selected knowledge sources is available: ${reports
+          .map((report) => `${report.source} (${report.message})`)
+          .join("; ")}`,
+        503,
+      )
+    }
+
+    return {
+      format,
+      samples: upload.samples,
+      variants,
+      variantCount: variants.length,
+      enrichedVariantCount,
+      sources: reports,
+      recordCount: upload.recordCount,
+      errors: upload.errors,
+      errorCount: upload.errorCount,
+      enriched_at: now.toISOString(),
+    }
+  }
+
+  /**
+   * Other ClinVar variants changing the same codon of the variant's transcript, for PS1 and PM5
+   * Codons split by an intron are only matched on the bases in the variant's exon.
+   */
+  private codonVariants(variant: EnrichedVariant, applied: KnowledgeSourceAdapter[]): CodonVariant[] {
+    const clinvar = applied.find((adapter): adapter is ClinVarAdapter => adapter instanceof ClinVarAdapter)
+    const ensembl = applied.find((adapter): adapter is EnsemblAdapter => adapter instanceof EnsemblAdapter)
+    const transcript = variant.annotations.ensembl
+    if (!clinvar || !ensembl || transcript?.consequence !== "missense_variant") return []
+
+    const key = variantKey(variant)
+    return clinvar.near(variant.chromosome, variant.position - 2, variant.position + 2).flatMap((record) => {
+      const effect = record.id !== key && ensembl.annotateOn(transcript.transcript_id, record)
+      if (
+        !effect ||
+        effect.consequence !== "missense_variant" ||
+        effect.protein_position !== transcript.protein_position ||
+        !effect.amino_acids
+      ) {
+        return []
+      }
+
+      const { significance, stars } = record.annotation
+      return [{ id: record.id, hgvs_p: effect.hgvs_p, amino_acid: effect.amino_acids[1], significance, stars }]
+    })
+  }
+
+  private async readUpload(format: GenomicUploadFormat, data: string, base64: boolean) {
+    const text = () => (base64 ? Buffer.from(data, "base64").toString("utf8") : data)
+
+    if (format === "beaker") return { ...parseBeakerReport(text()), samples: [] }
+    if (format === "json") return { ...parseVariantJson(text()), samples: [] }
+    if (format === "cnv") return parseCnvSegments(text())
+
+    const result = await parseVcf(base64 ? Buffer.from(data, "base64") : data, { maxVariants: MAX_VARIANTS })
+    return {
+      variants: pairBreakends(result.variants.map((variant) => toGenomicVariant(variant, result.header))),
+      samples: result.header.samples,
+      recordCount: result.recordCount,
+      errors: result.errors,
+      errorCount: result.errorCount,
+    }
+  }
+}
+
+const globalForEnrichment = globalThis as unknown as { genomicEnrichmentService?: GenomicEnrichmentService }
+
+/**
+ * Shared enrichment service; adapters keep their snapshots loaded between requests
+ */
+export function getGenomicEnrichmentService(): GenomicEnrichmentService {
+  if (!globalForEnrichment.genomicEnrichmentService) {
+    globalForEnrichment.genomicEnrichmentService = new GenomicEnrichmentService(
+      createSnapshotAdapters(),
+      getVariantClassificationService(),
+    )
+  }
+
+  return globalForEnrichment.genomicEnrichmentService
+}
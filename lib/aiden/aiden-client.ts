@@ -0,0 +1,204 @@
+/**
+ * AIDEN task types and wire formats
+ * Shared by the task API routes, the server-side task engine and the client hooks
+ */
+
+export enum AidenTaskType {
+  CLINICAL_SUMMARY = "clinical_summary",
+  RISK_ASSESSMENT = "risk_assessment",
+  GENOMIC_ENRICHMENT = "genomic_enrichment",
+  VARIANT_INTERPRETATION = "variant_interpretation",
+  LAB_ANALYSIS = "lab_analysis",
+  PRESENTATION_GENERATION = "presentation_generation",
+}
+
+export enum AidenTaskStatus {
+  QUEUED = "queued",
+  PROCESSING = "processing",
+  COMPLETED = "completed",
+  FAILED = "failed",
+  CANCELLED = "cancelled",
+}
+
+export enum AidenTaskPriority {
+  LOW = "low",
+  NORMAL = "normal",
+  HIGH = "high",
+  CRITICAL = "critical",
+}
+
+/**
+ * Scheduling rank for each priority, higher runs first
+ */
+export const AIDEN_TASK_PRIORITY_RANK: Record<AidenTaskPriority, number> = {
+  [AidenTaskPriority.LOW]: 0,
+  [AidenTaskPriority.NORMAL]: 1,
+  [AidenTaskPriority.HIGH]: 2,
+  [AidenTaskPriority.CRITICAL]: 3,
+}
+
+/**
+ * Statuses a task can no longer leave
+ */
+export const AIDEN_TERMINAL_STATUSES: AidenTaskStatus[] = [
+  AidenTaskStatus.COMPLETED,
+  AidenTaskStatus.FAILED,
+  AidenTaskStatus.CANCELLED,
+]
+
+export function isTerminalStatus(status: AidenTaskStatus | null | undefined): boolean {
+  return !!status && AIDEN_TERMINAL_STATUSES.includes(status)
+}
+
+export interface AidenTaskHistoryEntry {
+  status: AidenTaskStatus
+  timestamp: string
+  attempt?: number
+  message?: string
+}
+
+export interface AidenTaskProgress {
+  percent: number
+  stage: string | null
+  eta_seconds: number | null
+  updated_at: string
+}
+
+export interface AidenTask<TPayload = any, TResult = any> {
+  task_id: string
+  task_type: AidenTaskType
+  status: AidenTaskStatus
+  priority: AidenTaskPriority
+  payload: TPayload
+  metadata: Record<string, any>
+  result: TResult | null
+  error: string | null
+  user_id: string | null
+  attempts: number
+  max_attempts: number
+  progress: AidenTaskProgress | null
+  created_at: string
+  updated_at: string
+  started_at: string | null
+  completed_at: string | null
+  history: AidenTaskHistoryEntry[]
+}
+
+export interface AidenTaskSubmission<TPayload = any> {
+  task_type: AidenTaskType
+  payload: TPayload
+  priority?: AidenTaskPriority
+  metadata?: Record<string, any>
+  user_id?: string | null
+  max_attempts?: number
+}
+
+export interface AidenTaskStatusResponse {
+  task_id: string
+  task_type: AidenTaskType
+  status: AidenTaskStatus
+  priority: AidenTaskPriority
+  error: string | null
+  attempts: number
+  max_attempts: number
+  progress: AidenTaskProgress | null
+  created_at: string
+  updated_at: string
+  started_at: string | null
+  completed_at: string | null
+}
+
+export interface AidenTaskResultResponse<TResult = any> {
+  task_id: string
+  status: AidenTaskStatus
+  result: TResult | null
+}
+
+/**
+ * Project a task record onto the status endpoint payload
+ */
+export function toTaskStatusResponse(task: AidenTask): AidenTaskStatusResponse {
+  return {
+    task_id: task.task_id,
+    task_type: task.task_type,
+    status: task.status,
+    priority: task.priority,
+    error: task.error,
+    attempts: task.attempts,
+    max_attempts: task.max_attempts,
+    progress: task.progress,
+    created_at: task.created_at,
+    updated_at: task.updated_at,
+    started_at: task.started_at,
+    completed_at: task.completed_at,
+  }
+}
+
+export enum AidenWorkflowStatus {
+  RUNNING = "running",
+  COMPLETED = "completed",
+  PARTIALLY_COMPLETED = "partially_completed",
+  FAILED = "failed",
+  CANCELLED = "cancelled",
+}
+
+export enum AidenWorkflowStepStatus {
+  PENDING = "pending",
+  QUEUED = "queued",
+  PROCESSING = "processing",
+  COMPLETED = "completed",
+  FAILED = "failed",
+  CANCELLED = "cancelled",
+  SKIPPED = "skipped",
+}
+
+/**
+ * What to do with the rest of a workflow when a step fails
+ * - fail_fast cancels running steps and skips everything not yet started
+ * - continue only skips steps that depend on the failed one
+ */
+export type AidenWorkflowFailurePolicy = "fail_fast" | "continue"
+
+export interface AidenWorkflowStepDefinition {
+  id: string
+  task_type: AidenTaskType
+  payload?: Record<string, any>
+  depends_on?: string[]
+  priority?: AidenTaskPriority
+  /**
+   * Payload fields filled from upstream results, as "stepId" or "stepId.path.to.field"
+   */
+  inputs?: Record<string, string>
+}
+
+export interface AidenWorkflowDefinition {
+  name: string
+  description?: string
+  failure_policy?: AidenWorkflowFailurePolicy
+  steps: AidenWorkflowStepDefinition[]
+}
+
+export interface AidenWorkflowStepRun {
+  step_id: string
+  task_type: AidenTaskType
+  depends_on: string[]
+  status: AidenWorkflowStepStatus
+  task_id: string | null
+  error: string | null
+  started_at: string | null
+  completed_at: string | null
+}
+
+export interface AidenWorkflowRun {
+  run_id: string
+  name: string
+  description: string | null
+  status: AidenWorkflowStatus
+  failure_policy: AidenWorkflowFailurePolicy
+  definition: AidenWorkflowDefinition
+  steps: AidenWorkflowStepRun[]
+  user_id: string | null
+  created_at: string
+  updated_at: string
+  completed_at: string | null
+}
@@ -0,0 +1,105 @@
+/**
+ * AIDEN event bus
+ * In-process publish/subscribe channel that server-side producers use to emit AIDEN WebSocket events.
+ * Every event gets a sequence number and recent events are kept so reconnecting clients can catch up.
+ */
+
+import { getAidenEventHistory } from "@/lib/aiden/event-history"
+import type { AidenWebSocketEvent, AidenWebSocketEventType } from "@/lib/aiden/aiden-websocket"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+export type AidenEventListener = (event: AidenWebSocketEvent) => void
+
+export interface AidenEventReplay {
+  events: AidenWebSocketEvent[]
+  /** False when some requested events have already left the buffer */
+  complete: boolean
+}
+
+const DEFAULT_REPLAY_BUFFER_SIZE = 1000
+
+export class AidenEventBus {
+  private listeners = new Set<AidenEventListener>()
+  private buffer: AidenWebSocketEvent[] = []
+  private sequence = 0
+
+  constructor(private readonly bufferSize = DEFAULT_REPLAY_BUFFER_SIZE) {}
+
+  publish<TPayload = any>(
+    eventType: AidenWebSocketEventType,
+    payload: TPayload,
+    metadata?: Record<string, any>,
+  ): AidenWebSocketEvent<TPayload> {
+    const event: AidenWebSocketEvent<TPayload> = {
+      event_id: crypto.randomUUID(),
+      event_type: eventType,
+      timestamp: new Date().toISOString(),
+      payload,
+      metadata,
+      sequence: ++this.sequence,
+    }
+
+    this.buffer.push(event)
+    if (this.buffer.length > this.bufferSize) {
+      this.buffer.shift()
+    }
+
+    this.listeners.forEach((listener) => {
+      try {
+        listener(event)
+      } catch (error) {
+        logger.error("AIDEN event listener failed", {
+          eventType,
+          error: error instanceof Error ? error.message : "Unknown error",
+        })
+      }
+    })
+
+    return event
+  }
+
+  /**
+   * Listen to every published event, returns the unsubscribe function
+   */
+  subscribe(listener: AidenEventListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Sequence number of the most recently published event
+   */
+  getSequence(): number {
+    return this.sequence
+  }
+
+  /**
+   * Buffered events published after the given sequence number
+   * A sequence ahead of ours means the client saw a previous server process, so everything buffered is replayed
+   */
+  getEventsSince(sequence: number): AidenEventReplay {
+    if (sequence > this.sequence) {
+      return { events: [...this.buffer], complete: false }
+    }
+
+    const oldest = this.buffer[0]?.sequence ?? this.sequence + 1
+
+    return {
+      events: this.buffer.filter((event) => event.sequence! > sequence),
+      complete: oldest <= sequence + 1,
+    }
+  }
+}
+
+const globalForAiden = globalThis as unknown as { aidenEventBus?: AidenEventBus }
+
+export function getAidenEventBus(): AidenEventBus {
+  if (!globalForAiden.aidenEventBus) {
+    globalForAiden.aidenEventBus = new AidenEventBus(Number(process.env.AIDEN_EVENT_BUFFER_SIZE) || undefined)
+    getAidenEventHistory().attach(globalForAiden.aidenEventBus)
+  }
+
+  return globalForAiden.aidenEventBus
+}
@@ -0,0 +1,268 @@
+/**
+ * AIDEN WebSocket server
+ * Streams event bus events to browsers that subscribed to them and are allowed to see them,
+ * replaying anything published while a client was reconnecting
+ */
+
+import type { IncomingMessage } from "node:http"
+import type { Duplex } from "node:stream"
+import { WebSocket, WebSocketServer, type RawData } from "ws"
+import { getAidenEventBus, type AidenEventBus } from "@/lib/aiden/aiden-events"
+import { canReceiveAidenEvent } from "@/lib/aiden/event-access"
+import {
+  AIDEN_WEBSOCKET_PATH,
+  AidenWebSocketCloseCode,
+  AidenWebSocketEventType,
+  type AidenWebSocketClientMessage,
+  type AidenWebSocketEvent,
+  type AidenWebSocketServerMessage,
+} from "@/lib/aiden/aiden-websocket"
+import { getSessionUserFromCookieHeader, isSupabaseConfigured, type SessionUser } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+export interface AidenWebSocketServerOptions {
+  events?: AidenEventBus
+  /** Resolve the user behind an upgrade request, null rejects the connection */
+  authenticate?: (request: IncomingMessage) => Promise<SessionUser | null>
+  /** Whether connections without a user are rejected */
+  requireAuth?: boolean
+  heartbeatInterval?: number
+}
+
+interface AidenSocketSession {
+  socket: WebSocket
+  user: SessionUser | null
+  subscriptions: Set<string>
+  isAlive: boolean
+}
+
+const ALL_EVENT_TYPES = Object.values(AidenWebSocketEventType) as string[]
+const CLIENT_MESSAGE_TYPES: string[] = ["subscribe", "unsubscribe", "resume", "ping"]
+
+/**
+ * The type field of a parsed message, if it has one
+ */
+function messageType(message: unknown): unknown {
+  return typeof message === "object" && message !== null && "type" in message ? message.type : undefined
+}
+
+/**
+ * Whether a parsed message is one of the control messages clients send
+ */
+function isClientMessage(message: unknown): message is AidenWebSocketClientMessage {
+  return CLIENT_MESSAGE_TYPES.includes(String(messageType(message)))
+}
+
+/**
+ * Keep only known event types, an empty list subscribes to everything
+ */
+function parseEventTypes(eventTypes: unknown): { valid: string[]; invalid: string[] } {
+  const requested = (Array.isArray(eventTypes) ? eventTypes : [eventTypes]).filter(Boolean).map(String)
+
+  return {
+    valid: requested.filter((eventType) => ALL_EVENT_TYPES.includes(eventType)),
+    invalid: requested.filter((eventType) => !ALL_EVENT_TYPES.includes(eventType)),
+  }
+}
+
+export class AidenWebSocketServer {
+  private readonly wss = new WebSocketServer({ noServer: true })
+  private readonly sessions = new Set<AidenSocketSession>()
+  private readonly events: AidenEventBus
+  private readonly authenticate: (request: IncomingMessage) => Promise<SessionUser | null>
+  private readonly requireAuth: boolean
+  private readonly heartbeatTimer: ReturnType<typeof setInterval>
+  private readonly unsubscribe: () => void
+
+  constructor(options: AidenWebSocketServerOptions = {}) {
+    this.events = options.events || getAidenEventBus()
+    this.authenticate = options.authenticate || ((request) => getSessionUserFromCookieHeader(request.headers.cookie))
+    this.requireAuth = options.requireAuth ?? isSupabaseConfigured()
+
+    this.unsubscribe = this.events.subscribe((event) => {
+      this.sessions.forEach((session) => this.deliver(session, event))
+    })
+
+    // Drop connections that stopped answering pings, e.g. after a network change
+    this.heartbeatTimer = setInterval(() => {
+      this.sessions.forEach((session) => {
+        if (!session.isAlive) {
+          session.socket.terminate()
+          return
+        }
+
+        session.isAlive = false
+        session.socket.ping()
+      })
+    }, options.heartbeatInterval || 30000)
+    this.heartbeatTimer.unref?.()
+  }
+
+  /**
+   * Take over an HTTP upgrade request for the AIDEN WebSocket path
+   */
+  handleUpgrade(request: IncomingMessage, socket: Duplex, head: Buffer) {
+    this.wss.handleUpgrade(request, socket, head, (ws) => {
+      this.open(ws, request).catch((error) => {
+        logger.error("Failed to open AIDEN WebSocket session", {
+          error: error instanceof Error ? error.message : "Unknown error",
+        })
+        ws.close(AidenWebSocketCloseCode.INTERNAL_ERROR, "Failed to open session")
+      })
+    })
+  }
+
+  /**
+   * Number of open connections, for diagnostics
+   */
+  get connectionCount(): number {
+    return this.sessions.size
+  }
+
+  close() {
+    clearInterval(this.heartbeatTimer)
+    this.unsubscribe()
+    this.sessions.forEach((session) => session.socket.close(AidenWebSocketCloseCode.GOING_AWAY, "Server shutting down"))
+    this.wss.close()
+  }
+
+  private async open(socket: WebSocket, request: IncomingMessage) {
+    // Hold messages that arrive while the session is being authenticated
+    const pending: RawData[] = []
+    const buffer = (data: RawData) => pending.push(data)
+    socket.on("message", buffer)
+
+    const user = await this.authenticate(request)
+
+    if (!user && this.requireAuth) {
+      socket.close(AidenWebSocketCloseCode.UNAUTHORIZED, "Authentication required")
+      return
+    }
+
+    if (socket.readyState !== WebSocket.OPEN) return
+
+    const url = new URL(request.url || AIDEN_WEBSOCKET_PATH, "http://localhost")
+    const { valid } = parseEventTypes(url.searchParams.get("subscriptions")?.split(","))
+    const session: AidenSocketSession = {
+      socket,
+      user,
+      subscriptions: new Set(valid),
+      isAlive: true,
+    }
+
+    this.send(session, {
+      type: "welcome",
+      sequence: this.events.getSequence(),
+      subscriptions: Array.from(session.subscriptions),
+      user_id: user?.id || null,
+    })
+
+    // Replay and registration happen in the same tick so no live event can slip in between
+    const lastSequence = url.searchParams.get("last_sequence")
+    if (lastSequence !== null && Number.isFinite(Number(lastSequence))) {
+      this.replay(session, Number(lastSequence))
+    }
+    this.sessions.add(session)
+
+    socket.off("message", buffer)
+    socket.on("message", (data) => this.handleMessage(session, data))
+    socket.on("pong", () => {
+      session.isAlive = true
+    })
+    socket.on("close", () => {
+      this.sessions.delete(session)
+    })
+    socket.on("error", (error) => {
+      logger.warn("AIDEN WebSocket error", { userId: user?.id, error: error.message })
+    })
+
+    pending.forEach((data) => this.handleMessage(session, data))
+
+    logger.info("AIDEN WebSocket connected", {
+      userId: user?.id,
+      subscriptions: Array.from(session.subscriptions),
+      resumeFrom: lastSequence,
+    })
+  }
+
+  private handleMessage(session: AidenSocketSession, data: RawData) {
+    let message: unknown
+
+    try {
+      message = JSON.parse(data.toString())
+    } catch {
+      this.send(session, { type: "error", message: "Messages must be JSON" })
+      return
+    }
+
+    if (!isClientMessage(message)) {
+      this.send(session, { type: "error", message: `Unknown message type: ${messageType(message)}` })
+      return
+    }
+
+    switch (message.type) {
+      case "subscribe":
+      case "unsubscribe": {
+        const { valid, invalid } = parseEventTypes(message.event_types)
+        const subscribing = message.type === "subscribe"
+
+        if (invalid.length > 0) {
+          this.send(session, { type: "error", message: `Unknown event types: ${invalid.join(", ")}` })
+        }
+
+        valid.forEach((eventType) =>
+          subscribing ? session.subscriptions.add(eventType) : session.subscriptions.delete(eventType),
+        )
+        this.send(session, { type: "subscriptions", subscriptions: Array.from(session.subscriptions) })
+        break
+      }
+      case "resume":
+        this.replay(session, Number(message.last_sequence) || 0)
+        break
+      case "ping":
+        this.send(session, { type: "pong", sequence: this.events.getSequence() })
+        break
+    }
+  }
+
+  private replay(session: AidenSocketSession, lastSequence: number) {
+    const { events, complete } = this.events.getEventsSince(lastSequence)
+    let replayed = 0
+
+    events.forEach((event) => {
+      if (this.deliver(session, event)) replayed++
+    })
+
+    this.send(session, {
+      type: "replay_complete",
+      from: lastSequence,
+      to: this.events.getSequence(),
+      replayed,
+      complete,
+    })
+  }
+
+  private deliver(session: AidenSocketSession, event: AidenWebSocketEvent): boolean {
+    const subscribed = session.subscriptions.size === 0 || session.subscriptions.has(event.event_type)
+    if (!subscribed || !canReceiveAidenEvent(session.user, event)) return false
+
+    return this.send(session, event)
+  }
+
+  private send(session: AidenSocketSession, message: AidenWebSocketEvent | AidenWebSocketServerMessage): boolean {
+    if (session.socket.readyState !== WebSocket.OPEN) return false
+
+    session.socket.send(JSON.stringify(message))
+    return true
+  }
+}
+
+const globalForAiden = globalThis as unknown as { aidenWebSocketServer?: AidenWebSocketServer }
+
+export function getAidenWebSocketServer(): AidenWebSocketServer {
+  if (!globalForAiden.aidenWebSocketServer) {
+    globalForAiden.aidenWebSocketServer = new AidenWebSocketServer()
+  }
+
+  return globalForAiden.aidenWebSocketServer
+}
@@ -0,0 +1,286 @@
+/**
+ * AIDEN WebSocket events
+ * Event types, envelopes and the browser client for the AIDEN real-time server
+ */
+
+export enum AidenWebSocketEventType {
+  TASK_UPDATE = "task_update",
+  ANOMALY_DETECTED = "anomaly_detected",
+  COLLABORATION_UPDATE = "collaboration_update",
+  SYSTEM_NOTIFICATION = "system_notification",
+  DATA_STREAM = "data_stream",
+  PATIENT_UPDATE = "patient_update",
+  VARIANT_RECLASSIFIED = "variant_reclassified",
+}
+
+export enum AidenEventSeverity {
+  INFO = "info",
+  LOW = "low",
+  MEDIUM = "medium",
+  HIGH = "high",
+  CRITICAL = "critical",
+}
+
+export interface AidenWebSocketEvent<TPayload = any> {
+  /** Stable id, shared by the live event and its history record */
+  event_id?: string
+  event_type: AidenWebSocketEventType | string
+  timestamp: string
+  payload: TPayload
+  metadata?: Record<string, any>
+  /** Position in the server's event stream, used to resume after a reconnect */
+  sequence?: number
+}
+
+export interface AidenEventAnnotation {
+  annotation_id: string
+  text: string
+  author: string | null
+  created_at: string
+}
+
+/**
+ * An event as kept in the event history, with its review state
+ */
+export interface AidenEventRecord<TPayload = any> extends AidenWebSocketEvent<TPayload> {
+  event_id: string
+  patient_id: string | null
+  severity: AidenEventSeverity
+  acknowledged_at: string | null
+  acknowledged_by: string | null
+  annotations: AidenEventAnnotation[]
+}
+
+/**
+ * Patient an event is about, read from its metadata or payload
+ */
+export function getAidenEventPatientId(event: AidenWebSocketEvent): string | null {
+  const patientId =
+    event.metadata?.patient_id ?? event.payload?.patient_id ?? event.payload?.patientId ?? event.payload?.patient?.id
+  return patientId ? String(patientId) : null
+}
+
+/**
+ * Severity of an event, as reported by its producer or derived from the event type
+ */
+export function getAidenEventSeverity(event: AidenWebSocketEvent): AidenEventSeverity {
+  const reported = event.payload?.severity ?? event.metadata?.severity
+  if (Object.values(AidenEventSeverity).includes(reported)) {
+    return reported
+  }
+
+  if (event.event_type === AidenWebSocketEventType.ANOMALY_DETECTED) {
+    return AidenEventSeverity.MEDIUM
+  }
+  if (event.event_type === AidenWebSocketEventType.TASK_UPDATE && event.payload?.status === "failed") {
+    return AidenEventSeverity.LOW
+  }
+
+  return AidenEventSeverity.INFO
+}
+
+export const AIDEN_WEBSOCKET_PATH = "/api/aiden/ws"
+
+export enum AidenWebSocketCloseCode {
+  NORMAL = 1000,
+  GOING_AWAY = 1001,
+  INTERNAL_ERROR = 1011,
+  UNAUTHORIZED = 4401,
+  FORBIDDEN = 4403,
+}
+
+/**
+ * Close codes after which reconnecting with the same session can't succeed
+ */
+const NON_RETRYABLE_CLOSE_CODES: number[] = [AidenWebSocketCloseCode.UNAUTHORIZED, AidenWebSocketCloseCode.FORBIDDEN]
+
+/**
+ * Control messages sent by clients
+ * Initial subscriptions and the resume point can also be given as the subscriptions and last_sequence query parameters
+ */
+export type AidenWebSocketClientMessage =
+  | { type: "subscribe" | "unsubscribe"; event_types: string[] }
+  | { type: "resume"; last_sequence: number }
+  | { type: "ping" }
+
+/**
+ * Control messages sent by the server, told apart from events by their type field
+ */
+export type AidenWebSocketServerMessage =
+  | { type: "welcome"; sequence: number; subscriptions: string[]; user_id: string | null }
+  | { type: "subscriptions"; subscriptions: string[] }
+  | { type: "replay_complete"; from: number; to: number; replayed: number; complete: boolean }
+  | { type: "pong"; sequence: number }
+  | { type: "error"; message: string }
+
+export type AidenWebSocketEventHandler = (event: AidenWebSocketEvent) => void
+
+export interface AidenWebSocketClientOptions {
+  /** Defaults to NEXT_PUBLIC_AIDEN_WS_URL, then to the AIDEN path on the current host */
+  url?: string
+  autoReconnect?: boolean
+  reconnectInterval?: number
+  maxReconnectInterval?: number
+  /** Event types to receive, empty receives every type the user may see */
+  subscriptions?: string[]
+  /** Sequence number of the last event already seen, events after it are replayed on connect */
+  lastSequence?: number | null
+  onOpen?: () => void
+  onClose?: (event: CloseEvent) => void
+  onError?: (event: Event) => void
+  onMessage?: (event: AidenWebSocketEvent) => void
+}
+
+/**
+ * Browser client for the AIDEN WebSocket server
+ * Reconnects with backoff and resumes from the last event it saw, so no events are lost or repeated
+ */
+export class AidenWebSocketClient {
+  private socket: WebSocket | null = null
+  private readonly handlers = new Map<string, Set<AidenWebSocketEventHandler>>()
+  private readonly subscriptions: Set<string>
+  private lastSequence: number | null
+  private reconnectAttempts = 0
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null
+  private closedByClient = false
+
+  constructor(private readonly options: AidenWebSocketClientOptions = {}) {
+    this.subscriptions = new Set(options.subscriptions || [])
+    this.lastSequence = options.lastSequence ?? null
+  }
+
+  connect() {
+    if (this.socket && this.socket.readyState <= WebSocket.OPEN) return
+
+    this.closedByClient = false
+    this.clearReconnectTimer()
+
+    const socket = new WebSocket(this.buildUrl())
+    this.socket = socket
+
+    socket.onopen = () => {
+      this.reconnectAttempts = 0
+      this.options.onOpen?.()
+    }
+
+    socket.onmessage = (message) => this.handleMessage(message.data)
+
+    socket.onerror = (event) => {
+      this.options.onError?.(event)
+    }
+
+    socket.onclose = (event) => {
+      if (this.socket === socket) this.socket = null
+      this.options.onClose?.(event)
+
+      if (!this.closedByClient && this.options.autoReconnect && !NON_RETRYABLE_CLOSE_CODES.includes(event.code)) {
+        this.scheduleReconnect()
+      }
+    }
+  }
+
+  disconnect() {
+    this.closedByClient = true
+    this.clearReconnectTimer()
+    this.socket?.close(AidenWebSocketCloseCode.NORMAL, "Client disconnected")
+    this.socket = null
+  }
+
+  subscribe(eventTypes: AidenWebSocketEventType | AidenWebSocketEventType[]) {
+    const types = Array.isArray(eventTypes) ? eventTypes : [eventTypes]
+    types.forEach((eventType) => this.subscriptions.add(eventType))
+    this.send({ type: "subscribe", event_types: types })
+  }
+
+  unsubscribe(eventTypes: AidenWebSocketEventType | AidenWebSocketEventType[]) {
+    const types = Array.isArray(eventTypes) ? eventTypes : [eventTypes]
+    types.forEach((eventType) => this.subscriptions.delete(eventType))
+    this.send({ type: "unsubscribe", event_types: types })
+  }
+
+  /**
+   * Send a message if connected, returns whether it was sent
+   */
+  send(message: AidenWebSocketClientMessage | string): boolean {
+    if (this.socket?.readyState !== WebSocket.OPEN) return false
+
+    this.socket.send(typeof message === "string" ? message : JSON.stringify(message))
+    return true
+  }
+
+  on(eventType: AidenWebSocketEventType | string, handler: AidenWebSocketEventHandler) {
+    if (!this.handlers.has(eventType)) {
+      this.handlers.set(eventType, new Set())
+    }
+    this.handlers.get(eventType)!.add(handler)
+  }
+
+  off(eventType: AidenWebSocketEventType | string, handler: AidenWebSocketEventHandler) {
+    this.handlers.get(eventType)?.delete(handler)
+  }
+
+  getLastSequence(): number | null {
+    return this.lastSequence
+  }
+
+  private buildUrl(): string {
+    const base =
+      this.options.url ||
+      process.env.NEXT_PUBLIC_AIDEN_WS_URL ||
+      `${window.location.protocol === "https:" ? "wss:" : "ws:"}//${window.location.host}${AIDEN_WEBSOCKET_PATH}`
+    const url = new URL(base, window.location.href)
+
+    if (this.subscriptions.size > 0) {
+      url.searchParams.set("subscriptions", Array.from(this.subscriptions).join(","))
+    }
+    if (this.lastSequence !== null) {
+      url.searchParams.set("last_sequence", String(this.lastSequence))
+    }
+
+    return url.toString()
+  }
+
+  private handleMessage(data: string) {
+    let message: AidenWebSocketEvent | AidenWebSocketServerMessage
+
+    try {
+      message = JSON.parse(data)
+    } catch {
+      return
+    }
+
+    if ("type" in message) {
+      // First connection starts from now, and a server that restarted has started counting again
+      if (message.type === "welcome" && (this.lastSequence === null || message.sequence < this.lastSequence)) {
+        this.lastSequence = this.lastSequence === null ? message.sequence : 0
+      }
+      return
+    }
+
+    if (message.sequence != null) {
+      if (this.lastSequence !== null && message.sequence <= this.lastSequence) return
+      this.lastSequence = message.sequence
+    }
+
+    this.options.onMessage?.(message)
+    this.handlers.get(message.event_type)?.forEach((handler) => handler(message as AidenWebSocketEvent))
+  }
+
+  private scheduleReconnect() {
+    const baseInterval = this.options.reconnectInterval || 1000
+    const delay = Math.min(baseInterval * 2 ** this.reconnectAttempts, this.options.maxReconnectInterval || 30000)
+
+    this.reconnectAttempts++
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null
+      this.connect()
+    }, delay)
+  }
+
+  private clearReconnectTimer() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer)
+      this.reconnectTimer = null
+    }
+  }
+}
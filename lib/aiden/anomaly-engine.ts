@@ -0,0 +1,294 @@
+/**
+ * AIDEN anomaly engine
+ * Runs the configured anomaly rules against incoming lab results and variant calls and publishes
+ * ANOMALY_DETECTED events. Every observation is kept so rules can be dry-run against past data.
+ */
+
+import { getAidenEventBus, type AidenEventBus } from "@/lib/aiden/aiden-events"
+import { InMemoryAnomalyRuleStore, type AnomalyRuleStore } from "@/lib/aiden/anomaly-rule-store"
+import {
+  evaluateLabRule,
+  evaluateVariantRule,
+  getLabTestKey,
+  getVariantKey,
+  validateAnomalyRule,
+  type AnomalyFinding,
+  type AnomalyRule,
+  type LabResultObservation,
+  type VariantCallObservation,
+} from "@/lib/aiden/anomaly-rules"
+import { AidenWebSocketEventType } from "@/lib/aiden/aiden-websocket"
+import type { GenomicVariant, VariantSignificance } from "@/lib/genomics/types"
+import type { LabTest } from "@/lib/lab/types"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+export class AnomalyRuleError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode = 400,
+  ) {
+    super(message)
+    this.name = "AnomalyRuleError"
+  }
+}
+
+export interface AnomalyEngineOptions {
+  store?: AnomalyRuleStore
+  events?: AidenEventBus
+  /** Observations kept for delta checks and dry runs */
+  maxHistory?: number
+}
+
+export interface AnomalyDryRunOptions {
+  /** Draft rules to try, defaults to the enabled stored rules */
+  rules?: AnomalyRule[]
+  from?: string
+  to?: string
+  patientId?: string
+}
+
+export interface AnomalyDryRunResult {
+  findings: AnomalyFinding[]
+  evaluated: { lab_results: number; variant_calls: number; rules: number }
+}
+
+type Observation =
+  | { kind: "lab"; observedAt: string; observation: LabResultObservation }
+  | { kind: "variant"; observedAt: string; observation: VariantCallObservation }
+
+/**
+ * Latest value per lab test and significance per variant, used to compare consecutive observations
+ */
+class ObservationState {
+  readonly labs = new Map<string, LabResultObservation>()
+  readonly significances = new Map<string, VariantSignificance>()
+
+  evaluate(rules: AnomalyRule[], entry: Observation): AnomalyFinding[] {
+    if (entry.kind === "lab") {
+      const key = getLabTestKey(entry.observation)
+      const latest = this.labs.get(key) || null
+      // Results that arrive out of order are checked against the latest value older than them only
+      const previous = latest && latest.test.timestamp < entry.observation.test.timestamp ? latest : null
+
+      if (!latest || latest.test.timestamp <= entry.observation.test.timestamp) {
+        this.labs.set(key, entry.observation)
+      }
+
+      return rules.map((rule) => evaluateLabRule(rule, entry.observation, previous)).filter(Boolean) as AnomalyFinding[]
+    }
+
+    const key = getVariantKey(entry.observation)
+    const previous = this.significances.get(key) || null
+    this.significances.set(key, entry.observation.variant.significance)
+
+    return rules
+      .map((rule) => evaluateVariantRule(rule, entry.observation, previous))
+      .filter(Boolean) as AnomalyFinding[]
+  }
+}
+
+export class AidenAnomalyEngine {
+  private readonly store: AnomalyRuleStore
+  private readonly events?: AidenEventBus
+  private readonly maxHistory: number
+  private readonly state = new ObservationState()
+  private history: Observation[] = []
+  private readonly seenLabResults = new Set<string>()
+
+  constructor(options: AnomalyEngineOptions = {}) {
+    this.store = options.store || new InMemoryAnomalyRuleStore()
+    this.events = options.events
+    this.maxHistory = options.maxHistory || 50000
+  }
+
+  async listRules(): Promise<AnomalyRule[]> {
+    return this.store.list()
+  }
+
+  async getRule(ruleId: string): Promise<AnomalyRule | null> {
+    return this.store.get(ruleId)
+  }
+
+  async createRule(input: Partial<AnomalyRule>, updatedBy?: string | null): Promise<AnomalyRule> {
+    const now = new Date().toISOString()
+    const rule = {
+      enabled: true,
+      ...input,
+      id: crypto.randomUUID(),
+      created_at: now,
+      updated_at: now,
+      updated_by: updatedBy || null,
+    } as AnomalyRule
+
+    this.assertValid(rule)
+    logger.info("Anomaly rule created", { ruleId: rule.id, name: rule.name, updatedBy })
+
+    return this.store.save(rule)
+  }
+
+  async updateRule(ruleId: string, patch: Partial<AnomalyRule>, updatedBy?: string | null): Promise<AnomalyRule> {
+    const existing = await this.store.get(ruleId)
+
+    if (!existing) {
+      throw new AnomalyRuleError(`Anomaly rule ${ruleId} not found`, 404)
+    }
+
+    const rule = {
+      ...existing,
+      ...patch,
+      id: existing.id,
+      created_at: existing.created_at,
+      updated_at: new Date().toISOString(),
+      updated_by: updatedBy || null,
+    } as AnomalyRule
+
+    this.assertValid(rule)
+    logger.info("Anomaly rule updated", { ruleId, updatedBy })
+
+    return this.store.save(rule)
+  }
+
+  async deleteRule(ruleId: string, deletedBy?: string | null) {
+    if (!(await this.store.delete(ruleId))) {
+      throw new AnomalyRuleError(`Anomaly rule ${ruleId} not found`, 404)
+    }
+
+    logger.info("Anomaly rule deleted", { ruleId, deletedBy })
+  }
+
+  /**
+   * Check incoming lab results, publishing an event for every anomaly found
+   * Results already seen (same patient and test id) are ignored
+   */
+  async evaluateLabResults(patientId: string, tests: LabTest[]): Promise<AnomalyFinding[]> {
+    const fresh = tests
+      .filter((test) => !test.id || !this.seenLabResults.has(`${patientId}|${test.id}`))
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+
+    fresh.forEach((test) => test.id && this.seenLabResults.add(`${patientId}|${test.id}`))
+
+    // Sets iterate in insertion order, so the oldest ids are dropped first
+    for (const key of this.seenLabResults) {
+      if (this.seenLabResults.size <= this.maxHistory) break
+      this.seenLabResults.delete(key)
+    }
+
+    return this.evaluate(
+      fresh.map((test) => ({
+        kind: "lab",
+        observedAt: test.timestamp,
+        observation: { patient_id: patientId, test },
+      })),
+    )
+  }
+
+  /**
+   * Check incoming variant calls, e.g. after enrichment, publishing an event for every anomaly found
+   */
+  async evaluateVariantCalls(
+    patientId: string,
+    variants: GenomicVariant[],
+    calledAt = new Date().toISOString(),
+  ): Promise<AnomalyFinding[]> {
+    return this.evaluate(
+      variants.map((variant) => ({
+        kind: "variant",
+        observedAt: calledAt,
+        observation: { patient_id: patientId, variant, called_at: calledAt },
+      })),
+    )
+  }
+
+  /**
+   * Evaluate the enabled rules against a patient's lab results without recording or publishing anything,
+   * e.g. to show the anomalies in a record fetched from the EHR
+   */
+  async checkLabResults(patientId: string, tests: LabTest[]): Promise<AnomalyFinding[]> {
+    const rules = (await this.store.list()).filter((rule) => rule.enabled)
+    const state = new ObservationState()
+
+    return [...tests]
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+      .flatMap((test) =>
+        state.evaluate(rules, { kind: "lab", observedAt: test.timestamp, observation: { patient_id: patientId, test } }),
+      )
+  }
+
+  /**
+   * Evaluate rules against recorded observations without publishing anything
+   * Observations before the from date are still replayed so delta checks have previous values
+   */
+  async dryRun(options: AnomalyDryRunOptions = {}): Promise<AnomalyDryRunResult> {
+    const rules = options.rules || (await this.store.list()).filter((rule) => rule.enabled)
+
+    rules.forEach((rule) => this.assertValid(rule))
+
+    const state = new ObservationState()
+    const findings: AnomalyFinding[] = []
+    const evaluated = { lab_results: 0, variant_calls: 0, rules: rules.length }
+
+    const observations = this.history
+      .filter((entry) => !options.patientId || entry.observation.patient_id === options.patientId)
+      .filter((entry) => !options.to || entry.observedAt <= options.to)
+      .sort((a, b) => a.observedAt.localeCompare(b.observedAt))
+
+    observations.forEach((entry) => {
+      const entryFindings = state.evaluate(rules, entry)
+      if (options.from && entry.observedAt < options.from) return
+
+      evaluated[entry.kind === "lab" ? "lab_results" : "variant_calls"]++
+      findings.push(...entryFindings)
+    })
+
+    return { findings: findings.reverse(), evaluated }
+  }
+
+  private async evaluate(observations: Observation[]): Promise<AnomalyFinding[]> {
+    const rules = (await this.store.list()).filter((rule) => rule.enabled)
+    const findings: AnomalyFinding[] = []
+
+    observations.forEach((entry) => {
+      this.record(entry)
+      findings.push(...this.state.evaluate(rules, entry))
+    })
+
+    findings.forEach((finding) => {
+      this.events?.publish(AidenWebSocketEventType.ANOMALY_DETECTED, finding, {
+        patient_id: finding.patient_id,
+        rule_id: finding.rule_id,
+      })
+    })
+
+    if (findings.length > 0) {
+      logger.info("Anomalies detected", { count: findings.length, rules: findings.map((finding) => finding.rule_id) })
+    }
+
+    return findings
+  }
+
+  private record(entry: Observation) {
+    this.history.push(entry)
+
+    if (this.history.length > this.maxHistory) {
+      this.history = this.history.slice(-this.maxHistory)
+    }
+  }
+
+  private assertValid(rule: Partial<AnomalyRule>) {
+    const problems = validateAnomalyRule(rule)
+
+    if (problems.length > 0) {
+      throw new AnomalyRuleError(`Invalid anomaly rule${rule.name ? ` ${rule.name}` : ""}: ${problems.join("; ")}`)
+    }
+  }
+}
+
+const globalForAiden = globalThis as unknown as { aidenAnomalyEngine?: AidenAnomalyEngine }
+
+export function getAidenAnomalyEngine(): AidenAnomalyEngine {
+  if (!globalForAiden.aidenAnomalyEngine) {
+    globalForAiden.aidenAnomalyEngine = new AidenAnomalyEngine({ events: getAidenEventBus() })
+  }
+
+  return globalForAiden.aidenAnomalyEngine
+}
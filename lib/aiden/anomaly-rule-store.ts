@@ -0,0 +1,47 @@
+/**
+ * AIDEN anomaly rule persistence
+ * Same shape as the task store so a database-backed store can replace the in-memory one
+ */
+
+import { DEFAULT_ANOMALY_RULES, type AnomalyRule, type AnomalyRuleDefinition } from "@/lib/aiden/anomaly-rules"
+
+export interface AnomalyRuleStore {
+  list(): Promise<AnomalyRule[]>
+  get(ruleId: string): Promise<AnomalyRule | null>
+  save(rule: AnomalyRule): Promise<AnomalyRule>
+  delete(ruleId: string): Promise<boolean>
+}
+
+/**
+ * In-memory rule store, seeded with the default rules
+ */
+export class InMemoryAnomalyRuleStore implements AnomalyRuleStore {
+  private rules = new Map<string, AnomalyRule>()
+
+  constructor(seed: AnomalyRuleDefinition[] = DEFAULT_ANOMALY_RULES) {
+    const now = new Date().toISOString()
+    seed.forEach((rule) => {
+      this.rules.set(rule.id, { ...rule, created_at: now, updated_at: now, updated_by: null } as AnomalyRule)
+    })
+  }
+
+  async list(): Promise<AnomalyRule[]> {
+    return Array.from(this.rules.values())
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((rule) => structuredClone(rule))
+  }
+
+  async get(ruleId: string): Promise<AnomalyRule | null> {
+    const rule = this.rules.get(ruleId)
+    return rule ? structuredClone(rule) : null
+  }
+
+  async save(rule: AnomalyRule): Promise<AnomalyRule> {
+    this.rules.set(rule.id, structuredClone(rule))
+    return structuredClone(rule)
+  }
+
+  async delete(ruleId: string): Promise<boolean> {
+    return this.rules.delete(ruleId)
+  }
+}
@@ -0,0 +1,342 @@
+/**
+ * AIDEN anomaly rules
+ * Rule definitions and their pure evaluation against lab results and variant calls
+ */
+
+import { AidenEventSeverity } from "@/lib/aiden/aiden-websocket"
+import type { GenomicVariant, VariantSignificance } from "@/lib/genomics/types"
+import type { LabTest } from "@/lib/lab/types"
+
+export enum AnomalyRuleType {
+  THRESHOLD = "threshold",
+  DELTA = "delta",
+  PATHOGENIC_VARIANT = "pathogenic_variant",
+}
+
+interface AnomalyRuleBase {
+  id: string
+  name: string
+  description?: string
+  type: AnomalyRuleType
+  enabled: boolean
+  severity: AidenEventSeverity
+  created_at: string
+  updated_at: string
+  updated_by: string | null
+}
+
+/**
+ * Fires when a lab value falls outside [min, max]
+ */
+export interface ThresholdAnomalyRule extends AnomalyRuleBase {
+  type: AnomalyRuleType.THRESHOLD
+  /** Case-insensitive match against LabTest.name */
+  test: string
+  /** Only values reported in this unit are compared */
+  unit?: string
+  min?: number
+  max?: number
+}
+
+/**
+ * Fires when a lab value changes too much from the patient's previous value for the same test
+ */
+export interface DeltaAnomalyRule extends AnomalyRuleBase {
+  type: AnomalyRuleType.DELTA
+  test: string
+  unit?: string
+  change_type: "absolute" | "percent"
+  max_change: number
+  direction: "increase" | "decrease" | "either"
+  /** Previous values older than this are not compared */
+  window_hours?: number
+}
+
+/**
+ * Fires the first time a patient's variant is called with one of the given significances
+ */
+export interface PathogenicVariantAnomalyRule extends AnomalyRuleBase {
+  type: AnomalyRuleType.PATHOGENIC_VARIANT
+  significances: VariantSignificance[]
+  /** Limit to these genes, all genes when empty */
+  genes?: string[]
+}
+
+export type AnomalyRule = ThresholdAnomalyRule | DeltaAnomalyRule | PathogenicVariantAnomalyRule
+
+/** A rule without its bookkeeping fields, as seeded or submitted */
+export type AnomalyRuleDefinition = AnomalyRule extends infer Rule
+  ? Rule extends AnomalyRule
+    ? Omit<Rule, "created_at" | "updated_at" | "updated_by">
+    : never
+  : never
+
+export interface LabResultObservation {
+  patient_id: string
+  test: LabTest
+}
+
+export interface VariantCallObservation {
+  patient_id: string
+  variant: GenomicVariant
+  called_at: string
+}
+
+export interface AnomalyFinding {
+  rule_id: string
+  rule_name: string
+  rule_type: AnomalyRuleType
+  severity: AidenEventSeverity
+  patient_id: string
+  message: string
+  observed_at: string
+  lab_test?: {
+    id: string
+    name: string
+    value: number
+    unit: string
+    previous_value?: number
+    previous_timestamp?: string
+  }
+  variant?: {
+    id: string
+    gene: string
+    hgvs?: string
+    significance: VariantSignificance
+    previous_significance: VariantSignificance | null
+  }
+}
+
+/** Significances a variant rule can watch for, from least to most severe */
+export const VARIANT_SIGNIFICANCES: VariantSignificance[] = [
+  "benign",
+  "likely_benign",
+  "uncertain",
+  "likely_pathogenic",
+  "pathogenic",
+]
+
+const PATHOGENIC_SIGNIFICANCES: VariantSignificance[] = ["pathogenic", "likely_pathogenic"]
+
+export function isVariantSignificance(value: string): value is VariantSignificance {
+  return (VARIANT_SIGNIFICANCES as string[]).includes(value)
+}
+
+/**
+ * Rules installed when no rules have been configured yet
+ */
+export const DEFAULT_ANOMALY_RULES: AnomalyRuleDefinition[] = [
+  {
+    id: "potassium-critical",
+    name: "Critical potassium",
+    type: AnomalyRuleType.THRESHOLD,
+    enabled: true,
+    severity: AidenEventSeverity.CRITICAL,
+    test: "potassium",
+    unit: "mmol/L",
+    min: 3.0,
+    max: 6.0,
+  },
+  {
+    id: "creatinine-rise",
+    name: "Creatinine rise of 50% within 48 hours",
+    description: "Possible acute kidney injury",
+    type: AnomalyRuleType.DELTA,
+    enabled: true,
+    severity: AidenEventSeverity.HIGH,
+    test: "creatinine",
+    change_type: "percent",
+    max_change: 50,
+    direction: "increase",
+    window_hours: 48,
+  },
+  {
+    id: "hemoglobin-drop",
+    name: "Hemoglobin drop of 2 g/dL",
+    description: "Possible acute blood loss",
+    type: AnomalyRuleType.DELTA,
+    enabled: true,
+    severity: AidenEventSeverity.HIGH,
+    test: "hemoglobin",
+    unit: "g/dL",
+    change_type: "absolute",
+    max_change: 2,
+    direction: "decrease",
+    window_hours: 72,
+  },
+  {
+    id: "new-pathogenic-variant",
+    name: "Newly pathogenic variant",
+    type: AnomalyRuleType.PATHOGENIC_VARIANT,
+    enabled: true,
+    severity: AidenEventSeverity.HIGH,
+    significances: PATHOGENIC_SIGNIFICANCES,
+  },
+]
+
+/**
+ * Problems with a rule definition, empty when the rule is valid
+ */
+export function validateAnomalyRule(rule: Partial<AnomalyRule>): string[] {
+  const problems: string[] = []
+
+  if (!rule.name?.trim()) problems.push("name is required")
+  if (!Object.values(AidenEventSeverity).includes(rule.severity as AidenEventSeverity)) {
+    problems.push(`severity must be one of ${Object.values(AidenEventSeverity).join(", ")}`)
+  }
+
+  switch (rule.type) {
+    case AnomalyRuleType.THRESHOLD:
+      if (!rule.test?.trim()) problems.push("test is required")
+      if (typeof rule.min !== "number" && typeof rule.max !== "number") problems.push("min or max is required")
+      if (typeof rule.min === "number" && typeof rule.max === "number" && rule.min > rule.max) {
+        problems.push("min must not be greater than max")
+      }
+      break
+    case AnomalyRuleType.DELTA:
+      if (!rule.test?.trim()) problems.push("test is required")
+      if (!["absolute", "percent"].includes(rule.change_type || "")) problems.push("change_type must be absolute or percent")
+      if (!(typeof rule.max_change === "number" && rule.max_change > 0)) problems.push("max_change must be positive")
+      if (!["increase", "decrease", "either"].includes(rule.direction || "")) {
+        problems.push("direction must be increase, decrease or either")
+      }
+      if (rule.window_hours !== undefined && !(rule.window_hours > 0)) problems.push("window_hours must be positive")
+      break
+    case AnomalyRuleType.PATHOGENIC_VARIANT:
+      if (!Array.isArray(rule.significances) || rule.significances.length === 0) {
+        problems.push("significances must list at least one significance")
+      } else if (!rule.significances.every((significance) => isVariantSignificance(significance))) {
+        problems.push(`significances must be from ${VARIANT_SIGNIFICANCES.join(", ")}`)
+      }
+      break
+    default:
+      problems.push(`type must be one of ${Object.values(AnomalyRuleType).join(", ")}`)
+  }
+
+  return problems
+}
+
+function parseNumericValue(value: number | string): number | null {
+  const parsed = typeof value === "number" ? value : Number.parseFloat(value)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+function matchesTest(rule: ThresholdAnomalyRule | DeltaAnomalyRule, test: LabTest): boolean {
+  if (!test.name.toLowerCase().includes(rule.test.toLowerCase())) return false
+  return !rule.unit || rule.unit.toLowerCase() === test.unit?.toLowerCase()
+}
+
+/**
+ * Key identifying the same lab test across results, used to find a test's previous value
+ */
+export function getLabTestKey(observation: LabResultObservation): string {
+  return `${observation.patient_id}|${observation.test.name.toLowerCase()}|${observation.test.unit?.toLowerCase() || ""}`
+}
+
+/**
+ * Key identifying the same variant across calls
+ */
+export function getVariantKey(observation: VariantCallObservation): string {
+  const { variant } = observation
+  return `${observation.patient_id}|${variant.chromosome}:${variant.position}:${variant.reference}>${variant.alternate}`
+}
+
+/**
+ * Evaluate a lab rule against a result and the patient's previous result for the same test
+ */
+export function evaluateLabRule(
+  rule: AnomalyRule,
+  observation: LabResultObservation,
+  previous: LabResultObservation | null,
+): AnomalyFinding | null {
+  if (rule.type === AnomalyRuleType.PATHOGENIC_VARIANT || !matchesTest(rule, observation.test)) return null
+
+  const { test } = observation
+  const value = parseNumericValue(test.value)
+  if (value === null) return null
+
+  const finding = {
+    rule_id: rule.id,
+    rule_name: rule.name,
+    rule_type: rule.type,
+    severity: rule.severity,
+    patient_id: observation.patient_id,
+    observed_at: test.timestamp,
+    lab_test: { id: test.id, name: test.name, value, unit: test.unit },
+  }
+
+  if (rule.type === AnomalyRuleType.THRESHOLD) {
+    if (typeof rule.min === "number" && value < rule.min) {
+      return { ...finding, message: `${test.name} ${value} ${test.unit} is below ${rule.min}` }
+    }
+    if (typeof rule.max === "number" && value > rule.max) {
+      return { ...finding, message: `${test.name} ${value} ${test.unit} is above ${rule.max}` }
+    }
+    return null
+  }
+
+  const previousValue = previous ? parseNumericValue(previous.test.value) : null
+  if (!previous || previousValue === null) return null
+
+  const elapsedHours = (Date.parse(test.timestamp) - Date.parse(previous.test.timestamp)) / (60 * 60 * 1000)
+  if (rule.window_hours !== undefined && elapsedHours > rule.window_hours) return null
+
+  const difference = value - previousValue
+  if (rule.direction === "increase" && difference <= 0) return null
+  if (rule.direction === "decrease" && difference >= 0) return null
+
+  const change =
+    rule.change_type === "percent"
+      ? previousValue === 0
+        ? Infinity
+        : (Math.abs(difference) / Math.abs(previousValue)) * 100
+      : Math.abs(difference)
+  if (change <= rule.max_change) return null
+
+  const changeText = rule.change_type === "percent" ? `${Math.round(change)}%` : `${Number(change.toFixed(2))} ${test.unit}`
+
+  return {
+    ...finding,
+    lab_test: { ...finding.lab_test, previous_value: previousValue, previous_timestamp: previous.test.timestamp },
+    message: `${test.name} ${difference > 0 ? "rose" : "fell"} by ${changeText} (${previousValue} → ${value} ${test.unit}) in ${Math.round(elapsedHours)}h`,
+  }
+}
+
+/**
+ * Evaluate a variant rule against a call and the significance the variant was last called with
+ */
+export function evaluateVariantRule(
+  rule: AnomalyRule,
+  observation: VariantCallObservation,
+  previousSignificance: VariantSignificance | null,
+): AnomalyFinding | null {
+  if (rule.type !== AnomalyRuleType.PATHOGENIC_VARIANT) return null
+
+  const { variant } = observation
+  if (!rule.significances.includes(variant.significance)) return null
+  if (previousSignificance && rule.significances.includes(previousSignificance)) return null
+  if (rule.genes?.length && !rule.genes.some((gene) => gene.toUpperCase() === variant.gene?.toUpperCase())) {
+    return null
+  }
+
+  const label = variant.hgvs || `${variant.chromosome}:${variant.position} ${variant.reference}>${variant.alternate}`
+
+  return {
+    rule_id: rule.id,
+    rule_name: rule.name,
+    rule_type: rule.type,
+    severity: rule.severity,
+    patient_id: observation.patient_id,
+    observed_at: observation.called_at,
+    variant: {
+      id: variant.id,
+      gene: variant.gene,
+      hgvs: variant.hgvs,
+      significance: variant.significance,
+      previous_significance: previousSignificance,
+    },
+    message: previousSignificance
+      ? `${variant.gene} ${label} reclassified from ${previousSignificance.replace("_", " ")} to ${variant.significance.replace("_", " ")}`
+      : `${variant.gene} ${label} called ${variant.significance.replace("_", " ")}`,
+  }
+}
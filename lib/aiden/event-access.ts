@@ -0,0 +1,57 @@
+/**
+ * AIDEN event access rules
+ * Shared by the real-time server and the event history API so both show a user the same events
+ */
+
+import { AidenWebSocketEventType, type AidenWebSocketEvent } from "@/lib/aiden/aiden-websocket"
+import { Permission, hasPermission } from "@/lib/auth/permissions"
+import type { SessionUser } from "@/lib/supabase/server"
+
+/**
+ * Event types that carry patient data and need an explicit permission
+ */
+const EVENT_TYPE_PERMISSIONS: Partial<Record<AidenWebSocketEventType, Permission>> = {
+  [AidenWebSocketEventType.ANOMALY_DETECTED]: Permission.VIEW_CLINICAL_EVENTS,
+  [AidenWebSocketEventType.DATA_STREAM]: Permission.VIEW_CLINICAL_EVENTS,
+  [AidenWebSocketEventType.PATIENT_UPDATE]: Permission.VIEW_CLINICAL_EVENTS,
+  [AidenWebSocketEventType.VARIANT_RECLASSIFIED]: Permission.VIEW_CLINICAL_EVENTS,
+}
+
+/**
+ * Event types the given roles are not allowed to see
+ */
+export function getRestrictedEventTypes(roles: string[]): AidenWebSocketEventType[] {
+  return (Object.keys(EVENT_TYPE_PERMISSIONS) as AidenWebSocketEventType[]).filter(
+    (eventType) => !hasPermission(roles, EVENT_TYPE_PERMISSIONS[eventType]!),
+  )
+}
+
+/**
+ * Whether a user can see events addressed to other users
+ */
+export function canSeeAllUsersEvents(user: SessionUser): boolean {
+  return hasPermission(user.roles, Permission.VIEW_ALL_AIDEN_TASKS)
+}
+
+/**
+ * Whether a user may receive an event
+ * - events addressed to a user (metadata.user_id) go to that user and to roles that view all AIDEN tasks
+ * - events restricted to roles (metadata.roles) go only to users holding one of them
+ * - patient-data event types need VIEW_CLINICAL_EVENTS
+ * A null user means authentication is disabled, which leaves events unfiltered
+ */
+export function canReceiveAidenEvent(user: SessionUser | null, event: AidenWebSocketEvent): boolean {
+  if (!user) return true
+
+  const ownerId = event.metadata?.user_id
+  if (ownerId && ownerId !== user.id && !canSeeAllUsersEvents(user)) {
+    return false
+  }
+
+  const audience: string[] | undefined = event.metadata?.roles
+  if (audience?.length && !audience.some((role) => user.roles.includes(role))) {
+    return false
+  }
+
+  return !getRestrictedEventTypes(user.roles).includes(event.event_type as AidenWebSocketEventType)
+}
@@ -0,0 +1,193 @@
+/**
+ * AIDEN event history persistence
+ * Events are stored in Supabase when a service role key is configured, otherwise kept in memory
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { canReceiveAidenEvent, canSeeAllUsersEvents, getRestrictedEventTypes } from "@/lib/aiden/event-access"
+import type { AidenEventRecord, AidenEventSeverity } from "@/lib/aiden/aiden-websocket"
+import type { SessionUser } from "@/lib/supabase/server"
+
+export interface AidenEventHistoryQuery {
+  eventTypes?: string[]
+  /** ISO timestamps, both inclusive */
+  from?: string
+  to?: string
+  patientId?: string
+  severities?: AidenEventSeverity[]
+  acknowledged?: boolean
+  /** Only events this user may see, null when authentication is disabled */
+  viewer?: SessionUser | null
+  limit?: number
+  offset?: number
+}
+
+export interface AidenEventHistoryPage {
+  events: AidenEventRecord[]
+  total: number
+}
+
+export interface AidenEventHistoryStore {
+  append(event: AidenEventRecord): Promise<void>
+  get(eventId: string): Promise<AidenEventRecord | null>
+  update(eventId: string, patch: Partial<AidenEventRecord>): Promise<AidenEventRecord | null>
+  list(query?: AidenEventHistoryQuery): Promise<AidenEventHistoryPage>
+  /** Delete events older than the given ISO timestamp */
+  prune(before: string): Promise<void>
+}
+
+const DEFAULT_PAGE_SIZE = 50
+
+function matchesQuery(event: AidenEventRecord, query: AidenEventHistoryQuery): boolean {
+  if (query.eventTypes?.length && !query.eventTypes.includes(event.event_type)) return false
+  if (query.from && event.timestamp < query.from) return false
+  if (query.to && event.timestamp > query.to) return false
+  if (query.patientId && event.patient_id !== query.patientId) return false
+  if (query.severities?.length && !query.severities.includes(event.severity)) return false
+  if (query.acknowledged !== undefined && !!event.acknowledged_at !== query.acknowledged) return false
+  if (query.viewer !== undefined && !canReceiveAidenEvent(query.viewer, event)) return false
+
+  return true
+}
+
+/**
+ * In-memory event history for local development and single-instance deployments
+ * Oldest events are dropped once maxEvents is reached
+ */
+export class InMemoryAidenEventHistoryStore implements AidenEventHistoryStore {
+  private events: AidenEventRecord[] = []
+
+  constructor(private readonly maxEvents = 10000) {}
+
+  async append(event: AidenEventRecord): Promise<void> {
+    this.events.push(structuredClone(event))
+
+    if (this.events.length > this.maxEvents) {
+      this.events.splice(0, this.events.length - this.maxEvents)
+    }
+  }
+
+  async get(eventId: string): Promise<AidenEventRecord | null> {
+    const event = this.events.find((candidate) => candidate.event_id === eventId)
+    return event ? structuredClone(event) : null
+  }
+
+  async update(eventId: string, patch: Partial<AidenEventRecord>): Promise<AidenEventRecord | null> {
+    const index = this.events.findIndex((candidate) => candidate.event_id === eventId)
+    if (index === -1) return null
+
+    this.events[index] = { ...this.events[index], ...patch, event_id: eventId }
+    return structuredClone(this.events[index])
+  }
+
+  async list(query: AidenEventHistoryQuery = {}): Promise<AidenEventHistoryPage> {
+    const { limit = DEFAULT_PAGE_SIZE, offset = 0 } = query
+    const matching = this.events
+      .filter((event) => matchesQuery(event, query))
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp) || (b.sequence ?? 0) - (a.sequence ?? 0))
+
+    return {
+      events: matching.slice(offset, offset + limit).map((event) => structuredClone(event)),
+      total: matching.length,
+    }
+  }
+
+  async prune(before: string): Promise<void> {
+    this.events = this.events.filter((event) => event.timestamp >= before)
+  }
+}
+
+/**
+ * Event history in the Supabase aiden_events table
+ * Columns: event_id (uuid, primary key), sequence, event_type, timestamp (timestamptz), payload (jsonb),
+ * metadata (jsonb), patient_id, severity, user_id, audience_roles (text[]), acknowledged_at,
+ * acknowledged_by and annotations (jsonb), created by supabase/migrations/20261019120000_create_aiden_events.sql
+ */
+export class SupabaseAidenEventHistoryStore implements AidenEventHistoryStore {
+  private readonly table = "aiden_events"
+
+  constructor(private readonly supabase: SupabaseClient) {}
+
+  async append(event: AidenEventRecord): Promise<void> {
+    const { error } = await this.supabase.from(this.table).insert({
+      ...event,
+      user_id: event.metadata?.user_id ?? null,
+      audience_roles: event.metadata?.roles ?? null,
+    })
+
+    if (error) throw new Error(`Failed to store AIDEN event: ${error.message}`)
+  }
+
+  async get(eventId: string): Promise<AidenEventRecord | null> {
+    const { data, error } = await this.supabase.from(this.table).select("*").eq("event_id", eventId).maybeSingle()
+
+    if (error) throw new Error(`Failed to load AIDEN event: ${error.message}`)
+    return data ? this.toRecord(data) : null
+  }
+
+  async update(eventId: string, patch: Partial<AidenEventRecord>): Promise<AidenEventRecord | null> {
+    const { data, error } = await this.supabase
+      .from(this.table)
+      .update(patch)
+      .eq("event_id", eventId)
+      .select("*")
+      .maybeSingle()
+
+    if (error) throw new Error(`Failed to update AIDEN event: ${error.message}`)
+    return data ? this.toRecord(data) : null
+  }
+
+  async list(query: AidenEventHistoryQuery = {}): Promise<AidenEventHistoryPage> {
+    const { limit = DEFAULT_PAGE_SIZE, offset = 0, viewer } = query
+    let request = this.supabase.from(this.table).select("*", { count: "exact" })
+
+    if (query.eventTypes?.length) request = request.in("event_type", query.eventTypes)
+    if (query.from) request = request.gte("timestamp", query.from)
+    if (query.to) request = request.lte("timestamp", query.to)
+    if (query.patientId) request = request.eq("patient_id", query.patientId)
+    if (query.severities?.length) request = request.in("severity", query.severities)
+    if (query.acknowledged !== undefined) {
+      request = query.acknowledged ? request.not("acknowledged_at", "is", null) : request.is("acknowledged_at", null)
+    }
+
+    // Same rules as canReceiveAidenEvent, applied in the query so paging stays accurate
+    if (viewer) {
+      if (!canSeeAllUsersEvents(viewer)) {
+        request = request.or(`user_id.is.null,user_id.eq.${viewer.id}`)
+      }
+
+      const restricted = getRestrictedEventTypes(viewer.roles)
+      if (restricted.length > 0) {
+        request = request.not("event_type", "in", `(${restricted.join(",")})`)
+      }
+
+      // An empty audience leaves the event open to everyone, as it does for live events
+      request = request.or(
+        `audience_roles.is.null,audience_roles.eq.{},audience_roles.ov.{${viewer.roles.join(",")}}`,
+      )
+    }
+
+    const { data, count, error } = await request
+      .order("timestamp", { ascending: false })
+      .order("sequence", { ascending: false })
+      .range(offset, offset + limit - 1)
+
+    if (error) throw new Error(`Failed to query AIDEN events: ${error.message}`)
+
+    return {
+      events: (data || []).map((row) => this.toRecord(row)),
+      total: count ?? 0,
+    }
+  }
+
+  async prune(before: string): Promise<void> {
+    const { error } = await this.supabase.from(this.table).delete().lt("timestamp", before)
+
+    if (error) throw new Error(`Failed to prune AIDEN events: ${error.message}`)
+  }
+
+  private toRecord(row: any): AidenEventRecord {
+    const { user_id: _userId, audience_roles: _audienceRoles, ...record } = row
+    return { ...record, annotations: record.annotations || [] }
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * AIDEN event history
+ * Records published events so feeds can show what happened before they connected,
+ * and keeps the review state (acknowledgements, annotations) of detected anomalies
+ */
+
+import type { AidenEventBus } from "@/lib/aiden/aiden-events"
+import { canReceiveAidenEvent } from "@/lib/aiden/event-access"
+import {
+  InMemoryAidenEventHistoryStore,
+  SupabaseAidenEventHistoryStore,
+  type AidenEventHistoryPage,
+  type AidenEventHistoryQuery,
+  type AidenEventHistoryStore,
+} from "@/lib/aiden/event-history-store"
+import {
+  AidenWebSocketEventType,
+  getAidenEventPatientId,
+  getAidenEventSeverity,
+  type AidenEventRecord,
+  type AidenWebSocketEvent,
+} from "@/lib/aiden/aiden-websocket"
+import { getServiceSupabaseClient, type SessionUser } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+export class AidenEventHistoryError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode = 400,
+  ) {
+    super(message)
+    this.name = "AidenEventHistoryError"
+  }
+}
+
+const DEFAULT_RETENTION_DAYS = 30
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000
+const MAX_TRACKED_TASKS = 5000
+
+/**
+ * Raw stream samples are too frequent to be worth keeping as history, and patient updates only tell open views
+ * to reload data the EHR already keeps
+ */
+const UNRECORDED_EVENT_TYPES: string[] = [AidenWebSocketEventType.DATA_STREAM, AidenWebSocketEventType.PATIENT_UPDATE]
+
+export class AidenEventHistory {
+  /** Last recorded status per task, so progress ticks don't flood the history */
+  private readonly taskStatuses = new Map<string, string>()
+  private lastPrunedAt = 0
+
+  constructor(
+    private readonly store: AidenEventHistoryStore,
+    private readonly retentionDays = DEFAULT_RETENTION_DAYS,
+  ) {}
+
+  /**
+   * Record every event published on the bus, returns the detach function
+   */
+  attach(events: AidenEventBus): () => void {
+    return events.subscribe((event) => {
+      this.record(event).catch((error) => {
+        logger.error("Failed to record AIDEN event", {
+          eventType: event.event_type,
+          error: error instanceof Error ? error.message : "Unknown error",
+        })
+      })
+    })
+  }
+
+  async record(event: AidenWebSocketEvent): Promise<void> {
+    if (!this.shouldRecord(event)) return
+
+    await this.store.append({
+      ...event,
+      event_id: event.event_id || crypto.randomUUID(),
+      patient_id: getAidenEventPatientId(event),
+      severity: getAidenEventSeverity(event),
+      acknowledged_at: null,
+      acknowledged_by: null,
+      annotations: [],
+    })
+
+    if (Date.now() - this.lastPrunedAt > PRUNE_INTERVAL_MS) {
+      this.lastPrunedAt = Date.now()
+      await this.store.prune(new Date(Date.now() - this.retentionDays * 24 * 60 * 60 * 1000).toISOString())
+    }
+  }
+
+  async query(query: AidenEventHistoryQuery): Promise<AidenEventHistoryPage> {
+    return this.store.list(query)
+  }
+
+  /**
+   * Mark a detected anomaly as reviewed
+   */
+  async acknowledge(eventId: string, user: SessionUser | null): Promise<AidenEventRecord> {
+    const event = await this.getAnomaly(eventId, user)
+
+    if (event.acknowledged_at) {
+      return event
+    }
+
+    const updated = await this.store.update(eventId, {
+      acknowledged_at: new Date().toISOString(),
+      acknowledged_by: user ? user.email || user.id : null,
+    })
+
+    logger.info("AIDEN anomaly acknowledged", { eventId, userId: user?.id })
+    return updated!
+  }
+
+  /**
+   * Attach a note to a detected anomaly
+   */
+  async annotate(eventId: string, text: string, user: SessionUser | null): Promise<AidenEventRecord> {
+    if (typeof text !== "string" || !text.trim()) {
+      throw new AidenEventHistoryError("Annotation text is required")
+    }
+
+    const event = await this.getAnomaly(eventId, user)
+    const updated = await this.store.update(eventId, {
+      annotations: [
+        ...event.annotations,
+        {
+          annotation_id: crypto.randomUUID(),
+          text: text.trim(),
+          author: user ? user.email || user.id : null,
+          created_at: new Date().toISOString(),
+        },
+      ],
+    })
+
+    return updated!
+  }
+
+  private async getAnomaly(eventId: string, user: SessionUser | null): Promise<AidenEventRecord> {
+    const event = await this.store.get(eventId)
+
+    if (!event || !canReceiveAidenEvent(user, event)) {
+      throw new AidenEventHistoryError(`Event ${eventId} not found`, 404)
+    }
+
+    if (event.event_type !== AidenWebSocketEventType.ANOMALY_DETECTED) {
+      throw new AidenEventHistoryError("Only detected anomalies can be acknowledged or annotated", 409)
+    }
+
+    return event
+  }
+
+  private shouldRecord(event: AidenWebSocketEvent): boolean {
+    if (UNRECORDED_EVENT_TYPES.includes(event.event_type)) return false
+    if (event.event_type !== AidenWebSocketEventType.TASK_UPDATE) return true
+
+    const taskId = event.payload?.task_id
+    const status = event.payload?.status
+    if (!taskId || this.taskStatuses.get(taskId) === status) return false
+
+    // Finished tasks can still be retried, so their last status is kept until the map is full
+    this.taskStatuses.delete(taskId)
+    this.taskStatuses.set(taskId, status)
+    if (this.taskStatuses.size > MAX_TRACKED_TASKS) {
+      this.taskStatuses.delete(this.taskStatuses.keys().next().value!)
+    }
+
+    return true
+  }
+}
+
+const globalForAiden = globalThis as unknown as { aidenEventHistory?: AidenEventHistory }
+
+export function getAidenEventHistory(): AidenEventHistory {
+  if (!globalForAiden.aidenEventHistory) {
+    const supabase = getServiceSupabaseClient()
+
+    globalForAiden.aidenEventHistory = new AidenEventHistory(
+      supabase ? new SupabaseAidenEventHistoryStore(supabase) : new InMemoryAidenEventHistoryStore(),
+      Number(process.env.AIDEN_EVENT_RETENTION_DAYS) || DEFAULT_RETENTION_DAYS,
+    )
+  }
+
+  return globalForAiden.aidenEventHistory
+}
@@ -0,0 +1,25 @@
+/**
+ * AIDEN task and workflow access rules
+ * Shared by the task and workflow routes so a record is visible to the same users wherever it is read
+ */
+
+import { Permission, hasPermission } from "@/lib/auth/permissions"
+import { isSupabaseConfigured, type SessionUser } from "@/lib/supabase/server"
+
+/**
+ * Whether a user may read or change a task or workflow run
+ * Records belong to their submitter; only roles that view all AIDEN tasks reach every record, since results hold
+ * patient data. Without Supabase auth there are no users and records submitted anonymously are open to every caller.
+ */
+export function canAccessAidenRecord(user: SessionUser | null, ownerId: string | null): boolean {
+  if (!user) return !isSupabaseConfigured()
+
+  return ownerId === user.id || hasPermission(user.roles, Permission.VIEW_ALL_AIDEN_TASKS)
+}
+
+/**
+ * The user whose records a listing is limited to, or undefined when the caller may list every user's
+ */
+export function listingOwner(user: SessionUser | null): string | undefined {
+  return user && !hasPermission(user.roles, Permission.VIEW_ALL_AIDEN_TASKS) ? user.id : undefined
+}
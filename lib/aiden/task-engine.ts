@@ -0,0 +1,498 @@
+/**
+ * AIDEN Task Engine
+ * Queues submitted tasks by priority and runs them on an in-process worker pool,
+ * applying per-type timeouts and retrying failed attempts with exponential backoff.
+ * Every state change is published as a TASK_UPDATE event.
+ */
+
+import {
+  AIDEN_TASK_PRIORITY_RANK,
+  AidenTaskPriority,
+  AidenTaskStatus,
+  AidenTaskType,
+  isTerminalStatus,
+  toTaskStatusResponse,
+  type AidenTask,
+  type AidenTaskProgress,
+  type AidenTaskSubmission,
+} from "@/lib/aiden/aiden-client"
+import { getAidenEventBus, type AidenEventBus } from "@/lib/aiden/aiden-events"
+import { AidenWebSocketEventType } from "@/lib/aiden/aiden-websocket"
+import { InMemoryAidenTaskStore, type AidenTaskQuery, type AidenTaskStore } from "@/lib/aiden/task-store"
+import { registerDefaultTaskHandlers } from "@/lib/aiden/task-handlers"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+export interface AidenProgressUpdate {
+  percent: number
+  stage?: string
+}
+
+export interface AidenTaskContext {
+  task: AidenTask
+  attempt: number
+  signal: AbortSignal
+  reportProgress: (update: AidenProgressUpdate) => Promise<void>
+}
+
+export type AidenTaskHandler<TPayload = any, TResult = any> = (
+  payload: TPayload,
+  context: AidenTaskContext,
+) => Promise<TResult>
+
+export interface AidenRetryPolicy {
+  maxAttempts: number
+  initialDelayMs: number
+  maxDelayMs: number
+  backoffMultiplier: number
+}
+
+export interface AidenTaskEngineOptions {
+  store?: AidenTaskStore
+  concurrency?: number
+  timeouts?: Partial<Record<AidenTaskType, number>>
+  retryPolicy?: Partial<AidenRetryPolicy>
+  events?: AidenEventBus
+}
+
+export const DEFAULT_TASK_TIMEOUTS: Record<AidenTaskType, number> = {
+  [AidenTaskType.CLINICAL_SUMMARY]: 60_000,
+  [AidenTaskType.RISK_ASSESSMENT]: 120_000,
+  [AidenTaskType.GENOMIC_ENRICHMENT]: 600_000,
+  [AidenTaskType.VARIANT_INTERPRETATION]: 120_000,
+  [AidenTaskType.LAB_ANALYSIS]: 60_000,
+  [AidenTaskType.PRESENTATION_GENERATION]: 300_000,
+}
+
+/**
+ * Number of completed runs per task type kept for ETA estimates
+ */
+const RUNTIME_SAMPLE_SIZE = 20
+
+export const DEFAULT_RETRY_POLICY: AidenRetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 1_000,
+  maxDelayMs: 30_000,
+  backoffMultiplier: 2,
+}
+
+/**
+ * Error raised for requests the engine refuses, carrying the HTTP status the API should answer with
+ */
+export class AidenTaskError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number = 400,
+  ) {
+    super(message)
+    this.name = "AidenTaskError"
+  }
+}
+
+interface QueueEntry {
+  taskId: string
+  rank: number
+  sequence: number
+}
+
+export class AidenTaskEngine {
+  private readonly store: AidenTaskStore
+  private readonly concurrency: number
+  private readonly timeouts: Record<AidenTaskType, number>
+  private readonly retryPolicy: AidenRetryPolicy
+  private readonly events?: AidenEventBus
+  private readonly handlers = new Map<AidenTaskType, AidenTaskHandler>()
+  private readonly runningAttempts = new Map<string, AbortController>()
+  private readonly retryTimers = new Map<string, ReturnType<typeof setTimeout>>()
+  private readonly runtimeSamples = new Map<AidenTaskType, number[]>()
+  private queue: QueueEntry[] = []
+  private activeWorkers = 0
+  private sequence = 0
+
+  constructor(options: AidenTaskEngineOptions = {}) {
+    this.store = options.store || new InMemoryAidenTaskStore()
+    this.concurrency = Math.max(1, options.concurrency || 2)
+    this.timeouts = { ...DEFAULT_TASK_TIMEOUTS, ...options.timeouts }
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retryPolicy }
+    this.events = options.events
+  }
+
+  /**
+   * Register the handler that executes tasks of the given type
+   */
+  registerHandler<TPayload = any, TResult = any>(taskType: AidenTaskType, handler: AidenTaskHandler<TPayload, TResult>) {
+    this.handlers.set(taskType, handler)
+  }
+
+  hasHandler(taskType: AidenTaskType): boolean {
+    return this.handlers.has(taskType)
+  }
+
+  /**
+   * Persist a new task and queue it for execution
+   */
+  async submit<TPayload = any>(submission: AidenTaskSubmission<TPayload>): Promise<AidenTask<TPayload>> {
+    if (!this.hasHandler(submission.task_type)) {
+      throw new AidenTaskError(`Unsupported task type: ${submission.task_type}`)
+    }
+
+    const priority = submission.priority || AidenTaskPriority.NORMAL
+    if (!(priority in AIDEN_TASK_PRIORITY_RANK)) {
+      throw new AidenTaskError(`Unknown task priority: ${priority}`)
+    }
+
+    const now = new Date().toISOString()
+    const task = await this.store.create({
+      task_id: crypto.randomUUID(),
+      task_type: submission.task_type,
+      status: AidenTaskStatus.QUEUED,
+      priority,
+      payload: submission.payload,
+      metadata: submission.metadata || {},
+      result: null,
+      error: null,
+      user_id: submission.user_id || null,
+      attempts: 0,
+      max_attempts: Math.max(1, submission.max_attempts || this.retryPolicy.maxAttempts),
+      progress: null,
+      created_at: now,
+      updated_at: now,
+      started_at: null,
+      completed_at: null,
+      history: [{ status: AidenTaskStatus.QUEUED, timestamp: now }],
+    })
+
+    this.publishUpdate(task)
+    this.enqueue(task)
+    logger.info("AIDEN task queued", { taskId: task.task_id, taskType: task.task_type, priority })
+
+    return task
+  }
+
+  async getTask(taskId: string): Promise<AidenTask | null> {
+    return this.store.get(taskId)
+  }
+
+  async listTasks(query?: AidenTaskQuery): Promise<AidenTask[]> {
+    return this.store.list(query)
+  }
+
+  /**
+   * Cancel a queued, retrying or running task
+   * A running handler is signalled through its AbortSignal and its outcome is discarded
+   */
+  async cancel(taskId: string, reason = "Cancelled by user"): Promise<AidenTask> {
+    const task = await this.store.get(taskId)
+
+    if (!task) {
+      throw new AidenTaskError(`Task ${taskId} not found`, 404)
+    }
+
+    if (isTerminalStatus(task.status)) {
+      throw new AidenTaskError(`Task ${taskId} is already ${task.status}`, 409)
+    }
+
+    this.queue = this.queue.filter((entry) => entry.taskId !== taskId)
+    this.clearRetryTimer(taskId)
+
+    const now = new Date().toISOString()
+    const cancelled = await this.updateTask(taskId, {
+      status: AidenTaskStatus.CANCELLED,
+      completed_at: now,
+      history: [...task.history, { status: AidenTaskStatus.CANCELLED, timestamp: now, message: reason }],
+    })
+
+    this.runningAttempts.get(taskId)?.abort(new Error(reason))
+    logger.info("AIDEN task cancelled", { taskId, reason })
+
+    return cancelled!
+  }
+
+  /**
+   * Re-queue a failed or cancelled task with a fresh set of attempts
+   */
+  async retry(taskId: string, requestedBy?: string): Promise<AidenTask> {
+    const task = await this.store.get(taskId)
+
+    if (!task) {
+      throw new AidenTaskError(`Task ${taskId} not found`, 404)
+    }
+
+    if (task.status !== AidenTaskStatus.FAILED && task.status !== AidenTaskStatus.CANCELLED) {
+      throw new AidenTaskError(`Only failed or cancelled tasks can be retried, task ${taskId} is ${task.status}`, 409)
+    }
+
+    const now = new Date().toISOString()
+    const requeued = await this.updateTask(taskId, {
+      status: AidenTaskStatus.QUEUED,
+      error: null,
+      result: null,
+      progress: null,
+      completed_at: null,
+      max_attempts: task.attempts + this.retryPolicy.maxAttempts,
+      history: [
+        ...task.history,
+        {
+          status: AidenTaskStatus.QUEUED,
+          timestamp: now,
+          message: requestedBy ? `Retry requested by ${requestedBy}` : "Retry requested",
+        },
+      ],
+    })
+
+    this.enqueue(requeued!)
+    logger.info("AIDEN task retry requested", { taskId, requestedBy })
+
+    return requeued!
+  }
+
+  /**
+   * Delay before the attempt following the given one
+   */
+  getRetryDelay(attempt: number): number {
+    const { initialDelayMs, backoffMultiplier, maxDelayMs } = this.retryPolicy
+    return Math.min(initialDelayMs * Math.pow(backoffMultiplier, attempt - 1), maxDelayMs)
+  }
+
+  getTimeout(taskType: AidenTaskType): number {
+    return this.timeouts[taskType]
+  }
+
+  /**
+   * Average runtime of recent successful runs of a task type, or null without history
+   */
+  getAverageRuntime(taskType: AidenTaskType): number | null {
+    const samples = this.runtimeSamples.get(taskType)
+    if (!samples || samples.length === 0) return null
+
+    return samples.reduce((sum, sample) => sum + sample, 0) / samples.length
+  }
+
+  /**
+   * Estimate the seconds left for a running attempt
+   * Blends extrapolation from reported progress with the historical runtime for the task type
+   */
+  estimateRemainingSeconds(taskType: AidenTaskType, elapsedMs: number, percent: number): number | null {
+    const averageRuntime = this.getAverageRuntime(taskType)
+    const extrapolated = percent > 0 ? (elapsedMs * (100 - percent)) / percent : null
+    const historical = averageRuntime !== null ? Math.max(averageRuntime - elapsedMs, 0) : null
+
+    let remainingMs: number | null
+    if (extrapolated !== null && historical !== null) {
+      // Trust the handler's own progress more the further along it is
+      const weight = percent / 100
+      remainingMs = extrapolated * weight + historical * (1 - weight)
+    } else {
+      remainingMs = extrapolated ?? historical
+    }
+
+    return remainingMs === null ? null : Math.ceil(remainingMs / 1000)
+  }
+
+  private recordRuntime(taskType: AidenTaskType, runtimeMs: number) {
+    const samples = [...(this.runtimeSamples.get(taskType) || []), runtimeMs].slice(-RUNTIME_SAMPLE_SIZE)
+    this.runtimeSamples.set(taskType, samples)
+  }
+
+  private async updateTask(taskId: string, patch: Partial<AidenTask>): Promise<AidenTask | null> {
+    const task = await this.store.update(taskId, patch)
+    if (task) this.publishUpdate(task)
+    return task
+  }
+
+  private publishUpdate(task: AidenTask) {
+    this.events?.publish(AidenWebSocketEventType.TASK_UPDATE, toTaskStatusResponse(task), {
+      task_id: task.task_id,
+      user_id: task.user_id,
+      patient_id: task.metadata?.patient_id ?? task.metadata?.patientId ?? null,
+    })
+  }
+
+  private enqueue(task: AidenTask) {
+    this.queue.push({
+      taskId: task.task_id,
+      rank: AIDEN_TASK_PRIORITY_RANK[task.priority],
+      sequence: this.sequence++,
+    })
+    this.queue.sort((a, b) => b.rank - a.rank || a.sequence - b.sequence)
+    this.drain()
+  }
+
+  private drain() {
+    while (this.activeWorkers < this.concurrency && this.queue.length > 0) {
+      const entry = this.queue.shift()!
+      this.activeWorkers++
+
+      this.execute(entry.taskId).finally(() => {
+        this.activeWorkers--
+        this.drain()
+      })
+    }
+  }
+
+  private clearRetryTimer(taskId: string) {
+    const timer = this.retryTimers.get(taskId)
+    if (timer) {
+      clearTimeout(timer)
+      this.retryTimers.delete(taskId)
+    }
+  }
+
+  private async execute(taskId: string) {
+    const task = await this.store.get(taskId)
+    if (!task || task.status !== AidenTaskStatus.QUEUED) return
+
+    const handler = this.handlers.get(task.task_type)!
+    const attempt = task.attempts + 1
+    const attemptStartedMs = Date.now()
+    const startedAt = new Date(attemptStartedMs).toISOString()
+
+    const running = await this.updateTask(taskId, {
+      status: AidenTaskStatus.PROCESSING,
+      attempts: attempt,
+      started_at: task.started_at || startedAt,
+      progress: {
+        percent: 0,
+        stage: "Starting",
+        eta_seconds: this.estimateRemainingSeconds(task.task_type, 0, 0),
+        updated_at: startedAt,
+      },
+      history: [...task.history, { status: AidenTaskStatus.PROCESSING, timestamp: startedAt, attempt }],
+    })
+    if (!running) return
+
+    const controller = new AbortController()
+    this.runningAttempts.set(taskId, controller)
+
+    try {
+      const reportProgress = async ({ percent, stage }: AidenProgressUpdate) => {
+        if (controller.signal.aborted) return
+
+        const clamped = Math.min(Math.max(percent, 0), 99)
+        const progress: AidenTaskProgress = {
+          percent: clamped,
+          stage: stage ?? null,
+          eta_seconds: this.estimateRemainingSeconds(task.task_type, Date.now() - attemptStartedMs, clamped),
+          updated_at: new Date().toISOString(),
+        }
+
+        await this.updateTask(taskId, { progress })
+      }
+
+      const result = await this.runAttempt(handler, running, attempt, controller, reportProgress)
+
+      // The task may have been cancelled while the handler was finishing
+      const current = await this.store.get(taskId)
+      if (!current || current.status !== AidenTaskStatus.PROCESSING) return
+
+      const completedAt = new Date().toISOString()
+      this.recordRuntime(task.task_type, Date.now() - attemptStartedMs)
+
+      await this.updateTask(taskId, {
+        status: AidenTaskStatus.COMPLETED,
+        result,
+        error: null,
+        progress: { percent: 100, stage: "Completed", eta_seconds: 0, updated_at: completedAt },
+        completed_at: completedAt,
+        history: [...current.history, { status: AidenTaskStatus.COMPLETED, timestamp: completedAt, attempt }],
+      })
+
+      logger.info("AIDEN task completed", { taskId, taskType: task.task_type, attempt })
+    } catch (error) {
+      const current = await this.store.get(taskId)
+      if (!current || current.status !== AidenTaskStatus.PROCESSING) return
+
+      await this.handleAttemptFailure(current, attempt, error instanceof Error ? error.message : "Unknown error")
+    } finally {
+      this.runningAttempts.delete(taskId)
+    }
+  }
+
+  private runAttempt(
+    handler: AidenTaskHandler,
+    task: AidenTask,
+    attempt: number,
+    controller: AbortController,
+    reportProgress: AidenTaskContext["reportProgress"],
+  ): Promise<unknown> {
+    const timeoutMs = this.getTimeout(task.task_type)
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        const error = new Error(`Attempt timed out after ${Math.round(timeoutMs / 1000)}s`)
+        controller.abort(error)
+        reject(error)
+      }, timeoutMs)
+
+      controller.signal.addEventListener("abort", () => reject(controller.signal.reason), { once: true })
+
+      handler(task.payload, { task, attempt, signal: controller.signal, reportProgress })
+        .then(resolve, reject)
+        .finally(() => clearTimeout(timer))
+    })
+  }
+
+  private async handleAttemptFailure(task: AidenTask, attempt: number, message: string) {
+    const failedAt = new Date().toISOString()
+    const history = [...task.history, { status: AidenTaskStatus.FAILED, timestamp: failedAt, attempt, message }]
+
+    if (attempt >= task.max_attempts) {
+      await this.updateTask(task.task_id, {
+        status: AidenTaskStatus.FAILED,
+        error: message,
+        completed_at: failedAt,
+        history,
+      })
+
+      logger.error("AIDEN task failed", { taskId: task.task_id, taskType: task.task_type, attempt, error: message })
+      return
+    }
+
+    const delay = this.getRetryDelay(attempt)
+    const requeued = await this.updateTask(task.task_id, {
+      status: AidenTaskStatus.QUEUED,
+      error: message,
+      progress: null,
+      history: [
+        ...history,
+        {
+          status: AidenTaskStatus.QUEUED,
+          timestamp: failedAt,
+          attempt: attempt + 1,
+          message: `Retrying in ${Math.round(delay / 1000)}s`,
+        },
+      ],
+    })
+
+    logger.warn("AIDEN task attempt failed, retrying", { taskId: task.task_id, attempt, delay, error: message })
+
+    this.retryTimers.set(
+      task.task_id,
+      setTimeout(() => {
+        this.retryTimers.delete(task.task_id)
+        if (requeued) this.enqueue(requeued)
+      }, delay),
+    )
+  }
+}
+
+const globalForAiden = globalThis as unknown as { aidenTaskEngine?: AidenTaskEngine }
+
+/**
+ * Shared engine instance for the API routes
+ * Kept on globalThis so dev-server module reloads don't orphan queued tasks
+ */
+export function getAidenTaskEngine(): AidenTaskEngine {
+  if (!globalForAiden.aidenTaskEngine) {
+    const engine = new AidenTaskEngine({
+      concurrency: Number(process.env.AIDEN_WORKER_CONCURRENCY) || undefined,
+      retryPolicy: {
+        maxAttempts: Number(process.env.AIDEN_TASK_MAX_ATTEMPTS) || DEFAULT_RETRY_POLICY.maxAttempts,
+      },
+      events: getAidenEventBus(),
+    })
+    registerDefaultTaskHandlers(engine)
+    globalForAiden.aidenTaskEngine = engine
+  }
+
+  return globalForAiden.aidenTaskEngine
+}
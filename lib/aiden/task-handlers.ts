@@ -0,0 +1,369 @@
+/**
+ * Built-in AIDEN task handlers
+ * Each handler works from the data in the task payload so tasks can run without external services; genomic
+ * enrichment reads the local knowledge source snapshots.
+ */
+
+import type { GenomicEnrichmentRequest, GenomicEnrichmentResult } from "@/lib/agent/services/genomic-enrichment"
+import { getGenomicEnrichmentService } from "@/lib/agent/services/genomic-enrichment/service"
+import { AidenTaskType } from "@/lib/aiden/aiden-client"
+import { getAidenAnomalyEngine } from "@/lib/aiden/anomaly-engine"
+import type { AidenTaskEngine, AidenTaskHandler } from "@/lib/aiden/task-engine"
+import type { LabTest, LabTestStatus } from "@/lib/lab/types"
+
+interface ClinicalRecordPayload {
+  patientId: string
+  healthRecord?: {
+    conditions?: Array<{ display?: string; clinicalStatus?: string }>
+    medications?: Array<{ display?: string; status?: string }>
+    allergies?: Array<{ display?: string }>
+    observations?: Array<{ display?: string; interpretation?: string }>
+  }
+  variants?: Array<{ gene?: string; significance?: string }>
+}
+
+interface LabAnalysisPayload {
+  patientId?: string
+  panels: Array<{
+    name: string
+    tests: LabAnalysisTest[]
+  }>
+}
+
+type LabAnalysisTest = { name: string; value: number | string; unit?: string; status: string } & Partial<
+  Pick<LabTest, "id" | "timestamp" | "referenceRange">
+>
+
+interface GenomicEnrichmentPayload extends GenomicEnrichmentRequest {
+  patientId?: string
+}
+
+interface PresentationPayload {
+  patientId?: string
+  title?: string
+  /** Results of the workflow steps this one depends on, by step id */
+  upstream?: Record<string, any>
+}
+
+interface PresentationSlide {
+  title: string
+  content: string
+  /** Workflow step whose result the slide presents */
+  step: string
+}
+
+const LAB_TEST_STATUSES: LabTestStatus[] = ["normal", "abnormal", "critical", "pending"]
+
+const PATHOGENIC_SIGNIFICANCE = ["pathogenic", "likely_pathogenic"]
+
+/**
+ * Summarize the conditions, medications and allergies in a patient record
+ */
+export const clinicalSummaryHandler: AidenTaskHandler<ClinicalRecordPayload> = async (payload, { reportProgress }) => {
+  if (!payload?.patientId) {
+    throw new Error("patientId is required")
+  }
+
+  await reportProgress({ percent: 10, stage: "Reviewing patient record" })
+
+  const record = payload.healthRecord || {}
+  const conditions = record.conditions || []
+  const medications = record.medications || []
+  const allergies = record.allergies || []
+
+  const activeConditions = conditions.filter((c) => !c.clinicalStatus || c.clinicalStatus === "active")
+  const activeMedications = medications.filter((m) => !m.status || m.status === "active")
+
+  await reportProgress({ percent: 80, stage: "Compiling summary" })
+
+  return {
+    patientId: payload.patientId,
+    generatedAt: new Date().toISOString(),
+    activeConditions: activeConditions.map((c) => c.display || "Unnamed condition"),
+    activeMedications: activeMedications.map((m) => m.display || "Unnamed medication"),
+    allergies: allergies.map((a) => a.display || "Unnamed allergy"),
+    counts: {
+      conditions: conditions.length,
+      medications: medications.length,
+      allergies: allergies.length,
+      observations: (record.observations || []).length,
+    },
+  }
+}
+
+/**
+ * Score patient risk from pathogenic variants, abnormal observations and active conditions
+ */
+export const riskAssessmentHandler: AidenTaskHandler<ClinicalRecordPayload> = async (payload, { reportProgress }) => {
+  if (!payload?.patientId) {
+    throw new Error("patientId is required")
+  }
+
+  await reportProgress({ percent: 10, stage: "Collecting risk factors" })
+
+  const record = payload.healthRecord || {}
+  const pathogenicVariants = (payload.variants || []).filter((v) =>
+    PATHOGENIC_SIGNIFICANCE.includes(v.significance || ""),
+  )
+  const abnormalObservations = (record.observations || []).filter(
+    (o) => o.interpretation && !["N", "normal"].includes(o.interpretation),
+  )
+  const activeConditions = (record.conditions || []).filter((c) => !c.clinicalStatus || c.clinicalStatus === "active")
+
+  const factors = [
+    ...pathogenicVariants.map((v) => ({
+      type: "variant",
+      description: `Pathogenic variant in ${v.gene || "unknown gene"}`,
+      weight: 30,
+    })),
+    ...abnormalObservations.map((o) => ({
+      type: "observation",
+      description: `Abnormal ${o.display || "observation"}`,
+      weight: 10,
+    })),
+    ...activeConditions.map((c) => ({
+      type: "condition",
+      description: c.display || "Active condition",
+      weight: 5,
+    })),
+  ]
+
+  await reportProgress({ percent: 70, stage: "Scoring" })
+
+  const score = Math.min(100, factors.reduce((sum, factor) => sum + factor.weight, 0))
+
+  return {
+    patientId: payload.patientId,
+    generatedAt: new Date().toISOString(),
+    score,
+    level: score >= 60 ? "high" : score >= 25 ? "moderate" : "low",
+    factors,
+  }
+}
+
+/**
+ * Lab result the anomaly rules can compare over time, or null when the test has no id or timestamp
+ */
+function toLabTest(test: LabAnalysisTest): LabTest | null {
+  if (!test.id || !test.timestamp) return null
+
+  const status = LAB_TEST_STATUSES.find((candidate) => candidate === test.status)
+  return {
+    id: test.id,
+    name: test.name,
+    value: test.value,
+    unit: test.unit || "",
+    referenceRange: test.referenceRange || "",
+    status: status || "pending",
+    timestamp: test.timestamp,
+  }
+}
+
+/**
+ * Flag abnormal and critical results across lab panels
+ * Timestamped results for a known patient also go through the anomaly rules
+ */
+export const labAnalysisHandler: AidenTaskHandler<LabAnalysisPayload> = async (payload, { reportProgress }) => {
+  if (!Array.isArray(payload?.panels)) {
+    throw new Error("panels must be an array")
+  }
+
+  const findings: Array<{ panel: string; test: string; value: number | string; unit?: string; severity: string }> = []
+
+  for (const [index, panel] of payload.panels.entries()) {
+    await reportProgress({
+      percent: Math.round((index / payload.panels.length) * 100),
+      stage: `Analyzing ${panel.name}`,
+    })
+
+    panel.tests
+      .filter((test) => test.status === "abnormal" || test.status === "critical")
+      .forEach((test) => {
+        findings.push({
+          panel: panel.name,
+          test: test.name,
+          value: test.value,
+          unit: test.unit,
+          severity: test.status,
+        })
+      })
+  }
+
+  const timedTests = payload.panels
+    .flatMap((panel) => panel.tests.map(toLabTest))
+    .filter((test): test is LabTest => test !== null)
+  const anomalies = payload.patientId
+    ? await getAidenAnomalyEngine().evaluateLabResults(payload.patientId, timedTests)
+    : []
+
+  return {
+    patientId: payload.patientId,
+    generatedAt: new Date().toISOString(),
+    panelCount: payload.panels.length,
+    testCount: payload.panels.reduce((sum, panel) => sum + panel.tests.length, 0),
+    criticalCount: findings.filter((f) => f.severity === "critical").length,
+    findings,
+    anomalies,
+  }
+}
+
+/**
+ * Group variants by clinical significance and gene
+ */
+export const variantInterpretationHandler: AidenTaskHandler<Pick<ClinicalRecordPayload, "variants">> = async (
+  payload,
+) => {
+  if (!Array.isArray(payload?.variants)) {
+    throw new Error("variants must be an array")
+  }
+
+  const bySignificance: Record<string, number> = {}
+  const actionableGenes = new Set<string>()
+
+  payload.variants.forEach((variant) => {
+    const significance = variant.significance || "uncertain"
+    bySignificance[significance] = (bySignificance[significance] || 0) + 1
+
+    if (PATHOGENIC_SIGNIFICANCE.includes(significance) && variant.gene) {
+      actionableGenes.add(variant.gene)
+    }
+  })
+
+  return {
+    generatedAt: new Date().toISOString(),
+    variantCount: payload.variants.length,
+    bySignificance,
+    actionableGenes: Array.from(actionableGenes).sort(),
+  }
+}
+
+/**
+ * Enrich an uploaded VCF, Beaker report or variant list from the knowledge source snapshots
+ * The enriched calls of a known patient also go through the anomaly rules
+ */
+export const genomicEnrichmentHandler: AidenTaskHandler<GenomicEnrichmentPayload> = async (
+  payload,
+  { reportProgress },
+) => {
+  await reportProgress({ percent: 10, stage: "Annotating variants" })
+
+  const { patientId, data, encoding, format, sources } = payload || {}
+  const result = await getGenomicEnrichmentService().enrichUpload({ data, encoding, format, sources })
+
+  await reportProgress({ percent: 90, stage: "Checking anomaly rules" })
+  const anomalies = patientId
+    ? await getAidenAnomalyEngine().evaluateVariantCalls(patientId, result.variants, result.enriched_at)
+    : []
+
+  return { patientId, ...result, anomalies }
+}
+
+const variantLabel = (variant: { id?: string; gene?: string; hgvs?: string }) =>
+  [variant.gene || variant.id, variant.hgvs].filter(Boolean).join(" ")
+
+/**
+ * Slide builders for the results of the other task types, tried in order; each returns null for results it does not
+ * recognize
+ */
+const PRESENTATION_SLIDES: Array<(result: any) => Omit<PresentationSlide, "step"> | null> = [
+  (result: Partial<GenomicEnrichmentResult>) => {
+    if (!Array.isArray(result.variants) || !Array.isArray(result.sources)) return null
+
+    const applied = result.sources.filter((report) => report.status === "applied").map((report) => report.source)
+    const pathogenic = result.variants.filter((variant) => PATHOGENIC_SIGNIFICANCE.includes(variant.significance))
+    return {
+      title: "Genomic findings",
+      content: [
+        `${result.enrichedVariantCount} of ${result.variantCount} variants annotated from ${applied.join(", ")}.`,
+        pathogenic.length > 0
+          ? `Pathogenic or likely pathogenic: ${pathogenic.map(variantLabel).join(", ")}.`
+          : "No pathogenic or likely pathogenic variants.",
+      ].join(" "),
+    }
+  },
+  (result) => {
+    if (typeof result.score !== "number" || !Array.isArray(result.factors)) return null
+
+    const factors = result.factors.map((factor: { description: string }) => factor.description)
+    return {
+      title: "Risk assessment",
+      content: [`${result.level} risk, score ${result.score} of 100.`, factors.length > 0 && `${factors.join("; ")}.`]
+        .filter(Boolean)
+        .join(" "),
+    }
+  },
+  (result) => {
+    if (!Array.isArray(result.activeConditions)) return null
+
+    return {
+      title: "Clinical summary",
+      content: [
+        `Active conditions: ${result.activeConditions.join(", ") || "none"}.`,
+        `Active medications: ${result.activeMedications?.join(", ") || "none"}.`,
+        `Allergies: ${result.allergies?.join(", ") || "none"}.`,
+      ].join(" "),
+    }
+  },
+  (result) => {
+    if (!Array.isArray(result.findings) || typeof result.panelCount !== "number") return null
+
+    const findings = result.findings.map(
+      (finding: { test: string; value: number | string; unit?: string; severity: string }) =>
+        `${finding.test} ${finding.value}${finding.unit ? ` ${finding.unit}` : ""} (${finding.severity})`,
+    )
+    return {
+      title: "Lab findings",
+      content: `${result.testCount} tests in ${result.panelCount} panels. ${
+        findings.length > 0 ? `Abnormal: ${findings.join(", ")}.` : "No abnormal results."
+      }`,
+    }
+  },
+  (result) => {
+    if (!result.bySignificance || !Array.isArray(result.actionableGenes)) return null
+
+    return {
+      title: "Variant interpretation",
+      content: `${result.variantCount} variants. Actionable genes: ${result.actionableGenes.join(", ") || "none"}.`,
+    }
+  },
+]
+
+/**
+ * Build a presentation with one slide per upstream step result, in the order the steps are listed
+ */
+export const presentationGenerationHandler: AidenTaskHandler<PresentationPayload> = async (
+  payload,
+  { reportProgress },
+) => {
+  const upstream = Object.entries(payload?.upstream || {}).filter(([, result]) => result && typeof result === "object")
+  await reportProgress({ percent: 10, stage: "Collecting step results" })
+
+  const slides = upstream.flatMap(([step, result]): PresentationSlide[] => {
+    for (const build of PRESENTATION_SLIDES) {
+      const slide = build(result)
+      if (slide) return [{ ...slide, step }]
+    }
+    return []
+  })
+
+  if (slides.length === 0) {
+    throw new Error("A presentation needs the result of at least one clinical, genomic or lab step")
+  }
+
+  const patientId = payload.patientId || upstream.map(([, result]) => result.patientId).find(Boolean)
+  return {
+    patientId,
+    title: payload.title || (patientId ? `Findings for patient ${patientId}` : "Findings"),
+    generatedAt: new Date().toISOString(),
+    slides,
+  }
+}
+
+export function registerDefaultTaskHandlers(engine: AidenTaskEngine) {
+  engine.registerHandler(AidenTaskType.CLINICAL_SUMMARY, clinicalSummaryHandler)
+  engine.registerHandler(AidenTaskType.RISK_ASSESSMENT, riskAssessmentHandler)
+  engine.registerHandler(AidenTaskType.GENOMIC_ENRICHMENT, genomicEnrichmentHandler)
+  engine.registerHandler(AidenTaskType.LAB_ANALYSIS, labAnalysisHandler)
+  engine.registerHandler(AidenTaskType.VARIANT_INTERPRETATION, variantInterpretationHandler)
+  engine.registerHandler(AidenTaskType.PRESENTATION_GENERATION, presentationGenerationHandler)
+}
@@ -0,0 +1,64 @@
+/**
+ * AIDEN task persistence
+ * The engine only talks to the AidenTaskStore interface so a database-backed store can replace the in-memory one
+ */
+
+import type { AidenTask, AidenTaskStatus, AidenTaskType } from "@/lib/aiden/aiden-client"
+
+export interface AidenTaskQuery {
+  status?: AidenTaskStatus
+  taskType?: AidenTaskType
+  userId?: string
+  limit?: number
+}
+
+export interface AidenTaskStore {
+  create(task: AidenTask): Promise<AidenTask>
+  get(taskId: string): Promise<AidenTask | null>
+  update(taskId: string, patch: Partial<AidenTask>): Promise<AidenTask | null>
+  list(query?: AidenTaskQuery): Promise<AidenTask[]>
+}
+
+/**
+ * In-memory task store for local development and single-instance deployments
+ */
+export class InMemoryAidenTaskStore implements AidenTaskStore {
+  private tasks = new Map<string, AidenTask>()
+
+  async create(task: AidenTask): Promise<AidenTask> {
+    this.tasks.set(task.task_id, structuredClone(task))
+    return structuredClone(task)
+  }
+
+  async get(taskId: string): Promise<AidenTask | null> {
+    const task = this.tasks.get(taskId)
+    return task ? structuredClone(task) : null
+  }
+
+  async update(taskId: string, patch: Partial<AidenTask>): Promise<AidenTask | null> {
+    const existing = this.tasks.get(taskId)
+    if (!existing) return null
+
+    const updated: AidenTask = {
+      ...existing,
+      ...patch,
+      task_id: existing.task_id,
+      updated_at: new Date().toISOString(),
+    }
+
+    this.tasks.set(taskId, updated)
+    return structuredClone(updated)
+  }
+
+  async list(query: AidenTaskQuery = {}): Promise<AidenTask[]> {
+    const { status, taskType, userId, limit = 100 } = query
+
+    return Array.from(this.tasks.values())
+      .filter((task) => !status || task.status === status)
+      .filter((task) => !taskType || task.task_type === taskType)
+      .filter((task) => !userId || task.user_id === userId)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .slice(0, limit)
+      .map((task) => structuredClone(task))
+  }
+}
@@ -0,0 +1,169 @@
+/**
+ * Shared AIDEN task subscriptions
+ * Every component watching the same task shares one server-sent event stream,
+ * with status polling used only when the stream is unavailable
+ */
+
+import { isTerminalStatus, type AidenTaskStatusResponse } from "@/lib/aiden/aiden-client"
+
+export type AidenTaskUpdateListener = (update: AidenTaskStatusResponse) => void
+
+export type AidenTaskTransport = "sse" | "polling"
+
+interface TaskSubscription {
+  taskId: string
+  listeners: Set<AidenTaskUpdateListener>
+  transport: AidenTaskTransport
+  source: EventSource | null
+  pollTimer: ReturnType<typeof setTimeout> | null
+  pollingInterval: number
+  streamErrors: number
+  lastUpdate: AidenTaskStatusResponse | null
+}
+
+/**
+ * Consecutive stream errors tolerated before falling back to polling
+ */
+const MAX_STREAM_ERRORS = 3
+
+const subscriptions = new Map<string, TaskSubscription>()
+
+function notify(subscription: TaskSubscription, update: AidenTaskStatusResponse) {
+  subscription.lastUpdate = update
+  subscription.listeners.forEach((listener) => listener(update))
+
+  if (isTerminalStatus(update.status)) {
+    closeTransport(subscription)
+  }
+}
+
+function closeTransport(subscription: TaskSubscription) {
+  subscription.source?.close()
+  subscription.source = null
+
+  if (subscription.pollTimer) {
+    clearTimeout(subscription.pollTimer)
+    subscription.pollTimer = null
+  }
+}
+
+function openStream(subscription: TaskSubscription) {
+  const source = new EventSource(`/api/aiden/tasks/${subscription.taskId}/events`)
+  subscription.source = source
+  subscription.transport = "sse"
+
+  source.addEventListener("task_update", (event) => {
+    subscription.streamErrors = 0
+    notify(subscription, JSON.parse((event as MessageEvent).data))
+  })
+
+  source.onerror = () => {
+    subscription.streamErrors++
+
+    if (source.readyState === EventSource.CLOSED || subscription.streamErrors >= MAX_STREAM_ERRORS) {
+      source.close()
+      subscription.source = null
+      startPolling(subscription)
+    }
+  }
+}
+
+function startPolling(subscription: TaskSubscription) {
+  subscription.transport = "polling"
+
+  const poll = async () => {
+    subscription.pollTimer = null
+
+    try {
+      const response = await fetch(`/api/aiden/tasks/${subscription.taskId}/status`)
+
+      if (response.ok) {
+        notify(subscription, await response.json())
+      }
+    } catch {
+      // Keep polling through transient network errors
+    }
+
+    // Stop once the task is finished or everyone has unsubscribed
+    if (subscriptions.get(subscription.taskId) !== subscription) return
+    if (isTerminalStatus(subscription.lastUpdate?.status)) return
+
+    subscription.pollTimer = setTimeout(poll, subscription.pollingInterval)
+  }
+
+  poll()
+}
+
+/**
+ * Watch a task's status updates, returns the unsubscribe function
+ * Late subscribers immediately receive the most recent update
+ */
+export function subscribeToTask(
+  taskId: string,
+  listener: AidenTaskUpdateListener,
+  options: { pollingInterval?: number } = {},
+): () => void {
+  let subscription = subscriptions.get(taskId)
+
+  if (!subscription) {
+    subscription = {
+      taskId,
+      listeners: new Set(),
+      transport: "sse",
+      source: null,
+      pollTimer: null,
+      pollingInterval: options.pollingInterval || 3000,
+      streamErrors: 0,
+      lastUpdate: null,
+    }
+    subscriptions.set(taskId, subscription)
+
+    if (typeof EventSource === "undefined") {
+      startPolling(subscription)
+    } else {
+      openStream(subscription)
+    }
+  }
+
+  subscription.listeners.add(listener)
+
+  if (subscription.lastUpdate) {
+    listener(subscription.lastUpdate)
+  }
+
+  const current = subscription
+  return () => {
+    current.listeners.delete(listener)
+
+    if (current.listeners.size === 0) {
+      closeTransport(current)
+      subscriptions.delete(taskId)
+    }
+  }
+}
+
+/**
+ * Reopen a task's updates after it has been re-queued, e.g. by a retry
+ * Clears the cached terminal status so subscribers don't mistake it for the new outcome
+ */
+export function resumeTaskSubscription(taskId: string) {
+  const subscription = subscriptions.get(taskId)
+  if (!subscription) return
+
+  closeTransport(subscription)
+  subscription.lastUpdate = null
+  subscription.streamErrors = 0
+
+  if (typeof EventSource === "undefined") {
+    startPolling(subscription)
+  } else {
+    openStream(subscription)
+  }
+}
+
+/**
+ * Transport currently used for a task, for diagnostics
+ */
+export function getTaskTransport(taskId: string): AidenTaskTransport | null {
+  return subscriptions.get(taskId)?.transport || null
+}
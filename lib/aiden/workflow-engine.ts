@@ -0,0 +1,437 @@
+/**
+ * AIDEN Workflow Engine
+ * Runs multi-step workflows as a DAG of AIDEN tasks. A step is submitted once all of its
+ * dependencies have completed and receives their results in its payload.
+ */
+
+import {
+  AidenTaskStatus,
+  AidenWorkflowStatus,
+  AidenWorkflowStepStatus,
+  isTerminalStatus,
+  type AidenTaskStatusResponse,
+  type AidenWorkflowDefinition,
+  type AidenWorkflowRun,
+  type AidenWorkflowStepRun,
+} from "@/lib/aiden/aiden-client"
+import { getAidenEventBus, type AidenEventBus } from "@/lib/aiden/aiden-events"
+import { AidenWebSocketEventType } from "@/lib/aiden/aiden-websocket"
+import { AidenTaskError, getAidenTaskEngine, type AidenTaskEngine } from "@/lib/aiden/task-engine"
+import { InMemoryAidenWorkflowStore, type AidenWorkflowQuery, type AidenWorkflowStore } from "@/lib/aiden/workflow-store"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+export interface AidenWorkflowEngineOptions {
+  store?: AidenWorkflowStore
+  events?: AidenEventBus
+}
+
+const TERMINAL_STEP_STATUSES = [
+  AidenWorkflowStepStatus.COMPLETED,
+  AidenWorkflowStepStatus.FAILED,
+  AidenWorkflowStepStatus.CANCELLED,
+  AidenWorkflowStepStatus.SKIPPED,
+]
+
+const UNSUCCESSFUL_STEP_STATUSES = [
+  AidenWorkflowStepStatus.FAILED,
+  AidenWorkflowStepStatus.CANCELLED,
+  AidenWorkflowStepStatus.SKIPPED,
+]
+
+const STEP_STATUS_BY_TASK_STATUS: Record<AidenTaskStatus, AidenWorkflowStepStatus> = {
+  [AidenTaskStatus.QUEUED]: AidenWorkflowStepStatus.QUEUED,
+  [AidenTaskStatus.PROCESSING]: AidenWorkflowStepStatus.PROCESSING,
+  [AidenTaskStatus.COMPLETED]: AidenWorkflowStepStatus.COMPLETED,
+  [AidenTaskStatus.FAILED]: AidenWorkflowStepStatus.FAILED,
+  [AidenTaskStatus.CANCELLED]: AidenWorkflowStepStatus.CANCELLED,
+}
+
+function isStepTerminal(step: AidenWorkflowStepRun): boolean {
+  return TERMINAL_STEP_STATUSES.includes(step.status)
+}
+
+function isRunTerminal(run: AidenWorkflowRun): boolean {
+  return run.status !== AidenWorkflowStatus.RUNNING
+}
+
+/**
+ * Read a dotted path such as "variants.0.gene" from a value
+ */
+function readPath(value: any, path: string[]): any {
+  return path.reduce((current, key) => (current == null ? undefined : current[key]), value)
+}
+
+export class AidenWorkflowEngine {
+  private readonly store: AidenWorkflowStore
+  private readonly runLocks = new Map<string, Promise<void>>()
+
+  constructor(
+    private readonly taskEngine: AidenTaskEngine,
+    options: AidenWorkflowEngineOptions = {},
+  ) {
+    this.store = options.store || new InMemoryAidenWorkflowStore()
+
+    options.events?.subscribe((event) => {
+      if (event.event_type !== AidenWebSocketEventType.TASK_UPDATE) return
+
+      this.handleTaskUpdate(event.payload).catch((error) => {
+        logger.error("Failed to apply task update to workflow", {
+          taskId: event.payload?.task_id,
+          error: error instanceof Error ? error.message : "Unknown error",
+        })
+      })
+    })
+  }
+
+  /**
+   * Check that a definition is a well-formed DAG of supported task types
+   */
+  validate(definition: AidenWorkflowDefinition) {
+    if (!definition?.name) {
+      throw new AidenTaskError("Workflow name is required")
+    }
+
+    if (!Array.isArray(definition.steps) || definition.steps.length === 0) {
+      throw new AidenTaskError("Workflow must have at least one step")
+    }
+
+    if (definition.failure_policy && !["fail_fast", "continue"].includes(definition.failure_policy)) {
+      throw new AidenTaskError(`Unknown failure policy: ${definition.failure_policy}`)
+    }
+
+    const stepIds = new Set<string>()
+    definition.steps.forEach((step) => {
+      if (!step.id) {
+        throw new AidenTaskError("Every workflow step needs an id")
+      }
+      if (stepIds.has(step.id)) {
+        throw new AidenTaskError(`Duplicate workflow step id: ${step.id}`)
+      }
+      if (!this.taskEngine.hasHandler(step.task_type)) {
+        throw new AidenTaskError(`Step ${step.id} has unsupported task type: ${step.task_type}`)
+      }
+      stepIds.add(step.id)
+    })
+
+    definition.steps.forEach((step) => {
+      const dependencies = step.depends_on || []
+
+      dependencies.forEach((dependency) => {
+        if (!stepIds.has(dependency)) {
+          throw new AidenTaskError(`Step ${step.id} depends on unknown step ${dependency}`)
+        }
+      })
+
+      Object.entries(step.inputs || {}).forEach(([field, reference]) => {
+        const [sourceStep] = reference.split(".")
+        if (!dependencies.includes(sourceStep)) {
+          throw new AidenTaskError(`Input ${field} of step ${step.id} reads from ${sourceStep}, which it does not depend on`)
+        }
+      })
+    })
+
+    // Kahn's algorithm: any step left unvisited sits on a cycle
+    const remaining = new Map(definition.steps.map((step) => [step.id, new Set(step.depends_on || [])]))
+    let progressed = true
+    while (remaining.size > 0 && progressed) {
+      progressed = false
+      remaining.forEach((dependencies, stepId) => {
+        if (Array.from(dependencies).every((dependency) => !remaining.has(dependency))) {
+          remaining.delete(stepId)
+          progressed = true
+        }
+      })
+    }
+
+    if (remaining.size > 0) {
+      throw new AidenTaskError(`Workflow has a dependency cycle between: ${Array.from(remaining.keys()).join(", ")}`)
+    }
+  }
+
+  /**
+   * Validate and start a workflow, submitting every step without dependencies
+   */
+  async submit(definition: AidenWorkflowDefinition, userId?: string | null): Promise<AidenWorkflowRun> {
+    this.validate(definition)
+
+    const now = new Date().toISOString()
+    const run = await this.store.create({
+      run_id: crypto.randomUUID(),
+      name: definition.name,
+      description: definition.description || null,
+      status: AidenWorkflowStatus.RUNNING,
+      failure_policy: definition.failure_policy || "continue",
+      definition,
+      steps: definition.steps.map((step) => ({
+        step_id: step.id,
+        task_type: step.task_type,
+        depends_on: step.depends_on || [],
+        status: AidenWorkflowStepStatus.PENDING,
+        task_id: null,
+        error: null,
+        started_at: null,
+        completed_at: null,
+      })),
+      user_id: userId || null,
+      created_at: now,
+      updated_at: now,
+      completed_at: null,
+    })
+
+    logger.info("AIDEN workflow started", { runId: run.run_id, name: run.name, steps: run.steps.length })
+
+    await this.withRunLock(run.run_id, () => this.advance(run.run_id))
+    return (await this.store.get(run.run_id))!
+  }
+
+  async getRun(runId: string): Promise<AidenWorkflowRun | null> {
+    return this.store.get(runId)
+  }
+
+  async listRuns(query?: AidenWorkflowQuery): Promise<AidenWorkflowRun[]> {
+    return this.store.list(query)
+  }
+
+  /**
+   * Cancel every unfinished step of a workflow
+   */
+  async cancel(runId: string): Promise<AidenWorkflowRun> {
+    await this.withRunLock(runId, async () => {
+      const run = await this.store.get(runId)
+
+      if (!run) {
+        throw new AidenTaskError(`Workflow run ${runId} not found`, 404)
+      }
+
+      if (isRunTerminal(run)) {
+        throw new AidenTaskError(`Workflow run ${runId} is already ${run.status}`, 409)
+      }
+
+      const steps = await this.stopUnfinishedSteps(run.steps, "Workflow cancelled")
+      const now = new Date().toISOString()
+
+      await this.store.update(runId, { steps, status: AidenWorkflowStatus.CANCELLED, completed_at: now })
+      logger.info("AIDEN workflow cancelled", { runId })
+    })
+
+    return (await this.store.get(runId))!
+  }
+
+  /**
+   * Serialize changes to a run so concurrent task updates can't overwrite each other
+   */
+  private withRunLock(runId: string, fn: () => Promise<void>): Promise<void> {
+    const previous = this.runLocks.get(runId) || Promise.resolve()
+    const next = previous.catch(() => {}).then(fn)
+
+    this.runLocks.set(runId, next)
+    next
+      .catch(() => {})
+      .finally(() => {
+        if (this.runLocks.get(runId) === next) this.runLocks.delete(runId)
+      })
+
+    return next
+  }
+
+  private async handleTaskUpdate(update: AidenTaskStatusResponse) {
+    const task = await this.taskEngine.getTask(update.task_id)
+    const runId = task?.metadata?.workflow_run_id
+    const stepId = task?.metadata?.workflow_step_id
+    if (!runId || !stepId) return
+
+    await this.withRunLock(runId, async () => {
+      const run = await this.store.get(runId)
+      const step = run?.steps.find((candidate) => candidate.step_id === stepId)
+      if (!run || !step || step.task_id !== update.task_id) return
+
+      const previousStatus = step.status
+      const status = STEP_STATUS_BY_TASK_STATUS[update.status]
+      const now = new Date().toISOString()
+
+      let steps = run.steps.map((candidate) =>
+        candidate.step_id === stepId
+          ? {
+              ...candidate,
+              status,
+              error: update.error,
+              started_at: candidate.started_at || update.started_at,
+              completed_at: update.completed_at,
+            }
+          : candidate,
+      )
+      let runPatch: Partial<AidenWorkflowRun> = { steps }
+
+      // A failed step that was retried by hand re-opens the workflow for its dependents
+      if (UNSUCCESSFUL_STEP_STATUSES.includes(previousStatus) && !isTerminalStatus(update.status)) {
+        steps = this.resetSkippedDependents(steps, stepId)
+        runPatch = { steps, status: AidenWorkflowStatus.RUNNING, completed_at: null }
+        logger.info("AIDEN workflow resumed after step retry", { runId, stepId })
+      }
+
+      if (status === AidenWorkflowStepStatus.FAILED && run.failure_policy === "fail_fast" && !isRunTerminal(run)) {
+        steps = await this.stopUnfinishedSteps(steps, `Stopped after step ${stepId} failed`)
+        runPatch = { steps, status: AidenWorkflowStatus.FAILED, completed_at: now }
+        logger.warn("AIDEN workflow failed fast", { runId, stepId })
+      }
+
+      await this.store.update(runId, runPatch)
+      await this.advance(runId)
+    })
+  }
+
+  /**
+   * Submit steps whose dependencies completed, skip steps whose dependencies did not,
+   * and settle the run status once every step is finished
+   */
+  private async advance(runId: string) {
+    const run = await this.store.get(runId)
+    if (!run || isRunTerminal(run)) return
+
+    const steps = run.steps.map((step) => ({ ...step }))
+    const byId = new Map(steps.map((step) => [step.step_id, step]))
+    let changed = true
+
+    while (changed) {
+      changed = false
+
+      for (const step of steps) {
+        if (step.status !== AidenWorkflowStepStatus.PENDING) continue
+
+        const dependencies = step.depends_on.map((dependency) => byId.get(dependency)!)
+        const blocker = dependencies.find((dependency) => UNSUCCESSFUL_STEP_STATUSES.includes(dependency.status))
+
+        if (blocker) {
+          step.status = AidenWorkflowStepStatus.SKIPPED
+          step.error = `Skipped because step ${blocker.step_id} ${blocker.status}`
+          step.completed_at = new Date().toISOString()
+          changed = true
+          continue
+        }
+
+        if (dependencies.every((dependency) => dependency.status === AidenWorkflowStepStatus.COMPLETED)) {
+          await this.submitStep(run, step, dependencies)
+          changed = true
+        }
+      }
+    }
+
+    const patch: Partial<AidenWorkflowRun> = { steps }
+
+    if (steps.every(isStepTerminal)) {
+      const completed = steps.filter((step) => step.status === AidenWorkflowStepStatus.COMPLETED).length
+      const failed = steps.some((step) => step.status === AidenWorkflowStepStatus.FAILED)
+
+      // Without completed or failed steps, every step was cancelled or skipped after a cancellation
+      patch.status =
+        completed === steps.length
+          ? AidenWorkflowStatus.COMPLETED
+          : completed === 0 && !failed
+            ? AidenWorkflowStatus.CANCELLED
+            : completed === 0 || (failed && run.failure_policy === "fail_fast")
+              ? AidenWorkflowStatus.FAILED
+              : AidenWorkflowStatus.PARTIALLY_COMPLETED
+      patch.completed_at = new Date().toISOString()
+
+      logger.info("AIDEN workflow finished", { runId, status: patch.status })
+    }
+
+    await this.store.update(runId, patch)
+  }
+
+  private async submitStep(run: AidenWorkflowRun, step: AidenWorkflowStepRun, dependencies: AidenWorkflowStepRun[]) {
+    const definition = run.definition.steps.find((candidate) => candidate.id === step.step_id)!
+
+    try {
+      const upstream: Record<string, any> = {}
+      for (const dependency of dependencies) {
+        upstream[dependency.step_id] = (await this.taskEngine.getTask(dependency.task_id!))?.result ?? null
+      }
+
+      const inputs = Object.fromEntries(
+        Object.entries(definition.inputs || {}).map(([field, reference]) => {
+          const [sourceStep, ...path] = reference.split(".")
+          return [field, readPath(upstream[sourceStep], path)]
+        }),
+      )
+
+      const task = await this.taskEngine.submit({
+        task_type: definition.task_type,
+        priority: definition.priority,
+        payload: { ...definition.payload, ...inputs, upstream },
+        metadata: { workflow_run_id: run.run_id, workflow_step_id: step.step_id, workflow_name: run.name },
+        user_id: run.user_id,
+      })
+
+      step.status = AidenWorkflowStepStatus.QUEUED
+      step.task_id = task.task_id
+    } catch (error) {
+      step.status = AidenWorkflowStepStatus.FAILED
+      step.error = error instanceof Error ? error.message : "Failed to submit step"
+      step.completed_at = new Date().toISOString()
+    }
+  }
+
+  /**
+   * Cancel running steps and skip pending ones
+   */
+  private async stopUnfinishedSteps(steps: AidenWorkflowStepRun[], reason: string): Promise<AidenWorkflowStepRun[]> {
+    const now = new Date().toISOString()
+
+    return Promise.all(
+      steps.map(async (step) => {
+        if (isStepTerminal(step)) return step
+
+        if (step.status === AidenWorkflowStepStatus.PENDING) {
+          return { ...step, status: AidenWorkflowStepStatus.SKIPPED, error: reason, completed_at: now }
+        }
+
+        try {
+          await this.taskEngine.cancel(step.task_id!, reason)
+        } catch (error) {
+          // The task finished in the meantime, its own update settles the step
+          if (error instanceof AidenTaskError) return step
+          throw error
+        }
+
+        return { ...step, status: AidenWorkflowStepStatus.CANCELLED, error: reason, completed_at: now }
+      }),
+    )
+  }
+
+  /**
+   * Return steps skipped because of the given step (directly or transitively) to pending
+   */
+  private resetSkippedDependents(steps: AidenWorkflowStepRun[], stepId: string): AidenWorkflowStepRun[] {
+    const reset = new Set<string>()
+    const frontier = [stepId]
+
+    while (frontier.length > 0) {
+      const current = frontier.pop()!
+      steps.forEach((step) => {
+        if (step.status === AidenWorkflowStepStatus.SKIPPED && step.depends_on.includes(current) && !reset.has(step.step_id)) {
+          reset.add(step.step_id)
+          frontier.push(step.step_id)
+        }
+      })
+    }
+
+    return steps.map((step) =>
+      reset.has(step.step_id)
+        ? { ...step, status: AidenWorkflowStepStatus.PENDING, error: null, completed_at: null }
+        : step,
+    )
+  }
+}
+
+const globalForAiden = globalThis as unknown as { aidenWorkflowEngine?: AidenWorkflowEngine }
+
+export function getAidenWorkflowEngine(): AidenWorkflowEngine {
+  if (!globalForAiden.aidenWorkflowEngine) {
+    globalForAiden.aidenWorkflowEngine = new AidenWorkflowEngine(getAidenTaskEngine(), {
+      events: getAidenEventBus(),
+    })
+  }
+
+  return globalForAiden.aidenWorkflowEngine
+}
@@ -0,0 +1,62 @@
+/**
+ * AIDEN workflow run persistence
+ * Mirrors the task store so runs can move to a database alongside their tasks
+ */
+
+import type { AidenWorkflowRun, AidenWorkflowStatus } from "@/lib/aiden/aiden-client"
+
+export interface AidenWorkflowQuery {
+  status?: AidenWorkflowStatus
+  userId?: string
+  limit?: number
+}
+
+export interface AidenWorkflowStore {
+  create(run: AidenWorkflowRun): Promise<AidenWorkflowRun>
+  get(runId: string): Promise<AidenWorkflowRun | null>
+  update(runId: string, patch: Partial<AidenWorkflowRun>): Promise<AidenWorkflowRun | null>
+  list(query?: AidenWorkflowQuery): Promise<AidenWorkflowRun[]>
+}
+
+/**
+ * In-memory workflow store for local development and single-instance deployments
+ */
+export class InMemoryAidenWorkflowStore implements AidenWorkflowStore {
+  private runs = new Map<string, AidenWorkflowRun>()
+
+  async create(run: AidenWorkflowRun): Promise<AidenWorkflowRun> {
+    this.runs.set(run.run_id, structuredClone(run))
+    return structuredClone(run)
+  }
+
+  async get(runId: string): Promise<AidenWorkflowRun | null> {
+    const run = this.runs.get(runId)
+    return run ? structuredClone(run) : null
+  }
+
+  async update(runId: string, patch: Partial<AidenWorkflowRun>): Promise<AidenWorkflowRun | null> {
+    const existing = this.runs.get(runId)
+    if (!existing) return null
+
+    const updated: AidenWorkflowRun = {
+      ...existing,
+      ...patch,
+      run_id: existing.run_id,
+      updated_at: new Date().toISOString(),
+    }
+
+    this.runs.set(runId, updated)
+    return structuredClone(updated)
+  }
+
+  async list(query: AidenWorkflowQuery = {}): Promise<AidenWorkflowRun[]> {
+    const { status, userId, limit = 50 } = query
+
+    return Array.from(this.runs.values())
+      .filter((run) => !status || run.status === status)
+      .filter((run) => !userId || run.user_id === userId)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .slice(0, limit)
+      .map((run) => structuredClone(run))
+  }
+}
@@ -0,0 +1,66 @@
+export enum RoleType {
+  ADMIN = "admin",
+  CLINICIAN = "clinician",
+  RESEARCHER = "researcher",
+  LAB_TECHNICIAN = "lab_technician",
+  PATIENT = "patient",
+  DEVELOPER = "developer",
+}
+
+export enum Permission {
+  MANAGE_AIDEN_TASKS = "aiden_tasks:manage",
+  VIEW_ALL_AIDEN_TASKS = "aiden_tasks:view_all",
+  VIEW_CLINICAL_EVENTS = "clinical_events:view",
+  MANAGE_ANOMALY_RULES = "anomaly_rules:manage",
+  RUN_BULK_EXPORT = "bulk_export:run",
+  VIEW_COHORT_DATA = "cohort_data:view",
+  SIGN_CLINICAL_DOCUMENTS = "clinical_documents:sign",
+  MANAGE_FHIR_SUBSCRIPTIONS = "fhir_subscriptions:manage",
+  RESOLVE_PATIENT_CONFLICTS = "patient_conflicts:resolve",
+  CURATE_VARIANTS = "variants:curate",
+}
+
+export const ROLE_PERMISSIONS: Record<RoleType, Permission[]> = {
+  [RoleType.ADMIN]: [
+    Permission.MANAGE_AIDEN_TASKS,
+    Permission.VIEW_ALL_AIDEN_TASKS,
+    Permission.VIEW_CLINICAL_EVENTS,
+    Permission.MANAGE_ANOMALY_RULES,
+    Permission.RUN_BULK_EXPORT,
+    Permission.VIEW_COHORT_DATA,
+    Permission.SIGN_CLINICAL_DOCUMENTS,
+    Permission.MANAGE_FHIR_SUBSCRIPTIONS,
+    Permission.RESOLVE_PATIENT_CONFLICTS,
+    Permission.CURATE_VARIANTS,
+  ],
+  [RoleType.CLINICIAN]: [
+    Permission.MANAGE_AIDEN_TASKS,
+    Permission.VIEW_CLINICAL_EVENTS,
+    Permission.VIEW_COHORT_DATA,
+    Permission.SIGN_CLINICAL_DOCUMENTS,
+    Permission.RESOLVE_PATIENT_CONFLICTS,
+  ],
+  [RoleType.RESEARCHER]: [Permission.RUN_BULK_EXPORT, Permission.VIEW_COHORT_DATA],
+  [RoleType.LAB_TECHNICIAN]: [
+    Permission.MANAGE_AIDEN_TASKS,
+    Permission.VIEW_CLINICAL_EVENTS,
+    Permission.RESOLVE_PATIENT_CONFLICTS,
+    Permission.CURATE_VARIANTS,
+  ],
+  [RoleType.PATIENT]: [],
+  [RoleType.DEVELOPER]: [Permission.MANAGE_AIDEN_TASKS],
+}
+
+/**
+ * Check whether any of the given roles grants a permission
+ */
+export function hasPermission(roles: Array<RoleType | string>, permission: Permission): boolean {
+  return roles.some((role) => ROLE_PERMISSIONS[role as RoleType]?.includes(permission))
+}
+
+/**
+ * Roles that grant a permission, for client-side guards such as RoleGuard
+ */
+export function rolesWithPermission(permission: Permission): RoleType[] {
+  return (Object.keys(ROLE_PERMISSIONS) as RoleType[]).filter((role) => ROLE_PERMISSIONS[role].includes(permission))
+}
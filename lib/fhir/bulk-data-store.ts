@@ -0,0 +1,206 @@
+/**
+ * FHIR Bulk Data persistence
+ * Export jobs and the NDJSON they download are kept on local disk so large exports survive restarts
+ * and interrupted downloads can resume where they stopped
+ */
+
+import { createReadStream } from "node:fs"
+import { appendFile, mkdir, readFile, readdir, rename, rm, writeFile } from "node:fs/promises"
+import path from "node:path"
+import { createInterface } from "node:readline"
+import type { FhirResource } from "@/lib/fhir/fhir-client"
+
+export type BulkExportLevel = "system" | "patient" | "group"
+
+export type BulkExportStatus = "accepted" | "in-progress" | "downloading" | "completed" | "failed" | "cancelled"
+
+export interface BulkExportFile {
+  type: string
+  url: string
+  /** Resource count from the manifest, when the server reports it */
+  count: number | null
+  lines_loaded: number
+  /** Bytes of complete lines loaded, the offset a resumed download starts from */
+  bytes_loaded: number
+  complete: boolean
+}
+
+export interface BulkExportJob {
+  id: string
+  level: BulkExportLevel
+  group_id: string | null
+  types: string[]
+  since: string | null
+  status: BulkExportStatus
+  /** FHIR server the export runs on */
+  server: string
+  /** Polling location returned by the kick-off request */
+  status_url: string | null
+  /** X-Progress reported by the server while it prepares the files */
+  progress: string | null
+  transaction_time: string | null
+  requires_access_token: boolean
+  files: BulkExportFile[]
+  /** Messages from the manifest's OperationOutcome files */
+  errors: string[]
+  error: string | null
+  requested_by: string
+  created_at: string
+  updated_at: string
+  completed_at: string | null
+}
+
+export interface BulkDataStore {
+  listJobs(): Promise<BulkExportJob[]>
+  getJob(jobId: string): Promise<BulkExportJob | null>
+  saveJob(job: BulkExportJob): Promise<BulkExportJob>
+  deleteJob(jobId: string): Promise<boolean>
+  /** Append NDJSON lines of one resource type to a job's data */
+  appendResources(jobId: string, resourceType: string, lines: string[]): Promise<void>
+  readResources(jobId: string, resourceType: string): AsyncGenerator<FhirResource>
+  /** Resource types with data stored for a job */
+  listResourceTypes(jobId: string): Promise<string[]>
+}
+
+function newestFirst(jobs: BulkExportJob[]): BulkExportJob[] {
+  return jobs.sort((a, b) => b.created_at.localeCompare(a.created_at))
+}
+
+export class InMemoryBulkDataStore implements BulkDataStore {
+  private jobs = new Map<string, BulkExportJob>()
+  private resources = new Map<string, Map<string, string[]>>()
+
+  async listJobs(): Promise<BulkExportJob[]> {
+    return newestFirst(Array.from(this.jobs.values(), (job) => structuredClone(job)))
+  }
+
+  async getJob(jobId: string): Promise<BulkExportJob | null> {
+    const job = this.jobs.get(jobId)
+    return job ? structuredClone(job) : null
+  }
+
+  async saveJob(job: BulkExportJob): Promise<BulkExportJob> {
+    this.jobs.set(job.id, structuredClone(job))
+    return structuredClone(job)
+  }
+
+  async deleteJob(jobId: string): Promise<boolean> {
+    this.resources.delete(jobId)
+    return this.jobs.delete(jobId)
+  }
+
+  async appendResources(jobId: string, resourceType: string, lines: string[]): Promise<void> {
+    const byType = this.resources.get(jobId) || new Map<string, string[]>()
+    byType.set(resourceType, [...(byType.get(resourceType) || []), ...lines])
+    this.resources.set(jobId, byType)
+  }
+
+  async *readResources(jobId: string, resourceType: string): AsyncGenerator<FhirResource> {
+    for (const line of this.resources.get(jobId)?.get(resourceType) || []) {
+      yield JSON.parse(line)
+    }
+  }
+
+  async listResourceTypes(jobId: string): Promise<string[]> {
+    return Array.from(this.resources.get(jobId)?.keys() || [])
+  }
+}
+
+/**
+ * Jobs as JSON files and resources as one NDJSON file per type under a data directory:
+ * jobs/<id>.json and data/<id>/<Type>.ndjson
+ */
+export class FileBulkDataStore implements BulkDataStore {
+  constructor(private readonly directory: string) {}
+
+  async listJobs(): Promise<BulkExportJob[]> {
+    const files = await readdir(this.jobsDirectory()).catch(() => [] as string[])
+    const jobs = await Promise.all(
+      files.filter((file) => file.endsWith(".json")).map((file) => this.getJob(file.replace(/\.json$/, ""))),
+    )
+    return newestFirst(jobs.filter(Boolean) as BulkExportJob[])
+  }
+
+  async getJob(jobId: string): Promise<BulkExportJob | null> {
+    if (!isSafeName(jobId)) return null
+
+    try {
+      return JSON.parse(await readFile(this.jobPath(jobId), "utf8"))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null
+      throw error
+    }
+  }
+
+  async saveJob(job: BulkExportJob): Promise<BulkExportJob> {
+    const target = this.jobPath(job.id)
+
+    // Progress is saved after every batch, so replace the file whole rather than leave it half written
+    await mkdir(this.jobsDirectory(), { recursive: true })
+    await writeFile(`${target}.tmp`, JSON.stringify(job, null, 2))
+    await rename(`${target}.tmp`, target)
+    return job
+  }
+
+  async deleteJob(jobId: string): Promise<boolean> {
+    if ((await this.getJob(jobId)) === null) return false
+
+    await rm(this.jobPath(jobId), { force: true })
+    await rm(this.dataDirectory(jobId), { recursive: true, force: true })
+    return true
+  }
+
+  async appendResources(jobId: string, resourceType: string, lines: string[]): Promise<void> {
+    if (lines.length === 0) return
+
+    await mkdir(this.dataDirectory(jobId), { recursive: true })
+    await appendFile(this.dataPath(jobId, resourceType), lines.map((line) => `${line}\n`).join(""))
+  }
+
+  async *readResources(jobId: string, resourceType: string): AsyncGenerator<FhirResource> {
+    const stream = createReadStream(this.dataPath(jobId, resourceType), { encoding: "utf8" })
+    const lines = createInterface({ input: stream, crlfDelay: Infinity })
+
+    try {
+      for await (const line of lines) {
+        if (line.trim()) yield JSON.parse(line)
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error
+    } finally {
+      lines.close()
+      stream.destroy()
+    }
+  }
+
+  async listResourceTypes(jobId: string): Promise<string[]> {
+    const files = await readdir(this.dataDirectory(jobId)).catch(() => [] as string[])
+    return files.filter((file) => file.endsWith(".ndjson")).map((file) => file.replace(/\.ndjson$/, ""))
+  }
+
+  private jobsDirectory(): string {
+    return path.join(this.directory, "jobs")
+  }
+
+  // Ids and types come from requests, so only plain names are turned into paths
+  private jobPath(jobId: string): string {
+    return path.join(this.jobsDirectory(), `${safeName(jobId)}.json`)
+  }
+
+  private dataDirectory(jobId: string): string {
+    return path.join(this.directory, "data", safeName(jobId))
+  }
+
+  private dataPath(jobId: string, resourceType: string): string {
+    return path.join(this.dataDirectory(jobId), `${safeName(resourceType)}.ndjson`)
+  }
+}
+
+function isSafeName(name: string): boolean {
+  return /^[A-Za-z0-9_-][A-Za-z0-9._-]*$/.test(name)
+}
+
+function safeName(name: string): string {
+  if (!isSafeName(name)) throw new Error(`Invalid bulk data name: ${name}`)
+  return name
+}
@@ -0,0 +1,590 @@
+/**
+ * FHIR Bulk Data Access ($export) client
+ * Kicks off system, patient or group exports, polls the status endpoint, and streams the NDJSON output
+ * into the bulk data store, resuming partial downloads with Range requests
+ */
+
+import path from "node:path"
+import { setTimeout as sleep } from "node:timers/promises"
+import { FhirError, type FhirClient, type FhirResource } from "@/lib/fhir/fhir-client"
+import {
+  FileBulkDataStore,
+  type BulkDataStore,
+  type BulkExportFile,
+  type BulkExportJob,
+  type BulkExportLevel,
+} from "@/lib/fhir/bulk-data-store"
+import { toCodedValue } from "@/lib/fhir/fhir-transformer"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+export interface BulkExportRequest {
+  level: BulkExportLevel
+  group_id?: string
+  /** Resource types to export, all types when empty */
+  types?: string[]
+  /** Only resources updated since this instant */
+  since?: string
+}
+
+export interface BulkDataQuery {
+  /** Defaults to the latest completed export */
+  job_id?: string
+  type: string
+  /** Patient id the resources belong to */
+  patient?: string
+  /** Code on the resource's main concept, as code or system|code */
+  code?: string
+  limit?: number
+  offset?: number
+}
+
+export interface BulkDataQueryResult {
+  job_id: string
+  total: number
+  resources: FhirResource[]
+}
+
+export interface BulkCodeCount {
+  code: string
+  display: string
+  /** Distinct patients with the code */
+  patients: number
+}
+
+export interface BulkDataSummary {
+  job_id: string
+  transaction_time: string | null
+  resource_counts: Record<string, number>
+  patient_count: number
+  top_conditions: BulkCodeCount[]
+  top_observations: BulkCodeCount[]
+}
+
+export class BulkExportError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode = 400,
+  ) {
+    super(message)
+    this.name = "BulkExportError"
+  }
+}
+
+export interface BulkExportManagerOptions {
+  store?: BulkDataStore
+  /** Wait between status checks when the server sends no Retry-After */
+  pollIntervalMs?: number
+  maxPollIntervalMs?: number
+  /** Lines written to the store per batch; progress is saved after each batch */
+  batchSize?: number
+  /** Used for output files that do not require the access token, which may live outside the FHIR server */
+  fetch?: typeof fetch
+}
+
+interface BulkExportManifest {
+  transactionTime?: string
+  requiresAccessToken?: boolean
+  output?: Array<{ type: string; url: string; count?: number }>
+  error?: Array<{ type: string; url: string }>
+}
+
+const VALID_LEVELS: BulkExportLevel[] = ["system", "patient", "group"]
+const RESOURCE_TYPE_PATTERN = /^[A-Z][A-Za-z]+$/
+const TOP_CODE_LIMIT = 10
+const STATUS_TIMEOUT_MS = 30000
+
+/** Reference fields that tie a resource to its patient */
+const PATIENT_REFERENCE_FIELDS = ["subject", "patient"]
+
+/** Main concept of a resource, matched by code queries and counted in summaries */
+function primaryConcept(resource: FhirResource) {
+  return resource.code || resource.vaccineCode || resource.medicationCodeableConcept
+}
+
+function patientIdOf(resource: FhirResource): string | undefined {
+  if (resource.resourceType === "Patient") return resource.id
+
+  const reference = PATIENT_REFERENCE_FIELDS.map((field) => resource[field]?.reference).find(
+    (value) => typeof value === "string" && value.startsWith("Patient/"),
+  )
+  return reference?.slice("Patient/".length)
+}
+
+function matchesCode(resource: FhirResource, code: string): boolean {
+  const [system, value] = code.includes("|") ? code.split("|") : [undefined, code]
+  return (primaryConcept(resource)?.coding || []).some(
+    (coding: any) => coding.code === value && (!system || coding.system === system),
+  )
+}
+
+/**
+ * Wait from a Retry-After header, which is either seconds or an HTTP date
+ */
+function retryAfterMs(header: string | null, fallbackMs: number): number {
+  if (!header) return fallbackMs
+
+  const seconds = Number(header)
+  if (Number.isFinite(seconds)) return seconds * 1000
+
+  const date = Date.parse(header)
+  return Number.isNaN(date) ? fallbackMs : date - Date.now()
+}
+
+export class BulkExportManager {
+  private readonly store: BulkDataStore
+  private readonly fetchImpl: typeof fetch
+  private running = new Map<string, Promise<BulkExportJob>>()
+  private controllers = new Map<string, AbortController>()
+
+  constructor(private readonly options: BulkExportManagerOptions = {}) {
+    this.store = options.store || new FileBulkDataStore(path.join(process.cwd(), ".data", "fhir-bulk"))
+    this.fetchImpl = options.fetch || fetch
+  }
+
+  async listJobs(): Promise<BulkExportJob[]> {
+    return this.store.listJobs()
+  }
+
+  async getJob(jobId: string): Promise<BulkExportJob> {
+    const job = await this.store.getJob(jobId)
+    if (!job) throw new BulkExportError(`Bulk export ${jobId} not found`, 404)
+    return job
+  }
+
+  validateRequest(input: any): BulkExportRequest {
+    const level = input?.level || "system"
+
+    if (!VALID_LEVELS.includes(level)) {
+      throw new BulkExportError(`level must be one of ${VALID_LEVELS.join(", ")}`)
+    }
+    if (level === "group" && (typeof input.group_id !== "string" || !input.group_id.trim())) {
+      throw new BulkExportError("group_id is required for group exports")
+    }
+
+    const types = input?.types ?? []
+    if (!Array.isArray(types) || types.some((type) => typeof type !== "string" || !RESOURCE_TYPE_PATTERN.test(type))) {
+      throw new BulkExportError("types must be a list of FHIR resource types")
+    }
+
+    if (input?.since !== undefined && (typeof input.since !== "string" || Number.isNaN(Date.parse(input.since)))) {
+      throw new BulkExportError("since must be an ISO date")
+    }
+
+    return { level, group_id: level === "group" ? input.group_id.trim() : undefined, types, since: input?.since }
+  }
+
+  /**
+   * Kick off an export; run() then waits for the files and downloads them
+   */
+  async start(client: FhirClient, input: unknown, requestedBy: string): Promise<BulkExportJob> {
+    const request = this.validateRequest(input)
+    const params = new URLSearchParams()
+    if (request.types?.length) params.set("_type", request.types.join(","))
+    if (request.since) params.set("_since", request.since)
+
+    const operation =
+      request.level === "system"
+        ? "$export"
+        : request.level === "patient"
+          ? "Patient/$export"
+          : `Group/${encodeURIComponent(request.group_id!)}/$export`
+    const query = params.toString()
+
+    const response = await client.send(`${operation}${query ? `?${query}` : ""}`, {
+      headers: { Accept: "application/fhir+json", Prefer: "respond-async" },
+    })
+
+    if (!response.ok) throw await client.toResponseError(response)
+
+    const statusUrl = response.headers.get("content-location")
+    if (response.status !== 202 || !statusUrl) {
+      throw new FhirError("FHIR server did not accept the export for asynchronous processing", 502)
+    }
+
+    const now = new Date().toISOString()
+    const job = await this.store.saveJob({
+      id: crypto.randomUUID(),
+      level: request.level,
+      group_id: request.group_id || null,
+      types: request.types || [],
+      since: request.since || null,
+      status: "accepted",
+      server: client.getBaseUrl(),
+      status_url: statusUrl,
+      progress: null,
+      transaction_time: null,
+      requires_access_token: true,
+      files: [],
+      errors: [],
+      error: null,
+      requested_by: requestedBy,
+      created_at: now,
+      updated_at: now,
+      completed_at: null,
+    })
+
+    logger.info("Bulk export started", { jobId: job.id, level: job.level, types: job.types })
+    return job
+  }
+
+  /**
+   * Wait for the export and download its files, picking up where an earlier run stopped
+   * Never rejects: failures are recorded on the job so they can be resumed
+   */
+  run(jobId: string, client: FhirClient): Promise<BulkExportJob> {
+    const existing = this.running.get(jobId)
+    if (existing) return existing
+
+    const controller = new AbortController()
+    const promise = this.execute(jobId, client, controller.signal).finally(() => {
+      this.running.delete(jobId)
+      this.controllers.delete(jobId)
+    })
+
+    this.running.set(jobId, promise)
+    this.controllers.set(jobId, controller)
+    return promise
+  }
+
+  isRunning(jobId: string): boolean {
+    return this.running.has(jobId)
+  }
+
+  /**
+   * Continue a failed or interrupted export
+   */
+  async resume(jobId: string, client: FhirClient): Promise<BulkExportJob> {
+    const job = await this.getJob(jobId)
+
+    if (job.status === "completed" || job.status === "cancelled") {
+      throw new BulkExportError(`Bulk export ${jobId} is ${job.status}`, 409)
+    }
+    if (job.server !== client.getBaseUrl()) {
+      throw new BulkExportError("Bulk export was started on a different FHIR server", 409)
+    }
+
+    if (!this.isRunning(jobId)) {
+      await this.update(job, { status: job.files.length > 0 ? "downloading" : "in-progress", error: null })
+      this.run(jobId, client)
+    }
+
+    return this.getJob(jobId)
+  }
+
+  /**
+   * Stop a running export and ask the server to discard its files
+   */
+  async cancel(jobId: string, client: FhirClient): Promise<BulkExportJob> {
+    const job = await this.getJob(jobId)
+    if (job.status === "completed" || job.status === "cancelled") return job
+
+    this.controllers.get(jobId)?.abort()
+    await this.running.get(jobId)
+
+    if (job.status_url && job.files.length === 0) {
+      try {
+        await client.send(job.status_url, { method: "DELETE" })
+      } catch (error) {
+        logger.warn("Failed to cancel bulk export on the FHIR server", {
+          jobId,
+          error: error instanceof Error ? error.message : "Unknown error",
+        })
+      }
+    }
+
+    const latest = await this.getJob(jobId)
+    return this.store.saveJob({ ...latest, status: "cancelled", updated_at: new Date().toISOString() })
+  }
+
+  /**
+   * Resources of one type from an export, filtered by patient and code
+   */
+  async query(query: BulkDataQuery): Promise<BulkDataQueryResult> {
+    const job = await this.resolveJob(query.job_id)
+    const limit = Math.min(Math.max(1, query.limit || 50), 500)
+    const offset = Math.max(0, query.offset || 0)
+    const resources: FhirResource[] = []
+    let total = 0
+
+    for await (const resource of this.store.readResources(job.id, query.type)) {
+      if (query.patient && patientIdOf(resource) !== query.patient) continue
+      if (query.code && !matchesCode(resource, query.code)) continue
+
+      if (total >= offset && resources.length < limit) resources.push(resource)
+      total++
+    }
+
+    return { job_id: job.id, total, resources }
+  }
+
+  /**
+   * Counts for the cohort dashboard: resources per type, patients, and the most common conditions and observations
+   */
+  async summarize(jobId?: string): Promise<BulkDataSummary> {
+    const job = await this.resolveJob(jobId)
+    const resourceCounts: Record<string, number> = {}
+    const patients = new Set<string>()
+    const codes: Record<string, Map<string, { display: string; patients: Set<string> }>> = {
+      Condition: new Map(),
+      Observation: new Map(),
+    }
+
+    for (const type of await this.store.listResourceTypes(job.id)) {
+      resourceCounts[type] = 0
+
+      for await (const resource of this.store.readResources(job.id, type)) {
+        resourceCounts[type]++
+
+        const patientId = patientIdOf(resource)
+        if (patientId) patients.add(patientId)
+
+        const counts = codes[type]
+        if (!counts || !patientId) continue
+
+        const concept = toCodedValue(primaryConcept(resource))
+        const key = concept.code ? `${concept.system || ""}|${concept.code}` : concept.display
+        const entry = counts.get(key) || { display: concept.display, patients: new Set<string>() }
+        entry.patients.add(patientId)
+        counts.set(key, entry)
+      }
+    }
+
+    const top = (counts: Map<string, { display: string; patients: Set<string> }>): BulkCodeCount[] =>
+      Array.from(counts, ([code, entry]) => ({ code, display: entry.display, patients: entry.patients.size }))
+        .sort((a, b) => b.patients - a.patients || a.display.localeCompare(b.display))
+        .slice(0, TOP_CODE_LIMIT)
+
+    return {
+      job_id: job.id,
+      transaction_time: job.transaction_time,
+      resource_counts: resourceCounts,
+      patient_count: patients.size,
+      top_conditions: top(codes.Condition),
+      top_observations: top(codes.Observation),
+    }
+  }
+
+  private async resolveJob(jobId?: string): Promise<BulkExportJob> {
+    if (jobId) return this.getJob(jobId)
+
+    const latest = (await this.store.listJobs()).find((job) => job.status === "completed")
+    if (!latest) throw new BulkExportError("No completed bulk export", 404)
+    return latest
+  }
+
+  private async execute(jobId: string, client: FhirClient, signal: AbortSignal): Promise<BulkExportJob> {
+    let job = await this.getJob(jobId)
+
+    try {
+      if (job.files.length === 0) {
+        job = await this.waitForManifest(job, client, signal)
+      }
+
+      job = await this.update(job, { status: "downloading" })
+
+      for (const file of job.files) {
+        if (!file.complete) job = await this.download(job, file, client, signal)
+      }
+
+      logger.info("Bulk export completed", { jobId, files: job.files.length })
+      return this.update(job, { status: "completed", progress: null, completed_at: new Date().toISOString() })
+    } catch (error) {
+      if (signal.aborted) return this.getJob(jobId)
+
+      const message = error instanceof Error ? error.message : "Unknown error"
+      logger.error("Bulk export failed", { jobId, error: message })
+      return this.update(await this.getJob(jobId), { status: "failed", error: message })
+    }
+  }
+
+  private async update(job: BulkExportJob, changes: Partial<BulkExportJob>): Promise<BulkExportJob> {
+    return this.store.saveJob({ ...job, ...changes, updated_at: new Date().toISOString() })
+  }
+
+  private async waitForManifest(job: BulkExportJob, client: FhirClient, signal: AbortSignal): Promise<BulkExportJob> {
+    const interval = this.options.pollIntervalMs ?? 5000
+    const maxInterval = this.options.maxPollIntervalMs ?? 60000
+
+    const statusUrl = job.status_url
+    if (!statusUrl) throw new BulkExportError("Bulk export has no status location", 409)
+
+    for (;;) {
+      const response = await client.send(statusUrl, {
+        headers: { Accept: "application/json" },
+        signal: AbortSignal.any([signal, AbortSignal.timeout(STATUS_TIMEOUT_MS)]),
+      })
+
+      if (response.status === 202 || response.status === 429) {
+        job = await this.update(job, { status: "in-progress", progress: response.headers.get("x-progress") })
+        const wait = retryAfterMs(response.headers.get("retry-after"), interval)
+        await sleep(Math.min(Math.max(wait, interval), maxInterval), undefined, { signal })
+        continue
+      }
+
+      if (!response.ok) throw await client.toResponseError(response)
+
+      const manifest = (await response.json()) as BulkExportManifest
+      const files: BulkExportFile[] = (manifest.output || []).map((output) => ({
+        type: output.type,
+        url: output.url,
+        count: output.count ?? null,
+        lines_loaded: 0,
+        bytes_loaded: 0,
+        complete: false,
+      }))
+
+      job = await this.update(job, {
+        transaction_time: manifest.transactionTime || null,
+        requires_access_token: manifest.requiresAccessToken ?? true,
+        files,
+        progress: null,
+      })
+
+      return this.update(job, { errors: await this.readErrors(job, manifest, client, signal) })
+    }
+  }
+
+  /**
+   * Diagnostics from the OperationOutcome files the server lists under error
+   */
+  private async readErrors(
+    job: BulkExportJob,
+    manifest: BulkExportManifest,
+    client: FhirClient,
+    signal: AbortSignal,
+  ): Promise<string[]> {
+    const messages: string[] = []
+
+    for (const output of manifest.error || []) {
+      const response = await this.fetchOutput(job, output.url, {}, client, signal)
+      if (!response.ok) continue
+
+      for (const line of (await response.text()).split("\n")) {
+        if (!line.trim()) continue
+        const outcome = JSON.parse(line)
+        messages.push(
+          ...(outcome.issue || []).map((issue: any) => issue.diagnostics || issue.details?.text || issue.code),
+        )
+      }
+    }
+
+    return messages
+  }
+
+  private fetchOutput(
+    job: BulkExportJob,
+    url: string,
+    headers: Record<string, string>,
+    client: FhirClient,
+    signal: AbortSignal,
+  ): Promise<Response> {
+    const init = { headers: { Accept: "application/fhir+ndjson", ...headers }, signal }
+
+    // Files that need the token are fetched through the client, which only sends it to the FHIR server
+    return job.requires_access_token ? client.send(url, init) : this.fetchImpl(url, init)
+  }
+
+  /**
+   * Stream one output file into the store, saving progress after each batch of complete lines
+   */
+  private async download(
+    job: BulkExportJob,
+    file: BulkExportFile,
+    client: FhirClient,
+    signal: AbortSignal,
+  ): Promise<BulkExportJob> {
+    const batchSize = this.options.batchSize ?? 1000
+    const resuming = file.bytes_loaded > 0
+    const response = await this.fetchOutput(
+      job,
+      file.url,
+      resuming ? { Range: `bytes=${file.bytes_loaded}-` } : {},
+      client,
+      signal,
+    )
+
+    if (!response.ok) {
+      throw job.requires_access_token
+        ? await client.toResponseError(response)
+        : new FhirError(`Download of ${file.type} failed with ${response.status}`, 502)
+    }
+    if (!response.body) throw new FhirError(`Download of ${file.type} returned no data`, 502)
+
+    // Servers that ignore Range send the whole file again; skip the lines already stored
+    const partial = response.status === 206
+    let offset = partial ? file.bytes_loaded : 0
+    let skip = partial ? 0 : file.lines_loaded
+    let linesLoaded = file.lines_loaded
+    let batch: string[] = []
+
+    const current = { ...file }
+    const flush = async () => {
+      // Until the stored lines have been skipped, the saved progress is still ahead of this download
+      if (skip > 0) return
+
+      if (batch.length > 0) await this.store.appendResources(job.id, file.type, batch)
+      linesLoaded += batch.length
+      batch = []
+
+      Object.assign(current, { lines_loaded: linesLoaded, bytes_loaded: offset })
+      job = await this.update(job, { files: job.files.map((f) => (f.url === file.url ? { ...current } : f)) })
+    }
+
+    const accept = (line: string) => {
+      offset += Buffer.byteLength(line, "utf8") + 1
+      const text = line.replace(/\r$/, "")
+
+      if (!text.trim()) return
+      if (skip > 0) {
+        skip--
+        return
+      }
+
+      JSON.parse(text)
+      batch.push(text)
+    }
+
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let buffered = ""
+
+    try {
+      for (;;) {
+        const { done, value } = await reader.read()
+        if (done) break
+
+        buffered += decoder.decode(value, { stream: true })
+        const lines = buffered.split("\n")
+        buffered = lines.pop() || ""
+        lines.forEach(accept)
+
+        if (batch.length >= batchSize) await flush()
+      }
+
+      buffered += decoder.decode()
+      if (buffered) {
+        accept(buffered)
+        offset -= 1
+      }
+    } finally {
+      await flush()
+    }
+
+    return this.update(job, {
+      files: job.files.map((f) => (f.url === file.url ? { ...current, complete: true } : f)),
+    })
+  }
+}
+
+const globalForFhir = globalThis as unknown as { bulkExportManager?: BulkExportManager }
+
+export function getBulkExportManager(): BulkExportManager {
+  if (!globalForFhir.bulkExportManager) {
+    globalForFhir.bulkExportManager = new BulkExportManager({
+      store: new FileBulkDataStore(process.env.BULK_DATA_DIR || path.join(process.cwd(), ".data", "fhir-bulk")),
+      pollIntervalMs: Number(process.env.BULK_EXPORT_POLL_MS) || undefined,
+    })
+  }
+
+  return globalForFhir.bulkExportManager
+}
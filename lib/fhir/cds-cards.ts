@@ -0,0 +1,360 @@
+/**
+ * CDS Hooks cards
+ * Reads a patient's Genomics Reporting variant Observations and lab Observations back into Beaker's variant and
+ * lab types, and builds the cards for them: pathogenic variants and lab anomalies for patient-view, gene–drug
+ * and drug–lab cautions for the orders being signed in order-select.
+ */
+
+import type { AnomalyFinding } from "@/lib/aiden/anomaly-rules"
+import { AidenEventSeverity } from "@/lib/aiden/aiden-websocket"
+import type { FhirCodeableConcept, FhirResource } from "@/lib/fhir/fhir-client"
+import { transformObservation } from "@/lib/fhir/fhir-transformer"
+import { toLabTest } from "@/lib/fhir/lab-panels"
+import { SIGNIFICANCE_ANSWERS } from "@/lib/fhir/writeback-resources"
+import type { GenomicVariant, VariantSignificance } from "@/lib/genomics/types"
+import type { LabTest } from "@/lib/lab/types"
+
+export type CdsCardIndicator = "info" | "warning" | "critical"
+
+export interface CdsCardSource {
+  label: string
+  url?: string
+}
+
+export interface CdsLink {
+  label: string
+  url: string
+  type: "absolute" | "smart"
+  appContext?: string
+}
+
+export interface CdsCard {
+  uuid: string
+  /** Shown without expanding the card, at most 140 characters */
+  summary: string
+  /** GitHub-flavored markdown */
+  detail?: string
+  indicator: CdsCardIndicator
+  source: CdsCardSource
+  links?: CdsLink[]
+}
+
+/** Drugs whose response depends on a pharmacogene, after the CPIC guidelines */
+export const GENE_DRUG_INTERACTIONS: Array<{ gene: string; drugs: string[]; recommendation: string }> = [
+  {
+    gene: "CYP2C19",
+    drugs: ["clopidogrel", "citalopram", "escitalopram", "voriconazole"],
+    recommendation: "Poor and intermediate metabolizers may need an alternative agent or a dose adjustment.",
+  },
+  {
+    gene: "CYP2D6",
+    drugs: ["codeine", "tramadol", "tamoxifen", "ondansetron"],
+    recommendation: "Altered CYP2D6 activity changes exposure to the active drug; consider an alternative.",
+  },
+  {
+    gene: "TPMT",
+    drugs: ["azathioprine", "mercaptopurine", "thioguanine"],
+    recommendation: "Reduced TPMT activity raises the risk of severe myelosuppression; reduce the starting dose.",
+  },
+  {
+    gene: "DPYD",
+    drugs: ["fluorouracil", "capecitabine", "tegafur"],
+    recommendation: "DPD deficiency can cause life-threatening fluoropyrimidine toxicity; reduce or avoid.",
+  },
+  {
+    gene: "SLCO1B1",
+    drugs: ["simvastatin", "atorvastatin"],
+    recommendation: "Decreased SLCO1B1 function raises the risk of myopathy; use a lower dose or another statin.",
+  },
+]
+
+/** Drugs to review against the patient's recent results for these lab tests */
+export const DRUG_LAB_CAUTIONS: Array<{ drugs: string[]; tests: string[]; reason: string }> = [
+  {
+    drugs: ["metformin"],
+    tests: ["creatinine", "glomerular filtration"],
+    reason: "Metformin is contraindicated in severe renal impairment.",
+  },
+  {
+    drugs: ["spironolactone", "eplerenone", "lisinopril", "enalapril", "losartan", "potassium chloride"],
+    tests: ["potassium"],
+    reason: "The order can raise serum potassium further.",
+  },
+  {
+    drugs: ["warfarin", "heparin", "enoxaparin", "apixaban", "rivaroxaban"],
+    tests: ["platelet", "hemoglobin"],
+    reason: "Anticoagulation increases bleeding risk when platelets or hemoglobin are low.",
+  },
+]
+
+const GENETIC_VARIANT_CODE = "69548-6"
+const DIAGNOSTIC_IMPLICATION_CODE = "diagnostic-implication"
+const CLINICAL_SIGNIFICANCE_CODE = "53037-8"
+const MAX_SUMMARY_LENGTH = 140
+
+const SIGNIFICANCE_LABELS: Record<VariantSignificance, string> = {
+  pathogenic: "Pathogenic",
+  likely_pathogenic: "Likely pathogenic",
+  uncertain: "Uncertain significance",
+  likely_benign: "Likely benign",
+  benign: "Benign",
+}
+
+const REPORTABLE_SIGNIFICANCES: VariantSignificance[] = ["pathogenic", "likely_pathogenic"]
+
+const hasCode = (concept: FhirCodeableConcept | undefined, code: string) =>
+  !!concept?.coding?.some((coding) => coding.code === code)
+
+const conceptValue = (concept: FhirCodeableConcept | undefined) =>
+  concept?.text || concept?.coding?.find((coding) => coding.display)?.display || concept?.coding?.[0]?.code
+
+function findComponent(observation: FhirResource, ...codes: string[]): any {
+  return (observation.component || []).find((component: any) => codes.some((code) => hasCode(component.code, code)))
+}
+
+function significanceFromConcept(concept: FhirCodeableConcept | undefined): VariantSignificance | undefined {
+  const entries = Object.entries(SIGNIFICANCE_ANSWERS) as Array<[VariantSignificance, { code: string }]>
+  const byCode = entries.find(([, answer]) => hasCode(concept, answer.code))?.[0]
+  if (byCode) return byCode
+
+  const text = conceptValue(concept)?.toLowerCase().replace(/[\s-]+/g, "_")
+  return entries.find(([significance]) => text?.startsWith(significance))?.[0]
+}
+
+function truncate(text: string, length = MAX_SUMMARY_LENGTH): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text
+}
+
+function isVariantObservation(resource: FhirResource): boolean {
+  return resource.resourceType === "Observation" && hasCode(resource.code, GENETIC_VARIANT_CODE)
+}
+
+function isImplicationObservation(resource: FhirResource): boolean {
+  return resource.resourceType === "Observation" && hasCode(resource.code, DIAGNOSTIC_IMPLICATION_CODE)
+}
+
+/**
+ * Variants from Genomics Reporting variant Observations, with the significance of the diagnostic-implication
+ * Observation derived from each; variants without a gene studied are skipped
+ */
+export function variantsFromObservations(resources: FhirResource[]): GenomicVariant[] {
+  const significances = new Map<string, VariantSignificance>()
+
+  resources.filter(isImplicationObservation).forEach((implication) => {
+    const significance = significanceFromConcept(
+      findComponent(implication, CLINICAL_SIGNIFICANCE_CODE)?.valueCodeableConcept,
+    )
+    if (!significance) return
+
+    ;(implication.derivedFrom || []).forEach((reference: any) => {
+      const id = reference.reference?.split("/").pop()
+      if (id) significances.set(id, significance)
+    })
+  })
+
+  return resources.filter(isVariantObservation).flatMap((observation) => {
+    const gene = conceptValue(findComponent(observation, "48018-6")?.valueCodeableConcept)
+    if (!gene) return []
+
+    const hgvs = findComponent(observation, "48004-6", "81290-9")?.valueCodeableConcept
+    const rsid = findComponent(observation, "81252-9")?.valueCodeableConcept
+    const ownSignificance = significanceFromConcept(
+      findComponent(observation, CLINICAL_SIGNIFICANCE_CODE)?.valueCodeableConcept,
+    )
+
+    const variant: GenomicVariant = {
+      id: observation.id || "",
+      gene,
+      chromosome: conceptValue(findComponent(observation, "48000-4")?.valueCodeableConcept) || "",
+      position: Number(findComponent(observation, "81254-5")?.valueRange?.low?.value) || 0,
+      reference: findComponent(observation, "69547-8")?.valueString || "",
+      alternate: findComponent(observation, "69551-0")?.valueString || "",
+      consequence: conceptValue(findComponent(observation, "molecular-consequence")?.valueCodeableConcept) || "",
+      significance: significances.get(observation.id || "") || ownSignificance || "uncertain",
+      frequency: Number(findComponent(observation, "92821-8")?.valueQuantity?.value ?? NaN),
+    }
+
+    if (rsid) variant.rsid = rsid.coding?.[0]?.code || rsid.text
+    if (hgvs) variant.hgvs = hgvs.coding?.[0]?.code || hgvs.text
+
+    return [variant]
+  })
+}
+
+/**
+ * Lab tests from laboratory Observations with a value, leaving out genomic Observations
+ */
+export function labTestsFromObservations(resources: FhirResource[]): LabTest[] {
+  return resources
+    .filter((resource) => resource.resourceType === "Observation")
+    .filter((resource) => !isVariantObservation(resource) && !isImplicationObservation(resource))
+    .flatMap((resource) => toLabTest(transformObservation(resource)) || [])
+}
+
+/**
+ * Lowercase names a MedicationRequest's drug goes by, from its coded concept or reference display
+ */
+export function medicationNames(order: FhirResource): string[] {
+  const concept: FhirCodeableConcept | undefined = order.medicationCodeableConcept
+  return [
+    concept?.text,
+    ...(concept?.coding || []).map((coding) => coding.display),
+    order.medicationReference?.display,
+  ]
+    .filter(Boolean)
+    .map((name) => (name as string).toLowerCase())
+}
+
+function severityIndicator(severity: AidenEventSeverity): CdsCardIndicator {
+  if (severity === AidenEventSeverity.CRITICAL) return "critical"
+  if (severity === AidenEventSeverity.HIGH || severity === AidenEventSeverity.MEDIUM) return "warning"
+  return "info"
+}
+
+function describeVariant(variant: GenomicVariant): string {
+  return variant.hgvs || `chr${variant.chromosome}:${variant.position} ${variant.reference}>${variant.alternate}`
+}
+
+function variantDetail(variant: GenomicVariant): string {
+  const lines = [
+    `**${variant.gene}** ${describeVariant(variant)}${variant.rsid ? ` (${variant.rsid})` : ""}`,
+    `- Clinical significance: ${SIGNIFICANCE_LABELS[variant.significance]}`,
+  ]
+
+  if (variant.consequence) lines.push(`- Consequence: ${variant.consequence.replace(/_/g, " ")}`)
+  if (variant.position) {
+    lines.push(`- Location: chr${variant.chromosome}:${variant.position} ${variant.reference}>${variant.alternate}`)
+  }
+  if (Number.isFinite(variant.frequency)) lines.push(`- Population frequency: ${variant.frequency}`)
+
+  return lines.join("\n")
+}
+
+function labValue(test: Pick<LabTest, "value" | "unit">): string {
+  return `${test.value}${test.unit ? ` ${test.unit}` : ""}`
+}
+
+export function variantCard(variant: GenomicVariant, source: CdsCardSource): CdsCard {
+  return {
+    uuid: crypto.randomUUID(),
+    summary: truncate(
+      `${SIGNIFICANCE_LABELS[variant.significance]} ${variant.gene} variant ${describeVariant(variant)}`,
+    ),
+    detail: variantDetail(variant),
+    indicator: "warning",
+    source,
+  }
+}
+
+export function anomalyCard(finding: AnomalyFinding, source: CdsCardSource): CdsCard {
+  return {
+    uuid: crypto.randomUUID(),
+    summary: truncate(`${finding.rule_name}: ${finding.message}`),
+    detail: `${finding.message}, observed ${finding.observed_at}.`,
+    indicator: severityIndicator(finding.severity),
+    source,
+  }
+}
+
+export function criticalLabCard(test: LabTest, source: CdsCardSource): CdsCard {
+  return {
+    uuid: crypto.randomUUID(),
+    summary: truncate(`Critical result: ${test.name} ${labValue(test)}`),
+    detail: `${test.name} was ${labValue(test)} on ${test.timestamp}${
+      test.referenceRange ? ` (reference range ${test.referenceRange})` : ""
+    }.`,
+    indicator: "critical",
+    source,
+  }
+}
+
+/**
+ * patient-view cards: reportable variants, lab anomalies, and critical results no rule already covers
+ */
+export function patientViewCards(
+  insights: { variants: GenomicVariant[]; labTests: LabTest[]; findings: AnomalyFinding[] },
+  source: CdsCardSource,
+): CdsCard[] {
+  const flaggedTests = new Set(insights.findings.map((finding) => finding.lab_test?.id).filter(Boolean))
+
+  return [
+    ...insights.findings.map((finding) => anomalyCard(finding, source)),
+    ...insights.labTests
+      .filter((test) => test.status === "critical" && !flaggedTests.has(test.id))
+      .map((test) => criticalLabCard(test, source)),
+    ...insights.variants
+      .filter((variant) => REPORTABLE_SIGNIFICANCES.includes(variant.significance))
+      .map((variant) => variantCard(variant, source)),
+  ]
+}
+
+/**
+ * order-select cards for the selected MedicationRequests: pharmacogenes with a non-benign variant that affect
+ * the drug, and labs to review before giving it that are abnormal or flagged by an anomaly rule
+ */
+export function orderSelectCards(
+  insights: { orders: FhirResource[]; variants: GenomicVariant[]; labTests: LabTest[]; findings: AnomalyFinding[] },
+  source: CdsCardSource,
+): CdsCard[] {
+  const actionableVariants = insights.variants.filter(
+    (variant) => variant.significance !== "benign" && variant.significance !== "likely_benign",
+  )
+
+  return insights.orders.flatMap((order) => {
+    const names = medicationNames(order)
+    const drugName = (drugs: string[]) => drugs.find((drug) => names.some((name) => name.includes(drug)))
+    const cards: CdsCard[] = []
+
+    GENE_DRUG_INTERACTIONS.forEach((interaction) => {
+      const drug = drugName(interaction.drugs)
+      const variants = actionableVariants.filter((variant) => variant.gene.toUpperCase() === interaction.gene)
+      if (!drug || variants.length === 0) return
+
+      cards.push({
+        uuid: crypto.randomUUID(),
+        summary: truncate(`${interaction.gene} variant may alter response to ${drug}`),
+        detail: [interaction.recommendation, "", ...variants.map(variantDetail)].join("\n"),
+        indicator: "warning",
+        source,
+        links: [
+          {
+            label: `CPIC guideline for ${interaction.gene}`,
+            url: `https://cpicpgx.org/genes-drugs/?gene=${interaction.gene}`,
+            type: "absolute",
+          },
+        ],
+      })
+    })
+
+    DRUG_LAB_CAUTIONS.forEach((caution) => {
+      const drug = drugName(caution.drugs)
+      if (!drug) return
+
+      const matches = (name: string) => caution.tests.some((test) => name.toLowerCase().includes(test))
+      const findings = insights.findings.filter((finding) => finding.lab_test && matches(finding.lab_test.name))
+      const tests = insights.labTests.filter(
+        (test) => matches(test.name) && (test.status === "abnormal" || test.status === "critical"),
+      )
+      if (findings.length === 0 && tests.length === 0) return
+
+      const isCritical =
+        tests.some((test) => test.status === "critical") ||
+        findings.some((finding) => severityIndicator(finding.severity) === "critical")
+
+      cards.push({
+        uuid: crypto.randomUUID(),
+        summary: truncate(`Review ${tests[0]?.name || findings[0].rule_name} before ordering ${drug}`),
+        detail: [
+          caution.reason,
+          "",
+          ...tests.map((test) => `- ${test.name}: ${labValue(test)} (${test.status}, ${test.timestamp})`),
+          ...findings.map((finding) => `- ${finding.rule_name}: ${finding.message}`),
+        ].join("\n"),
+        indicator: isCritical ? "critical" : "warning",
+        source,
+      })
+    })
+
+    return cards
+  })
+}
@@ -0,0 +1,202 @@
+/**
+ * CDS Hooks client authentication
+ * CDS clients sign a short-lived JWT for every call, addressed to the service URL. Tokens are verified against
+ * the JWK Set of each configured trusted issuer; when no issuer is configured, e.g. with the CDS Hooks sandbox in
+ * local development, calls are accepted without one.
+ */
+
+import { createPublicKey, verify, type JsonWebKey } from "node:crypto"
+import { CdsHooksError } from "@/lib/fhir/cds-hooks"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+export interface CdsTrustedIssuer {
+  iss: string
+  jwksUrl: string
+}
+
+export interface CdsClientIdentity {
+  iss: string
+  sub?: string
+  jti: string
+  tenant?: string
+}
+
+export interface CdsHooksAuthOptions {
+  trustedIssuers?: CdsTrustedIssuer[]
+  clockSkewSeconds?: number
+  /** How long a fetched JWK Set is used before it is fetched again */
+  jwksTtlMs?: number
+  fetch?: typeof fetch
+}
+
+/** Signing algorithms the spec allows clients to use */
+const ALGORITHMS: Record<string, { hash: string; ec: boolean }> = {
+  ES256: { hash: "sha256", ec: true },
+  ES384: { hash: "sha384", ec: true },
+  ES512: { hash: "sha512", ec: true },
+  RS256: { hash: "sha256", ec: false },
+  RS384: { hash: "sha384", ec: false },
+  RS512: { hash: "sha512", ec: false },
+}
+
+function decodeSegment(segment: string): any {
+  try {
+    return JSON.parse(Buffer.from(segment, "base64url").toString("utf8"))
+  } catch {
+    throw new CdsHooksError("Malformed CDS client token", 401)
+  }
+}
+
+export class CdsHooksAuthenticator {
+  private readonly jwks = new Map<string, { keys: JsonWebKey[]; fetchedAt: number }>()
+  /** Token ids already used, until they expire, so a captured token cannot be replayed */
+  private readonly usedTokens = new Map<string, number>()
+  private readonly fetchImpl: typeof fetch
+
+  constructor(private readonly options: CdsHooksAuthOptions = {}) {
+    this.fetchImpl = options.fetch || fetch
+  }
+
+  isRequired(): boolean {
+    return (this.options.trustedIssuers || []).length > 0
+  }
+
+  /**
+   * Verify the bearer JWT of a call to the service at audience, null when authentication is not configured
+   */
+  async authenticate(authorization: string | null, audience: string): Promise<CdsClientIdentity | null> {
+    if (!this.isRequired()) return null
+
+    const token = authorization?.match(/^Bearer\s+(.+)$/i)?.[1]
+    if (!token) {
+      throw new CdsHooksError("CDS client token required", 401)
+    }
+
+    const [encodedHeader, encodedPayload, signature] = token.split(".")
+    if (!encodedHeader || !encodedPayload || !signature) {
+      throw new CdsHooksError("Malformed CDS client token", 401)
+    }
+
+    const header = decodeSegment(encodedHeader)
+    const claims = decodeSegment(encodedPayload)
+    const algorithm = ALGORITHMS[header.alg]
+    const issuer = this.options.trustedIssuers?.find((candidate) => candidate.iss === claims.iss)
+
+    if (!algorithm) {
+      throw new CdsHooksError(`Unsupported CDS client token algorithm ${header.alg}`, 401)
+    }
+    if (!issuer) {
+      throw new CdsHooksError(`${claims.iss || "Unknown issuer"} is not a trusted CDS client`, 401)
+    }
+
+    const key = await this.getKey(issuer, header.kid)
+    const valid = verify(
+      algorithm.hash,
+      Buffer.from(`${encodedHeader}.${encodedPayload}`),
+      { key: createPublicKey({ key, format: "jwk" }), dsaEncoding: algorithm.ec ? "ieee-p1363" : "der" },
+      Buffer.from(signature, "base64url"),
+    )
+
+    if (!valid) {
+      throw new CdsHooksError("CDS client token signature is invalid", 401)
+    }
+
+    this.assertValidClaims(claims, audience)
+
+    return { iss: claims.iss, sub: claims.sub, jti: claims.jti, tenant: claims.tenant }
+  }
+
+  private assertValidClaims(claims: any, audience: string) {
+    const now = Math.floor(Date.now() / 1000)
+    const skew = this.options.clockSkewSeconds ?? 60
+    const audiences: string[] = Array.isArray(claims.aud) ? claims.aud : [claims.aud]
+
+    if (!audiences.some((aud) => typeof aud === "string" && aud.replace(/\/+$/, "") === audience)) {
+      throw new CdsHooksError("CDS client token is not addressed to this service", 401)
+    }
+    if (typeof claims.exp !== "number" || claims.exp + skew < now) {
+      throw new CdsHooksError("CDS client token has expired", 401)
+    }
+    if (typeof claims.jti !== "string" || !claims.jti) {
+      throw new CdsHooksError("CDS client token has no jti", 401)
+    }
+
+    this.usedTokens.forEach((expiresAt, jti) => expiresAt + skew < now && this.usedTokens.delete(jti))
+
+    const tokenId = `${claims.iss}|${claims.jti}`
+    if (this.usedTokens.has(tokenId)) {
+      throw new CdsHooksError("CDS client token was already used", 401)
+    }
+    this.usedTokens.set(tokenId, claims.exp)
+  }
+
+  /**
+   * Signing key from the issuer's JWK Set, fetching the set again once when the key id is unknown
+   * so clients can rotate keys
+   */
+  private async getKey(issuer: CdsTrustedIssuer, kid: string | undefined): Promise<JsonWebKey> {
+    const find = (keys: JsonWebKey[]) => keys.find((key) => !kid || key.kid === kid)
+    const cached = this.jwks.get(issuer.jwksUrl)
+    const isFresh = cached && Date.now() - cached.fetchedAt < (this.options.jwksTtlMs ?? 60 * 60 * 1000)
+
+    const key = (isFresh && find(cached.keys)) || find(await this.fetchKeys(issuer))
+    if (!key) {
+      throw new CdsHooksError(`No signing key${kid ? ` ${kid}` : ""} in the JWK Set of ${issuer.iss}`, 401)
+    }
+
+    return key
+  }
+
+  private async fetchKeys(issuer: CdsTrustedIssuer): Promise<JsonWebKey[]> {
+    try {
+      const response = await this.fetchImpl(issuer.jwksUrl, {
+        headers: { Accept: "application/json" },
+        signal: AbortSignal.timeout(10000),
+      })
+
+      if (!response.ok) {
+        throw new Error(`JWK Set request failed with ${response.status}`)
+      }
+
+      const keys: JsonWebKey[] = (await response.json()).keys || []
+      this.jwks.set(issuer.jwksUrl, { keys, fetchedAt: Date.now() })
+      return keys
+    } catch (error) {
+      logger.warn("Failed to fetch CDS client JWK Set", {
+        iss: issuer.iss,
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+      throw new CdsHooksError(`Could not load the signing keys of ${issuer.iss}`, 401)
+    }
+  }
+}
+
+/**
+ * Trusted issuers from CDS_HOOKS_TRUSTED_ISSUERS, a comma-separated list of issuer|jwks-url pairs
+ */
+export function parseTrustedIssuers(value: string | undefined): CdsTrustedIssuer[] {
+  return (value || "")
+    .split(",")
+    .map((pair) => pair.trim().split("|"))
+    .filter(([iss, jwksUrl]) => iss && jwksUrl)
+    .map(([iss, jwksUrl]) => ({ iss, jwksUrl }))
+}
+
+/**
+ * URL a CDS client addresses its tokens to for a service, from CDS_HOOKS_BASE_URL when the app runs behind a proxy
+ */
+export function getCdsServiceUrl(origin: string, serviceId: string): string {
+  return `${(process.env.CDS_HOOKS_BASE_URL || origin).replace(/\/+$/, "")}/api/cds-services/${serviceId}`
+}
+
+const globalForCds = globalThis as unknown as { cdsHooksAuthenticator?: CdsHooksAuthenticator }
+
+export function getCdsHooksAuthenticator(): CdsHooksAuthenticator {
+  if (!globalForCds.cdsHooksAuthenticator) {
+    globalForCds.cdsHooksAuthenticator = new CdsHooksAuthenticator({
+      trustedIssuers: parseTrustedIssuers(process.env.CDS_HOOKS_TRUSTED_ISSUERS),
+    })
+  }
+
+  return globalForCds.cdsHooksAuthenticator
+}
@@ -0,0 +1,310 @@
+/**
+ * CDS Hooks service
+ * Serves Beaker's genomics and lab insights to the EHR as CDS Hooks 1.0/2.0 cards. Discovery lists a patient-view
+ * and an order-select service; each call resolves the service's prefetch templates, fetching whatever the EHR did
+ * not send through the FHIR client, and builds cards from the patient's variant and lab Observations.
+ */
+
+import { getAidenAnomalyEngine, type AidenAnomalyEngine } from "@/lib/aiden/anomaly-engine"
+import {
+  labTestsFromObservations,
+  orderSelectCards,
+  patientViewCards,
+  variantsFromObservations,
+  type CdsCard,
+  type CdsCardSource,
+} from "@/lib/fhir/cds-cards"
+import { FhirClient, getBundleMatches, getFhirClient, type FhirBundle, type FhirResource } from "@/lib/fhir/fhir-client"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+export class CdsHooksError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode = 400,
+  ) {
+    super(message)
+    this.name = "CdsHooksError"
+  }
+}
+
+export type CdsHook = "patient-view" | "order-select"
+
+export interface CdsServiceDefinition {
+  id: string
+  hook: CdsHook
+  title: string
+  description: string
+  /** FHIR queries the EHR can run ahead of the call, keyed by prefetch key */
+  prefetch: Record<string, string>
+  usageRequirements?: string
+}
+
+export interface CdsFhirAuthorization {
+  access_token: string
+  token_type: string
+  expires_in?: number
+  scope?: string
+  subject?: string
+  patient?: string
+}
+
+export interface CdsHookRequest {
+  hook: string
+  hookInstance: string
+  fhirServer?: string
+  fhirAuthorization?: CdsFhirAuthorization | null
+  context: Record<string, any>
+  prefetch?: Record<string, FhirResource | null>
+}
+
+export interface CdsHookResponse {
+  cards: CdsCard[]
+}
+
+export interface CdsHooksServiceOptions {
+  /** FHIR servers the service may query with a request's fhirAuthorization */
+  allowedServers?: string[]
+  /** Client for requests that name no fhirServer, e.g. from the CDS Hooks sandbox against FHIR_BASE_URL */
+  getDefaultClient?: () => FhirClient
+  anomalyEngine?: AidenAnomalyEngine
+  source?: CdsCardSource
+  fetch?: typeof fetch
+}
+
+/** Headers that let browser-based CDS clients such as the CDS Hooks sandbox call the service */
+export const CDS_HOOKS_CORS_HEADERS: Record<string, string> = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Authorization, Content-Type",
+}
+
+const OBSERVATIONS_PREFETCH = "Observation?patient={{context.patientId}}&category=laboratory&_count=200"
+
+export const CDS_SERVICES: CdsServiceDefinition[] = [
+  {
+    id: "beaker-patient-view",
+    hook: "patient-view",
+    title: "Beaker genomics and lab insights",
+    description: "Pathogenic variants, lab anomalies and critical results for the patient in context",
+    prefetch: { observations: OBSERVATIONS_PREFETCH },
+    usageRequirements: "Needs read access to the patient's laboratory Observations",
+  },
+  {
+    id: "beaker-order-select",
+    hook: "order-select",
+    title: "Beaker pharmacogenomic and lab checks",
+    description: "Gene–drug interactions and labs to review for the medications being ordered",
+    prefetch: { observations: OBSERVATIONS_PREFETCH },
+    usageRequirements: "Needs read access to the patient's laboratory Observations",
+  },
+]
+
+/** User fields available to templates, from the FHIR reference in context.userId */
+const USER_TEMPLATE_FIELDS: Record<string, string> = {
+  userPractitionerId: "Practitioner",
+  userPractitionerRoleId: "PractitionerRole",
+  userPatientId: "Patient",
+  userRelatedPersonId: "RelatedPerson",
+}
+
+function normalizeServer(url: string): string {
+  return url.trim().replace(/\/+$/, "")
+}
+
+/**
+ * Fill a prefetch template's {{context.*}} and {{userPractitionerId}}-style tokens from a request,
+ * null when a token has no value so the query cannot be run
+ */
+export function renderPrefetchTemplate(template: string, request: Pick<CdsHookRequest, "context">): string | null {
+  let complete = true
+
+  const rendered = template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, token: string) => {
+    let value: unknown
+
+    if (token.startsWith("context.")) {
+      value = token
+        .slice("context.".length)
+        .split(".")
+        .reduce<any>((current, key) => current?.[key], request.context)
+    } else if (USER_TEMPLATE_FIELDS[token]) {
+      const [type, id] = String(request.context?.userId || "").split("/")
+      value = type === USER_TEMPLATE_FIELDS[token] ? id : undefined
+    }
+
+    if (typeof value !== "string" && typeof value !== "number") {
+      complete = false
+      return ""
+    }
+
+    return encodeURIComponent(String(value))
+  })
+
+  return complete ? rendered : null
+}
+
+function assertValidRequest(service: CdsServiceDefinition, body: any): asserts body is CdsHookRequest {
+  if (!body || typeof body !== "object") {
+    throw new CdsHooksError("Request body must be a CDS Hooks request")
+  }
+  if (body.hook !== service.hook) {
+    throw new CdsHooksError(`Service ${service.id} handles the ${service.hook} hook, not ${body.hook}`)
+  }
+  if (typeof body.hookInstance !== "string" || !body.hookInstance) {
+    throw new CdsHooksError("hookInstance is required")
+  }
+  if (!body.context || typeof body.context.patientId !== "string" || !body.context.patientId) {
+    throw new CdsHooksError("context.patientId is required")
+  }
+  if (body.fhirAuthorization && !body.fhirServer) {
+    throw new CdsHooksError("fhirAuthorization requires fhirServer")
+  }
+}
+
+function bundleResources(resource: FhirResource | null | undefined): FhirResource[] {
+  if (!resource) return []
+  return resource.resourceType === "Bundle" ? getBundleMatches(resource as FhirBundle) : [resource]
+}
+
+export class CdsHooksService {
+  private readonly source: CdsCardSource
+
+  constructor(private readonly options: CdsHooksServiceOptions = {}) {
+    this.source = options.source || { label: "Beaker" }
+  }
+
+  /**
+   * Discovery document served at /cds-services
+   */
+  discover(): { services: CdsServiceDefinition[] } {
+    return { services: CDS_SERVICES.map((service) => ({ ...service, prefetch: { ...service.prefetch } })) }
+  }
+
+  async invoke(serviceId: string, body: unknown): Promise<CdsHookResponse> {
+    const service = CDS_SERVICES.find((candidate) => candidate.id === serviceId)
+
+    if (!service) {
+      throw new CdsHooksError(`Unknown CDS service ${serviceId}`, 404)
+    }
+
+    assertValidRequest(service, body)
+    this.assertAllowedServer(body)
+
+    const patientId: string = body.context.patientId
+    const prefetch = await this.resolvePrefetch(service, body)
+    const observations = bundleResources(prefetch.observations)
+    const variants = variantsFromObservations(observations)
+    const labTests = labTestsFromObservations(observations)
+    const findings = await (this.options.anomalyEngine || getAidenAnomalyEngine()).checkLabResults(patientId, labTests)
+
+    const cards =
+      service.hook === "patient-view"
+        ? patientViewCards({ variants, labTests, findings }, this.source)
+        : orderSelectCards({ orders: this.getSelectedOrders(body), variants, labTests, findings }, this.source)
+
+    logger.info("CDS hook answered", {
+      serviceId,
+      hookInstance: body.hookInstance,
+      patientId,
+      cards: cards.length,
+    })
+
+    return { cards }
+  }
+
+  /**
+   * Prefetched resources by key, fetching the keys the EHR left out or sent as null; keys that cannot be
+   * fetched are null so the cards are built from whatever is available
+   */
+  async resolvePrefetch(
+    service: CdsServiceDefinition,
+    request: CdsHookRequest,
+  ): Promise<Record<string, FhirResource | null>> {
+    let client: FhirClient | null | undefined
+
+    const entries = await Promise.all(
+      Object.entries(service.prefetch).map(async ([key, template]): Promise<[string, FhirResource | null]> => {
+        const provided = request.prefetch?.[key]
+        if (provided) return [key, provided]
+
+        const query = renderPrefetchTemplate(template, request)
+        if (client === undefined) client = this.getClient(request)
+        if (!query || !client) return [key, null]
+
+        try {
+          return [key, await client.request<FhirResource>(query)]
+        } catch (error) {
+          logger.warn("CDS prefetch query failed", {
+            serviceId: service.id,
+            key,
+            error: error instanceof Error ? error.message : "Unknown error",
+          })
+          return [key, null]
+        }
+      }),
+    )
+
+    return Object.fromEntries(entries)
+  }
+
+  /**
+   * Client for the request's FHIR server with its access token, or the default client when it names none
+   */
+  private getClient(request: CdsHookRequest): FhirClient | null {
+    if (!request.fhirServer) {
+      try {
+        return this.options.getDefaultClient ? this.options.getDefaultClient() : getFhirClient()
+      } catch {
+        return null
+      }
+    }
+
+    const accessToken = request.fhirAuthorization?.access_token
+    return new FhirClient({
+      baseUrl: normalizeServer(request.fhirServer),
+      getAccessToken: async () => accessToken,
+      fetch: this.options.fetch,
+    })
+  }
+
+  /**
+   * The access token in fhirAuthorization is only ever sent to the FHIR servers Beaker is configured for
+   */
+  private assertAllowedServer(request: CdsHookRequest) {
+    if (!request.fhirServer) return
+
+    const server = normalizeServer(request.fhirServer)
+    const allowed = (this.options.allowedServers || []).map(normalizeServer).filter(Boolean)
+
+    if (!allowed.includes(server)) {
+      throw new CdsHooksError(`${server} is not an allowed FHIR server`, 403)
+    }
+  }
+
+  /**
+   * MedicationRequests the clinician selected, all draft MedicationRequests when no selection was sent
+   */
+  private getSelectedOrders(request: CdsHookRequest): FhirResource[] {
+    const selections: string[] = Array.isArray(request.context.selections) ? request.context.selections : []
+    const orders = bundleResources(request.context.draftOrders).filter(
+      (resource) => resource.resourceType === "MedicationRequest",
+    )
+
+    return selections.length > 0
+      ? orders.filter((order) => selections.includes(`MedicationRequest/${order.id}`))
+      : orders
+  }
+}
+
+const globalForCds = globalThis as unknown as { cdsHooksService?: CdsHooksService }
+
+export function getCdsHooksService(): CdsHooksService {
+  if (!globalForCds.cdsHooksService) {
+    globalForCds.cdsHooksService = new CdsHooksService({
+      allowedServers: [process.env.FHIR_BASE_URL, ...(process.env.SMART_ALLOWED_ISSUERS || "").split(",")].filter(
+        Boolean,
+      ) as string[],
+    })
+  }
+
+  return globalForCds.cdsHooksService
+}
@@ -0,0 +1,48 @@
+/**
+ * FHIR ↔ AIDEN integration
+ * Turns patient analysis requests into AIDEN tasks
+ */
+
+import { AidenTaskPriority, AidenTaskType, type AidenTask } from "@/lib/aiden/aiden-client"
+import { getAidenTaskEngine } from "@/lib/aiden/task-engine"
+
+export enum FhirAnalysisType {
+  CLINICAL_SUMMARY = "clinical_summary",
+  RISK_ASSESSMENT = "risk_assessment",
+  LAB_ANALYSIS = "lab_analysis",
+}
+
+const ANALYSIS_TASK_TYPES: Record<FhirAnalysisType, AidenTaskType> = {
+  [FhirAnalysisType.CLINICAL_SUMMARY]: AidenTaskType.CLINICAL_SUMMARY,
+  [FhirAnalysisType.RISK_ASSESSMENT]: AidenTaskType.RISK_ASSESSMENT,
+  [FhirAnalysisType.LAB_ANALYSIS]: AidenTaskType.LAB_ANALYSIS,
+}
+
+export interface FhirAnalysisOptions {
+  priority?: AidenTaskPriority
+  userId?: string
+  [key: string]: any
+}
+
+export function isFhirAnalysisType(value: unknown): value is FhirAnalysisType {
+  return Object.values(FhirAnalysisType).includes(value as FhirAnalysisType)
+}
+
+/**
+ * Submit an AIDEN task analysing the given patient
+ */
+export async function submitPatientAnalysis(
+  patientId: string,
+  analysisType: FhirAnalysisType,
+  options: FhirAnalysisOptions = {},
+): Promise<AidenTask> {
+  const { priority, userId, ...payloadOptions } = options
+
+  return getAidenTaskEngine().submit({
+    task_type: ANALYSIS_TASK_TYPES[analysisType],
+    priority,
+    payload: { ...payloadOptions, patientId },
+    metadata: { source: "fhir", patientId, analysisType },
+    user_id: userId,
+  })
+}
@@ -0,0 +1,426 @@
+/**
+ * FHIR R4 client
+ * Typed read and search against a FHIR R4 server, with Bundle paging and OperationOutcome errors
+ */
+
+import { logger } from "@/lib/logging/enhanced-logger"
+
+export interface FhirCoding {
+  system?: string
+  code?: string
+  display?: string
+}
+
+export interface FhirCodeableConcept {
+  coding?: FhirCoding[]
+  text?: string
+}
+
+export interface FhirPeriod {
+  start?: string
+  end?: string
+}
+
+export interface FhirReference {
+  reference?: string
+  display?: string
+}
+
+export interface FhirIdentifier {
+  use?: string
+  type?: FhirCodeableConcept
+  system?: string
+  value?: string
+  period?: FhirPeriod
+}
+
+export interface FhirHumanName {
+  use?: string
+  text?: string
+  family?: string
+  given?: string[]
+  prefix?: string[]
+  suffix?: string[]
+  period?: FhirPeriod
+}
+
+export interface FhirContactPoint {
+  system?: "phone" | "fax" | "email" | "pager" | "url" | "sms" | "other"
+  value?: string
+  use?: string
+  rank?: number
+}
+
+export interface FhirAddress {
+  use?: string
+  type?: string
+  text?: string
+  line?: string[]
+  city?: string
+  district?: string
+  state?: string
+  postalCode?: string
+  country?: string
+  period?: FhirPeriod
+}
+
+export interface FhirMeta {
+  versionId?: string
+  lastUpdated?: string
+  source?: string
+  profile?: string[]
+}
+
+export interface FhirResource {
+  resourceType: string
+  id?: string
+  meta?: FhirMeta
+  [key: string]: any
+}
+
+export interface FhirPatient extends FhirResource {
+  resourceType: "Patient"
+  id: string
+  identifier?: FhirIdentifier[]
+  active?: boolean
+  name?: FhirHumanName[]
+  telecom?: FhirContactPoint[]
+  gender?: "male" | "female" | "other" | "unknown"
+  birthDate?: string
+  deceasedBoolean?: boolean
+  deceasedDateTime?: string
+  address?: FhirAddress[]
+  maritalStatus?: FhirCodeableConcept
+  communication?: Array<{ language: FhirCodeableConcept; preferred?: boolean }>
+  generalPractitioner?: FhirReference[]
+  managingOrganization?: FhirReference
+  link?: Array<{ other: FhirReference; type: "replaced-by" | "replaces" | "refer" | "seealso" }>
+}
+
+export interface FhirBundleLink {
+  relation: "self" | "first" | "previous" | "next" | "last" | string
+  url: string
+}
+
+export interface FhirBundleEntry<T extends FhirResource = FhirResource> {
+  fullUrl?: string
+  resource?: T
+  search?: { mode?: "match" | "include" | "outcome"; score?: number }
+  /** Set on transaction and batch entries */
+  request?: { method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE"; url: string; ifNoneExist?: string }
+  /** Set on transaction and batch response entries */
+  response?: { status: string; location?: string; etag?: string; lastModified?: string }
+}
+
+export interface FhirBundle<T extends FhirResource = FhirResource> extends FhirResource {
+  resourceType: "Bundle"
+  type: "searchset" | "batch" | "transaction" | "batch-response" | "transaction-response" | "collection" | string
+  total?: number
+  link?: FhirBundleLink[]
+  entry?: Array<FhirBundleEntry<T>>
+}
+
+export interface FhirOperationOutcomeIssue {
+  severity: "fatal" | "error" | "warning" | "information"
+  code: string
+  details?: FhirCodeableConcept
+  diagnostics?: string
+  expression?: string[]
+}
+
+export interface FhirOperationOutcome extends FhirResource {
+  resourceType: "OperationOutcome"
+  issue: FhirOperationOutcomeIssue[]
+}
+
+export type FhirSearchValue = string | number | boolean | Array<string | number> | undefined | null
+
+/**
+ * Search parameters; array values are repeated, e.g. _include or date ranges
+ */
+export interface FhirSearchParams {
+  _count?: number
+  _include?: string[]
+  _revinclude?: string[]
+  [name: string]: FhirSearchValue
+}
+
+export class FhirError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode = 502,
+    public readonly outcome?: FhirOperationOutcome,
+  ) {
+    super(message)
+    this.name = "FhirError"
+  }
+
+  get issues(): FhirOperationOutcomeIssue[] {
+    return this.outcome?.issue || []
+  }
+}
+
+export interface FhirClientOptions {
+  baseUrl: string
+  /** Bearer token for each request, e.g. from a SMART on FHIR session */
+  getAccessToken?: () => Promise<string | null | undefined>
+  headers?: Record<string, string>
+  timeoutMs?: number
+  fetch?: typeof fetch
+}
+
+export function isOperationOutcome(value: unknown): value is FhirOperationOutcome {
+  return (value as FhirResource)?.resourceType === "OperationOutcome"
+}
+
+/**
+ * Readable message from an OperationOutcome's error issues
+ */
+export function describeOperationOutcome(outcome: FhirOperationOutcome): string {
+  const issues = outcome.issue.filter((issue) => issue.severity === "fatal" || issue.severity === "error")
+
+  return (issues.length > 0 ? issues : outcome.issue)
+    .map((issue) => issue.diagnostics || issue.details?.text || issue.details?.coding?.[0]?.display || issue.code)
+    .filter(Boolean)
+    .join("; ")
+}
+
+/**
+ * Resources in a search Bundle matching the search, without _include/_revinclude resources
+ */
+export function getBundleMatches<T extends FhirResource>(bundle: FhirBundle<T>): T[] {
+  return (bundle.entry || [])
+    .filter((entry) => entry.resource && (!entry.search?.mode || entry.search.mode === "match"))
+    .map((entry) => entry.resource as T)
+}
+
+/**
+ * Resources added to a search Bundle by _include/_revinclude, optionally of one type
+ */
+export function getBundleIncludes<T extends FhirResource = FhirResource>(
+  bundle: FhirBundle,
+  resourceType?: string,
+): T[] {
+  return (bundle.entry || [])
+    .filter((entry) => entry.search?.mode === "include" && entry.resource)
+    .map((entry) => entry.resource as T)
+    .filter((resource) => !resourceType || resource.resourceType === resourceType)
+}
+
+export function getBundleLink(bundle: FhirBundle, relation: string): string | undefined {
+  return bundle.link?.find((link) => link.relation === relation)?.url
+}
+
+function toSearchQuery(params: FhirSearchParams): string {
+  const query = new URLSearchParams()
+
+  Object.entries(params).forEach(([name, value]) => {
+    if (value === undefined || value === null || value === "") return
+    const values = Array.isArray(value) ? value : [value]
+    values.forEach((item) => query.append(name, String(item)))
+  })
+
+  return query.toString()
+}
+
+export class FhirClient {
+  private readonly baseUrl: string
+  private readonly fetchImpl: typeof fetch
+
+  constructor(private readonly options: FhirClientOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, "")
+    this.fetchImpl = options.fetch || fetch
+  }
+
+  getBaseUrl(): string {
+    return this.baseUrl
+  }
+
+  async read<T extends FhirResource>(resourceType: string, id: string): Promise<T> {
+    return this.request<T>(`${resourceType}/${encodeURIComponent(id)}`)
+  }
+
+  async search<T extends FhirResource>(resourceType: string, params: FhirSearchParams = {}): Promise<FhirBundle<T>> {
+    const query = toSearchQuery(params)
+    return this.request<FhirBundle<T>>(`${resourceType}${query ? `?${query}` : ""}`)
+  }
+
+  /**
+   * Follow a Bundle's page link, null when the Bundle has no such link
+   */
+  async getPage<T extends FhirResource>(
+    bundle: FhirBundle<T>,
+    relation: "next" | "previous" | "first" | "last" = "next",
+  ): Promise<FhirBundle<T> | null> {
+    const url = getBundleLink(bundle, relation)
+    return url ? this.request<FhirBundle<T>>(url) : null
+  }
+
+  /**
+   * Search and follow next links, yielding each page
+   */
+  async *searchPages<T extends FhirResource>(
+    resourceType: string,
+    params: FhirSearchParams = {},
+    maxPages = 100,
+  ): AsyncGenerator<FhirBundle<T>> {
+    let page: FhirBundle<T> | null = await this.search<T>(resourceType, params)
+
+    for (let count = 0; page && count < maxPages; count++) {
+      yield page
+      page = await this.getPage(page, "next")
+    }
+  }
+
+  /**
+   * All matching resources across pages
+   */
+  async searchAll<T extends FhirResource>(
+    resourceType: string,
+    params: FhirSearchParams = {},
+    maxPages = 100,
+  ): Promise<T[]> {
+    const resources: T[] = []
+
+    for await (const page of this.searchPages<T>(resourceType, params, maxPages)) {
+      resources.push(...getBundleMatches(page))
+    }
+
+    return resources
+  }
+
+  /**
+   * Submit a transaction Bundle; the server applies every entry or none of them
+   */
+  async transaction(bundle: FhirBundle): Promise<FhirBundle> {
+    return this.request<FhirBundle>(this.baseUrl, { method: "POST", body: JSON.stringify(bundle) })
+  }
+
+  /**
+   * Send a request to a path relative to the base URL, or to an absolute URL on the same server
+   */
+  async request<T>(pathOrUrl: string, init: RequestInit = {}): Promise<T> {
+    const response = await this.send(pathOrUrl, init)
+    const body = await this.parseBody(response)
+
+    if (!response.ok) {
+      throw this.toError(response, body)
+    }
+
+    // Some servers answer 200 with an OperationOutcome when a search cannot be performed
+    if (isOperationOutcome(body) && body.issue.some((issue) => ["fatal", "error"].includes(issue.severity))) {
+      throw new FhirError(describeOperationOutcome(body) || "FHIR request failed", 400, body)
+    }
+
+    return body as T
+  }
+
+  /**
+   * Send an authorized request and return the raw response, for callers that need headers or a streamed body
+   * Only network failures throw; error statuses are left to the caller. Pass signal: null for long downloads
+   * that should not be cut off by the request timeout
+   */
+  async send(pathOrUrl: string, init: RequestInit = {}): Promise<Response> {
+    const url = this.resolveUrl(pathOrUrl)
+    const headers: Record<string, string> = {
+      Accept: "application/fhir+json",
+      ...this.options.headers,
+      ...(init.headers as Record<string, string>),
+    }
+
+    if (init.body && !headers["Content-Type"]) {
+      headers["Content-Type"] = "application/fhir+json"
+    }
+
+    const token = await this.options.getAccessToken?.()
+    if (token) {
+      headers.Authorization = `Bearer ${token}`
+    }
+
+    try {
+      return await this.fetchImpl(url, {
+        ...init,
+        headers,
+        signal: init.signal === undefined ? AbortSignal.timeout(this.options.timeoutMs || 30000) : init.signal,
+      })
+    } catch (error) {
+      const timedOut = error instanceof Error && error.name === "TimeoutError"
+      logger.error("FHIR request failed", { url, error: error instanceof Error ? error.message : "Unknown error" })
+      throw new FhirError(
+        timedOut ? "FHIR server did not respond in time" : "FHIR server is unreachable",
+        timedOut ? 504 : 502,
+      )
+    }
+  }
+
+  /**
+   * Error for a failed response, reading any OperationOutcome in its body
+   */
+  async toResponseError(response: Response): Promise<FhirError> {
+    return this.toError(response, await this.parseBody(response))
+  }
+
+  private resolveUrl(pathOrUrl: string): string {
+    if (!/^https?:\/\//i.test(pathOrUrl)) {
+      return `${this.baseUrl}/${pathOrUrl.replace(/^\/+/, "")}`
+    }
+
+    // Page links come from the server; never send the access token anywhere else
+    if (!pathOrUrl.startsWith(`${this.baseUrl}/`) && pathOrUrl !== this.baseUrl) {
+      throw new FhirError(`Refusing to follow a link outside ${this.baseUrl}`, 502)
+    }
+
+    return pathOrUrl
+  }
+
+  private async parseBody(response: Response): Promise<any> {
+    const text = await response.text()
+    if (!text) return null
+
+    try {
+      return JSON.parse(text)
+    } catch {
+      return text
+    }
+  }
+
+  private toError(response: Response, body: any): FhirError {
+    const outcome = isOperationOutcome(body) ? body : undefined
+    const message =
+      (outcome && describeOperationOutcome(outcome)) ||
+      `FHIR server responded with ${response.status}${response.statusText ? ` ${response.statusText}` : ""}`
+
+    // Upstream server errors are a bad gateway from our callers' point of view
+    const statusCode = response.status >= 500 ? 502 : response.status
+
+    logger.warn("FHIR request rejected", { url: response.url, status: response.status, message })
+
+    return new FhirError(message, statusCode, outcome)
+  }
+}
+
+export function createFhirClient(options: FhirClientOptions): FhirClient {
+  return new FhirClient(options)
+}
+
+const globalForFhir = globalThis as unknown as { fhirClient?: FhirClient }
+
+/**
+ * Shared client for the server configured in FHIR_BASE_URL
+ */
+export function getFhirClient(): FhirClient {
+  const baseUrl = process.env.FHIR_BASE_URL
+
+  if (!baseUrl) {
+    throw new FhirError("FHIR server is not configured", 503)
+  }
+
+  if (!globalForFhir.fhirClient || globalForFhir.fhirClient.getBaseUrl() !== baseUrl.replace(/\/+$/, "")) {
+    globalForFhir.fhirClient = new FhirClient({
+      baseUrl,
+      timeoutMs: Number(process.env.FHIR_TIMEOUT_MS) || undefined,
+    })
+  }
+
+  return globalForFhir.fhirClient
+}
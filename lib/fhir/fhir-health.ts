@@ -0,0 +1,330 @@
+/**
+ * FHIR server health checks
+ * Probes the CapabilityStatement, the SMART token and each clinical resource type, and keeps a short history
+ * per user so the connection indicator can explain which capabilities are degraded
+ */
+
+import { FhirError, type FhirClient, type FhirResource } from "@/lib/fhir/fhir-client"
+import { HEALTH_RECORD_RESOURCE_TYPES } from "@/lib/fhir/patient-record"
+import type { SmartConnectionState, SmartConnectionStatus } from "@/lib/fhir/smart-auth"
+
+export type FhirCheckStatus = "ok" | "degraded" | "failed" | "skipped"
+
+export interface FhirHealthCheck {
+  status: FhirCheckStatus
+  message?: string
+  latency_ms?: number
+  /** HTTP status of the probe when the server answered with an error */
+  http_status?: number
+}
+
+export interface FhirResourceHealthCheck extends FhirHealthCheck {
+  resource_type: string
+}
+
+export interface FhirHealthReport {
+  state: SmartConnectionState
+  /** One line explaining the state */
+  summary: string
+  checked_at: string
+  server?: string
+  fhir_version?: string
+  software?: string
+  capability: FhirHealthCheck
+  token: FhirHealthCheck
+  resources: FhirResourceHealthCheck[]
+  /** Readable descriptions of every degraded or failed check */
+  degraded: string[]
+  /** SMART connection of the user, null when requests use the shared server connection */
+  connection: SmartConnectionStatus | null
+}
+
+export interface FhirHealthHistoryEntry {
+  checked_at: string
+  state: SmartConnectionState
+  summary: string
+  degraded: string[]
+}
+
+export interface FhirHealthStatus extends FhirHealthReport {
+  /** Earlier checks, newest first */
+  history: FhirHealthHistoryEntry[]
+}
+
+/** Client and SMART connection a check runs against */
+export interface FhirHealthTarget {
+  client: FhirClient
+  connection: SmartConnectionStatus | null
+}
+
+export interface FhirHealthMonitorOptions {
+  /** Resource types probed with a one-result search, defaults to Patient and the health record types */
+  resourceTypes?: string[]
+  /** Probes slower than this are reported as degraded */
+  slowThresholdMs?: number
+  /** Patient searched by the probes when the SMART session has no patient context */
+  probePatientId?: string
+  /** Reports younger than this are reused unless a refresh is requested */
+  cacheTtlMs?: number
+  historySize?: number
+}
+
+const DEFAULT_SLOW_THRESHOLD_MS = 3000
+const DEFAULT_CACHE_TTL_MS = 30 * 1000
+const DEFAULT_HISTORY_SIZE = 20
+
+function elapsed(startedAt: number): number {
+  return Math.round(performance.now() - startedAt)
+}
+
+function errorCheck(error: unknown, latencyMs: number): FhirHealthCheck {
+  if (error instanceof FhirError) {
+    return { status: "failed", message: error.message, http_status: error.statusCode, latency_ms: latencyMs }
+  }
+
+  return { status: "failed", message: error instanceof Error ? error.message : "Unknown error", latency_ms: latencyMs }
+}
+
+/**
+ * State of a set of checks: any failure of the server or token disconnects, anything else wrong limits
+ */
+function summarize(
+  capability: FhirHealthCheck,
+  token: FhirHealthCheck,
+  resources: FhirResourceHealthCheck[],
+): Pick<FhirHealthReport, "state" | "summary" | "degraded"> {
+  const degraded = [
+    ...(capability.status === "degraded" || capability.status === "failed"
+      ? [`Server metadata: ${capability.message}`]
+      : []),
+    ...(token.status === "degraded" || token.status === "failed" ? [`Authorization: ${token.message}`] : []),
+    ...resources
+      .filter((check) => check.status === "degraded" || check.status === "failed")
+      .map((check) => `${check.resource_type}: ${check.message}`),
+  ]
+
+  if (capability.status === "failed") {
+    return { state: "disconnected", summary: capability.message || "FHIR server is unavailable", degraded }
+  }
+
+  if (token.status === "failed") {
+    return { state: "disconnected", summary: token.message || "Authorization failed", degraded }
+  }
+
+  if (resources.length > 0 && resources.every((check) => check.status === "failed")) {
+    return { state: "disconnected", summary: "No clinical data can be read", degraded }
+  }
+
+  if (degraded.length > 0) {
+    const unavailable = resources.filter((check) => check.status !== "ok" && check.status !== "skipped")
+    const summary = unavailable.length
+      ? `${unavailable.length} of ${resources.length} resource types degraded`
+      : degraded[0]
+    return { state: "limited", summary, degraded }
+  }
+
+  return { state: "connected", summary: "All checks passed", degraded }
+}
+
+export class FhirHealthMonitor {
+  private reports = new Map<string, FhirHealthReport>()
+  private history = new Map<string, FhirHealthHistoryEntry[]>()
+  private pending = new Map<string, Promise<FhirHealthReport>>()
+
+  constructor(private readonly options: FhirHealthMonitorOptions = {}) {}
+
+  /**
+   * Latest report for a user with their history, checking again when the last report is stale
+   * Failing to build the target (e.g. no FHIR server configured) is reported as disconnected
+   */
+  async getStatus(
+    key: string,
+    loadTarget: () => Promise<FhirHealthTarget>,
+    options: { refresh?: boolean } = {},
+  ): Promise<FhirHealthStatus> {
+    const cached = this.reports.get(key)
+    const ttl = this.options.cacheTtlMs ?? DEFAULT_CACHE_TTL_MS
+    const fresh = cached && Date.now() - Date.parse(cached.checked_at) < ttl
+
+    const report = fresh && !options.refresh ? cached : await this.checkOnce(key, loadTarget)
+
+    return { ...report, history: this.getHistory(key) }
+  }
+
+  getHistory(key: string): FhirHealthHistoryEntry[] {
+    return [...(this.history.get(key) || [])]
+  }
+
+  /**
+   * Run every check against the target and record the result
+   */
+  async check(key: string, target: FhirHealthTarget): Promise<FhirHealthReport> {
+    const capabilityResult = await this.checkCapability(target.client)
+    const token = this.checkToken(target.connection)
+    const reachable = capabilityResult.check.status !== "failed" && token.status !== "failed"
+    const resources = reachable ? await this.checkResources(target, capabilityResult.statement) : []
+
+    // A token the server rejects on every request is an authorization failure, not missing data
+    const rejected = resources.length > 0 && resources.every((check) => check.http_status === 401)
+    const tokenCheck: FhirHealthCheck = rejected
+      ? { status: "failed", message: "The FHIR server rejected the access token", http_status: 401 }
+      : token
+
+    const report: FhirHealthReport = {
+      ...summarize(capabilityResult.check, tokenCheck, resources),
+      checked_at: new Date().toISOString(),
+      server: target.client.getBaseUrl(),
+      fhir_version: capabilityResult.statement?.fhirVersion,
+      software: capabilityResult.statement?.software?.name,
+      capability: capabilityResult.check,
+      token: tokenCheck,
+      resources,
+      connection: target.connection,
+    }
+
+    this.record(key, report)
+    return report
+  }
+
+  /** Concurrent status requests for the same user share one check */
+  private checkOnce(key: string, loadTarget: () => Promise<FhirHealthTarget>): Promise<FhirHealthReport> {
+    const pending = this.pending.get(key)
+    if (pending) return pending
+
+    const promise = loadTarget()
+      .then((target) => this.check(key, target))
+      .catch((error) => {
+        const capability = errorCheck(error, 0)
+        const report: FhirHealthReport = {
+          state: "disconnected",
+          summary: capability.message || "FHIR server is unavailable",
+          degraded: [`Server: ${capability.message}`],
+          checked_at: new Date().toISOString(),
+          capability,
+          token: { status: "skipped" },
+          resources: [],
+          connection: null,
+        }
+        this.record(key, report)
+        return report
+      })
+      .finally(() => this.pending.delete(key))
+
+    this.pending.set(key, promise)
+    return promise
+  }
+
+  private record(key: string, report: FhirHealthReport) {
+    this.reports.set(key, report)
+
+    const entries = this.history.get(key) || []
+    entries.unshift({
+      checked_at: report.checked_at,
+      state: report.state,
+      summary: report.summary,
+      degraded: report.degraded,
+    })
+    this.history.set(key, entries.slice(0, this.options.historySize ?? DEFAULT_HISTORY_SIZE))
+  }
+
+  private async checkCapability(client: FhirClient): Promise<{ check: FhirHealthCheck; statement?: FhirResource }> {
+    const startedAt = performance.now()
+
+    try {
+      const statement = await client.request<FhirResource>("metadata")
+      const latencyMs = elapsed(startedAt)
+
+      if (statement?.resourceType !== "CapabilityStatement") {
+        const message = "metadata did not return a CapabilityStatement"
+        return { check: { status: "failed", message, latency_ms: latencyMs } }
+      }
+
+      return { check: this.timedCheck(latencyMs), statement }
+    } catch (error) {
+      return { check: errorCheck(error, elapsed(startedAt)) }
+    }
+  }
+
+  private checkToken(connection: SmartConnectionStatus | null): FhirHealthCheck {
+    if (!connection?.iss) {
+      return { status: "skipped", message: "No SMART session, using the server connection" }
+    }
+
+    if (connection.state === "disconnected") {
+      return { status: "failed", message: connection.reason }
+    }
+
+    if (connection.state === "limited") {
+      return { status: "degraded", message: connection.reason }
+    }
+
+    return { status: "ok" }
+  }
+
+  private async checkResources(
+    target: FhirHealthTarget,
+    statement: FhirResource | undefined,
+  ): Promise<FhirResourceHealthCheck[]> {
+    const resourceTypes = this.options.resourceTypes || ["Patient", ...HEALTH_RECORD_RESOURCE_TYPES]
+    const supported = statement?.rest
+      ?.find((rest: any) => rest.mode === "server")
+      ?.resource?.map((resource: any) => resource.type) as string[] | undefined
+    const patientId = target.connection?.patient || this.options.probePatientId
+
+    // Probes run one after another so latency reflects each resource type rather than queueing
+    const checks: FhirResourceHealthCheck[] = []
+
+    for (const resourceType of resourceTypes) {
+      if (supported && !supported.includes(resourceType)) {
+        checks.push({ resource_type: resourceType, status: "degraded", message: "Not supported by the server" })
+        continue
+      }
+
+      checks.push({ resource_type: resourceType, ...(await this.probe(target.client, resourceType, patientId)) })
+    }
+
+    return checks
+  }
+
+  private async probe(client: FhirClient, resourceType: string, patientId?: string): Promise<FhirHealthCheck> {
+    const startedAt = performance.now()
+
+    try {
+      if (resourceType === "Patient") {
+        await (patientId ? client.read("Patient", patientId) : client.search("Patient", { _count: 1 }))
+      } else {
+        await client.search(resourceType, { _count: 1, ...(patientId ? { patient: patientId } : {}) })
+      }
+
+      return this.timedCheck(elapsed(startedAt))
+    } catch (error) {
+      const check = errorCheck(error, elapsed(startedAt))
+
+      // The server is up but will not share this type, e.g. outside the granted scopes
+      if (check.http_status === 403) return { ...check, status: "degraded", message: "Access denied" }
+      if (check.http_status === 400 || check.http_status === 404) return { ...check, status: "degraded" }
+      return check
+    }
+  }
+
+  private timedCheck(latencyMs: number): FhirHealthCheck {
+    const threshold = this.options.slowThresholdMs ?? DEFAULT_SLOW_THRESHOLD_MS
+
+    return latencyMs > threshold
+      ? { status: "degraded", message: `Slow response (${latencyMs} ms)`, latency_ms: latencyMs }
+      : { status: "ok", latency_ms: latencyMs }
+  }
+}
+
+const globalForFhir = globalThis as unknown as { fhirHealthMonitor?: FhirHealthMonitor }
+
+export function getFhirHealthMonitor(): FhirHealthMonitor {
+  if (!globalForFhir.fhirHealthMonitor) {
+    globalForFhir.fhirHealthMonitor = new FhirHealthMonitor({
+      slowThresholdMs: Number(process.env.FHIR_HEALTH_SLOW_MS) || undefined,
+      probePatientId: process.env.FHIR_HEALTH_PROBE_PATIENT_ID || undefined,
+    })
+  }
+
+  return globalForFhir.fhirHealthMonitor
+}
@@ -0,0 +1,483 @@
+/**
+ * FHIR topic-based Subscriptions
+ * Creates R5 Subscriptions, or R4B ones through the Subscriptions Backport IG, that post id-only notifications to
+ * Beaker's webhook. Each notification invalidates the cached data of the patients it concerns and publishes a
+ * PATIENT_UPDATE event so open patient views reload. Gaps in the servers' event numbering mean notifications were
+ * lost, and the affected cache is dropped rather than trusted.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto"
+import { getAidenEventBus, type AidenEventBus } from "@/lib/aiden/aiden-events"
+import { AidenWebSocketEventType } from "@/lib/aiden/aiden-websocket"
+import { FhirError, type FhirBundle, type FhirClient, type FhirResource } from "@/lib/fhir/fhir-client"
+import { getPatientDataCache, type PatientDataCache } from "@/lib/fhir/patient-cache"
+import {
+  InMemoryFhirSubscriptionStore,
+  SupabaseFhirSubscriptionStore,
+  type FhirSubscriptionRecord,
+  type FhirSubscriptionStore,
+  type FhirSubscriptionVersion,
+} from "@/lib/fhir/subscription-store"
+import { getServiceSupabaseClient } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+export class FhirSubscriptionError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode = 400,
+  ) {
+    super(message)
+    this.name = "FhirSubscriptionError"
+  }
+}
+
+/** A subscription as returned by the API, without its notification secret */
+export type FhirSubscriptionView = Omit<FhirSubscriptionRecord, "secret">
+
+export interface FhirSubscriptionRequest {
+  topic: string
+  /** Limit notifications to one patient, all patients when left out */
+  patient_id?: string | null
+  fhir_version?: FhirSubscriptionVersion
+}
+
+export type FhirNotificationType = "handshake" | "heartbeat" | "event-notification" | "query-status" | "query-event"
+
+export interface FhirNotificationEvent {
+  eventNumber: number | null
+  /** Reference of the resource that triggered the event, e.g. Observation/123 */
+  focus?: string
+  additionalContext: string[]
+}
+
+export interface FhirSubscriptionNotification {
+  type: FhirNotificationType
+  eventsSinceSubscriptionStart: number | null
+  events: FhirNotificationEvent[]
+  /** Resources sent along with full-resource content */
+  resources: FhirResource[]
+}
+
+export interface FhirNotificationResult {
+  type: FhirNotificationType
+  /** Patients whose cached data was invalidated, empty when the whole cache was */
+  patient_ids: string[]
+  /** Events the server numbered but never delivered */
+  missed_events: number
+}
+
+export interface FhirSubscriptionManagerOptions {
+  store?: FhirSubscriptionStore
+  cache?: PatientDataCache
+  events?: AidenEventBus
+  /** Seconds between heartbeats requested from the server */
+  heartbeatPeriod?: number
+}
+
+export const SUBSCRIPTION_IDENTIFIER_SYSTEM = "urn:beaker:fhir:subscription"
+
+const FHIR_VERSIONS: FhirSubscriptionVersion[] = ["R4B", "R5"]
+const NOTIFICATION_TYPES: FhirNotificationType[] = [
+  "handshake",
+  "heartbeat",
+  "event-notification",
+  "query-status",
+  "query-event",
+]
+const DEFAULT_HEARTBEAT_PERIOD = 300
+
+const BACKPORT_URL = "http://hl7.org/fhir/uv/subscriptions-backport/StructureDefinition"
+
+function toNumber(value: unknown): number | null {
+  const number = typeof value === "string" ? Number(value) : value
+  return typeof number === "number" && Number.isFinite(number) ? number : null
+}
+
+function referenceOf(value: any): string | undefined {
+  return typeof value?.reference === "string" ? value.reference : undefined
+}
+
+/**
+ * Patient id of a Patient/123 reference, absolute or relative
+ */
+function patientIdOf(reference: string | undefined): string | null {
+  return reference?.match(/(?:^|\/)Patient\/([^/]+)$/)?.[1] || null
+}
+
+/**
+ * The Subscription resource sent to the FHIR server for a record
+ */
+export function buildSubscriptionResource(
+  record: FhirSubscriptionRecord,
+  heartbeatPeriod = DEFAULT_HEARTBEAT_PERIOD,
+): FhirResource {
+  const identifier = [{ system: SUBSCRIPTION_IDENTIFIER_SYSTEM, value: record.id }]
+  const reason = "Beaker live patient updates"
+  const patientFilter = record.patient_id ? `Patient/${record.patient_id}` : null
+
+  if (record.fhir_version === "R5") {
+    return {
+      resourceType: "Subscription",
+      identifier,
+      status: "requested",
+      reason,
+      topic: record.topic,
+      filterBy: patientFilter ? [{ filterParameter: "patient", value: patientFilter }] : undefined,
+      channelType: { system: "http://terminology.hl7.org/CodeSystem/subscription-channel-type", code: "rest-hook" },
+      endpoint: record.endpoint,
+      parameter: [{ name: "Authorization", value: `Bearer ${record.secret}` }],
+      heartbeatPeriod,
+      contentType: "application/fhir+json",
+      content: "id-only",
+    }
+  }
+
+  return {
+    resourceType: "Subscription",
+    meta: { profile: [`${BACKPORT_URL}/backport-subscription`] },
+    identifier,
+    status: "requested",
+    reason,
+    criteria: record.topic,
+    _criteria: patientFilter
+      ? { extension: [{ url: `${BACKPORT_URL}/backport-filter-criteria`, valueString: `patient=${patientFilter}` }] }
+      : undefined,
+    channel: {
+      extension: [{ url: `${BACKPORT_URL}/backport-heartbeat-period`, valueUnsignedInt: heartbeatPeriod }],
+      type: "rest-hook",
+      endpoint: record.endpoint,
+      payload: "application/fhir+json",
+      _payload: { extension: [{ url: `${BACKPORT_URL}/backport-payload-content`, valueCode: "id-only" }] },
+      header: [`Authorization: Bearer ${record.secret}`],
+    },
+  }
+}
+
+/**
+ * Read a notification Bundle: R5 and R4B carry a SubscriptionStatus, R4 backport servers a Parameters resource
+ */
+export function parseNotificationBundle(body: unknown): FhirSubscriptionNotification {
+  const bundle = body as FhirBundle | null
+  if (bundle?.resourceType !== "Bundle" || !["subscription-notification", "history"].includes(bundle.type || "")) {
+    throw new FhirSubscriptionError("Request body must be a subscription notification Bundle")
+  }
+
+  const [statusEntry, ...rest] = bundle.entry || []
+  const status = statusEntry?.resource
+  const resources = rest.map((entry) => entry.resource).filter(Boolean) as FhirResource[]
+
+  let notification: Omit<FhirSubscriptionNotification, "resources"> | null = null
+
+  if (status?.resourceType === "SubscriptionStatus") {
+    notification = {
+      type: status.type,
+      eventsSinceSubscriptionStart: toNumber(status.eventsSinceSubscriptionStart),
+      events: (status.notificationEvent || []).map((event: any) => ({
+        eventNumber: toNumber(event.eventNumber),
+        focus: referenceOf(event.focus),
+        additionalContext: (event.additionalContext || []).map(referenceOf).filter(Boolean),
+      })),
+    }
+  } else if (status?.resourceType === "Parameters") {
+    const parameters: any[] = status.parameter || []
+    const value = (name: string, list = parameters) => {
+      const parameter = list.find((candidate) => candidate.name === name)
+      return parameter?.valueCode ?? parameter?.valueString ?? parameter?.valueUnsignedInt ?? parameter?.valueInteger64
+    }
+
+    notification = {
+      type: value("type"),
+      eventsSinceSubscriptionStart: toNumber(value("events-since-subscription-start")),
+      events: parameters
+        .filter((parameter) => parameter.name === "notification-event")
+        .map((parameter) => {
+          const parts: any[] = parameter.part || []
+          return {
+            eventNumber: toNumber(value("event-number", parts)),
+            focus: referenceOf(parts.find((part) => part.name === "focus")?.valueReference),
+            additionalContext: parts
+              .filter((part) => part.name === "additional-context")
+              .map((part) => referenceOf(part.valueReference))
+              .filter(Boolean) as string[],
+          }
+        }),
+    }
+  }
+
+  if (!notification || !NOTIFICATION_TYPES.includes(notification.type)) {
+    throw new FhirSubscriptionError("Notification Bundle has no SubscriptionStatus with a known type")
+  }
+
+  return { ...notification, resources }
+}
+
+/**
+ * Compare a presented bearer token with the secret in constant time
+ */
+function matchesSecret(authorization: string | null, secret: string): boolean {
+  const token = authorization?.match(/^Bearer\s+(.+)$/i)?.[1]
+  if (!token) return false
+
+  const digest = (value: string) => createHash("sha256").update(value).digest()
+  return timingSafeEqual(digest(token), digest(secret))
+}
+
+function toView({ secret: _secret, ...record }: FhirSubscriptionRecord): FhirSubscriptionView {
+  return record
+}
+
+export class FhirSubscriptionManager {
+  private readonly store: FhirSubscriptionStore
+  private readonly cache: PatientDataCache
+  private readonly events?: AidenEventBus
+
+  constructor(private readonly options: FhirSubscriptionManagerOptions = {}) {
+    this.store = options.store || new InMemoryFhirSubscriptionStore()
+    this.cache = options.cache || getPatientDataCache()
+    this.events = options.events
+  }
+
+  async list(): Promise<FhirSubscriptionView[]> {
+    return (await this.store.list()).map(toView)
+  }
+
+  async get(subscriptionId: string): Promise<FhirSubscriptionView> {
+    return toView(await this.getRecord(subscriptionId))
+  }
+
+  /**
+   * Create a Subscription on the client's server that notifies the webhook under endpointBase
+   * The server confirms the endpoint with a handshake, which activates the subscription
+   */
+  async create(
+    client: FhirClient,
+    request: FhirSubscriptionRequest,
+    endpointBase: string,
+    createdBy: string,
+  ): Promise<FhirSubscriptionView> {
+    const topic = typeof request?.topic === "string" ? request.topic.trim() : ""
+    const fhirVersion = request?.fhir_version || "R5"
+
+    if (!/^(https?|urn):/i.test(topic)) {
+      throw new FhirSubscriptionError("topic must be the canonical URL of a SubscriptionTopic")
+    }
+    if (!FHIR_VERSIONS.includes(fhirVersion)) {
+      throw new FhirSubscriptionError(`fhir_version must be one of ${FHIR_VERSIONS.join(", ")}`)
+    }
+    if (request.patient_id != null && (typeof request.patient_id !== "string" || !request.patient_id)) {
+      throw new FhirSubscriptionError("patient_id must be a patient id")
+    }
+
+    const id = crypto.randomUUID()
+    const now = new Date().toISOString()
+    const record = await this.store.save({
+      id,
+      server: client.getBaseUrl(),
+      fhir_version: fhirVersion,
+      topic,
+      patient_id: request.patient_id || null,
+      resource_id: null,
+      endpoint: `${endpointBase.replace(/\/+$/, "")}/api/fhir/subscriptions/${id}/webhook`,
+      secret: randomBytes(32).toString("base64url"),
+      status: "requested",
+      events_received: 0,
+      last_notification_at: null,
+      error: null,
+      created_by: createdBy,
+      created_at: now,
+      updated_at: now,
+    })
+
+    try {
+      const created = await client.request<FhirResource>("Subscription", {
+        method: "POST",
+        body: JSON.stringify(buildSubscriptionResource(record, this.options.heartbeatPeriod)),
+      })
+
+      // The handshake can arrive before the server answers the create
+      const current = (await this.store.get(id)) || record
+      const saved = await this.store.save({
+        ...current,
+        resource_id: created?.id || null,
+        status: current.status === "active" || created?.status === "active" ? "active" : current.status,
+        updated_at: new Date().toISOString(),
+      })
+
+      logger.info("FHIR subscription created", { subscriptionId: id, topic, server: record.server, createdBy })
+      return toView(saved)
+    } catch (error) {
+      await this.store.save({
+        ...record,
+        status: "error",
+        error: error instanceof Error ? error.message : "Unknown error",
+        updated_at: new Date().toISOString(),
+      })
+      throw error
+    }
+  }
+
+  /**
+   * Delete the Subscription from the server and stop accepting its notifications
+   */
+  async remove(subscriptionId: string, client: FhirClient, removedBy?: string | null): Promise<FhirSubscriptionView> {
+    const record = await this.getRecord(subscriptionId)
+
+    if (record.server !== client.getBaseUrl()) {
+      throw new FhirSubscriptionError(`Subscription ${subscriptionId} belongs to ${record.server}`, 409)
+    }
+
+    if (record.resource_id && record.status !== "off") {
+      try {
+        await client.request(`Subscription/${encodeURIComponent(record.resource_id)}`, { method: "DELETE" })
+      } catch (error) {
+        // Already gone from the server
+        if (!(error instanceof FhirError && [404, 410].includes(error.statusCode))) throw error
+      }
+    }
+
+    logger.info("FHIR subscription removed", { subscriptionId, removedBy })
+
+    return toView(await this.store.save({ ...record, status: "off", updated_at: new Date().toISOString() }))
+  }
+
+  /**
+   * Handle a notification posted to a subscription's webhook
+   */
+  async receive(subscriptionId: string, authorization: string | null, body: unknown): Promise<FhirNotificationResult> {
+    const record = await this.getRecord(subscriptionId)
+
+    if (!matchesSecret(authorization, record.secret)) {
+      throw new FhirSubscriptionError("Notification is not authorized for this subscription", 401)
+    }
+    if (record.status === "off") {
+      // 410 tells the server to stop sending notifications for it
+      throw new FhirSubscriptionError(`Subscription ${subscriptionId} has been removed`, 410)
+    }
+
+    const notification = parseNotificationBundle(body)
+    const { type, eventsSinceSubscriptionStart, events } = notification
+
+    const delivered = type === "event-notification" ? events.length : 0
+    const expected = record.events_received + delivered
+    const missedEvents =
+      type !== "handshake" && eventsSinceSubscriptionStart !== null
+        ? Math.max(0, eventsSinceSubscriptionStart - expected)
+        : 0
+
+    let patientIds: string[] = []
+
+    if (missedEvents > 0) {
+      logger.warn("FHIR subscription notifications were missed", { subscriptionId, missedEvents })
+      patientIds = this.invalidate(record, record.patient_id ? [record.patient_id] : null, {
+        subscription_id: record.id,
+        topic: record.topic,
+        missed_events: missedEvents,
+      })
+    }
+
+    if (type === "event-notification") {
+      events.forEach((event) => {
+        const ids = this.getEventPatientIds(record, event, notification.resources)
+        const [resourceType, resourceId] = event.focus?.split("/").slice(-2) || []
+
+        patientIds.push(
+          ...this.invalidate(record, ids, {
+            subscription_id: record.id,
+            topic: record.topic,
+            event_number: event.eventNumber,
+            resource_type: resourceType || null,
+            resource_id: resourceId || null,
+          }),
+        )
+      })
+    }
+
+    await this.store.save({
+      ...record,
+      status: "active",
+      error: null,
+      events_received: type === "handshake" ? 0 : Math.max(expected, eventsSinceSubscriptionStart ?? 0),
+      last_notification_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+
+    return { type, patient_ids: Array.from(new Set(patientIds)), missed_events: missedEvents }
+  }
+
+  private async getRecord(subscriptionId: string): Promise<FhirSubscriptionRecord> {
+    const record = await this.store.get(subscriptionId)
+
+    if (!record) {
+      throw new FhirSubscriptionError(`FHIR subscription ${subscriptionId} not found`, 404)
+    }
+
+    return record
+  }
+
+  /**
+   * Patients an event concerns: a Patient focus or context, the subject of the focus resource when it was sent
+   * along, or the patient the subscription is filtered to. Null when it cannot be told.
+   */
+  private getEventPatientIds(
+    record: FhirSubscriptionRecord,
+    event: FhirNotificationEvent,
+    resources: FhirResource[],
+  ): string[] | null {
+    const focus = resources.find((resource) => event.focus?.endsWith(`${resource.resourceType}/${resource.id}`))
+    const ids = [
+      patientIdOf(event.focus),
+      ...event.additionalContext.map(patientIdOf),
+      patientIdOf(referenceOf(focus?.subject)),
+      patientIdOf(referenceOf(focus?.patient)),
+    ].filter(Boolean) as string[]
+
+    if (ids.length > 0) return Array.from(new Set(ids))
+    return record.patient_id ? [record.patient_id] : null
+  }
+
+  /**
+   * Drop cached data for the patients, or everything read from the server when they are unknown, and tell
+   * open views to reload. Returns the patients invalidated.
+   */
+  private invalidate(
+    record: FhirSubscriptionRecord,
+    patientIds: string[] | null,
+    payload: Record<string, unknown>,
+  ): string[] {
+    if (!patientIds) {
+      this.cache.invalidateServer(record.server)
+      this.events?.publish(AidenWebSocketEventType.PATIENT_UPDATE, { ...payload, patient_id: null })
+      return []
+    }
+
+    patientIds.forEach((patientId) => {
+      this.cache.invalidatePatient(patientId, record.server)
+      this.events?.publish(
+        AidenWebSocketEventType.PATIENT_UPDATE,
+        { ...payload, patient_id: patientId },
+        { patient_id: patientId },
+      )
+    })
+
+    return patientIds
+  }
+}
+
+const globalForFhir = globalThis as unknown as { fhirSubscriptionManager?: FhirSubscriptionManager }
+
+/**
+ * Shared subscription manager for the API routes
+ */
+export function getFhirSubscriptionManager(): FhirSubscriptionManager {
+  if (!globalForFhir.fhirSubscriptionManager) {
+    const supabase = getServiceSupabaseClient()
+
+    globalForFhir.fhirSubscriptionManager = new FhirSubscriptionManager({
+      store: supabase ? new SupabaseFhirSubscriptionStore(supabase) : new InMemoryFhirSubscriptionStore(),
+      events: getAidenEventBus(),
+      heartbeatPeriod: Number(process.env.FHIR_SUBSCRIPTION_HEARTBEAT_SECONDS) || undefined,
+    })
+  }
+
+  return globalForFhir.fhirSubscriptionManager
+}
@@ -0,0 +1,581 @@
+/**
+ * FHIR to view model transformer
+ * Maps FHIR R4 resources to the flat summaries rendered by the patient components and read by AIDEN tasks
+ */
+
+import type {
+  FhirAddress,
+  FhirBundle,
+  FhirCodeableConcept,
+  FhirContactPoint,
+  FhirHumanName,
+  FhirIdentifier,
+  FhirPatient,
+  FhirReference,
+  FhirResource,
+} from "@/lib/fhir/fhir-client"
+
+export const CODE_SYSTEMS = {
+  SNOMED: "http://snomed.info/sct",
+  LOINC: "http://loinc.org",
+  RXNORM: "http://www.nlm.nih.gov/research/umls/rxnorm",
+  ICD10: "http://hl7.org/fhir/sid/icd-10-cm",
+  CVX: "http://hl7.org/fhir/sid/cvx",
+} as const
+
+const TERMINOLOGY_NAMES: Record<string, string> = {
+  [CODE_SYSTEMS.SNOMED]: "SNOMED CT",
+  [CODE_SYSTEMS.LOINC]: "LOINC",
+  [CODE_SYSTEMS.RXNORM]: "RxNorm",
+  [CODE_SYSTEMS.ICD10]: "ICD-10-CM",
+  [CODE_SYSTEMS.CVX]: "CVX",
+}
+
+/** Codings from these systems are preferred, in this order, when a concept has several */
+const PREFERRED_SYSTEMS: string[] = [
+  CODE_SYSTEMS.SNOMED,
+  CODE_SYSTEMS.LOINC,
+  CODE_SYSTEMS.RXNORM,
+  CODE_SYSTEMS.CVX,
+  CODE_SYSTEMS.ICD10,
+]
+
+const IDENTIFIER_TYPE_NAMES: Record<string, string> = {
+  MR: "Medical Record Number",
+  SS: "Social Security Number",
+  DL: "Driver's License Number",
+  PPN: "Passport Number",
+  MB: "Member Number",
+  PI: "Patient Internal Identifier",
+  AN: "Account Number",
+}
+
+const IDENTIFIER_SYSTEM_NAMES: Record<string, string> = {
+  "http://hl7.org/fhir/sid/us-ssn": "Social Security Number",
+  "http://hl7.org/fhir/sid/us-npi": "National Provider Identifier",
+}
+
+export interface CodedValue {
+  display: string
+  code?: string
+  system?: string
+  /** Readable name of the code system, e.g. SNOMED CT */
+  terminology?: string
+  /** Every coding on the concept, for lookups in other terminologies */
+  codings: Array<{ system?: string; code?: string; display?: string }>
+}
+
+export interface PatientIdentifier {
+  type: string
+  value: string
+  system?: string
+}
+
+export interface PatientSummary {
+  id: string
+  name: string
+  /** Every recorded name, official first */
+  names: string[]
+  identifiers: PatientIdentifier[]
+  active: boolean
+  gender?: string
+  birthDate?: string
+  age?: number
+  address?: string
+  phone?: string
+  email?: string
+  deceased: boolean
+  deceasedDate?: string
+  lastUpdated?: string
+}
+
+export interface ConditionSummary {
+  id: string
+  code: CodedValue
+  display: string
+  clinicalStatus?: string
+  verificationStatus?: string
+  categories: string[]
+  severity?: string
+  onsetDate?: string
+  abatementDate?: string
+  recordedDate?: string
+}
+
+export interface MedicationSummary {
+  id: string
+  code: CodedValue
+  display: string
+  status?: string
+  intent?: string
+  dosage?: string
+  authoredOn?: string
+  requester?: string
+}
+
+export interface AllergySummary {
+  id: string
+  code: CodedValue
+  display: string
+  clinicalStatus?: string
+  verificationStatus?: string
+  type?: string
+  categories: string[]
+  criticality?: string
+  reactions: string[]
+  recordedDate?: string
+}
+
+export interface ObservationComponentSummary {
+  code: CodedValue
+  display: string
+  value?: number | string | boolean
+  unit?: string
+  valueText?: string
+}
+
+export interface ObservationSummary {
+  id: string
+  code: CodedValue
+  display: string
+  status?: string
+  categories: string[]
+  value?: number | string | boolean
+  /** Value with its unit, ready to render */
+  valueText?: string
+  unit?: string
+  referenceRange?: string
+  /** Interpretation code such as H, L or N, or its text when uncoded */
+  interpretation?: string
+  effectiveDate?: string
+  components: ObservationComponentSummary[]
+}
+
+export interface ProcedureSummary {
+  id: string
+  code: CodedValue
+  display: string
+  status?: string
+  performedDate?: string
+  performer?: string
+}
+
+export interface ImmunizationSummary {
+  id: string
+  code: CodedValue
+  display: string
+  status?: string
+  occurrenceDate?: string
+  lotNumber?: string
+}
+
+export interface DiagnosticReportSummary {
+  id: string
+  code: CodedValue
+  display: string
+  status?: string
+  categories: string[]
+  effectiveDate?: string
+  issued?: string
+  conclusion?: string
+  performer?: string
+  /** Ids of the Observations in the report */
+  resultIds: string[]
+}
+
+export interface PatientHealthRecord {
+  patient: PatientSummary
+  conditions: ConditionSummary[]
+  medications: MedicationSummary[]
+  allergies: AllergySummary[]
+  observations: ObservationSummary[]
+  procedures: ProcedureSummary[]
+  immunizations: ImmunizationSummary[]
+  diagnosticReports: DiagnosticReportSummary[]
+}
+
+/**
+ * Readable value of a codeable concept, preferring SNOMED CT, LOINC and RxNorm codings
+ */
+export function toCodedValue(concept: FhirCodeableConcept | undefined, fallback = "Unknown"): CodedValue {
+  const codings = concept?.coding || []
+  const preferred =
+    PREFERRED_SYSTEMS.map((system) => codings.find((coding) => coding.system === system)).find(Boolean) || codings[0]
+
+  return {
+    display:
+      concept?.text ||
+      preferred?.display ||
+      codings.find((coding) => coding.display)?.display ||
+      preferred?.code ||
+      fallback,
+    code: preferred?.code,
+    system: preferred?.system,
+    terminology: preferred?.system ? TERMINOLOGY_NAMES[preferred.system] : undefined,
+    codings: codings.map(({ system, code, display }) => ({ system, code, display })),
+  }
+}
+
+/** First code of a status-like concept, e.g. clinicalStatus */
+function conceptCode(concept: FhirCodeableConcept | undefined): string | undefined {
+  return concept?.coding?.find((coding) => coding.code)?.code || concept?.text
+}
+
+function conceptList(concepts: FhirCodeableConcept[] | FhirCodeableConcept | undefined): string[] {
+  const list = Array.isArray(concepts) ? concepts : concepts ? [concepts] : []
+  return list.map((concept) => toCodedValue(concept, "").display).filter(Boolean)
+}
+
+function referenceDisplay(reference: FhirReference | FhirReference[] | undefined): string | undefined {
+  const first = Array.isArray(reference) ? reference[0] : reference
+  return first?.display || first?.reference
+}
+
+function referenceId(reference: FhirReference | undefined): string | undefined {
+  return reference?.reference?.split("/").pop()
+}
+
+/** Date of a polymorphic [x] element such as onset[x] or effective[x] */
+function polymorphicDate(resource: FhirResource, prefix: string): string | undefined {
+  return (
+    resource[`${prefix}DateTime`] ||
+    resource[`${prefix}Instant`] ||
+    resource[`${prefix}Date`] ||
+    resource[`${prefix}Period`]?.start ||
+    resource[`${prefix}Period`]?.end
+  )
+}
+
+export function formatHumanName(name: FhirHumanName): string {
+  if (name.text?.trim()) return name.text.trim()
+  return [...(name.prefix || []), ...(name.given || []), name.family, ...(name.suffix || [])].filter(Boolean).join(" ")
+}
+
+function isCurrent(period: { end?: string } | undefined, now: Date): boolean {
+  return !period?.end || Date.parse(period.end) > now.getTime()
+}
+
+/**
+ * Names ordered official, usual, then the rest, leaving out old names
+ */
+function orderNames(names: FhirHumanName[], now: Date): FhirHumanName[] {
+  const rank = (name: FhirHumanName) => (name.use === "official" ? 0 : name.use === "usual" ? 1 : 2)
+  return names
+    .filter((name) => name.use !== "old" && isCurrent(name.period, now))
+    .sort((a, b) => rank(a) - rank(b))
+}
+
+function identifierType(identifier: FhirIdentifier): string {
+  const coding = identifier.type?.coding?.find((candidate) => candidate.code && IDENTIFIER_TYPE_NAMES[candidate.code])
+
+  return (
+    (coding?.code && IDENTIFIER_TYPE_NAMES[coding.code]) ||
+    identifier.type?.text ||
+    identifier.type?.coding?.find((candidate) => candidate.display)?.display ||
+    (identifier.system && IDENTIFIER_SYSTEM_NAMES[identifier.system]) ||
+    "Identifier"
+  )
+}
+
+function formatAddress(address: FhirAddress): string {
+  if (address.text?.trim()) return address.text.trim()
+
+  const region = [address.state, address.postalCode].filter(Boolean).join(" ")
+  return [...(address.line || []), address.city, region, address.country].filter(Boolean).join(", ")
+}
+
+function pickAddress(addresses: FhirAddress[] | undefined, now: Date): FhirAddress | undefined {
+  const current = (addresses || []).filter((address) => address.use !== "old" && isCurrent(address.period, now))
+  return current.find((address) => address.use === "home") || current[0]
+}
+
+function pickTelecom(telecom: FhirContactPoint[] | undefined, system: FhirContactPoint["system"]): string | undefined {
+  return (telecom || [])
+    .filter((contact) => contact.system === system && contact.value && contact.use !== "old")
+    .sort((a, b) => (a.rank ?? Number.MAX_SAFE_INTEGER) - (b.rank ?? Number.MAX_SAFE_INTEGER))[0]?.value
+}
+
+/**
+ * Age in whole years on the given date
+ */
+export function calculateAge(birthDate: string, on: Date = new Date()): number | undefined {
+  const [year, month = 1, day = 1] = birthDate.split("-").map(Number)
+  if (!year) return undefined
+
+  let age = on.getUTCFullYear() - year
+  if (on.getUTCMonth() + 1 < month || (on.getUTCMonth() + 1 === month && on.getUTCDate() < day)) age--
+
+  return age >= 0 ? age : undefined
+}
+
+export function transformPatient(patient: FhirPatient, now: Date = new Date()): PatientSummary {
+  const names = orderNames(patient.name || [], now).map(formatHumanName).filter(Boolean)
+  const deceasedDate = patient.deceasedDateTime
+  const deceased = !!patient.deceasedBoolean || !!deceasedDate
+  const address = pickAddress(patient.address, now)
+
+  return {
+    id: patient.id,
+    name: names[0] || "Unknown Name",
+    names,
+    identifiers: (patient.identifier || [])
+      .filter((identifier) => identifier.value && isCurrent(identifier.period, now))
+      .map((identifier) => ({ type: identifierType(identifier), value: identifier.value!, system: identifier.system })),
+    active: patient.active ?? true,
+    gender: patient.gender,
+    birthDate: patient.birthDate,
+    age: patient.birthDate
+      ? calculateAge(patient.birthDate, deceasedDate ? new Date(deceasedDate) : now)
+      : undefined,
+    address: address ? formatAddress(address) || undefined : undefined,
+    phone: pickTelecom(patient.telecom, "phone"),
+    email: pickTelecom(patient.telecom, "email"),
+    deceased,
+    deceasedDate,
+    lastUpdated: patient.meta?.lastUpdated,
+  }
+}
+
+export function transformCondition(condition: FhirResource): ConditionSummary {
+  const code = toCodedValue(condition.code, "Unnamed condition")
+
+  return {
+    id: condition.id || "",
+    code,
+    display: code.display,
+    clinicalStatus: conceptCode(condition.clinicalStatus),
+    verificationStatus: conceptCode(condition.verificationStatus),
+    categories: conceptList(condition.category),
+    severity: condition.severity ? toCodedValue(condition.severity).display : undefined,
+    onsetDate: polymorphicDate(condition, "onset"),
+    abatementDate: polymorphicDate(condition, "abatement"),
+    recordedDate: condition.recordedDate,
+  }
+}
+
+function formatDosage(dosage: any): string | undefined {
+  if (!dosage) return undefined
+  if (dosage.text) return dosage.text
+
+  const dose = dosage.doseAndRate?.[0]?.doseQuantity
+  const timing = dosage.timing?.code?.text || dosage.timing?.code?.coding?.[0]?.display
+  const route = dosage.route ? toCodedValue(dosage.route, "").display : undefined
+
+  const text = [dose ? `${dose.value} ${dose.unit || dose.code || ""}`.trim() : undefined, route, timing]
+    .filter(Boolean)
+    .join(" ")
+  return text || undefined
+}
+
+/**
+ * MedicationRequest (or MedicationStatement); referenced Medications are resolved from the same record
+ */
+export function transformMedication(
+  request: FhirResource,
+  medications: Map<string, FhirResource> = new Map(),
+): MedicationSummary {
+  const reference = request.medicationReference?.reference
+  const contained = reference?.startsWith("#")
+    ? request.contained?.find((resource: FhirResource) => `#${resource.id}` === reference)
+    : undefined
+  const medication = contained || (reference ? medications.get(reference) : undefined)
+  const code = toCodedValue(
+    request.medicationCodeableConcept || medication?.code,
+    request.medicationReference?.display || "Unnamed medication",
+  )
+
+  return {
+    id: request.id || "",
+    code,
+    display: code.display,
+    status: request.status,
+    intent: request.intent,
+    dosage: formatDosage(request.dosageInstruction?.[0] || request.dosage?.[0]),
+    authoredOn: request.authoredOn || request.effectiveDateTime || request.dateAsserted,
+    requester: referenceDisplay(request.requester || request.informationSource),
+  }
+}
+
+export function transformAllergyIntolerance(allergy: FhirResource): AllergySummary {
+  const code = toCodedValue(allergy.code, "Unnamed allergy")
+
+  return {
+    id: allergy.id || "",
+    code,
+    display: code.display,
+    clinicalStatus: conceptCode(allergy.clinicalStatus),
+    verificationStatus: conceptCode(allergy.verificationStatus),
+    type: allergy.type,
+    categories: allergy.category || [],
+    criticality: allergy.criticality,
+    reactions: (allergy.reaction || []).flatMap((reaction: any) => conceptList(reaction.manifestation)),
+    recordedDate: allergy.recordedDate || polymorphicDate(allergy, "onset"),
+  }
+}
+
+/**
+ * Value of a value[x] element with its unit
+ */
+function observationValue(element: FhirResource): Pick<ObservationComponentSummary, "value" | "unit" | "valueText"> {
+  if (element.valueQuantity) {
+    const unit = element.valueQuantity.unit || element.valueQuantity.code
+    const value = element.valueQuantity.value
+    const comparator = element.valueQuantity.comparator || ""
+    const valueText = value === undefined ? undefined : `${comparator}${value}${unit ? ` ${unit}` : ""}`
+    return { value, unit, valueText }
+  }
+  if (element.valueCodeableConcept) {
+    const display = toCodedValue(element.valueCodeableConcept).display
+    return { value: display, valueText: display }
+  }
+  if (element.valueString !== undefined) return { value: element.valueString, valueText: element.valueString }
+  if (element.valueBoolean !== undefined) {
+    return { value: element.valueBoolean, valueText: element.valueBoolean ? "Yes" : "No" }
+  }
+  if (element.valueInteger !== undefined) {
+    return { value: element.valueInteger, valueText: String(element.valueInteger) }
+  }
+  if (element.valueRange) {
+    const { low, high } = element.valueRange
+    const unit = low?.unit || high?.unit
+    return { valueText: `${low?.value ?? ""}–${high?.value ?? ""}${unit ? ` ${unit}` : ""}`, unit }
+  }
+  if (element.valueRatio) {
+    const { numerator, denominator } = element.valueRatio
+    return { valueText: `${numerator?.value ?? ""}/${denominator?.value ?? ""}` }
+  }
+  if (element.valueDateTime) return { value: element.valueDateTime, valueText: element.valueDateTime }
+  return {}
+}
+
+function formatReferenceRange(range: any): string | undefined {
+  if (!range) return undefined
+  if (range.text) return range.text
+
+  const unit = range.low?.unit || range.high?.unit
+  if (range.low?.value !== undefined && range.high?.value !== undefined) {
+    return `${range.low.value}-${range.high.value}${unit ? ` ${unit}` : ""}`
+  }
+  if (range.low?.value !== undefined) return `>=${range.low.value}${unit ? ` ${unit}` : ""}`
+  if (range.high?.value !== undefined) return `<=${range.high.value}${unit ? ` ${unit}` : ""}`
+  return undefined
+}
+
+export function transformObservation(observation: FhirResource): ObservationSummary {
+  const code = toCodedValue(observation.code, "Unnamed observation")
+  const interpretation = observation.interpretation?.[0]
+
+  return {
+    id: observation.id || "",
+    code,
+    display: code.display,
+    status: observation.status,
+    categories: conceptList(observation.category),
+    ...observationValue(observation),
+    referenceRange: formatReferenceRange(observation.referenceRange?.[0]),
+    interpretation: interpretation ? conceptCode(interpretation) : undefined,
+    effectiveDate: polymorphicDate(observation, "effective") || observation.issued,
+    components: (observation.component || []).map((component: any) => {
+      const componentCode = toCodedValue(component.code, "Component")
+      return { code: componentCode, display: componentCode.display, ...observationValue(component) }
+    }),
+  }
+}
+
+export function transformProcedure(procedure: FhirResource): ProcedureSummary {
+  const code = toCodedValue(procedure.code, "Unnamed procedure")
+
+  return {
+    id: procedure.id || "",
+    code,
+    display: code.display,
+    status: procedure.status,
+    performedDate: polymorphicDate(procedure, "performed"),
+    performer: referenceDisplay(procedure.performer?.[0]?.actor),
+  }
+}
+
+export function transformImmunization(immunization: FhirResource): ImmunizationSummary {
+  const code = toCodedValue(immunization.vaccineCode, "Unnamed vaccine")
+
+  return {
+    id: immunization.id || "",
+    code,
+    display: code.display,
+    status: immunization.status,
+    occurrenceDate: immunization.occurrenceDateTime || immunization.occurrenceString,
+    lotNumber: immunization.lotNumber,
+  }
+}
+
+export function transformDiagnosticReport(report: FhirResource): DiagnosticReportSummary {
+  const code = toCodedValue(report.code, "Unnamed report")
+
+  return {
+    id: report.id || "",
+    code,
+    display: code.display,
+    status: report.status,
+    categories: conceptList(report.category),
+    effectiveDate: polymorphicDate(report, "effective"),
+    issued: report.issued,
+    conclusion: report.conclusion || conceptList(report.conclusionCode)[0],
+    performer: referenceDisplay(report.performer),
+    resultIds: (report.result || []).map(referenceId).filter(Boolean) as string[],
+  }
+}
+
+/**
+ * Resources from Bundles or plain resource lists, without OperationOutcomes or duplicates
+ */
+function collectResources(sources: Array<FhirResource | FhirBundle>): FhirResource[] {
+  const resources = new Map<string, FhirResource>()
+
+  sources
+    .flatMap((source) =>
+      source.resourceType === "Bundle"
+        ? ((source as FhirBundle).entry || []).map((entry) => entry.resource).filter(Boolean)
+        : [source],
+    )
+    .forEach((resource) => {
+      if (resource && resource.resourceType !== "OperationOutcome") {
+        resources.set(`${resource.resourceType}/${resource.id}`, resource)
+      }
+    })
+
+  return Array.from(resources.values())
+}
+
+function newestFirst<T>(items: T[], date: (item: T) => string | undefined): T[] {
+  return items.sort((a, b) => (date(b) || "").localeCompare(date(a) || ""))
+}
+
+/**
+ * Build the health record from a Patient and the Bundles (or resources) of their clinical data
+ */
+export function transformHealthRecord(
+  patient: FhirPatient,
+  sources: Array<FhirResource | FhirBundle>,
+  now: Date = new Date(),
+): PatientHealthRecord {
+  const resources = collectResources(sources)
+  const ofType = (...types: string[]) => resources.filter((resource) => types.includes(resource.resourceType))
+  const medications = new Map(ofType("Medication").map((medication) => [`Medication/${medication.id}`, medication]))
+
+  return {
+    patient: transformPatient(patient, now),
+    conditions: newestFirst(ofType("Condition").map(transformCondition), (c) => c.onsetDate || c.recordedDate),
+    medications: newestFirst(
+      ofType("MedicationRequest", "MedicationStatement").map((request) => transformMedication(request, medications)),
+      (m) => m.authoredOn,
+    ),
+    allergies: newestFirst(ofType("AllergyIntolerance").map(transformAllergyIntolerance), (a) => a.recordedDate),
+    observations: newestFirst(ofType("Observation").map(transformObservation), (o) => o.effectiveDate),
+    procedures: newestFirst(ofType("Procedure").map(transformProcedure), (p) => p.performedDate),
+    immunizations: newestFirst(ofType("Immunization").map(transformImmunization), (i) => i.occurrenceDate),
+    diagnosticReports: newestFirst(
+      ofType("DiagnosticReport").map(transformDiagnosticReport),
+      (r) => r.effectiveDate || r.issued,
+    ),
+  }
+}
@@ -0,0 +1,460 @@
+/**
+ * EHR write-back of AIDEN results
+ * Accepted AIDEN results become drafts that a clinician reviews and signs before they are published to the
+ * FHIR server. Publishing retries transient failures and never creates an artifact twice: resources are
+ * conditional creates on a per-draft identifier, and a retry first looks for a transaction the server
+ * applied but did not confirm.
+ */
+
+import { setTimeout as sleep } from "node:timers/promises"
+import { AidenTaskStatus, AidenTaskType, type AidenTask } from "@/lib/aiden/aiden-client"
+import { getAidenTaskEngine } from "@/lib/aiden/task-engine"
+import { FhirError, getBundleMatches, type FhirBundle, type FhirClient } from "@/lib/fhir/fhir-client"
+import { WRITEBACK_IDENTIFIER_SYSTEM, buildWritebackBundle } from "@/lib/fhir/writeback-resources"
+import {
+  InMemoryWritebackStore,
+  SupabaseWritebackStore,
+  type WritebackDraft,
+  type WritebackKind,
+  type WritebackPublishedResource,
+  type WritebackQuery,
+  type WritebackSigner,
+  type WritebackStore,
+} from "@/lib/fhir/writeback-store"
+import { getVariantReclassificationService } from "@/lib/genomics/reclassification"
+import type { GenomicVariant, VariantSignificance } from "@/lib/genomics/types"
+import { getServiceSupabaseClient } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+export interface WritebackDraftRequest {
+  kind: WritebackKind
+  /** Completed AIDEN task whose result is published; required except for genomic findings */
+  task_id?: string
+  /** Variants to report, for genomic findings */
+  variants?: GenomicVariant[]
+  title?: string
+}
+
+export interface WritebackSignOptions {
+  /** Narrative as edited by the reviewer, replacing the generated one */
+  narrative?: string
+}
+
+export interface FhirWritebackManagerOptions {
+  store?: WritebackStore
+  /** Publish attempts per sign or retry request, defaults to 3 */
+  maxAttempts?: number
+  /** Delay before the first retry, doubled for each one after */
+  retryDelayMs?: number
+  /** Loads the AIDEN task a draft is created from, defaults to the shared task engine */
+  getTask?: (taskId: string) => Promise<AidenTask | null>
+  /** Called once a draft is published; a failure is logged and leaves the draft published */
+  onPublished?: (draft: WritebackDraft) => Promise<void>
+}
+
+export class WritebackError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode = 400,
+  ) {
+    super(message)
+    this.name = "WritebackError"
+  }
+}
+
+export const WRITEBACK_KINDS: WritebackKind[] = ["clinical_summary", "risk_assessment", "genomic_findings"]
+
+const KIND_TASK_TYPES: Record<WritebackKind, AidenTaskType> = {
+  clinical_summary: AidenTaskType.CLINICAL_SUMMARY,
+  risk_assessment: AidenTaskType.RISK_ASSESSMENT,
+  genomic_findings: AidenTaskType.VARIANT_INTERPRETATION,
+}
+
+const DEFAULT_TITLES: Record<WritebackKind, string> = {
+  clinical_summary: "AIDEN clinical summary",
+  risk_assessment: "AIDEN risk assessment",
+  genomic_findings: "Genomic findings",
+}
+
+const SIGNIFICANCES: VariantSignificance[] = ["benign", "likely_benign", "uncertain", "likely_pathogenic", "pathogenic"]
+
+/** Statuses worth retrying: timeouts, rate limits and upstream failures */
+const TRANSIENT_STATUS_CODES = [408, 429, 502, 503, 504]
+
+export function isWritebackKind(value: unknown): value is WritebackKind {
+  return WRITEBACK_KINDS.includes(value as WritebackKind)
+}
+
+const listOrNone = (items: string[] | undefined) => (items?.length ? items.join("; ") : "None recorded")
+
+/**
+ * Reviewable text for a draft's content
+ */
+export function describeWritebackContent(kind: WritebackKind, content: Record<string, any>): string {
+  if (kind === "clinical_summary") {
+    const counts = content.counts || {}
+    return [
+      `Active conditions: ${listOrNone(content.activeConditions)}`,
+      `Active medications: ${listOrNone(content.activeMedications)}`,
+      `Allergies: ${listOrNone(content.allergies)}`,
+      "",
+      `Generated by AIDEN from ${counts.conditions ?? 0} conditions, ${counts.medications ?? 0} medications, ` +
+        `${counts.allergies ?? 0} allergies and ${counts.observations ?? 0} observations.`,
+    ].join("\n")
+  }
+
+  if (kind === "risk_assessment") {
+    const factors: Array<{ description: string; weight: number }> = content.factors || []
+    return [
+      `Overall risk: ${content.level || "unknown"} (score ${content.score ?? "n/a"}/100)`,
+      "Contributing factors:",
+      ...(factors.length ? factors.map((factor) => `- ${factor.description} (+${factor.weight})`) : ["- None"]),
+    ].join("\n")
+  }
+
+  return (content.variants as GenomicVariant[])
+    .map((variant) => {
+      const names = [variant.hgvs, variant.rsid].filter(Boolean).join(", ")
+      const location = `${variant.chromosome}:${variant.position} ${variant.reference}>${variant.alternate}`
+      return `${variant.gene}${names ? ` ${names}` : ""} ${location}: ${variant.significance.replace(/_/g, " ")}`
+    })
+    .join("\n")
+}
+
+function validateVariants(value: unknown): GenomicVariant[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new WritebackError("variants must be a non-empty array")
+  }
+
+  value.forEach((variant, index) => {
+    const valid =
+      variant &&
+      typeof variant.id === "string" &&
+      typeof variant.gene === "string" &&
+      typeof variant.chromosome === "string" &&
+      Number.isInteger(variant.position) &&
+      variant.position > 0 &&
+      typeof variant.reference === "string" &&
+      typeof variant.alternate === "string" &&
+      SIGNIFICANCES.includes(variant.significance)
+
+    if (!valid) {
+      throw new WritebackError(`variants[${index}] is not a valid genomic variant`)
+    }
+  })
+
+  return value
+}
+
+/**
+ * Type and id of a resource from a transaction response location such as Observation/123/_history/1
+ */
+function parseLocation(location: string | undefined): { resourceType: string; id: string } | null {
+  const [, resourceType, id] = location?.match(/([A-Z][A-Za-z]+)\/([A-Za-z0-9\-.]{1,64})(?:\/_history\/[^/]+)?$/) || []
+  return resourceType && id ? { resourceType, id } : null
+}
+
+export class FhirWritebackManager {
+  private readonly store: WritebackStore
+  private readonly publishing = new Map<string, Promise<WritebackDraft>>()
+
+  constructor(private readonly options: FhirWritebackManagerOptions = {}) {
+    this.store = options.store || new InMemoryWritebackStore()
+  }
+
+  async listDrafts(query?: WritebackQuery): Promise<WritebackDraft[]> {
+    return this.store.list(query)
+  }
+
+  async getDraft(draftId: string): Promise<WritebackDraft> {
+    const draft = await this.store.get(draftId)
+
+    if (!draft) {
+      throw new WritebackError(`Write-back draft ${draftId} not found`, 404)
+    }
+
+    return draft
+  }
+
+  /**
+   * Create a draft awaiting review
+   * Asking again for the same AIDEN task returns the open draft instead of creating another
+   */
+  async createDraft(patientId: string, input: WritebackDraftRequest, createdBy: string): Promise<WritebackDraft> {
+    if (!isWritebackKind(input?.kind)) {
+      throw new WritebackError(`Unknown write-back kind: ${input?.kind}`)
+    }
+
+    const task = input.task_id ? await this.loadTask(input.task_id, input.kind, patientId) : null
+
+    if (!task && input.kind !== "genomic_findings") {
+      throw new WritebackError("task_id is required")
+    }
+
+    if (task) {
+      const existing = (await this.store.list({ source_task_id: task.task_id })).find(
+        (draft) => draft.kind === input.kind && draft.status !== "rejected",
+      )
+      if (existing) return existing
+    }
+
+    const content =
+      input.kind === "genomic_findings"
+        ? { variants: validateVariants(input.variants), interpretation: task?.result ?? null }
+        : task?.result || {}
+    const now = new Date().toISOString()
+
+    const draft = await this.store.save({
+      id: crypto.randomUUID(),
+      patient_id: patientId,
+      kind: input.kind,
+      source_task_id: task?.task_id || null,
+      title: input.title?.trim() || DEFAULT_TITLES[input.kind],
+      narrative: describeWritebackContent(input.kind, content),
+      content,
+      status: "pending_review",
+      server: null,
+      created_by: createdBy,
+      signed_by: null,
+      signed_at: null,
+      rejected_by: null,
+      rejected_reason: null,
+      attempts: 0,
+      error: null,
+      published: [],
+      published_at: null,
+      created_at: now,
+      updated_at: now,
+    })
+
+    logger.info("Write-back draft created", { draftId: draft.id, patientId, kind: draft.kind })
+    return draft
+  }
+
+  /**
+   * Sign a draft after review and publish it
+   * The returned draft is published, or failed with the error when the server could not be reached
+   */
+  async sign(
+    draftId: string,
+    client: FhirClient,
+    signer: WritebackSigner,
+    options: WritebackSignOptions = {},
+  ): Promise<WritebackDraft> {
+    const draft = await this.getDraft(draftId)
+
+    if (draft.status !== "pending_review") {
+      throw new WritebackError(`Write-back draft ${draftId} is ${draft.status}`, 409)
+    }
+
+    if (options.narrative !== undefined && !options.narrative.trim()) {
+      throw new WritebackError("narrative must not be empty")
+    }
+
+    const now = new Date().toISOString()
+    await this.update(draft, {
+      status: "publishing",
+      narrative: options.narrative?.trim() || draft.narrative,
+      signed_by: signer,
+      signed_at: now,
+    })
+    logger.info("Write-back draft signed", { draftId, signer: signer.user_id })
+
+    return this.startPublish(draftId, client)
+  }
+
+  async reject(draftId: string, reason: string, rejectedBy: string): Promise<WritebackDraft> {
+    const draft = await this.getDraft(draftId)
+
+    if (draft.status !== "pending_review") {
+      throw new WritebackError(`Write-back draft ${draftId} is ${draft.status}`, 409)
+    }
+
+    if (typeof reason !== "string" || !reason.trim()) {
+      throw new WritebackError("A reason is required to reject a draft")
+    }
+
+    logger.info("Write-back draft rejected", { draftId, rejectedBy })
+    return this.update(draft, { status: "rejected", rejected_by: rejectedBy, rejected_reason: reason.trim() })
+  }
+
+  /**
+   * Retry publishing a signed draft that failed
+   */
+  async publish(draftId: string, client: FhirClient): Promise<WritebackDraft> {
+    const running = this.publishing.get(draftId)
+    if (running) return running
+
+    const draft = await this.getDraft(draftId)
+
+    if (draft.status !== "failed") {
+      throw new WritebackError(`Write-back draft ${draftId} is ${draft.status}`, 409)
+    }
+
+    return this.startPublish(draftId, client)
+  }
+
+  private startPublish(draftId: string, client: FhirClient): Promise<WritebackDraft> {
+    const publishing = this.publishWithRetries(draftId, client).finally(() => this.publishing.delete(draftId))
+    this.publishing.set(draftId, publishing)
+    return publishing
+  }
+
+  private async publishWithRetries(draftId: string, client: FhirClient): Promise<WritebackDraft> {
+    const maxAttempts = Math.max(1, this.options.maxAttempts ?? 3)
+    const retryDelay = this.options.retryDelayMs ?? 500
+    let draft = await this.getDraft(draftId)
+
+    if (draft.server && draft.server !== client.getBaseUrl()) {
+      return this.update(draft, { status: "failed", error: `Write-back draft was published to ${draft.server}` })
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      const resending = draft.attempts > 0
+      draft = await this.update(draft, {
+        status: "publishing",
+        server: client.getBaseUrl(),
+        attempts: draft.attempts + 1,
+        error: null,
+      })
+
+      try {
+        const bundle = buildWritebackBundle(draft)
+        const recovered = resending ? await this.findPublished(draft, bundle, client) : null
+        const published = recovered || (await this.send(bundle, client))
+        const now = new Date().toISOString()
+
+        logger.info("Write-back draft published", { draftId, attempts: draft.attempts, resources: published.length })
+        draft = await this.update(draft, { status: "published", published, published_at: now })
+        await this.notifyPublished(draft)
+        return draft
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error"
+        const transient = error instanceof FhirError && TRANSIENT_STATUS_CODES.includes(error.statusCode)
+
+        if (!transient || attempt >= maxAttempts) {
+          logger.error("Write-back publish failed", { draftId, attempts: draft.attempts, error: message })
+          return this.update(draft, { status: "failed", error: message })
+        }
+
+        logger.warn("Write-back publish will be retried", { draftId, attempt, error: message })
+        await sleep(retryDelay * 2 ** (attempt - 1))
+      }
+    }
+  }
+
+  private async notifyPublished(draft: WritebackDraft) {
+    try {
+      await this.options.onPublished?.(draft)
+    } catch (error) {
+      logger.warn("Write-back publish follow-up failed", {
+        draftId: draft.id,
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  private async send(bundle: FhirBundle, client: FhirClient): Promise<WritebackPublishedResource[]> {
+    const response = await client.transaction(bundle)
+
+    return (response.entry || []).map((entry, index) => {
+      const target = parseLocation(entry.response?.location) || {
+        resourceType: entry.resource?.resourceType || bundle.entry?.[index]?.resource?.resourceType || "Unknown",
+        id: entry.resource?.id || "",
+      }
+      return { ...target, created: !entry.response?.status?.startsWith("200") }
+    })
+  }
+
+  /**
+   * Resources of an earlier attempt the server applied without confirming, null when it did not
+   * Transactions are atomic, so the first artifact being there means all of them and the Provenance are
+   */
+  private async findPublished(
+    draft: WritebackDraft,
+    bundle: FhirBundle,
+    client: FhirClient,
+  ): Promise<WritebackPublishedResource[] | null> {
+    const found: WritebackPublishedResource[] = []
+
+    for (const entry of bundle.entry || []) {
+      const identifier = entry.resource?.identifier?.[0]
+      if (!entry.request?.ifNoneExist || identifier?.system !== WRITEBACK_IDENTIFIER_SYSTEM) continue
+
+      const resourceType = entry.resource?.resourceType as string
+      const [match] = getBundleMatches(
+        await client.search(resourceType, { identifier: `${identifier.system}|${identifier.value}` }),
+      )
+
+      if (!match?.id) {
+        if (found.length === 0) return null
+        continue
+      }
+      found.push({ resourceType, id: match.id, created: false })
+    }
+
+    const [primary] = found
+    const provenance = getBundleMatches(
+      await client.search("Provenance", { target: `${primary.resourceType}/${primary.id}` }),
+    )
+    provenance.forEach((resource) =>
+      found.push({ resourceType: "Provenance", id: resource.id as string, created: false }),
+    )
+
+    logger.info("Write-back draft was already applied by the server", { draftId: draft.id })
+    return found
+  }
+
+  private async loadTask(taskId: string, kind: WritebackKind, patientId: string): Promise<AidenTask> {
+    const task = await (this.options.getTask || ((id: string) => getAidenTaskEngine().getTask(id)))(taskId)
+
+    if (!task) {
+      throw new WritebackError(`Task ${taskId} not found`, 404)
+    }
+
+    if (task.task_type !== KIND_TASK_TYPES[kind]) {
+      throw new WritebackError(`Task ${taskId} is a ${task.task_type} task, not ${KIND_TASK_TYPES[kind]}`)
+    }
+
+    if (task.status !== AidenTaskStatus.COMPLETED) {
+      throw new WritebackError(`Task ${taskId} is ${task.status}; only completed results can be published`, 409)
+    }
+
+    const taskPatient = task.metadata?.patientId || task.payload?.patientId
+    if (taskPatient && taskPatient !== patientId) {
+      throw new WritebackError(`Task ${taskId} belongs to another patient`)
+    }
+
+    return task
+  }
+
+  private async update(draft: WritebackDraft, changes: Partial<WritebackDraft>): Promise<WritebackDraft> {
+    return this.store.save({ ...draft, ...changes, updated_at: new Date().toISOString() })
+  }
+}
+
+const globalForFhir = globalThis as unknown as { fhirWritebackManager?: FhirWritebackManager }
+
+/**
+ * Shared write-back manager for the API routes
+ * Published genomic findings are tracked, so the signing clinician is alerted when a reported variant is reclassified.
+ */
+export function getFhirWritebackManager(): FhirWritebackManager {
+  if (!globalForFhir.fhirWritebackManager) {
+    const supabase = getServiceSupabaseClient()
+
+    globalForFhir.fhirWritebackManager = new FhirWritebackManager({
+      store: supabase ? new SupabaseWritebackStore(supabase) : new InMemoryWritebackStore(),
+      maxAttempts: Number(process.env.FHIR_WRITEBACK_MAX_ATTEMPTS) || undefined,
+      onPublished: async (draft) => {
+        if (draft.kind !== "genomic_findings") return
+        await getVariantReclassificationService().track(
+          { patient_id: draft.patient_id, variants: draft.content.variants },
+          { id: draft.signed_by?.user_id || draft.created_by, name: draft.signed_by?.display || null },
+        )
+      },
+    })
+  }
+
+  return globalForFhir.fhirWritebackManager
+}
@@ -0,0 +1,144 @@
+/**
+ * Lab panels from FHIR
+ * Turns a patient's laboratory Observations into the lab results panel's types: one panel per DiagnosticReport,
+ * and one per collection day for results no report lists, with trends against the previous result of each test
+ */
+
+import type { DiagnosticReportSummary, ObservationSummary, PatientHealthRecord } from "@/lib/fhir/fhir-transformer"
+import type { LabPanel, LabTest, LabTestStatus } from "@/lib/lab/types"
+
+/** v3 ObservationInterpretation codes mapped to lab statuses */
+const INTERPRETATION_STATUSES: Record<string, LabTestStatus> = {
+  HH: "critical",
+  LL: "critical",
+  AA: "critical",
+  H: "abnormal",
+  L: "abnormal",
+  A: "abnormal",
+  HU: "abnormal",
+  LU: "abnormal",
+  N: "normal",
+}
+
+/** DiagnosticReport statuses mapped to panel statuses, anything else is complete */
+const REPORT_STATUSES: Record<string, LabPanel["status"]> = {
+  registered: "pending",
+  partial: "partial",
+  preliminary: "partial",
+}
+
+export function isLaboratoryObservation(observation: ObservationSummary): boolean {
+  return observation.categories.some((category) => category.toLowerCase() === "laboratory")
+}
+
+/**
+ * Lab test from an Observation, null when it has no value or date to show
+ */
+export function toLabTest(observation: ObservationSummary): LabTest | null {
+  const value = observation.value ?? observation.valueText
+  if (value === undefined || typeof value === "boolean" || !observation.effectiveDate) return null
+
+  const pending = observation.status === "registered"
+
+  return {
+    id: observation.id,
+    name: observation.display,
+    value,
+    unit: observation.unit || "",
+    referenceRange: observation.referenceRange || "",
+    status: pending ? "pending" : INTERPRETATION_STATUSES[observation.interpretation?.toUpperCase() || ""] || "normal",
+    timestamp: observation.effectiveDate,
+  }
+}
+
+/**
+ * Set previousValue and trend from the previous result of the same test
+ */
+function withTrends(tests: LabTest[]): LabTest[] {
+  const latest = new Map<string, LabTest>()
+
+  return [...tests]
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+    .map((test) => {
+      const previous = latest.get(test.name)
+      latest.set(test.name, test)
+
+      if (!previous) return test
+      if (typeof test.value !== "number" || typeof previous.value !== "number") {
+        return { ...test, previousValue: previous.value }
+      }
+
+      const trend = test.value > previous.value ? "increasing" : test.value < previous.value ? "decreasing" : "stable"
+      return { ...test, previousValue: previous.value, trend }
+    })
+}
+
+function reportPanel(report: DiagnosticReportSummary, tests: LabTest[]): LabPanel {
+  const collectedAt = report.effectiveDate || tests[0]?.timestamp || ""
+
+  return {
+    id: report.id,
+    name: report.display,
+    category: report.categories[0] || "Laboratory",
+    collectedAt,
+    receivedAt: collectedAt,
+    reportedAt: report.issued || "",
+    status: REPORT_STATUSES[report.status || ""] || "complete",
+    tests,
+    provider: report.performer || "",
+    specimenType: "",
+    specimenId: "",
+    orderedBy: "",
+    notes: report.conclusion,
+  }
+}
+
+function dayPanel(day: string, tests: LabTest[]): LabPanel {
+  const collectedAt = tests[0].timestamp
+
+  return {
+    id: `labs-${day}`,
+    name: "Laboratory results",
+    category: "Laboratory",
+    collectedAt,
+    receivedAt: collectedAt,
+    reportedAt: tests[tests.length - 1].timestamp,
+    status: tests.some((test) => test.status === "pending") ? "partial" : "complete",
+    tests,
+    provider: "",
+    specimenType: "",
+    specimenId: "",
+    orderedBy: "",
+  }
+}
+
+/**
+ * Lab panels of a health record, newest first
+ */
+export function toLabPanels(record: Pick<PatientHealthRecord, "observations" | "diagnosticReports">): LabPanel[] {
+  const tests = withTrends(
+    record.observations.filter(isLaboratoryObservation).flatMap((observation) => toLabTest(observation) || []),
+  )
+  const byId = new Map(tests.map((test) => [test.id, test]))
+  const reported = new Set<string>()
+
+  const panels = record.diagnosticReports.flatMap((report) => {
+    const reportTests = report.resultIds.map((id) => byId.get(id)).filter(Boolean) as LabTest[]
+    if (reportTests.length === 0) return []
+
+    reportTests.forEach((test) => reported.add(test.id))
+    return [reportPanel(report, reportTests)]
+  })
+
+  const days = new Map<string, LabTest[]>()
+  tests
+    .filter((test) => !reported.has(test.id))
+    .forEach((test) => {
+      const day = test.timestamp.slice(0, 10)
+      days.set(day, [...(days.get(day) || []), test])
+    })
+
+  days.forEach((dayTests, day) => panels.push(dayPanel(day, dayTests)))
+
+  return panels.sort((a, b) => b.collectedAt.localeCompare(a.collectedAt))
+}
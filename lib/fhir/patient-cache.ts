@@ -0,0 +1,132 @@
+/**
+ * Patient data cache
+ * Keeps the patient summaries and health records read from the FHIR server for a few minutes, per server and
+ * user so SMART users only ever see what their own token returned. FHIR Subscription notifications invalidate
+ * a patient's entries as soon as the EHR reports a change.
+ */
+
+import type { FhirClient } from "@/lib/fhir/fhir-client"
+
+export type PatientDataKind = "summary" | "health_record"
+
+export interface PatientDataCacheOptions {
+  ttlMs?: number
+  /** Patients kept before the least recently read are dropped */
+  maxPatients?: number
+}
+
+interface CacheEntry {
+  value: Promise<unknown>
+  loadedAt: number
+}
+
+const DEFAULT_TTL_MS = 5 * 60 * 1000
+const DEFAULT_MAX_PATIENTS = 500
+
+/**
+ * Cache scope of a client and user, so entries are never shared across servers or SMART sessions
+ */
+export function getPatientCacheScope(client: FhirClient, userId: string | null | undefined): string {
+  return `${client.getBaseUrl()}|${userId || "shared"}`
+}
+
+export class PatientDataCache {
+  /** Entries per patient id, keyed by scope and kind */
+  private readonly patients = new Map<string, Map<string, CacheEntry>>()
+
+  constructor(private readonly options: PatientDataCacheOptions = {}) {}
+
+  /**
+   * Cached data for a patient, loading it when missing, stale or a refresh is requested
+   * Concurrent reads share one load, and a failed load is not kept
+   */
+  async get<T>(
+    patientId: string,
+    scope: string,
+    kind: PatientDataKind,
+    load: () => Promise<T>,
+    options: { refresh?: boolean } = {},
+  ): Promise<T> {
+    const key = `${scope}|${kind}`
+    const entries = this.patients.get(patientId) || new Map<string, CacheEntry>()
+    const cached = entries.get(key)
+    const ttl = this.options.ttlMs ?? DEFAULT_TTL_MS
+
+    // Re-inserting keeps the map in least recently read order
+    this.patients.delete(patientId)
+    this.patients.set(patientId, entries)
+    this.evict()
+
+    if (cached && !options.refresh && Date.now() - cached.loadedAt < ttl) {
+      return cached.value as Promise<T>
+    }
+
+    const entry: CacheEntry = { value: load(), loadedAt: Date.now() }
+    entries.set(key, entry)
+
+    entry.value.catch(() => {
+      if (entries.get(key) === entry) entries.delete(key)
+    })
+
+    return entry.value as Promise<T>
+  }
+
+  /**
+   * Drop every cached entry for a patient, only those read from the given server when one is passed
+   * Loads still in flight are dropped too, so the next read goes back to the server. Returns the entries dropped.
+   */
+  invalidatePatient(patientId: string, server?: string): number {
+    const entries = this.patients.get(patientId)
+    if (!entries) return 0
+
+    const prefix = server ? `${server.replace(/\/+$/, "")}|` : ""
+    let dropped = 0
+
+    for (const key of Array.from(entries.keys())) {
+      if (key.startsWith(prefix)) {
+        entries.delete(key)
+        dropped++
+      }
+    }
+
+    if (entries.size === 0) this.patients.delete(patientId)
+    return dropped
+  }
+
+  /**
+   * Drop every entry read from a server, e.g. when notifications about it were lost
+   */
+  invalidateServer(server: string): number {
+    return Array.from(this.patients.keys()).reduce(
+      (dropped, patientId) => dropped + this.invalidatePatient(patientId, server),
+      0,
+    )
+  }
+
+  clear() {
+    this.patients.clear()
+  }
+
+  private evict() {
+    const maxPatients = this.options.maxPatients ?? DEFAULT_MAX_PATIENTS
+
+    for (const patientId of this.patients.keys()) {
+      if (this.patients.size <= maxPatients) break
+      this.patients.delete(patientId)
+    }
+  }
+}
+
+const globalForFhir = globalThis as unknown as { patientDataCache?: PatientDataCache }
+
+export function getPatientDataCache(): PatientDataCache {
+  if (!globalForFhir.patientDataCache) {
+    const ttlSeconds = process.env.FHIR_PATIENT_CACHE_TTL_SECONDS
+
+    globalForFhir.patientDataCache = new PatientDataCache({
+      ttlMs: ttlSeconds && Number(ttlSeconds) >= 0 ? Number(ttlSeconds) * 1000 : undefined,
+    })
+  }
+
+  return globalForFhir.patientDataCache
+}
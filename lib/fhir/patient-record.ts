@@ -0,0 +1,63 @@
+/**
+ * Patient record loading
+ * Reads a patient and their clinical resources from a FHIR server and transforms them to view models
+ */
+
+import type { FhirBundle, FhirClient, FhirPatient, FhirSearchParams } from "@/lib/fhir/fhir-client"
+import {
+  transformHealthRecord,
+  transformPatient,
+  type PatientHealthRecord,
+  type PatientSummary,
+} from "@/lib/fhir/fhir-transformer"
+
+/** Clinical resource types in the health record with the extra search parameters used for each */
+const HEALTH_RECORD_SEARCHES: Record<string, FhirSearchParams> = {
+  Condition: {},
+  MedicationRequest: { _include: ["MedicationRequest:medication"] },
+  AllergyIntolerance: {},
+  Observation: {},
+  Procedure: {},
+  Immunization: {},
+  DiagnosticReport: {},
+}
+
+export const HEALTH_RECORD_RESOURCE_TYPES = Object.keys(HEALTH_RECORD_SEARCHES)
+
+const PAGE_SIZE = 100
+const MAX_PAGES = 10
+
+export async function getPatientSummary(client: FhirClient, patientId: string): Promise<PatientSummary> {
+  return transformPatient(await client.read<FhirPatient>("Patient", patientId))
+}
+
+/**
+ * Every page of a patient-scoped search, includes kept so referenced Medications resolve
+ */
+async function searchPatientResources(
+  client: FhirClient,
+  resourceType: string,
+  patientId: string,
+  params: FhirSearchParams,
+): Promise<FhirBundle[]> {
+  const pages: FhirBundle[] = []
+
+  const search = { ...params, patient: patientId, _count: PAGE_SIZE }
+
+  for await (const page of client.searchPages(resourceType, search, MAX_PAGES)) {
+    pages.push(page)
+  }
+
+  return pages
+}
+
+export async function getPatientHealthRecord(client: FhirClient, patientId: string): Promise<PatientHealthRecord> {
+  const [patient, ...bundles] = await Promise.all([
+    client.read<FhirPatient>("Patient", patientId),
+    ...Object.entries(HEALTH_RECORD_SEARCHES).map(([resourceType, params]) =>
+      searchPatientResources(client, resourceType, patientId, params),
+    ),
+  ])
+
+  return transformHealthRecord(patient, bundles.flat())
+}
@@ -0,0 +1,212 @@
+/**
+ * Advanced patient search
+ * Validates Patient searches written in FHIR search syntax: string modifiers such as name:exact, date prefixes
+ * such as birthdate=ge1970, reverse chains such as _has:Condition:patient:code=254837009, and _sort. Searches
+ * are kept as query strings, so a saved search is the same query the route accepts. Page links in result
+ * Bundles are swapped for opaque cursors pointing back at the route.
+ */
+
+import type { FhirBundle, FhirResource, FhirSearchParams } from "@/lib/fhir/fhir-client"
+
+export class PatientSearchError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode = 400,
+  ) {
+    super(message)
+    this.name = "PatientSearchError"
+  }
+}
+
+type SearchParameterType = "string" | "token" | "date"
+
+/** Patient search parameters and their FHIR types */
+const PATIENT_PARAMETERS: Record<string, SearchParameterType> = {
+  name: "string",
+  family: "string",
+  given: "string",
+  address: "string",
+  identifier: "token",
+  gender: "token",
+  phone: "token",
+  email: "token",
+  _id: "token",
+  birthdate: "date",
+}
+
+/** Flat query fields of the original search form and the parameter each stands for */
+const PARAMETER_ALIASES: Record<string, string> = {
+  birthDate: "birthdate",
+}
+
+const MODIFIERS: Record<SearchParameterType, string[]> = {
+  string: ["exact", "contains"],
+  token: ["not"],
+  date: [],
+}
+
+const DATE_PREFIXES = ["eq", "ne", "gt", "lt", "ge", "le", "sa", "eb"]
+
+/** Resources patients can be filtered by through _has, with the parameter pointing at the patient */
+const REVERSE_CHAINS: Record<string, { reference: string; parameters: string[] }> = {
+  Condition: { reference: "patient", parameters: ["code", "clinical-status"] },
+  Observation: { reference: "patient", parameters: ["code", "category"] },
+  MedicationRequest: { reference: "patient", parameters: ["code", "status"] },
+}
+
+const SORT_PARAMETERS = ["family", "given", "birthdate", "gender", "_id", "_lastUpdated"]
+
+/** Paging and result shaping parameters, which are not part of a saved search */
+const RESULT_PARAMETERS = ["_count", "_include", "_revinclude", "_cursor"]
+
+const MAX_PAGE_SIZE = 100
+
+const DEFAULT_PAGE_SIZE = 10
+
+const DATE_PATTERN = /^\d{4}(-\d{2}(-\d{2}(T[\d:.]+(Z|[+-]\d{2}:\d{2})?)?)?)?$/
+
+export interface PatientSearch {
+  /** Parameters to send to the FHIR server */
+  params: FhirSearchParams
+  /** Search criteria and _sort in canonical query string form, as stored for saved searches */
+  query: string
+}
+
+function validateDate(name: string, value: string) {
+  const prefix = DATE_PREFIXES.find((candidate) => value.startsWith(candidate))
+  const date = prefix ? value.slice(prefix.length) : value
+
+  if (!DATE_PATTERN.test(date)) {
+    throw new PatientSearchError(`${name} must be a date such as 1970-01-31, optionally prefixed with eq, ge, lt...`)
+  }
+}
+
+function validateReverseChain(name: string) {
+  const [, resourceType, reference, parameter, extra] = name.split(":")
+  const chain = REVERSE_CHAINS[resourceType]
+
+  if (!chain) {
+    const supported = Object.keys(REVERSE_CHAINS).join(", ")
+    throw new PatientSearchError(`Patients can only be searched by ${supported} through _has, not ${resourceType}`)
+  }
+
+  if (reference !== chain.reference || !chain.parameters.includes(parameter) || extra !== undefined) {
+    const examples = chain.parameters.map((candidate) => `_has:${resourceType}:${chain.reference}:${candidate}`)
+    throw new PatientSearchError(`Unsupported chained search ${name}, use ${examples.join(" or ")}`)
+  }
+}
+
+/**
+ * Check one search parameter and return its name in FHIR form, or null for values the route ignores
+ */
+function validateParameter(name: string, value: string): string | null {
+  if (name.startsWith("_has:")) {
+    validateReverseChain(name)
+    return name
+  }
+
+  const [rawParameter, modifier, extra] = name.split(":")
+  const parameter = PARAMETER_ALIASES[rawParameter] || rawParameter
+  const type = PATIENT_PARAMETERS[parameter]
+
+  if (!type || extra !== undefined) {
+    throw new PatientSearchError(`Unknown patient search parameter ${name}`)
+  }
+
+  if (modifier !== undefined && !MODIFIERS[type].includes(modifier)) {
+    throw new PatientSearchError(`The :${modifier} modifier is not supported on ${parameter}`)
+  }
+
+  // The search form sends "any" for an unset gender
+  if (parameter === "gender" && value === "any") return null
+
+  if (type === "date") validateDate(parameter, value)
+
+  return modifier ? `${parameter}:${modifier}` : parameter
+}
+
+function validateSort(value: string): string {
+  const fields = value
+    .split(",")
+    .map((field) => field.trim())
+    .filter(Boolean)
+
+  fields.forEach((field) => {
+    if (!SORT_PARAMETERS.includes(field.replace(/^-/, ""))) {
+      throw new PatientSearchError(`Patients cannot be sorted by ${field}, use ${SORT_PARAMETERS.join(", ")}`)
+    }
+  })
+
+  return fields.join(",")
+}
+
+/**
+ * Validate a patient search and build the FHIR search parameters for it
+ * Repeated parameters are kept, so birthdate=ge1970&birthdate=lt1980 is a range
+ */
+export function parsePatientSearch(query: URLSearchParams): PatientSearch {
+  const criteria = new URLSearchParams()
+
+  for (const [name, value] of query.entries()) {
+    if (RESULT_PARAMETERS.includes(name) || !value.trim()) continue
+
+    if (name === "_sort") {
+      const sort = validateSort(value)
+      if (sort) criteria.append("_sort", sort)
+      continue
+    }
+
+    const fhirName = validateParameter(name, value.trim())
+    if (fhirName) criteria.append(fhirName, value.trim())
+  }
+
+  const params: FhirSearchParams = {
+    _count: Math.min(
+      MAX_PAGE_SIZE,
+      Math.max(1, Number.parseInt(query.get("_count") || String(DEFAULT_PAGE_SIZE)) || DEFAULT_PAGE_SIZE),
+    ),
+    _include: query.getAll("_include"),
+    _revinclude: query.getAll("_revinclude"),
+  }
+
+  for (const name of new Set(criteria.keys())) {
+    const values = criteria.getAll(name)
+    params[name] = values.length === 1 ? values[0] : values
+  }
+
+  return { params, query: criteria.toString() }
+}
+
+/**
+ * Opaque cursor for a page link of the FHIR server
+ */
+export function encodeSearchCursor(url: string): string {
+  return Buffer.from(url, "utf8").toString("base64url")
+}
+
+/**
+ * Page link a cursor stands for; the link must be on the user's FHIR server, since cursors come from the browser
+ */
+export function decodeSearchCursor(cursor: string, baseUrl: string): string {
+  const url = Buffer.from(cursor, "base64url").toString("utf8")
+
+  if (!url.startsWith(`${baseUrl}/`) && !url.startsWith(`${baseUrl}?`)) {
+    throw new PatientSearchError("The search cursor is invalid or belongs to another FHIR server")
+  }
+
+  return url
+}
+
+/**
+ * Replace the server's page links with links to routeUrl carrying a cursor, so clients page through this app
+ * Servers differ in how they page (offsets, snapshot ids, continuation tokens); cursors hide the difference
+ */
+export function withCursorLinks<T extends FhirResource>(bundle: FhirBundle<T>, routeUrl: string): FhirBundle<T> {
+  return {
+    ...bundle,
+    link: (bundle.link || []).map((link) => ({
+      ...link,
+      url: `${routeUrl}?_cursor=${encodeSearchCursor(link.url)}`,
+    })),
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Persistence for saved patient searches
+ * Searches are stored in Supabase when a service role key is configured, otherwise kept in memory. Each belongs
+ * to the user who saved it; shared searches are listed for every user but only their owner can change them.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+
+export interface SavedPatientSearchRecord {
+  id: string
+  /** Session user id of the owner */
+  owner_id: string
+  /** Email or id of the owner, shown on shared searches */
+  owner_name: string
+  name: string
+  /** Search in FHIR query syntax, e.g. name:contains=alv&_has:Condition:patient:code=254837009 */
+  query: string
+  /** Listed for every user, not only the owner */
+  shared: boolean
+  created_at: string
+  updated_at: string
+}
+
+export interface SavedPatientSearchStore {
+  /** The user's own searches and everyone's shared searches */
+  listVisible(userId: string): Promise<SavedPatientSearchRecord[]>
+  get(searchId: string): Promise<SavedPatientSearchRecord | null>
+  save(record: SavedPatientSearchRecord): Promise<SavedPatientSearchRecord>
+  delete(searchId: string): Promise<void>
+}
+
+export class InMemorySavedPatientSearchStore implements SavedPatientSearchStore {
+  private records = new Map<string, SavedPatientSearchRecord>()
+
+  async listVisible(userId: string): Promise<SavedPatientSearchRecord[]> {
+    return Array.from(this.records.values())
+      .filter((record) => record.owner_id === userId || record.shared)
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((record) => structuredClone(record))
+  }
+
+  async get(searchId: string): Promise<SavedPatientSearchRecord | null> {
+    const record = this.records.get(searchId)
+    return record ? structuredClone(record) : null
+  }
+
+  async save(record: SavedPatientSearchRecord): Promise<SavedPatientSearchRecord> {
+    this.records.set(record.id, structuredClone(record))
+    return structuredClone(record)
+  }
+
+  async delete(searchId: string): Promise<void> {
+    this.records.delete(searchId)
+  }
+}
+
+/**
+ * Saved searches in the Supabase saved_patient_searches table, one row per search keyed by id
+ */
+export class SupabaseSavedPatientSearchStore implements SavedPatientSearchStore {
+  private readonly table = "saved_patient_searches"
+
+  constructor(private readonly supabase: SupabaseClient) {}
+
+  async listVisible(userId: string): Promise<SavedPatientSearchRecord[]> {
+    const [own, shared] = await Promise.all([
+      this.supabase.from(this.table).select("*").eq("owner_id", userId),
+      this.supabase.from(this.table).select("*").eq("shared", true),
+    ])
+
+    const error = own.error || shared.error
+    if (error) throw new Error(`Failed to load saved patient searches: ${error.message}`)
+
+    const records = new Map<string, SavedPatientSearchRecord>()
+    for (const record of [...(own.data || []), ...(shared.data || [])]) {
+      records.set(record.id, record)
+    }
+
+    return Array.from(records.values()).sort((a, b) => a.name.localeCompare(b.name))
+  }
+
+  async get(searchId: string): Promise<SavedPatientSearchRecord | null> {
+    const { data, error } = await this.supabase.from(this.table).select("*").eq("id", searchId).maybeSingle()
+
+    if (error) throw new Error(`Failed to load saved patient search: ${error.message}`)
+    return data
+  }
+
+  async save(record: SavedPatientSearchRecord): Promise<SavedPatientSearchRecord> {
+    const { data, error } = await this.supabase
+      .from(this.table)
+      .upsert(record, { onConflict: "id" })
+      .select("*")
+      .single()
+
+    if (error) throw new Error(`Failed to store saved patient search: ${error.message}`)
+    return data
+  }
+
+  async delete(searchId: string): Promise<void> {
+    const { error } = await this.supabase.from(this.table).delete().eq("id", searchId)
+
+    if (error) throw new Error(`Failed to delete saved patient search: ${error.message}`)
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * Saved patient searches
+ * Users save patient searches under a name and may share them with everyone. The query is validated like a
+ * search request and stored in canonical form, so running a saved search never fails on its syntax.
+ */
+
+import { getServiceSupabaseClient } from "@/lib/supabase/server"
+import { PatientSearchError, parsePatientSearch } from "@/lib/fhir/patient-search"
+import {
+  InMemorySavedPatientSearchStore,
+  SupabaseSavedPatientSearchStore,
+  type SavedPatientSearchRecord,
+  type SavedPatientSearchStore,
+} from "@/lib/fhir/saved-search-store"
+
+export class SavedSearchError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode = 400,
+  ) {
+    super(message)
+    this.name = "SavedSearchError"
+  }
+}
+
+export interface SavedSearchOwner {
+  id: string
+  name: string
+}
+
+export interface SavedSearchInput {
+  name?: unknown
+  query?: unknown
+  shared?: unknown
+}
+
+/** A saved search as listed to a user */
+export type SavedPatientSearchView = SavedPatientSearchRecord & {
+  /** The user may rename, change, unshare or delete the search */
+  owned: boolean
+}
+
+const MAX_NAME_LENGTH = 100
+
+function toView(record: SavedPatientSearchRecord, userId: string): SavedPatientSearchView {
+  return { ...record, owned: record.owner_id === userId }
+}
+
+function validateName(name: unknown): string {
+  if (typeof name !== "string" || !name.trim()) {
+    throw new SavedSearchError("A saved search needs a name")
+  }
+
+  if (name.trim().length > MAX_NAME_LENGTH) {
+    throw new SavedSearchError(`Saved search names are limited to ${MAX_NAME_LENGTH} characters`)
+  }
+
+  return name.trim()
+}
+
+function validateQuery(query: unknown): string {
+  if (typeof query !== "string") {
+    throw new SavedSearchError("query must be a search query string such as name:contains=alv")
+  }
+
+  try {
+    const canonical = parsePatientSearch(new URLSearchParams(query.replace(/^\?/, ""))).query
+    if (!canonical) throw new SavedSearchError("A saved search needs at least one search criterion")
+    return canonical
+  } catch (error) {
+    if (error instanceof PatientSearchError) throw new SavedSearchError(error.message)
+    throw error
+  }
+}
+
+function validateShared(shared: unknown): boolean {
+  if (typeof shared !== "boolean") throw new SavedSearchError("shared must be true or false")
+  return shared
+}
+
+export class SavedPatientSearchService {
+  constructor(private readonly store: SavedPatientSearchStore) {}
+
+  async list(userId: string): Promise<SavedPatientSearchView[]> {
+    return (await this.store.listVisible(userId)).map((record) => toView(record, userId))
+  }
+
+  async create(owner: SavedSearchOwner, input: SavedSearchInput): Promise<SavedPatientSearchView> {
+    const now = new Date().toISOString()
+    const record = await this.store.save({
+      id: crypto.randomUUID(),
+      owner_id: owner.id,
+      owner_name: owner.name,
+      name: validateName(input.name),
+      query: validateQuery(input.query),
+      shared: input.shared === undefined ? false : validateShared(input.shared),
+      created_at: now,
+      updated_at: now,
+    })
+
+    return toView(record, owner.id)
+  }
+
+  /**
+   * Rename, change or (un)share a search; only the owner may
+   */
+  async update(searchId: string, userId: string, input: SavedSearchInput): Promise<SavedPatientSearchView> {
+    const record = await this.getOwned(searchId, userId)
+
+    const updated = await this.store.save({
+      ...record,
+      name: input.name === undefined ? record.name : validateName(input.name),
+      query: input.query === undefined ? record.query : validateQuery(input.query),
+      shared: input.shared === undefined ? record.shared : validateShared(input.shared),
+      updated_at: new Date().toISOString(),
+    })
+
+    return toView(updated, userId)
+  }
+
+  async remove(searchId: string, userId: string): Promise<void> {
+    await this.getOwned(searchId, userId)
+    await this.store.delete(searchId)
+  }
+
+  private async getOwned(searchId: string, userId: string): Promise<SavedPatientSearchRecord> {
+    const record = await this.store.get(searchId)
+
+    // Searches of other users that are not shared do not exist as far as this user is concerned
+    if (!record || (record.owner_id !== userId && !record.shared)) {
+      throw new SavedSearchError(`Saved search ${searchId} not found`, 404)
+    }
+
+    if (record.owner_id !== userId) {
+      throw new SavedSearchError("Only the owner can change a shared search", 403)
+    }
+
+    return record
+  }
+}
+
+const globalForFhir = globalThis as unknown as { savedPatientSearchService?: SavedPatientSearchService }
+
+/**
+ * Shared saved search service for the API routes
+ */
+export function getSavedPatientSearchService(): SavedPatientSearchService {
+  if (!globalForFhir.savedPatientSearchService) {
+    const supabase = getServiceSupabaseClient()
+
+    globalForFhir.savedPatientSearchService = new SavedPatientSearchService(
+      supabase ? new SupabaseSavedPatientSearchStore(supabase) : new InMemorySavedPatientSearchStore(),
+    )
+  }
+
+  return globalForFhir.savedPatientSearchService
+}
@@ -0,0 +1,563 @@
+/**
+ * SMART on FHIR authorization
+ * SMART App Launch (EHR and standalone) with PKCE, token storage per Supabase user and refresh with offline_access
+ */
+
+import { createHash, randomBytes } from "node:crypto"
+import { FhirClient, getFhirClient } from "@/lib/fhir/fhir-client"
+import {
+  InMemorySmartTokenStore,
+  SupabaseSmartTokenStore,
+  type SmartLaunchType,
+  type SmartTokenRecord,
+  type SmartTokenStore,
+} from "@/lib/fhir/smart-token-store"
+import { getServiceSupabaseClient, type SessionUser } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+export interface SmartConfiguration {
+  issuer?: string
+  authorization_endpoint: string
+  token_endpoint: string
+  revocation_endpoint?: string
+  scopes_supported?: string[]
+  response_types_supported?: string[]
+  capabilities?: string[]
+  code_challenge_methods_supported?: string[]
+}
+
+/**
+ * Pending authorization, kept in an httpOnly cookie between the redirect and the callback
+ * Endpoints are not stored so a tampered cookie cannot redirect the code exchange
+ */
+export interface SmartAuthorizationRequest {
+  state: string
+  code_verifier: string
+  iss: string
+  launch_type: SmartLaunchType
+  scope: string
+  redirect_uri: string
+  created_at: string
+}
+
+export type SmartConnectionState = "connected" | "limited" | "disconnected"
+
+export interface SmartConnectionStatus {
+  state: SmartConnectionState
+  /** Why the connection is limited or disconnected */
+  reason?: string
+  iss?: string
+  launch_type?: SmartLaunchType
+  scopes?: string[]
+  missing_scopes?: string[]
+  patient?: string | null
+  encounter?: string | null
+  fhir_user?: string | null
+  expires_at?: string | null
+  can_refresh?: boolean
+}
+
+export class SmartAuthError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode = 400,
+  ) {
+    super(message)
+    this.name = "SmartAuthError"
+  }
+}
+
+export interface SmartAuthOptions {
+  clientId?: string
+  /** Only for confidential clients */
+  clientSecret?: string
+  /** FHIR servers users may connect to */
+  allowedIssuers?: string[]
+  defaultScope?: string
+  store?: SmartTokenStore
+  fetch?: typeof fetch
+  /** Refresh tokens this long before they expire */
+  refreshMarginSeconds?: number
+}
+
+interface TokenResponse {
+  access_token: string
+  token_type?: string
+  expires_in?: number
+  scope?: string
+  refresh_token?: string
+  id_token?: string
+  patient?: string
+  encounter?: string
+  fhirUser?: string
+}
+
+/** Authorization requests are abandoned after this long */
+export const SMART_AUTHORIZATION_TTL_SECONDS = 10 * 60
+
+/** Cookie holding the pending SmartAuthorizationRequest */
+export const SMART_AUTHORIZATION_COOKIE = "fhir_auth_request"
+
+/** Token owner when Supabase auth is not configured, e.g. local development */
+const ANONYMOUS_SMART_USER_ID = "anonymous"
+
+const DEFAULT_SCOPE = "openid fhirUser patient/*.read offline_access"
+const OAUTH_URIS_EXTENSION = "http://fhir-registry.smarthealthit.org/StructureDefinition/oauth-uris"
+
+function normalizeIssuer(iss: string): string {
+  return iss.trim().replace(/\/+$/, "")
+}
+
+function splitScope(scope: string | undefined | null): string[] {
+  return (scope || "").split(/\s+/).filter(Boolean)
+}
+
+export function createCodeVerifier(): string {
+  return randomBytes(32).toString("base64url")
+}
+
+export function createCodeChallenge(verifier: string): string {
+  return createHash("sha256").update(verifier).digest("base64url")
+}
+
+/**
+ * Find the server's OAuth endpoints from .well-known/smart-configuration,
+ * falling back to the oauth-uris extension in the CapabilityStatement
+ */
+export async function discoverSmartConfiguration(
+  iss: string,
+  fetchImpl: typeof fetch = fetch,
+): Promise<SmartConfiguration> {
+  const base = normalizeIssuer(iss)
+  const get = async (url: string) => {
+    const response = await fetchImpl(url, {
+      headers: { Accept: "application/json" },
+      signal: AbortSignal.timeout(10000),
+    })
+    return response.ok ? response.json() : null
+  }
+
+  try {
+    const configuration = await get(`${base}/.well-known/smart-configuration`)
+    if (configuration?.authorization_endpoint && configuration?.token_endpoint) {
+      return configuration
+    }
+
+    const capabilities = await get(`${base}/metadata`)
+    const oauthUris = capabilities?.rest?.[0]?.security?.extension?.find(
+      (extension: any) => extension.url === OAUTH_URIS_EXTENSION,
+    )
+    const uri = (name: string) => oauthUris?.extension?.find((extension: any) => extension.url === name)?.valueUri
+
+    if (uri("authorize") && uri("token")) {
+      return {
+        authorization_endpoint: uri("authorize"),
+        token_endpoint: uri("token"),
+        revocation_endpoint: uri("revoke"),
+      }
+    }
+  } catch (error) {
+    logger.error("SMART configuration discovery failed", {
+      iss: base,
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    throw new SmartAuthError(`Could not reach ${base} to discover its SMART configuration`, 502)
+  }
+
+  throw new SmartAuthError(`${base} does not publish a SMART configuration`, 502)
+}
+
+export class SmartAuthManager {
+  private readonly store: SmartTokenStore
+  private readonly fetchImpl: typeof fetch
+  private readonly configurations = new Map<string, Promise<SmartConfiguration>>()
+  private readonly refreshes = new Map<string, Promise<SmartTokenRecord | null>>()
+
+  constructor(private readonly options: SmartAuthOptions = {}) {
+    this.store = options.store || new InMemorySmartTokenStore()
+    this.fetchImpl = options.fetch || fetch
+  }
+
+  /**
+   * Build the authorization redirect for an EHR launch (iss and launch from the EHR)
+   * or a standalone launch (the default FHIR server)
+   */
+  async beginAuthorization(params: {
+    redirectUri: string
+    iss?: string | null
+    launch?: string | null
+    scope?: string | null
+  }): Promise<{ url: string; request: SmartAuthorizationRequest }> {
+    const clientId = this.getClientId()
+    const allowed = this.getAllowedIssuers()
+    const iss = normalizeIssuer(params.iss || allowed[0] || "")
+
+    if (!iss) {
+      throw new SmartAuthError("No FHIR server is configured", 503)
+    }
+
+    if (!allowed.includes(iss)) {
+      throw new SmartAuthError(`${iss} is not an allowed FHIR server`, 403)
+    }
+
+    const launchType: SmartLaunchType = params.launch ? "ehr" : "standalone"
+    const scopes = new Set(splitScope(params.scope || this.options.defaultScope || DEFAULT_SCOPE))
+
+    // EHR launches exchange the launch token for context, standalone launches ask for a patient picker
+    if (launchType === "ehr") {
+      scopes.add("launch")
+    } else if (Array.from(scopes).some((scope) => scope.startsWith("patient/"))) {
+      scopes.add("launch/patient")
+    }
+
+    const configuration = await this.getConfiguration(iss)
+
+    if (
+      configuration.code_challenge_methods_supported &&
+      !configuration.code_challenge_methods_supported.includes("S256")
+    ) {
+      throw new SmartAuthError(`${iss} does not support PKCE with S256`, 502)
+    }
+
+    const request: SmartAuthorizationRequest = {
+      state: randomBytes(16).toString("base64url"),
+      code_verifier: createCodeVerifier(),
+      iss,
+      launch_type: launchType,
+      scope: Array.from(scopes).join(" "),
+      redirect_uri: params.redirectUri,
+      created_at: new Date().toISOString(),
+    }
+
+    const url = new URL(configuration.authorization_endpoint)
+    url.searchParams.set("response_type", "code")
+    url.searchParams.set("client_id", clientId)
+    url.searchParams.set("redirect_uri", request.redirect_uri)
+    url.searchParams.set("scope", request.scope)
+    url.searchParams.set("state", request.state)
+    url.searchParams.set("aud", iss)
+    url.searchParams.set("code_challenge", createCodeChallenge(request.code_verifier))
+    url.searchParams.set("code_challenge_method", "S256")
+    if (params.launch) url.searchParams.set("launch", params.launch)
+
+    logger.info("SMART authorization started", { iss, launchType, scope: request.scope })
+
+    return { url: url.toString(), request }
+  }
+
+  /**
+   * Exchange the authorization code from the callback and store the tokens for the user
+   */
+  async completeAuthorization(
+    userId: string,
+    request: SmartAuthorizationRequest,
+    params: { code?: string | null; state?: string | null },
+  ): Promise<SmartTokenRecord> {
+    if (!params.state || params.state !== request.state) {
+      throw new SmartAuthError("Authorization state does not match, please try connecting again")
+    }
+
+    if (Date.now() - Date.parse(request.created_at) > SMART_AUTHORIZATION_TTL_SECONDS * 1000) {
+      throw new SmartAuthError("Authorization request expired, please try connecting again")
+    }
+
+    if (!params.code) {
+      throw new SmartAuthError("Authorization code is missing")
+    }
+
+    // The issuer came back through a cookie, so check it again before sending it the code
+    if (!this.getAllowedIssuers().includes(request.iss)) {
+      throw new SmartAuthError(`${request.iss} is not an allowed FHIR server`, 403)
+    }
+
+    const configuration = await this.getConfiguration(request.iss)
+    const token = await this.requestToken(configuration, {
+      grant_type: "authorization_code",
+      code: params.code,
+      redirect_uri: request.redirect_uri,
+      code_verifier: request.code_verifier,
+    })
+
+    const now = new Date().toISOString()
+    const record = await this.store.save({
+      user_id: userId,
+      iss: request.iss,
+      launch_type: request.launch_type,
+      requested_scope: request.scope,
+      ...this.toTokenFields(token, null),
+      created_at: now,
+      updated_at: now,
+    })
+
+    logger.info("SMART authorization completed", {
+      userId,
+      iss: record.iss,
+      launchType: record.launch_type,
+      scope: record.scope,
+      canRefresh: !!record.refresh_token,
+    })
+
+    return record
+  }
+
+  /**
+   * A valid access token for the user, refreshed when close to expiry, or null when not connected
+   */
+  async getAccessToken(userId: string): Promise<string | null> {
+    return (await this.getToken(userId))?.access_token ?? null
+  }
+
+  async getToken(userId: string): Promise<SmartTokenRecord | null> {
+    const record = await this.store.get(userId)
+    if (!record || !this.needsRefresh(record)) return record
+    if (!record.refresh_token) return null
+
+    // Concurrent requests share one refresh so the refresh token is only used once
+    let refresh = this.refreshes.get(userId)
+    if (!refresh) {
+      refresh = this.refresh(record).finally(() => this.refreshes.delete(userId))
+      this.refreshes.set(userId, refresh)
+    }
+
+    return refresh
+  }
+
+  async getStatus(userId: string): Promise<SmartConnectionStatus> {
+    const record = await this.store.get(userId)
+
+    if (!record) {
+      return { state: "disconnected", reason: "Not connected to a FHIR server" }
+    }
+
+    const scopes = splitScope(record.scope)
+    const missingScopes = splitScope(record.requested_scope).filter(
+      (scope) => !scopes.includes(scope) && !scope.startsWith("launch"),
+    )
+    const expired = !!record.expires_at && Date.parse(record.expires_at) <= Date.now()
+
+    const status: SmartConnectionStatus = {
+      state: "connected",
+      iss: record.iss,
+      launch_type: record.launch_type,
+      scopes,
+      missing_scopes: missingScopes,
+      patient: record.patient,
+      encounter: record.encounter,
+      fhir_user: record.fhir_user,
+      expires_at: record.expires_at,
+      can_refresh: !!record.refresh_token,
+    }
+
+    if (expired && !record.refresh_token) {
+      return { ...status, state: "disconnected", reason: "Access token expired and cannot be refreshed" }
+    }
+
+    if (missingScopes.length > 0) {
+      return { ...status, state: "limited", reason: `Not granted: ${missingScopes.join(", ")}` }
+    }
+
+    if (!record.refresh_token) {
+      return { ...status, state: "limited", reason: "Access will end when the current token expires" }
+    }
+
+    return status
+  }
+
+  /**
+   * Forget the user's tokens, revoking the refresh token when the server supports it
+   */
+  async disconnect(userId: string): Promise<void> {
+    const record = await this.store.get(userId)
+    if (!record) return
+
+    try {
+      const configuration = await this.getConfiguration(record.iss)
+
+      if (configuration.revocation_endpoint && record.refresh_token) {
+        await this.fetchImpl(configuration.revocation_endpoint, {
+          method: "POST",
+          headers: this.getTokenHeaders(),
+          body: this.getTokenBody({ token: record.refresh_token, token_type_hint: "refresh_token" }),
+          signal: AbortSignal.timeout(10000),
+        })
+      }
+    } catch (error) {
+      logger.warn("Failed to revoke FHIR token", {
+        userId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+
+    await this.store.delete(userId)
+    logger.info("SMART connection removed", { userId, iss: record.iss })
+  }
+
+  private async refresh(record: SmartTokenRecord): Promise<SmartTokenRecord | null> {
+    const configuration = await this.getConfiguration(record.iss)
+
+    try {
+      const token = await this.requestToken(configuration, {
+        grant_type: "refresh_token",
+        refresh_token: record.refresh_token!,
+      })
+
+      logger.info("SMART access token refreshed", { userId: record.user_id, iss: record.iss })
+
+      return this.store.save({
+        ...record,
+        ...this.toTokenFields(token, record),
+        updated_at: new Date().toISOString(),
+      })
+    } catch (error) {
+      // A rejected refresh token will not start working again, the user has to reconnect
+      if (error instanceof SmartAuthError && error.statusCode === 401) {
+        logger.warn("SMART refresh token rejected", { userId: record.user_id, iss: record.iss })
+        await this.store.delete(record.user_id)
+        return null
+      }
+
+      throw error
+    }
+  }
+
+  private async requestToken(
+    configuration: SmartConfiguration,
+    params: Record<string, string>,
+  ): Promise<TokenResponse> {
+    let response: Response
+
+    try {
+      response = await this.fetchImpl(configuration.token_endpoint, {
+        method: "POST",
+        headers: this.getTokenHeaders(),
+        body: this.getTokenBody(params),
+        signal: AbortSignal.timeout(15000),
+      })
+    } catch (error) {
+      throw new SmartAuthError(
+        `Token endpoint is unreachable: ${error instanceof Error ? error.message : "Unknown error"}`,
+        502,
+      )
+    }
+
+    const body = await response.json().catch(() => ({}))
+
+    if (!response.ok || !body.access_token) {
+      const message = body.error_description || body.error || `status ${response.status}`
+      // invalid_grant means the code or refresh token is no longer valid
+      throw new SmartAuthError(`Token request failed: ${message}`, body.error === "invalid_grant" ? 401 : 502)
+    }
+
+    return body
+  }
+
+  private getTokenHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/x-www-form-urlencoded",
+      Accept: "application/json",
+    }
+
+    if (this.options.clientSecret) {
+      const credentials = Buffer.from(`${this.getClientId()}:${this.options.clientSecret}`).toString("base64")
+      headers.Authorization = `Basic ${credentials}`
+    }
+
+    return headers
+  }
+
+  private getTokenBody(params: Record<string, string>): URLSearchParams {
+    // Public clients identify themselves in the body, confidential ones with basic auth
+    return new URLSearchParams(this.options.clientSecret ? params : { ...params, client_id: this.getClientId() })
+  }
+
+  private toTokenFields(token: TokenResponse, previous: SmartTokenRecord | null) {
+    return {
+      access_token: token.access_token,
+      token_type: token.token_type || "Bearer",
+      expires_at: token.expires_in ? new Date(Date.now() + token.expires_in * 1000).toISOString() : null,
+      // Servers may keep the same refresh token without sending it again
+      refresh_token: token.refresh_token || previous?.refresh_token || null,
+      scope: token.scope || previous?.scope || "",
+      id_token: token.id_token || previous?.id_token || null,
+      patient: token.patient || previous?.patient || null,
+      encounter: token.encounter || previous?.encounter || null,
+      fhir_user: token.fhirUser || previous?.fhir_user || null,
+    }
+  }
+
+  private needsRefresh(record: SmartTokenRecord): boolean {
+    if (!record.expires_at) return false
+    return Date.parse(record.expires_at) - (this.options.refreshMarginSeconds ?? 60) * 1000 <= Date.now()
+  }
+
+  private getConfiguration(iss: string): Promise<SmartConfiguration> {
+    let configuration = this.configurations.get(iss)
+
+    if (!configuration) {
+      configuration = discoverSmartConfiguration(iss, this.fetchImpl)
+      // Failed lookups are retried on the next request
+      configuration.catch(() => this.configurations.delete(iss))
+      this.configurations.set(iss, configuration)
+    }
+
+    return configuration
+  }
+
+  private getClientId(): string {
+    if (!this.options.clientId) {
+      throw new SmartAuthError("SMART client id is not configured", 503)
+    }
+
+    return this.options.clientId
+  }
+
+  private getAllowedIssuers(): string[] {
+    return (this.options.allowedIssuers || []).map(normalizeIssuer).filter(Boolean)
+  }
+}
+
+const globalForFhir = globalThis as unknown as { smartAuthManager?: SmartAuthManager }
+
+export function getSmartAuthManager(): SmartAuthManager {
+  if (!globalForFhir.smartAuthManager) {
+    const supabase = getServiceSupabaseClient()
+
+    globalForFhir.smartAuthManager = new SmartAuthManager({
+      clientId: process.env.SMART_CLIENT_ID,
+      clientSecret: process.env.SMART_CLIENT_SECRET,
+      allowedIssuers: [process.env.FHIR_BASE_URL, ...(process.env.SMART_ALLOWED_ISSUERS || "").split(",")].filter(
+        Boolean,
+      ) as string[],
+      defaultScope: process.env.SMART_DEFAULT_SCOPE,
+      store: supabase ? new SupabaseSmartTokenStore(supabase) : new InMemorySmartTokenStore(),
+    })
+  }
+
+  return globalForFhir.smartAuthManager
+}
+
+/**
+ * Key SMART tokens are stored under for a session user
+ */
+export function getSmartUserId(user: SessionUser | null): string {
+  return user?.id || ANONYMOUS_SMART_USER_ID
+}
+
+/**
+ * FHIR client for a user: their SMART connection when they have one, otherwise the shared server client
+ */
+export async function getUserFhirClient(user: SessionUser | null): Promise<FhirClient> {
+  const manager = getSmartAuthManager()
+  const userId = getSmartUserId(user)
+  const record = await manager.getToken(userId)
+
+  if (!record) {
+    return getFhirClient()
+  }
+
+  return new FhirClient({
+    baseUrl: record.iss,
+    getAccessToken: () => manager.getAccessToken(userId),
+    timeoutMs: Number(process.env.FHIR_TIMEOUT_MS) || undefined,
+  })
+}
@@ -0,0 +1,89 @@
+/**
+ * SMART on FHIR token persistence
+ * Tokens are stored per Supabase user in Supabase when a service role key is configured, otherwise kept in memory
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+
+export type SmartLaunchType = "ehr" | "standalone"
+
+export interface SmartTokenRecord {
+  user_id: string
+  /** FHIR server the token was issued for */
+  iss: string
+  launch_type: SmartLaunchType
+  access_token: string
+  token_type: string
+  /** ISO timestamp, null when the server did not say */
+  expires_at: string | null
+  refresh_token: string | null
+  /** Scopes granted by the server */
+  scope: string
+  /** Scopes asked for, to tell when the server granted less */
+  requested_scope: string
+  id_token: string | null
+  /** Launch context returned with the token */
+  patient: string | null
+  encounter: string | null
+  fhir_user: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface SmartTokenStore {
+  get(userId: string): Promise<SmartTokenRecord | null>
+  save(record: SmartTokenRecord): Promise<SmartTokenRecord>
+  delete(userId: string): Promise<void>
+}
+
+export class InMemorySmartTokenStore implements SmartTokenStore {
+  private records = new Map<string, SmartTokenRecord>()
+
+  async get(userId: string): Promise<SmartTokenRecord | null> {
+    const record = this.records.get(userId)
+    return record ? structuredClone(record) : null
+  }
+
+  async save(record: SmartTokenRecord): Promise<SmartTokenRecord> {
+    this.records.set(record.user_id, structuredClone(record))
+    return structuredClone(record)
+  }
+
+  async delete(userId: string): Promise<void> {
+    this.records.delete(userId)
+  }
+}
+
+/**
+ * Tokens in the Supabase fhir_tokens table, one row per user keyed by user_id
+ * The table must only be readable with the service role since it holds bearer and refresh tokens
+ */
+export class SupabaseSmartTokenStore implements SmartTokenStore {
+  private readonly table = "fhir_tokens"
+
+  constructor(private readonly supabase: SupabaseClient) {}
+
+  async get(userId: string): Promise<SmartTokenRecord | null> {
+    const { data, error } = await this.supabase.from(this.table).select("*").eq("user_id", userId).maybeSingle()
+
+    if (error) throw new Error(`Failed to load FHIR token: ${error.message}`)
+    return data
+  }
+
+  async save(record: SmartTokenRecord): Promise<SmartTokenRecord> {
+    const { data, error } = await this.supabase
+      .from(this.table)
+      .upsert(record, { onConflict: "user_id" })
+      .select("*")
+      .single()
+
+    if (error) throw new Error(`Failed to store FHIR token: ${error.message}`)
+    return data
+  }
+
+  async delete(userId: string): Promise<void> {
+    const { error } = await this.supabase.from(this.table).delete().eq("user_id", userId)
+
+    if (error) throw new Error(`Failed to delete FHIR token: ${error.message}`)
+  }
+}
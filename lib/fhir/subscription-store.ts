@@ -0,0 +1,100 @@
+/**
+ * Persistence for FHIR Subscriptions
+ * Subscriptions are stored in Supabase when a service role key is configured, otherwise kept in memory. Each
+ * record keeps the secret the FHIR server sends back with every notification and the last event number seen,
+ * so missed notifications can be detected.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+
+export type FhirSubscriptionVersion = "R4B" | "R5"
+
+export type FhirSubscriptionStatus = "requested" | "active" | "error" | "off"
+
+export interface FhirSubscriptionRecord {
+  id: string
+  /** Base URL of the FHIR server the Subscription was created on */
+  server: string
+  fhir_version: FhirSubscriptionVersion
+  /** Canonical URL of the SubscriptionTopic */
+  topic: string
+  /** Patient the notifications are filtered to, null for every patient */
+  patient_id: string | null
+  /** Id the FHIR server gave the Subscription resource */
+  resource_id: string | null
+  /** Webhook the server posts notifications to */
+  endpoint: string
+  /** Bearer token the server sends with notifications */
+  secret: string
+  status: FhirSubscriptionStatus
+  /** eventsSinceSubscriptionStart of the last notification */
+  events_received: number
+  last_notification_at: string | null
+  error: string | null
+  created_by: string
+  created_at: string
+  updated_at: string
+}
+
+export interface FhirSubscriptionStore {
+  list(): Promise<FhirSubscriptionRecord[]>
+  get(subscriptionId: string): Promise<FhirSubscriptionRecord | null>
+  save(record: FhirSubscriptionRecord): Promise<FhirSubscriptionRecord>
+}
+
+export class InMemoryFhirSubscriptionStore implements FhirSubscriptionStore {
+  private records = new Map<string, FhirSubscriptionRecord>()
+
+  async list(): Promise<FhirSubscriptionRecord[]> {
+    return Array.from(this.records.values())
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .map((record) => structuredClone(record))
+  }
+
+  async get(subscriptionId: string): Promise<FhirSubscriptionRecord | null> {
+    const record = this.records.get(subscriptionId)
+    return record ? structuredClone(record) : null
+  }
+
+  async save(record: FhirSubscriptionRecord): Promise<FhirSubscriptionRecord> {
+    this.records.set(record.id, structuredClone(record))
+    return structuredClone(record)
+  }
+}
+
+/**
+ * Subscriptions in the Supabase fhir_subscriptions table, one row per subscription keyed by id
+ */
+export class SupabaseFhirSubscriptionStore implements FhirSubscriptionStore {
+  private readonly table = "fhir_subscriptions"
+
+  constructor(private readonly supabase: SupabaseClient) {}
+
+  async list(): Promise<FhirSubscriptionRecord[]> {
+    const { data, error } = await this.supabase
+      .from(this.table)
+      .select("*")
+      .order("created_at", { ascending: false })
+
+    if (error) throw new Error(`Failed to load FHIR subscriptions: ${error.message}`)
+    return data || []
+  }
+
+  async get(subscriptionId: string): Promise<FhirSubscriptionRecord | null> {
+    const { data, error } = await this.supabase.from(this.table).select("*").eq("id", subscriptionId).maybeSingle()
+
+    if (error) throw new Error(`Failed to load FHIR subscription: ${error.message}`)
+    return data
+  }
+
+  async save(record: FhirSubscriptionRecord): Promise<FhirSubscriptionRecord> {
+    const { data, error } = await this.supabase
+      .from(this.table)
+      .upsert(record, { onConflict: "id" })
+      .select("*")
+      .single()
+
+    if (error) throw new Error(`Failed to store FHIR subscription: ${error.message}`)
+    return data
+  }
+}
@@ -0,0 +1,343 @@
+/**
+ * FHIR resources for EHR write-back
+ * Builds the transaction Bundle for a signed draft: a DocumentReference for clinical summaries, a
+ * DiagnosticReport for risk assessments, a Genomics Reporting IG report with variant and implication
+ * Observations for genomic findings, and a Provenance naming the signer and the AIDEN task.
+ */
+
+import type { FhirBundle, FhirBundleEntry, FhirReference, FhirResource } from "@/lib/fhir/fhir-client"
+import { CODE_SYSTEMS } from "@/lib/fhir/fhir-transformer"
+import type { WritebackDraft, WritebackSigner } from "@/lib/fhir/writeback-store"
+import type { GenomicVariant, VariantSignificance } from "@/lib/genomics/types"
+
+/** Every published resource carries an identifier in this system so retries can find it */
+export const WRITEBACK_IDENTIFIER_SYSTEM = "urn:beaker:fhir:writeback"
+
+const AIDEN_TASK_IDENTIFIER_SYSTEM = "urn:beaker:aiden:task"
+const BEAKER_USER_IDENTIFIER_SYSTEM = "urn:beaker:user"
+const GENOMICS_PROFILE_BASE = "http://hl7.org/fhir/uv/genomics-reporting/StructureDefinition"
+const GENOMICS_TBD_CODES = "http://hl7.org/fhir/uv/genomics-reporting/CodeSystem/tbd-codes-cs"
+
+const loinc = (code: string, display: string) => ({ coding: [{ system: CODE_SYSTEMS.LOINC, code, display }] })
+
+/** LOINC answer codes for ACMG clinical significance */
+export const SIGNIFICANCE_ANSWERS: Record<VariantSignificance, { code: string; display: string }> = {
+  pathogenic: { code: "LA6668-3", display: "Pathogenic" },
+  likely_pathogenic: { code: "LA26332-9", display: "Likely pathogenic" },
+  uncertain: { code: "LA26333-7", display: "Uncertain significance" },
+  likely_benign: { code: "LA26334-5", display: "Likely benign" },
+  benign: { code: "LA6675-8", display: "Benign" },
+}
+
+interface WritebackEntry {
+  /** Suffix of the resource's write-back identifier, unique within a draft */
+  key: string
+  resource: FhirResource
+}
+
+/**
+ * Identifier value of one resource of a draft
+ */
+export function writebackIdentifierValue(draftId: string, key: string): string {
+  return `${draftId}/${key}`
+}
+
+export function signerReference(signer: WritebackSigner): FhirReference & { identifier?: any } {
+  return signer.reference
+    ? { reference: signer.reference, display: signer.display }
+    : { display: signer.display, identifier: { system: BEAKER_USER_IDENTIFIER_SYSTEM, value: signer.user_id } }
+}
+
+function textAttachment(text: string, title: string, creation: string) {
+  return {
+    contentType: "text/plain; charset=utf-8",
+    language: "en",
+    data: Buffer.from(text, "utf8").toString("base64"),
+    title,
+    creation,
+  }
+}
+
+function clinicalSummaryEntries(draft: WritebackDraft, signer: FhirReference, signedAt: string): WritebackEntry[] {
+  return [
+    {
+      key: "document",
+      resource: {
+        resourceType: "DocumentReference",
+        status: "current",
+        docStatus: "final",
+        type: loinc("60591-5", "Patient summary Document"),
+        category: [
+          {
+            coding: [
+              {
+                system: "http://hl7.org/fhir/us/core/CodeSystem/us-core-documentreference-category",
+                code: "clinical-note",
+                display: "Clinical Note",
+              },
+            ],
+          },
+        ],
+        subject: { reference: `Patient/${draft.patient_id}` },
+        date: signedAt,
+        author: [signer],
+        authenticator: signer,
+        description: draft.title,
+        content: [{ attachment: textAttachment(draft.narrative, draft.title, signedAt) }],
+      },
+    },
+  ]
+}
+
+function riskAssessmentEntries(draft: WritebackDraft, signer: FhirReference, signedAt: string): WritebackEntry[] {
+  const { score, level } = draft.content
+
+  return [
+    {
+      key: "report",
+      resource: {
+        resourceType: "DiagnosticReport",
+        status: "final",
+        code: { ...loinc("75492-9", "Risk assessment and screening note"), text: draft.title },
+        subject: { reference: `Patient/${draft.patient_id}` },
+        effectiveDateTime: draft.content.generatedAt || signedAt,
+        issued: signedAt,
+        resultsInterpreter: [signer],
+        conclusion: score !== undefined ? `Overall risk ${level || "unknown"} (score ${score}/100)` : undefined,
+        presentedForm: [textAttachment(draft.narrative, draft.title, signedAt)],
+      },
+    },
+  ]
+}
+
+function geneComponent(gene: string) {
+  return { code: loinc("48018-6", "Gene studied [ID]"), valueCodeableConcept: { text: gene } }
+}
+
+function variantObservation(draft: WritebackDraft, variant: GenomicVariant, signedAt: string): FhirResource {
+  const component: any[] = [
+    geneComponent(variant.gene),
+    { code: loinc("48000-4", "Chromosome"), valueCodeableConcept: { text: variant.chromosome } },
+    {
+      code: loinc("92822-6", "Genomic coord system"),
+      valueCodeableConcept: loinc("LA30102-0", "1-based character counting"),
+    },
+    { code: loinc("81254-5", "Genomic allele start-end"), valueRange: { low: { value: variant.position } } },
+    { code: loinc("69547-8", "Genomic ref allele [ID]"), valueString: variant.reference },
+    { code: loinc("69551-0", "Genomic alt allele [ID]"), valueString: variant.alternate },
+  ]
+
+  if (variant.rsid) {
+    component.push({
+      code: loinc("81252-9", "Discrete genetic variant"),
+      valueCodeableConcept: {
+        coding: [{ system: "http://www.ncbi.nlm.nih.gov/projects/SNP", code: variant.rsid, display: variant.rsid }],
+      },
+    })
+  }
+
+  if (variant.hgvs) {
+    const isCoding = /(^|:)c\./.test(variant.hgvs)
+    component.push({
+      code: isCoding ? loinc("48004-6", "DNA change (c.HGVS)") : loinc("81290-9", "Genomic DNA change (gHGVS)"),
+      valueCodeableConcept: { coding: [{ system: "http://varnomen.hgvs.org", code: variant.hgvs }] },
+    })
+  }
+
+  if (variant.consequence) {
+    component.push({
+      code: { coding: [{ system: GENOMICS_TBD_CODES, code: "molecular-consequence" }] },
+      valueCodeableConcept: { text: variant.consequence },
+    })
+  }
+
+  if (Number.isFinite(variant.frequency)) {
+    component.push({
+      code: loinc("92821-8", "Population allele frequency [NFr]"),
+      valueQuantity: { value: variant.frequency, system: "http://unitsofmeasure.org", code: "1" },
+    })
+  }
+
+  return {
+    resourceType: "Observation",
+    meta: { profile: [`${GENOMICS_PROFILE_BASE}/variant`] },
+    status: "final",
+    category: [
+      { coding: [{ system: "http://terminology.hl7.org/CodeSystem/observation-category", code: "laboratory" }] },
+    ],
+    code: loinc("69548-6", "Genetic variant assessment"),
+    subject: { reference: `Patient/${draft.patient_id}` },
+    issued: signedAt,
+    valueCodeableConcept: loinc("LA9633-4", "Present"),
+    component,
+  }
+}
+
+function implicationObservation(
+  draft: WritebackDraft,
+  variant: GenomicVariant,
+  variantUrl: string,
+  signedAt: string,
+): FhirResource {
+  const answer = SIGNIFICANCE_ANSWERS[variant.significance] || SIGNIFICANCE_ANSWERS.uncertain
+
+  return {
+    resourceType: "Observation",
+    meta: { profile: [`${GENOMICS_PROFILE_BASE}/diagnostic-implication`] },
+    status: "final",
+    category: [
+      { coding: [{ system: "http://terminology.hl7.org/CodeSystem/observation-category", code: "laboratory" }] },
+    ],
+    code: {
+      coding: [{ system: GENOMICS_TBD_CODES, code: "diagnostic-implication", display: "Diagnostic Implication" }],
+    },
+    subject: { reference: `Patient/${draft.patient_id}` },
+    issued: signedAt,
+    derivedFrom: [{ reference: variantUrl }],
+    component: [
+      {
+        code: loinc("53037-8", "Genetic variation clinical significance [Imp]"),
+        valueCodeableConcept: loinc(answer.code, answer.display),
+      },
+      geneComponent(variant.gene),
+    ],
+  }
+}
+
+function genomicFindingsEntries(
+  draft: WritebackDraft,
+  signer: FhirReference,
+  signedAt: string,
+  fullUrls: Map<string, string>,
+): WritebackEntry[] {
+  const variants: GenomicVariant[] = draft.content.variants || []
+  const findings: WritebackEntry[] = variants.flatMap((variant) => {
+    const variantKey = `variant/${variant.id}`
+    return [
+      { key: variantKey, resource: variantObservation(draft, variant, signedAt) },
+      {
+        key: `implication/${variant.id}`,
+        resource: implicationObservation(draft, variant, urlFor(fullUrls, variantKey), signedAt),
+      },
+    ]
+  })
+
+  const report: WritebackEntry = {
+    key: "report",
+    resource: {
+      resourceType: "DiagnosticReport",
+      meta: { profile: [`${GENOMICS_PROFILE_BASE}/genomics-report`] },
+      status: "final",
+      category: [{ coding: [{ system: "http://terminology.hl7.org/CodeSystem/v2-0074", code: "GE" }] }],
+      code: { ...loinc("51969-4", "Genetic analysis report"), text: draft.title },
+      subject: { reference: `Patient/${draft.patient_id}` },
+      issued: signedAt,
+      resultsInterpreter: [signer],
+      result: findings.map((finding) => ({ reference: urlFor(fullUrls, finding.key) })),
+      conclusion: draft.narrative,
+      presentedForm: [textAttachment(draft.narrative, draft.title, signedAt)],
+    },
+  }
+
+  return [report, ...findings]
+}
+
+function urlFor(fullUrls: Map<string, string>, key: string): string {
+  if (!fullUrls.has(key)) fullUrls.set(key, `urn:uuid:${crypto.randomUUID()}`)
+  return fullUrls.get(key) as string
+}
+
+function provenanceResource(
+  draft: WritebackDraft,
+  signer: FhirReference,
+  signedAt: string,
+  targets: string[],
+): FhirResource {
+  const participant = (code: string, display: string) => ({
+    coding: [{ system: "http://terminology.hl7.org/CodeSystem/provenance-participant-type", code, display }],
+  })
+
+  return {
+    resourceType: "Provenance",
+    target: targets.map((reference) => ({ reference })),
+    recorded: signedAt,
+    activity: { coding: [{ system: "http://terminology.hl7.org/CodeSystem/v3-DataOperation", code: "CREATE" }] },
+    agent: [
+      { type: participant("assembler", "Assembler"), who: { display: "Beaker AIDEN" } },
+      { type: participant("verifier", "Verifier"), who: signer },
+    ],
+    entity: draft.source_task_id
+      ? [
+          {
+            role: "source",
+            what: {
+              identifier: { system: AIDEN_TASK_IDENTIFIER_SYSTEM, value: draft.source_task_id },
+              display: `AIDEN ${draft.kind.replace(/_/g, " ")} task`,
+            },
+          },
+        ]
+      : undefined,
+    signature: [
+      {
+        type: [
+          { system: "urn:iso-astm:E1762-95:2013", code: "1.2.840.10065.1.12.1.5", display: "Verification Signature" },
+        ],
+        when: signedAt,
+        who: signer,
+      },
+    ],
+  }
+}
+
+/**
+ * Transaction publishing a signed draft
+ * Each artifact is a conditional create on its write-back identifier, so resending a transaction the
+ * server already applied does not duplicate it. The Provenance is created in the same transaction.
+ */
+export function buildWritebackBundle(draft: WritebackDraft): FhirBundle {
+  if (!draft.signed_by || !draft.signed_at) {
+    throw new Error(`Write-back draft ${draft.id} has not been signed`)
+  }
+
+  const signer = signerReference(draft.signed_by)
+  const fullUrls = new Map<string, string>()
+  const entries =
+    draft.kind === "clinical_summary"
+      ? clinicalSummaryEntries(draft, signer, draft.signed_at)
+      : draft.kind === "risk_assessment"
+        ? riskAssessmentEntries(draft, signer, draft.signed_at)
+        : genomicFindingsEntries(draft, signer, draft.signed_at, fullUrls)
+
+  const artifactEntries: FhirBundleEntry[] = entries.map(({ key, resource }) => {
+    const value = writebackIdentifierValue(draft.id, key)
+    return {
+      fullUrl: urlFor(fullUrls, key),
+      resource: { ...resource, identifier: [{ system: WRITEBACK_IDENTIFIER_SYSTEM, value }] },
+      request: {
+        method: "POST",
+        url: resource.resourceType,
+        ifNoneExist: `identifier=${WRITEBACK_IDENTIFIER_SYSTEM}|${value}`,
+      },
+    }
+  })
+
+  const provenance = provenanceResource(
+    draft,
+    signer,
+    draft.signed_at,
+    artifactEntries.map((entry) => entry.fullUrl as string),
+  )
+
+  return {
+    resourceType: "Bundle",
+    type: "transaction",
+    entry: [
+      ...artifactEntries,
+      {
+        fullUrl: `urn:uuid:${crypto.randomUUID()}`,
+        resource: provenance,
+        request: { method: "POST", url: "Provenance" },
+      },
+    ],
+  }
+}
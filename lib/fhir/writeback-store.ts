@@ -0,0 +1,130 @@
+/**
+ * Persistence for EHR write-back drafts
+ * Drafts are stored in Supabase when a service role key is configured, otherwise kept in memory. They double as
+ * the audit record of who reviewed, signed and published each artifact.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+
+export type WritebackKind = "clinical_summary" | "risk_assessment" | "genomic_findings"
+
+export type WritebackStatus = "pending_review" | "publishing" | "published" | "failed" | "rejected"
+
+export interface WritebackSigner {
+  user_id: string
+  display: string
+  /** FHIR reference of the signer, e.g. Practitioner/123 from the SMART fhirUser claim */
+  reference: string | null
+}
+
+export interface WritebackPublishedResource {
+  resourceType: string
+  id: string
+  /** False when the server already had the resource from an earlier attempt */
+  created: boolean
+}
+
+export interface WritebackDraft {
+  id: string
+  patient_id: string
+  kind: WritebackKind
+  /** AIDEN task the content came from */
+  source_task_id: string | null
+  title: string
+  /** Reviewed text published as the document or report body */
+  narrative: string
+  /** Structured content the FHIR resources are built from */
+  content: Record<string, any>
+  status: WritebackStatus
+  /** FHIR server the draft was published to, set on the first attempt */
+  server: string | null
+  created_by: string
+  signed_by: WritebackSigner | null
+  signed_at: string | null
+  rejected_by: string | null
+  rejected_reason: string | null
+  attempts: number
+  error: string | null
+  published: WritebackPublishedResource[]
+  published_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface WritebackQuery {
+  patient_id?: string
+  status?: WritebackStatus
+  source_task_id?: string
+}
+
+export interface WritebackStore {
+  list(query?: WritebackQuery): Promise<WritebackDraft[]>
+  get(draftId: string): Promise<WritebackDraft | null>
+  save(draft: WritebackDraft): Promise<WritebackDraft>
+}
+
+export class InMemoryWritebackStore implements WritebackStore {
+  private drafts = new Map<string, WritebackDraft>()
+
+  async list(query: WritebackQuery = {}): Promise<WritebackDraft[]> {
+    return Array.from(this.drafts.values())
+      .filter(
+        (draft) =>
+          (!query.patient_id || draft.patient_id === query.patient_id) &&
+          (!query.status || draft.status === query.status) &&
+          (!query.source_task_id || draft.source_task_id === query.source_task_id),
+      )
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .map((draft) => structuredClone(draft))
+  }
+
+  async get(draftId: string): Promise<WritebackDraft | null> {
+    const draft = this.drafts.get(draftId)
+    return draft ? structuredClone(draft) : null
+  }
+
+  async save(draft: WritebackDraft): Promise<WritebackDraft> {
+    this.drafts.set(draft.id, structuredClone(draft))
+    return structuredClone(draft)
+  }
+}
+
+/**
+ * Drafts in the Supabase fhir_writebacks table, one row per draft keyed by id
+ */
+export class SupabaseWritebackStore implements WritebackStore {
+  private readonly table = "fhir_writebacks"
+
+  constructor(private readonly supabase: SupabaseClient) {}
+
+  async list(query: WritebackQuery = {}): Promise<WritebackDraft[]> {
+    let request = this.supabase.from(this.table).select("*")
+
+    if (query.patient_id) request = request.eq("patient_id", query.patient_id)
+    if (query.status) request = request.eq("status", query.status)
+    if (query.source_task_id) request = request.eq("source_task_id", query.source_task_id)
+
+    const { data, error } = await request.order("created_at", { ascending: false })
+
+    if (error) throw new Error(`Failed to load write-back drafts: ${error.message}`)
+    return data || []
+  }
+
+  async get(draftId: string): Promise<WritebackDraft | null> {
+    const { data, error } = await this.supabase.from(this.table).select("*").eq("id", draftId).maybeSingle()
+
+    if (error) throw new Error(`Failed to load write-back draft: ${error.message}`)
+    return data
+  }
+
+  async save(draft: WritebackDraft): Promise<WritebackDraft> {
+    const { data, error } = await this.supabase
+      .from(this.table)
+      .upsert(draft, { onConflict: "id" })
+      .select("*")
+      .single()
+
+    if (error) throw new Error(`Failed to store write-back draft: ${error.message}`)
+    return data
+  }
+}
@@ -0,0 +1,569 @@
+/**
+ * ACMG/AMP variant classification
+ * Evaluates the criteria of Richards et al. 2015 that the knowledge sources can speak to, applies curators'
+ * overrides and combines the criteria met under the standard rules into one of the five tiers. Criteria that need
+ * evidence the snapshots do not hold, such as segregation or functional studies, are only met by an override.
+ */
+
+import type { VariantSignificance } from "@/lib/genomics/types"
+import { KnowledgeSource, type EnrichedVariant } from "@/lib/genomics/knowledge/types"
+
+export type EvidenceDirection = "pathogenic" | "benign"
+
+export type EvidenceStrength = "stand_alone" | "very_strong" | "strong" | "moderate" | "supporting"
+
+export type AcmgCriterion =
+  | "PVS1"
+  | "PS1"
+  | "PS2"
+  | "PS3"
+  | "PS4"
+  | "PM1"
+  | "PM2"
+  | "PM3"
+  | "PM4"
+  | "PM5"
+  | "PM6"
+  | "PP1"
+  | "PP2"
+  | "PP3"
+  | "PP4"
+  | "PP5"
+  | "BA1"
+  | "BS1"
+  | "BS2"
+  | "BS3"
+  | "BS4"
+  | "BP1"
+  | "BP2"
+  | "BP3"
+  | "BP4"
+  | "BP5"
+  | "BP6"
+  | "BP7"
+
+export interface AcmgCriterionDefinition {
+  direction: EvidenceDirection
+  /** Strength the criterion carries unless a curator changes it */
+  strength: EvidenceStrength
+  description: string
+}
+
+export const ACMG_CRITERIA: Record<AcmgCriterion, AcmgCriterionDefinition> = {
+  PVS1: {
+    direction: "pathogenic",
+    strength: "very_strong",
+    description: "Null variant in a gene where loss of function causes disease",
+  },
+  PS1: {
+    direction: "pathogenic",
+    strength: "strong",
+    description: "Same amino acid change as an established pathogenic variant",
+  },
+  PS2: { direction: "pathogenic", strength: "strong", description: "De novo, with maternity and paternity confirmed" },
+  PS3: { direction: "pathogenic", strength: "strong", description: "Well-established functional studies show harm" },
+  PS4: { direction: "pathogenic", strength: "strong", description: "Prevalence in affected individuals is increased" },
+  PM1: {
+    direction: "pathogenic",
+    strength: "moderate",
+    description: "In a mutational hot spot or critical functional domain",
+  },
+  PM2: {
+    direction: "pathogenic",
+    strength: "moderate",
+    description: "Absent from or extremely rare in population data",
+  },
+  PM3: { direction: "pathogenic", strength: "moderate", description: "In trans with a pathogenic variant (recessive)" },
+  PM4: {
+    direction: "pathogenic",
+    strength: "moderate",
+    description: "Protein length changed by an in-frame indel or stop-loss",
+  },
+  PM5: {
+    direction: "pathogenic",
+    strength: "moderate",
+    description: "Novel missense change at a residue where another pathogenic missense change is known",
+  },
+  PM6: { direction: "pathogenic", strength: "moderate", description: "Assumed de novo, without confirmation" },
+  PP1: { direction: "pathogenic", strength: "supporting", description: "Cosegregation with disease in the family" },
+  PP2: {
+    direction: "pathogenic",
+    strength: "supporting",
+    description: "Missense variant in a gene with little benign missense variation",
+  },
+  PP3: { direction: "pathogenic", strength: "supporting", description: "Computational evidence supports harm" },
+  PP4: { direction: "pathogenic", strength: "supporting", description: "Phenotype is highly specific for the gene" },
+  PP5: { direction: "pathogenic", strength: "supporting", description: "Reputable source reports it as pathogenic" },
+  BA1: { direction: "benign", strength: "stand_alone", description: "Allele frequency above 5% in population data" },
+  BS1: { direction: "benign", strength: "strong", description: "Allele frequency greater than expected for disorder" },
+  BS2: {
+    direction: "benign",
+    strength: "strong",
+    description: "Observed in healthy adults for a fully penetrant early-onset disorder",
+  },
+  BS3: { direction: "benign", strength: "strong", description: "Well-established functional studies show no harm" },
+  BS4: { direction: "benign", strength: "strong", description: "Lack of segregation in affected family members" },
+  BP1: {
+    direction: "benign",
+    strength: "supporting",
+    description: "Missense variant in a gene where truncating variants cause disease",
+  },
+  BP2: {
+    direction: "benign",
+    strength: "supporting",
+    description: "In trans or cis with a pathogenic variant, against the inheritance pattern",
+  },
+  BP3: {
+    direction: "benign",
+    strength: "supporting",
+    description: "In-frame indel in a repeat region without known function",
+  },
+  BP4: { direction: "benign", strength: "supporting", description: "Computational evidence suggests no impact" },
+  BP5: { direction: "benign", strength: "supporting", description: "Found in a case with another molecular cause" },
+  BP6: { direction: "benign", strength: "supporting", description: "Reputable source reports it as benign" },
+  BP7: {
+    direction: "benign",
+    strength: "supporting",
+    description: "Synonymous variant with no predicted splice impact",
+  },
+}
+
+export const ACMG_CRITERION_CODES = Object.keys(ACMG_CRITERIA) as AcmgCriterion[]
+
+/** Strengths a criterion may be given, strongest first */
+export const EVIDENCE_STRENGTHS: Record<EvidenceDirection, EvidenceStrength[]> = {
+  pathogenic: ["very_strong", "strong", "moderate", "supporting"],
+  benign: ["stand_alone", "strong", "supporting"],
+}
+
+const STRENGTH_ORDER: EvidenceStrength[] = ["stand_alone", "very_strong", "strong", "moderate", "supporting"]
+
+/** How one criterion was decided, kept as the evidence trail */
+export interface CriterionEvaluation {
+  criterion: AcmgCriterion
+  met: boolean
+  strength: EvidenceStrength
+  /** Why the criterion was or was not met */
+  reason: string
+  /** Values the decision rested on, e.g. a population frequency or ClinVar record */
+  evidence: Record<string, string | number | boolean | null>
+}
+
+/** A curator's decision on one criterion; the newest override of a criterion wins */
+export interface CriterionOverride {
+  criterion: AcmgCriterion
+  /** null hands the criterion back to automatic evaluation */
+  met: boolean | null
+  /** Strength to count the criterion at, when it differs from the default */
+  strength: EvidenceStrength | null
+  justification: string
+  curator: string
+  created_at: string
+}
+
+export type ClassifiedCriterion = CriterionEvaluation & {
+  /** The curator override that decided the criterion, if any */
+  override: CriterionOverride | null
+}
+
+export interface AcmgClassification {
+  tier: VariantSignificance
+  /** The combining rule that gave the tier, e.g. "Likely pathogenic (i): 1 very strong and 1 moderate" */
+  rule: string
+  /** Every criterion evaluated automatically or decided by a curator */
+  criteria: ClassifiedCriterion[]
+  /** Codes of the criteria met, strongest first */
+  met: AcmgCriterion[]
+  /** Pathogenic and benign criteria were both met */
+  conflicting: boolean
+}
+
+/** Evidence from outside the variant's own annotations */
+export interface AcmgEvidence {
+  /** Knowledge sources whose snapshots were applied; absence from gnomAD only counts when gnomAD was */
+  sources: KnowledgeSource[]
+  /** Other ClinVar variants at the same codon of the variant's transcript */
+  codonVariants: CodonVariant[]
+}
+
+export interface CodonVariant {
+  /** Variant key, e.g. 17-43094464-G-A */
+  id: string
+  hgvs_p: string | null
+  /** Alternate amino acid */
+  amino_acid: string
+  significance: VariantSignificance
+  stars: number
+}
+
+export interface AcmgOptions {
+  /** Genes where loss of function is an established disease mechanism; without a list PVS1 assumes it */
+  lossOfFunctionGenes?: ReadonlySet<string>
+  /** Frequency above which BA1 is met */
+  standAloneFrequency: number
+  /** Frequency above which BS1 is met */
+  commonFrequency: number
+  /** Frequency below which PM2 is met */
+  rareFrequency: number
+  /** ClinVar stars needed for PP5 and BP6 */
+  reputableStars: number
+}
+
+export const DEFAULT_ACMG_OPTIONS: AcmgOptions = {
+  standAloneFrequency: 0.05,
+  commonFrequency: 0.01,
+  rareFrequency: 0.0001,
+  reputableStars: 2,
+}
+
+const NULL_CONSEQUENCES = [
+  "transcript_ablation",
+  "splice_acceptor_variant",
+  "splice_donor_variant",
+  "stop_gained",
+  "frameshift_variant",
+  "start_lost",
+]
+
+const LENGTH_CHANGING_CONSEQUENCES = ["inframe_insertion", "inframe_deletion", "stop_lost"]
+
+const PATHOGENIC_TIERS: VariantSignificance[] = ["pathogenic", "likely_pathogenic"]
+const BENIGN_TIERS: VariantSignificance[] = ["benign", "likely_benign"]
+
+const percent = (frequency: number) => `${Number((frequency * 100).toPrecision(3))}%`
+
+function evaluation(
+  criterion: AcmgCriterion,
+  met: boolean,
+  reason: string,
+  evidence: CriterionEvaluation["evidence"] = {},
+  strength = ACMG_CRITERIA[criterion].strength,
+): CriterionEvaluation {
+  return { criterion, met, strength, reason, evidence }
+}
+
+function nullVariant(variant: EnrichedVariant, options: AcmgOptions): CriterionEvaluation {
+  const transcript = variant.annotations.ensembl
+  if (!transcript) return evaluation("PVS1", false, "No transcript consequence is known")
+
+  const evidence = { transcript: transcript.transcript_id, consequence: transcript.consequence }
+  if (!NULL_CONSEQUENCES.includes(transcript.consequence)) {
+    return evaluation("PVS1", false, `${transcript.consequence} is not a null variant`, evidence)
+  }
+  if (options.lossOfFunctionGenes && !options.lossOfFunctionGenes.has(transcript.gene)) {
+    const reason = `Loss of function is not an established mechanism for ${transcript.gene}`
+    return evaluation("PVS1", false, reason, evidence)
+  }
+
+  const assumed = options.lossOfFunctionGenes ? "" : "; loss of function is assumed to be the disease mechanism"
+  if (transcript.consequence === "start_lost") {
+    return evaluation("PVS1", true, `Start codon lost in ${transcript.gene}${assumed}`, evidence, "moderate")
+  }
+
+  // Truncations in the last exon may escape nonsense-mediated decay
+  const [exon, exonCount] = (transcript.exon || "").split("/")
+  const truncating = ["stop_gained", "frameshift_variant"].includes(transcript.consequence)
+  if (truncating && exon && exon === exonCount) {
+    return evaluation(
+      "PVS1",
+      true,
+      `${transcript.consequence} in the last exon of ${transcript.gene}, which may escape nonsense-mediated decay` +
+        assumed,
+      { ...evidence, exon: transcript.exon },
+      "strong",
+    )
+  }
+
+  return evaluation("PVS1", true, `${transcript.consequence} in ${transcript.gene}${assumed}`, evidence)
+}
+
+function codonEvaluations(variant: EnrichedVariant, evidence: AcmgEvidence): CriterionEvaluation[] {
+  const transcript = variant.annotations.ensembl
+  if (transcript?.consequence !== "missense_variant" || !transcript.amino_acids) {
+    const reason = transcript ? `${transcript.consequence} is not a missense change` : "No protein change is known"
+    return [evaluation("PS1", false, reason), evaluation("PM5", false, reason)]
+  }
+
+  const known = evidence.codonVariants.filter((candidate) => PATHOGENIC_TIERS.includes(candidate.significance))
+  const [, alternate] = transcript.amino_acids
+  const same = known.find((candidate) => candidate.amino_acid === alternate)
+  const other = known.find((candidate) => candidate.amino_acid !== alternate)
+  const noneKnown = `No pathogenic ClinVar variant is known at codon ${transcript.protein_position}`
+
+  return [
+    same
+      ? evaluation(
+          "PS1",
+          true,
+          `ClinVar reports ${same.hgvs_p} from another nucleotide change as ${same.significance}`,
+          { clinvar_variant: same.id, hgvs_p: same.hgvs_p },
+        )
+      : evaluation("PS1", false, noneKnown),
+    other
+      ? evaluation(
+          "PM5",
+          true,
+          `ClinVar reports ${other.hgvs_p} at the same residue as ${other.significance}`,
+          { clinvar_variant: other.id, hgvs_p: other.hgvs_p },
+        )
+      : evaluation("PM5", false, same ? "The only known change at this residue is the same amino acid" : noneKnown),
+  ]
+}
+
+function frequencyEvaluations(
+  variant: EnrichedVariant,
+  evidence: AcmgEvidence,
+  options: AcmgOptions,
+): CriterionEvaluation[] {
+  if (!evidence.sources.includes(KnowledgeSource.GNOMAD)) {
+    const reason = "No population frequency snapshot was applied"
+    return [evaluation("PM2", false, reason), evaluation("BA1", false, reason), evaluation("BS1", false, reason)]
+  }
+
+  const population = variant.annotations.gnomad
+  if (!population) {
+    const absent = { gnomad_version: null, af: null }
+    return [
+      evaluation("PM2", true, "Absent from gnomAD", absent),
+      evaluation("BA1", false, "Absent from gnomAD", absent),
+      evaluation("BS1", false, "Absent from gnomAD", absent),
+    ]
+  }
+
+  // The highest frequency of any continental population, so founder populations do not mask a common allele
+  const frequency = population.popmax?.af ?? population.af
+  const where = population.popmax ? `in ${population.popmax.population}` : "overall"
+  const observed = `Allele frequency ${percent(frequency)} ${where}`
+  const values = {
+    gnomad_version: population.snapshot_version,
+    af: population.af,
+    popmax: population.popmax?.population ?? null,
+    popmax_af: population.popmax?.af ?? null,
+  }
+
+  return [
+    evaluation(
+      "PM2",
+      frequency < options.rareFrequency,
+      `${observed}, ${frequency < options.rareFrequency ? "below" : "not below"} ${percent(options.rareFrequency)}`,
+      values,
+    ),
+    evaluation(
+      "BA1",
+      frequency > options.standAloneFrequency,
+      `${observed}, ${frequency > options.standAloneFrequency ? "above" : "not above"} ` +
+        percent(options.standAloneFrequency),
+      values,
+    ),
+    frequency > options.standAloneFrequency
+      ? evaluation("BS1", false, `${observed}; BA1 applies instead`, values)
+      : evaluation(
+          "BS1",
+          frequency > options.commonFrequency,
+          `${observed}, ${frequency > options.commonFrequency ? "above" : "not above"} ` +
+            percent(options.commonFrequency),
+          values,
+        ),
+  ]
+}
+
+function reputableSourceEvaluations(variant: EnrichedVariant, options: AcmgOptions): CriterionEvaluation[] {
+  const clinvar = variant.annotations.clinvar
+  if (!clinvar) {
+    const reason = "Not in ClinVar"
+    return [evaluation("PP5", false, reason), evaluation("BP6", false, reason)]
+  }
+
+  const values = {
+    variation_id: clinvar.variation_id,
+    clinical_significance: clinvar.clinical_significance,
+    review_status: clinvar.review_status,
+    stars: clinvar.stars,
+    clinvar_version: clinvar.snapshot_version,
+  }
+  const reported = `ClinVar: ${clinvar.clinical_significance.replace(/_/g, " ")}, ${clinvar.stars} star${
+    clinvar.stars === 1 ? "" : "s"
+  }`
+  const reputable = clinvar.stars >= options.reputableStars
+  const decide = (criterion: AcmgCriterion, tiers: VariantSignificance[]) => {
+    if (!tiers.includes(clinvar.significance)) return evaluation(criterion, false, reported, values)
+    return reputable
+      ? evaluation(criterion, true, reported, values)
+      : evaluation(criterion, false, `${reported}, fewer than ${options.reputableStars} stars`, values)
+  }
+
+  return [decide("PP5", PATHOGENIC_TIERS), decide("BP6", BENIGN_TIERS)]
+}
+
+function consequenceEvaluations(variant: EnrichedVariant): CriterionEvaluation[] {
+  const transcript = variant.annotations.ensembl
+  if (!transcript) {
+    const reason = "No transcript consequence is known"
+    return [evaluation("PM4", false, reason), evaluation("BP7", false, reason)]
+  }
+
+  const evidence = { transcript: transcript.transcript_id, consequence: transcript.consequences.join(",") }
+  const synonymous = transcript.consequence === "synonymous_variant"
+  const spliceRegion = transcript.consequences.includes("splice_region_variant")
+
+  return [
+    LENGTH_CHANGING_CONSEQUENCES.includes(transcript.consequence)
+      ? evaluation("PM4", true, `${transcript.consequence} changes the protein length`, evidence)
+      : evaluation("PM4", false, `${transcript.consequence} does not change the protein length`, evidence),
+    synonymous && !spliceRegion
+      ? evaluation("BP7", true, "Synonymous, outside the splice region", evidence)
+      : evaluation(
+          "BP7",
+          false,
+          synonymous ? "Synonymous, but in the splice region" : `${transcript.consequence} is not synonymous`,
+          evidence,
+        ),
+  ]
+}
+
+/**
+ * Evaluate the criteria the knowledge sources can decide: PVS1, PS1, PM2, PM4, PM5, PP5, BA1, BS1, BP6 and BP7
+ */
+export function evaluateCriteria(
+  variant: EnrichedVariant,
+  evidence: AcmgEvidence,
+  options: AcmgOptions = DEFAULT_ACMG_OPTIONS,
+): CriterionEvaluation[] {
+  const evaluations = [
+    nullVariant(variant, options),
+    ...codonEvaluations(variant, evidence),
+    ...frequencyEvaluations(variant, evidence, options),
+    ...reputableSourceEvaluations(variant, options),
+    ...consequenceEvaluations(variant),
+  ]
+
+  return evaluations.sort(
+    (a, b) => ACMG_CRITERION_CODES.indexOf(a.criterion) - ACMG_CRITERION_CODES.indexOf(b.criterion),
+  )
+}
+
+/**
+ * Combine the criteria met into a tier under the rules of Richards et al. 2015, table 5
+ * Criteria count at their own strength, so a PVS1 lowered to strong counts as a strong criterion.
+ */
+export function combineCriteria(criteria: Array<Pick<CriterionEvaluation, "criterion" | "met" | "strength">>) {
+  const count = (direction: EvidenceDirection, strength: EvidenceStrength) =>
+    criteria.filter(
+      (item) => item.met && ACMG_CRITERIA[item.criterion].direction === direction && item.strength === strength,
+    ).length
+
+  const veryStrong = count("pathogenic", "very_strong")
+  const strong = count("pathogenic", "strong")
+  const moderate = count("pathogenic", "moderate")
+  const supporting = count("pathogenic", "supporting")
+  const standAlone = count("benign", "stand_alone")
+  const benignStrong = count("benign", "strong")
+  const benignSupporting = count("benign", "supporting")
+
+  const pathogenic: Array<[VariantSignificance, string, boolean]> = [
+    ["pathogenic", "Pathogenic (i)(a): 1 very strong and 1 or more strong", veryStrong >= 1 && strong >= 1],
+    ["pathogenic", "Pathogenic (i)(b): 1 very strong and 2 or more moderate", veryStrong >= 1 && moderate >= 2],
+    [
+      "pathogenic",
+      "Pathogenic (i)(c): 1 very strong, 1 moderate and 1 supporting",
+      veryStrong >= 1 && moderate >= 1 && supporting >= 1,
+    ],
+    ["pathogenic", "Pathogenic (i)(d): 1 very strong and 2 or more supporting", veryStrong >= 1 && supporting >= 2],
+    ["pathogenic", "Pathogenic (ii): 2 or more strong", strong >= 2],
+    ["pathogenic", "Pathogenic (iii)(a): 1 strong and 3 or more moderate", strong >= 1 && moderate >= 3],
+    [
+      "pathogenic",
+      "Pathogenic (iii)(b): 1 strong, 2 moderate and 2 or more supporting",
+      strong >= 1 && moderate >= 2 && supporting >= 2,
+    ],
+    [
+      "pathogenic",
+      "Pathogenic (iii)(c): 1 strong, 1 moderate and 4 or more supporting",
+      strong >= 1 && moderate >= 1 && supporting >= 4,
+    ],
+    ["likely_pathogenic", "Likely pathogenic (i): 1 very strong and 1 moderate", veryStrong >= 1 && moderate >= 1],
+    ["likely_pathogenic", "Likely pathogenic (ii): 1 strong and 1 or 2 moderate", strong >= 1 && moderate >= 1],
+    ["likely_pathogenic", "Likely pathogenic (iii): 1 strong and 2 or more supporting", strong >= 1 && supporting >= 2],
+    ["likely_pathogenic", "Likely pathogenic (iv): 3 or more moderate", moderate >= 3],
+    [
+      "likely_pathogenic",
+      "Likely pathogenic (v): 2 moderate and 2 or more supporting",
+      moderate >= 2 && supporting >= 2,
+    ],
+    [
+      "likely_pathogenic",
+      "Likely pathogenic (vi): 1 moderate and 4 or more supporting",
+      moderate >= 1 && supporting >= 4,
+    ],
+  ]
+  const benign: Array<[VariantSignificance, string, boolean]> = [
+    ["benign", "Benign (i): 1 stand-alone", standAlone >= 1],
+    ["benign", "Benign (ii): 2 or more strong", benignStrong >= 2],
+    ["likely_benign", "Likely benign (i): 1 strong and 1 supporting", benignStrong >= 1 && benignSupporting >= 1],
+    ["likely_benign", "Likely benign (ii): 2 or more supporting", benignSupporting >= 2],
+  ]
+
+  const towardsPathogenic = pathogenic.find(([, , applies]) => applies)
+  const towardsBenign = benign.find(([, , applies]) => applies)
+
+  if (towardsPathogenic && towardsBenign) {
+    return {
+      tier: "uncertain" as VariantSignificance,
+      rule: `Uncertain significance: the criteria are contradictory (${towardsPathogenic[1]}; ${towardsBenign[1]})`,
+      conflicting: true,
+    }
+  }
+
+  const applied = towardsPathogenic || towardsBenign
+  if (applied) return { tier: applied[0], rule: applied[1], conflicting: false }
+
+  return {
+    tier: "uncertain" as VariantSignificance,
+    rule: "Uncertain significance: the criteria for another classification are not met",
+    conflicting: false,
+  }
+}
+
+/** The newest override of each criterion */
+export function currentOverrides(overrides: CriterionOverride[]): Map<AcmgCriterion, CriterionOverride> {
+  const current = new Map<AcmgCriterion, CriterionOverride>()
+  for (const override of [...overrides].sort((a, b) => a.created_at.localeCompare(b.created_at))) {
+    current.set(override.criterion, override)
+  }
+  return current
+}
+
+/**
+ * Apply curator overrides to the automatic evaluations and classify
+ * Overrides whose met is null hand the criterion back to its automatic evaluation.
+ */
+export function classifyVariant(
+  evaluations: CriterionEvaluation[],
+  overrides: CriterionOverride[],
+): AcmgClassification {
+  const current = currentOverrides(overrides)
+  const criteria = ACMG_CRITERION_CODES.flatMap((criterion): ClassifiedCriterion[] => {
+    const automatic = evaluations.find((item) => item.criterion === criterion)
+    const override = current.get(criterion)
+
+    if (!override || override.met === null) return automatic ? [{ ...automatic, override: null }] : []
+
+    return [
+      {
+        criterion,
+        met: override.met,
+        strength: override.strength || automatic?.strength || ACMG_CRITERIA[criterion].strength,
+        reason: override.justification,
+        evidence: automatic?.evidence || {},
+        override,
+      },
+    ]
+  })
+
+  const met = criteria
+    .filter((item) => item.met)
+    .sort((a, b) => STRENGTH_ORDER.indexOf(a.strength) - STRENGTH_ORDER.indexOf(b.strength))
+    .map((item) => item.criterion)
+
+  return { ...combineCriteria(criteria), criteria, met }
+}
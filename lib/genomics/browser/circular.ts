@@ -0,0 +1,70 @@
+/**
+ * Circular genome layout for the variant viewer's circular view
+ * Chromosomes are arcs laid clockwise from the top in karyotype order, each sized by its GRCh38 length, with a gap
+ * after each. Angles are in radians as the canvas measures them: clockwise from the positive x axis.
+ */
+
+import { GRCH38_CHROMOSOME_LENGTHS } from "@/lib/genomics/browser/region"
+import type { GenomicVariant } from "@/lib/genomics/types"
+
+export interface ChromosomeArc {
+  chromosome: string
+  length: number
+  startAngle: number
+  endAngle: number
+}
+
+/** Chromosomes always drawn; the mitochondrial genome is too short for an arc and is left out */
+const NUCLEAR_CHROMOSOMES = Object.keys(GRCH38_CHROMOSOME_LENGTHS).filter((chromosome) => chromosome !== "MT")
+
+/** Share of the circle left as gaps between chromosomes */
+const GAP_SHARE = 0.06
+
+const TOP = -Math.PI / 2
+
+/**
+ * Arcs of the nuclear chromosomes; variants on contigs without a GRCh38 length have no place on the circle
+ */
+export function circularLayout(chromosomes: string[] = NUCLEAR_CHROMOSOMES): ChromosomeArc[] {
+  const known = chromosomes.filter((chromosome) => GRCH38_CHROMOSOME_LENGTHS[chromosome] !== undefined)
+  const total = known.reduce((sum, chromosome) => sum + GRCH38_CHROMOSOME_LENGTHS[chromosome], 0)
+  const gap = (Math.PI * 2 * GAP_SHARE) / Math.max(known.length, 1)
+  const perBase = (Math.PI * 2 * (1 - GAP_SHARE)) / total
+
+  let angle = TOP
+  return known.map((chromosome) => {
+    const length = GRCH38_CHROMOSOME_LENGTHS[chromosome]
+    const arc = { chromosome, length, startAngle: angle, endAngle: angle + length * perBase }
+    angle = arc.endAngle + gap
+    return arc
+  })
+}
+
+/**
+ * Angle of a position, clamped to its chromosome, or null when the chromosome has no arc
+ */
+export function angleAt(layout: ChromosomeArc[], chromosome: string, position: number): number | null {
+  const arc = layout.find((candidate) => candidate.chromosome === chromosome)
+  if (!arc) return null
+
+  const offset = Math.min(Math.max(position - 1, 0), arc.length) / arc.length
+  return arc.startAngle + offset * (arc.endAngle - arc.startAngle)
+}
+
+/**
+ * Angles a variant spans: from its position to its structural end, so point variants start and end together
+ */
+export function variantAngles(layout: ChromosomeArc[], variant: GenomicVariant): [number, number] | null {
+  const start = angleAt(layout, variant.chromosome, variant.position)
+  const end = angleAt(layout, variant.chromosome, variant.structural?.end ?? variant.position)
+  return start === null || end === null ? null : [start, end]
+}
+
+/**
+ * Whether an angle falls between two others going clockwise, whatever turn of the circle it is written in
+ */
+export function withinAngles(angle: number, startAngle: number, endAngle: number): boolean {
+  const turn = Math.PI * 2
+  const offset = (((angle - startAngle) % turn) + turn) % turn
+  return offset <= endAngle - startAngle
+}
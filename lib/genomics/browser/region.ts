@@ -0,0 +1,148 @@
+/**
+ * Genomic regions for the genome browser
+ * Parses locus queries as genome browsers write them, e.g. chr17:43,044,295-43,125,483, and keeps zooming and panning
+ * inside the chromosome. Coordinates are 1-based and inclusive, like VCF positions.
+ */
+
+import { viewerChromosome } from "@/lib/genomics/vcf-variants"
+
+export class GenomicRegionError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode = 400,
+  ) {
+    super(message)
+    this.name = "GenomicRegionError"
+  }
+}
+
+export interface GenomicRegion {
+  /** Without the chr prefix, as the variant viewer writes chromosomes */
+  chromosome: string
+  start: number
+  end: number
+}
+
+/** GRCh38 primary assembly chromosome lengths */
+export const GRCH38_CHROMOSOME_LENGTHS: Record<string, number> = {
+  "1": 248956422,
+  "2": 242193529,
+  "3": 198295559,
+  "4": 190214555,
+  "5": 181538259,
+  "6": 170805979,
+  "7": 159345973,
+  "8": 145138636,
+  "9": 138394717,
+  "10": 133797422,
+  "11": 135086622,
+  "12": 133275309,
+  "13": 114364328,
+  "14": 107043718,
+  "15": 101991189,
+  "16": 90338345,
+  "17": 83257441,
+  "18": 80373285,
+  "19": 58617616,
+  "20": 64444167,
+  "21": 46709983,
+  "22": 50818468,
+  X: 156040895,
+  Y: 57227415,
+  MT: 16569,
+}
+
+/** Narrowest view, in bases */
+export const MIN_REGION_WIDTH = 40
+
+/** Width of the view around a single position query */
+const POSITION_WINDOW = 100
+
+const coordinate = (text: string) => Number(text.replace(/[,_\s]/g, ""))
+
+export const regionWidth = (region: GenomicRegion) => region.end - region.start + 1
+
+/**
+ * A region of at least the minimum width inside the chromosome; chromosomes of unknown length are only bounded at 1
+ */
+export function clampRegion(
+  region: GenomicRegion,
+  length: number | undefined = GRCH38_CHROMOSOME_LENGTHS[region.chromosome],
+): GenomicRegion {
+  const limit = length ?? Infinity
+  const width = Math.min(Math.max(regionWidth(region), MIN_REGION_WIDTH), limit)
+  const start = Math.round(Math.min(Math.max(region.start, 1), limit - width + 1))
+
+  return { chromosome: region.chromosome, start, end: start + Math.round(width) - 1 }
+}
+
+/**
+ * Read a locus query: chr17:43,044,295-43,125,483, 17:43044295 for a window around one position, or chr17 for the
+ * whole chromosome
+ */
+export function parseRegion(query: string, lengths: Record<string, number> = GRCH38_CHROMOSOME_LENGTHS): GenomicRegion {
+  const match = query.trim().match(/^([^:\s]+)(?:\s*:\s*([\d,_\s]+?)(?:\s*[-–]\s*([\d,_\s]+))?)?$/)
+  if (!match) throw new GenomicRegionError(`"${query}" is not a region such as chr17:43,044,295-43,125,483`)
+
+  const chromosome = viewerChromosome(match[1])
+  const length = lengths[chromosome]
+
+  if (match[2] === undefined) {
+    if (!length) throw new GenomicRegionError(`The length of chromosome ${match[1]} is not known; give a range`)
+    return { chromosome, start: 1, end: length }
+  }
+
+  const start = coordinate(match[2])
+  const end = match[3] === undefined ? null : coordinate(match[3])
+  if (!Number.isInteger(start) || start < 1 || (end !== null && !Number.isInteger(end))) {
+    throw new GenomicRegionError(`"${query}" has invalid coordinates`)
+  }
+  if (end !== null && end < start) throw new GenomicRegionError(`"${query}" ends before it starts`)
+  if (length && start > length) {
+    throw new GenomicRegionError(`Chromosome ${match[1]} is only ${length.toLocaleString("en-US")} bases long`)
+  }
+
+  const region =
+    end === null
+      ? { chromosome, start: start - POSITION_WINDOW / 2, end: start + POSITION_WINDOW / 2 - 1 }
+      : { chromosome, start, end: Math.min(end, length ?? end) }
+  return clampRegion(region, length)
+}
+
+/** chr17:43,044,295-43,125,483 */
+export const formatRegion = (region: GenomicRegion) =>
+  `chr${region.chromosome}:${region.start.toLocaleString("en-US")}-${region.end.toLocaleString("en-US")}`
+
+/**
+ * Zoom by a factor around a position, by default the centre; factors below 1 zoom in
+ */
+export function zoomRegion(
+  region: GenomicRegion,
+  factor: number,
+  anchor = (region.start + region.end) / 2,
+  length?: number,
+): GenomicRegion {
+  const width = regionWidth(region) * factor
+  const before = (anchor - region.start) / regionWidth(region)
+
+  return clampRegion(
+    { chromosome: region.chromosome, start: anchor - width * before, end: anchor - width * before + width - 1 },
+    length,
+  )
+}
+
+/**
+ * Move by a fraction of the view width; negative fractions move towards the start of the chromosome
+ */
+export function panRegion(region: GenomicRegion, fraction: number, length?: number): GenomicRegion {
+  const shift = Math.round(regionWidth(region) * fraction)
+
+  return clampRegion(
+    { chromosome: region.chromosome, start: region.start + shift, end: region.end + shift },
+    length,
+  )
+}
+
+/** Whether one region lies inside another */
+export const containsRegion = (outer: GenomicRegion, inner: GenomicRegion) =>
+  outer.chromosome === inner.chromosome && inner.start >= outer.start && inner.end <= outer.end
@@ -0,0 +1,213 @@
+/**
+ * Genome browser tracks
+ * Serves what the locus browser draws for a region: the chromosome's cytobands for the ideogram, the genes and
+ * transcripts of the Ensembl snapshot the enrichment service loaded, and the protein domains of those genes. Cytobands
+ * and domains are local files in the knowledge snapshot directory, like the other annotation sources.
+ */
+
+import {
+  getGenomicEnrichmentService,
+  type GenomicEnrichmentService,
+} from "@/lib/agent/services/genomic-enrichment/service"
+import {
+  GRCH38_CHROMOSOME_LENGTHS,
+  GenomicRegionError,
+  clampRegion,
+  parseRegion,
+  regionWidth,
+  type GenomicRegion,
+} from "@/lib/genomics/browser/region"
+import {
+  MAX_TRACK_GENES,
+  TRANSCRIPT_TRACK_WIDTH,
+  type CytoBand,
+  type GenomeTracks,
+  type ProteinDomain,
+} from "@/lib/genomics/browser/types"
+import { readSnapshot, snapshotDirectory, SnapshotCache, type SnapshotFile } from "@/lib/genomics/knowledge/snapshot"
+import { readVcfLines } from "@/lib/genomics/vcf-parser"
+import { viewerChromosome } from "@/lib/genomics/vcf-variants"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+export const CYTOBAND_SNAPSHOT_FILES = ["cytoBand.txt.gz", "cytoBand.txt"]
+export const PROTEIN_DOMAIN_SNAPSHOT_FILES = ["protein-domains.tsv.gz", "protein-domains.tsv"]
+
+/** Header names accepted for each protein domain column */
+const DOMAIN_COLUMNS: Record<keyof ProteinDomain, string[]> = {
+  gene: ["gene", "gene_name", "symbol"],
+  transcript_id: ["transcript_id", "transcript"],
+  name: ["name", "domain", "description"],
+  start: ["start", "aa_start"],
+  end: ["end", "aa_end"],
+  source: ["source", "database"],
+}
+
+/** Context shown on each side of a gene located by name, as a fraction of its length */
+const GENE_PADDING = 0.1
+
+const lines = async (file: SnapshotFile) => {
+  const content: string[] = []
+  // The VCF line reader handles any gzip-compressed text
+  for await (const line of readVcfLines(readSnapshot(file).chunks)) content.push(line)
+  return content
+}
+
+/**
+ * Read a UCSC cytoBand file: chromosome, 0-based start, end, band name and stain
+ */
+export function parseCytoBands(content: string[]): Map<string, CytoBand[]> {
+  const bands = new Map<string, CytoBand[]>()
+
+  content.forEach((line, index) => {
+    if (!line.trim() || line.startsWith("#")) return
+
+    const [chromosome, start, end, name = "", stain = "gneg"] = line.split("\t")
+    if (!/^\d+$/.test(start) || !/^\d+$/.test(end) || Number(end) <= Number(start)) {
+      throw new Error(`Line ${index + 1}: invalid band coordinates ${start}-${end}`)
+    }
+
+    const key = viewerChromosome(chromosome)
+    bands.set(key, [...(bands.get(key) || []), { name, start: Number(start) + 1, end: Number(end), stain }])
+  })
+
+  for (const chromosome of bands.values()) chromosome.sort((a, b) => a.start - b.start)
+  return bands
+}
+
+/**
+ * Read a tab-separated protein domain table with a header row, keyed by upper-case gene name
+ */
+export function parseProteinDomains(content: string[]): Map<string, ProteinDomain[]> {
+  const rows = content.map((line, index) => ({ line, number: index + 1 })).filter(({ line }) => line.trim())
+  const header = rows.shift()?.line.replace(/^#/, "").split("\t").map((name) => name.trim().toLowerCase())
+  if (!header) return new Map()
+
+  const column = Object.fromEntries(
+    Object.entries(DOMAIN_COLUMNS).map(([field, names]) => [field, header.findIndex((name) => names.includes(name))]),
+  ) as Record<keyof ProteinDomain, number>
+  const missing = (["gene", "name", "start", "end"] as const).filter((field) => column[field] === -1)
+  if (missing.length > 0) throw new Error(`Line 1: the header has no ${missing.join(", ")} column`)
+
+  const domains = new Map<string, ProteinDomain[]>()
+  for (const { line, number } of rows) {
+    const values = line.split("\t").map((value) => value.trim())
+    const value = (field: keyof ProteinDomain) => (column[field] === -1 ? "" : values[column[field]] || "")
+
+    const [start, end] = [Number(value("start")), Number(value("end"))]
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < 1 || end < start) {
+      throw new Error(`Line ${number}: invalid domain coordinates ${value("start")}-${value("end")}`)
+    }
+    if (!value("gene") || !value("name")) throw new Error(`Line ${number}: a domain needs a gene and a name`)
+
+    const key = value("gene").toUpperCase()
+    domains.set(key, [
+      ...(domains.get(key) || []),
+      {
+        gene: value("gene"),
+        transcript_id: value("transcript_id") || null,
+        name: value("name"),
+        start,
+        end,
+        source: value("source") || null,
+      },
+    ])
+  }
+
+  for (const gene of domains.values()) gene.sort((a, b) => a.start - b.start)
+  return domains
+}
+
+export class GenomeBrowserService {
+  private readonly cytoBands: SnapshotCache<Map<string, CytoBand[]>>
+  private readonly domains: SnapshotCache<Map<string, ProteinDomain[]>>
+
+  constructor(
+    private readonly enrichment: GenomicEnrichmentService,
+    directory: () => string = snapshotDirectory,
+  ) {
+    this.cytoBands = new SnapshotCache(directory, CYTOBAND_SNAPSHOT_FILES, async (file) =>
+      parseCytoBands(await lines(file)),
+    )
+    this.domains = new SnapshotCache(directory, PROTEIN_DOMAIN_SNAPSHOT_FILES, async (file) =>
+      parseProteinDomains(await lines(file)),
+    )
+  }
+
+  /**
+   * Tracks for a locus query such as chr17:43,044,295-43,125,483
+   */
+  async tracks(query: string): Promise<GenomeTracks> {
+    const [bands, domains, models] = await Promise.all([
+      this.optional("cytoband", () => this.cytoBands.get()),
+      this.optional("protein domain", () => this.domains.get()),
+      this.optional("gene", () => this.enrichment.geneModels()),
+    ])
+
+    const lengths = { ...GRCH38_CHROMOSOME_LENGTHS }
+    for (const [chromosome, chromosomeBands] of bands || []) {
+      lengths[chromosome] = Math.max(...chromosomeBands.map((band) => band.end))
+    }
+
+    const region = parseRegion(query, lengths)
+    const detailed = regionWidth(region) <= TRANSCRIPT_TRACK_WIDTH
+    const genes = models?.genesIn(region.chromosome, region.start, region.end) || []
+
+    return {
+      region,
+      chromosome: {
+        name: region.chromosome,
+        length: lengths[region.chromosome] ?? null,
+        bands: bands?.get(region.chromosome) || [],
+      },
+      genes: genes.slice(0, MAX_TRACK_GENES).map(({ gene, transcripts }) => ({
+        gene,
+        transcripts: detailed ? transcripts : [],
+        domains: domains?.get(gene.name.toUpperCase()) || [],
+      })),
+      detailed,
+      truncated: genes.length > MAX_TRACK_GENES,
+      assembly: models?.model.assembly ?? null,
+      sources: { genes: models !== null, cytobands: bands !== null, domains: domains !== null },
+    }
+  }
+
+  /**
+   * The region of a gene by name or Ensembl ID, with some context on each side
+   */
+  async locate(name: string): Promise<GenomicRegion> {
+    const models = await this.enrichment.geneModels()
+    if (!models) throw new GenomicRegionError("No gene annotation is installed to look genes up in", 503)
+
+    const gene = models.findGene(name)
+    if (!gene) throw new GenomicRegionError(`No gene ${name} in the gene annotation`, 404)
+
+    const padding = Math.round((gene.end - gene.start + 1) * GENE_PADDING)
+    return clampRegion({ chromosome: gene.chromosome, start: gene.start - padding, end: gene.end + padding })
+  }
+
+  /** A track file that cannot be read leaves its track empty instead of failing the browser */
+  private async optional<T>(track: string, load: () => Promise<T | null>): Promise<T | null> {
+    try {
+      return await load()
+    } catch (error) {
+      logger.warn("Genome browser track could not be loaded", {
+        track,
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+      return null
+    }
+  }
+}
+
+const globalForBrowser = globalThis as unknown as { genomeBrowserService?: GenomeBrowserService }
+
+/**
+ * Shared genome browser service; gene models come from the shared enrichment service
+ */
+export function getGenomeBrowserService(): GenomeBrowserService {
+  if (!globalForBrowser.genomeBrowserService) {
+    globalForBrowser.genomeBrowserService = new GenomeBrowserService(getGenomicEnrichmentService())
+  }
+
+  return globalForBrowser.genomeBrowserService
+}
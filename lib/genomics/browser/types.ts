@@ -0,0 +1,59 @@
+/**
+ * Genome browser types shared by the track service, the API route and the browser component
+ */
+
+import type { GenomicRegion } from "@/lib/genomics/browser/region"
+import type { GeneFeature, TranscriptModel } from "@/lib/genomics/gene-model"
+
+/** Regions wider than this show gene spans without their transcripts */
+export const TRANSCRIPT_TRACK_WIDTH = 5_000_000
+
+/** Genes returned for one region */
+export const MAX_TRACK_GENES = 2000
+
+/** A chromosome band as UCSC cytoBand files describe it, converted to 1-based inclusive coordinates */
+export interface CytoBand {
+  /** e.g. q21.31 */
+  name: string
+  start: number
+  end: number
+  /** Giemsa stain: gneg, gpos25 to gpos100, acen for the centromere, gvar or stalk */
+  stain: string
+}
+
+/** A protein domain in amino acid coordinates */
+export interface ProteinDomain {
+  gene: string
+  /** Transcript the coordinates refer to; null for the gene's canonical transcript */
+  transcript_id: string | null
+  name: string
+  start: number
+  end: number
+  /** e.g. Pfam, InterPro */
+  source: string | null
+}
+
+export interface GeneTrack {
+  gene: GeneFeature
+  /** Left out for regions wider than TRANSCRIPT_TRACK_WIDTH */
+  transcripts: TranscriptModel[]
+  domains: ProteinDomain[]
+}
+
+export interface GenomeTracks {
+  region: GenomicRegion
+  chromosome: {
+    name: string
+    /** From the cytoband file or the GRCh38 lengths; null when neither knows the chromosome */
+    length: number | null
+    bands: CytoBand[]
+  }
+  genes: GeneTrack[]
+  /** Whether the genes include their transcripts */
+  detailed: boolean
+  /** More than MAX_TRACK_GENES genes overlap the region */
+  truncated: boolean
+  assembly: string | null
+  /** Which annotation files are installed */
+  sources: { genes: boolean; cytobands: boolean; domains: boolean }
+}
@@ -0,0 +1,140 @@
+/**
+ * Persistence for ACMG/AMP variant classifications
+ * Each variant's automatic criteria, curator overrides and resulting classification are stored in Supabase when a
+ * service role key is configured, otherwise kept in memory. Overrides and classification versions are only ever
+ * appended.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { AcmgClassification, AcmgCriterion, CriterionEvaluation, CriterionOverride } from "@/lib/genomics/acmg"
+import type { KnowledgeSource } from "@/lib/genomics/knowledge/types"
+import type { GenomicVariant, VariantSignificance } from "@/lib/genomics/types"
+
+export type SnapshotVersions = Partial<Record<KnowledgeSource, string | null>>
+
+export interface VariantClassificationRecord {
+  /** Variant key, e.g. 17-43094464-T-TA */
+  id: string
+  /** The variant as last enriched, with its annotations */
+  variant: GenomicVariant
+  /** Criteria evaluated from the knowledge sources */
+  evaluations: CriterionEvaluation[]
+  /** Every curator override, oldest first */
+  overrides: CriterionOverride[]
+  classification: AcmgClassification
+  /** Release of each knowledge source snapshot the evaluations came from */
+  snapshots: SnapshotVersions
+  /** Number of the latest classification version */
+  version: number
+  created_at: string
+  updated_at: string
+}
+
+export type ClassificationVersionCause = "snapshot" | "override"
+
+/** A variant's classification under one set of knowledge source snapshots, or after a curator's override */
+export interface ClassificationVersion {
+  /** variant id#version */
+  id: string
+  variant_id: string
+  version: number
+  tier: VariantSignificance
+  rule: string
+  met: AcmgCriterion[]
+  snapshots: SnapshotVersions
+  cause: ClassificationVersionCause
+  /** Curator of an override */
+  changed_by: string | null
+  created_at: string
+}
+
+export interface VariantClassificationStore {
+  get(id: string): Promise<VariantClassificationRecord | null>
+  getMany(ids: string[]): Promise<VariantClassificationRecord[]>
+  save(records: VariantClassificationRecord[]): Promise<void>
+  appendVersions(versions: ClassificationVersion[]): Promise<void>
+  /** Oldest first */
+  listVersions(variantId: string): Promise<ClassificationVersion[]>
+}
+
+export class InMemoryVariantClassificationStore implements VariantClassificationStore {
+  private records = new Map<string, VariantClassificationRecord>()
+  private versions: ClassificationVersion[] = []
+
+  async get(id: string): Promise<VariantClassificationRecord | null> {
+    const record = this.records.get(id)
+    return record ? structuredClone(record) : null
+  }
+
+  async getMany(ids: string[]): Promise<VariantClassificationRecord[]> {
+    return ids.flatMap((id) => {
+      const record = this.records.get(id)
+      return record ? [structuredClone(record)] : []
+    })
+  }
+
+  async save(records: VariantClassificationRecord[]): Promise<void> {
+    records.forEach((record) => this.records.set(record.id, structuredClone(record)))
+  }
+
+  async appendVersions(versions: ClassificationVersion[]): Promise<void> {
+    this.versions.push(...versions.map((version) => structuredClone(version)))
+  }
+
+  async listVersions(variantId: string): Promise<ClassificationVersion[]> {
+    return this.versions
+      .filter((version) => version.variant_id === variantId)
+      .sort((a, b) => a.version - b.version)
+      .map((version) => structuredClone(version))
+  }
+}
+
+/**
+ * Classifications in the Supabase variant_classifications and variant_classification_versions tables
+ */
+export class SupabaseVariantClassificationStore implements VariantClassificationStore {
+  private readonly classificationTable = "variant_classifications"
+  private readonly versionTable = "variant_classification_versions"
+
+  constructor(private readonly supabase: SupabaseClient) {}
+
+  async get(id: string): Promise<VariantClassificationRecord | null> {
+    const { data, error } = await this.supabase.from(this.classificationTable).select("*").eq("id", id).maybeSingle()
+
+    if (error) throw new Error(`Failed to load variant classification: ${error.message}`)
+    return data
+  }
+
+  async getMany(ids: string[]): Promise<VariantClassificationRecord[]> {
+    if (ids.length === 0) return []
+    const { data, error } = await this.supabase.from(this.classificationTable).select("*").in("id", ids)
+
+    if (error) throw new Error(`Failed to load variant classifications: ${error.message}`)
+    return data || []
+  }
+
+  async save(records: VariantClassificationRecord[]): Promise<void> {
+    if (records.length === 0) return
+    const { error } = await this.supabase.from(this.classificationTable).upsert(records, { onConflict: "id" })
+
+    if (error) throw new Error(`Failed to store variant classifications: ${error.message}`)
+  }
+
+  async appendVersions(versions: ClassificationVersion[]): Promise<void> {
+    if (versions.length === 0) return
+    const { error } = await this.supabase.from(this.versionTable).insert(versions)
+
+    if (error) throw new Error(`Failed to record variant classification versions: ${error.message}`)
+  }
+
+  async listVersions(variantId: string): Promise<ClassificationVersion[]> {
+    const { data, error } = await this.supabase
+      .from(this.versionTable)
+      .select("*")
+      .eq("variant_id", variantId)
+      .order("version", { ascending: true })
+
+    if (error) throw new Error(`Failed to load variant classification versions: ${error.message}`)
+    return data || []
+  }
+}
@@ -0,0 +1,813 @@
+/**
+ * Gene models and the effect of a variant on a transcript
+ * Genes, transcripts, exons and CDS are read from GFF3 as Ensembl publishes it. Consequences use Sequence Ontology
+ * terms ranked as VEP ranks them, and HGVS c. positions follow the transcript's exons. Protein changes, 3' shifting of
+ * indels and dup calls need the genome sequence, which a GFF3 can carry in its ##FASTA section; without it coding
+ * substitutions are reported as coding_sequence_variant and indels keep their left-aligned genomic position.
+ */
+
+import { createFastaReference, isSequenceAllele, type ReferenceLookup } from "@/lib/genomics/vcf-normalize"
+import { viewerChromosome } from "@/lib/genomics/vcf-variants"
+import type { VariantImpact } from "@/lib/genomics/knowledge/types"
+
+export type Strand = "+" | "-"
+
+export interface GeneFeature {
+  id: string
+  name: string
+  chromosome: string
+  start: number
+  end: number
+  strand: Strand
+  biotype: string | null
+}
+
+export interface TranscriptModel {
+  /** Versioned where the GFF3 gives a version, e.g. ENST00000357654.9 */
+  id: string
+  gene_id: string
+  gene: string
+  chromosome: string
+  start: number
+  end: number
+  strand: Strand
+  biotype: string | null
+  /** Ensembl canonical or MANE Select */
+  canonical: boolean
+  /** Exons in genomic order, 1-based and inclusive */
+  exons: Array<{ start: number; end: number }>
+  /** Genomic extent of the coding sequence; null for non-coding transcripts */
+  cds: { start: number; end: number } | null
+}
+
+export interface GeneModel {
+  genes: GeneFeature[]
+  transcripts: TranscriptModel[]
+  assembly: string | null
+  /** Gene build date, from #!genebuild-last-updated */
+  version: string | null
+  /** Genome sequence from the ##FASTA section, when present */
+  reference: ReferenceLookup | null
+}
+
+export interface TranscriptEffect {
+  transcript: TranscriptModel
+  consequences: string[]
+  impact: VariantImpact
+  hgvs_c: string | null
+  hgvs_p: string | null
+  exon: string | null
+  intron: string | null
+  amino_acids: [string, string] | null
+  protein_position: number | null
+}
+
+/** Sequence Ontology consequences, most severe first, as VEP ranks them */
+export const CONSEQUENCE_RANK = [
+  "transcript_ablation",
+  "splice_acceptor_variant",
+  "splice_donor_variant",
+  "stop_gained",
+  "frameshift_variant",
+  "stop_lost",
+  "start_lost",
+  "inframe_insertion",
+  "inframe_deletion",
+  "missense_variant",
+  "protein_altering_variant",
+  "splice_region_variant",
+  "synonymous_variant",
+  "coding_sequence_variant",
+  "5_prime_UTR_variant",
+  "3_prime_UTR_variant",
+  "non_coding_transcript_exon_variant",
+  "intron_variant",
+  "upstream_gene_variant",
+  "downstream_gene_variant",
+]
+
+const IMPACT: Record<string, VariantImpact> = {
+  transcript_ablation: "HIGH",
+  splice_acceptor_variant: "HIGH",
+  splice_donor_variant: "HIGH",
+  stop_gained: "HIGH",
+  frameshift_variant: "HIGH",
+  stop_lost: "HIGH",
+  start_lost: "HIGH",
+  inframe_insertion: "MODERATE",
+  inframe_deletion: "MODERATE",
+  missense_variant: "MODERATE",
+  protein_altering_variant: "MODERATE",
+  splice_region_variant: "LOW",
+  synonymous_variant: "LOW",
+}
+
+/** Upstream and downstream consequences reach this far from the transcript, as in VEP */
+const FLANK = 5000
+
+const GENE_TYPES = new Set(["gene", "ncRNA_gene", "pseudogene"])
+
+/** Standard genetic code, codons ordered TCAG */
+const CODE = "FFLLSSSSYY**CC*WLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG"
+const BASE_INDEX: Record<string, number> = { T: 0, C: 1, A: 2, G: 3 }
+
+const THREE_LETTER: Record<string, string> = {
+  A: "Ala",
+  R: "Arg",
+  N: "Asn",
+  D: "Asp",
+  C: "Cys",
+  Q: "Gln",
+  E: "Glu",
+  G: "Gly",
+  H: "His",
+  I: "Ile",
+  L: "Leu",
+  K: "Lys",
+  M: "Met",
+  F: "Phe",
+  P: "Pro",
+  S: "Ser",
+  T: "Thr",
+  W: "Trp",
+  Y: "Tyr",
+  V: "Val",
+  "*": "Ter",
+}
+
+const COMPLEMENT: Record<string, string> = { A: "T", C: "G", G: "C", T: "A", N: "N" }
+
+export const reverseComplement = (sequence: string) =>
+  [...sequence]
+    .reverse()
+    .map((base) => COMPLEMENT[base] || "N")
+    .join("")
+
+const translate = (codon: string) =>
+  codon.length === 3 && [...codon].every((base) => base in BASE_INDEX)
+    ? CODE[BASE_INDEX[codon[0]] * 16 + BASE_INDEX[codon[1]] * 4 + BASE_INDEX[codon[2]]]
+    : "X"
+
+const rank = (consequence: string) => {
+  const index = CONSEQUENCE_RANK.indexOf(consequence)
+  return index === -1 ? CONSEQUENCE_RANK.length : index
+}
+
+function parseAttributes(column: string): Record<string, string> {
+  const attributes: Record<string, string> = {}
+  for (const pair of column.split(";")) {
+    const separator = pair.indexOf("=")
+    if (separator > 0) attributes[pair.slice(0, separator).trim()] = decodeURIComponent(pair.slice(separator + 1))
+  }
+  return attributes
+}
+
+const stripPrefix = (id: string) => id.replace(/^(gene|transcript|CDS|exon):/, "")
+
+interface GffRecord {
+  chromosome: string
+  type: string
+  start: number
+  end: number
+  strand: Strand
+  attributes: Record<string, string>
+}
+
+/**
+ * Read a GFF3 gene annotation; a malformed feature line fails the whole file
+ */
+export async function parseGff3(lines: AsyncIterable<string> | Iterable<string>): Promise<GeneModel> {
+  const genes = new Map<string, GeneFeature>()
+  const transcripts = new Map<string, TranscriptModel>()
+  const codingParts = new Map<TranscriptModel, Array<{ start: number; end: number }>>()
+  const fasta: string[] = []
+  let assembly: string | null = null
+  let version: string | null = null
+
+  // Ensembl lists parents before their children; features whose parent comes later wait for the end of the file
+  let waiting: GffRecord[] = []
+
+  const place = (record: GffRecord): boolean => {
+    const { type, attributes } = record
+
+    if (GENE_TYPES.has(type)) {
+      const id = attributes.gene_id || stripPrefix(attributes.ID)
+      genes.set(attributes.ID, {
+        id,
+        name: attributes.Name || id,
+        chromosome: record.chromosome,
+        start: record.start,
+        end: record.end,
+        strand: record.strand,
+        biotype: attributes.biotype || null,
+      })
+      return true
+    }
+
+    if (type === "exon" || type === "CDS") {
+      const parents = attributes.Parent.split(",").map((parent) => transcripts.get(parent))
+      if (parents.some((transcript) => !transcript)) return false
+
+      for (const transcript of parents as TranscriptModel[]) {
+        if (type === "exon") {
+          transcript.exons.push({ start: record.start, end: record.end })
+        } else {
+          const parts = codingParts.get(transcript) || []
+          codingParts.set(transcript, [...parts, { start: record.start, end: record.end }])
+          transcript.cds = {
+            start: Math.min(transcript.cds?.start ?? Infinity, record.start),
+            end: Math.max(transcript.cds?.end ?? 0, record.end),
+          }
+        }
+      }
+      return true
+    }
+
+    const gene = genes.get(attributes.Parent)
+    if (!gene) return false
+
+    const { transcript_id: transcriptId, version: transcriptVersion, tag = "" } = attributes
+    const id = transcriptId ? transcriptId + (transcriptVersion ? `.${transcriptVersion}` : "") : attributes.ID
+    transcripts.set(attributes.ID, {
+      id: stripPrefix(id),
+      gene_id: gene.id,
+      gene: gene.name,
+      chromosome: record.chromosome,
+      start: record.start,
+      end: record.end,
+      strand: record.strand,
+      biotype: attributes.biotype || null,
+      canonical: /Ensembl_canonical|MANE[_ ]Select/.test(tag),
+      exons: [],
+      cds: null,
+    })
+    return true
+  }
+
+  let inFasta = false
+  let lineNumber = 0
+
+  for await (const line of lines) {
+    lineNumber++
+    if (inFasta) {
+      fasta.push(line)
+      continue
+    }
+    if (!line.trim()) continue
+    if (line.startsWith("##FASTA")) {
+      inFasta = true
+      continue
+    }
+    if (line.startsWith("#")) {
+      const [key, ...value] = line.replace(/^#+!?/, "").trim().split(/\s+/)
+      if (key === "genome-version" || key === "genome-build") assembly ||= value[0] || null
+      if (key === "genebuild-last-updated") version = value[0] || null
+      continue
+    }
+
+    const columns = line.split("\t")
+    if (columns.length !== 9) throw new Error(`Line ${lineNumber}: expected 9 tab-separated columns`)
+
+    const [seqid, , type, start, end, , strand, , column] = columns
+    if (!/^\d+$/.test(start) || !/^\d+$/.test(end) || Number(end) < Number(start)) {
+      throw new Error(`Line ${lineNumber}: invalid feature coordinates ${start}-${end}`)
+    }
+
+    // Only genes, their transcripts and the transcripts' exons and CDS matter; UTRs follow from the CDS
+    const attributes = parseAttributes(column)
+    const part = type === "exon" || type === "CDS"
+    const wanted = GENE_TYPES.has(type) ? attributes.ID : part ? attributes.Parent : attributes.ID && attributes.Parent
+    if (!wanted) continue
+
+    const record: GffRecord = {
+      chromosome: viewerChromosome(seqid),
+      type,
+      start: Number(start),
+      end: Number(end),
+      strand: strand === "-" ? "-" : "+",
+      attributes,
+    }
+    if (!place(record)) waiting.push(record)
+  }
+
+  for (let placed = true; placed && waiting.length > 0; ) {
+    const before = waiting.length
+    waiting = waiting.filter((record) => !place(record))
+    placed = waiting.length < before
+  }
+
+  for (const transcript of transcripts.values()) {
+    // Files that list only CDS parts, or no parts at all, still need exons to place variants on
+    if (transcript.exons.length === 0) {
+      transcript.exons = codingParts.get(transcript) || [{ start: transcript.start, end: transcript.end }]
+    }
+    transcript.exons.sort((a, b) => a.start - b.start)
+  }
+
+  return {
+    genes: [...genes.values()],
+    transcripts: [...transcripts.values()],
+    assembly,
+    version,
+    reference: fasta.length ? createFastaReference(fasta.join("\n")) : null,
+  }
+}
+
+/** A variant as the bases it removes and the bases it adds, without the VCF padding base */
+interface Edit {
+  /** First deleted base, or the base the insertion goes in front of */
+  start: number
+  /** Last deleted base; start - 1 for insertions */
+  end: number
+  deleted: string
+  inserted: string
+}
+
+function toEdit(position: number, reference: string, alternate: string): Edit {
+  const padded = reference[0] === alternate[0] && reference.length !== alternate.length
+  const [deleted, inserted] = padded ? [reference.slice(1), alternate.slice(1)] : [reference, alternate]
+  const start = padded ? position + 1 : position
+  return { start, end: start + deleted.length - 1, deleted, inserted }
+}
+
+/**
+ * Move an indel to its most 3' position on the transcript, as HGVS requires; VCF indels are left-aligned on the genome
+ */
+function shiftThreePrime(edit: Edit, strand: Strand, reference: ReferenceLookup, chromosome: string): Edit {
+  if (edit.deleted && edit.inserted) return edit
+
+  let { start, end } = edit
+  let sequence = edit.deleted || edit.inserted
+  const base = (position: number) => reference(chromosome, position, position)?.toUpperCase()
+
+  for (let step = 0; step < 10000; step++) {
+    if (strand === "+") {
+      const next = edit.deleted ? base(end + 1) : base(start)
+      if (!next || next !== sequence[0]) break
+      sequence = sequence.slice(1) + next
+    } else {
+      const previous = base(start - 1)
+      if (!previous || previous !== sequence[sequence.length - 1]) break
+      sequence = previous + sequence.slice(0, -1)
+    }
+    const offset = strand === "+" ? 1 : -1
+    start += offset
+    end += offset
+  }
+
+  return edit.deleted ? { ...edit, start, end, deleted: sequence } : { ...edit, start, end, inserted: sequence }
+}
+
+/**
+ * Coordinates of one transcript: genomic positions to cDNA and HGVS c. positions
+ */
+class TranscriptCoordinates {
+  /** Exons in transcript order */
+  private readonly exons: Array<{ start: number; end: number; offset: number }>
+  private readonly codingStart: number | null = null
+  private readonly codingEnd: number | null = null
+
+  constructor(private readonly transcript: TranscriptModel) {
+    const ordered = transcript.strand === "+" ? transcript.exons : [...transcript.exons].reverse()
+    let offset = 0
+    this.exons = ordered.map((exon) => {
+      const entry = { ...exon, offset }
+      offset += exon.end - exon.start + 1
+      return entry
+    })
+
+    if (transcript.cds) {
+      const { start, end } = transcript.cds
+      const [first, last] = transcript.strand === "+" ? [start, end] : [end, start]
+      this.codingStart = this.cdna(first)
+      this.codingEnd = this.cdna(last)
+    }
+  }
+
+  /** 1-based position in the spliced transcript, or null for intronic and outside positions */
+  cdna(position: number): number | null {
+    const exon = this.exons.find((entry) => position >= entry.start && position <= entry.end)
+    if (!exon) return null
+    return exon.offset + (this.transcript.strand === "+" ? position - exon.start : exon.end - position) + 1
+  }
+
+  /** Transcript-order number of the exon holding a position */
+  exonNumber(position: number): number | null {
+    const index = this.exons.findIndex((entry) => position >= entry.start && position <= entry.end)
+    return index === -1 ? null : index + 1
+  }
+
+  /** Transcript-order number of the intron holding a position */
+  intronNumber(position: number): number | null {
+    for (let index = 0; index < this.exons.length - 1; index++) {
+      const [a, b] = [this.exons[index], this.exons[index + 1]]
+      const [low, high] = this.transcript.strand === "+" ? [a.end, b.start] : [b.end, a.start]
+      if (position > low && position < high) return index + 1
+    }
+    return null
+  }
+
+  get exonCount() {
+    return this.exons.length
+  }
+
+  /** c. (or n.) position of a cDNA position: 123, -45 before the start codon, *12 after the stop codon */
+  private format(cdna: number): string {
+    if (this.codingStart === null || this.codingEnd === null) return String(cdna)
+    if (cdna < this.codingStart) return `-${this.codingStart - cdna}`
+    if (cdna > this.codingEnd) return `*${cdna - this.codingEnd}`
+    return String(cdna - this.codingStart + 1)
+  }
+
+  /** HGVS position of a genomic position inside the transcript, with +/- offsets for intronic positions */
+  position(position: number): string | null {
+    const cdna = this.cdna(position)
+    if (cdna !== null) return this.format(cdna)
+
+    for (let index = 0; index < this.exons.length - 1; index++) {
+      const [upstream, downstream] = [this.exons[index], this.exons[index + 1]]
+      const [last, first] =
+        this.transcript.strand === "+" ? [upstream.end, downstream.start] : [upstream.start, downstream.end]
+      if (position <= Math.min(last, first) || position >= Math.max(last, first)) continue
+
+      const [fromLast, toFirst] = [Math.abs(position - last), Math.abs(first - position)]
+      return fromLast <= toFirst
+        ? `${this.format(this.cdna(last)!)}+${fromLast}`
+        : `${this.format(this.cdna(first)!)}-${toFirst}`
+    }
+
+    return null
+  }
+
+  /** 1-based coding position of a genomic position in the CDS */
+  coding(position: number): number | null {
+    const cdna = this.cdna(position)
+    if (cdna === null || this.codingStart === null || this.codingEnd === null) return null
+    return cdna >= this.codingStart && cdna <= this.codingEnd ? cdna - this.codingStart + 1 : null
+  }
+}
+
+/**
+ * Codon number of a genomic position in a transcript's protein, or null outside the CDS
+ */
+export function proteinPosition(transcript: TranscriptModel, position: number): number | null {
+  const coding = new TranscriptCoordinates(transcript).coding(position)
+  return coding === null ? null : Math.ceil(coding / 3)
+}
+
+/** Codons in a transcript's CDS, counting the stop codon; null for non-coding transcripts */
+export function proteinLength(transcript: TranscriptModel): number | null {
+  const { cds } = transcript
+  if (!cds) return null
+
+  const bases = transcript.exons.reduce(
+    (total, exon) => total + Math.max(0, Math.min(exon.end, cds.end) - Math.max(exon.start, cds.start) + 1),
+    0,
+  )
+  return Math.floor(bases / 3)
+}
+
+/** Spliced coding sequence of a transcript, in transcript orientation */
+function codingSequence(transcript: TranscriptModel, reference: ReferenceLookup): string | null {
+  if (!transcript.cds) return null
+
+  const parts: string[] = []
+  for (const exon of transcript.exons) {
+    const start = Math.max(exon.start, transcript.cds.start)
+    const end = Math.min(exon.end, transcript.cds.end)
+    if (start > end) continue
+
+    const bases = reference(transcript.chromosome, start, end)
+    if (!bases) return null
+    parts.push(bases.toUpperCase())
+  }
+
+  const sequence = parts.join("")
+  return transcript.strand === "+" ? sequence : reverseComplement(sequence)
+}
+
+interface ProteinChange {
+  consequence: string
+  hgvs: string
+  aminoAcids: [string, string]
+  position: number
+}
+
+/**
+ * Protein effect of a substitution inside the CDS, from the codons before and after the change
+ */
+function proteinChange(cds: string, codingStart: number, alternate: string): ProteinChange | null {
+  const codingEnd = codingStart + alternate.length - 1
+  const firstCodon = Math.floor((codingStart - 1) / 3)
+  const lastCodon = Math.floor((codingEnd - 1) / 3)
+  if ((lastCodon + 1) * 3 > cds.length) return null
+
+  const mutated = cds.slice(0, codingStart - 1) + alternate + cds.slice(codingEnd)
+  const codons = (sequence: string) =>
+    [...Array(lastCodon - firstCodon + 1).keys()].map((i) =>
+      translate(sequence.slice((firstCodon + i) * 3, (firstCodon + i) * 3 + 3)),
+    )
+  const [reference, after] = [codons(cds), codons(mutated)]
+  if (reference.includes("X") || after.includes("X")) return null
+
+  const changed = reference.map((aa, i) => (aa !== after[i] ? i : -1)).filter((i) => i !== -1)
+  const position = firstCodon + 1 + (changed[0] ?? 0)
+  const three = (aa: string) => THREE_LETTER[aa]
+
+  if (changed.length === 0) {
+    return {
+      consequence: "synonymous_variant",
+      hgvs: `p.(${three(reference[0])}${firstCodon + 1}=)`,
+      aminoAcids: [reference.join(""), after.join("")],
+      position: firstCodon + 1,
+    }
+  }
+
+  const [from, to] = [reference[changed[0]], after[changed[0]]]
+  const aminoAcids: [string, string] = [
+    reference.slice(changed[0], changed[changed.length - 1] + 1).join(""),
+    after.slice(changed[0], changed[changed.length - 1] + 1).join(""),
+  ]
+
+  if (position === 1 && from === "M") {
+    return { consequence: "start_lost", hgvs: "p.(Met1?)", aminoAcids, position }
+  }
+  if (from === "*") {
+    return { consequence: "stop_lost", hgvs: `p.(Ter${position}${three(to)}ext*?)`, aminoAcids, position }
+  }
+  if (changed.length > 1) {
+    const last = firstCodon + 1 + changed[changed.length - 1]
+    const inserted = [...aminoAcids[1]].map(three).join("")
+    return {
+      consequence: aminoAcids[1].includes("*") ? "stop_gained" : "missense_variant",
+      hgvs: `p.(${three(from)}${position}_${three(reference[changed[changed.length - 1]])}${last}delins${inserted})`,
+      aminoAcids,
+      position,
+    }
+  }
+  return {
+    consequence: to === "*" ? "stop_gained" : "missense_variant",
+    hgvs: `p.(${three(from)}${position}${three(to)})`,
+    aminoAcids,
+    position,
+  }
+}
+
+/**
+ * Consequences, HGVS and location of a variant on one transcript, or null when it is too far away to matter
+ */
+export function transcriptEffect(
+  transcript: TranscriptModel,
+  position: number,
+  reference: string,
+  alternate: string,
+  genome: ReferenceLookup | null = null,
+): TranscriptEffect | null {
+  if (!isSequenceAllele(reference) || !isSequenceAllele(alternate) || reference === alternate) return null
+
+  let edit = toEdit(position, reference, alternate)
+  const insertion = edit.deleted === ""
+  const { strand, exons, cds } = transcript
+
+  // An insertion sits between end and start, and lies in a region only when both neighbours do
+  const [low, high] = insertion ? [edit.end, edit.start] : [edit.start, edit.end]
+  const within = (from: number, to: number) => (insertion ? low >= from && high <= to : low <= to && high >= from)
+  const touches = (from: number, to: number) => low <= to && high >= from
+
+  if (high < transcript.start - FLANK || low > transcript.end + FLANK) return null
+
+  const effect: TranscriptEffect = {
+    transcript,
+    consequences: [],
+    impact: "MODIFIER",
+    hgvs_c: null,
+    hgvs_p: null,
+    exon: null,
+    intron: null,
+    amino_acids: null,
+    protein_position: null,
+  }
+
+  if (high < transcript.start || low > transcript.end) {
+    const before = high < transcript.start
+    effect.consequences = [before === (strand === "+") ? "upstream_gene_variant" : "downstream_gene_variant"]
+    return effect
+  }
+
+  const consequences = new Set<string>()
+  if (!insertion && low <= transcript.start && high >= transcript.end) consequences.add("transcript_ablation")
+
+  for (let index = 0; index < exons.length - 1; index++) {
+    const intronStart = exons[index].end + 1
+    const intronEnd = exons[index + 1].start - 1
+    if (intronStart > intronEnd) continue
+
+    const [donor, acceptor] =
+      strand === "+"
+        ? [[intronStart, intronStart + 1], [intronEnd - 1, intronEnd]]
+        : [[intronEnd - 1, intronEnd], [intronStart, intronStart + 1]]
+    if (within(donor[0], donor[1])) consequences.add("splice_donor_variant")
+    if (within(acceptor[0], acceptor[1])) consequences.add("splice_acceptor_variant")
+
+    if (
+      touches(intronStart + 2, Math.min(intronStart + 7, intronEnd)) ||
+      touches(Math.max(intronEnd - 7, intronStart), intronEnd - 2) ||
+      touches(exons[index].end - 2, exons[index].end) ||
+      touches(exons[index + 1].start, exons[index + 1].start + 2)
+    ) {
+      consequences.add("splice_region_variant")
+    }
+    if (within(intronStart, intronEnd)) consequences.add("intron_variant")
+  }
+
+  const coordinates = new TranscriptCoordinates(transcript)
+  const exonic = exons.some((exon) => within(exon.start, exon.end))
+
+  if (exonic && !cds) consequences.add("non_coding_transcript_exon_variant")
+
+  if (exonic && cds) {
+    const [before, after] = [low < cds.start, high > cds.end]
+    const [fivePrime, threePrime] = strand === "+" ? [before, after] : [after, before]
+    if (fivePrime) consequences.add("5_prime_UTR_variant")
+    if (threePrime) consequences.add("3_prime_UTR_variant")
+
+    if (within(cds.start, cds.end)) {
+      const contained =
+        low >= cds.start && high <= cds.end && exons.some((exon) => low >= exon.start && high <= exon.end)
+      const firstCodon = strand === "+" ? [cds.start, cds.start + 2] : [cds.end - 2, cds.end]
+      const difference = edit.inserted.length - edit.deleted.length
+
+      if (!contained) {
+        consequences.add("coding_sequence_variant")
+      } else if (difference !== 0) {
+        if (difference % 3 !== 0) consequences.add("frameshift_variant")
+        else consequences.add(difference > 0 ? "inframe_insertion" : "inframe_deletion")
+        if (touches(firstCodon[0], firstCodon[1]) && !insertion) consequences.add("start_lost")
+      } else {
+        const sequence = genome && codingSequence(transcript, genome)
+        const codingStart = coordinates.coding(strand === "+" ? edit.start : edit.end)
+        const change =
+          sequence && codingStart !== null
+            ? proteinChange(
+                sequence,
+                codingStart,
+                strand === "+" ? edit.inserted : reverseComplement(edit.inserted),
+              )
+            : null
+
+        if (change) {
+          consequences.add(change.consequence)
+          effect.hgvs_p = change.hgvs
+          effect.amino_acids = change.aminoAcids
+          effect.protein_position = change.position
+        } else {
+          consequences.add("coding_sequence_variant")
+        }
+      }
+    }
+  }
+
+  if (consequences.size === 0) consequences.add(cds ? "coding_sequence_variant" : "non_coding_transcript_exon_variant")
+
+  effect.consequences = [...consequences].sort((a, b) => rank(a) - rank(b))
+  effect.impact = effect.consequences.map((term) => IMPACT[term]).find(Boolean) || "MODIFIER"
+
+  const exon = coordinates.exonNumber(strand === "+" ? low : high)
+  const intron = coordinates.intronNumber(strand === "+" ? low : high)
+  effect.exon = exon === null ? null : `${exon}/${coordinates.exonCount}`
+  effect.intron = intron === null ? null : `${intron}/${coordinates.exonCount - 1}`
+
+  if (genome && (insertion || edit.inserted === "")) edit = shiftThreePrime(edit, strand, genome, transcript.chromosome)
+  effect.hgvs_c = describe(edit, transcript, coordinates, genome)
+
+  return effect
+}
+
+/**
+ * HGVS c. (or n. for non-coding transcripts) description of an edit
+ */
+function describe(
+  edit: Edit,
+  transcript: TranscriptModel,
+  coordinates: TranscriptCoordinates,
+  genome: ReferenceLookup | null,
+): string | null {
+  const prefix = transcript.cds ? "c." : "n."
+  const plus = transcript.strand === "+"
+  const orient = (sequence: string) => (plus ? sequence : reverseComplement(sequence))
+  const range = (first: number, last: number) => {
+    const [a, b] = plus ? [first, last] : [last, first]
+    const [from, to] = [coordinates.position(a), coordinates.position(b)]
+    if (from === null || to === null) return null
+    return a === b ? from : `${from}_${to}`
+  }
+
+  const { start, end, deleted, inserted } = edit
+
+  if (deleted === "") {
+    // The copy of a duplication sits on the 5' side of the insertion point
+    const [copyStart, copyEnd] = plus ? [start - inserted.length, start - 1] : [start, start + inserted.length - 1]
+    if (genome?.(transcript.chromosome, copyStart, copyEnd)?.toUpperCase() === inserted) {
+      const copy = range(copyStart, copyEnd)
+      return copy && `${prefix}${copy}dup`
+    }
+    const flanks = range(start - 1, start)
+    return flanks && `${prefix}${flanks}ins${orient(inserted)}`
+  }
+
+  const location = range(start, end)
+  if (!location) return null
+  if (inserted === "") return `${prefix}${location}del`
+  if (deleted.length === 1 && inserted.length === 1) return `${prefix}${location}${orient(deleted)}>${orient(inserted)}`
+  return `${prefix}${location}delins${orient(inserted)}`
+}
+
+/**
+ * Transcripts of a gene model indexed by chromosome for variant lookups and gene tracks
+ */
+export class GeneModelIndex {
+  private readonly byChromosome = new Map<string, { transcripts: TranscriptModel[]; longest: number }>()
+
+  constructor(readonly model: GeneModel) {
+    for (const transcript of model.transcripts) {
+      const entry = this.byChromosome.get(transcript.chromosome) || { transcripts: [], longest: 0 }
+      entry.transcripts.push(transcript)
+      entry.longest = Math.max(entry.longest, transcript.end - transcript.start + 1)
+      this.byChromosome.set(transcript.chromosome, entry)
+    }
+    for (const entry of this.byChromosome.values()) entry.transcripts.sort((a, b) => a.start - b.start)
+  }
+
+  /** Transcripts overlapping a region, widened by the upstream and downstream flank */
+  transcriptsNear(chromosome: string, start: number, end: number): TranscriptModel[] {
+    const entry = this.byChromosome.get(viewerChromosome(chromosome))
+    if (!entry) return []
+
+    const from = start - FLANK - entry.longest
+    let low = 0
+    let high = entry.transcripts.length
+    while (low < high) {
+      const middle = (low + high) >> 1
+      if (entry.transcripts[middle].start < from) low = middle + 1
+      else high = middle
+    }
+
+    const near: TranscriptModel[] = []
+    for (let index = low; index < entry.transcripts.length; index++) {
+      const transcript = entry.transcripts[index]
+      if (transcript.start > end + FLANK) break
+      if (transcript.end >= start - FLANK) near.push(transcript)
+    }
+    return near
+  }
+
+  /** Genes overlapping a region, in genomic order, with their transcripts */
+  genesIn(chromosome: string, start: number, end: number) {
+    const name = viewerChromosome(chromosome)
+    const transcripts = new Map<string, TranscriptModel[]>()
+    for (const transcript of this.transcriptsNear(name, start, end)) {
+      transcripts.set(transcript.gene_id, [...(transcripts.get(transcript.gene_id) || []), transcript])
+    }
+
+    return this.model.genes
+      .filter((gene) => gene.chromosome === name && gene.start <= end && gene.end >= start)
+      .sort((a, b) => a.start - b.start)
+      .map((gene) => ({ gene, transcripts: transcripts.get(gene.id) || [] }))
+  }
+
+  /** A gene by name or ID, ignoring case */
+  findGene(name: string): GeneFeature | null {
+    const wanted = name.trim().toUpperCase()
+    return (
+      this.model.genes.find((gene) => gene.name.toUpperCase() === wanted || gene.id.toUpperCase() === wanted) || null
+    )
+  }
+
+  /** The effect on one transcript, or null when the variant is not near it */
+  effectOn(transcriptId: string, chromosome: string, position: number, reference: string, alternate: string) {
+    const transcript = this.transcriptsNear(chromosome, position, position + reference.length - 1).find(
+      (candidate) => candidate.id === transcriptId,
+    )
+    return transcript ? transcriptEffect(transcript, position, reference, alternate, this.model.reference) : null
+  }
+
+  /**
+   * The effect that matters most: the most severe consequence, preferring canonical then coding transcripts on ties
+   */
+  mostSevereEffect(chromosome: string, position: number, reference: string, alternate: string) {
+    const effects = this.transcriptsNear(chromosome, position, position + reference.length - 1)
+      .map((transcript) => transcriptEffect(transcript, position, reference, alternate, this.model.reference))
+      .filter((effect): effect is TranscriptEffect => effect !== null)
+
+    const score = (effect: TranscriptEffect) => [
+      rank(effect.consequences[0]),
+      effect.transcript.canonical ? 0 : 1,
+      effect.transcript.cds ? 0 : 1,
+    ]
+    effects.sort((a, b) => {
+      const [x, y] = [score(a), score(b)]
+      return x[0] - y[0] || x[1] - y[1] || x[2] - y[2]
+    })
+    return effects[0] || null
+  }
+}
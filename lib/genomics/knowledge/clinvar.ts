@@ -0,0 +1,132 @@
+/**
+ * ClinVar adapter: clinical significance, review status and conditions from a ClinVar VCF release
+ */
+
+import type { GenomicVariant } from "@/lib/genomics/types"
+import { readVcfLines, VcfParser } from "@/lib/genomics/vcf-parser"
+import { clinvarSignificance, textValues, variantKey, viewerChromosome } from "@/lib/genomics/vcf-variants"
+import {
+  KnowledgeSource,
+  type ClinVarAnnotation,
+  type KnowledgeSourceAdapter,
+  type SnapshotProvenance,
+} from "@/lib/genomics/knowledge/types"
+import { headerMeta, readSnapshot, snapshotDirectory, SnapshotCache } from "@/lib/genomics/knowledge/snapshot"
+
+export const CLINVAR_SNAPSHOT_FILES = ["clinvar.vcf.gz", "clinvar.vcf"]
+
+/** Review status to ClinVar's star rating */
+const REVIEW_STARS: Array<[RegExp, number]> = [
+  [/practice_guideline/, 4],
+  [/reviewed_by_expert_panel/, 3],
+  [/criteria_provided,_multiple_submitters,_no_conflicts/, 2],
+  [/criteria_provided,_(single_submitter|conflicting)/, 1],
+]
+
+/** Placeholder condition names ClinVar submitters use */
+const UNNAMED_CONDITIONS = new Set(["not_provided", "not_specified", "see_cases"])
+
+/** A ClinVar variant and its annotation */
+export interface ClinVarRecord extends Pick<GenomicVariant, "chromosome" | "position" | "reference" | "alternate"> {
+  /** Variant key, e.g. 17-43094464-T-TA */
+  id: string
+  annotation: ClinVarAnnotation
+}
+
+interface ClinVarSnapshot {
+  provenance: SnapshotProvenance
+  variants: Map<string, ClinVarAnnotation>
+  /** Records of each chromosome in position order, for region lookups */
+  byChromosome: Map<string, ClinVarRecord[]>
+}
+
+export class ClinVarAdapter implements KnowledgeSourceAdapter<KnowledgeSource.CLINVAR> {
+  readonly source = KnowledgeSource.CLINVAR
+  private snapshot: ClinVarSnapshot | null = null
+  private readonly cache: SnapshotCache<ClinVarSnapshot>
+
+  constructor(directory: () => string = snapshotDirectory) {
+    this.cache = new SnapshotCache(directory, CLINVAR_SNAPSHOT_FILES, async (file) => {
+      const { chunks, sha256 } = readSnapshot(file)
+      const parser = new VcfParser()
+      const variants = new Map<string, ClinVarAnnotation>()
+      const byChromosome = new Map<string, ClinVarRecord[]>()
+
+      for await (const variant of parser.parse(readVcfLines(chunks))) {
+        // ClinVar writes multi-valued fields such as review status with commas, which VCF reads as lists
+        const clnsig = textValues(variant.info.CLNSIG).join(",")
+        if (!clnsig) continue
+
+        const reviewStatus = textValues(variant.info.CLNREVSTAT).join(",") || null
+        const annotation: ClinVarAnnotation = {
+          variation_id: variant.ids[0] || null,
+          significance: clinvarSignificance(clnsig),
+          clinical_significance: clnsig,
+          review_status: reviewStatus,
+          stars: REVIEW_STARS.find(([pattern]) => reviewStatus && pattern.test(reviewStatus))?.[1] ?? 0,
+          conditions: textValues(variant.info.CLNDN)
+            .join(",")
+            .split("|")
+            .filter((name) => name && !UNNAMED_CONDITIONS.has(name))
+            .map((name) => name.replace(/_/g, " ")),
+          gene: textValues(variant.info.GENEINFO)[0]?.split(":")[0] || null,
+          snapshot_version: null,
+        }
+
+        const id = variantKey(variant)
+        const chromosome = viewerChromosome(variant.chromosome)
+        const { position, reference, alternate } = variant
+        variants.set(id, annotation)
+        byChromosome.set(chromosome, byChromosome.get(chromosome) || [])
+        byChromosome.get(chromosome)!.push({ id, chromosome, position, reference, alternate, annotation })
+      }
+      for (const records of byChromosome.values()) records.sort((a, b) => a.position - b.position)
+
+      const header = parser.header
+      const version = header && headerMeta(header, "fileDate")
+      for (const annotation of variants.values()) annotation.snapshot_version = version
+
+      return {
+        variants,
+        byChromosome,
+        provenance: {
+          source: KnowledgeSource.CLINVAR,
+          name: "ClinVar",
+          version,
+          assembly: header && headerMeta(header, "reference"),
+          file: file.name,
+          sha256: sha256(),
+          loaded_at: new Date().toISOString(),
+          records: variants.size,
+        },
+      }
+    })
+  }
+
+  async load() {
+    this.snapshot = await this.cache.get()
+    return this.snapshot?.provenance ?? null
+  }
+
+  annotate(variant: GenomicVariant) {
+    return this.snapshot?.variants.get(variantKey(variant)) ?? null
+  }
+
+  /** ClinVar variants starting within a region, in position order */
+  near(chromosome: string, start: number, end: number): ClinVarRecord[] {
+    const records = this.snapshot?.byChromosome.get(viewerChromosome(chromosome))
+    if (!records) return []
+
+    let low = 0
+    let high = records.length
+    while (low < high) {
+      const middle = (low + high) >> 1
+      if (records[middle].position < start) low = middle + 1
+      else high = middle
+    }
+
+    const near: ClinVarRecord[] = []
+    for (let index = low; index < records.length && records[index].position <= end; index++) near.push(records[index])
+    return near
+  }
+}
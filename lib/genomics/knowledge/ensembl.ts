@@ -0,0 +1,109 @@
+/**
+ * Gene and transcript consequence adapter: Ensembl gene models from a GFF3 release
+ */
+
+import type { GenomicVariant } from "@/lib/genomics/types"
+import { readVcfLines } from "@/lib/genomics/vcf-parser"
+import { GeneModelIndex, parseGff3, type TranscriptEffect } from "@/lib/genomics/gene-model"
+import {
+  KnowledgeSource,
+  type KnowledgeSourceAdapter,
+  type SnapshotProvenance,
+  type TranscriptAnnotation,
+} from "@/lib/genomics/knowledge/types"
+import { readSnapshot, snapshotDirectory, SnapshotCache } from "@/lib/genomics/knowledge/snapshot"
+
+export const ENSEMBL_SNAPSHOT_FILES = ["ensembl.gff3.gz", "ensembl.gff3"]
+
+interface EnsemblSnapshot {
+  provenance: SnapshotProvenance
+  index: GeneModelIndex
+}
+
+export class EnsemblAdapter implements KnowledgeSourceAdapter<KnowledgeSource.ENSEMBL> {
+  readonly source = KnowledgeSource.ENSEMBL
+  private snapshot: EnsemblSnapshot | null = null
+  private readonly cache: SnapshotCache<EnsemblSnapshot>
+
+  constructor(directory: () => string = snapshotDirectory) {
+    this.cache = new SnapshotCache(directory, ENSEMBL_SNAPSHOT_FILES, async (file) => {
+      const { chunks, sha256 } = readSnapshot(file)
+      // The VCF line reader handles any gzip-compressed text
+      const model = await parseGff3(readVcfLines(chunks))
+
+      return {
+        index: new GeneModelIndex(model),
+        provenance: {
+          source: KnowledgeSource.ENSEMBL,
+          name: "Ensembl",
+          version: model.version,
+          assembly: model.assembly,
+          file: file.name,
+          sha256: sha256(),
+          loaded_at: new Date().toISOString(),
+          records: model.transcripts.length,
+        },
+      }
+    })
+  }
+
+  /** Gene models of the loaded snapshot, for drawing gene tracks */
+  get geneModels() {
+    return this.snapshot?.index ?? null
+  }
+
+  async load() {
+    this.snapshot = await this.cache.get()
+    return this.snapshot?.provenance ?? null
+  }
+
+  annotate(variant: GenomicVariant): TranscriptAnnotation | null {
+    if (!this.snapshot) return null
+
+    const effect = this.snapshot.index.mostSevereEffect(
+      variant.chromosome,
+      variant.position,
+      variant.reference,
+      variant.alternate,
+    )
+    return effect && this.toAnnotation(effect)
+  }
+
+  /** The consequence on one transcript, for comparing variants on the same transcript */
+  annotateOn(
+    transcriptId: string,
+    variant: Pick<GenomicVariant, "chromosome" | "position" | "reference" | "alternate">,
+  ): TranscriptAnnotation | null {
+    if (!this.snapshot) return null
+
+    const effect = this.snapshot.index.effectOn(
+      transcriptId,
+      variant.chromosome,
+      variant.position,
+      variant.reference,
+      variant.alternate,
+    )
+    return effect && this.toAnnotation(effect)
+  }
+
+  private toAnnotation(effect: TranscriptEffect): TranscriptAnnotation {
+    const { transcript } = effect
+    return {
+      gene: transcript.gene,
+      gene_id: transcript.gene_id,
+      transcript_id: transcript.id,
+      canonical: transcript.canonical,
+      strand: transcript.strand,
+      consequence: effect.consequences[0],
+      consequences: effect.consequences,
+      impact: effect.impact,
+      hgvs_c: effect.hgvs_c,
+      hgvs_p: effect.hgvs_p,
+      exon: effect.exon,
+      intron: effect.intron,
+      amino_acids: effect.amino_acids,
+      protein_position: effect.protein_position,
+      snapshot_version: this.snapshot?.provenance.version ?? null,
+    }
+  }
+}
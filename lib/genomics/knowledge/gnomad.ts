@@ -0,0 +1,107 @@
+/**
+ * Population frequency adapter: allele frequencies from a gnomAD sites VCF, or a regional extract of one
+ */
+
+import type { GenomicVariant } from "@/lib/genomics/types"
+import { readVcfLines, VcfParser, type VcfValue } from "@/lib/genomics/vcf-parser"
+import { variantKey } from "@/lib/genomics/vcf-variants"
+import {
+  KnowledgeSource,
+  type KnowledgeSourceAdapter,
+  type PopulationAnnotation,
+  type SnapshotProvenance,
+} from "@/lib/genomics/knowledge/types"
+import { headerMeta, readSnapshot, snapshotDirectory, SnapshotCache } from "@/lib/genomics/knowledge/snapshot"
+
+export const GNOMAD_SNAPSHOT_FILES = ["gnomad.sites.vcf.gz", "gnomad.sites.vcf"]
+
+/** Per-population frequencies such as AF_nfe; sex-specific fields such as AF_nfe_XX have more parts */
+const POPULATION_FIELD = /^AF_([a-z]+)$/
+
+/** AF_ fields that summarize populations rather than describe one */
+const SUMMARY_FIELDS = new Set(["popmax", "grpmax", "raw"])
+
+/** Populations gnomAD leaves out of grpmax: bottlenecked or too small to estimate a frequency from */
+const GRPMAX_EXCLUDED = new Set(["asj", "fin", "ami", "mid", "oth", "remaining"])
+
+const numberValue = (value: VcfValue | undefined) => {
+  const number = Array.isArray(value) ? value[0] : value
+  return typeof number === "number" && Number.isFinite(number) ? number : null
+}
+
+interface GnomadSnapshot {
+  provenance: SnapshotProvenance
+  variants: Map<string, PopulationAnnotation>
+}
+
+export class GnomadAdapter implements KnowledgeSourceAdapter<KnowledgeSource.GNOMAD> {
+  readonly source = KnowledgeSource.GNOMAD
+  private snapshot: GnomadSnapshot | null = null
+  private readonly cache: SnapshotCache<GnomadSnapshot>
+
+  constructor(directory: () => string = snapshotDirectory) {
+    this.cache = new SnapshotCache(directory, GNOMAD_SNAPSHOT_FILES, async (file) => {
+      const { chunks, sha256 } = readSnapshot(file)
+      const parser = new VcfParser()
+      const variants = new Map<string, PopulationAnnotation>()
+
+      for await (const variant of parser.parse(readVcfLines(chunks))) {
+        const af = numberValue(variant.info.AF)
+        if (af === null) continue
+
+        const populations: Record<string, number> = {}
+        for (const [key, value] of Object.entries(variant.info)) {
+          const population = key.match(POPULATION_FIELD)?.[1]
+          const frequency = numberValue(value)
+          if (population && !SUMMARY_FIELDS.has(population) && frequency !== null) {
+            populations[population] = frequency
+          }
+        }
+
+        const popmax = Object.entries(populations)
+          .filter(([population]) => !GRPMAX_EXCLUDED.has(population))
+          .reduce<PopulationAnnotation["popmax"]>(
+            (max, [population, frequency]) => (!max || frequency > max.af ? { population, af: frequency } : max),
+            null,
+          )
+
+        variants.set(variantKey(variant), {
+          af,
+          ac: numberValue(variant.info.AC),
+          an: numberValue(variant.info.AN),
+          homozygotes: numberValue(variant.info.nhomalt),
+          popmax,
+          populations,
+          snapshot_version: null,
+        })
+      }
+
+      const header = parser.header
+      const version = header && headerMeta(header, "version", "fileDate")
+      for (const annotation of variants.values()) annotation.snapshot_version = version
+
+      return {
+        variants,
+        provenance: {
+          source: KnowledgeSource.GNOMAD,
+          name: "gnomAD",
+          version,
+          assembly: header && headerMeta(header, "reference"),
+          file: file.name,
+          sha256: sha256(),
+          loaded_at: new Date().toISOString(),
+          records: variants.size,
+        },
+      }
+    })
+  }
+
+  async load() {
+    this.snapshot = await this.cache.get()
+    return this.snapshot?.provenance ?? null
+  }
+
+  annotate(variant: GenomicVariant) {
+    return this.snapshot?.variants.get(variantKey(variant)) ?? null
+  }
+}
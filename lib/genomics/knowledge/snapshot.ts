@@ -0,0 +1,98 @@
+/**
+ * Local knowledge source snapshots
+ * Each source reads one release file from the snapshot directory, so enrichment runs offline and every annotation
+ * can be traced to the file it came from. Replacing a file makes its adapter reload on the next request.
+ */
+
+import { createHash } from "node:crypto"
+import { createReadStream } from "node:fs"
+import { stat } from "node:fs/promises"
+import path from "node:path"
+import type { VcfHeader } from "@/lib/genomics/vcf-parser"
+
+export const snapshotDirectory = () =>
+  process.env.KNOWLEDGE_SNAPSHOT_DIR || path.join(process.cwd(), "data", "knowledge")
+
+export interface SnapshotFile {
+  path: string
+  name: string
+  size: number
+  modified: number
+}
+
+/**
+ * The first of the candidate file names present in a directory
+ */
+export async function findSnapshot(directory: string, names: string[]): Promise<SnapshotFile | null> {
+  for (const name of names) {
+    const file = path.join(directory, name)
+    try {
+      const stats = await stat(file)
+      if (stats.isFile()) return { path: file, name, size: stats.size, modified: stats.mtimeMs }
+    } catch {
+      // Not installed under this name
+    }
+  }
+  return null
+}
+
+/**
+ * Bytes of a snapshot file as a stream; the SHA-256 is ready once the stream has been read to the end
+ */
+export function readSnapshot(file: SnapshotFile): { chunks: AsyncIterable<Uint8Array>; sha256: () => string } {
+  const hash = createHash("sha256")
+
+  async function* chunks() {
+    for await (const chunk of createReadStream(file.path)) {
+      hash.update(chunk as Buffer)
+      yield chunk as Buffer
+    }
+  }
+
+  return { chunks: chunks(), sha256: () => hash.digest("hex") }
+}
+
+/** Value of a ##key=value header line */
+export const headerMeta = (header: VcfHeader, ...keys: string[]) =>
+  keys.map((key) => header.meta.find((entry) => entry.key === key)?.value).find(Boolean) || null
+
+/**
+ * One loaded snapshot, reloaded when the file on disk is replaced
+ */
+export class SnapshotCache<T> {
+  private current: { file: SnapshotFile; value: T } | null = null
+  private loading: Promise<T | null> | null = null
+
+  constructor(
+    private readonly directory: () => string,
+    private readonly names: string[],
+    private readonly read: (file: SnapshotFile) => Promise<T>,
+  ) {}
+
+  async get(): Promise<T | null> {
+    if (this.loading) return this.loading
+
+    this.loading = (async () => {
+      const file = await findSnapshot(this.directory(), this.names)
+      if (!file) {
+        this.current = null
+        return null
+      }
+
+      const previous = this.current?.file
+      if (previous?.path === file.path && previous.modified === file.modified && previous.size === file.size) {
+        return this.current!.value
+      }
+
+      const value = await this.read(file)
+      this.current = { file, value }
+      return value
+    })()
+
+    try {
+      return await this.loading
+    } finally {
+      this.loading = null
+    }
+  }
+}
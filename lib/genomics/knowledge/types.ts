@@ -0,0 +1,94 @@
+/**
+ * Knowledge source types shared by the enrichment adapters, the enrichment service and the uploader
+ */
+
+import type { GenomicVariant, VariantSignificance } from "@/lib/genomics/types"
+
+export enum KnowledgeSource {
+  CLINVAR = "clinvar",
+  GNOMAD = "gnomad",
+  ENSEMBL = "ensembl",
+}
+
+/** Where a source's annotations came from */
+export interface SnapshotProvenance {
+  source: KnowledgeSource
+  /** e.g. ClinVar, gnomAD */
+  name: string
+  /** Release of the snapshot, e.g. 2025-09-14 or v4.1 */
+  version: string | null
+  /** Genome build the snapshot is aligned to */
+  assembly: string | null
+  file: string
+  sha256: string
+  loaded_at: string
+  /** Variants or transcripts in the snapshot */
+  records: number
+}
+
+export interface ClinVarAnnotation {
+  variation_id: string | null
+  significance: VariantSignificance
+  /** CLNSIG as ClinVar wrote it, e.g. Pathogenic/Likely_pathogenic */
+  clinical_significance: string
+  review_status: string | null
+  /** ClinVar's 0 to 4 star review level */
+  stars: number
+  conditions: string[]
+  gene: string | null
+  snapshot_version: string | null
+}
+
+export interface PopulationAnnotation {
+  /** Allele frequency across all populations */
+  af: number
+  ac: number | null
+  an: number | null
+  homozygotes: number | null
+  /** Population with the highest allele frequency */
+  popmax: { population: string; af: number } | null
+  populations: Record<string, number>
+  snapshot_version: string | null
+}
+
+export type VariantImpact = "HIGH" | "MODERATE" | "LOW" | "MODIFIER"
+
+export interface TranscriptAnnotation {
+  gene: string
+  gene_id: string | null
+  transcript_id: string
+  canonical: boolean
+  strand: "+" | "-"
+  /** Most severe Sequence Ontology consequence on the transcript */
+  consequence: string
+  consequences: string[]
+  impact: VariantImpact
+  hgvs_c: string | null
+  hgvs_p: string | null
+  /** e.g. 11/23 */
+  exon: string | null
+  intron: string | null
+  /** Reference and alternate amino acids for coding substitutions */
+  amino_acids: [string, string] | null
+  protein_position: number | null
+  snapshot_version: string | null
+}
+
+export interface VariantAnnotations {
+  [KnowledgeSource.CLINVAR]?: ClinVarAnnotation
+  [KnowledgeSource.GNOMAD]?: PopulationAnnotation
+  [KnowledgeSource.ENSEMBL]?: TranscriptAnnotation
+}
+
+export type EnrichedVariant = GenomicVariant & { annotations: VariantAnnotations }
+
+/**
+ * One knowledge source; adapters load their snapshot on first use and again whenever the file changes
+ */
+export interface KnowledgeSourceAdapter<K extends KnowledgeSource = KnowledgeSource> {
+  readonly source: K
+  /** The snapshot in use, or null when no snapshot file is installed */
+  load(): Promise<SnapshotProvenance | null>
+  /** What the snapshot knows about a variant; load() must have found a snapshot */
+  annotate(variant: GenomicVariant): VariantAnnotations[K] | null
+}
@@ -0,0 +1,391 @@
+/**
+ * Built-in pharmacogenomic guideline tables
+ * Star-allele definitions, allele functions, phenotype rules and drug recommendations for the core pharmacogenes,
+ * condensed from the CPIC guidelines. Each allele is defined by its core variants on GRCh38. Sites with their own
+ * tables pass them to the PGx service instead.
+ */
+
+import type { DrugGuideline, PgxGuidelineTables, PharmacogeneTable } from "@/lib/genomics/pgx/types"
+
+const STANDARD = "Initiate therapy with the recommended starting dose"
+
+const thiopurine = (drug: string, names: string[], intermediate: string): DrugGuideline => ({
+  drug,
+  names,
+  recommendations: [
+    { phenotypes: ["Normal Metabolizer"], action: "standard", recommendation: STANDARD, strength: "strong" },
+    {
+      phenotypes: ["Intermediate Metabolizer"],
+      action: "adjust_dose",
+      recommendation: intermediate,
+      strength: "strong",
+    },
+    {
+      phenotypes: ["Poor Metabolizer"],
+      action: "avoid",
+      recommendation:
+        "For malignancy, start with drastically reduced doses (10-fold lower, three times a week); for " +
+        "nonmalignant conditions, use an alternative non-thiopurine immunosuppressant",
+      strength: "strong",
+    },
+  ],
+})
+
+const fluoropyrimidine = (drug: string, names: string[]): DrugGuideline => ({
+  drug,
+  names,
+  recommendations: [
+    { phenotypes: ["Normal Metabolizer"], action: "standard", recommendation: STANDARD, strength: "strong" },
+    {
+      phenotypes: ["Intermediate Metabolizer"],
+      action: "adjust_dose",
+      recommendation: "Reduce the starting dose by 50%, then titrate on toxicity or drug levels",
+      strength: "strong",
+    },
+    {
+      phenotypes: ["Poor Metabolizer"],
+      action: "avoid",
+      recommendation: "Avoid fluoropyrimidines; if no alternative exists, use a strongly reduced dose with monitoring",
+      strength: "strong",
+    },
+  ],
+})
+
+const opioid = (drug: string, names: string[]): DrugGuideline => ({
+  drug,
+  names,
+  recommendations: [
+    {
+      phenotypes: ["Normal Metabolizer", "Intermediate Metabolizer"],
+      action: "standard",
+      recommendation:
+        "Use the label-recommended dose; if there is no response, consider a non-tramadol, non-codeine opioid",
+      strength: "moderate",
+    },
+    {
+      phenotypes: ["Ultrarapid Metabolizer"],
+      action: "avoid",
+      recommendation: "Avoid because of the risk of serious toxicity; use a non-tramadol, non-codeine analgesic",
+      strength: "strong",
+    },
+    {
+      phenotypes: ["Poor Metabolizer"],
+      action: "avoid",
+      recommendation: "Avoid because of lack of efficacy; use a non-tramadol, non-codeine analgesic",
+      strength: "strong",
+    },
+  ],
+})
+
+const ssri = (drug: string, names: string[]): DrugGuideline => ({
+  drug,
+  names,
+  recommendations: [
+    {
+      phenotypes: ["Normal Metabolizer", "Rapid Metabolizer", "Intermediate Metabolizer"],
+      action: "standard",
+      recommendation: STANDARD,
+      strength: "strong",
+    },
+    {
+      phenotypes: ["Ultrarapid Metabolizer"],
+      action: "avoid",
+      recommendation: "Consider an antidepressant not predominantly metabolized by CYP2C19",
+      strength: "moderate",
+    },
+    {
+      phenotypes: ["Poor Metabolizer"],
+      action: "adjust_dose",
+      recommendation: "Consider a 50% lower starting dose and slower titration, or an alternative antidepressant",
+      strength: "moderate",
+    },
+  ],
+})
+
+const CYP2C19: PharmacogeneTable = {
+  gene: "CYP2C19",
+  variants: [
+    { id: "rs12248560", chromosome: "10", position: 94761900, reference: "C", alternate: "T", label: "c.-806C>T" },
+    { id: "rs28399504", chromosome: "10", position: 94762706, reference: "A", alternate: "G", label: "c.1A>G" },
+    { id: "rs4986893", chromosome: "10", position: 94780653, reference: "G", alternate: "A", label: "c.636G>A" },
+    { id: "rs4244285", chromosome: "10", position: 94781859, reference: "G", alternate: "A", label: "c.681G>A" },
+  ],
+  alleles: [
+    { name: "*1", function: "normal", variants: [] },
+    { name: "*2", function: "no_function", variants: ["rs4244285"] },
+    { name: "*3", function: "no_function", variants: ["rs4986893"] },
+    { name: "*4", function: "no_function", variants: ["rs28399504"] },
+    { name: "*17", function: "increased", variants: ["rs12248560"] },
+  ],
+  phenotypes: [
+    { phenotype: "Ultrarapid Metabolizer", functions: ["increased", "increased"] },
+    { phenotype: "Rapid Metabolizer", functions: ["normal", "increased"] },
+    { phenotype: "Normal Metabolizer", functions: ["normal", "normal"] },
+    { phenotype: "Intermediate Metabolizer", functions: ["normal", "no_function"] },
+    { phenotype: "Intermediate Metabolizer", functions: ["increased", "no_function"] },
+    { phenotype: "Poor Metabolizer", functions: ["no_function", "no_function"] },
+  ],
+  drugs: [
+    {
+      drug: "clopidogrel",
+      names: ["clopidogrel", "plavix"],
+      recommendations: [
+        {
+          phenotypes: ["Ultrarapid Metabolizer", "Rapid Metabolizer", "Normal Metabolizer"],
+          action: "standard",
+          recommendation: "Use the standard 75 mg daily dose",
+          strength: "strong",
+        },
+        {
+          phenotypes: ["Intermediate Metabolizer", "Poor Metabolizer"],
+          action: "avoid",
+          recommendation: "Avoid standard-dose clopidogrel; use prasugrel or ticagrelor if not contraindicated",
+          strength: "strong",
+        },
+      ],
+    },
+    ssri("citalopram", ["citalopram", "celexa"]),
+    ssri("escitalopram", ["escitalopram", "lexapro"]),
+    {
+      drug: "voriconazole",
+      names: ["voriconazole", "vfend"],
+      recommendations: [
+        {
+          phenotypes: ["Normal Metabolizer", "Intermediate Metabolizer"],
+          action: "standard",
+          recommendation: STANDARD,
+          strength: "strong",
+        },
+        {
+          phenotypes: ["Ultrarapid Metabolizer", "Rapid Metabolizer", "Poor Metabolizer"],
+          action: "avoid",
+          recommendation: "Choose an alternative antifungal not dependent on CYP2C19 metabolism",
+          strength: "moderate",
+        },
+      ],
+    },
+    {
+      drug: "omeprazole",
+      names: ["omeprazole", "prilosec"],
+      recommendations: [
+        {
+          phenotypes: ["Rapid Metabolizer", "Normal Metabolizer", "Intermediate Metabolizer"],
+          action: "standard",
+          recommendation: STANDARD,
+          strength: "moderate",
+        },
+        {
+          phenotypes: ["Ultrarapid Metabolizer"],
+          action: "adjust_dose",
+          recommendation: "Increase the starting daily dose by 100% and monitor for efficacy",
+          strength: "optional",
+        },
+        {
+          phenotypes: ["Poor Metabolizer"],
+          action: "adjust_dose",
+          recommendation: "For chronic therapy beyond 12 weeks, consider a 50% lower daily dose",
+          strength: "optional",
+        },
+      ],
+    },
+  ],
+}
+
+const CYP2D6: PharmacogeneTable = {
+  gene: "CYP2D6",
+  variants: [
+    { id: "rs1135840", chromosome: "22", position: 42126611, reference: "C", alternate: "G", label: "c.1457G>C" },
+    { id: "rs28371725", chromosome: "22", position: 42127803, reference: "C", alternate: "T", label: "c.985+39G>A" },
+    { id: "rs16947", chromosome: "22", position: 42127941, reference: "G", alternate: "A", label: "c.886C>T" },
+    { id: "rs3892097", chromosome: "22", position: 42128945, reference: "C", alternate: "T", label: "c.506-1G>A" },
+    { id: "rs28371706", chromosome: "22", position: 42129770, reference: "G", alternate: "A", label: "c.320C>T" },
+    { id: "rs1065852", chromosome: "22", position: 42130692, reference: "G", alternate: "A", label: "c.100C>T" },
+  ],
+  alleles: [
+    { name: "*1", function: "normal", activity: 1, variants: [] },
+    { name: "*2", function: "normal", activity: 1, variants: ["rs16947", "rs1135840"] },
+    { name: "*4", function: "no_function", activity: 0, variants: ["rs1065852", "rs3892097", "rs1135840"] },
+    { name: "*10", function: "decreased", activity: 0.25, variants: ["rs1065852", "rs1135840"] },
+    { name: "*17", function: "decreased", activity: 0.5, variants: ["rs28371706", "rs16947", "rs1135840"] },
+    { name: "*41", function: "decreased", activity: 0.5, variants: ["rs16947", "rs28371725", "rs1135840"] },
+  ],
+  phenotypes: [
+    { phenotype: "Poor Metabolizer", activity: { min: 0, max: 0 } },
+    { phenotype: "Intermediate Metabolizer", activity: { min: 0.25, max: 1 } },
+    { phenotype: "Normal Metabolizer", activity: { min: 1.25, max: 2.25 } },
+    { phenotype: "Ultrarapid Metabolizer", activity: { min: 2.5, max: Infinity } },
+  ],
+  drugs: [
+    opioid("codeine", ["codeine", "tylenol with codeine", "tylenol #3"]),
+    opioid("tramadol", ["tramadol", "ultram"]),
+    {
+      drug: "tamoxifen",
+      names: ["tamoxifen", "nolvadex", "soltamox"],
+      recommendations: [
+        { phenotypes: ["Normal Metabolizer"], action: "standard", recommendation: STANDARD, strength: "strong" },
+        {
+          phenotypes: ["Intermediate Metabolizer"],
+          action: "adjust_dose",
+          recommendation:
+            "Consider an aromatase inhibitor, or 40 mg/day tamoxifen if an aromatase inhibitor is contraindicated",
+          strength: "moderate",
+        },
+        {
+          phenotypes: ["Poor Metabolizer"],
+          action: "avoid",
+          recommendation: "Use an alternative hormonal therapy such as an aromatase inhibitor",
+          strength: "strong",
+        },
+      ],
+    },
+    {
+      drug: "ondansetron",
+      names: ["ondansetron", "zofran"],
+      recommendations: [
+        {
+          phenotypes: ["Normal Metabolizer", "Intermediate Metabolizer", "Poor Metabolizer"],
+          action: "standard",
+          recommendation: STANDARD,
+          strength: "strong",
+        },
+        {
+          phenotypes: ["Ultrarapid Metabolizer"],
+          action: "avoid",
+          recommendation: "Select an antiemetic not predominantly metabolized by CYP2D6, such as granisetron",
+          strength: "moderate",
+        },
+      ],
+    },
+  ],
+  limitations: "Gene deletions (*5), duplications and hybrid alleles are not seen in a VCF of small variants",
+}
+
+const TPMT: PharmacogeneTable = {
+  gene: "TPMT",
+  variants: [
+    { id: "rs1142345", chromosome: "6", position: 18130687, reference: "T", alternate: "C", label: "c.719A>G" },
+    { id: "rs1800460", chromosome: "6", position: 18138997, reference: "C", alternate: "T", label: "c.460G>A" },
+    { id: "rs1800462", chromosome: "6", position: 18143724, reference: "C", alternate: "G", label: "c.238G>C" },
+  ],
+  alleles: [
+    { name: "*1", function: "normal", variants: [] },
+    { name: "*2", function: "no_function", variants: ["rs1800462"] },
+    { name: "*3A", function: "no_function", variants: ["rs1800460", "rs1142345"] },
+    { name: "*3B", function: "no_function", variants: ["rs1800460"] },
+    { name: "*3C", function: "no_function", variants: ["rs1142345"] },
+  ],
+  phenotypes: [
+    { phenotype: "Normal Metabolizer", functions: ["normal", "normal"] },
+    { phenotype: "Intermediate Metabolizer", functions: ["normal", "no_function"] },
+    { phenotype: "Poor Metabolizer", functions: ["no_function", "no_function"] },
+  ],
+  drugs: [
+    thiopurine(
+      "azathioprine",
+      ["azathioprine", "imuran", "azasan"],
+      "Start with 30-80% of the normal dose and adjust on myelosuppression",
+    ),
+    thiopurine(
+      "mercaptopurine",
+      ["mercaptopurine", "purinethol", "purixan"],
+      "Start with 30-80% of the normal dose and adjust on myelosuppression",
+    ),
+    thiopurine(
+      "thioguanine",
+      ["thioguanine", "tabloid"],
+      "Start with 50-80% of the normal dose and adjust on myelosuppression",
+    ),
+  ],
+}
+
+const DPYD: PharmacogeneTable = {
+  gene: "DPYD",
+  variants: [
+    { id: "rs67376798", chromosome: "1", position: 97082391, reference: "T", alternate: "A", label: "c.2846A>T" },
+    { id: "rs3918290", chromosome: "1", position: 97450058, reference: "C", alternate: "T", label: "c.1905+1G>A" },
+    { id: "rs55886062", chromosome: "1", position: 97515839, reference: "A", alternate: "C", label: "c.1679T>G" },
+    { id: "rs75017182", chromosome: "1", position: 97579893, reference: "G", alternate: "C", label: "c.1129-5923C>G" },
+  ],
+  alleles: [
+    { name: "Reference", function: "normal", activity: 1, variants: [] },
+    { name: "c.1905+1G>A (*2A)", function: "no_function", activity: 0, variants: ["rs3918290"] },
+    { name: "c.1679T>G (*13)", function: "no_function", activity: 0, variants: ["rs55886062"] },
+    { name: "c.2846A>T", function: "decreased", activity: 0.5, variants: ["rs67376798"] },
+    { name: "c.1129-5923C>G (HapB3)", function: "decreased", activity: 0.5, variants: ["rs75017182"] },
+  ],
+  phenotypes: [
+    { phenotype: "Poor Metabolizer", activity: { min: 0, max: 0.5 } },
+    { phenotype: "Intermediate Metabolizer", activity: { min: 1, max: 1.5 } },
+    { phenotype: "Normal Metabolizer", activity: { min: 2, max: 2 } },
+  ],
+  drugs: [
+    fluoropyrimidine("fluorouracil", ["fluorouracil", "5-fluorouracil", "5-fu", "adrucil"]),
+    fluoropyrimidine("capecitabine", ["capecitabine", "xeloda"]),
+  ],
+}
+
+const SLCO1B1: PharmacogeneTable = {
+  gene: "SLCO1B1",
+  variants: [
+    { id: "rs2306283", chromosome: "12", position: 21176804, reference: "A", alternate: "G", label: "c.388A>G" },
+    { id: "rs4149056", chromosome: "12", position: 21178615, reference: "T", alternate: "C", label: "c.521T>C" },
+  ],
+  alleles: [
+    { name: "*1", function: "normal", variants: [] },
+    { name: "*5", function: "no_function", variants: ["rs4149056"] },
+    { name: "*15", function: "no_function", variants: ["rs2306283", "rs4149056"] },
+    { name: "*37", function: "normal", variants: ["rs2306283"] },
+  ],
+  phenotypes: [
+    { phenotype: "Normal Function", functions: ["normal", "normal"] },
+    { phenotype: "Decreased Function", functions: ["normal", "no_function"] },
+    { phenotype: "Poor Function", functions: ["no_function", "no_function"] },
+  ],
+  drugs: [
+    {
+      drug: "simvastatin",
+      names: ["simvastatin", "zocor"],
+      recommendations: [
+        { phenotypes: ["Normal Function"], action: "standard", recommendation: STANDARD, strength: "strong" },
+        {
+          phenotypes: ["Decreased Function"],
+          action: "adjust_dose",
+          recommendation:
+            "Prescribe an alternative statin; if simvastatin is warranted, limit the dose to under 20 mg/day",
+          strength: "strong",
+        },
+        {
+          phenotypes: ["Poor Function"],
+          action: "avoid",
+          recommendation: "Prescribe an alternative statin depending on the desired potency",
+          strength: "strong",
+        },
+      ],
+    },
+    {
+      drug: "atorvastatin",
+      names: ["atorvastatin", "lipitor"],
+      recommendations: [
+        { phenotypes: ["Normal Function"], action: "standard", recommendation: STANDARD, strength: "strong" },
+        {
+          phenotypes: ["Decreased Function"],
+          action: "adjust_dose",
+          recommendation: "Prescribe 40 mg/day or less as the starting dose",
+          strength: "moderate",
+        },
+        {
+          phenotypes: ["Poor Function"],
+          action: "adjust_dose",
+          recommendation: "Prescribe 20 mg/day or less as the starting dose, or an alternative statin",
+          strength: "moderate",
+        },
+      ],
+    },
+  ],
+}
+
+export const CPIC_GUIDELINES: PgxGuidelineTables = {
+  name: "CPIC",
+  version: "2024-local",
+  genes: [CYP2C19, CYP2D6, TPMT, DPYD, SLCO1B1],
+}
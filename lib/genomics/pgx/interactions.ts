@@ -0,0 +1,54 @@
+/**
+ * Drug–gene interaction flags for a patient's medication orders
+ * A MedicationRequest is flagged when its medication names a drug the patient's PGx report recommends avoiding or
+ * dosing differently for. Drugs are matched by ingredient or brand name in the medication's text and codings.
+ */
+
+import type { MedicationSummary } from "@/lib/fhir/fhir-transformer"
+import type { DrugGeneInteraction, PgxReport } from "@/lib/genomics/pgx/types"
+
+/** Orders that are no longer given to the patient */
+const INACTIVE_STATUSES = ["cancelled", "completed", "entered-in-error", "stopped"]
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+
+function medicationText(medication: MedicationSummary): string {
+  return [medication.display, medication.code.display, ...medication.code.codings.map((coding) => coding.display)]
+    .filter(Boolean)
+    .join(" ")
+    .toLowerCase()
+}
+
+/**
+ * Flags for the medication orders whose drugs have a non-standard recommendation, most severe first
+ */
+export function drugGeneInteractions(report: PgxReport, medications: MedicationSummary[]): DrugGeneInteraction[] {
+  const recommendations = report.genes
+    .flatMap((gene) => gene.recommendations)
+    .filter((recommendation) => recommendation.action !== "standard")
+
+  return medications
+    .filter((medication) => !INACTIVE_STATUSES.includes(medication.status || ""))
+    .flatMap((medication) => {
+      const text = medicationText(medication)
+
+      return recommendations
+        .filter((recommendation) =>
+          recommendation.names.some((name) => new RegExp(`(^|[^a-z])${escapeRegExp(name)}($|[^a-z])`).test(text)),
+        )
+        .map(
+          (recommendation): DrugGeneInteraction => ({
+            medication_id: medication.id,
+            medication: medication.display,
+            drug: recommendation.drug,
+            gene: recommendation.gene,
+            phenotype: recommendation.phenotype,
+            action: recommendation.action,
+            severity: recommendation.action === "avoid" ? "high" : "moderate",
+            recommendation: recommendation.recommendation,
+            strength: recommendation.strength,
+          }),
+        )
+    })
+    .sort((a, b) => (a.severity === b.severity ? 0 : a.severity === "high" ? -1 : 1))
+}
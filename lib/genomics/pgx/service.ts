@@ -0,0 +1,141 @@
+/**
+ * Pharmacogenomics
+ * Calls star alleles and diplotypes for the pharmacogenes in the guideline tables from an uploaded VCF, assigns each
+ * gene's phenotype and looks up the drug recommendations for it. Reports are kept per patient and shown in the
+ * patient health record, where they flag the medication orders they affect.
+ */
+
+import { CPIC_GUIDELINES } from "@/lib/genomics/pgx/guidelines"
+import { callGene, sampleGenotypes } from "@/lib/genomics/pgx/star-alleles"
+import { InMemoryPgxReportStore, SupabasePgxReportStore, type PgxReportStore } from "@/lib/genomics/pgx/store"
+import type { PgxGuidelineTables, PgxReport } from "@/lib/genomics/pgx/types"
+import { VcfParser, readVcfLines, type VcfVariant } from "@/lib/genomics/vcf-parser"
+import { variantKey, viewerChromosome } from "@/lib/genomics/vcf-variants"
+import { getServiceSupabaseClient } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+export class PgxError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode = 400,
+  ) {
+    super(message)
+    this.name = "PgxError"
+  }
+}
+
+export interface PgxGenotypeRequest {
+  patient_id?: unknown
+  data?: unknown
+  /** "base64" for compressed VCFs */
+  encoding?: unknown
+  /** VCF sample to read; required when the file has more than one */
+  sample?: unknown
+  file_name?: unknown
+}
+
+const optionalText = (value: unknown, field: string): string | null => {
+  if (value === undefined || value === null) return null
+  if (typeof value !== "string") throw new PgxError(`${field} must be a string`)
+  return value.trim() || null
+}
+
+export class PharmacogenomicsService {
+  constructor(
+    private readonly store: PgxReportStore,
+    private readonly guidelines: PgxGuidelineTables = CPIC_GUIDELINES,
+  ) {}
+
+  /**
+   * Call every gene in the guideline tables from an uploaded VCF and store the report for the patient
+   * Only the records at defining variants are kept, so whole-genome VCFs can be uploaded.
+   */
+  async genotype(request: PgxGenotypeRequest, createdBy: string | null, now = new Date()): Promise<PgxReport> {
+    if (typeof request.patient_id !== "string" || !request.patient_id.trim()) {
+      throw new PgxError("patient_id is required")
+    }
+    if (typeof request.data !== "string" || !request.data.trim()) {
+      throw new PgxError("data must hold the uploaded VCF")
+    }
+    if (request.encoding !== undefined && request.encoding !== "base64") {
+      throw new PgxError('encoding must be "base64" when given')
+    }
+
+    const requestedSample = optionalText(request.sample, "sample")
+    const fileName = optionalText(request.file_name, "file_name")
+
+    const definingKeys = new Set(this.guidelines.genes.flatMap((gene) => gene.variants.map(variantKey)))
+    const chromosomes = new Set<string>()
+    const variants: VcfVariant[] = []
+
+    const parser = new VcfParser()
+    const input = request.encoding === "base64" ? Buffer.from(request.data, "base64") : request.data
+    for await (const variant of parser.parse(readVcfLines(input))) {
+      chromosomes.add(viewerChromosome(variant.chromosome))
+      if (definingKeys.has(variantKey(variant))) variants.push(variant)
+    }
+
+    const samples = parser.header!.samples
+    if (samples.length === 0) throw new PgxError("The VCF has no sample genotypes", 422)
+    if (requestedSample && !samples.includes(requestedSample)) {
+      throw new PgxError(`The VCF has no sample ${requestedSample}; its samples are ${samples.join(", ")}`)
+    }
+    if (!requestedSample && samples.length > 1) {
+      throw new PgxError(`Choose the sample to genotype: ${samples.join(", ")}`)
+    }
+
+    const sample = requestedSample || samples[0]
+    const genotypes = sampleGenotypes(variants, sample, chromosomes)
+    const report: PgxReport = {
+      id: crypto.randomUUID(),
+      patient_id: request.patient_id.trim(),
+      sample,
+      file_name: fileName,
+      genes: this.guidelines.genes.map((table) => callGene(table, genotypes)),
+      guidelines: { name: this.guidelines.name, version: this.guidelines.version },
+      recordCount: parser.recordCount,
+      errors: parser.errors,
+      errorCount: parser.errorCount,
+      created_by: createdBy,
+      created_at: now.toISOString(),
+    }
+
+    await this.store.saveReport(report)
+    logger.info("Pharmacogenomic report created", {
+      patientId: report.patient_id,
+      reportId: report.id,
+      called: report.genes.filter((gene) => gene.status === "called").length,
+    })
+
+    return report
+  }
+
+  /**
+   * The patient's most recent report, or null when the patient has not been genotyped
+   */
+  async latestReport(patientId: string): Promise<PgxReport | null> {
+    const [latest] = await this.store.listReports(patientId)
+    return latest || null
+  }
+
+  async listReports(patientId: string): Promise<PgxReport[]> {
+    return this.store.listReports(patientId)
+  }
+}
+
+const globalForPgx = globalThis as unknown as { pharmacogenomicsService?: PharmacogenomicsService }
+
+/**
+ * Shared PGx service for the API routes
+ */
+export function getPharmacogenomicsService(): PharmacogenomicsService {
+  if (!globalForPgx.pharmacogenomicsService) {
+    const supabase = getServiceSupabaseClient()
+
+    globalForPgx.pharmacogenomicsService = new PharmacogenomicsService(
+      supabase ? new SupabasePgxReportStore(supabase) : new InMemoryPgxReportStore(),
+    )
+  }
+
+  return globalForPgx.pharmacogenomicsService
+}
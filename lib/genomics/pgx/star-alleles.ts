@@ -0,0 +1,223 @@
+/**
+ * Star-allele and diplotype calling
+ * Reads a sample's genotypes at each gene's defining variants and finds the pairs of star alleles that explain them
+ * exactly. Phased genotypes are matched one haplotype at a time; unphased ones by ALT allele dosage, preferring the
+ * pair with the most specific allele, e.g. TPMT *1/*3A over *3B/*3C. Defining variants a VCF does not list are read
+ * as reference, as VCFs of variant sites leave them out; a no-call at one makes the gene indeterminate.
+ */
+
+import {
+  INDETERMINATE_PHENOTYPE,
+  type DrugRecommendation,
+  type GeneCall,
+  type ObservedVariant,
+  type PharmacogeneTable,
+  type StarAllele,
+} from "@/lib/genomics/pgx/types"
+import type { VcfVariant } from "@/lib/genomics/vcf-parser"
+import { variantKey, viewerChromosome } from "@/lib/genomics/vcf-variants"
+
+interface SiteGenotype {
+  /** Called alleles of the site's ALT, 1 for ALT and null for no-calls */
+  alleles: Array<number | null>
+  phased: boolean
+}
+
+/**
+ * One sample's genotypes, by variant key, and the chromosomes the VCF has records on
+ */
+export interface SampleGenotypes {
+  sites: Map<string, SiteGenotype>
+  chromosomes: Set<string>
+}
+
+type Diplotype = [StarAllele, StarAllele]
+
+/**
+ * A sample's genotypes from VCF variants; pass the chromosomes of the whole file when only some variants were kept
+ */
+export function sampleGenotypes(
+  variants: VcfVariant[],
+  sample: string,
+  chromosomes = new Set(variants.map((variant) => viewerChromosome(variant.chromosome))),
+): SampleGenotypes {
+  const sites = new Map<string, SiteGenotype>()
+
+  variants.forEach((variant) => {
+    const genotype = variant.genotypes[sample]
+    if (genotype) sites.set(variantKey(variant), { alleles: genotype.alleles, phased: genotype.phased })
+  })
+
+  return { sites, chromosomes }
+}
+
+const dosage = (site: SiteGenotype | undefined) => site?.alleles.filter((allele) => allele === 1).length ?? 0
+
+const sameSet = (a: string[], b: string[]) => a.length === b.length && a.every((id) => b.includes(id))
+
+/**
+ * Diplotypes whose alleles, one per haplotype, carry exactly the phased ALT alleles
+ */
+function phasedDiplotypes(table: PharmacogeneTable, sites: Map<string, SiteGenotype>): Diplotype[] {
+  const haplotypes = [0, 1].map((index) =>
+    table.variants.filter((variant) => sites.get(variantKey(variant))?.alleles[index] === 1).map(({ id }) => id),
+  )
+  const alleles = haplotypes.map((ids) => table.alleles.find((allele) => sameSet(allele.variants, ids)))
+
+  return alleles[0] && alleles[1] ? [[alleles[0], alleles[1]]] : []
+}
+
+/**
+ * Pairs of alleles whose combined ALT dosage matches the genotypes, the pair with the most specific allele first
+ */
+function unphasedDiplotypes(table: PharmacogeneTable, sites: Map<string, SiteGenotype>): Diplotype[] {
+  const observed = table.variants.map((variant) => dosage(sites.get(variantKey(variant))))
+  const carries = (allele: StarAllele, index: number) => (allele.variants.includes(table.variants[index].id) ? 1 : 0)
+
+  const diplotypes: Diplotype[] = []
+  table.alleles.forEach((first, i) =>
+    table.alleles.slice(i).forEach((second) => {
+      if (observed.every((count, index) => carries(first, index) + carries(second, index) === count)) {
+        diplotypes.push([first, second])
+      }
+    }),
+  )
+
+  const specificity = ([first, second]: Diplotype) => Math.max(first.variants.length, second.variants.length)
+  return diplotypes.sort((a, b) => specificity(b) - specificity(a))
+}
+
+const diplotypeName = (table: PharmacogeneTable, diplotype: Diplotype) =>
+  [...diplotype]
+    .sort((a, b) => table.alleles.indexOf(a) - table.alleles.indexOf(b))
+    .map((allele) => allele.name)
+    .join("/")
+
+function activityScore([first, second]: Diplotype): number | null {
+  return first.activity === undefined || second.activity === undefined ? null : first.activity + second.activity
+}
+
+/**
+ * Phenotype of a diplotype from the table's activity score or allele function rules
+ */
+export function assignPhenotype(table: PharmacogeneTable, diplotype: Diplotype): string {
+  const score = activityScore(diplotype)
+  const functions = diplotype.map((allele) => allele.function)
+
+  const rule = table.phenotypes.find((candidate) =>
+    candidate.activity
+      ? score !== null && score >= candidate.activity.min && score <= candidate.activity.max
+      : candidate.functions &&
+        ((candidate.functions[0] === functions[0] && candidate.functions[1] === functions[1]) ||
+          (candidate.functions[0] === functions[1] && candidate.functions[1] === functions[0])),
+  )
+
+  return rule?.phenotype || INDETERMINATE_PHENOTYPE
+}
+
+/**
+ * The table's recommendation for every drug it lists at a phenotype
+ */
+export function drugRecommendations(table: PharmacogeneTable, phenotype: string): DrugRecommendation[] {
+  return table.drugs.flatMap((drug) =>
+    drug.recommendations
+      .filter((recommendation) => recommendation.phenotypes.includes(phenotype))
+      .map(({ action, recommendation, strength }) => ({
+        drug: drug.drug,
+        names: drug.names,
+        gene: table.gene,
+        phenotype,
+        action,
+        recommendation,
+        strength,
+      })),
+  )
+}
+
+/**
+ * Call one gene's diplotype and phenotype from a sample's genotypes
+ */
+export function callGene(table: PharmacogeneTable, genotypes: SampleGenotypes): GeneCall {
+  const uncalled = (message: string, status: GeneCall["status"], observed: ObservedVariant[] = []): GeneCall => ({
+    gene: table.gene,
+    status,
+    diplotype: null,
+    alternatives: [],
+    activity_score: null,
+    phenotype: INDETERMINATE_PHENOTYPE,
+    observed,
+    missing: [],
+    no_calls: [],
+    recommendations: [],
+    message,
+  })
+
+  const chromosomes = [...new Set(table.variants.map((variant) => viewerChromosome(variant.chromosome)))]
+  if (!chromosomes.some((chromosome) => genotypes.chromosomes.has(chromosome))) {
+    return uncalled(`The VCF has no records on chromosome ${chromosomes.join(", ")}`, "not_covered")
+  }
+
+  const observed: ObservedVariant[] = []
+  const missing: string[] = []
+  const noCalls: string[] = []
+
+  table.variants.forEach((variant) => {
+    const site = genotypes.sites.get(variantKey(variant))
+    if (!site) missing.push(variant.id)
+    else if (site.alleles.length === 0 || site.alleles.includes(null)) noCalls.push(variant.id)
+    else if (dosage(site) > 0) {
+      observed.push({ id: variant.id, label: variant.label, dosage: dosage(site), phased: site.phased })
+    }
+  })
+
+  if (noCalls.length > 0) {
+    return {
+      ...uncalled(`Defining variants were not called: ${noCalls.join(", ")}`, "indeterminate", observed),
+      missing,
+      no_calls: noCalls,
+    }
+  }
+
+  const phased =
+    observed.some((variant) => variant.dosage === 1) &&
+    observed.every((variant) => variant.dosage === 2 || variant.phased)
+  const diplotypes = phased ? phasedDiplotypes(table, genotypes.sites) : unphasedDiplotypes(table, genotypes.sites)
+
+  if (diplotypes.length === 0) {
+    const carried = observed.map((variant) => `${variant.label} (${variant.id})`).join(", ")
+    return {
+      ...uncalled(
+        phased
+          ? `The phased haplotypes carrying ${carried} match no ${table.gene} star allele`
+          : `No pair of ${table.gene} star alleles carries ${carried}`,
+        "indeterminate",
+        observed,
+      ),
+      missing,
+    }
+  }
+
+  const phenotypes = diplotypes.map((diplotype) => assignPhenotype(table, diplotype))
+  const phenotype = phenotypes[0]
+  const ambiguous = phenotypes.some((candidate) => candidate !== phenotype)
+  const alternatives = diplotypes.slice(1).map((diplotype) => diplotypeName(table, diplotype))
+  const notes = [
+    ambiguous && `Also consistent with ${alternatives.join(", ")}`,
+    missing.length > 0 && `${missing.length} defining variants are not in the VCF and were read as reference`,
+    table.limitations,
+  ].filter(Boolean)
+
+  return {
+    gene: table.gene,
+    status: phenotype === INDETERMINATE_PHENOTYPE ? "indeterminate" : ambiguous ? "ambiguous" : "called",
+    diplotype: diplotypeName(table, diplotypes[0]),
+    alternatives,
+    activity_score: activityScore(diplotypes[0]),
+    phenotype,
+    observed,
+    missing,
+    no_calls: [],
+    recommendations: phenotype === INDETERMINATE_PHENOTYPE ? [] : drugRecommendations(table, phenotype),
+    ...(notes.length > 0 && { message: notes.join("; ") }),
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Persistence for pharmacogenomic reports
+ * Every uploaded VCF keeps its own report, so earlier results stay available when a patient is genotyped again.
+ * Stored in Supabase when a service role key is configured, otherwise kept in memory.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { PgxReport } from "@/lib/genomics/pgx/types"
+
+export interface PgxReportStore {
+  /** Newest first */
+  listReports(patientId: string): Promise<PgxReport[]>
+  saveReport(report: PgxReport): Promise<void>
+}
+
+export class InMemoryPgxReportStore implements PgxReportStore {
+  private reports = new Map<string, PgxReport>()
+
+  async listReports(patientId: string): Promise<PgxReport[]> {
+    return Array.from(this.reports.values())
+      .filter((report) => report.patient_id === patientId)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .map((report) => structuredClone(report))
+  }
+
+  async saveReport(report: PgxReport): Promise<void> {
+    this.reports.set(report.id, structuredClone(report))
+  }
+}
+
+/**
+ * Reports in the Supabase pgx_reports table
+ */
+export class SupabasePgxReportStore implements PgxReportStore {
+  private readonly table = "pgx_reports"
+
+  constructor(private readonly supabase: SupabaseClient) {}
+
+  async listReports(patientId: string): Promise<PgxReport[]> {
+    const { data, error } = await this.supabase
+      .from(this.table)
+      .select("*")
+      .eq("patient_id", patientId)
+      .order("created_at", { ascending: false })
+
+    if (error) throw new Error(`Failed to load PGx reports: ${error.message}`)
+    return data || []
+  }
+
+  async saveReport(report: PgxReport): Promise<void> {
+    const { error } = await this.supabase.from(this.table).upsert(report, { onConflict: "id" })
+
+    if (error) throw new Error(`Failed to store PGx report: ${error.message}`)
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * Pharmacogenomics types shared by the star-allele caller, the PGx service and the patient health record
+ */
+
+import type { VcfLineError } from "@/lib/genomics/vcf-parser"
+
+/** Pharmacogenes the built-in guideline tables cover */
+export const CORE_PHARMACOGENES = ["CYP2C19", "CYP2D6", "TPMT", "DPYD", "SLCO1B1"] as const
+
+export type AlleleFunction = "increased" | "normal" | "decreased" | "no_function"
+
+/** Phenotype of a gene that could not be called from the VCF */
+export const INDETERMINATE_PHENOTYPE = "Indeterminate"
+
+/**
+ * A variant that defines one or more star alleles, on the genome build of the uploaded VCFs
+ */
+export interface DefiningVariant {
+  /** dbSNP id, which allele definitions refer to */
+  id: string
+  chromosome: string
+  position: number
+  reference: string
+  alternate: string
+  /** Transcript change, e.g. c.681G>A */
+  label: string
+}
+
+export interface StarAllele {
+  /** e.g. *2, or c.2846A>T for genes named by variant */
+  name: string
+  function: AlleleFunction
+  /** Contribution to the gene's activity score, for genes whose phenotype is scored */
+  activity?: number
+  /** Ids of the defining variants the allele carries; the reference allele carries none */
+  variants: string[]
+}
+
+/**
+ * Phenotype of a diplotype, either from the functions of its two alleles or from the sum of their activity values
+ */
+export interface PhenotypeRule {
+  phenotype: string
+  /** Allele functions in either order */
+  functions?: [AlleleFunction, AlleleFunction]
+  /** Inclusive activity score range */
+  activity?: { min: number; max: number }
+}
+
+export type DrugAction = "standard" | "adjust_dose" | "avoid"
+
+export type RecommendationStrength = "strong" | "moderate" | "optional"
+
+export interface DrugGuideline {
+  drug: string
+  /** Ingredient and brand names matched against medication orders, lower case */
+  names: string[]
+  recommendations: Array<{
+    phenotypes: string[]
+    action: DrugAction
+    recommendation: string
+    strength: RecommendationStrength
+  }>
+}
+
+export interface PharmacogeneTable {
+  gene: string
+  variants: DefiningVariant[]
+  alleles: StarAllele[]
+  phenotypes: PhenotypeRule[]
+  drugs: DrugGuideline[]
+  /** Alleles the caller cannot see in a VCF of small variants, such as deletions and duplications */
+  limitations?: string
+}
+
+export interface PgxGuidelineTables {
+  name: string
+  version: string
+  genes: PharmacogeneTable[]
+}
+
+/**
+ * The guideline recommendation for one drug at a patient's phenotype
+ */
+export interface DrugRecommendation {
+  drug: string
+  names: string[]
+  gene: string
+  phenotype: string
+  action: DrugAction
+  recommendation: string
+  strength: RecommendationStrength
+}
+
+export type GeneCallStatus = "called" | "ambiguous" | "indeterminate" | "not_covered"
+
+/** A defining variant the sample carries */
+export interface ObservedVariant {
+  id: string
+  label: string
+  /** Copies of the ALT allele, 1 or 2 */
+  dosage: number
+  phased: boolean
+}
+
+export interface GeneCall {
+  gene: string
+  /**
+   * called: one diplotype, or several with the same phenotype; ambiguous: diplotypes with different phenotypes fit,
+   * the first is reported; indeterminate: no diplotype fits or defining positions were not called; not_covered: the
+   * VCF has no records on the gene's chromosome
+   */
+  status: GeneCallStatus
+  /** e.g. *1/*2 */
+  diplotype: string | null
+  /** Other diplotypes that fit the genotypes as well */
+  alternatives: string[]
+  activity_score: number | null
+  phenotype: string
+  observed: ObservedVariant[]
+  /** Defining variants the VCF does not list, read as reference */
+  missing: string[]
+  /** Defining variants with a no-call genotype */
+  no_calls: string[]
+  recommendations: DrugRecommendation[]
+  message?: string
+}
+
+/**
+ * A patient's pharmacogenomic results from one uploaded VCF
+ */
+export interface PgxReport {
+  id: string
+  patient_id: string
+  /** VCF sample the genotypes were read from */
+  sample: string
+  file_name: string | null
+  genes: GeneCall[]
+  guidelines: { name: string; version: string }
+  recordCount: number
+  errors: VcfLineError[]
+  errorCount: number
+  created_by: string | null
+  created_at: string
+}
+
+export type InteractionSeverity = "high" | "moderate"
+
+/**
+ * A medication order whose drug has a guideline recommendation other than standard dosing for the patient
+ */
+export interface DrugGeneInteraction {
+  medication_id: string
+  medication: string
+  drug: string
+  gene: string
+  phenotype: string
+  action: DrugAction
+  severity: InteractionSeverity
+  recommendation: string
+  strength: RecommendationStrength
+}
@@ -0,0 +1,183 @@
+/**
+ * Persistence for variant reclassification tracking
+ * The variants reported for each patient, with the clinician who ordered the test, and the re-contact tasks raised
+ * when a reported variant is reclassified. Stored in Supabase when a service role key is configured, otherwise kept
+ * in memory.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { SnapshotVersions } from "@/lib/genomics/classification-store"
+import type { GenomicVariant, VariantSignificance } from "@/lib/genomics/types"
+
+export interface OrderingClinician {
+  /** Session user id, the recipient of re-contact alerts */
+  id: string
+  name: string | null
+}
+
+export interface PatientVariantRecord {
+  /** patient id|variant key */
+  id: string
+  patient_id: string
+  /** Variant key, e.g. 17-43094464-T-TA */
+  variant_id: string
+  variant: GenomicVariant
+  ordering_clinician: OrderingClinician
+  /** Significance when the variant was reported to the patient */
+  reported_significance: VariantSignificance
+  /** Significance the ordering clinician was last alerted to */
+  current_significance: VariantSignificance
+  /** Classification version current_significance comes from */
+  classification_version: number | null
+  registered_at: string
+  updated_at: string
+}
+
+export type RecontactTaskStatus = "open" | "contacted" | "dismissed" | "superseded"
+
+export type RecontactPriority = "urgent" | "routine"
+
+/**
+ * A clinician's to-do to re-contact a patient about a reclassified variant
+ */
+export interface RecontactTask {
+  id: string
+  patient_id: string
+  patient_variant_id: string
+  variant_id: string
+  gene: string
+  hgvs: string | null
+  assignee: OrderingClinician
+  previous_significance: VariantSignificance
+  significance: VariantSignificance
+  /** Classification version that changed the significance */
+  version: number
+  snapshots: SnapshotVersions
+  priority: RecontactPriority
+  status: RecontactTaskStatus
+  note: string | null
+  resolved_by: string | null
+  resolved_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface PatientVariantQuery {
+  patient_id?: string
+  variant_id?: string
+}
+
+export interface RecontactTaskQuery {
+  patient_id?: string
+  variant_id?: string
+  assignee_id?: string
+  status?: RecontactTaskStatus
+}
+
+export interface ReclassificationStore {
+  listPatientVariants(query?: PatientVariantQuery): Promise<PatientVariantRecord[]>
+  savePatientVariants(records: PatientVariantRecord[]): Promise<void>
+  /** Newest first */
+  listTasks(query?: RecontactTaskQuery): Promise<RecontactTask[]>
+  getTask(taskId: string): Promise<RecontactTask | null>
+  saveTasks(tasks: RecontactTask[]): Promise<void>
+}
+
+export class InMemoryReclassificationStore implements ReclassificationStore {
+  private patientVariants = new Map<string, PatientVariantRecord>()
+  private tasks = new Map<string, RecontactTask>()
+
+  async listPatientVariants(query: PatientVariantQuery = {}): Promise<PatientVariantRecord[]> {
+    return Array.from(this.patientVariants.values())
+      .filter(
+        (record) =>
+          (!query.patient_id || record.patient_id === query.patient_id) &&
+          (!query.variant_id || record.variant_id === query.variant_id),
+      )
+      .sort((a, b) => b.registered_at.localeCompare(a.registered_at))
+      .map((record) => structuredClone(record))
+  }
+
+  async savePatientVariants(records: PatientVariantRecord[]): Promise<void> {
+    records.forEach((record) => this.patientVariants.set(record.id, structuredClone(record)))
+  }
+
+  async listTasks(query: RecontactTaskQuery = {}): Promise<RecontactTask[]> {
+    return Array.from(this.tasks.values())
+      .filter(
+        (task) =>
+          (!query.patient_id || task.patient_id === query.patient_id) &&
+          (!query.variant_id || task.variant_id === query.variant_id) &&
+          (!query.assignee_id || task.assignee.id === query.assignee_id) &&
+          (!query.status || task.status === query.status),
+      )
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .map((task) => structuredClone(task))
+  }
+
+  async getTask(taskId: string): Promise<RecontactTask | null> {
+    const task = this.tasks.get(taskId)
+    return task ? structuredClone(task) : null
+  }
+
+  async saveTasks(tasks: RecontactTask[]): Promise<void> {
+    tasks.forEach((task) => this.tasks.set(task.id, structuredClone(task)))
+  }
+}
+
+/**
+ * Tracking in the Supabase patient_variants and variant_recontact_tasks tables
+ */
+export class SupabaseReclassificationStore implements ReclassificationStore {
+  private readonly patientVariantTable = "patient_variants"
+  private readonly taskTable = "variant_recontact_tasks"
+
+  constructor(private readonly supabase: SupabaseClient) {}
+
+  async listPatientVariants(query: PatientVariantQuery = {}): Promise<PatientVariantRecord[]> {
+    let request = this.supabase.from(this.patientVariantTable).select("*")
+
+    if (query.patient_id) request = request.eq("patient_id", query.patient_id)
+    if (query.variant_id) request = request.eq("variant_id", query.variant_id)
+
+    const { data, error } = await request.order("registered_at", { ascending: false })
+
+    if (error) throw new Error(`Failed to load patient variants: ${error.message}`)
+    return data || []
+  }
+
+  async savePatientVariants(records: PatientVariantRecord[]): Promise<void> {
+    if (records.length === 0) return
+    const { error } = await this.supabase.from(this.patientVariantTable).upsert(records, { onConflict: "id" })
+
+    if (error) throw new Error(`Failed to store patient variants: ${error.message}`)
+  }
+
+  async listTasks(query: RecontactTaskQuery = {}): Promise<RecontactTask[]> {
+    let request = this.supabase.from(this.taskTable).select("*")
+
+    if (query.patient_id) request = request.eq("patient_id", query.patient_id)
+    if (query.variant_id) request = request.eq("variant_id", query.variant_id)
+    if (query.assignee_id) request = request.eq("assignee->>id", query.assignee_id)
+    if (query.status) request = request.eq("status", query.status)
+
+    const { data, error } = await request.order("created_at", { ascending: false })
+
+    if (error) throw new Error(`Failed to load re-contact tasks: ${error.message}`)
+    return data || []
+  }
+
+  async getTask(taskId: string): Promise<RecontactTask | null> {
+    const { data, error } = await this.supabase.from(this.taskTable).select("*").eq("id", taskId).maybeSingle()
+
+    if (error) throw new Error(`Failed to load re-contact task: ${error.message}`)
+    return data
+  }
+
+  async saveTasks(tasks: RecontactTask[]): Promise<void> {
+    if (tasks.length === 0) return
+    const { error } = await this.supabase.from(this.taskTable).upsert(tasks, { onConflict: "id" })
+
+    if (error) throw new Error(`Failed to store re-contact tasks: ${error.message}`)
+  }
+}
@@ -0,0 +1,398 @@
+/**
+ * Variant reclassification tracking
+ * Keeps the variants reported for each patient and diffs them against every new knowledge source snapshot. When a
+ * reported variant's ACMG/AMP tier changes, e.g. VUS → likely pathogenic, the ordering clinician gets a re-contact
+ * task and a VARIANT_RECLASSIFIED AIDEN alert. Curator overrides that change a tier are reviewed the same way.
+ */
+
+import { getAidenEventBus, type AidenEventBus } from "@/lib/aiden/aiden-events"
+import { AidenEventSeverity, AidenWebSocketEventType } from "@/lib/aiden/aiden-websocket"
+import {
+  getGenomicEnrichmentService,
+  type GenomicEnrichmentService,
+} from "@/lib/agent/services/genomic-enrichment/service"
+import type { ClassificationVersion, SnapshotVersions } from "@/lib/genomics/classification-store"
+import {
+  InMemoryReclassificationStore,
+  SupabaseReclassificationStore,
+  type OrderingClinician,
+  type PatientVariantQuery,
+  type PatientVariantRecord,
+  type ReclassificationStore,
+  type RecontactTask,
+  type RecontactTaskQuery,
+} from "@/lib/genomics/reclassification-store"
+import type { GenomicVariant, VariantSignificance } from "@/lib/genomics/types"
+import { VariantClassificationService, getVariantClassificationService } from "@/lib/genomics/variant-classification"
+import { variantKey } from "@/lib/genomics/vcf-variants"
+import { getServiceSupabaseClient } from "@/lib/supabase/server"
+import { logger } from "@/lib/logging/enhanced-logger"
+
+export class ReclassificationError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode = 400,
+  ) {
+    super(message)
+    this.name = "ReclassificationError"
+  }
+}
+
+export interface TrackVariantsRequest {
+  patient_id?: unknown
+  variants?: unknown
+}
+
+export interface ResolveTaskRequest {
+  /** contacted or dismissed */
+  status?: unknown
+  note?: unknown
+}
+
+export interface ReclassificationScan {
+  /** Release of each knowledge source snapshot the variants were classified with */
+  snapshots: SnapshotVersions
+  variantCount: number
+  patientVariantCount: number
+  /** Re-contact tasks raised by the scan */
+  tasks: RecontactTask[]
+  scanned_at: string
+}
+
+/**
+ * How a variant's classification changed over time and whom it was reported to
+ */
+export interface VariantEvolution {
+  variant_id: string
+  /** Oldest first */
+  versions: ClassificationVersion[]
+  patients: PatientVariantRecord[]
+  tasks: RecontactTask[]
+}
+
+const SIGNIFICANCES: VariantSignificance[] = ["benign", "likely_benign", "uncertain", "likely_pathogenic", "pathogenic"]
+
+const SIGNIFICANCE_LABELS: Record<VariantSignificance, string> = {
+  pathogenic: "Pathogenic",
+  likely_pathogenic: "Likely pathogenic",
+  uncertain: "Uncertain significance",
+  likely_benign: "Likely benign",
+  benign: "Benign",
+}
+
+/** Tiers that change clinical management when a variant moves into or out of them */
+const ACTIONABLE_SIGNIFICANCES: VariantSignificance[] = ["pathogenic", "likely_pathogenic"]
+
+const RESOLVED_STATUSES = ["contacted", "dismissed"] as const
+
+function parseVariants(value: unknown): GenomicVariant[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new ReclassificationError("variants must be a non-empty list")
+  }
+
+  return value.map((variant, index) => {
+    if (
+      typeof variant?.chromosome !== "string" ||
+      !Number.isInteger(variant.position) ||
+      variant.position < 1 ||
+      typeof variant.reference !== "string" ||
+      typeof variant.alternate !== "string"
+    ) {
+      throw new ReclassificationError(`variants[${index}] needs a chromosome, position, reference and alternate`)
+    }
+    if (!SIGNIFICANCES.includes(variant.significance)) {
+      throw new ReclassificationError(`variants[${index}].significance must be one of ${SIGNIFICANCES.join(", ")}`)
+    }
+
+    const reported = { ...variant }
+    delete reported.classification
+    delete reported.annotations
+    return reported as GenomicVariant
+  })
+}
+
+function isUrgent(previous: VariantSignificance, significance: VariantSignificance): boolean {
+  return ACTIONABLE_SIGNIFICANCES.includes(previous) !== ACTIONABLE_SIGNIFICANCES.includes(significance)
+}
+
+export class VariantReclassificationService {
+  constructor(
+    private readonly store: ReclassificationStore,
+    private readonly classifications: VariantClassificationService,
+    private readonly enrichment: Pick<GenomicEnrichmentService, "enrich">,
+    private readonly events?: AidenEventBus,
+  ) {}
+
+  /**
+   * Track variants reported to a patient; reporting a variant again replaces the earlier report
+   * A variant whose stored classification already differs from the reported significance raises a task at once.
+   */
+  async track(
+    request: TrackVariantsRequest,
+    clinician: OrderingClinician,
+    now = new Date(),
+  ): Promise<PatientVariantRecord[]> {
+    if (typeof request.patient_id !== "string" || !request.patient_id.trim()) {
+      throw new ReclassificationError("patient_id is required")
+    }
+
+    const patientId = request.patient_id.trim()
+    const variants = parseVariants(request.variants)
+    const existing = new Map(
+      (await this.store.listPatientVariants({ patient_id: patientId })).map((record) => [record.id, record]),
+    )
+
+    const records = new Map<string, PatientVariantRecord>()
+    variants.forEach((variant) => {
+      const variantId = variantKey(variant)
+      const id = `${patientId}|${variantId}`
+      const previous = existing.get(id)
+
+      records.set(id, {
+        id,
+        patient_id: patientId,
+        variant_id: variantId,
+        variant,
+        ordering_clinician: clinician,
+        reported_significance: variant.significance,
+        current_significance: variant.significance,
+        classification_version: null,
+        registered_at: previous?.registered_at || now.toISOString(),
+        updated_at: now.toISOString(),
+      })
+    })
+
+    await this.store.savePatientVariants([...records.values()])
+    logger.info("Patient variants tracked for reclassification", { patientId, count: records.size })
+
+    await this.reconcile([...records.values()], now)
+    return this.store.listPatientVariants({ patient_id: patientId })
+  }
+
+  async listPatientVariants(query?: PatientVariantQuery): Promise<PatientVariantRecord[]> {
+    return this.store.listPatientVariants(query)
+  }
+
+  async listTasks(query?: RecontactTaskQuery): Promise<RecontactTask[]> {
+    return this.store.listTasks(query)
+  }
+
+  /**
+   * Reclassify every tracked variant against the installed knowledge source snapshots and raise a re-contact task
+   * for each patient whose variant changed tier
+   */
+  async scan(now = new Date()): Promise<ReclassificationScan> {
+    const patientVariants = await this.store.listPatientVariants()
+    const variants = [...new Map(patientVariants.map((record) => [record.variant_id, record.variant])).values()]
+
+    let snapshots: SnapshotVersions = {}
+    if (variants.length > 0) {
+      const { sources } = await this.enrichment.enrich(variants, undefined, now)
+      const applied = sources.filter((report) => report.status === "applied")
+
+      if (applied.length === 0) {
+        throw new ReclassificationError(
+          `No knowledge source snapshot is available: ${sources
+            .map((report) => `${report.source} (${report.message})`)
+            .join("; ")}`,
+          503,
+        )
+      }
+      snapshots = Object.fromEntries(applied.map((report) => [report.source, report.provenance?.version ?? null]))
+    }
+
+    const tasks = await this.reconcile(patientVariants, now)
+    logger.info("Variant reclassification scan finished", {
+      variants: variants.length,
+      patientVariants: patientVariants.length,
+      tasks: tasks.length,
+    })
+
+    return {
+      snapshots,
+      variantCount: variants.length,
+      patientVariantCount: patientVariants.length,
+      tasks,
+      scanned_at: now.toISOString(),
+    }
+  }
+
+  /**
+   * Raise re-contact tasks for patients with a variant a curator's override just reclassified
+   */
+  async review(variantId: string, now = new Date()): Promise<RecontactTask[]> {
+    return this.reconcile(await this.store.listPatientVariants({ variant_id: variantId }), now)
+  }
+
+  /**
+   * Close an open re-contact task once the patient was contacted, or dismiss it with a note
+   */
+  async resolveTask(
+    taskId: string,
+    request: ResolveTaskRequest,
+    resolvedBy: string,
+    now = new Date(),
+  ): Promise<RecontactTask> {
+    const status = request.status as (typeof RESOLVED_STATUSES)[number]
+    if (!RESOLVED_STATUSES.includes(status)) {
+      throw new ReclassificationError(`status must be one of ${RESOLVED_STATUSES.join(", ")}`)
+    }
+    if (request.note !== undefined && request.note !== null && typeof request.note !== "string") {
+      throw new ReclassificationError("note must be text")
+    }
+
+    const note = typeof request.note === "string" && request.note.trim() ? request.note.trim() : null
+    if (status === "dismissed" && !note) {
+      throw new ReclassificationError("A note is required to dismiss a re-contact task")
+    }
+
+    const task = await this.store.getTask(taskId)
+    if (!task) throw new ReclassificationError(`Re-contact task ${taskId} not found`, 404)
+    if (task.status !== "open") throw new ReclassificationError(`Re-contact task ${taskId} is ${task.status}`, 409)
+
+    const resolved: RecontactTask = {
+      ...task,
+      status,
+      note,
+      resolved_by: resolvedBy,
+      resolved_at: now.toISOString(),
+      updated_at: now.toISOString(),
+    }
+
+    await this.store.saveTasks([resolved])
+    logger.info("Re-contact task resolved", { taskId, status, resolvedBy })
+    return resolved
+  }
+
+  async evolution(variantId: string): Promise<VariantEvolution> {
+    const [versions, patients, tasks] = await Promise.all([
+      this.classifications.versions(variantId),
+      this.store.listPatientVariants({ variant_id: variantId }),
+      this.store.listTasks({ variant_id: variantId }),
+    ])
+
+    return { variant_id: variantId, versions, patients, tasks }
+  }
+
+  /**
+   * Diff the stored classifications against what each patient's clinician was last told
+   * A tier change supersedes the patient's open task for the variant, raises a new one and alerts the clinician.
+   */
+  private async reconcile(patientVariants: PatientVariantRecord[], now: Date): Promise<RecontactTask[]> {
+    const records = new Map(
+      (await this.classifications.getMany(patientVariants.map((record) => record.variant_id))).map((record) => [
+        record.id,
+        record,
+      ]),
+    )
+    const updated: PatientVariantRecord[] = []
+    const superseded: RecontactTask[] = []
+    const raised: RecontactTask[] = []
+
+    for (const patientVariant of patientVariants) {
+      const classification = records.get(patientVariant.variant_id)
+      if (!classification || classification.version === patientVariant.classification_version) continue
+
+      const previous = patientVariant.current_significance
+      const significance = classification.classification.tier
+      updated.push({
+        ...patientVariant,
+        current_significance: significance,
+        classification_version: classification.version,
+        updated_at: now.toISOString(),
+      })
+      if (significance === previous) continue
+
+      const open = await this.store.listTasks({ variant_id: patientVariant.variant_id, status: "open" })
+      open
+        .filter((task) => task.patient_variant_id === patientVariant.id)
+        .forEach((task) =>
+          superseded.push({
+            ...task,
+            status: "superseded",
+            resolved_at: now.toISOString(),
+            updated_at: now.toISOString(),
+          }),
+        )
+
+      raised.push({
+        id: crypto.randomUUID(),
+        patient_id: patientVariant.patient_id,
+        patient_variant_id: patientVariant.id,
+        variant_id: patientVariant.variant_id,
+        gene: classification.variant.gene || patientVariant.variant.gene,
+        hgvs: classification.variant.hgvs || patientVariant.variant.hgvs || null,
+        assignee: patientVariant.ordering_clinician,
+        previous_significance: previous,
+        significance,
+        version: classification.version,
+        snapshots: classification.snapshots,
+        priority: isUrgent(previous, significance) ? "urgent" : "routine",
+        status: "open",
+        note: null,
+        resolved_by: null,
+        resolved_at: null,
+        created_at: now.toISOString(),
+        updated_at: now.toISOString(),
+      })
+    }
+
+    await this.store.savePatientVariants(updated)
+    await this.store.saveTasks([...superseded, ...raised])
+    raised.forEach((task) => this.alert(task))
+
+    if (raised.length > 0) {
+      logger.info("Reported variants reclassified", {
+        tasks: raised.length,
+        variants: raised.map((task) => task.variant_id),
+      })
+    }
+
+    return raised
+  }
+
+  private alert(task: RecontactTask) {
+    const variant = [task.gene, task.hgvs].filter(Boolean).join(" ") || task.variant_id
+
+    this.events?.publish(
+      AidenWebSocketEventType.VARIANT_RECLASSIFIED,
+      {
+        patient_id: task.patient_id,
+        task_id: task.id,
+        variant_id: task.variant_id,
+        gene: task.gene,
+        hgvs: task.hgvs,
+        previous_significance: task.previous_significance,
+        significance: task.significance,
+        priority: task.priority,
+        severity: task.priority === "urgent" ? AidenEventSeverity.HIGH : AidenEventSeverity.MEDIUM,
+        message: `${variant} was reclassified from ${SIGNIFICANCE_LABELS[task.previous_significance]} to ${
+          SIGNIFICANCE_LABELS[task.significance]
+        }; re-contact patient ${task.patient_id}`,
+      },
+      { patient_id: task.patient_id, user_id: task.assignee.id },
+    )
+  }
+}
+
+const globalForReclassification = globalThis as unknown as {
+  variantReclassificationService?: VariantReclassificationService
+}
+
+/**
+ * Shared reclassification service for the API routes and EHR write-back
+ */
+export function getVariantReclassificationService(): VariantReclassificationService {
+  if (!globalForReclassification.variantReclassificationService) {
+    const supabase = getServiceSupabaseClient()
+
+    globalForReclassification.variantReclassificationService = new VariantReclassificationService(
+      supabase ? new SupabaseReclassificationStore(supabase) : new InMemoryReclassificationStore(),
+      getVariantClassificationService(),
+      getGenomicEnrichmentService(),
+      getAidenEventBus(),
+    )
+  }
+
+  return globalForReclassification.variantReclassificationService
+}
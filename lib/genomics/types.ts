@@ -0,0 +1,45 @@
+/**
+ * Genomic variant types shared by the variant viewer and the server-side genomics code
+ */
+
+import type { AcmgClassification } from "@/lib/genomics/acmg"
+
+export type VariantSignificance = "benign" | "likely_benign" | "uncertain" | "likely_pathogenic" | "pathogenic"
+
+/** Structural variant classes as VCF SVTYPE writes them; CNV for copy-number segments and calls */
+export type StructuralVariantType = "DEL" | "DUP" | "INV" | "BND" | "CNV"
+
+/**
+ * Extent of a structural variant or copy-number segment; the variant's position is where it starts
+ */
+export interface StructuralVariant {
+  type: StructuralVariantType
+  /** Last affected base; a breakend ends where it starts */
+  end: number
+  /** Affected bases, when the record gives an extent */
+  length: number | null
+  /** Where a breakend joins, when the record names it */
+  mate: { chromosome: string; position: number } | null
+  /** Absolute copy number, when called */
+  copyNumber: number | null
+  /** log2 of the copy ratio to a diploid baseline, as segmentation writes it */
+  log2Ratio: number | null
+}
+
+export interface GenomicVariant {
+  id: string
+  position: number
+  chromosome: string
+  reference: string
+  alternate: string
+  gene: string
+  consequence: string
+  significance: VariantSignificance
+  frequency: number
+  rsid?: string
+  hgvs?: string
+  /** ACMG/AMP classification from the annotations, beside the reported significance, once classified */
+  classification?: AcmgClassification
+  /** Set for structural variants and copy-number segments, which span more than their alleles */
+  structural?: StructuralVariant
+}
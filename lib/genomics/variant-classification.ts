@@ -0,0 +1,225 @@
+/**
+ * Variant classification
+ * Classifies enriched variants under the ACMG/AMP rules and keeps the evidence trail: the criteria evaluated from
+ * each knowledge source snapshot and the curator overrides applied on top of them. Reclassifying a variant keeps
+ * its overrides, so a curator's decision survives new snapshots. Each new snapshot set and each override records a
+ * classification version, which is the variant's evolution over time.
+ */
+
+import { getServiceSupabaseClient } from "@/lib/supabase/server"
+import {
+  ACMG_CRITERIA,
+  ACMG_CRITERION_CODES,
+  DEFAULT_ACMG_OPTIONS,
+  EVIDENCE_STRENGTHS,
+  classifyVariant,
+  evaluateCriteria,
+  type AcmgCriterion,
+  type AcmgEvidence,
+  type AcmgOptions,
+  type CriterionOverride,
+  type EvidenceStrength,
+} from "@/lib/genomics/acmg"
+import {
+  InMemoryVariantClassificationStore,
+  SupabaseVariantClassificationStore,
+  type ClassificationVersion,
+  type ClassificationVersionCause,
+  type SnapshotVersions,
+  type VariantClassificationRecord,
+  type VariantClassificationStore,
+} from "@/lib/genomics/classification-store"
+import type { EnrichedVariant } from "@/lib/genomics/knowledge/types"
+import type { GenomicVariant } from "@/lib/genomics/types"
+import { variantKey } from "@/lib/genomics/vcf-variants"
+
+export class VariantClassificationError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode = 400,
+  ) {
+    super(message)
+    this.name = "VariantClassificationError"
+  }
+}
+
+export interface CriterionOverrideRequest {
+  criterion?: unknown
+  /** true or false to decide the criterion, null to hand it back to automatic evaluation */
+  met?: unknown
+  strength?: unknown
+  justification?: unknown
+}
+
+export interface ClassificationInput {
+  variant: EnrichedVariant
+  evidence: AcmgEvidence
+  /** Release of each knowledge source snapshot the annotations came from */
+  snapshots: SnapshotVersions
+}
+
+function parseOverride(request: CriterionOverrideRequest): Omit<CriterionOverride, "curator" | "created_at"> {
+  const criterion = request.criterion as AcmgCriterion
+  if (!ACMG_CRITERION_CODES.includes(criterion)) {
+    throw new VariantClassificationError("criterion must be an ACMG/AMP criterion code such as PVS1 or BP7")
+  }
+
+  if (request.met !== null && typeof request.met !== "boolean") {
+    throw new VariantClassificationError("met must be true, false or null")
+  }
+
+  const allowed = EVIDENCE_STRENGTHS[ACMG_CRITERIA[criterion].direction]
+  const strength = (request.strength ?? null) as EvidenceStrength | null
+  if (strength !== null && !allowed.includes(strength)) {
+    throw new VariantClassificationError(`strength of ${criterion} must be one of ${allowed.join(", ")}`)
+  }
+
+  if (typeof request.justification !== "string" || !request.justification.trim()) {
+    throw new VariantClassificationError("justification is required")
+  }
+
+  return { criterion, met: request.met as boolean | null, strength, justification: request.justification.trim() }
+}
+
+function sameSnapshots(a: SnapshotVersions, b: SnapshotVersions): boolean {
+  const sources = new Set([...Object.keys(a), ...Object.keys(b)] as (keyof SnapshotVersions)[])
+  return [...sources].every((source) => (a[source] ?? null) === (b[source] ?? null))
+}
+
+function toVersion(
+  record: VariantClassificationRecord,
+  cause: ClassificationVersionCause,
+  changedBy: string | null,
+): ClassificationVersion {
+  return {
+    id: `${record.id}#${record.version}`,
+    variant_id: record.id,
+    version: record.version,
+    tier: record.classification.tier,
+    rule: record.classification.rule,
+    met: record.classification.met,
+    snapshots: record.snapshots,
+    cause,
+    changed_by: changedBy,
+    created_at: record.updated_at,
+  }
+}
+
+export class VariantClassificationService {
+  constructor(
+    private readonly store: VariantClassificationStore,
+    private readonly options: AcmgOptions = DEFAULT_ACMG_OPTIONS,
+  ) {}
+
+  /**
+   * Evaluate and classify enriched variants, applying any overrides curators made earlier
+   * A new version is recorded when a variant is first classified, or when its snapshots or tier changed. Returns
+   * the variants with the classification attached; their significance stays the one reported or asserted by ClinVar.
+   */
+  async classify(inputs: ClassificationInput[], now = new Date()): Promise<EnrichedVariant[]> {
+    const ids = inputs.map((input) => variantKey(input.variant))
+    const existing = new Map((await this.store.getMany([...new Set(ids)])).map((record) => [record.id, record]))
+    const records = new Map<string, VariantClassificationRecord>()
+    const versions = new Map<string, ClassificationVersion>()
+
+    const classified = inputs.map((input, index) => {
+      const id = ids[index]
+      const previous = existing.get(id)
+      const evaluations = evaluateCriteria(input.variant, input.evidence, this.options)
+      const overrides = previous?.overrides || []
+      const classification = classifyVariant(evaluations, overrides)
+      const variant: GenomicVariant = { ...input.variant }
+      delete variant.classification
+
+      const changed =
+        !previous ||
+        !sameSnapshots(previous.snapshots, input.snapshots) ||
+        previous.classification.tier !== classification.tier
+      const record: VariantClassificationRecord = {
+        id,
+        variant,
+        evaluations,
+        overrides,
+        classification,
+        snapshots: input.snapshots,
+        version: (previous?.version || 0) + (changed ? 1 : 0),
+        created_at: previous?.created_at || now.toISOString(),
+        updated_at: now.toISOString(),
+      }
+      records.set(id, record)
+      if (changed) versions.set(id, toVersion(record, "snapshot", null))
+      return { ...input.variant, classification }
+    })
+
+    await this.store.save([...records.values()])
+    await this.store.appendVersions([...versions.values()])
+    return classified
+  }
+
+  async get(id: string): Promise<VariantClassificationRecord> {
+    const record = await this.store.get(id)
+    if (!record) throw new VariantClassificationError(`Variant ${id} has not been classified`, 404)
+    return record
+  }
+
+  /**
+   * Stored classifications of the variants that have one
+   */
+  async getMany(ids: string[]): Promise<VariantClassificationRecord[]> {
+    return this.store.getMany([...new Set(ids)])
+  }
+
+  /**
+   * Record a curator's decision on one criterion and reclassify the variant
+   */
+  async override(
+    id: string,
+    request: CriterionOverrideRequest,
+    curator: string,
+    now = new Date(),
+  ): Promise<VariantClassificationRecord> {
+    const override: CriterionOverride = { ...parseOverride(request), curator, created_at: now.toISOString() }
+    const record = await this.get(id)
+
+    const overrides = [...record.overrides, override]
+    const classification = classifyVariant(record.evaluations, overrides)
+    const updated: VariantClassificationRecord = {
+      ...record,
+      overrides,
+      classification,
+      version: record.version + 1,
+      updated_at: now.toISOString(),
+    }
+
+    await this.store.save([updated])
+    await this.store.appendVersions([toVersion(updated, "override", curator)])
+    return updated
+  }
+
+  /**
+   * Every classification version of a variant, oldest first
+   */
+  async versions(id: string): Promise<ClassificationVersion[]> {
+    await this.get(id)
+    return this.store.listVersions(id)
+  }
+}
+
+const globalForClassification = globalThis as unknown as {
+  variantClassificationService?: VariantClassificationService
+}
+
+/**
+ * Shared classification service for enrichment and the API routes
+ */
+export function getVariantClassificationService(): VariantClassificationService {
+  if (!globalForClassification.variantClassificationService) {
+    const supabase = getServiceSupabaseClient()
+
+    globalForClassification.variantClassificationService = new VariantClassificationService(
+      supabase ? new SupabaseVariantClassificationStore(supabase) : new InMemoryVariantClassificationStore(),
+    )
+  }
+
+  return globalForClassification.variantClassificationService
+}
@@ -0,0 +1,319 @@
+/**
+ * Variant lists uploaded as Beaker report tables, JSON or copy-number segments
+ * Beaker genomic reports export their variant table as delimited text under a free-text preamble; the table starts
+ * at the first row naming chromosome, position, reference and alternate columns. JSON uploads are an array of
+ * variants or an object with a variants array. Copy-number segments are tables in the style of DNAcopy .seg, GATK
+ * and CNVkit output. Rows that cannot be read are reported by line and skipped, as VCF records are.
+ */
+
+import type { GenomicVariant, StructuralVariant } from "@/lib/genomics/types"
+import type { VcfLineError } from "@/lib/genomics/vcf-parser"
+import { isSequenceAllele, normalizeAllele } from "@/lib/genomics/vcf-normalize"
+import { variantClass, variantKey, viewerChromosome } from "@/lib/genomics/vcf-variants"
+
+export class VariantUploadError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode = 422,
+  ) {
+    super(message)
+    this.name = "VariantUploadError"
+  }
+}
+
+export interface VariantUploadResult {
+  variants: GenomicVariant[]
+  errors: VcfLineError[]
+  errorCount: number
+  /** Rows or entries read, valid or not */
+  recordCount: number
+}
+
+type Column = "chromosome" | "position" | "reference" | "alternate" | "gene" | "rsid" | "hgvs" | "consequence"
+
+/** Header names Beaker report templates use for each column, compared without case, spaces or punctuation */
+const COLUMN_NAMES: Record<Column, string[]> = {
+  chromosome: ["chromosome", "chrom", "chr"],
+  position: ["position", "pos", "start", "genomicposition", "grch38position"],
+  reference: ["reference", "ref", "refallele", "referenceallele"],
+  alternate: ["alternate", "alt", "altallele", "alternateallele", "variantallele"],
+  gene: ["gene", "genesymbol", "symbol"],
+  rsid: ["rsid", "dbsnp", "dbsnpid"],
+  hgvs: ["hgvs", "hgvsc", "cdna", "cdnachange", "codingchange"],
+  consequence: ["consequence", "effect", "varianttype"],
+}
+
+const REQUIRED: Column[] = ["chromosome", "position", "reference", "alternate"]
+
+type SegmentColumn = "sample" | "chromosome" | "start" | "end" | "log2" | "copyNumber" | "gene"
+
+/** Header names of segmentation outputs: DNAcopy and IGV .seg, GATK ModelSegments and CNVkit .cns */
+const SEGMENT_COLUMN_NAMES: Record<SegmentColumn, string[]> = {
+  sample: ["id", "sample", "sampleid", "samplename"],
+  chromosome: ["chromosome", "chrom", "chr", "contig"],
+  start: ["start", "locstart", "startpos", "segstart"],
+  end: ["end", "locend", "endpos", "segend"],
+  log2: ["log2", "log2ratio", "segmean", "segmentmean", "log2copyratio", "meanlog2copyratio"],
+  copyNumber: ["cn", "copynumber", "totalcn", "tcn"],
+  gene: ["gene", "genes", "genesymbol"],
+}
+
+/** log2 ratios past which a segment is called lost or gained, CNVkit's single-copy thresholds */
+export const CNV_LOSS_LOG2 = -0.25
+export const CNV_GAIN_LOG2 = 0.2
+
+/** Genes named for a segment; CNVkit lists every gene a segment covers */
+const MAX_SEGMENT_GENES = 3
+
+const MAX_ERRORS = 100
+
+const headerKey = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, "")
+
+/**
+ * A variant from loose field values, or the reason it cannot be read
+ */
+function toVariant(fields: Partial<Record<Column, unknown>>): GenomicVariant | string {
+  const text = (value: unknown) =>
+    typeof value === "string" ? value.trim() : typeof value === "number" ? String(value) : ""
+
+  const chromosome = viewerChromosome(text(fields.chromosome))
+  const position = Number(text(fields.position).replace(/,/g, ""))
+  const reference = text(fields.reference).toUpperCase()
+  const alternate = text(fields.alternate).toUpperCase()
+
+  if (!chromosome) return "chromosome is missing"
+  if (!Number.isInteger(position) || position < 1) {
+    return `position "${text(fields.position)}" is not a positive integer`
+  }
+  if (!isSequenceAllele(reference)) return `reference allele "${reference}" is not a DNA sequence`
+  if (!isSequenceAllele(alternate) && !/^<[^<>]+>$/.test(alternate)) {
+    return `alternate allele "${alternate}" is not a DNA sequence or symbolic allele`
+  }
+  if (reference === alternate) return "alternate allele is the same as the reference"
+
+  const normalized = normalizeAllele(chromosome, position, reference, alternate)
+  const rsid = text(fields.rsid)
+
+  return {
+    id: variantKey({ chromosome, ...normalized }),
+    chromosome,
+    ...normalized,
+    gene: text(fields.gene),
+    consequence: text(fields.consequence) || variantClass({ ...normalized, info: {} }),
+    significance: "uncertain",
+    frequency: 0,
+    rsid: /^rs\d+$/.test(rsid) ? rsid : undefined,
+    hgvs: text(fields.hgvs) || undefined,
+  }
+}
+
+class UploadCollector {
+  readonly result: VariantUploadResult = { variants: [], errors: [], errorCount: 0, recordCount: 0 }
+
+  add(line: number, variant: GenomicVariant | string) {
+    this.result.recordCount++
+    if (typeof variant !== "string") {
+      this.result.variants.push(variant)
+      return
+    }
+    this.result.errorCount++
+    if (this.result.errors.length < MAX_ERRORS) this.result.errors.push({ line, message: variant })
+  }
+}
+
+/**
+ * Variants of a Beaker report's variant table
+ */
+export function parseBeakerReport(text: string): VariantUploadResult {
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/)
+  const collector = new UploadCollector()
+  let columns: Partial<Record<Column, number>> | null = null
+  let delimiter = "\t"
+
+  lines.forEach((line, index) => {
+    if (!line.trim()) return
+
+    if (!columns) {
+      delimiter = ["\t", "|", ","].find((candidate) => line.includes(candidate)) || "\t"
+      const names = line.split(delimiter).map(headerKey)
+      const found = Object.fromEntries(
+        (Object.keys(COLUMN_NAMES) as Column[])
+          .map((column) => [column, names.findIndex((name) => COLUMN_NAMES[column].includes(name))])
+          .filter(([, position]) => position !== -1),
+      ) as Partial<Record<Column, number>>
+      if (REQUIRED.every((column) => found[column] !== undefined)) columns = found
+      return
+    }
+
+    const cells = line.split(delimiter)
+    const fields = Object.fromEntries(
+      Object.entries(columns).map(([column, position]) => [column, cells[position as number]]),
+    )
+    const variant = toVariant(fields)
+    collector.add(index + 1, typeof variant === "string" ? `Row could not be read: ${variant}` : variant)
+  })
+
+  if (!columns) {
+    throw new VariantUploadError(
+      "No variant table found: the report needs a header row naming chromosome, position, reference and alternate",
+    )
+  }
+
+  return collector.result
+}
+
+export interface CnvSegmentResult extends VariantUploadResult {
+  /** Names in the sample column, when the table has one */
+  samples: string[]
+}
+
+/**
+ * Copy-number call of a segment: the copy number against a diploid baseline when called, otherwise the log2 ratio
+ */
+export function copyNumberCall(structural: Pick<StructuralVariant, "copyNumber" | "log2Ratio">) {
+  const { copyNumber, log2Ratio } = structural
+  if (copyNumber !== null) return copyNumber < 2 ? "loss" : copyNumber > 2 ? "gain" : "neutral"
+  if (log2Ratio === null) return "neutral"
+  return log2Ratio < CNV_LOSS_LOG2 ? "loss" : log2Ratio > CNV_GAIN_LOG2 ? "gain" : "neutral"
+}
+
+/**
+ * A segment from its table cells, or the reason it cannot be read
+ */
+function toSegment(fields: Partial<Record<SegmentColumn, string>>): GenomicVariant | string {
+  const text = (column: SegmentColumn) => fields[column]?.trim() ?? ""
+  // Segmenters write NA, NaN or nothing where a value could not be estimated
+  const measure = (column: SegmentColumn) =>
+    /^(|na|nan|\.)$/i.test(text(column)) ? null : Number(text(column).replace(/,/g, ""))
+
+  const chromosome = viewerChromosome(text("chromosome"))
+  const [start, end] = [Number(text("start").replace(/,/g, "")), Number(text("end").replace(/,/g, ""))]
+  const [log2Ratio, copyNumber] = [measure("log2"), measure("copyNumber")]
+
+  if (!chromosome) return "chromosome is missing"
+  if (!Number.isInteger(start) || start < 1) return `start "${text("start")}" is not a positive integer`
+  if (!Number.isInteger(end) || end < start) return `end "${text("end")}" is not an integer from the start on`
+  if (log2Ratio !== null && !Number.isFinite(log2Ratio)) return `log2 ratio "${text("log2")}" is not a number`
+  if (copyNumber !== null && !(copyNumber >= 0)) {
+    return `copy number "${text("copyNumber")}" is not a non-negative number`
+  }
+  if (log2Ratio === null && copyNumber === null) return "the segment has neither a log2 ratio nor a copy number"
+
+  const genes = text("gene")
+    .split(/[,;]/)
+    .map((gene) => gene.trim())
+    .filter((gene) => gene && gene !== "-")
+  const more = genes.length - MAX_SEGMENT_GENES
+  const structural: StructuralVariant = {
+    type: "CNV",
+    end,
+    length: end - start + 1,
+    mate: null,
+    copyNumber,
+    log2Ratio,
+  }
+  const sample = text("sample")
+  const key = `${variantKey({ chromosome, position: start, reference: "N", alternate: "<CNV>" })}-${end}`
+
+  return {
+    id: sample ? `${sample}:${key}` : key,
+    position: start,
+    chromosome,
+    reference: "N",
+    alternate: "<CNV>",
+    gene: genes.slice(0, MAX_SEGMENT_GENES).join(",") + (more > 0 ? ` +${more}` : ""),
+    consequence: `copy_number_${copyNumberCall(structural)}`,
+    significance: "uncertain",
+    frequency: 0,
+    structural,
+  }
+}
+
+/**
+ * Copy-number segments as CNV variants
+ * Positions are 1-based and inclusive, as .seg files write them; CNVkit counts starts from 0, a base off at segment
+ * scale. GATK's @ header lines and # comments are skipped.
+ */
+export function parseCnvSegments(text: string): CnvSegmentResult {
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/)
+  const collector = new UploadCollector()
+  const samples = new Set<string>()
+  let columns: Partial<Record<SegmentColumn, number>> | null = null
+  let delimiter = "\t"
+
+  lines.forEach((line, index) => {
+    if (!line.trim() || /^[@#]/.test(line)) return
+
+    if (!columns) {
+      delimiter = ["\t", ","].find((candidate) => line.includes(candidate)) || "\t"
+      const names = line.split(delimiter).map(headerKey)
+      const found = Object.fromEntries(
+        (Object.keys(SEGMENT_COLUMN_NAMES) as SegmentColumn[])
+          .map((column) => [column, names.findIndex((name) => SEGMENT_COLUMN_NAMES[column].includes(name))])
+          .filter(([, position]) => position !== -1),
+      ) as Partial<Record<SegmentColumn, number>>
+      const measured = found.log2 !== undefined || found.copyNumber !== undefined
+      if (found.chromosome !== undefined && found.start !== undefined && found.end !== undefined && measured) {
+        columns = found
+      }
+      return
+    }
+
+    const cells = line.split(delimiter)
+    const fields = Object.fromEntries(
+      Object.entries(columns).map(([column, position]) => [column, cells[position as number]]),
+    )
+    const segment = toSegment(fields)
+    if (typeof segment !== "string" && fields.sample?.trim()) samples.add(fields.sample.trim())
+    collector.add(index + 1, typeof segment === "string" ? `Segment could not be read: ${segment}` : segment)
+  })
+
+  if (!columns) {
+    throw new VariantUploadError(
+      "No segment table found: the file needs a header row naming chromosome, start, end and a log2 ratio or " +
+        "copy number column",
+    )
+  }
+
+  return { ...collector.result, samples: [...samples] }
+}
+
+/**
+ * Variants of a JSON upload; errors are numbered by entry, as JSON has no meaningful lines
+ */
+export function parseVariantJson(text: string): VariantUploadResult {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch (error) {
+    throw new VariantUploadError(`The JSON could not be parsed: ${error instanceof Error ? error.message : error}`)
+  }
+
+  const entries = Array.isArray(parsed) ? parsed : (parsed as { variants?: unknown })?.variants
+  if (!Array.isArray(entries)) {
+    throw new VariantUploadError("Expected an array of variants or an object with a variants array")
+  }
+
+  const collector = new UploadCollector()
+  entries.forEach((entry, index) => {
+    if (!entry || typeof entry !== "object") {
+      collector.add(index + 1, `Variant ${index + 1} is not an object`)
+      return
+    }
+
+    const record = entry as Record<string, unknown>
+    const variant = toVariant({
+      chromosome: record.chromosome ?? record.chrom,
+      position: record.position ?? record.pos,
+      reference: record.reference ?? record.ref,
+      alternate: record.alternate ?? record.alt,
+      gene: record.gene,
+      rsid: record.rsid,
+      hgvs: record.hgvs,
+      consequence: record.consequence,
+    })
+    collector.add(index + 1, typeof variant === "string" ? `Variant ${index + 1}: ${variant}` : variant)
+  })
+
+  return collector.result
+}
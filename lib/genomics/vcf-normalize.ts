@@ -0,0 +1,91 @@
+/**
+ * Variant normalization
+ * The same indel can be written at several positions inside a repeat. Normalizing trims bases shared by REF and ALT
+ * and shifts the variant as far left as the reference allows, so every caller's spelling of a variant compares equal.
+ * Shifting left needs the reference sequence; without one, alleles are only trimmed.
+ */
+
+/** Bases of a chromosome from start to end, 1-based and inclusive, or null when the region is unknown */
+export type ReferenceLookup = (chromosome: string, start: number, end: number) => string | null | undefined
+
+export interface NormalizedAllele {
+  position: number
+  reference: string
+  alternate: string
+}
+
+const SEQUENCE = /^[ACGTN]+$/
+
+/** Symbolic alleles, breakends and the spanning deletion * have no sequence to normalize */
+export const isSequenceAllele = (allele: string) => SEQUENCE.test(allele)
+
+/**
+ * Trim and left-align one REF/ALT pair, as vt normalize and bcftools norm do
+ */
+export function normalizeAllele(
+  chromosome: string,
+  position: number,
+  reference: string,
+  alternate: string,
+  lookup?: ReferenceLookup,
+): NormalizedAllele {
+  if (!isSequenceAllele(reference) || !isSequenceAllele(alternate) || reference === alternate) {
+    return { position, reference, alternate }
+  }
+
+  let [start, ref, alt] = [position, reference, alternate]
+
+  // Drop the shared last base; an allele that would become empty first takes the base to its left
+  while (ref[ref.length - 1] === alt[alt.length - 1]) {
+    if (ref.length === 1 || alt.length === 1) {
+      const base = start > 1 ? lookup?.(chromosome, start - 1, start - 1)?.toUpperCase() : undefined
+      if (!base || base.length !== 1) break
+
+      ref = base + ref
+      alt = base + alt
+      start--
+    }
+
+    ref = ref.slice(0, -1)
+    alt = alt.slice(0, -1)
+  }
+
+  while (ref.length > 1 && alt.length > 1 && ref[0] === alt[0]) {
+    ref = ref.slice(1)
+    alt = alt.slice(1)
+    start++
+  }
+
+  return { position: start, reference: ref, alternate: alt }
+}
+
+/**
+ * Reference lookup over the sequences of a FASTA file held in memory
+ */
+export function createFastaReference(fasta: string): ReferenceLookup {
+  const sequences = new Map<string, string>()
+  let name: string | null = null
+  let parts: string[] = []
+
+  const finish = () => {
+    if (name !== null) sequences.set(name, parts.join("").toUpperCase())
+  }
+
+  for (const line of fasta.split(/\r?\n/)) {
+    if (line.startsWith(">")) {
+      finish()
+      name = line.slice(1).trim().split(/\s+/)[0]
+      parts = []
+    } else if (name !== null) {
+      parts.push(line.trim())
+    }
+  }
+  finish()
+
+  return (chromosome, start, end) => {
+    const sequence =
+      sequences.get(chromosome) ?? sequences.get(chromosome.replace(/^chr/i, "")) ?? sequences.get(`chr${chromosome}`)
+    if (!sequence || start < 1 || end > sequence.length || end < start) return null
+    return sequence.slice(start - 1, end)
+  }
+}
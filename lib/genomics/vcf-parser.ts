@@ -0,0 +1,604 @@
+/**
+ * Streaming VCF parser
+ * Reads VCF 4.1 to 4.3 as text, gzip or BGZF, one line at a time. INFO and FORMAT values are typed from the header
+ * definitions, multi-allelic records are split into one variant per ALT allele and each is normalized. Malformed
+ * records are skipped and reported with their line number instead of failing the whole file; only a missing or
+ * broken header stops parsing.
+ */
+
+import { Readable } from "node:stream"
+import { createGunzip } from "node:zlib"
+import { isSequenceAllele, normalizeAllele, type ReferenceLookup } from "@/lib/genomics/vcf-normalize"
+
+export class VcfFormatError extends Error {
+  constructor(
+    message: string,
+    public readonly line: number,
+    public readonly statusCode = 422,
+  ) {
+    super(message)
+    this.name = "VcfFormatError"
+  }
+}
+
+export type VcfNumber = number | "A" | "R" | "G" | "."
+
+export type VcfValueType = "Integer" | "Float" | "Flag" | "Character" | "String"
+
+export interface VcfFieldDefinition {
+  id: string
+  number: VcfNumber
+  type: VcfValueType
+  description: string
+}
+
+export type VcfScalar = number | string | null
+
+export type VcfValue = VcfScalar | boolean | VcfScalar[]
+
+export interface VcfHeader {
+  /** e.g. VCFv4.2 */
+  fileFormat: string
+  info: Record<string, VcfFieldDefinition>
+  format: Record<string, VcfFieldDefinition>
+  filters: Record<string, string>
+  contigs: Record<string, { length?: number }>
+  /** Every other meta line, such as ##reference or ##SAMPLE, in file order */
+  meta: Array<{ key: string; value: string }>
+  samples: string[]
+}
+
+export type Zygosity = "hom_ref" | "het" | "hom_alt" | "hemizygous" | "no_call"
+
+export interface VcfGenotype {
+  /** Called alleles relative to the split variant: 1 for its ALT, null for no-calls, 0 for REF and other ALTs */
+  alleles: Array<number | null>
+  phased: boolean
+  zygosity: Zygosity
+  /** FORMAT values other than GT */
+  fields: Record<string, VcfValue>
+}
+
+export interface VcfVariant {
+  /** Line of the record in the file */
+  line: number
+  chromosome: string
+  position: number
+  ids: string[]
+  reference: string
+  alternate: string
+  /** 1-based index of the ALT allele in the record the variant was split from */
+  alleleIndex: number
+  /** Number of ALT alleles in that record */
+  alleleCount: number
+  /** Position and alleles as written in the file, before splitting and normalization */
+  original: { position: number; reference: string; alternate: string }
+  quality: number | null
+  /** PASS, the names of failed filters, or empty when no filters were applied */
+  filters: string[]
+  info: Record<string, VcfValue>
+  genotypes: Record<string, VcfGenotype>
+}
+
+export interface VcfLineError {
+  line: number
+  message: string
+}
+
+export interface VcfParserOptions {
+  /** Reference sequence for left-alignment and REF checks; without one, alleles are only trimmed */
+  reference?: ReferenceLookup
+  /** Errors to keep; errorCount keeps counting past it */
+  maxErrors?: number
+}
+
+export interface VcfParseResult {
+  header: VcfHeader
+  variants: VcfVariant[]
+  errors: VcfLineError[]
+  errorCount: number
+  /** Data lines read, valid or not */
+  recordCount: number
+}
+
+/** Text, bytes or a byte stream, optionally gzip or BGZF compressed */
+export type VcfInput = string | Uint8Array | AsyncIterable<Uint8Array>
+
+/** A record that cannot be read; it is skipped and reported */
+class InvalidRecordError extends Error {}
+
+const FIXED_COLUMNS = ["#CHROM", "POS", "ID", "REF", "ALT", "QUAL", "FILTER", "INFO"]
+
+const VALUE_TYPES: VcfValueType[] = ["Integer", "Float", "Flag", "Character", "String"]
+
+const INTEGER = /^[+-]?\d+$/
+const FLOAT = /^[+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?$|^[+-]?(inf|infinity|nan)$/i
+
+/** ALT alleles that are not plain sequence: symbolic <DEL>, breakends, single breakends and the spanning deletion */
+const SPECIAL_ALLELE = /^(<[^<>]+>|\*|[ACGTN]*[[\]][^[\]]+[[\]][ACGTN]*|\.[ACGTN]+|[ACGTN]+\.)$/
+
+/** Values written when a field has no header definition */
+const UNDECLARED_VALUE: VcfFieldDefinition = { id: "", number: 1, type: "String", description: "" }
+const UNDECLARED_FLAG: VcfFieldDefinition = { id: "", number: 0, type: "Flag", description: "" }
+
+/**
+ * Whether bytes start with the gzip magic number; BGZF files are gzip files made of many members
+ */
+export function isGzip(bytes: Uint8Array): boolean {
+  return bytes.length >= 2 && bytes[0] === 0x1f && bytes[1] === 0x8b
+}
+
+/**
+ * Lines of a VCF, decompressing gzip and BGZF input as it streams in
+ */
+export async function* readVcfLines(input: VcfInput): AsyncGenerator<string> {
+  if (typeof input === "string") {
+    if (input) yield* input.split(/\r?\n/)
+    return
+  }
+
+  const chunks = input instanceof Uint8Array ? [input][Symbol.iterator]() : input[Symbol.asyncIterator]()
+  const first = await chunks.next()
+  if (first.done) return
+
+  const source = Readable.from(
+    (async function* () {
+      yield first.value
+      for (let chunk = await chunks.next(); !chunk.done; chunk = await chunks.next()) yield chunk.value
+    })(),
+  )
+  const stream: AsyncIterable<Uint8Array> = isGzip(first.value) ? source.pipe(createGunzip()) : source
+
+  const decoder = new TextDecoder()
+  let buffered = ""
+  let lineCount = 0
+
+  try {
+    for await (const chunk of stream) {
+      buffered += decoder.decode(chunk, { stream: true })
+      const lines = buffered.split(/\r?\n/)
+      buffered = lines.pop()!
+      lineCount += lines.length
+      yield* lines
+    }
+  } catch (error) {
+    // zlib errors carry Z_ codes, e.g. Z_DATA_ERROR for a damaged block
+    if (!String((error as NodeJS.ErrnoException).code).startsWith("Z_")) throw error
+    throw new VcfFormatError(`The compressed file is damaged: ${(error as Error).message}`, lineCount + 1)
+  }
+
+  buffered += decoder.decode()
+  if (buffered) yield buffered
+}
+
+/**
+ * Key-value pairs of a structured meta line such as ##INFO=<ID=DP,Number=1,Type=Integer,Description="Depth">
+ */
+function parseStructuredMeta(value: string): Record<string, string> {
+  const fields: Record<string, string> = {}
+  const pattern = /([A-Za-z_][\w.]*)=("(?:[^"\\]|\\.)*"|[^,>]*)/g
+
+  for (const match of value.replace(/^<|>$/g, "").matchAll(pattern)) {
+    fields[match[1]] = match[2].replace(/^"|"$/g, "").replace(/\\(["\\])/g, "$1")
+  }
+
+  return fields
+}
+
+/** VCF 4.3 percent-encodes characters with special meaning, such as %3B for ; */
+const percentDecode = (value: string) =>
+  value.replace(/%([0-9A-Fa-f]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+
+/**
+ * The values a field holds for one ALT allele of a split record; ploidy picks the genotype likelihoods of Number=G
+ */
+function alleleValue(value: VcfValue, number: VcfNumber, alleleIndex: number, ploidy: number): VcfValue {
+  if (!Array.isArray(value)) return value
+
+  switch (number) {
+    case "A":
+      return value[alleleIndex - 1] ?? null
+    case "R":
+      return [value[0] ?? null, value[alleleIndex] ?? null]
+    case "G": {
+      if (ploidy === 1) return [value[0] ?? null, value[alleleIndex] ?? null]
+      // Diploid genotypes j/k are ordered by k * (k + 1) / 2 + j
+      const index = (j: number, k: number) => (k * (k + 1)) / 2 + j
+      return [value[0] ?? null, value[index(0, alleleIndex)] ?? null, value[index(alleleIndex, alleleIndex)] ?? null]
+    }
+    default:
+      return value
+  }
+}
+
+function zygosity(alleles: Array<number | null>): Zygosity {
+  const called = alleles.filter((allele): allele is number => allele !== null)
+  if (called.length < alleles.length || called.length === 0) return called.includes(1) ? "het" : "no_call"
+  if (alleles.length === 1) return called[0] === 1 ? "hemizygous" : "hom_ref"
+  if (called.every((allele) => allele === 1)) return "hom_alt"
+  return called.includes(1) ? "het" : "hom_ref"
+}
+
+export class VcfParser {
+  /** Set once the #CHROM line has been read */
+  header: VcfHeader | null = null
+  readonly errors: VcfLineError[] = []
+  errorCount = 0
+  recordCount = 0
+
+  constructor(private readonly options: VcfParserOptions = {}) {}
+
+  /**
+   * Variants of the file, one per ALT allele, as the lines stream in
+   */
+  async *parse(lines: AsyncIterable<string> | Iterable<string>): AsyncGenerator<VcfVariant> {
+    const header: VcfHeader = {
+      fileFormat: "",
+      info: {},
+      format: {},
+      filters: {},
+      contigs: {},
+      meta: [],
+      samples: [],
+    }
+    let lineNumber = 0
+
+    for await (const line of lines) {
+      lineNumber++
+
+      if (this.header) {
+        if (!line.trim()) continue
+        this.recordCount++
+
+        let variants: VcfVariant[] = []
+        try {
+          variants = this.parseRecord(this.header, line, lineNumber)
+        } catch (error) {
+          if (!(error instanceof InvalidRecordError)) throw error
+          this.report(lineNumber, error.message)
+        }
+        yield* variants
+        continue
+      }
+
+      if (lineNumber === 1) {
+        const fileFormat = line.replace(/^\uFEFF/, "").match(/^##fileformat=(VCFv4\.[0-3])\s*$/)?.[1]
+        if (!fileFormat) {
+          throw new VcfFormatError(
+            line.startsWith("##fileformat=")
+              ? `Unsupported format ${line.slice("##fileformat=".length)}, expected VCFv4.1 to VCFv4.3`
+              : "The file does not start with ##fileformat, so it is not a VCF",
+            lineNumber,
+          )
+        }
+        header.fileFormat = fileFormat
+      } else if (line.startsWith("##")) {
+        this.parseMeta(header, line, lineNumber)
+      } else if (line.startsWith("#CHROM")) {
+        this.header = this.parseColumnHeader(header, line, lineNumber)
+      } else if (line.trim()) {
+        throw new VcfFormatError("Records start before the #CHROM header line", lineNumber)
+      }
+    }
+
+    if (!this.header) {
+      throw new VcfFormatError(lineNumber === 0 ? "The file is empty" : "The #CHROM header line is missing", lineNumber)
+    }
+  }
+
+  private report(line: number, message: string) {
+    this.errorCount++
+    if (this.errors.length < (this.options.maxErrors ?? 100)) this.errors.push({ line, message })
+  }
+
+  private parseMeta(header: VcfHeader, line: string, lineNumber: number) {
+    const separator = line.indexOf("=")
+    if (separator < 0) {
+      this.report(lineNumber, "Meta lines must be written as ##key=value")
+      return
+    }
+
+    const key = line.slice(2, separator)
+    const value = line.slice(separator + 1)
+
+    if (key === "INFO" || key === "FORMAT") {
+      const definition = this.parseDefinition(key, parseStructuredMeta(value), lineNumber)
+      if (definition) header[key === "INFO" ? "info" : "format"][definition.id] = definition
+    } else if (key === "FILTER") {
+      const filter = parseStructuredMeta(value)
+      if (filter.ID) header.filters[filter.ID] = filter.Description || ""
+    } else if (key === "contig") {
+      const contig = parseStructuredMeta(value)
+      if (contig.ID) {
+        header.contigs[contig.ID] = { length: INTEGER.test(contig.length) ? Number(contig.length) : undefined }
+      }
+    } else {
+      header.meta.push({ key, value })
+    }
+  }
+
+  private parseDefinition(kind: string, fields: Record<string, string>, lineNumber: number): VcfFieldDefinition | null {
+    if (!fields.ID) {
+      this.report(lineNumber, `${kind} definition has no ID`)
+      return null
+    }
+
+    const number: VcfNumber | null = /^\d+$/.test(fields.Number)
+      ? Number(fields.Number)
+      : ["A", "R", "G", "."].includes(fields.Number)
+        ? (fields.Number as VcfNumber)
+        : null
+    const type = VALUE_TYPES.find((candidate) => candidate === fields.Type)
+
+    if (number === null || !type || (type === "Flag") !== (number === 0)) {
+      this.report(
+        lineNumber,
+        `${kind} ${fields.ID} has Number=${fields.Number} and Type=${fields.Type}; its values are read as text`,
+      )
+      return { id: fields.ID, number: ".", type: "String", description: fields.Description || "" }
+    }
+
+    return { id: fields.ID, number, type, description: fields.Description || "" }
+  }
+
+  private parseColumnHeader(header: VcfHeader, line: string, lineNumber: number): VcfHeader {
+    const columns = line.split("\t")
+
+    if (columns.length === 1 && /\s/.test(line)) {
+      throw new VcfFormatError("Columns of the #CHROM line must be separated by tabs", lineNumber)
+    }
+
+    const missing = FIXED_COLUMNS.find((column, index) => columns[index] !== column)
+    if (missing) throw new VcfFormatError(`The #CHROM line must list ${FIXED_COLUMNS.join(", ")}`, lineNumber)
+    if (columns.length > 8 && columns[8] !== "FORMAT") {
+      throw new VcfFormatError("Sample columns must follow a FORMAT column", lineNumber)
+    }
+
+    const samples = columns.slice(9)
+    const duplicate = samples.find((sample, index) => samples.indexOf(sample) !== index)
+    if (duplicate) throw new VcfFormatError(`Sample ${duplicate} appears twice`, lineNumber)
+
+    return { ...header, samples }
+  }
+
+  /**
+   * A value typed from its definition; context names the field in error messages
+   */
+  private typeValue(
+    header: VcfHeader,
+    definition: VcfFieldDefinition,
+    raw: string | undefined,
+    altCount: number,
+    context: string,
+  ): VcfValue {
+    if (definition.type === "Flag") {
+      if (raw !== undefined) throw new InvalidRecordError(`${context} is a Flag and takes no value`)
+      return true
+    }
+    if (raw === undefined) throw new InvalidRecordError(`${context} has no value`)
+
+    const scalar = (text: string): VcfScalar => {
+      if (text === ".") return null
+
+      switch (definition.type) {
+        case "Integer":
+          if (!INTEGER.test(text)) throw new InvalidRecordError(`${context} value "${text}" is not an Integer`)
+          return Number(text)
+        case "Float":
+          if (!FLOAT.test(text)) throw new InvalidRecordError(`${context} value "${text}" is not a Float`)
+          return Number(text.replace(/^([+-]?)inf(inity)?$/i, "$1Infinity"))
+        default: {
+          const decoded = header.fileFormat === "VCFv4.3" ? percentDecode(text) : text
+          if (definition.type === "Character" && decoded.length !== 1) {
+            throw new InvalidRecordError(`${context} value "${text}" is not a single Character`)
+          }
+          return decoded
+        }
+      }
+    }
+
+    if (definition.number === 1) return scalar(raw)
+    if (raw === ".") return null
+
+    const values = raw.split(",").map(scalar)
+    const expected =
+      definition.number === "A"
+        ? altCount
+        : definition.number === "R"
+          ? altCount + 1
+          : typeof definition.number === "number"
+            ? definition.number
+            : null
+
+    if (expected !== null && values.length !== expected) {
+      throw new InvalidRecordError(`${context} has ${values.length} values, the header declares ${expected}`)
+    }
+
+    return values
+  }
+
+  private parseInfo(header: VcfHeader, column: string, altCount: number): Record<string, VcfValue> {
+    const info: Record<string, VcfValue> = {}
+    if (column === ".") return info
+
+    for (const entry of column.split(";")) {
+      if (!entry) continue
+      const separator = entry.indexOf("=")
+      const key = separator < 0 ? entry : entry.slice(0, separator)
+      const raw = separator < 0 ? undefined : entry.slice(separator + 1)
+      const definition = header.info[key] || (raw === undefined ? UNDECLARED_FLAG : UNDECLARED_VALUE)
+
+      info[key] = this.typeValue(header, definition, raw, altCount, `INFO ${key}`)
+    }
+
+    return info
+  }
+
+  private parseGenotypeCall(value: string, altCount: number, context: string) {
+    const call = value.replace(/^[|/]/, "")
+    const alleles = call.split(/[|/]/).map((allele) => {
+      if (allele === ".") return null
+      if (!/^\d+$/.test(allele)) throw new InvalidRecordError(`${context} GT "${value}" is not a genotype`)
+      if (Number(allele) > altCount) {
+        throw new InvalidRecordError(`${context} GT "${value}" refers to ALT allele ${allele}, which is missing`)
+      }
+      return Number(allele)
+    })
+
+    const separators = call.match(/[|/]/g) || []
+    const phased = separators.length > 0 ? separators.every((separator) => separator === "|") : value.startsWith("|")
+    return { alleles, phased }
+  }
+
+  private parseRecord(header: VcfHeader, line: string, lineNumber: number): VcfVariant[] {
+    const columns = line.split("\t")
+    const expected = header.samples.length > 0 ? 9 + header.samples.length : 8
+
+    if (columns.length === 1 && /\s/.test(line)) throw new InvalidRecordError("Columns must be separated by tabs")
+    if (columns.length < 8 || (header.samples.length > 0 && columns.length !== expected)) {
+      throw new InvalidRecordError(`Expected ${expected} columns, found ${columns.length}`)
+    }
+
+    const [chromosome, pos, id, ref, alt, qual, filter, infoColumn, formatColumn, ...sampleColumns] = columns
+
+    if (!chromosome || /\s/.test(chromosome)) throw new InvalidRecordError("CHROM is empty or contains spaces")
+    if (!/^\d+$/.test(pos)) throw new InvalidRecordError(`POS "${pos}" is not a position`)
+    const position = Number(pos)
+
+    const reference = ref.toUpperCase()
+    if (!isSequenceAllele(reference)) throw new InvalidRecordError(`REF "${ref}" may only contain A, C, G, T and N`)
+
+    const alternates =
+      alt === "." ? [] : alt.split(",").map((allele) => (allele.startsWith("<") ? allele : allele.toUpperCase()))
+    alternates.forEach((allele, index) => {
+      if (!isSequenceAllele(allele) && !SPECIAL_ALLELE.test(allele)) {
+        throw new InvalidRecordError(`ALT "${allele}" is not a sequence, symbolic allele or breakend`)
+      }
+      if (allele === reference) throw new InvalidRecordError(`ALT ${allele} is the same as REF`)
+      if (alternates.indexOf(allele) !== index) throw new InvalidRecordError(`ALT ${allele} is listed twice`)
+    })
+
+    if (qual !== "." && !FLOAT.test(qual)) throw new InvalidRecordError(`QUAL "${qual}" is not a number`)
+
+    const lookup = this.options.reference
+    const expectedReference = lookup?.(chromosome, position, position + reference.length - 1)?.toUpperCase()
+    const mismatch = Array.from(reference).some((base, index) => {
+      const expectedBase = expectedReference?.[index]
+      return expectedBase && base !== "N" && expectedBase !== "N" && base !== expectedBase
+    })
+    if (mismatch) {
+      throw new InvalidRecordError(
+        `REF ${reference} does not match the reference ${expectedReference} at ${chromosome}:${pos}`,
+      )
+    }
+
+    const altCount = alternates.length
+    const info = this.parseInfo(header, infoColumn, altCount)
+    const samples = this.parseSamples(header, formatColumn, sampleColumns, altCount)
+
+    // Sites without an ALT allele, such as gVCF reference blocks, carry no variant
+    return alternates.map((alternate, index) => {
+      const alleleIndex = index + 1
+      const normalized = normalizeAllele(chromosome, position, reference, alternate, lookup)
+
+      const genotypes = Object.fromEntries(
+        samples.map(({ name, call, fields }) => {
+          // As bcftools norm does, other ALT alleles read as REF
+          const alleles = (call?.alleles || []).map((allele) =>
+            allele === null ? null : Number(allele === alleleIndex),
+          )
+          const ploidy = call?.alleles.length || 2
+
+          return [
+            name,
+            {
+              alleles,
+              phased: call?.phased ?? false,
+              zygosity: zygosity(alleles),
+              fields: Object.fromEntries(
+                Object.entries(fields).map(([key, value]) => [
+                  key,
+                  alleleValue(value, header.format[key]?.number ?? 1, alleleIndex, ploidy),
+                ]),
+              ),
+            },
+          ]
+        }),
+      )
+
+      return {
+        line: lineNumber,
+        chromosome,
+        position: normalized.position,
+        ids: id === "." ? [] : id.split(";"),
+        reference: normalized.reference,
+        alternate: normalized.alternate,
+        alleleIndex,
+        alleleCount: altCount,
+        original: { position, reference, alternate },
+        quality: qual === "." ? null : Number(qual),
+        filters: filter === "." ? [] : filter.split(";"),
+        info: Object.fromEntries(
+          Object.entries(info).map(([key, value]) => [
+            key,
+            alleleValue(value, header.info[key]?.number ?? 1, alleleIndex, 2),
+          ]),
+        ),
+        genotypes,
+      }
+    })
+  }
+
+  private parseSamples(header: VcfHeader, formatColumn: string | undefined, columns: string[], altCount: number) {
+    const keys = formatColumn ? formatColumn.split(":") : []
+    if (keys.includes("GT") && keys[0] !== "GT") throw new InvalidRecordError("GT must be the first FORMAT field")
+
+    return header.samples.map((name, index) => {
+      const values = columns[index] === "." ? [] : columns[index].split(":")
+      if (values.length > keys.length) {
+        throw new InvalidRecordError(`Sample ${name} has ${values.length} values for ${keys.length} FORMAT fields`)
+      }
+
+      const fields: Record<string, VcfValue> = {}
+      const call = keys[0] === "GT" && values[0] ? this.parseGenotypeCall(values[0], altCount, `Sample ${name}`) : null
+
+      values.forEach((value, position) => {
+        const key = keys[position]
+        if (key === "GT") return
+        const definition = header.format[key] || UNDECLARED_VALUE
+        fields[key] = this.typeValue(header, definition, value, altCount, `Sample ${name} ${key}`)
+      })
+
+      return { name, call, fields }
+    })
+  }
+}
+
+/**
+ * Read a whole VCF; stops collecting variants after maxVariants and reports where it stopped
+ */
+export async function parseVcf(
+  input: VcfInput,
+  options: VcfParserOptions & { maxVariants?: number } = {},
+): Promise<VcfParseResult> {
+  const parser = new VcfParser(options)
+  const variants: VcfVariant[] = []
+  const maxVariants = options.maxVariants ?? Infinity
+
+  for await (const variant of parser.parse(readVcfLines(input))) {
+    if (variants.length >= maxVariants) {
+      parser.errors.push({ line: variant.line, message: `Only the first ${maxVariants} variants were read` })
+      parser.errorCount++
+      break
+    }
+    variants.push(variant)
+  }
+
+  return {
+    header: parser.header!,
+    variants,
+    errors: parser.errors,
+    errorCount: parser.errorCount,
+    recordCount: parser.recordCount,
+  }
+}
@@ -0,0 +1,239 @@
+/**
+ * VCF variants as the GenomicVariant records the variant viewer shows
+ * Gene, consequence and HGVS come from SnpEff ANN or VEP CSQ annotations when the file has them, significance from
+ * ClinVar's CLNSIG and frequency from gnomAD-style INFO fields. Unannotated variants keep their variant class as the
+ * consequence and an uncertain significance until they are enriched. Structural variants also keep their extent:
+ * symbolic DEL, DUP, INV and CNV alleles run to END, and breakends name the position they join.
+ */
+
+import type {
+  GenomicVariant,
+  StructuralVariant,
+  StructuralVariantType,
+  VariantSignificance,
+} from "@/lib/genomics/types"
+import type { VcfHeader, VcfValue, VcfVariant } from "@/lib/genomics/vcf-parser"
+
+/** Leading SnpEff ANN sub-fields, as fixed by the ANN specification */
+const ANN_FIELDS = [
+  "Allele",
+  "Annotation",
+  "Annotation_Impact",
+  "Gene_Name",
+  "Gene_ID",
+  "Feature_Type",
+  "Feature_ID",
+  "Transcript_BioType",
+  "Rank",
+  "HGVS.c",
+]
+
+/** INFO fields holding the population allele frequency, most specific first */
+const FREQUENCY_FIELDS = ["gnomAD_AF", "gnomADg_AF", "gnomADe_AF", "AF_popmax", "ExAC_AF", "AF"]
+
+/** First term of a ClinVar CLNSIG value such as Pathogenic/Likely_pathogenic */
+const CLINVAR_SIGNIFICANCE: Record<string, VariantSignificance> = {
+  pathogenic: "pathogenic",
+  likely_pathogenic: "likely_pathogenic",
+  uncertain_significance: "uncertain",
+  likely_benign: "likely_benign",
+  benign: "benign",
+}
+
+/** Variant classes with an extent beyond their alleles; subtypes such as <DUP:TANDEM> read as their class */
+const STRUCTURAL_TYPES: StructuralVariantType[] = ["DEL", "DUP", "INV", "BND", "CNV"]
+
+/** Breakend ALT such as N[chr2:321682[ or ]13:123456]AGTNNNNNCA; the brackets hold the joined position */
+const BREAKEND = /^[ACGTN]*[[\]](.+):(\d+)[[\]][ACGTN]*$/i
+
+interface Annotation {
+  gene?: string
+  consequence?: string
+  hgvs?: string
+}
+
+export const textValues = (value: VcfValue | undefined): string[] =>
+  (Array.isArray(value) ? value : [value]).filter((item): item is string => typeof item === "string" && item !== "")
+
+/**
+ * Sub-field names of VEP's CSQ, read from its header description "... Format: Allele|Consequence|..."
+ */
+export function csqFields(header: VcfHeader): string[] {
+  return header.info.CSQ?.description.match(/Format:\s*(\S+)/)?.[1].split("|") || []
+}
+
+/** VEP writes indel alleles without the padding base, and deletions as - */
+const vepAllele = ({ original }: VcfVariant) =>
+  original.reference[0] === original.alternate[0] ? original.alternate.slice(1) || "-" : original.alternate
+
+/**
+ * The annotation of the variant's own ALT allele; multi-allelic records carry annotations for every allele
+ */
+function findAnnotation(variant: VcfVariant, header: VcfHeader): Annotation {
+  const alleles = [variant.original.alternate, vepAllele(variant)]
+
+  const ann = textValues(variant.info.ANN).map((entry) => entry.split("|"))
+  const annMatch = ann.find((fields) => fields[0] === alleles[0]) || (variant.alleleCount === 1 ? ann[0] : undefined)
+  if (annMatch) {
+    return {
+      gene: annMatch[ANN_FIELDS.indexOf("Gene_Name")] || undefined,
+      consequence: annMatch[ANN_FIELDS.indexOf("Annotation")]?.split("&")[0] || undefined,
+      hgvs: annMatch[ANN_FIELDS.indexOf("HGVS.c")] || undefined,
+    }
+  }
+
+  const fields = csqFields(header)
+  const csq = textValues(variant.info.CSQ).map((entry) =>
+    Object.fromEntries(entry.split("|").map((value, index) => [fields[index], value])),
+  )
+  const csqMatch =
+    csq.find((entry) => alleles.includes(entry.Allele) && entry.PICK === "1") ||
+    csq.find((entry) => alleles.includes(entry.Allele)) ||
+    (variant.alleleCount === 1 ? csq[0] : undefined)
+  if (csqMatch) {
+    return {
+      gene: csqMatch.SYMBOL || undefined,
+      consequence: csqMatch.Consequence?.split("&")[0] || undefined,
+      // VEP prefixes HGVSc with the transcript, e.g. ENST00000357654.9:c.5266dup
+      hgvs: csqMatch.HGVSc?.split(":").pop() || undefined,
+    }
+  }
+
+  return {}
+}
+
+/**
+ * Sequence Ontology class of an unannotated variant
+ */
+export function variantClass(variant: Pick<VcfVariant, "reference" | "alternate" | "info">): string {
+  const { reference, alternate } = variant
+  const svType = textValues(variant.info.SVTYPE)[0]
+
+  if (svType) return svType
+  if (alternate.startsWith("<")) return alternate.slice(1, -1).split(":")[0]
+  if (/[[\]]/.test(alternate) || alternate.startsWith(".") || alternate.endsWith(".")) return "BND"
+  if (reference.length === 1 && alternate.length === 1) return "SNV"
+  if (reference.length === alternate.length) return "MNV"
+  if (reference.length === 1 && alternate[0] === reference[0]) return "insertion"
+  if (alternate.length === 1 && alternate[0] === reference[0]) return "deletion"
+  return "delins"
+}
+
+/**
+ * Significance of a ClinVar CLNSIG value; conflicting classifications and other terms count as uncertain
+ */
+export function clinvarSignificance(clnsig: string | undefined): VariantSignificance {
+  const term = clnsig?.split(/[/|,]/)[0].toLowerCase()
+  return (term && CLINVAR_SIGNIFICANCE[term]) || "uncertain"
+}
+
+/** First value of a numeric field; fields without a header definition arrive as text */
+function numberValue(value: VcfValue | undefined): number | null {
+  const first = Array.isArray(value) ? value[0] : value
+  const number = typeof first === "string" && first !== "" ? Number(first) : first
+  return typeof number === "number" && Number.isFinite(number) ? number : null
+}
+
+/**
+ * Extent of a structural variant record, or null for small variants
+ * A symbolic allele's POS is the base before the event, so it ends at END or SVLEN bases on. Sequence-resolved
+ * records count when they carry SVTYPE. The copy number is INFO CN, or the first sample's FORMAT CN.
+ */
+export function structuralVariant(
+  variant: Pick<VcfVariant, "position" | "reference" | "alternate" | "info" | "genotypes">,
+): StructuralVariant | null {
+  const type = variantClass(variant).split(":")[0].toUpperCase() as StructuralVariantType
+  if (!STRUCTURAL_TYPES.includes(type)) return null
+
+  if (type === "BND") {
+    const joined = variant.alternate.match(BREAKEND)
+    return {
+      type,
+      end: variant.position,
+      length: null,
+      mate: joined ? { chromosome: viewerChromosome(joined[1]), position: Number(joined[2]) } : null,
+      copyNumber: null,
+      log2Ratio: null,
+    }
+  }
+
+  const svLength = numberValue(variant.info.SVLEN)
+  const sequenceEnd = variant.position + Math.max(variant.reference.length - 1, 0)
+  const end = Math.max(
+    numberValue(variant.info.END) ?? (svLength !== null ? variant.position + Math.abs(svLength) : sequenceEnd),
+    variant.position,
+  )
+  const sample = Object.values(variant.genotypes)[0]
+
+  return {
+    type,
+    end,
+    length: svLength !== null ? Math.abs(svLength) : end > variant.position ? end - variant.position : null,
+    mate: null,
+    copyNumber: numberValue(variant.info.CN) ?? numberValue(sample?.fields.CN),
+    // CNVkit writes the segment's log2 ratio as FOLD_CHANGE_LOG
+    log2Ratio: numberValue(variant.info.FOLD_CHANGE_LOG),
+  }
+}
+
+/**
+ * Rearrangements as one variant each: both sides of a breakend pair are records, and the second names the first
+ */
+export function pairBreakends(variants: GenomicVariant[]): GenomicVariant[] {
+  const joins = new Set<string>()
+
+  return variants.filter((variant) => {
+    const mate = variant.structural?.type === "BND" ? variant.structural.mate : null
+    if (!mate) return true
+
+    const side = `${variant.chromosome}:${variant.position}`
+    const other = `${mate.chromosome}:${mate.position}`
+    if (joins.has(`${other}>${side}`)) return false
+    joins.add(`${side}>${other}`)
+    return true
+  })
+}
+
+function frequency(variant: VcfVariant): number {
+  for (const field of FREQUENCY_FIELDS) {
+    const value = variant.info[field]
+    const number = Array.isArray(value) ? value[0] : value
+    if (typeof number === "number" && Number.isFinite(number)) return number
+  }
+
+  return 0
+}
+
+/** Chromosome name as the viewer writes it: no chr prefix, and MT for the mitochondrial genome */
+export const viewerChromosome = (chromosome: string) => chromosome.replace(/^chr/i, "").replace(/^M$/i, "MT")
+
+/**
+ * Identity of a normalized variant, e.g. 17-43094464-T-TA; variants from different files match on it
+ */
+export const variantKey = (variant: Pick<GenomicVariant, "chromosome" | "position" | "reference" | "alternate">) =>
+  `${viewerChromosome(variant.chromosome)}-${variant.position}-${variant.reference}-${variant.alternate}`
+
+/**
+ * The viewer's shape of a parsed variant; chromosomes are written without the chr prefix, as the viewer does
+ */
+export function toGenomicVariant(variant: VcfVariant, header: VcfHeader): GenomicVariant {
+  const annotation = findAnnotation(variant, header)
+  const chromosome = viewerChromosome(variant.chromosome)
+  const geneInfo = textValues(variant.info.GENEINFO)[0]?.split(":")[0]
+  const structural = structuralVariant(variant)
+
+  return {
+    id: variantKey({ ...variant, chromosome }),
+    position: variant.position,
+    chromosome,
+    reference: variant.reference,
+    alternate: variant.alternate,
+    gene: annotation.gene || geneInfo || textValues(variant.info.GENE)[0] || "",
+    consequence: annotation.consequence || variantClass(variant),
+    significance: clinvarSignificance(textValues(variant.info.CLNSIG)[0]),
+    frequency: frequency(variant),
+    rsid: variant.ids.find((id) => /^rs\d+$/.test(id)),
+    hgvs: annotation.hgvs || textValues(variant.info.CLNHGVS)[0],
+    ...(structural && { structural }),
+  }
+}
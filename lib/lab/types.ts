@@ -0,0 +1,34 @@
+/**
+ * Laboratory result types shared by the lab results panel and the server-side analysis code
+ */
+
+export type LabTestStatus = "normal" | "abnormal" | "critical" | "pending"
+
+export interface LabTest {
+  id: string
+  name: string
+  value: number | string
+  unit: string
+  referenceRange: string
+  status: LabTestStatus
+  timestamp: string
+  trend?: "increasing" | "decreasing" | "stable"
+  previousValue?: number | string
+  notes?: string
+}
+
+export interface LabPanel {
+  id: string
+  name: string
+  category: string
+  collectedAt: string
+  receivedAt: string
+  reportedAt: string
+  status: "complete" | "partial" | "pending"
+  tests: LabTest[]
+  provider: string
+  specimenType: string
+  specimenId: string
+  orderedBy: string
+  notes?: string
+}
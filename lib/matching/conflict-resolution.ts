@@ -0,0 +1,423 @@
+/**
+ * Duplicate patient resolution
+ * Collects patient records from FHIR, uploaded VCFs and lab reports, proposes merges for pairs the matcher scores
+ * as the same patient, and applies reviewers' decisions. Merging links the records under one master id and keeps
+ * the value the reviewer chose for every field they disagreed on; every decision lands in the audit trail.
+ */
+
+import { createHash } from "node:crypto"
+import type { FhirClient, FhirPatient } from "@/lib/fhir/fhir-client"
+import { getServiceSupabaseClient } from "@/lib/supabase/server"
+import {
+  InMemoryPatientMatchStore,
+  SupabasePatientMatchStore,
+  type MatchProposalStatus,
+  type MatchResolutionAction,
+  type PatientMatchAuditEntry,
+  type PatientMatchProposal,
+  type PatientMatchStore,
+  type PatientSourceRecord,
+} from "@/lib/matching/match-store"
+import {
+  MATCH_FIELDS,
+  candidatePairs,
+  matchPatients,
+  type MatchField,
+  type PatientDemographics,
+} from "@/lib/matching/patient-matcher"
+import {
+  fromFhirPatient,
+  fromLabReport,
+  fromVcfHeader,
+  type LabReportPatient,
+  type PatientRecordSource,
+  type PatientSourceRecordInput,
+} from "@/lib/matching/source-records"
+
+export class ConflictResolutionError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode = 400,
+  ) {
+    super(message)
+    this.name = "ConflictResolutionError"
+  }
+}
+
+/** A proposal with both of its records */
+export type MatchProposalView = PatientMatchProposal & {
+  left: PatientSourceRecord
+  right: PatientSourceRecord
+}
+
+/** Records to add: demographics as is, the header of an uploaded VCF, or lab report patient headers */
+export interface MatchIngestRequest {
+  records?: unknown
+  vcf?: unknown
+  file_name?: unknown
+  lab_reports?: unknown
+}
+
+export interface MatchResolutionRequest {
+  action?: unknown
+  /** For merges, which record's value to keep for each field the records disagree on */
+  choices?: unknown
+  note?: unknown
+}
+
+export interface MatchRefreshResult {
+  records: number
+  /** Proposals waiting for review */
+  open: number
+}
+
+const SOURCES: PatientRecordSource[] = ["fhir", "vcf", "lab"]
+
+const RESOLUTION_ACTIONS: MatchResolutionAction[] = ["merge", "not_duplicate", "defer"]
+
+const ACTION_STATUSES: Record<MatchResolutionAction, MatchProposalStatus> = {
+  merge: "merged",
+  not_duplicate: "not_duplicate",
+  defer: "deferred",
+}
+
+const UNRESOLVED: MatchProposalStatus[] = ["open", "deferred"]
+
+/** Stable id for a pair of records, so rescoring updates the same proposal */
+function proposalId(leftId: string, rightId: string): string {
+  return createHash("sha256").update(`${leftId}\n${rightId}`).digest("hex").slice(0, 20)
+}
+
+const optionalString = (value: unknown) => (typeof value === "string" && value.trim() ? value.trim() : undefined)
+
+function validateDemographics(value: unknown): PatientDemographics {
+  if (!value || typeof value !== "object") throw new ConflictResolutionError("Each record needs demographics")
+  const demographics = value as Record<string, unknown>
+
+  return {
+    family: optionalString(demographics.family),
+    given: Array.isArray(demographics.given) ? demographics.given.flatMap((name) => optionalString(name) || []) : [],
+    birthDate: optionalString(demographics.birthDate),
+    gender: optionalString(demographics.gender),
+    identifiers: Array.isArray(demographics.identifiers)
+      ? demographics.identifiers.flatMap((identifier) =>
+          optionalString(identifier?.value)
+            ? [{ system: optionalString(identifier.system), value: optionalString(identifier.value)! }]
+            : [],
+        )
+      : [],
+    phone: optionalString(demographics.phone),
+    email: optionalString(demographics.email),
+    postalCode: optionalString(demographics.postalCode),
+  }
+}
+
+/**
+ * Source records from an ingest request body
+ */
+export function parseIngestRequest(request: MatchIngestRequest): PatientSourceRecordInput[] {
+  const inputs: PatientSourceRecordInput[] = []
+
+  if (request.records !== undefined) {
+    if (!Array.isArray(request.records)) throw new ConflictResolutionError("records must be an array")
+
+    request.records.forEach((record) => {
+      if (!SOURCES.includes(record?.source) || !optionalString(record?.source_id)) {
+        throw new ConflictResolutionError(`Each record needs a source (${SOURCES.join(", ")}) and a source_id`)
+      }
+
+      inputs.push({
+        source: record.source,
+        source_id: optionalString(record.source_id)!,
+        label: optionalString(record.label) || `${record.source} ${record.source_id}`,
+        demographics: validateDemographics(record.demographics),
+      })
+    })
+  }
+
+  if (request.vcf !== undefined) {
+    if (typeof request.vcf !== "string") throw new ConflictResolutionError("vcf must be the text of a VCF file")
+    inputs.push(...fromVcfHeader(request.vcf, optionalString(request.file_name) || "upload.vcf"))
+  }
+
+  if (request.lab_reports !== undefined) {
+    if (!Array.isArray(request.lab_reports)) throw new ConflictResolutionError("lab_reports must be an array")
+
+    request.lab_reports.forEach((report: Partial<LabReportPatient>) => {
+      if (!optionalString(report?.reportId) || !optionalString(report?.name)) {
+        throw new ConflictResolutionError("Each lab report needs a reportId and the patient's name")
+      }
+      inputs.push(fromLabReport(report as LabReportPatient))
+    })
+  }
+
+  if (inputs.length === 0) {
+    throw new ConflictResolutionError("Nothing to match: send records, a vcf with ##SAMPLE lines, or lab_reports")
+  }
+
+  return inputs
+}
+
+type MergeChoices = Partial<Record<MatchField, "left" | "right">>
+
+function validateChoices(proposal: PatientMatchProposal, choices: unknown): MergeChoices {
+  if (choices !== undefined && (typeof choices !== "object" || choices === null || Array.isArray(choices))) {
+    throw new ConflictResolutionError('choices must map fields to "left" or "right"')
+  }
+
+  const value = (choices || {}) as Record<string, unknown>
+  Object.entries(value).forEach(([field, choice]) => {
+    if (!MATCH_FIELDS.includes(field as MatchField) || (choice !== "left" && choice !== "right")) {
+      throw new ConflictResolutionError(`Invalid choice ${JSON.stringify(choice)} for ${field}`)
+    }
+  })
+
+  const undecided = proposal.fields
+    .filter((field) => (field.outcome === "conflict" || field.outcome === "partial") && !value[field.field])
+    .map((field) => field.field)
+
+  if (undecided.length > 0) {
+    throw new ConflictResolutionError(`Choose which value to keep for ${undecided.join(", ")}`)
+  }
+
+  return value as MergeChoices
+}
+
+export class ConflictResolutionService {
+  constructor(private readonly store: PatientMatchStore) {}
+
+  /**
+   * Add or update source records and rescore
+   */
+  async ingest(inputs: PatientSourceRecordInput[], now = new Date()): Promise<MatchRefreshResult> {
+    const ids = inputs.map((input) => `${input.source}:${input.source_id}`)
+    const existing = new Map((await this.store.getRecords(ids)).map((record) => [record.id, record]))
+
+    await this.store.saveRecords(
+      inputs.map((input, index) => ({
+        ...input,
+        id: ids[index],
+        master_id: existing.get(ids[index])?.master_id || ids[index],
+        received_at: now.toISOString(),
+      })),
+    )
+
+    return this.refresh(now)
+  }
+
+  /**
+   * Pull every patient from the FHIR server into matching
+   */
+  async importFhirPatients(client: FhirClient, maxPages = 20): Promise<MatchRefreshResult> {
+    const patients = await client.searchAll<FhirPatient>("Patient", { _count: 100 }, maxPages)
+    return this.ingest(patients.map((patient) => fromFhirPatient(patient, client.getBaseUrl())))
+  }
+
+  /**
+   * Score every candidate pair, opening proposals for likely duplicates
+   * Pairs already merged or marked as different patients are not proposed again
+   */
+  async refresh(now = new Date()): Promise<MatchRefreshResult> {
+    const records = await this.store.listRecords()
+    const proposals = new Map((await this.store.listProposals()).map((proposal) => [proposal.id, proposal]))
+    const byId = new Map(records.map((record) => [record.id, record]))
+    const updates: PatientMatchProposal[] = []
+
+    for (const [left, right] of candidatePairs(records)) {
+      const leftRecord = byId.get(left.id)!
+      const rightRecord = byId.get(right.id)!
+      if (leftRecord.master_id === rightRecord.master_id) continue
+
+      const id = proposalId(left.id, right.id)
+      const existing = proposals.get(id)
+      if (existing && !UNRESOLVED.includes(existing.status)) continue
+
+      const result = matchPatients(left.demographics, right.demographics)
+      if (!result.classification) continue
+
+      const proposal: PatientMatchProposal = {
+        id,
+        left_record_id: left.id,
+        right_record_id: right.id,
+        score: result.score,
+        weight: result.weight,
+        classification: result.classification,
+        fields: result.fields,
+        status: existing?.status || "open",
+        merged_demographics: null,
+        resolved_by: existing?.resolved_by || null,
+        resolved_at: existing?.resolved_at || null,
+        created_at: existing?.created_at || now.toISOString(),
+        updated_at: now.toISOString(),
+      }
+      proposals.set(id, proposal)
+      updates.push(proposal)
+    }
+
+    await this.store.saveProposals(updates)
+
+    return {
+      records: records.length,
+      open: Array.from(proposals.values()).filter((proposal) => proposal.status === "open").length,
+    }
+  }
+
+  /**
+   * Proposals with their records, most likely duplicates first
+   */
+  async list(statuses: MatchProposalStatus[] = UNRESOLVED): Promise<MatchProposalView[]> {
+    const proposals = (await this.store.listProposals()).filter((proposal) => statuses.includes(proposal.status))
+    const records = await this.store.getRecords(
+      Array.from(new Set(proposals.flatMap((proposal) => [proposal.left_record_id, proposal.right_record_id]))),
+    )
+    const byId = new Map(records.map((record) => [record.id, record]))
+
+    return proposals
+      .filter((proposal) => byId.has(proposal.left_record_id) && byId.has(proposal.right_record_id))
+      .map((proposal) => ({
+        ...proposal,
+        left: byId.get(proposal.left_record_id)!,
+        right: byId.get(proposal.right_record_id)!,
+      }))
+      .sort((a, b) => b.score - a.score)
+  }
+
+  async get(proposalId: string): Promise<MatchProposalView> {
+    const proposal = await this.store.getProposal(proposalId)
+    if (!proposal) throw new ConflictResolutionError(`Match proposal ${proposalId} not found`, 404)
+
+    const [left, right] = await Promise.all([
+      this.store.getRecords([proposal.left_record_id]),
+      this.store.getRecords([proposal.right_record_id]),
+    ])
+    if (!left[0] || !right[0]) throw new ConflictResolutionError(`Records of proposal ${proposalId} are gone`, 410)
+
+    return { ...proposal, left: left[0], right: right[0] }
+  }
+
+  async audit(proposalId?: string): Promise<PatientMatchAuditEntry[]> {
+    return this.store.listAudit(proposalId)
+  }
+
+  /**
+   * Merge the records, mark them as different patients, or defer the decision
+   */
+  async resolve(
+    proposalId: string,
+    request: MatchResolutionRequest,
+    actor: string,
+    now = new Date(),
+  ): Promise<MatchProposalView> {
+    const action = request.action as MatchResolutionAction
+    if (!RESOLUTION_ACTIONS.includes(action)) {
+      throw new ConflictResolutionError(`action must be one of ${RESOLUTION_ACTIONS.join(", ")}`)
+    }
+
+    if (request.note !== undefined && request.note !== null && typeof request.note !== "string") {
+      throw new ConflictResolutionError("note must be a string")
+    }
+
+    const proposal = await this.get(proposalId)
+    if (!UNRESOLVED.includes(proposal.status)) {
+      throw new ConflictResolutionError(`Match proposal ${proposalId} was already resolved as ${proposal.status}`, 409)
+    }
+
+    const choices = action === "merge" ? validateChoices(proposal, request.choices) : {}
+    const decisions =
+      action === "merge"
+        ? proposal.fields.map((field) => ({
+            field: field.field,
+            left: field.left,
+            right: field.right,
+            chosen: choices[field.field] === "right" ? field.right : field.left ?? field.right,
+          }))
+        : []
+
+    const resolved: MatchProposalView = {
+      ...proposal,
+      status: ACTION_STATUSES[action],
+      merged_demographics:
+        action === "merge" ? Object.fromEntries(decisions.map((decision) => [decision.field, decision.chosen])) : null,
+      resolved_by: actor,
+      resolved_at: now.toISOString(),
+      updated_at: now.toISOString(),
+    }
+
+    const { left, right, ...stored } = resolved
+    await this.store.saveProposals([stored])
+    await this.store.appendAudit({
+      id: crypto.randomUUID(),
+      proposal_id: proposal.id,
+      action,
+      actor,
+      left_record_id: left.id,
+      right_record_id: right.id,
+      score: proposal.score,
+      decisions: decisions.filter((decision) => decision.left !== decision.right),
+      note: (request.note as string | undefined)?.trim() || null,
+      created_at: now.toISOString(),
+    })
+
+    if (action === "merge") await this.linkRecords(resolved, actor, now)
+
+    return resolved
+  }
+
+  /**
+   * Move the right record's group under the left record's master id, closing proposals the merge settles
+   */
+  private async linkRecords(proposal: MatchProposalView, actor: string, now: Date) {
+    const records = await this.store.listRecords()
+    const masterId = proposal.left.master_id
+    const moved = records
+      .filter((record) => record.master_id === proposal.right.master_id)
+      .map((record) => ({ ...record, master_id: masterId }))
+    await this.store.saveRecords(moved)
+
+    const masters = new Map(records.map((record) => [record.id, record.master_id]))
+    moved.forEach((record) => masters.set(record.id, masterId))
+
+    const settled = (await this.store.listProposals()).filter(
+      (candidate) =>
+        candidate.id !== proposal.id &&
+        UNRESOLVED.includes(candidate.status) &&
+        masters.get(candidate.left_record_id) === masters.get(candidate.right_record_id),
+    )
+
+    for (const candidate of settled) {
+      const resolvedAt = now.toISOString()
+      await this.store.saveProposals([
+        { ...candidate, status: "merged", resolved_by: actor, resolved_at: resolvedAt, updated_at: resolvedAt },
+      ])
+      await this.store.appendAudit({
+        id: crypto.randomUUID(),
+        proposal_id: candidate.id,
+        action: "merge",
+        actor,
+        left_record_id: candidate.left_record_id,
+        right_record_id: candidate.right_record_id,
+        score: candidate.score,
+        decisions: [],
+        note: `Linked by the merge of proposal ${proposal.id}`,
+        created_at: now.toISOString(),
+      })
+    }
+  }
+}
+
+const globalForMatching = globalThis as unknown as { conflictResolutionService?: ConflictResolutionService }
+
+/**
+ * Shared conflict resolution service for the API routes
+ */
+export function getConflictResolutionService(): ConflictResolutionService {
+  if (!globalForMatching.conflictResolutionService) {
+    const supabase = getServiceSupabaseClient()
+
+    globalForMatching.conflictResolutionService = new ConflictResolutionService(
+      supabase ? new SupabasePatientMatchStore(supabase) : new InMemoryPatientMatchStore(),
+    )
+  }
+
+  return globalForMatching.conflictResolutionService
+}
@@ -0,0 +1,190 @@
+/**
+ * Persistence for patient matching
+ * Source records, match proposals and the audit trail of resolutions are stored in Supabase when a service role
+ * key is configured, otherwise kept in memory. Audit entries are only ever appended.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type {
+  FieldComparison,
+  MatchClassification,
+  MatchField,
+  PatientDemographics,
+} from "@/lib/matching/patient-matcher"
+import type { PatientRecordSource } from "@/lib/matching/source-records"
+
+export interface PatientSourceRecord {
+  /** source:source_id */
+  id: string
+  source: PatientRecordSource
+  source_id: string
+  label: string
+  demographics: PatientDemographics
+  /** Records merged into the same patient share a master id, the id of the first record of the group */
+  master_id: string
+  received_at: string
+}
+
+export type MatchProposalStatus = "open" | "deferred" | "merged" | "not_duplicate"
+
+export type MatchResolutionAction = "merge" | "not_duplicate" | "defer"
+
+export interface PatientMatchProposal {
+  id: string
+  left_record_id: string
+  right_record_id: string
+  /** Probability the records belong to the same patient */
+  score: number
+  weight: number
+  classification: MatchClassification
+  fields: FieldComparison[]
+  status: MatchProposalStatus
+  /** Demographics chosen field by field when the records were merged */
+  merged_demographics: Partial<Record<MatchField, string | null>> | null
+  resolved_by: string | null
+  resolved_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface PatientMatchAuditEntry {
+  id: string
+  proposal_id: string
+  action: MatchResolutionAction
+  actor: string
+  left_record_id: string
+  right_record_id: string
+  /** Score when the decision was made */
+  score: number
+  /** For merges, the value kept for each field the records disagreed on */
+  decisions: Array<{ field: MatchField; left: string | null; right: string | null; chosen: string | null }>
+  note: string | null
+  created_at: string
+}
+
+export interface PatientMatchStore {
+  listRecords(): Promise<PatientSourceRecord[]>
+  getRecords(recordIds: string[]): Promise<PatientSourceRecord[]>
+  saveRecords(records: PatientSourceRecord[]): Promise<void>
+  listProposals(): Promise<PatientMatchProposal[]>
+  getProposal(proposalId: string): Promise<PatientMatchProposal | null>
+  saveProposals(proposals: PatientMatchProposal[]): Promise<void>
+  appendAudit(entry: PatientMatchAuditEntry): Promise<void>
+  /** Newest first, for one proposal or all of them */
+  listAudit(proposalId?: string): Promise<PatientMatchAuditEntry[]>
+}
+
+export class InMemoryPatientMatchStore implements PatientMatchStore {
+  private records = new Map<string, PatientSourceRecord>()
+  private proposals = new Map<string, PatientMatchProposal>()
+  private audit: PatientMatchAuditEntry[] = []
+
+  async listRecords(): Promise<PatientSourceRecord[]> {
+    return Array.from(this.records.values(), (record) => structuredClone(record))
+  }
+
+  async getRecords(recordIds: string[]): Promise<PatientSourceRecord[]> {
+    return recordIds.flatMap((id) => {
+      const record = this.records.get(id)
+      return record ? [structuredClone(record)] : []
+    })
+  }
+
+  async saveRecords(records: PatientSourceRecord[]): Promise<void> {
+    records.forEach((record) => this.records.set(record.id, structuredClone(record)))
+  }
+
+  async listProposals(): Promise<PatientMatchProposal[]> {
+    return Array.from(this.proposals.values(), (proposal) => structuredClone(proposal))
+  }
+
+  async getProposal(proposalId: string): Promise<PatientMatchProposal | null> {
+    const proposal = this.proposals.get(proposalId)
+    return proposal ? structuredClone(proposal) : null
+  }
+
+  async saveProposals(proposals: PatientMatchProposal[]): Promise<void> {
+    proposals.forEach((proposal) => this.proposals.set(proposal.id, structuredClone(proposal)))
+  }
+
+  async appendAudit(entry: PatientMatchAuditEntry): Promise<void> {
+    this.audit.push(structuredClone(entry))
+  }
+
+  async listAudit(proposalId?: string): Promise<PatientMatchAuditEntry[]> {
+    return this.audit
+      .filter((entry) => !proposalId || entry.proposal_id === proposalId)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .map((entry) => structuredClone(entry))
+  }
+}
+
+/**
+ * Matching data in the Supabase patient_source_records, patient_match_proposals and patient_match_audit tables
+ */
+export class SupabasePatientMatchStore implements PatientMatchStore {
+  private readonly recordTable = "patient_source_records"
+  private readonly proposalTable = "patient_match_proposals"
+  private readonly auditTable = "patient_match_audit"
+
+  constructor(private readonly supabase: SupabaseClient) {}
+
+  async listRecords(): Promise<PatientSourceRecord[]> {
+    const { data, error } = await this.supabase.from(this.recordTable).select("*")
+
+    if (error) throw new Error(`Failed to load patient source records: ${error.message}`)
+    return data || []
+  }
+
+  async getRecords(recordIds: string[]): Promise<PatientSourceRecord[]> {
+    if (recordIds.length === 0) return []
+    const { data, error } = await this.supabase.from(this.recordTable).select("*").in("id", recordIds)
+
+    if (error) throw new Error(`Failed to load patient source records: ${error.message}`)
+    return data || []
+  }
+
+  async saveRecords(records: PatientSourceRecord[]): Promise<void> {
+    if (records.length === 0) return
+    const { error } = await this.supabase.from(this.recordTable).upsert(records, { onConflict: "id" })
+
+    if (error) throw new Error(`Failed to store patient source records: ${error.message}`)
+  }
+
+  async listProposals(): Promise<PatientMatchProposal[]> {
+    const { data, error } = await this.supabase.from(this.proposalTable).select("*")
+
+    if (error) throw new Error(`Failed to load patient match proposals: ${error.message}`)
+    return data || []
+  }
+
+  async getProposal(proposalId: string): Promise<PatientMatchProposal | null> {
+    const { data, error } = await this.supabase.from(this.proposalTable).select("*").eq("id", proposalId).maybeSingle()
+
+    if (error) throw new Error(`Failed to load patient match proposal: ${error.message}`)
+    return data
+  }
+
+  async saveProposals(proposals: PatientMatchProposal[]): Promise<void> {
+    if (proposals.length === 0) return
+    const { error } = await this.supabase.from(this.proposalTable).upsert(proposals, { onConflict: "id" })
+
+    if (error) throw new Error(`Failed to store patient match proposals: ${error.message}`)
+  }
+
+  async appendAudit(entry: PatientMatchAuditEntry): Promise<void> {
+    const { error } = await this.supabase.from(this.auditTable).insert(entry)
+
+    if (error) throw new Error(`Failed to record patient match decision: ${error.message}`)
+  }
+
+  async listAudit(proposalId?: string): Promise<PatientMatchAuditEntry[]> {
+    let query = this.supabase.from(this.auditTable).select("*")
+    if (proposalId) query = query.eq("proposal_id", proposalId)
+
+    const { data, error } = await query.order("created_at", { ascending: false })
+
+    if (error) throw new Error(`Failed to load patient match audit trail: ${error.message}`)
+    return data || []
+  }
+}
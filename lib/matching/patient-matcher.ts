@@ -0,0 +1,311 @@
+/**
+ * Probabilistic patient matching
+ * Scores pairs of demographic records Fellegi-Sunter style: every field that agrees adds log2(m/u) and every
+ * field that disagrees adds log2((1-m)/(1-u)), where m is how often the field agrees for records of the same
+ * patient and u how often it agrees by chance. Names are compared with Jaro-Winkler so typos count as partial
+ * agreement, and birth dates with swapped day and month as near misses. Only pairs sharing a blocking key (birth
+ * date, identifier, phone or the Soundex of the family name) are compared.
+ */
+
+export interface PatientDemographics {
+  family?: string
+  given?: string[]
+  /** YYYY-MM-DD, or a shorter partial date */
+  birthDate?: string
+  gender?: string
+  identifiers?: Array<{ system?: string; value: string }>
+  phone?: string
+  email?: string
+  postalCode?: string
+}
+
+export type MatchField = "identifier" | "family" | "given" | "birthDate" | "gender" | "phone" | "email" | "postalCode"
+
+export type FieldOutcome = "agree" | "partial" | "conflict" | "missing"
+
+export interface FieldComparison {
+  field: MatchField
+  left: string | null
+  right: string | null
+  outcome: FieldOutcome
+  /** 0 to 1, 1 for identical values */
+  similarity: number
+  /** Contribution to the match weight in bits */
+  weight: number
+}
+
+export type MatchClassification = "probable" | "possible"
+
+export interface PatientMatchResult {
+  /** Sum of the field weights */
+  weight: number
+  /** Probability the records belong to the same patient */
+  score: number
+  classification: MatchClassification | null
+  fields: FieldComparison[]
+}
+
+export interface MatchCandidate {
+  id: string
+  demographics: PatientDemographics
+}
+
+/** m and u probabilities per field, typical of hospital registries */
+const FIELD_PROBABILITIES: Record<MatchField, { m: number; u: number }> = {
+  identifier: { m: 0.98, u: 0.0001 },
+  family: { m: 0.95, u: 0.01 },
+  given: { m: 0.93, u: 0.02 },
+  birthDate: { m: 0.97, u: 0.0003 },
+  gender: { m: 0.98, u: 0.5 },
+  phone: { m: 0.8, u: 0.0001 },
+  email: { m: 0.8, u: 0.0001 },
+  postalCode: { m: 0.85, u: 0.01 },
+}
+
+export const MATCH_FIELDS = Object.keys(FIELD_PROBABILITIES) as MatchField[]
+
+/** Soundex digit of each consonant */
+const SOUNDEX_CODES: Record<string, string> = Object.fromEntries(
+  ["bfpv", "cgjkqsxz", "dt", "l", "mn", "r"].flatMap((group, index) =>
+    Array.from(group, (letter) => [letter, String(index + 1)]),
+  ),
+)
+
+/** Prior odds, in bits, that two records in a registry belong to the same patient */
+const PRIOR_LOG_ODDS = -12
+
+/** Similarity at and above which values count as agreeing, and below which they conflict */
+const AGREE_SIMILARITY = 0.97
+const PARTIAL_SIMILARITY = 0.85
+
+export const PROBABLE_MATCH_SCORE = 0.95
+export const POSSIBLE_MATCH_SCORE = 0.5
+
+const normalizeText = (value: string) =>
+  value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "")
+
+const normalizeDigits = (value: string) => value.replace(/\D/g, "").slice(-10)
+
+/**
+ * Jaro-Winkler similarity of two strings, 1 for identical strings
+ */
+export function jaroWinkler(a: string, b: string): number {
+  if (a === b) return 1
+  if (!a || !b) return 0
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1)
+  const aMatched = new Array<boolean>(a.length).fill(false)
+  const bMatched = new Array<boolean>(b.length).fill(false)
+  let matches = 0
+
+  for (let i = 0; i < a.length; i++) {
+    for (let j = Math.max(0, i - window); j < Math.min(b.length, i + window + 1); j++) {
+      if (bMatched[j] || a[i] !== b[j]) continue
+      aMatched[i] = bMatched[j] = true
+      matches++
+      break
+    }
+  }
+
+  if (matches === 0) return 0
+
+  let transpositions = 0
+  for (let i = 0, j = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue
+    while (!bMatched[j]) j++
+    if (a[i] !== b[j++]) transpositions++
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3
+
+  let prefix = 0
+  while (prefix < 4 && a[prefix] && a[prefix] === b[prefix]) prefix++
+
+  return jaro + prefix * 0.1 * (1 - jaro)
+}
+
+/**
+ * American Soundex code, used to block on family names that sound alike
+ */
+export function soundex(value: string): string {
+  const letters = normalizeText(value).replace(/[^a-z]/g, "")
+  if (!letters) return ""
+
+  let result = letters[0].toUpperCase()
+  let previous = SOUNDEX_CODES[letters[0]] || ""
+
+  for (const letter of letters.slice(1)) {
+    const code = SOUNDEX_CODES[letter] || ""
+    if (code && code !== previous) result += code
+    // h and w do not separate letters with the same code, vowels do
+    if (letter !== "h" && letter !== "w") previous = code
+  }
+
+  return result.padEnd(4, "0").slice(0, 4)
+}
+
+/**
+ * Similarity of two birth dates; swapped day and month or a one digit slip are near misses, not conflicts
+ */
+function birthDateSimilarity(a: string, b: string): number {
+  const length = Math.min(a.length, b.length)
+  if (a.slice(0, length) === b.slice(0, length)) return a.length === b.length ? 1 : 0.9
+
+  const [yearA, monthA, dayA] = a.split("-")
+  const [yearB, monthB, dayB] = b.split("-")
+  if (yearA === yearB && monthA === dayB && dayA === monthB) return 0.9
+
+  const differing = Array.from(a).filter((char, index) => char !== b[index]).length
+  return a.length === b.length && differing === 1 ? 0.88 : 0
+}
+
+function identifierSimilarity(left: PatientDemographics, right: PatientDemographics): number | null {
+  const pairs = (left.identifiers || []).flatMap((a) =>
+    (right.identifiers || [])
+      // Identifiers from different assigning systems say nothing about each other
+      .filter((b) => !a.system || !b.system || a.system === b.system)
+      .map((b) => [a.value, b.value]),
+  )
+
+  if (pairs.length === 0) return null
+  return pairs.some(([a, b]) => normalizeText(a) === normalizeText(b)) ? 1 : 0
+}
+
+/** Value shown for a field and the similarity of two records on it, null when either side has no value */
+const FIELD_COMPARATORS: Record<
+  MatchField,
+  {
+    display: (demographics: PatientDemographics) => string | undefined
+    similarity: (left: PatientDemographics, right: PatientDemographics) => number | null
+  }
+> = {
+  identifier: {
+    display: (demographics) => demographics.identifiers?.map((identifier) => identifier.value).join(", "),
+    similarity: identifierSimilarity,
+  },
+  family: {
+    display: (demographics) => demographics.family,
+    similarity: (left, right) =>
+      left.family && right.family ? jaroWinkler(normalizeText(left.family), normalizeText(right.family)) : null,
+  },
+  given: {
+    display: (demographics) => demographics.given?.join(" "),
+    similarity: (left, right) => {
+      const a = (left.given || []).map(normalizeText).filter(Boolean)
+      const b = (right.given || []).map(normalizeText).filter(Boolean)
+      if (a.length === 0 || b.length === 0) return null
+      // Middle names are often left out, so the best pairing of given names counts
+      return Math.max(...a.flatMap((nameA) => b.map((nameB) => jaroWinkler(nameA, nameB))))
+    },
+  },
+  birthDate: {
+    display: (demographics) => demographics.birthDate,
+    similarity: (left, right) =>
+      left.birthDate && right.birthDate ? birthDateSimilarity(left.birthDate, right.birthDate) : null,
+  },
+  gender: {
+    display: (demographics) => demographics.gender,
+    similarity: (left, right) => {
+      const known = (gender?: string) => (gender && gender !== "unknown" ? gender.toLowerCase() : undefined)
+      const [a, b] = [known(left.gender), known(right.gender)]
+      return a && b ? Number(a === b) : null
+    },
+  },
+  phone: {
+    display: (demographics) => demographics.phone,
+    similarity: (left, right) =>
+      left.phone && right.phone ? Number(normalizeDigits(left.phone) === normalizeDigits(right.phone)) : null,
+  },
+  email: {
+    display: (demographics) => demographics.email,
+    similarity: (left, right) =>
+      left.email && right.email ? Number(left.email.trim().toLowerCase() === right.email.trim().toLowerCase()) : null,
+  },
+  postalCode: {
+    display: (demographics) => demographics.postalCode,
+    similarity: (left, right) =>
+      left.postalCode && right.postalCode
+        ? Number(normalizeText(left.postalCode).slice(0, 5) === normalizeText(right.postalCode).slice(0, 5))
+        : null,
+  },
+}
+
+function compareField(field: MatchField, left: PatientDemographics, right: PatientDemographics): FieldComparison {
+  const comparator = FIELD_COMPARATORS[field]
+  const { m, u } = FIELD_PROBABILITIES[field]
+  const similarity = comparator.similarity(left, right)
+  const values = { left: comparator.display(left) || null, right: comparator.display(right) || null }
+
+  if (similarity === null) return { field, ...values, outcome: "missing", similarity: 0, weight: 0 }
+
+  const agreeWeight = Math.log2(m / u)
+  const disagreeWeight = Math.log2((1 - m) / (1 - u))
+
+  if (similarity >= AGREE_SIMILARITY) {
+    return { field, ...values, outcome: "agree", similarity, weight: agreeWeight }
+  }
+
+  if (similarity < PARTIAL_SIMILARITY) {
+    return { field, ...values, outcome: "conflict", similarity, weight: disagreeWeight }
+  }
+
+  // Interpolate between disagreement and agreement, as Winkler does for string comparators
+  const fraction = (similarity - PARTIAL_SIMILARITY) / (AGREE_SIMILARITY - PARTIAL_SIMILARITY)
+  const weight = disagreeWeight + fraction * (agreeWeight - disagreeWeight)
+  return { field, ...values, outcome: "partial", similarity, weight }
+}
+
+/**
+ * Score a pair of records
+ */
+export function matchPatients(left: PatientDemographics, right: PatientDemographics): PatientMatchResult {
+  const fields = MATCH_FIELDS.map((field) => compareField(field, left, right))
+  const weight = fields.reduce((sum, comparison) => sum + comparison.weight, 0)
+  const score = 1 / (1 + 2 ** -(weight + PRIOR_LOG_ODDS))
+
+  const classification =
+    score >= PROBABLE_MATCH_SCORE ? "probable" : score >= POSSIBLE_MATCH_SCORE ? "possible" : null
+
+  return { weight, score, classification, fields }
+}
+
+function blockingKeys(demographics: PatientDemographics): string[] {
+  const { family, given, birthDate, phone, email } = demographics
+  const keys = (demographics.identifiers || []).map((identifier) => `id:${normalizeText(identifier.value)}`)
+
+  if (birthDate) keys.push(`dob:${birthDate.slice(0, 4)}:${soundex(family || "")}`)
+  if (birthDate?.length === 10) keys.push(`dob:${birthDate}`)
+  if (family) keys.push(`family:${soundex(family)}:${normalizeText(given?.[0] || "").charAt(0)}`)
+  if (phone) keys.push(`phone:${normalizeDigits(phone)}`)
+  if (email) keys.push(`email:${email.trim().toLowerCase()}`)
+
+  return keys
+}
+
+/**
+ * Pairs of candidates that share a blocking key, each pair once with the ids in sorted order
+ */
+export function candidatePairs(candidates: MatchCandidate[]): Array<[MatchCandidate, MatchCandidate]> {
+  const blocks = new Map<string, MatchCandidate[]>()
+  candidates.forEach((candidate) => {
+    new Set(blockingKeys(candidate.demographics)).forEach((key) => {
+      blocks.set(key, [...(blocks.get(key) || []), candidate])
+    })
+  })
+
+  const pairs = new Map<string, [MatchCandidate, MatchCandidate]>()
+  blocks.forEach((block) => {
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const [left, right] = [block[i], block[j]].sort((a, b) => a.id.localeCompare(b.id))
+        if (left.id !== right.id) pairs.set(`${left.id}\n${right.id}`, [left, right])
+      }
+    }
+  })
+
+  return Array.from(pairs.values())
+}
@@ -0,0 +1,164 @@
+/**
+ * Patient demographics from each data source
+ * FHIR Patients, the SAMPLE header lines of uploaded VCFs and the patient header of lab reports each name the
+ * patient differently; these adapters turn them into the demographics the matcher compares.
+ */
+
+import type { FhirPatient } from "@/lib/fhir/fhir-client"
+import { transformPatient } from "@/lib/fhir/fhir-transformer"
+import type { PatientDemographics } from "@/lib/matching/patient-matcher"
+
+export type PatientRecordSource = "fhir" | "vcf" | "lab"
+
+export interface PatientSourceRecordInput {
+  source: PatientRecordSource
+  /** Id of the record within its source, e.g. the Patient id or file and sample name */
+  source_id: string
+  /** Where the record came from, shown to reviewers */
+  label: string
+  demographics: PatientDemographics
+}
+
+/** Patient header of a lab report, as Beaker and reference laboratory reports print it */
+export interface LabReportPatient {
+  reportId: string
+  /** "FAMILY, Given Middle", "Family^Given" or "Given Family" */
+  name: string
+  birthDate?: string
+  sex?: string
+  mrn?: string
+  phone?: string
+}
+
+const SEXES: Record<string, string> = {
+  m: "male",
+  male: "male",
+  f: "female",
+  female: "female",
+  o: "other",
+  other: "other",
+  u: "unknown",
+  unknown: "unknown",
+}
+
+const normalizeSex = (sex: string | undefined) => (sex ? SEXES[sex.trim().toLowerCase()] : undefined)
+
+/**
+ * Family and given names from a name written as "Family, Given", HL7 "Family^Given^Middle" or "Given Family"
+ */
+export function parsePersonName(name: string): Pick<PatientDemographics, "family" | "given"> {
+  const trimmed = name.trim()
+  const words = (text: string | undefined) => (text || "").split(/\s+/).filter(Boolean)
+
+  if (trimmed.includes("^")) {
+    const [family, ...given] = trimmed.split("^")
+    return { family: family.trim() || undefined, given: given.flatMap(words) }
+  }
+
+  if (trimmed.includes(",")) {
+    const [family, given] = trimmed.split(",", 2)
+    return { family: family.trim() || undefined, given: words(given) }
+  }
+
+  const parts = words(trimmed)
+  return { family: parts.length > 1 ? parts[parts.length - 1] : parts[0], given: parts.slice(0, -1) }
+}
+
+/**
+ * YYYY-MM-DD from the date formats reports use: ISO, YYYYMMDD and US MM/DD/YYYY
+ */
+function normalizeDate(date: string | undefined): string | undefined {
+  const value = date?.trim()
+  if (!value) return undefined
+  if (/^\d{8}$/.test(value)) return `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6)}`
+
+  const us = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/)
+  if (us) return `${us[3]}-${us[1].padStart(2, "0")}-${us[2].padStart(2, "0")}`
+
+  return value.slice(0, 10)
+}
+
+export function fromFhirPatient(patient: FhirPatient, server: string): PatientSourceRecordInput {
+  const summary = transformPatient(patient)
+  const name =
+    patient.name?.find((candidate) => candidate.use === "official") ||
+    patient.name?.find((candidate) => candidate.use !== "old")
+  const address = patient.address?.find((candidate) => candidate.use === "home") || patient.address?.[0]
+
+  return {
+    source: "fhir",
+    source_id: `${server}/Patient/${patient.id}`,
+    label: `Patient/${patient.id} (${summary.name})`,
+    demographics: {
+      family: name?.family,
+      given: name?.given,
+      birthDate: patient.birthDate,
+      gender: patient.gender,
+      identifiers: summary.identifiers.map(({ system, value }) => ({ system, value })),
+      phone: summary.phone,
+      email: summary.email,
+      postalCode: address?.postalCode,
+    },
+  }
+}
+
+/**
+ * Key-value pairs of a structured VCF meta line such as ##SAMPLE=<ID=S1,Name="Alvarez, Maria">
+ */
+function parseStructuredMeta(value: string): Record<string, string> {
+  const fields: Record<string, string> = {}
+  const pattern = /([A-Za-z_][\w.]*)=("(?:[^"\\]|\\.)*"|[^,>]*)/g
+
+  for (const match of value.replace(/^<|>$/g, "").matchAll(pattern)) {
+    fields[match[1].toLowerCase()] = match[2].replace(/^"|"$/g, "").replace(/\\"/g, '"')
+  }
+
+  return fields
+}
+
+/**
+ * One record per ##SAMPLE line that carries demographics: Name (or Individual), DOB (or BirthDate), Sex, MRN
+ */
+export function fromVcfHeader(vcf: string, fileName: string): PatientSourceRecordInput[] {
+  const records: PatientSourceRecordInput[] = []
+
+  for (const line of vcf.split(/\r?\n/)) {
+    if (!line.startsWith("##")) break
+    if (!line.startsWith("##SAMPLE=")) continue
+
+    const sample = parseStructuredMeta(line.slice("##SAMPLE=".length))
+    const name = sample.name || sample.individual
+    const demographics: PatientDemographics = {
+      ...(name ? parsePersonName(name) : {}),
+      birthDate: normalizeDate(sample.dob || sample.birthdate),
+      gender: normalizeSex(sample.sex),
+      identifiers: sample.mrn ? [{ value: sample.mrn }] : [],
+    }
+
+    if (!name && !demographics.birthDate && !sample.mrn) continue
+
+    records.push({
+      source: "vcf",
+      source_id: `${fileName}#${sample.id || records.length + 1}`,
+      label: `${fileName}, sample ${sample.id || records.length + 1}`,
+      demographics,
+    })
+  }
+
+  return records
+}
+
+export function fromLabReport(report: LabReportPatient): PatientSourceRecordInput {
+  return {
+    source: "lab",
+    source_id: report.reportId,
+    label: `Lab report ${report.reportId}`,
+    demographics: {
+      ...parsePersonName(report.name),
+      birthDate: normalizeDate(report.birthDate),
+      gender: normalizeSex(report.sex),
+      identifiers: report.mrn ? [{ value: report.mrn }] : [],
+      phone: report.phone,
+    },
+  }
+}
@@ -0,0 +1,127 @@
+import { createServerClient, parseCookieHeader } from '@supabase/ssr'
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+import { cookies } from 'next/headers'
+
+export type SessionUser = {
+  id: string
+  email?: string
+  roles: string[]
+}
+
+export async function getServerSupabaseClient() {
+  const cookieStore = await cookies()
+
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) => cookieStore.set(name, value, options))
+          } catch {
+            // Route handlers that have already streamed a response can't set cookies
+          }
+        },
+      },
+    }
+  )
+}
+
+/**
+ * Supabase client for requests handled outside Next.js route handlers, such as WebSocket upgrades
+ * Reads the session from the raw Cookie header and never writes cookies back
+ */
+export function getSupabaseClientFromCookieHeader(cookieHeader: string | undefined) {
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return parseCookieHeader(cookieHeader || '').map(({ name, value }) => ({ name, value: value || '' }))
+        },
+      },
+    }
+  )
+}
+
+let serviceClient: SupabaseClient | null = null
+
+/**
+ * Supabase client with the service role, for server-side work that runs without a user session
+ * Returns null when no service role key is configured
+ */
+export function getServiceSupabaseClient(): SupabaseClient | null {
+  if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    return null
+  }
+
+  if (!serviceClient) {
+    serviceClient = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY, {
+      auth: { persistSession: false, autoRefreshToken: false },
+    })
+  }
+
+  return serviceClient
+}
+
+/**
+ * Whether Supabase auth is configured, local runs without it treat every request as anonymous
+ */
+export function isSupabaseConfigured() {
+  return !!process.env.NEXT_PUBLIC_SUPABASE_URL && !!process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+}
+
+async function loadSessionUser(
+  supabase: Awaited<ReturnType<typeof getServerSupabaseClient>>
+): Promise<SessionUser | null> {
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser()
+
+  if (error || !user) {
+    return null
+  }
+
+  const { data: roleRows, error: rolesError } = await supabase
+    .from('user_roles')
+    .select('role')
+    .eq('user_id', user.id)
+
+  if (rolesError) {
+    console.error('[RBAC ERROR]', rolesError)
+  }
+
+  return {
+    id: user.id,
+    email: user.email,
+    roles: (roleRows || []).map((row: { role: string }) => row.role),
+  }
+}
+
+/**
+ * Resolve the signed-in user and their roles from the Supabase session cookies
+ */
+export async function getSessionUser(): Promise<SessionUser | null> {
+  if (!isSupabaseConfigured()) {
+    return null
+  }
+
+  return loadSessionUser(await getServerSupabaseClient())
+}
+
+/**
+ * Resolve the signed-in user from a raw Cookie header
+ */
+export async function getSessionUserFromCookieHeader(cookieHeader: string | undefined): Promise<SessionUser | null> {
+  if (!isSupabaseConfigured()) {
+    return null
+  }
+
+  return loadSessionUser(getSupabaseClientFromCookieHeader(cookieHeader))
+}
@@ -0,0 +1,919 @@
+/**
+ * Mock FHIR R4 Server
+ *
+ * Serves the resources in tests/fixtures/fhir over a small FHIR REST API so the FHIR client and
+ * routes can be exercised without an EHR. Supports read, search with _count paging, _include,
+ * _revinclude, Observation code and category tokens, the :exact, :contains and :not modifiers, birthdate prefixes,
+ * _has reverse chains, _sort, and OperationOutcome errors for unknown resources and search parameters.
+ * A SMART authorization server under /oauth approves every request, checking PKCE, and Bulk Data
+ * $export at system, Patient and Group level serves NDJSON files with Range support, and transaction
+ * Bundles of POST entries are applied atomically with conditional create through ifNoneExist.
+ * Subscriptions can be created and deleted: R5 Subscriptions get SubscriptionStatus notifications, backport ones
+ * on criteria get Parameters notifications, each confirmed with a handshake and sent as id-only events for the
+ * resources transactions create for the subscribed patient.
+ *
+ * Run with `npm run mock:fhir` and point FHIR_BASE_URL at http://localhost:4010/fhir
+ */
+
+import { createHash, randomBytes } from "node:crypto"
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http"
+import { readdirSync, readFileSync } from "node:fs"
+import path from "node:path"
+import type { AddressInfo } from "node:net"
+import type { FhirBundle, FhirOperationOutcome, FhirResource } from "../lib/fhir/fhir-client"
+
+export interface MockFhirServerOptions {
+  port?: number
+  /** Defaults to every Bundle in tests/fixtures/fhir */
+  resources?: FhirResource[]
+  /** Require this bearer token, or one issued by the mock authorization server, on every request */
+  accessToken?: string
+  /** Patient returned as SMART launch context */
+  launchPatient?: string
+  tokenLifetimeSeconds?: number
+  /** Resource types answered with 403, as servers do for types outside the granted scopes */
+  forbiddenResourceTypes?: string[]
+  /** Status checks answered 202 before an export's files are ready, defaults to 1 */
+  exportPolls?: number
+  /** Cut the first download of each export file off after this many bytes, to exercise resuming */
+  interruptExportAfterBytes?: number
+  /** Answer export file Range requests with the whole file, like servers without partial content */
+  ignoreExportRanges?: boolean
+  /** Answer this many transactions with 503 without applying them */
+  rejectTransactions?: number
+  /** Apply this many transactions but answer 503, as when the response is lost on the way back */
+  dropTransactionResponses?: number
+  /** Count this many event notifications without delivering them, to exercise gap detection */
+  dropNotifications?: number
+}
+
+interface MockExport {
+  request: string
+  transactionTime: string
+  polls: number
+  files: Map<string, string>
+  errors: string[]
+  interrupted: Set<string>
+}
+
+export interface MockFhirServer {
+  /** Base URL of the FHIR API, e.g. http://127.0.0.1:4010/fhir */
+  url: string
+  server: Server
+  resources: Map<string, FhirResource>
+  /** Wait for subscription notifications still being delivered */
+  flushNotifications(): Promise<void>
+  close(): Promise<void>
+}
+
+interface MockSubscription {
+  resource: FhirResource
+  events: number
+  /** Notifications are delivered in order, one after the other */
+  queue: Promise<void>
+}
+
+const FIXTURE_DIR = path.join(__dirname, "..", "tests", "fixtures", "fhir")
+const DEFAULT_COUNT = 20
+
+type Matcher = (resource: FhirResource, value: string) => boolean
+
+const contains = (haystack: Array<string | undefined>, value: string) =>
+  haystack.some((item) => item?.toLowerCase().includes(value.toLowerCase()))
+
+const referenceMatches = (reference: string | undefined, value: string) =>
+  !!reference && (reference === value || reference.endsWith(`/${value}`))
+
+const telecomValues = (resource: FhirResource, system?: string) =>
+  (resource.telecom || [])
+    .filter((telecom: any) => !system || telecom.system === system)
+    .map((telecom: any) => telecom.value)
+
+/** Reference fields searched by reference parameters, also used by _include and _revinclude */
+const REFERENCE_FIELDS: Record<string, string[]> = {
+  patient: ["subject", "patient"],
+  subject: ["subject"],
+  "general-practitioner": ["generalPractitioner"],
+  performer: ["performer"],
+  encounter: ["encounter"],
+  medication: ["medicationReference"],
+  target: ["target"],
+}
+
+/** Token search against a CodeableConcept field, matching code or system|code */
+const tokenMatcher =
+  (field: string): Matcher =>
+  (resource, value) => {
+    const concepts = Array.isArray(resource[field]) ? resource[field] : [resource[field]]
+    const [system, code] = value.includes("|") ? value.split("|") : [undefined, value]
+    return concepts.some((concept: any) =>
+      (concept?.coding || []).some((coding: any) => coding.code === code && (!system || coding.system === system)),
+    )
+  }
+
+const COMMON_PARAMETERS: Record<string, Matcher> = {
+  _id: (resource, value) => value.split(",").includes(resource.id || ""),
+  identifier: (resource, value) => {
+    const [system, code] = value.includes("|") ? value.split("|") : [undefined, value]
+    return (resource.identifier || []).some(
+      (identifier: any) => identifier.value === code && (!system || identifier.system === system),
+    )
+  },
+}
+
+/** Values string parameters search, for the default match and the :exact and :contains modifiers */
+const STRING_FIELDS: Record<string, Record<string, (resource: FhirResource) => Array<string | undefined>>> = {
+  Patient: {
+    name: (resource) =>
+      (resource.name || []).flatMap((name: any) => [name.text, name.family, ...(name.given || [])]),
+    family: (resource) => (resource.name || []).map((name: any) => name.family),
+    given: (resource) => (resource.name || []).flatMap((name: any) => name.given || []),
+    address: (resource) =>
+      (resource.address || []).flatMap((address: any) => [
+        address.text,
+        ...(address.line || []),
+        address.city,
+        address.state,
+        address.postalCode,
+      ]),
+  },
+}
+
+/** birthdate=ge1970 style comparisons, made at the precision of the searched value */
+const DATE_COMPARISONS: Record<string, (date: string, value: string) => boolean> = {
+  eq: (date, value) => date === value,
+  ne: (date, value) => date !== value,
+  gt: (date, value) => date > value,
+  sa: (date, value) => date > value,
+  lt: (date, value) => date < value,
+  eb: (date, value) => date < value,
+  ge: (date, value) => date >= value,
+  le: (date, value) => date <= value,
+}
+
+const dateMatcher =
+  (field: string): Matcher =>
+  (resource, value) => {
+    const prefix = value.slice(0, 2)
+    const compare = DATE_COMPARISONS[prefix] || DATE_COMPARISONS.eq
+    const date = DATE_COMPARISONS[prefix] ? value.slice(2) : value
+    return !!resource[field] && compare(String(resource[field]).slice(0, date.length), date)
+  }
+
+const SEARCH_PARAMETERS: Record<string, Record<string, Matcher>> = {
+  Patient: {
+    ...Object.fromEntries(
+      Object.entries(STRING_FIELDS.Patient).map(([name, values]) => [
+        name,
+        (resource: FhirResource, value: string) => contains(values(resource), value),
+      ]),
+    ),
+    gender: (resource, value) => resource.gender === value,
+    birthdate: dateMatcher("birthDate"),
+    phone: (resource, value) => contains(telecomValues(resource, "phone"), value),
+    email: (resource, value) => contains(telecomValues(resource, "email"), value),
+    telecom: (resource, value) => contains(telecomValues(resource), value),
+    active: (resource, value) => String(resource.active ?? true) === value,
+  },
+  Observation: {
+    code: tokenMatcher("code"),
+    category: tokenMatcher("category"),
+  },
+  Condition: {
+    code: tokenMatcher("code"),
+    "clinical-status": tokenMatcher("clinicalStatus"),
+  },
+  MedicationRequest: {
+    code: tokenMatcher("medicationCodeableConcept"),
+    status: (resource, value) => resource.status === value,
+  },
+}
+
+/** Values _sort orders Patients by */
+const SORT_FIELDS: Record<string, (resource: FhirResource) => string> = {
+  family: (resource) => resource.name?.[0]?.family || "",
+  given: (resource) => resource.name?.[0]?.given?.[0] || "",
+  birthdate: (resource) => resource.birthDate || "",
+  gender: (resource) => resource.gender || "",
+  _id: (resource) => resource.id || "",
+  _lastUpdated: (resource) => resource.meta?.lastUpdated || "",
+}
+
+function referenceMatcher(fields: string[]): Matcher {
+  return (resource, value) =>
+    fields.some((field) => {
+      const references = Array.isArray(resource[field]) ? resource[field] : [resource[field]]
+      return references.some((reference: any) => referenceMatches(reference?.reference, value))
+    })
+}
+
+function getMatcher(resourceType: string, name: string): Matcher | undefined {
+  const [param, modifier] = name.split(":")
+  const matcher =
+    COMMON_PARAMETERS[param] ||
+    SEARCH_PARAMETERS[resourceType]?.[param] ||
+    (REFERENCE_FIELDS[param] ? referenceMatcher(REFERENCE_FIELDS[param]) : undefined)
+  const values = STRING_FIELDS[resourceType]?.[param]
+
+  if (!modifier || !matcher) return modifier ? undefined : matcher
+  if (modifier === "not") return (resource, value) => !matcher(resource, value)
+  if (modifier === "exact" && values) return (resource, value) => values(resource).some((item) => item === value)
+  if (modifier === "contains" && values) return (resource, value) => contains(values(resource), value)
+  return undefined
+}
+
+/**
+ * Matcher for _has:Type:referenceParam:param, matching resources that a resource of Type with param=value
+ * references through referenceParam
+ */
+function reverseChainMatcher(name: string, resources: Map<string, FhirResource>): Matcher | undefined {
+  const [, sourceType, referenceParam, param] = name.split(":")
+  const matcher = param && getMatcher(sourceType, param)
+  const fields = REFERENCE_FIELDS[referenceParam]
+  if (!matcher || !fields) return undefined
+
+  return (resource, value) =>
+    Array.from(resources.values()).some(
+      (source) =>
+        source.resourceType === sourceType &&
+        matcher(source, value) &&
+        referenceMatcher(fields)(source, keyOf(resource)),
+    )
+}
+
+function loadFixtureResources(): FhirResource[] {
+  return readdirSync(FIXTURE_DIR)
+    .filter((file) => file.endsWith(".json"))
+    .flatMap((file) => {
+      const bundle = JSON.parse(readFileSync(path.join(FIXTURE_DIR, file), "utf8")) as FhirBundle
+      return (bundle.entry || []).map((entry) => entry.resource).filter(Boolean) as FhirResource[]
+    })
+}
+
+function operationOutcome(code: string, diagnostics: string): FhirOperationOutcome {
+  return { resourceType: "OperationOutcome", issue: [{ severity: "error", code, diagnostics }] }
+}
+
+function send(response: ServerResponse, status: number, body: unknown) {
+  response.writeHead(status, { "Content-Type": "application/fhir+json" })
+  response.end(JSON.stringify(body))
+}
+
+function readBody(request: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = ""
+    request.on("data", (chunk) => (body += chunk))
+    request.on("end", () => resolve(body))
+    request.on("error", reject)
+  })
+}
+
+function keyOf(resource: FhirResource) {
+  return `${resource.resourceType}/${resource.id}`
+}
+
+/**
+ * Resources referenced by the matches through "Type:param" include specifiers
+ */
+function resolveIncludes(
+  matches: FhirResource[],
+  includes: string[],
+  resources: Map<string, FhirResource>,
+): FhirResource[] {
+  return includes.flatMap((include) => {
+    const [sourceType, param] = include.split(":")
+    const fields = REFERENCE_FIELDS[param] || [param]
+
+    return matches
+      .filter((resource) => resource.resourceType === sourceType)
+      .flatMap((resource) =>
+        fields.flatMap((field) => (Array.isArray(resource[field]) ? resource[field] : [resource[field]])),
+      )
+      .map((reference: any) => reference?.reference && resources.get(reference.reference))
+      .filter(Boolean) as FhirResource[]
+  })
+}
+
+/**
+ * Resources of another type that reference the matches through "Type:param" revinclude specifiers
+ */
+function resolveRevIncludes(
+  matches: FhirResource[],
+  revIncludes: string[],
+  resources: Map<string, FhirResource>,
+): FhirResource[] {
+  return revIncludes.flatMap((revInclude) => {
+    const [targetType, param] = revInclude.split(":")
+    const matcher = referenceMatcher(REFERENCE_FIELDS[param] || [param])
+
+    return Array.from(resources.values()).filter(
+      (resource) =>
+        resource.resourceType === targetType && matches.some((match) => matcher(resource, keyOf(match))),
+    )
+  })
+}
+
+function handleSearch(
+  baseUrl: string,
+  resourceType: string,
+  query: URLSearchParams,
+  resources: Map<string, FhirResource>,
+  response: ServerResponse,
+) {
+  const count = Math.max(1, Number.parseInt(query.get("_count") || String(DEFAULT_COUNT)) || DEFAULT_COUNT)
+  const offset = Math.max(0, Number.parseInt(query.get("_getpagesoffset") || "0") || 0)
+  const includes = query.getAll("_include")
+  const revIncludes = query.getAll("_revinclude")
+
+  let matches = Array.from(resources.values()).filter((resource) => resource.resourceType === resourceType)
+
+  for (const [name, value] of query.entries()) {
+    const chained = name.startsWith("_has:")
+    if (name.startsWith("_") && name !== "_id" && !chained) continue
+
+    const matcher = chained ? reverseChainMatcher(name, resources) : getMatcher(resourceType, name)
+    if (!matcher) {
+      const diagnostics = `Unknown search parameter "${name}" for ${resourceType}`
+      return send(response, 400, operationOutcome("not-supported", diagnostics))
+    }
+
+    matches = matches.filter((resource) => value.split(",").some((option) => matcher(resource, option)))
+  }
+
+  const sort = (query.get("_sort") || "").split(",").filter(Boolean)
+  for (const field of [...sort].reverse()) {
+    const sortValue = SORT_FIELDS[field.replace(/^-/, "")]
+    if (!sortValue) return send(response, 400, operationOutcome("not-supported", `Cannot sort by "${field}"`))
+
+    const direction = field.startsWith("-") ? -1 : 1
+    matches = [...matches].sort((a, b) => direction * sortValue(a).localeCompare(sortValue(b)))
+  }
+
+  const page = matches.slice(offset, offset + count)
+  const included = [...resolveIncludes(page, includes, resources), ...resolveRevIncludes(page, revIncludes, resources)]
+  const uniqueIncluded = Array.from(new Map(included.map((resource) => [keyOf(resource), resource])).values())
+
+  const pageUrl = (pageOffset: number) => {
+    const params = new URLSearchParams(query)
+    params.set("_getpagesoffset", String(pageOffset))
+    params.set("_count", String(count))
+    return `${baseUrl}/${resourceType}?${params.toString()}`
+  }
+
+  const link = [{ relation: "self", url: pageUrl(offset) }]
+  if (offset + count < matches.length) link.push({ relation: "next", url: pageUrl(offset + count) })
+  if (offset > 0) link.push({ relation: "previous", url: pageUrl(Math.max(0, offset - count)) })
+
+  const bundle: FhirBundle = {
+    resourceType: "Bundle",
+    id: crypto.randomUUID(),
+    type: "searchset",
+    total: matches.length,
+    link,
+    entry: [
+      ...page.map((resource) => ({
+        fullUrl: `${baseUrl}/${keyOf(resource)}`,
+        resource,
+        search: { mode: "match" as const },
+      })),
+      ...uniqueIncluded.map((resource) => ({
+        fullUrl: `${baseUrl}/${keyOf(resource)}`,
+        resource,
+        search: { mode: "include" as const },
+      })),
+    ],
+  }
+
+  send(response, 200, bundle)
+}
+
+/**
+ * Patient a Subscription is filtered to, from R5 filterBy or the backport filter criteria extension
+ */
+function subscriptionPatientFilter(subscription: FhirResource): string | undefined {
+  const r5 = (subscription.filterBy || []).find((filter: any) => filter.filterParameter === "patient")?.value
+  const backport = (subscription._criteria?.extension || [])
+    .map((extension: any) => extension.valueString?.match(/patient=([^&]+)/)?.[1])
+    .find(Boolean)
+  return r5 || backport
+}
+
+/**
+ * Notification Bundle in the format the Subscription asked for
+ */
+function notificationBundle(
+  subscription: FhirResource,
+  type: string,
+  eventsSinceSubscriptionStart: number,
+  focus?: string,
+): FhirBundle {
+  if (subscription.topic) {
+    return {
+      resourceType: "Bundle",
+      type: "subscription-notification",
+      timestamp: new Date().toISOString(),
+      entry: [
+        {
+          resource: {
+            resourceType: "SubscriptionStatus",
+            status: "active",
+            type,
+            eventsSinceSubscriptionStart: String(eventsSinceSubscriptionStart),
+            notificationEvent: focus
+              ? [{ eventNumber: String(eventsSinceSubscriptionStart), focus: { reference: focus } }]
+              : undefined,
+            subscription: { reference: `Subscription/${subscription.id}` },
+            topic: subscription.topic,
+          },
+        },
+      ],
+    }
+  }
+
+  return {
+    resourceType: "Bundle",
+    type: "history",
+    timestamp: new Date().toISOString(),
+    entry: [
+      {
+        resource: {
+          resourceType: "Parameters",
+          parameter: [
+            { name: "subscription", valueReference: { reference: `Subscription/${subscription.id}` } },
+            { name: "topic", valueCanonical: subscription.criteria },
+            { name: "status", valueCode: "active" },
+            { name: "type", valueCode: type },
+            { name: "events-since-subscription-start", valueString: String(eventsSinceSubscriptionStart) },
+            ...(focus
+              ? [
+                  {
+                    name: "notification-event",
+                    part: [
+                      { name: "event-number", valueString: String(eventsSinceSubscriptionStart) },
+                      { name: "focus", valueReference: { reference: focus } },
+                    ],
+                  },
+                ]
+              : []),
+          ],
+        },
+      },
+    ],
+  }
+}
+
+export async function startMockFhirServer(options: MockFhirServerOptions = {}): Promise<MockFhirServer> {
+  const seed = options.resources || loadFixtureResources()
+  const resources = new Map(seed.map((resource) => [keyOf(resource), resource]))
+  const codes = new Map<string, { challenge: string; scope: string; redirectUri: string }>()
+  const issuedTokens = new Set<string>()
+  const refreshTokens = new Map<string, string>()
+  const exports = new Map<string, MockExport>()
+  const subscriptions = new Map<string, MockSubscription>()
+  let transactionsRejected = 0
+  let transactionResponsesDropped = 0
+  let notificationsDropped = 0
+  let baseUrl = ""
+  let origin = ""
+
+  const issueToken = (scope: string) => {
+    const accessToken = `mock-access-${randomBytes(12).toString("hex")}`
+    const refreshToken = scope.split(" ").includes("offline_access")
+      ? `mock-refresh-${randomBytes(12).toString("hex")}`
+      : undefined
+    const launchScopes = scope.split(" ").filter((item) => item.startsWith("launch"))
+
+    issuedTokens.add(accessToken)
+    if (refreshToken) refreshTokens.set(refreshToken, scope)
+
+    return {
+      access_token: accessToken,
+      token_type: "Bearer",
+      expires_in: options.tokenLifetimeSeconds ?? 3600,
+      scope,
+      refresh_token: refreshToken,
+      patient: launchScopes.length > 0 ? options.launchPatient || "pat-1001" : undefined,
+    }
+  }
+
+  const handleOAuth = async (request: IncomingMessage, response: ServerResponse, url: URL) => {
+    if (url.pathname === "/oauth/authorize") {
+      const params = url.searchParams
+      if (params.get("code_challenge_method") !== "S256" || !params.get("code_challenge")) {
+        return send(response, 400, { error: "invalid_request", error_description: "PKCE with S256 is required" })
+      }
+
+      const code = randomBytes(12).toString("hex")
+      codes.set(code, {
+        challenge: params.get("code_challenge")!,
+        scope: params.get("scope") || "",
+        redirectUri: params.get("redirect_uri") || "",
+      })
+
+      const redirect = new URL(params.get("redirect_uri") || "")
+      redirect.searchParams.set("code", code)
+      redirect.searchParams.set("state", params.get("state") || "")
+      response.writeHead(302, { Location: redirect.toString() })
+      return response.end()
+    }
+
+    const params = new URLSearchParams(await readBody(request))
+
+    if (url.pathname === "/oauth/revoke") {
+      refreshTokens.delete(params.get("token") || "")
+      return send(response, 200, {})
+    }
+
+    if (params.get("grant_type") === "authorization_code") {
+      const grant = codes.get(params.get("code") || "")
+      codes.delete(params.get("code") || "")
+      const challenge = createHash("sha256")
+        .update(params.get("code_verifier") || "")
+        .digest("base64url")
+
+      if (!grant || grant.challenge !== challenge || grant.redirectUri !== params.get("redirect_uri")) {
+        return send(response, 400, { error: "invalid_grant", error_description: "Code or code_verifier is not valid" })
+      }
+
+      return send(response, 200, issueToken(grant.scope))
+    }
+
+    if (params.get("grant_type") === "refresh_token") {
+      const scope = refreshTokens.get(params.get("refresh_token") || "")
+      if (scope === undefined) {
+        return send(response, 400, { error: "invalid_grant", error_description: "Refresh token is not valid" })
+      }
+
+      refreshTokens.delete(params.get("refresh_token")!)
+      return send(response, 200, issueToken(scope))
+    }
+
+    return send(response, 400, { error: "unsupported_grant_type" })
+  }
+
+  const handleExport = (request: IncomingMessage, response: ServerResponse, url: URL) => {
+    const kickoff = url.pathname.match(/^\/fhir\/(?:(Patient)\/|Group\/([^/]+)\/)?\$export$/)
+
+    if (kickoff) {
+      const [, patientLevel, groupId] = kickoff
+      const group = groupId ? resources.get(`Group/${groupId}`) : undefined
+      if (groupId && !group) {
+        return send(response, 404, operationOutcome("not-found", `Resource Group/${groupId} is not known`))
+      }
+
+      const since = url.searchParams.get("_since")
+      const requested = url.searchParams.get("_type")?.split(",").filter(Boolean)
+      const members = group
+        ? new Set((group.member || []).map((member: any) => member.entity?.reference))
+        : patientLevel
+          ? new Set(Array.from(resources.values()).filter((r) => r.resourceType === "Patient").map(keyOf))
+          : null
+      const inScope = (resource: FhirResource) =>
+        !members ||
+        members.has(keyOf(resource)) ||
+        REFERENCE_FIELDS.patient.some((field) => members.has(resource[field]?.reference))
+
+      const files = new Map<string, string>()
+      for (const resource of resources.values()) {
+        if (requested && !requested.includes(resource.resourceType)) continue
+        if (since && !(resource.meta?.lastUpdated && resource.meta.lastUpdated >= since)) continue
+        if (!inScope(resource)) continue
+
+        files.set(resource.resourceType, `${files.get(resource.resourceType) || ""}${JSON.stringify(resource)}\n`)
+      }
+
+      const id = randomBytes(8).toString("hex")
+      exports.set(id, {
+        request: `${baseUrl}${url.pathname.slice("/fhir".length)}${url.search}`,
+        transactionTime: new Date().toISOString(),
+        polls: options.exportPolls ?? 1,
+        files,
+        errors: (requested || [])
+          .filter((type) => !files.has(type))
+          .map((type) => `No ${type} resources matched the export`),
+        interrupted: new Set(),
+      })
+
+      response.writeHead(202, { "Content-Location": `${baseUrl}/$export-status/${id}` })
+      return response.end()
+    }
+
+    const [, kind, id, file] = url.pathname.match(/^\/fhir\/\$export-(status|files)\/([^/]+)(?:\/([^/]+))?$/) || []
+    const job = id ? exports.get(id) : undefined
+
+    if (!kind || !job) {
+      return send(response, 404, operationOutcome("not-found", `Unknown export ${url.pathname}`))
+    }
+
+    if (kind === "status" && request.method === "DELETE") {
+      exports.delete(id)
+      response.writeHead(202)
+      return response.end()
+    }
+
+    if (kind === "status") {
+      if (job.polls > 0) {
+        job.polls--
+        response.writeHead(202, { "X-Progress": "Preparing files" })
+        return response.end()
+      }
+
+      return send(response, 200, {
+        transactionTime: job.transactionTime,
+        request: job.request,
+        requiresAccessToken: true,
+        output: Array.from(job.files, ([type, ndjson]) => ({
+          type,
+          url: `${baseUrl}/$export-files/${id}/${type}.ndjson`,
+          count: ndjson.split("\n").filter(Boolean).length,
+        })),
+        error: job.errors.length
+          ? [{ type: "OperationOutcome", url: `${baseUrl}/$export-files/${id}/errors.ndjson` }]
+          : [],
+      })
+    }
+
+    const content =
+      file === "errors.ndjson"
+        ? job.errors.map((message) => JSON.stringify(operationOutcome("not-found", message))).join("\n")
+        : job.files.get(file.replace(/\.ndjson$/, ""))
+    if (content === undefined) {
+      return send(response, 404, operationOutcome("not-found", `Unknown export file ${file}`))
+    }
+
+    const body = Buffer.from(content)
+    const range = options.ignoreExportRanges ? null : request.headers.range?.match(/^bytes=(\d+)-$/)
+    const start = range ? Number(range[1]) : 0
+    const headers = { "Content-Type": "application/fhir+ndjson", "Accept-Ranges": "bytes" }
+
+    if (range) {
+      response.writeHead(206, { ...headers, "Content-Range": `bytes ${start}-${body.length - 1}/${body.length}` })
+    } else {
+      response.writeHead(200, headers)
+    }
+
+    // Drop the connection part way through the first download to simulate a network failure
+    if (options.interruptExportAfterBytes !== undefined && !job.interrupted.has(file)) {
+      job.interrupted.add(file)
+      response.write(body.subarray(start, start + options.interruptExportAfterBytes))
+      return setTimeout(() => response.destroy(), 20)
+    }
+
+    response.end(body.subarray(start))
+  }
+
+  const deliver = (subscription: MockSubscription, type: string, focus?: string) => {
+    const { resource } = subscription
+    const endpoint = resource.endpoint || resource.channel?.endpoint
+    const headers: Record<string, string> = { "Content-Type": "application/fhir+json" }
+
+    // R5 sends parameters as headers, the backport lists "Name: value" headers on the channel
+    for (const parameter of resource.parameter || []) {
+      headers[parameter.name] = parameter.value
+    }
+    for (const header of resource.channel?.header || []) {
+      const [name, ...value] = header.split(":")
+      headers[name.trim()] = value.join(":").trim()
+    }
+
+    const body = JSON.stringify(notificationBundle(resource, type, subscription.events, focus))
+    const dropped = type === "event-notification" && notificationsDropped < (options.dropNotifications ?? 0)
+    if (dropped) notificationsDropped++
+
+    subscription.queue = subscription.queue.then(async () => {
+      if (dropped) return
+
+      try {
+        const result = await fetch(endpoint, { method: "POST", headers, body, signal: AbortSignal.timeout(5000) })
+        if (type === "handshake") resource.status = result.ok ? "active" : "error"
+      } catch {
+        resource.status = "error"
+      }
+    })
+  }
+
+  const handleSubscription = async (request: IncomingMessage, response: ServerResponse, id: string | undefined) => {
+    if (request.method === "DELETE") {
+      if (!id || !subscriptions.delete(id)) {
+        return send(response, 404, operationOutcome("not-found", `Resource Subscription/${id} is not known`))
+      }
+
+      resources.delete(`Subscription/${id}`)
+      response.writeHead(204)
+      return response.end()
+    }
+
+    let resource: FhirResource
+    try {
+      resource = JSON.parse(await readBody(request))
+    } catch {
+      return send(response, 400, operationOutcome("invalid", "Request body is not valid JSON"))
+    }
+
+    const channelType = resource.channelType?.code || resource.channel?.type
+    if (id || resource?.resourceType !== "Subscription" || channelType !== "rest-hook") {
+      return send(response, 400, operationOutcome("not-supported", "Only rest-hook Subscriptions can be created"))
+    }
+
+    resource.id = randomBytes(8).toString("hex")
+    resource.status = "requested"
+    resource.meta = { ...resource.meta, versionId: "1", lastUpdated: new Date().toISOString() }
+    resources.set(keyOf(resource), resource)
+
+    const subscription: MockSubscription = { resource, events: 0, queue: Promise.resolve() }
+    subscriptions.set(resource.id, subscription)
+
+    send(response, 201, resource)
+    deliver(subscription, "handshake")
+  }
+
+  /**
+   * Send an event to every active Subscription whose patient filter matches a created resource
+   */
+  const notifyCreated = (created: FhirResource[]) => {
+    created.forEach((resource) => {
+      const patients =
+        resource.resourceType === "Patient"
+          ? [keyOf(resource)]
+          : REFERENCE_FIELDS.patient.map((field) => resource[field]?.reference).filter(Boolean)
+
+      subscriptions.forEach((subscription) => {
+        const filter = subscriptionPatientFilter(subscription.resource)
+        if (subscription.resource.status !== "active" || resource.resourceType === "Subscription") return
+        if (filter && !patients.some((reference: string) => referenceMatches(reference, filter.split("/").pop()!))) {
+          return
+        }
+
+        subscription.events++
+        deliver(subscription, "event-notification", keyOf(resource))
+      })
+    })
+  }
+
+  const handleTransaction = async (request: IncomingMessage, response: ServerResponse) => {
+    let bundle: FhirBundle
+
+    try {
+      bundle = JSON.parse(await readBody(request))
+    } catch {
+      return send(response, 400, operationOutcome("invalid", "Request body is not valid JSON"))
+    }
+
+    if (bundle?.resourceType !== "Bundle" || bundle.type !== "transaction") {
+      return send(response, 400, operationOutcome("not-supported", "Only transaction Bundles can be posted"))
+    }
+
+    const entries = bundle.entry || []
+    const unsupported = entries.some(
+      (entry) => entry.request?.method !== "POST" || entry.resource?.resourceType !== entry.request.url,
+    )
+    if (unsupported) {
+      return send(response, 400, operationOutcome("not-supported", "Only POST entries are supported in transactions"))
+    }
+
+    if (transactionsRejected < (options.rejectTransactions ?? 0)) {
+      transactionsRejected++
+      return send(response, 503, operationOutcome("transient", "The server is busy"))
+    }
+
+    // Resolve conditional creates and assign ids first so references between entries can be rewritten
+    const assigned = new Map<string, string>()
+    const planned = entries.map((entry) => {
+      const resource = entry.resource as FhirResource
+      const condition = entry.request?.ifNoneExist?.match(/^([^=]+)=(.*)$/)
+      const matcher = condition && getMatcher(resource.resourceType, condition[1])
+      const existing = matcher
+        ? Array.from(resources.values()).find(
+            (candidate) => candidate.resourceType === resource.resourceType && matcher(candidate, condition[2]),
+          )
+        : undefined
+      const id = existing?.id || randomBytes(8).toString("hex")
+
+      if (entry.fullUrl) assigned.set(entry.fullUrl, `${resource.resourceType}/${id}`)
+      return { resource, existing, id }
+    })
+
+    const lastUpdated = new Date().toISOString()
+    const results = planned.map(({ resource, existing, id }) => {
+      if (existing) return { resource: existing, status: "200 OK" }
+
+      const stored: FhirResource = JSON.parse(
+        JSON.stringify(resource, (key, value) =>
+          key === "reference" && assigned.has(value) ? assigned.get(value) : value,
+        ),
+      )
+      stored.id = id
+      stored.meta = { ...stored.meta, versionId: "1", lastUpdated }
+      resources.set(keyOf(stored), stored)
+      return { resource: stored, status: "201 Created" }
+    })
+
+    notifyCreated(results.filter(({ status }) => status === "201 Created").map(({ resource }) => resource))
+
+    if (transactionResponsesDropped < (options.dropTransactionResponses ?? 0)) {
+      transactionResponsesDropped++
+      return send(response, 503, operationOutcome("transient", "The server is busy"))
+    }
+
+    return send(response, 200, {
+      resourceType: "Bundle",
+      type: "transaction-response",
+      entry: results.map(({ resource, status }) => ({
+        response: { status, location: `${keyOf(resource)}/_history/${resource.meta?.versionId || "1"}` },
+      })),
+    })
+  }
+
+  const server = createServer(async (request: IncomingMessage, response: ServerResponse) => {
+    const url = new URL(request.url || "/", "http://localhost")
+
+    if (url.pathname.startsWith("/oauth/")) {
+      return handleOAuth(request, response, url)
+    }
+
+    if (url.pathname === "/fhir/.well-known/smart-configuration") {
+      return send(response, 200, {
+        authorization_endpoint: `${origin}/oauth/authorize`,
+        token_endpoint: `${origin}/oauth/token`,
+        revocation_endpoint: `${origin}/oauth/revoke`,
+        code_challenge_methods_supported: ["S256"],
+        capabilities: ["launch-ehr", "launch-standalone", "client-public", "context-ehr-patient", "permission-offline"],
+      })
+    }
+
+    // The CapabilityStatement is public so clients can discover the server before authorizing
+    if (url.pathname === "/fhir/metadata") {
+      const types = new Set(Array.from(resources.values(), (resource) => resource.resourceType))
+      return send(response, 200, {
+        resourceType: "CapabilityStatement",
+        status: "active",
+        fhirVersion: "4.0.1",
+        format: ["json"],
+        software: { name: "Beaker mock FHIR server" },
+        rest: [{ mode: "server", resource: Array.from(types, (type) => ({ type })) }],
+      })
+    }
+
+    const token = request.headers.authorization?.replace(/^Bearer /, "")
+    if (options.accessToken && token !== options.accessToken && !issuedTokens.has(token || "")) {
+      return send(response, 401, operationOutcome("login", "A valid bearer token is required"))
+    }
+
+    if (url.pathname.includes("$export")) {
+      return handleExport(request, response, url)
+    }
+
+    if (request.method === "POST" && /^\/fhir\/?$/.test(url.pathname)) {
+      return handleTransaction(request, response)
+    }
+
+    const subscriptionPath = url.pathname.match(/^\/fhir\/Subscription(?:\/([^/]+))?$/)
+    if (subscriptionPath && (request.method === "POST" || request.method === "DELETE")) {
+      return handleSubscription(request, response, subscriptionPath[1])
+    }
+
+    if (request.method !== "GET") {
+      return send(response, 405, operationOutcome("not-supported", `${request.method} is not supported`))
+    }
+
+    const [prefix, resourceType, id, ...rest] = url.pathname.split("/").filter(Boolean)
+
+    if (prefix !== "fhir" || !resourceType || rest.length > 0) {
+      return send(response, 404, operationOutcome("not-found", `Unknown path ${url.pathname}`))
+    }
+
+    if (options.forbiddenResourceTypes?.includes(resourceType)) {
+      return send(response, 403, operationOutcome("forbidden", `Access to ${resourceType} is not permitted`))
+    }
+
+    if (!id) {
+      return handleSearch(baseUrl, resourceType, url.searchParams, resources, response)
+    }
+
+    const resource = resources.get(`${resourceType}/${id}`)
+    return resource
+      ? send(response, 200, resource)
+      : send(response, 404, operationOutcome("not-found", `Resource ${resourceType}/${id} is not known`))
+  })
+
+  await new Promise<void>((resolve) => server.listen(options.port ?? 0, "127.0.0.1", resolve))
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  baseUrl = `${origin}/fhir`
+
+  return {
+    url: baseUrl,
+    server,
+    resources,
+    flushNotifications: async () => {
+      await Promise.all(Array.from(subscriptions.values(), (subscription) => subscription.queue))
+    },
+    close: () => new Promise((resolve, reject) => server.close((error) => (error ? reject(error) : resolve()))),
+  }
+}
+
+// Run standalone for local development
+if (require.main === module) {
+  startMockFhirServer({ port: Number(process.env.MOCK_FHIR_PORT) || 4010 }).then((mock) => {
+    console.log(`🩺 Mock FHIR server listening at ${mock.url} with ${mock.resources.size} resources`)
+  })
+}
@@ -0,0 +1,346 @@
+/**
+ * ACMG Classification Verification Script
+ *
+ * Classifies variants enriched from the snapshot files in tests/fixtures/knowledge, with a ClinVar record added for
+ * another change at a missense variant's codon, and from hand-built annotations.
+ * Checks the combining rules, each automatically evaluated criterion, curator overrides and their validation, and
+ * that overrides survive reclassification.
+ */
+
+import { copyFile, mkdtemp, readFile, readdir, rm, writeFile } from "node:fs/promises"
+import os from "node:os"
+import path from "node:path"
+import {
+  GenomicEnrichmentService,
+  createSnapshotAdapters,
+} from "../lib/agent/services/genomic-enrichment/service"
+import {
+  combineCriteria,
+  evaluateCriteria,
+  DEFAULT_ACMG_OPTIONS,
+  type AcmgCriterion,
+  type AcmgEvidence,
+  type CriterionEvaluation,
+  type EvidenceStrength,
+} from "../lib/genomics/acmg"
+import { InMemoryVariantClassificationStore } from "../lib/genomics/classification-store"
+import { KnowledgeSource, type EnrichedVariant, type VariantAnnotations } from "../lib/genomics/knowledge/types"
+import { VariantClassificationService } from "../lib/genomics/variant-classification"
+import type { GenomicVariant } from "../lib/genomics/types"
+import { logger } from "../lib/logging/enhanced-logger"
+
+const FIXTURE_DIR = path.join(__dirname, "..", "tests", "fixtures", "knowledge")
+
+/** Pathogenic change at the codon of toy:27, for PS1 and PM5 */
+const SAME_CODON_RECORD = [
+  "toy",
+  "28",
+  "900004",
+  "G",
+  "A",
+  ".",
+  ".",
+  "CLNSIG=Pathogenic;CLNREVSTAT=criteria_provided,_single_submitter;CLNDN=Toy_syndrome;GENEINFO=GENEA:1001",
+].join("\t")
+
+/**
+ * Copy of the knowledge snapshots whose ClinVar release also holds the same-codon record
+ */
+async function codonSnapshots(): Promise<string> {
+  const directory = await mkdtemp(path.join(os.tmpdir(), "acmg-"))
+  for (const file of await readdir(FIXTURE_DIR)) {
+    await copyFile(path.join(FIXTURE_DIR, file), path.join(directory, file))
+  }
+
+  const clinvar = await readFile(path.join(directory, "clinvar.vcf"), "utf8")
+  await writeFile(path.join(directory, "clinvar.vcf"), `${clinvar.trimEnd()}\n${SAME_CODON_RECORD}\n`)
+  return directory
+}
+
+const variant = (position: number, reference: string, alternate: string): GenomicVariant => ({
+  id: `toy-${position}-${reference}-${alternate}`,
+  chromosome: "toy",
+  position,
+  reference,
+  alternate,
+  gene: "",
+  consequence: "SNV",
+  significance: "uncertain",
+  frequency: 0,
+})
+
+const met = (...criteria: Array<[AcmgCriterion, EvidenceStrength]>) =>
+  criteria.map(([criterion, strength]) => ({ criterion, strength, met: true }))
+
+const transcript = (consequence: string, extra: Partial<NonNullable<VariantAnnotations["ensembl"]>> = {}) => ({
+  gene: "GENEA",
+  gene_id: "TOYG0001",
+  transcript_id: "TOYT0001.2",
+  canonical: true,
+  strand: "+" as const,
+  consequence,
+  consequences: [consequence],
+  impact: "HIGH" as const,
+  hgvs_c: null,
+  hgvs_p: null,
+  exon: "1/2",
+  intron: null,
+  amino_acids: null,
+  protein_position: null,
+  snapshot_version: null,
+  ...extra,
+})
+
+const annotated = (annotations: VariantAnnotations): EnrichedVariant => ({ ...variant(27, "C", "T"), annotations })
+
+const ALL_SOURCES: AcmgEvidence = { sources: Object.values(KnowledgeSource), codonVariants: [] }
+
+async function verifyAcmgClassification() {
+  logger.info("Starting ACMG classification verification...")
+  let allTestsPassed = true
+
+  const check = async (name: string, test: () => Promise<string | null>) => {
+    try {
+      const failure = await test()
+
+      if (failure) {
+        logger.error(`${name} Failed: ${failure}`)
+        allTestsPassed = false
+      } else {
+        logger.info(`${name} Passed`)
+      }
+    } catch (error) {
+      logger.error(`${name} Failed with exception`, { error: error instanceof Error ? error.message : error })
+      allTestsPassed = false
+    }
+  }
+
+  const same = (actual: unknown, expected: unknown) => JSON.stringify(actual) === JSON.stringify(expected)
+  const snapshotDirectory = await codonSnapshots()
+  const find = (evaluations: CriterionEvaluation[], criterion: AcmgCriterion) =>
+    evaluations.find((evaluation) => evaluation.criterion === criterion)
+
+  // Test 1: The combining rules of Richards et al. 2015, table 5
+  await check("Test 1: Combining rules", async () => {
+    const cases: Array<[ReturnType<typeof met>, string, string]> = [
+      [met(["PVS1", "very_strong"], ["PS1", "strong"]), "pathogenic", "Pathogenic (i)(a)"],
+      [met(["PS1", "strong"], ["PS3", "strong"]), "pathogenic", "Pathogenic (ii)"],
+      [met(["PVS1", "very_strong"], ["PM2", "moderate"]), "likely_pathogenic", "Likely pathogenic (i)"],
+      [met(["PVS1", "strong"], ["PM2", "moderate"]), "likely_pathogenic", "Likely pathogenic (ii)"],
+      [
+        met(["PM2", "moderate"], ["PM4", "moderate"], ["PM5", "moderate"]),
+        "likely_pathogenic",
+        "Likely pathogenic (iv)",
+      ],
+      [met(["PM2", "moderate"], ["PM5", "moderate"], ["PP5", "supporting"]), "uncertain", "Uncertain significance"],
+      [met(["BA1", "stand_alone"]), "benign", "Benign (i)"],
+      [met(["BS1", "strong"], ["BP7", "supporting"]), "likely_benign", "Likely benign (i)"],
+      [met(["BP6", "supporting"], ["BP7", "supporting"]), "likely_benign", "Likely benign (ii)"],
+      [[], "uncertain", "Uncertain significance"],
+    ]
+    for (const [criteria, tier, rule] of cases) {
+      const result = combineCriteria(criteria)
+      if (result.tier !== tier || !result.rule.startsWith(rule)) {
+        return `${criteria.map((item) => item.criterion)} gave ${result.tier}: ${result.rule}`
+      }
+    }
+
+    const conflict = combineCriteria(met(["PVS1", "very_strong"], ["PM2", "moderate"], ["BA1", "stand_alone"]))
+    return conflict.tier === "uncertain" && conflict.conflicting ? null : `conflict gave ${JSON.stringify(conflict)}`
+  })
+
+  // Test 2: Null variants, with NMD escape in the last exon, start loss and genes outside the loss-of-function list
+  await check("Test 2: PVS1", async () => {
+    const pvs1 = (consequence: string, exon: string, genes?: string[]) =>
+      find(
+        evaluateCriteria(annotated({ ensembl: transcript(consequence, { exon }) }), ALL_SOURCES, {
+          ...DEFAULT_ACMG_OPTIONS,
+          lossOfFunctionGenes: genes && new Set(genes),
+        }),
+        "PVS1",
+      )!
+
+    const outcomes = [
+      pvs1("frameshift_variant", "1/2"),
+      pvs1("stop_gained", "2/2"),
+      pvs1("start_lost", "1/2"),
+      pvs1("missense_variant", "1/2"),
+      pvs1("stop_gained", "1/2", ["BRCA1"]),
+    ].map((evaluation) => `${evaluation.met}:${evaluation.strength}`)
+    const expected = ["true:very_strong", "true:strong", "true:moderate", "false:very_strong", "false:very_strong"]
+    return same(outcomes, expected) ? null : `outcomes were ${outcomes}`
+  })
+
+  // Test 3: Population frequency criteria, and no PM2 when gnomAD was not applied
+  await check("Test 3: PM2, BS1 and BA1", async () => {
+    const gnomad = (af: number, popmax: number | null) => ({
+      af,
+      ac: null,
+      an: null,
+      homozygotes: null,
+      popmax: popmax === null ? null : { population: "afr", af: popmax },
+      populations: {},
+      snapshot_version: "test-1",
+    })
+    const frequency = (annotations: VariantAnnotations, evidence = ALL_SOURCES) => {
+      const evaluations = evaluateCriteria(annotated(annotations), evidence)
+      return (["PM2", "BS1", "BA1"] as const).filter((criterion) => find(evaluations, criterion)?.met).join(",")
+    }
+
+    const outcomes = [
+      frequency({}),
+      frequency({ gnomad: gnomad(0.00002, null) }),
+      frequency({ gnomad: gnomad(0.00002, 0.02) }),
+      frequency({ gnomad: gnomad(0.08, 0.3) }),
+      frequency({}, { sources: [KnowledgeSource.CLINVAR], codonVariants: [] }),
+    ]
+    return same(outcomes, ["PM2", "PM2", "BS1", "BA1", ""]) ? null : `outcomes were ${JSON.stringify(outcomes)}`
+  })
+
+  // Test 4: Same amino acid change (PS1) or another change at the residue (PM5), and synonymous variants (BP7)
+  await check("Test 4: PS1, PM5 and BP7", async () => {
+    const missense = annotated({
+      ensembl: transcript("missense_variant", { amino_acids: ["R", "C"], protein_position: 3, hgvs_p: "p.Arg3Cys" }),
+    })
+    const codon = (amino_acid: string, significance: "pathogenic" | "benign") => ({
+      id: `toy-27-C-${amino_acid}`,
+      hgvs_p: `p.Arg3${amino_acid}`,
+      amino_acid,
+      significance,
+      stars: 2,
+    })
+
+    const sameChange = evaluateCriteria(missense, { ...ALL_SOURCES, codonVariants: [codon("C", "pathogenic")] })
+    if (!find(sameChange, "PS1")?.met || find(sameChange, "PM5")?.met) return "same amino acid change was not PS1"
+
+    const otherChange = evaluateCriteria(missense, {
+      ...ALL_SOURCES,
+      codonVariants: [codon("H", "pathogenic"), codon("S", "benign")],
+    })
+    if (find(otherChange, "PS1")?.met || find(otherChange, "PM5")?.evidence.hgvs_p !== "p.Arg3H") {
+      return `other change gave ${JSON.stringify(otherChange)}`
+    }
+
+    const synonymous = (consequences: string[]) =>
+      find(
+        evaluateCriteria(annotated({ ensembl: transcript(consequences[0], { consequences }) }), ALL_SOURCES),
+        "BP7",
+      )?.met
+    return synonymous(["synonymous_variant"]) && !synonymous(["synonymous_variant", "splice_region_variant"])
+      ? null
+      : "BP7 did not depend on the splice region"
+  })
+
+  // Test 5: Enriched variants are classified from the snapshots, with the evidence trail behind each tier
+  await check("Test 5: Classification of enriched variants", async () => {
+    const service = new GenomicEnrichmentService(
+      createSnapshotAdapters(() => snapshotDirectory),
+      new VariantClassificationService(new InMemoryVariantClassificationStore()),
+    )
+    const { variants } = await service.enrich([
+      variant(27, "C", "T"),
+      variant(29, "T", "C"),
+      variant(30, "GA", "G"),
+      variant(9000, "A", "G"),
+    ])
+
+    const outcomes = variants.map((item) => `${item.classification?.tier}:${item.classification?.met.join("+")}`)
+    const expected = [
+      "uncertain:PM2+PM5+PP5",
+      "benign:BA1+BP6+BP7",
+      "likely_pathogenic:PVS1+PM2",
+      "uncertain:PM2",
+    ]
+    if (!same(outcomes, expected)) return `classifications were ${JSON.stringify(outcomes)}`
+
+    const asserted = variants.map((item) => item.significance)
+    if (!same(asserted, ["pathogenic", "benign", "likely_pathogenic", "uncertain"])) {
+      return `ClinVar significances were replaced: ${asserted}`
+    }
+
+    const pm5 = variants[0].classification?.criteria.find((item) => item.criterion === "PM5")
+    if (pm5?.evidence.clinvar_variant !== "toy-28-G-A") return `PM5 evidence was ${JSON.stringify(pm5)}`
+
+    const rule = variants[2].classification?.rule
+    return rule?.startsWith("Likely pathogenic (i)") ? null : `frameshift rule was ${rule}`
+  })
+
+  // Test 6: Curator overrides reclassify the variant, are validated, and survive new enrichments
+  await check("Test 6: Curator overrides", async () => {
+    const classifications = new VariantClassificationService(new InMemoryVariantClassificationStore())
+    const service = new GenomicEnrichmentService(createSnapshotAdapters(() => snapshotDirectory), classifications)
+    await service.enrich([variant(27, "C", "T")], undefined, new Date("2025-10-01T00:00:00Z"))
+
+    const functional = await classifications.override(
+      "toy-27-C-T",
+      { criterion: "PS3", met: true, strength: null, justification: "Loss of function in a validated assay" },
+      "curator@example.org",
+      new Date("2025-10-02T00:00:00Z"),
+    )
+    const tiers = [functional.classification.tier, functional.variant.significance]
+    if (!same(tiers, ["likely_pathogenic", "pathogenic"])) {
+      return `PS3 gave ${functional.classification.tier}: ${functional.classification.rule}`
+    }
+
+    const withdrawn = await classifications.override(
+      "toy-27-C-T",
+      { criterion: "PP5", met: false, justification: "ClinVar submitters rely on the same family" },
+      "curator@example.org",
+      new Date("2025-10-03T00:00:00Z"),
+    )
+    if (withdrawn.classification.met.includes("PP5") || withdrawn.overrides.length !== 2) {
+      return `PP5 override gave ${JSON.stringify(withdrawn.classification.met)}`
+    }
+
+    const restored = await classifications.override(
+      "toy-27-C-T",
+      { criterion: "PP5", met: null, justification: "Withdrawn" },
+      "curator@example.org",
+      new Date("2025-10-04T00:00:00Z"),
+    )
+    const pp5 = restored.classification.criteria.find((item) => item.criterion === "PP5")
+    if (!pp5?.met || pp5.override) return `PP5 was not returned to automatic: ${JSON.stringify(pp5)}`
+
+    const rejected = await Promise.all(
+      [
+        ["toy-27-C-T", { criterion: "PX9", met: true, justification: "x" }],
+        ["toy-27-C-T", { criterion: "BS1", met: true, strength: "very_strong", justification: "x" }],
+        ["toy-27-C-T", { criterion: "PS3", met: "yes", justification: "x" }],
+        ["toy-27-C-T", { criterion: "PS3", met: true, justification: " " }],
+        ["toy-1-A-G", { criterion: "PS3", met: true, justification: "x" }],
+      ].map(([id, request]) =>
+        classifications.override(id as string, request as object, "curator@example.org").then(
+          () => null,
+          (error) => error.statusCode,
+        ),
+      ),
+    )
+    if (!same(rejected, [400, 400, 400, 400, 404])) return `rejections were ${rejected}`
+
+    const [again] = (await service.enrich([variant(27, "C", "T")], undefined, new Date("2025-11-01T00:00:00Z")))
+      .variants
+    const stored = await classifications.get("toy-27-C-T")
+    if (again.classification?.tier !== "likely_pathogenic" || stored.overrides.length !== 3) {
+      return `reclassification gave ${again.classification?.tier} with ${stored.overrides.length} overrides`
+    }
+    return stored.created_at === "2025-10-01T00:00:00.000Z" && stored.snapshots.clinvar === "2025-09-14"
+      ? null
+      : `stored record was ${JSON.stringify({ created_at: stored.created_at, snapshots: stored.snapshots })}`
+  })
+
+  await rm(snapshotDirectory, { recursive: true, force: true })
+
+  // Final result
+  if (allTestsPassed) {
+    logger.info("✅ All tests passed! ACMG classification is working correctly.")
+  } else {
+    logger.error("❌ Some tests failed. ACMG classification may not be working correctly.")
+    process.exitCode = 1
+  }
+}
+
+// Run the verification
+verifyAcmgClassification().catch((error) => {
+  logger.error("ACMG classification verification failed with unhandled exception", { error })
+  process.exitCode = 1
+})
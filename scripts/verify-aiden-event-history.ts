@@ -0,0 +1,376 @@
+/**
+ * AIDEN Event History Verification Script
+ *
+ * Records events from an event bus into the in-memory history store, and builds Supabase queries against client
+ * stand-ins that record the calls made on them or evaluate them against rows. Checks which events are recorded,
+ * history filters and paging, anomaly acknowledgements and notes, retention, and that the Supabase store applies the
+ * same viewer rules in its query, showing each viewer what the in-memory store shows them.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { AidenEventBus } from "../lib/aiden/aiden-events"
+import { getRestrictedEventTypes } from "../lib/aiden/event-access"
+import { AidenEventHistory, AidenEventHistoryError } from "../lib/aiden/event-history"
+import { InMemoryAidenEventHistoryStore, SupabaseAidenEventHistoryStore } from "../lib/aiden/event-history-store"
+import { AidenEventSeverity, AidenWebSocketEventType, type AidenEventRecord } from "../lib/aiden/aiden-websocket"
+import { RoleType } from "../lib/auth/permissions"
+import type { SessionUser } from "../lib/supabase/server"
+import { logger } from "../lib/logging/enhanced-logger"
+
+const CLINICIAN: SessionUser = { id: "clinician", email: "clinician@example.org", roles: [RoleType.CLINICIAN] }
+const PATIENT: SessionUser = { id: "patient", roles: [RoleType.PATIENT] }
+
+const record = (
+  eventId: string,
+  eventType: AidenWebSocketEventType,
+  timestamp: string,
+  fields: Partial<AidenEventRecord> = {},
+): AidenEventRecord => ({
+  event_id: eventId,
+  event_type: eventType,
+  timestamp,
+  payload: {},
+  patient_id: null,
+  severity: AidenEventSeverity.INFO,
+  acknowledged_at: null,
+  acknowledged_by: null,
+  annotations: [],
+  ...fields,
+})
+
+/**
+ * Supabase client stand-in that records every query builder call and answers with an empty page
+ */
+function recordingSupabase(calls: string[]) {
+  const builder: any = new Proxy(
+    {},
+    {
+      get: (_target, method: string) => {
+        if (method === "then") {
+          return (resolve: (value: unknown) => void) => resolve({ data: [], count: 0, error: null })
+        }
+        return (...args: unknown[]) => {
+          calls.push(`${method}(${args.map((arg) => JSON.stringify(arg)).join(", ")})`)
+          return builder
+        }
+      },
+    },
+  )
+  return builder as SupabaseClient
+}
+
+/**
+ * Supabase client stand-in that keeps inserted rows and evaluates the PostgREST filters the history store uses
+ */
+function tableSupabase() {
+  const rows: Record<string, any>[] = []
+  // Lists in filters are written (a,b) or {a,b}
+  const listed = (value: string) => value.slice(1, -1).split(",")
+
+  // Conditions of an or() filter: column.is.null, column.eq.value, column.eq.{} and column.ov.{values}
+  const matchesCondition = (row: Record<string, any>, condition: string) => {
+    const [column, operator, ...rest] = condition.split(".")
+    const value = rest.join(".")
+    const cell = row[column]
+
+    if (operator === "is" && value === "null") return cell === null || cell === undefined
+    if (operator === "eq" && value === "{}") return Array.isArray(cell) && cell.length === 0
+    if (operator === "eq") return cell === value
+    if (operator === "ov") return Array.isArray(cell) && cell.some((item) => listed(value).includes(item))
+    throw new Error(`Unsupported condition ${condition}`)
+  }
+
+  const from = () => {
+    const filters: ((row: Record<string, any>) => boolean)[] = []
+    const ordering: string[] = []
+    let window = [0, Infinity]
+
+    const filter = (test: (row: Record<string, any>) => boolean) => {
+      filters.push(test)
+      return builder
+    }
+    const builder: any = {
+      insert: async (row: Record<string, any>) => {
+        rows.push(structuredClone(row))
+        return { error: null }
+      },
+      select: () => builder,
+      in: (column: string, values: unknown[]) => filter((row) => values.includes(row[column])),
+      gte: (column: string, value: string) => filter((row) => row[column] >= value),
+      lte: (column: string, value: string) => filter((row) => row[column] <= value),
+      eq: (column: string, value: unknown) => filter((row) => row[column] === value),
+      is: (column: string) => filter((row) => row[column] === null || row[column] === undefined),
+      not: (column: string, operator: string, value: string | null) =>
+        filter((row) => (operator === "in" ? !listed(value!).includes(row[column]) : row[column] != null)),
+      or: (conditions: string) =>
+        filter((row) => conditions.split(/,(?![^{]*})/).some((condition) => matchesCondition(row, condition))),
+      order: (column: string) => {
+        ordering.push(column)
+        return builder
+      },
+      range: (start: number, end: number) => {
+        window = [start, end + 1]
+        return builder
+      },
+      then: (resolve: (value: unknown) => void) => {
+        // Every order() call in the store is descending
+        const descending = (a: Record<string, any>, b: Record<string, any>) =>
+          ordering.map((column) => (a[column] < b[column] ? 1 : a[column] > b[column] ? -1 : 0)).find(Boolean) || 0
+        const matching = rows.filter((row) => filters.every((test) => test(row))).sort(descending)
+        resolve({ data: matching.slice(window[0], window[1]), count: matching.length, error: null })
+      },
+    }
+    return builder
+  }
+
+  return { from } as unknown as SupabaseClient
+}
+
+async function verifyAidenEventHistory() {
+  logger.info("Starting AIDEN event history verification...")
+  let allTestsPassed = true
+
+  const check = async (name: string, test: () => Promise<string | null>) => {
+    try {
+      const failure = await test()
+
+      if (failure) {
+        logger.error(`${name} Failed: ${failure}`)
+        allTestsPassed = false
+      } else {
+        logger.info(`${name} Passed`)
+      }
+    } catch (error) {
+      logger.error(`${name} Failed with exception`, { error: error instanceof Error ? error.message : error })
+      allTestsPassed = false
+    }
+  }
+
+  const same = (actual: unknown, expected: unknown) => JSON.stringify(actual) === JSON.stringify(expected)
+  const ids = (events: AidenEventRecord[]) => events.map((event) => event.event_id)
+
+  // Test 1: Published events are recorded with their patient and severity, except stream samples and task progress
+  // that doesn't change the status
+  await check("Test 1: Recording published events", async () => {
+    const events = new AidenEventBus()
+    const history = new AidenEventHistory(new InMemoryAidenEventHistoryStore())
+    const detach = history.attach(events)
+
+    const task = (status: string, percent: number) =>
+      events.publish(AidenWebSocketEventType.TASK_UPDATE, { task_id: "task-1", status, progress: { percent } })
+    task("processing", 10)
+    task("processing", 60)
+    task("failed", 60)
+    events.publish(AidenWebSocketEventType.DATA_STREAM, { patient_id: "patient-1", heart_rate: 80 })
+    const anomaly = events.publish(AidenWebSocketEventType.ANOMALY_DETECTED, {
+      patient_id: "patient-1",
+      severity: "critical",
+    })
+    detach()
+    events.publish(AidenWebSocketEventType.SYSTEM_NOTIFICATION, { message: "after detaching" })
+    await new Promise((resolve) => setImmediate(resolve))
+
+    const { events: recorded, total } = await history.query({})
+    const summary = recorded.map((event) => [event.event_type, event.payload.status, event.severity, event.patient_id])
+    const expected = [
+      ["anomaly_detected", null, "critical", "patient-1"],
+      ["task_update", "failed", "low", null],
+      ["task_update", "processing", "info", null],
+    ]
+    if (total !== 3 || !same(summary, expected)) return `recorded ${JSON.stringify(summary)}`
+    return recorded[0].event_id === anomaly.event_id ? null : "the record did not keep the live event's id"
+  })
+
+  // Test 2: Queries filter by type, time, patient, severity, review state and viewer, newest first, in pages
+  await check("Test 2: Filters and paging", async () => {
+    const store = new InMemoryAidenEventHistoryStore()
+    const day = (date: number) => `2025-03-0${date}T08:00:00.000Z`
+    const anomaly = (eventId: string, date: number, fields: Partial<AidenEventRecord> = {}) =>
+      record(eventId, AidenWebSocketEventType.ANOMALY_DETECTED, day(date), {
+        patient_id: "patient-1",
+        severity: AidenEventSeverity.HIGH,
+        ...fields,
+      })
+
+    for (const event of [
+      anomaly("a-1", 1),
+      anomaly("a-2", 2, { acknowledged_at: day(3) }),
+      anomaly("a-3", 3, { patient_id: "patient-2", severity: AidenEventSeverity.MEDIUM }),
+      record("t-1", AidenWebSocketEventType.TASK_UPDATE, day(4), { metadata: { user_id: "patient" } }),
+      record("t-2", AidenWebSocketEventType.TASK_UPDATE, day(5), { metadata: { user_id: "clinician" } }),
+      record("n-1", AidenWebSocketEventType.SYSTEM_NOTIFICATION, day(6), { metadata: { roles: ["admin"] } }),
+    ]) {
+      await store.append(event)
+    }
+
+    const pages = await Promise.all(
+      [
+        {},
+        { eventTypes: [AidenWebSocketEventType.ANOMALY_DETECTED], from: day(2), to: day(3) },
+        { patientId: "patient-1", acknowledged: false },
+        { severities: [AidenEventSeverity.MEDIUM, AidenEventSeverity.INFO] },
+        { viewer: PATIENT },
+        { viewer: CLINICIAN, limit: 2, offset: 1 },
+      ].map((query) => store.list(query)),
+    )
+
+    const results = pages.map((page) => [ids(page.events), page.total])
+    const expected = [
+      [["n-1", "t-2", "t-1", "a-3", "a-2", "a-1"], 6],
+      [["a-3", "a-2"], 2],
+      [["a-1"], 1],
+      [["n-1", "t-2", "t-1", "a-3"], 4],
+      [["t-1"], 1],
+      [["a-3", "a-2"], 4],
+    ]
+    return same(results, expected) ? null : `queries gave ${JSON.stringify(results)}`
+  })
+
+  // Test 3: Anomalies can be acknowledged once and annotated; other events and unseen events are refused
+  await check("Test 3: Acknowledgements and notes", async () => {
+    const store = new InMemoryAidenEventHistoryStore()
+    const history = new AidenEventHistory(store)
+    await store.append(record("a-1", AidenWebSocketEventType.ANOMALY_DETECTED, "2025-03-01T08:00:00.000Z"))
+    await store.append(record("t-1", AidenWebSocketEventType.TASK_UPDATE, "2025-03-01T08:00:00.000Z"))
+
+    const acknowledged = await history.acknowledge("a-1", CLINICIAN)
+    const again = await history.acknowledge("a-1", { id: "admin", roles: [RoleType.ADMIN] })
+    const unchanged = again.acknowledged_at === acknowledged.acknowledged_at
+    if (acknowledged.acknowledged_by !== "clinician@example.org" || !unchanged) {
+      return `acknowledging twice gave ${again.acknowledged_by} at ${again.acknowledged_at}`
+    }
+
+    await history.annotate("a-1", "  Repeat potassium drawn  ", CLINICIAN)
+    const annotated = await history.annotate("a-1", "Within range on repeat", null)
+    const notes = annotated.annotations.map((annotation) => `${annotation.author}: ${annotation.text}`)
+    if (!same(notes, ["clinician@example.org: Repeat potassium drawn", "null: Within range on repeat"])) {
+      return `notes were ${notes}`
+    }
+
+    const refusals = await Promise.all(
+      [
+        () => history.annotate("a-1", " ", CLINICIAN),
+        () => history.acknowledge("t-1", CLINICIAN),
+        () => history.acknowledge("a-1", PATIENT),
+        () => history.acknowledge("missing", CLINICIAN),
+      ].map((attempt) =>
+        attempt().then(
+          () => null,
+          (error) => (error instanceof AidenEventHistoryError ? error.statusCode : `${error}`),
+        ),
+      ),
+    )
+    return same(refusals, [400, 409, 404, 404]) ? null : `refusals were ${refusals}`
+  })
+
+  // Test 4: Recording prunes events past the retention period, and the in-memory store keeps a bounded number
+  await check("Test 4: Retention", async () => {
+    const store = new InMemoryAidenEventHistoryStore(3)
+    const history = new AidenEventHistory(store, 7)
+    const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString()
+
+    await store.append(record("old", AidenWebSocketEventType.SYSTEM_NOTIFICATION, daysAgo(8)))
+    await store.append(record("recent", AidenWebSocketEventType.SYSTEM_NOTIFICATION, daysAgo(6)))
+    await history.record(record("new", AidenWebSocketEventType.SYSTEM_NOTIFICATION, daysAgo(0)))
+    const pruned = ids((await store.list()).events)
+    if (!same(pruned, ["new", "recent"])) return `after pruning the history held ${pruned}`
+
+    for (const eventId of ["newer", "newest"]) {
+      await store.append(record(eventId, AidenWebSocketEventType.SYSTEM_NOTIFICATION, daysAgo(0)))
+    }
+    const kept = (await store.list()).events.map((event) => event.event_id).sort()
+    return same(kept, ["new", "newer", "newest"]) ? null : `the full store kept ${kept}`
+  })
+
+  // Test 5: The Supabase store applies the same filters and viewer rules in its query, so pages stay accurate
+  await check("Test 5: Supabase queries", async () => {
+    const queries = await Promise.all(
+      [
+        { viewer: PATIENT, acknowledged: false, limit: 20, offset: 40 },
+        { viewer: CLINICIAN, patientId: "patient-1", from: "2025-03-01T00:00:00.000Z" },
+      ].map(async (query) => {
+        const calls: string[] = []
+        await new SupabaseAidenEventHistoryStore(recordingSupabase(calls)).list(query)
+        return calls
+      }),
+    )
+
+    // A patient may not see any of the patient-data event types
+    const restricted = getRestrictedEventTypes(PATIENT.roles).join(",")
+    const expected = [
+      [
+        'from("aiden_events")',
+        'select("*", {"count":"exact"})',
+        'is("acknowledged_at", null)',
+        'or("user_id.is.null,user_id.eq.patient")',
+        `not("event_type", "in", "(${restricted})")`,
+        'or("audience_roles.is.null,audience_roles.eq.{},audience_roles.ov.{patient}")',
+        'order("timestamp", {"ascending":false})',
+        'order("sequence", {"ascending":false})',
+        "range(40, 59)",
+      ],
+      [
+        'from("aiden_events")',
+        'select("*", {"count":"exact"})',
+        'gte("timestamp", "2025-03-01T00:00:00.000Z")',
+        'eq("patient_id", "patient-1")',
+        'or("user_id.is.null,user_id.eq.clinician")',
+        'or("audience_roles.is.null,audience_roles.eq.{},audience_roles.ov.{clinician}")',
+        'order("timestamp", {"ascending":false})',
+        'order("sequence", {"ascending":false})',
+        "range(0, 49)",
+      ],
+    ]
+    return same(queries, expected) ? null : `queries were ${JSON.stringify(queries)}`
+  })
+
+  // Test 6: For the same events and query, both stores show each viewer the same page
+  await check("Test 6: Stores agree", async () => {
+    const stores = [new InMemoryAidenEventHistoryStore(), new SupabaseAidenEventHistoryStore(tableSupabase())]
+    const day = (date: number) => `2025-03-0${date}T08:00:00.000Z`
+    const notification = AidenWebSocketEventType.SYSTEM_NOTIFICATION
+
+    for (const event of [
+      record("a-1", AidenWebSocketEventType.ANOMALY_DETECTED, day(1), { patient_id: "patient-1" }),
+      record("t-1", AidenWebSocketEventType.TASK_UPDATE, day(2), { metadata: { user_id: "patient" } }),
+      record("t-2", AidenWebSocketEventType.TASK_UPDATE, day(3), { metadata: { user_id: "clinician" } }),
+      record("n-1", notification, day(4), { metadata: { roles: [] } }),
+      record("n-2", notification, day(5), { metadata: { roles: [RoleType.ADMIN, RoleType.CLINICIAN] } }),
+      record("n-3", notification, day(6), { metadata: { roles: [RoleType.PATIENT] } }),
+      record("n-4", notification, day(7)),
+    ]) {
+      await Promise.all(stores.map((store) => store.append(event)))
+    }
+
+    const viewers = [PATIENT, CLINICIAN, { id: "admin", roles: [RoleType.ADMIN] }, null]
+    const pages = await Promise.all(
+      stores.map((store) =>
+        Promise.all(
+          viewers.map(async (viewer) => {
+            const page = await store.list({ viewer, limit: 4, offset: 1 })
+            return [ids(page.events), page.total]
+          }),
+        ),
+      ),
+    )
+
+    const [inMemory, supabase] = pages
+    if (!same(supabase, inMemory)) return `the stores disagreed: ${JSON.stringify(pages)}`
+    const patient = [["n-3", "n-1", "t-1"], 4]
+    return same(inMemory[0], patient) ? null : `a patient saw ${JSON.stringify(inMemory[0])}`
+  })
+
+  // Final result
+  if (allTestsPassed) {
+    logger.info("✅ All tests passed! AIDEN event history is working correctly.")
+  } else {
+    logger.error("❌ Some tests failed. AIDEN event history may not be working correctly.")
+    process.exitCode = 1
+  }
+}
+
+// Run the verification
+verifyAidenEventHistory().catch((error) => {
+  logger.error("AIDEN event history verification failed with unhandled exception", { error })
+  process.exitCode = 1
+})
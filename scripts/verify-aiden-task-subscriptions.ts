@@ -0,0 +1,202 @@
+/**
+ * AIDEN Task Subscription Verification Script
+ *
+ * Subscribes to tasks with the browser's EventSource and fetch replaced by scripted stand-ins, so the stream can be
+ * fed updates or made to fail. Checks that subscribers share one stream, the fallback to status polling after stream
+ * errors or without EventSource, and that transports close once a task finishes or nobody is listening.
+ */
+
+import { AidenTaskStatus, type AidenTaskStatusResponse } from "../lib/aiden/aiden-client"
+import { getTaskTransport, resumeTaskSubscription, subscribeToTask } from "../lib/aiden/task-subscriptions"
+import { logger } from "../lib/logging/enhanced-logger"
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+/**
+ * EventSource stand-in that records every stream opened and lets the script push events and errors
+ */
+class ScriptedEventSource {
+  static readonly CONNECTING = 0
+  static readonly OPEN = 1
+  static readonly CLOSED = 2
+  static opened: ScriptedEventSource[] = []
+
+  readyState = ScriptedEventSource.OPEN
+  onerror: (() => void) | null = null
+  private readonly listeners = new Map<string, (event: { data: string }) => void>()
+
+  constructor(readonly url: string) {
+    ScriptedEventSource.opened.push(this)
+  }
+
+  addEventListener(type: string, listener: (event: { data: string }) => void) {
+    this.listeners.set(type, listener)
+  }
+
+  close() {
+    this.readyState = ScriptedEventSource.CLOSED
+  }
+
+  push(update: AidenTaskStatusResponse) {
+    this.listeners.get("task_update")?.({ data: JSON.stringify(update) })
+  }
+
+  fail(readyState = ScriptedEventSource.CONNECTING) {
+    this.readyState = readyState
+    this.onerror?.()
+  }
+}
+
+const update = (taskId: string, status: AidenTaskStatus, percent = 0) =>
+  ({ task_id: taskId, status, progress: { percent } }) as unknown as AidenTaskStatusResponse
+
+/** Status responses the polling fallback receives, by task id, served in order and then repeating the last */
+const polled = new Map<string, AidenTaskStatus[]>()
+const pollRequests: string[] = []
+
+globalThis.fetch = (async (url: string) => {
+  const taskId = url.split("/")[4]
+  pollRequests.push(url)
+
+  const statuses = polled.get(taskId) || [AidenTaskStatus.PROCESSING]
+  const status = statuses.length > 1 ? statuses.shift()! : statuses[0]
+  return { ok: true, json: async () => update(taskId, status) }
+}) as unknown as typeof fetch
+
+async function verifyAidenTaskSubscriptions() {
+  logger.info("Starting AIDEN task subscription verification...")
+  let allTestsPassed = true
+
+  const check = async (name: string, test: () => Promise<string | null>) => {
+    try {
+      const failure = await test()
+
+      if (failure) {
+        logger.error(`${name} Failed: ${failure}`)
+        allTestsPassed = false
+      } else {
+        logger.info(`${name} Passed`)
+      }
+    } catch (error) {
+      logger.error(`${name} Failed with exception`, { error: error instanceof Error ? error.message : error })
+      allTestsPassed = false
+    }
+  }
+
+  const same = (actual: unknown, expected: unknown) => JSON.stringify(actual) === JSON.stringify(expected)
+  const statuses = (updates: AidenTaskStatusResponse[]) => updates.map((received) => received.status)
+
+  // Test 1: Without EventSource, as during server rendering, subscribers poll the status route
+  await check("Test 1: Polling without EventSource", async () => {
+    polled.set("task-1", [AidenTaskStatus.PROCESSING, AidenTaskStatus.COMPLETED])
+    const received: AidenTaskStatusResponse[] = []
+    const unsubscribe = subscribeToTask("task-1", (next) => received.push(next), { pollingInterval: 10 })
+
+    if (getTaskTransport("task-1") !== "polling") return `the transport was ${getTaskTransport("task-1")}`
+    await sleep(60)
+    unsubscribe()
+
+    const requests = pollRequests.filter((url) => url.includes("task-1"))
+    if (!same(requests, Array(2).fill("/api/aiden/tasks/task-1/status"))) return `requests were ${requests}`
+    return same(statuses(received), ["processing", "completed"]) ? null : `updates were ${statuses(received)}`
+  })
+
+  Object.assign(globalThis, { EventSource: ScriptedEventSource })
+
+  // Test 2: Every subscriber to a task shares one stream, and late subscribers get the latest update at once
+  await check("Test 2: Shared stream", async () => {
+    const [first, second, late]: AidenTaskStatusResponse[][] = [[], [], []]
+    const unsubscribeFirst = subscribeToTask("task-2", (next) => first.push(next))
+    const unsubscribeSecond = subscribeToTask("task-2", (next) => second.push(next))
+
+    const streams = ScriptedEventSource.opened.filter((source) => source.url === "/api/aiden/tasks/task-2/events")
+    if (streams.length !== 1 || getTaskTransport("task-2") !== "sse") return `${streams.length} streams were opened`
+
+    const [stream] = streams
+    stream.push(update("task-2", AidenTaskStatus.PROCESSING, 40))
+    const unsubscribeLate = subscribeToTask("task-2", (next) => late.push(next))
+    stream.push(update("task-2", AidenTaskStatus.COMPLETED, 100))
+
+    const seen = [first, second, late].map(statuses)
+    const expected = [
+      ["processing", "completed"],
+      ["processing", "completed"],
+      ["processing", "completed"],
+    ]
+    if (!same(seen, expected)) return `subscribers saw ${JSON.stringify(seen)}`
+    if (stream.readyState !== ScriptedEventSource.CLOSED) return "the stream stayed open after the task finished"
+
+    ;[unsubscribeFirst, unsubscribeSecond, unsubscribeLate].forEach((unsubscribe) => unsubscribe())
+    return getTaskTransport("task-2") === null ? null : "the subscription outlived its subscribers"
+  })
+
+  // Test 3: Repeated stream errors, or a stream the browser gave up on, fall back to polling
+  await check("Test 3: Fallback after stream errors", async () => {
+    polled.set("task-3", [AidenTaskStatus.PROCESSING, AidenTaskStatus.FAILED])
+    const received: AidenTaskStatusResponse[] = []
+    const unsubscribe = subscribeToTask("task-3", (next) => received.push(next), { pollingInterval: 10 })
+    const stream = ScriptedEventSource.opened[ScriptedEventSource.opened.length - 1]
+
+    // A delivered update resets the error count, so only consecutive errors count
+    stream.fail()
+    stream.fail()
+    stream.push(update("task-3", AidenTaskStatus.PROCESSING, 10))
+    stream.fail()
+    stream.fail()
+    if (getTaskTransport("task-3") !== "sse") return "the stream was dropped before three consecutive errors"
+
+    stream.fail()
+    if (getTaskTransport("task-3") !== "polling" || stream.readyState !== ScriptedEventSource.CLOSED) {
+      return `after three errors the transport was ${getTaskTransport("task-3")}`
+    }
+
+    await sleep(60)
+    const requests = pollRequests.filter((url) => url.includes("task-3")).length
+    if (requests !== 2) return `the status was polled ${requests} times`
+    unsubscribe()
+
+    const closed = subscribeToTask("task-4", () => {})
+    ScriptedEventSource.opened[ScriptedEventSource.opened.length - 1].fail(ScriptedEventSource.CLOSED)
+    const transport = getTaskTransport("task-4")
+    closed()
+
+    if (transport !== "polling") return `a closed stream left the transport on ${transport}`
+    const seen = statuses(received)
+    return same(seen, ["processing", "processing", "failed"]) ? null : `updates were ${seen}`
+  })
+
+  // Test 4: Resuming a finished task's subscription reopens the stream and forgets the old outcome
+  await check("Test 4: Resuming after a retry", async () => {
+    const received: AidenTaskStatusResponse[] = []
+    const unsubscribe = subscribeToTask("task-5", (next) => received.push(next))
+    ScriptedEventSource.opened[ScriptedEventSource.opened.length - 1].push(update("task-5", AidenTaskStatus.FAILED))
+
+    resumeTaskSubscription("task-5")
+    const reopened = ScriptedEventSource.opened[ScriptedEventSource.opened.length - 1]
+    if (reopened.url !== "/api/aiden/tasks/task-5/events" || reopened.readyState !== ScriptedEventSource.OPEN) {
+      return "the stream was not reopened"
+    }
+    reopened.push(update("task-5", AidenTaskStatus.QUEUED))
+
+    let replayed: AidenTaskStatusResponse | null = null
+    const unsubscribeLate = subscribeToTask("task-5", (next) => (replayed = next))
+    ;[unsubscribe, unsubscribeLate].forEach((stop) => stop())
+
+    if (!same(statuses(received), ["failed", "queued"])) return `updates were ${statuses(received)}`
+    return replayed?.["status"] === AidenTaskStatus.QUEUED ? null : `a late subscriber got ${JSON.stringify(replayed)}`
+  })
+
+  // Final result
+  if (allTestsPassed) {
+    logger.info("✅ All tests passed! AIDEN task subscriptions are working correctly.")
+  } else {
+    logger.error("❌ Some tests failed. AIDEN task subscriptions may not be working correctly.")
+    process.exitCode = 1
+  }
+}
+
+// Run the verification
+verifyAidenTaskSubscriptions().catch((error) => {
+  logger.error("AIDEN task subscription verification failed with unhandled exception", { error })
+  process.exitCode = 1
+})
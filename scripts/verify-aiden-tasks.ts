@@ -0,0 +1,295 @@
+/**
+ * AIDEN Task Verification Script
+ *
+ * Runs tasks on in-process engines with handlers that record when they run, report progress, fail on early attempts
+ * or wait to be aborted. Checks the priority queue, submission checks, retries with exponential backoff, per-type
+ * timeouts, cancellation and manual retries, the progress and ETA reported while a task runs, and who may read a task.
+ */
+
+import {
+  AidenTaskPriority,
+  AidenTaskStatus,
+  AidenTaskType,
+  toTaskStatusResponse,
+  type AidenTask,
+} from "../lib/aiden/aiden-client"
+import { AidenEventBus } from "../lib/aiden/aiden-events"
+import { AidenWebSocketEventType } from "../lib/aiden/aiden-websocket"
+import { canAccessAidenRecord, listingOwner } from "../lib/aiden/task-access"
+import { AidenTaskEngine, AidenTaskError, type AidenTaskEngineOptions } from "../lib/aiden/task-engine"
+import { RoleType } from "../lib/auth/permissions"
+import { logger } from "../lib/logging/enhanced-logger"
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+function createEngine(options: AidenTaskEngineOptions = {}) {
+  const engine = new AidenTaskEngine({ concurrency: 1, ...options })
+  const ran: string[] = []
+
+  engine.registerHandler(AidenTaskType.CLINICAL_SUMMARY, async (payload: { label: string; holdMs?: number }) => {
+    ran.push(payload.label)
+    await sleep(payload.holdMs || 0)
+    return { label: payload.label }
+  })
+
+  // Fails every attempt before the given one
+  engine.registerHandler(AidenTaskType.RISK_ASSESSMENT, async (payload: { succeedOn: number }, { attempt }) => {
+    if (attempt < payload.succeedOn) throw new Error(`Attempt ${attempt} failed`)
+    return { attempt }
+  })
+
+  // Runs until its attempt is aborted
+  engine.registerHandler(AidenTaskType.LAB_ANALYSIS, (_payload, { signal }) => {
+    ran.push("aborted-handler")
+    return new Promise((_resolve, reject) => signal.addEventListener("abort", () => reject(signal.reason)))
+  })
+
+  // Reports each given percentage as a stage of its own, then holds before finishing
+  engine.registerHandler(
+    AidenTaskType.VARIANT_INTERPRETATION,
+    async (payload: { percents: number[]; holdMs: number }, { reportProgress }) => {
+      for (const percent of payload.percents) {
+        await reportProgress({ percent, stage: `Reported ${percent}` })
+      }
+      await sleep(payload.holdMs)
+      return { reported: payload.percents.length }
+    },
+  )
+
+  return { engine, ran }
+}
+
+async function settled(engine: AidenTaskEngine, taskId: string): Promise<AidenTask> {
+  const deadline = Date.now() + 5000
+
+  while (Date.now() < deadline) {
+    const task = await engine.getTask(taskId)
+    if (task && [AidenTaskStatus.COMPLETED, AidenTaskStatus.FAILED, AidenTaskStatus.CANCELLED].includes(task.status)) {
+      return task
+    }
+    await sleep(10)
+  }
+
+  throw new Error(`Task ${taskId} did not finish`)
+}
+
+async function verifyAidenTasks() {
+  logger.info("Starting AIDEN task verification...")
+  let allTestsPassed = true
+
+  const check = async (name: string, test: () => Promise<string | null>) => {
+    try {
+      const failure = await test()
+
+      if (failure) {
+        logger.error(`${name} Failed: ${failure}`)
+        allTestsPassed = false
+      } else {
+        logger.info(`${name} Passed`)
+      }
+    } catch (error) {
+      logger.error(`${name} Failed with exception`, { error: error instanceof Error ? error.message : error })
+      allTestsPassed = false
+    }
+  }
+
+  const same = (actual: unknown, expected: unknown) => JSON.stringify(actual) === JSON.stringify(expected)
+
+  // Test 1: Queued tasks run highest priority first, and in submission order within a priority
+  await check("Test 1: Priority queue", async () => {
+    const { engine, ran } = createEngine()
+    const submit = (label: string, priority: AidenTaskPriority, holdMs = 0) =>
+      engine.submit({ task_type: AidenTaskType.CLINICAL_SUMMARY, priority, payload: { label, holdMs } })
+
+    const tasks = [
+      await submit("running", AidenTaskPriority.LOW, 50),
+      await submit("low", AidenTaskPriority.LOW),
+      await submit("normal-1", AidenTaskPriority.NORMAL),
+      await submit("critical", AidenTaskPriority.CRITICAL),
+      await submit("normal-2", AidenTaskPriority.NORMAL),
+      await submit("high", AidenTaskPriority.HIGH),
+    ]
+    await Promise.all(tasks.map((task) => settled(engine, task.task_id)))
+
+    const expected = ["running", "critical", "high", "normal-1", "normal-2", "low"]
+    return same(ran, expected) ? null : `tasks ran in the order ${ran}`
+  })
+
+  // Test 2: Unknown task types and priorities are refused before anything is queued
+  await check("Test 2: Submission checks", async () => {
+    const { engine } = createEngine()
+    const refused = await Promise.all(
+      [
+        { task_type: AidenTaskType.GENOMIC_ENRICHMENT, payload: {} },
+        { task_type: AidenTaskType.CLINICAL_SUMMARY, priority: "urgent" as AidenTaskPriority, payload: {} },
+      ].map((submission) =>
+        engine.submit(submission).then(
+          () => null,
+          (error) => (error instanceof AidenTaskError ? `${error.statusCode} ${error.message}` : `${error}`),
+        ),
+      ),
+    )
+
+    const expected = ["400 Unsupported task type: genomic_enrichment", "400 Unknown task priority: urgent"]
+    if (!same(refused, expected)) return `submissions gave ${JSON.stringify(refused)}`
+    return (await engine.listTasks()).length === 0 ? null : "a refused task was stored"
+  })
+
+  // Test 3: Failed attempts are retried after exponentially growing delays, up to the attempt limit
+  await check("Test 3: Retries with backoff", async () => {
+    const retryPolicy = { maxAttempts: 3, initialDelayMs: 20, backoffMultiplier: 3, maxDelayMs: 100 }
+    const { engine } = createEngine({ retryPolicy })
+
+    const delays = [1, 2, 3, 4].map((attempt) => engine.getRetryDelay(attempt))
+    if (!same(delays, [20, 60, 100, 100])) return `delays were ${delays}`
+
+    const submit = (succeedOn: number) =>
+      engine.submit({ task_type: AidenTaskType.RISK_ASSESSMENT, payload: { succeedOn } })
+    const [recovered, exhausted] = await Promise.all([submit(3), submit(4)])
+    const [done, failed] = await Promise.all([settled(engine, recovered.task_id), settled(engine, exhausted.task_id)])
+
+    if (done.status !== AidenTaskStatus.COMPLETED || done.result.attempt !== 3) {
+      return `the recovering task ${done.status} after ${done.attempts} attempts`
+    }
+
+    const failures = done.history.filter((entry) => entry.status === AidenTaskStatus.FAILED)
+    const gaps = failures.map((failure, index) => {
+      const next = done.history.filter((entry) => entry.status === AidenTaskStatus.PROCESSING)[index + 1]
+      return Date.parse(next.timestamp) - Date.parse(failure.timestamp)
+    })
+    // Timestamps are whole milliseconds, so allow a millisecond either side of each delay
+    if (gaps[0] < 19 || gaps[1] < 59) return `attempts were ${gaps} ms apart`
+
+    return failed.status === AidenTaskStatus.FAILED && failed.attempts === 3 && failed.error === "Attempt 3 failed"
+      ? null
+      : `the failing task ${failed.status} after ${failed.attempts} attempts: ${failed.error}`
+  })
+
+  // Test 4: Attempts running past their task type's timeout are aborted and count as failures
+  await check("Test 4: Timeouts", async () => {
+    const { engine } = createEngine({
+      timeouts: { [AidenTaskType.LAB_ANALYSIS]: 30 },
+      retryPolicy: { maxAttempts: 2, initialDelayMs: 10 },
+    })
+    if (engine.getTimeout(AidenTaskType.CLINICAL_SUMMARY) !== 60_000) return "the default timeouts were replaced"
+
+    const task = await engine.submit({ task_type: AidenTaskType.LAB_ANALYSIS, payload: {} })
+    const timedOut = await settled(engine, task.task_id)
+
+    const failures = timedOut.history.filter((entry) => entry.status === AidenTaskStatus.FAILED)
+    const messages = failures.map((entry) => entry.message)
+    return timedOut.status === AidenTaskStatus.FAILED && same(messages, Array(2).fill("Attempt timed out after 0s"))
+      ? null
+      : `the task ${timedOut.status} with failures ${JSON.stringify(messages)}`
+  })
+
+  // Test 5: Cancelling aborts the running attempt; a retry re-queues the task with a fresh set of attempts
+  await check("Test 5: Cancellation and manual retry", async () => {
+    const { engine, ran } = createEngine({ retryPolicy: { maxAttempts: 1 } })
+    const task = await engine.submit({ task_type: AidenTaskType.LAB_ANALYSIS, payload: {} })
+    await sleep(10)
+
+    const cancelled = await engine.cancel(task.task_id, "No longer needed")
+    const again = await engine.cancel(task.task_id).then(
+      () => null,
+      (error) => error.statusCode,
+    )
+    if (cancelled.status !== AidenTaskStatus.CANCELLED || again !== 409) {
+      return `cancelling gave ${cancelled.status}, then ${again}`
+    }
+
+    const requeued = await engine.retry(task.task_id, "user-1")
+    if (requeued.status !== AidenTaskStatus.QUEUED || requeued.max_attempts !== 2) {
+      return `the retry was ${requeued.status} with ${requeued.max_attempts} attempts`
+    }
+    await sleep(10)
+    await engine.cancel(task.task_id)
+
+    const latest = await engine.getTask(task.task_id)
+    const retried = latest?.history.find((entry) => entry.message === "Retry requested by user-1")
+    return ran.length === 2 && latest?.attempts === 2 && retried ? null : `the handler ran ${ran.length} times`
+  })
+
+  // Test 6: Progress stays below 100 until the task completes, reaches task updates and status responses, and the
+  // ETA blends the handler's own progress with the runtime of earlier runs
+  await check("Test 6: Progress and ETA", async () => {
+    const events = new AidenEventBus()
+    const { engine } = createEngine({ events })
+    const taskType = AidenTaskType.VARIANT_INTERPRETATION
+    const estimate = (elapsedMs: number, percent: number) =>
+      engine.estimateRemainingSeconds(taskType, elapsedMs, percent)
+
+    // Before any run finishes only the handler's progress counts: 25% done after 10s leaves 30s
+    const unseen = [estimate(10_000, 25), estimate(0, 0)]
+    if (!same(unseen, [30, null])) return `estimates without history were ${unseen}`
+
+    const updates: Array<[number, string | null]> = []
+    events.subscribe((event) => {
+      const progress = event.payload.progress
+      if (event.event_type === AidenWebSocketEventType.TASK_UPDATE && progress) {
+        updates.push([progress.percent, progress.stage])
+      }
+    })
+
+    const task = await engine.submit({ task_type: taskType, payload: { percents: [-5, 40, 150], holdMs: 200 } })
+    await sleep(100)
+    const running = toTaskStatusResponse((await engine.getTask(task.task_id))!)
+    const done = toTaskStatusResponse(await settled(engine, task.task_id))
+
+    const expected = [
+      [0, "Starting"],
+      [0, "Reported -5"],
+      [40, "Reported 40"],
+      [99, "Reported 150"],
+      [100, "Completed"],
+    ]
+    if (!same(updates, expected)) return `task updates carried ${JSON.stringify(updates)}`
+    if (running.progress?.percent !== 99 || done.progress?.percent !== 100 || done.progress.eta_seconds !== 0) {
+      return `status responses gave ${JSON.stringify([running.progress, done.progress])}`
+    }
+
+    // The finished run took a fraction of a second, so halfway after 20s blends 20s left by extrapolation with
+    // nothing left by history, and with no progress yet history alone rounds up to a second
+    const blended = [estimate(20_000, 50), estimate(0, 0)]
+    return same(blended, [10, 1]) ? null : `estimates after a finished run were ${blended}`
+  })
+
+  // Test 7: Tasks are visible to their owner and to admins, not to other roles that manage tasks; listings are limited
+  // the same way
+  await check("Test 7: Task access", async () => {
+    const { engine } = createEngine()
+    for (const userId of ["user-1", "user-2", "user-1"]) {
+      await engine.submit({ task_type: AidenTaskType.CLINICAL_SUMMARY, payload: { label: userId }, user_id: userId })
+    }
+
+    const owner = { id: "user-1", roles: [RoleType.PATIENT] }
+    const other = { id: "user-2", roles: [RoleType.RESEARCHER] }
+    const clinician = { id: "user-3", roles: [RoleType.CLINICIAN] }
+    const developer = { id: "user-4", roles: [RoleType.DEVELOPER] }
+    const admin = { id: "user-5", roles: [RoleType.ADMIN] }
+    const access = [owner, other, clinician, developer, admin].map((user) => canAccessAidenRecord(user, "user-1"))
+    if (!same(access, [true, false, false, false, true])) return `access to user-1's task was ${access}`
+
+    const listed = await Promise.all(
+      [owner, clinician, admin].map(async (user) => (await engine.listTasks({ userId: listingOwner(user) })).length),
+    )
+    if (!same(listed, [2, 0, 3])) return `listings held ${listed} tasks`
+
+    // Without Supabase there are no sessions, so anonymous callers reach every task
+    return canAccessAidenRecord(null, "user-1") ? null : "an anonymous caller was refused without Supabase"
+  })
+
+  // Final result
+  if (allTestsPassed) {
+    logger.info("✅ All tests passed! AIDEN tasks are working correctly.")
+  } else {
+    logger.error("❌ Some tests failed. AIDEN tasks may not be working correctly.")
+    process.exitCode = 1
+  }
+}
+
+// Run the verification
+verifyAidenTasks().catch((error) => {
+  logger.error("AIDEN task verification failed with unhandled exception", { error })
+  process.exitCode = 1
+})
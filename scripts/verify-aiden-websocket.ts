@@ -0,0 +1,241 @@
+/**
+ * AIDEN WebSocket Verification Script
+ *
+ * Serves the AIDEN WebSocket server on a local port, with sessions resolved from a test header instead of Supabase
+ * cookies. Checks that the browser client resumes where it left off after a dropped connection, that replays only
+ * hold events the session subscribed to and may see, and how gaps and restarted servers are reported.
+ */
+
+import { createServer, type IncomingMessage } from "node:http"
+import type { AddressInfo } from "node:net"
+import type { Duplex } from "node:stream"
+import { WebSocket } from "ws"
+import { AidenEventBus } from "../lib/aiden/aiden-events"
+import {
+  AIDEN_WEBSOCKET_PATH,
+  AidenWebSocketClient,
+  AidenWebSocketCloseCode,
+  AidenWebSocketEventType,
+  type AidenWebSocketClientOptions,
+  type AidenWebSocketServerMessage,
+} from "../lib/aiden/aiden-websocket"
+import { AidenWebSocketServer } from "../lib/aiden/aiden-websocket-server"
+import { RoleType } from "../lib/auth/permissions"
+import type { SessionUser } from "../lib/supabase/server"
+import { logger } from "../lib/logging/enhanced-logger"
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// The browser client runs on the ws package's WebSocket, which has the same interface
+Object.assign(globalThis, { WebSocket, window: { location: { href: "http://localhost/" } } })
+
+const USERS: Record<string, SessionUser> = {
+  clinician: { id: "clinician", roles: [RoleType.CLINICIAN] },
+  patient: { id: "patient", roles: [RoleType.PATIENT] },
+}
+
+async function waitFor(condition: () => boolean, what: string) {
+  const deadline = Date.now() + 5000
+
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error(`Timed out waiting for ${what}`)
+    await sleep(10)
+  }
+}
+
+/**
+ * A WebSocket server on a free port, with a way to cut every open connection as a network failure would
+ */
+async function startServer(events: AidenEventBus, requireAuth = false) {
+  const sockets = new Set<Duplex>()
+  const server = new AidenWebSocketServer({
+    events,
+    requireAuth,
+    authenticate: async (request: IncomingMessage) => USERS[String(request.headers["x-test-user"])] || null,
+  })
+
+  const http = createServer()
+  http.on("upgrade", (request, socket, head) => {
+    sockets.add(socket)
+    socket.on("close", () => sockets.delete(socket))
+    server.handleUpgrade(request, socket, head)
+  })
+  await new Promise<void>((resolve) => http.listen(0, "127.0.0.1", resolve))
+
+  const url = `ws://127.0.0.1:${(http.address() as AddressInfo).port}${AIDEN_WEBSOCKET_PATH}`
+  const dropConnections = () => sockets.forEach((socket) => socket.destroy())
+  const stop = async () => {
+    server.close()
+    dropConnections()
+    await new Promise((resolve) => http.close(resolve))
+  }
+
+  return { server, url, dropConnections, stop }
+}
+
+/**
+ * Open a plain connection as the given user and collect everything the server sends
+ */
+async function connect(url: string, user?: string) {
+  const socket = new WebSocket(url, { headers: user ? { "x-test-user": user } : {} })
+  const messages: any[] = []
+  socket.on("message", (data) => messages.push(JSON.parse(data.toString())))
+
+  await new Promise((resolve, reject) => {
+    socket.once("open", resolve)
+    socket.once("error", reject)
+  })
+  await waitFor(() => messages.some((message) => message.type === "welcome"), "the welcome message")
+
+  const replays = () =>
+    messages.filter(
+      (message): message is Extract<AidenWebSocketServerMessage, { type: "replay_complete" }> =>
+        message.type === "replay_complete",
+    )
+  const events = () => messages.filter((message) => message.event_type).map((event) => event.sequence)
+
+  return { socket, messages, replays, events }
+}
+
+async function verifyAidenWebSocket() {
+  logger.info("Starting AIDEN WebSocket verification...")
+  let allTestsPassed = true
+
+  const check = async (name: string, test: () => Promise<string | null>) => {
+    try {
+      const failure = await test()
+
+      if (failure) {
+        logger.error(`${name} Failed: ${failure}`)
+        allTestsPassed = false
+      } else {
+        logger.info(`${name} Passed`)
+      }
+    } catch (error) {
+      logger.error(`${name} Failed with exception`, { error: error instanceof Error ? error.message : error })
+      allTestsPassed = false
+    }
+  }
+
+  const same = (actual: unknown, expected: unknown) => JSON.stringify(actual) === JSON.stringify(expected)
+  const notify = (events: AidenEventBus, label: string) =>
+    events.publish(AidenWebSocketEventType.SYSTEM_NOTIFICATION, { label })
+
+  // Test 1: After a dropped connection the client reconnects and gets what it missed, once and in order
+  await check("Test 1: Resuming after a dropped connection", async () => {
+    const events = new AidenEventBus()
+    const { url, dropConnections, stop } = await startServer(events)
+    notify(events, "before-connect")
+
+    const received: string[] = []
+    let opened = 0
+    let closed = 0
+    const options: AidenWebSocketClientOptions = {
+      url,
+      autoReconnect: true,
+      reconnectInterval: 50,
+      onOpen: () => opened++,
+      onClose: () => closed++,
+      onMessage: (event) => received.push(event.payload.label),
+    }
+    const client = new AidenWebSocketClient(options)
+    client.connect()
+
+    try {
+      await waitFor(() => opened === 1 && client.getLastSequence() === 1, "the first connection")
+      notify(events, "live-1")
+      await waitFor(() => received.length === 1, "the first live event")
+
+      dropConnections()
+      await waitFor(() => closed === 1, "the connection to drop")
+      notify(events, "missed-1")
+      notify(events, "missed-2")
+
+      await waitFor(() => opened === 2 && received.length === 3, "the replay after reconnecting")
+      notify(events, "live-2")
+      await waitFor(() => received.length === 4, "the second live event")
+    } finally {
+      client.disconnect()
+      await stop()
+    }
+
+    if (!same(received, ["live-1", "missed-1", "missed-2", "live-2"])) return `the client saw ${received}`
+    return client.getLastSequence() === 5 ? null : `the client stopped at sequence ${client.getLastSequence()}`
+  })
+
+  // Test 2: Replays follow the session's subscriptions and what its user may see
+  await check("Test 2: Replay filtering", async () => {
+    const events = new AidenEventBus()
+    const { url, stop } = await startServer(events, true)
+
+    events.publish(AidenWebSocketEventType.TASK_UPDATE, { task_id: "mine" }, { user_id: "patient" })
+    events.publish(AidenWebSocketEventType.TASK_UPDATE, { task_id: "theirs" }, { user_id: "clinician" })
+    events.publish(AidenWebSocketEventType.ANOMALY_DETECTED, { patient_id: "patient-1" })
+    events.publish(AidenWebSocketEventType.SYSTEM_NOTIFICATION, {}, { roles: [RoleType.CLINICIAN] })
+    notify(events, "to-everyone")
+
+    const patient = await connect(`${url}?last_sequence=0`, "patient")
+    const clinician = await connect(`${url}?last_sequence=0&subscriptions=task_update,anomaly_detected`, "clinician")
+    const resumed = await connect(url, "clinician")
+    resumed.socket.send(JSON.stringify({ type: "resume", last_sequence: 3 }))
+    await waitFor(() => resumed.replays().length === 1, "the resumed replay")
+
+    const anonymous = new WebSocket(url)
+    const closeCode = await new Promise((resolve) => anonymous.once("close", resolve))
+    ;[patient, clinician, resumed].forEach((connection) => connection.socket.close())
+    await stop()
+
+    const seen = [patient, clinician, resumed].map((connection) => connection.events())
+    if (!same(seen, [[1, 5], [2, 3], [4, 5]])) return `sessions saw ${JSON.stringify(seen)}`
+
+    const counts = [patient, clinician, resumed].map((connection) => connection.replays()[0].replayed)
+    if (!same(counts, [2, 2, 2])) return `replays counted ${counts}`
+    const unauthorized = closeCode === AidenWebSocketCloseCode.UNAUTHORIZED
+    return unauthorized ? null : `an anonymous connection closed with ${closeCode}`
+  })
+
+  // Test 3: Resuming from before the buffer is reported incomplete, and a restarted server replays everything
+  await check("Test 3: Gaps and restarted servers", async () => {
+    const events = new AidenEventBus(2)
+    const { url, stop } = await startServer(events)
+    ;["one", "two", "three", "four"].forEach((label) => notify(events, label))
+
+    const behind = await connect(`${url}?last_sequence=1`)
+    const received: string[] = []
+    const client = new AidenWebSocketClient({
+      url,
+      lastSequence: 40,
+      onMessage: (event) => received.push(event.payload.label),
+    })
+    client.connect()
+
+    try {
+      await waitFor(() => received.length === 2 && behind.replays().length === 1, "both replays")
+    } finally {
+      behind.socket.close()
+      client.disconnect()
+      await stop()
+    }
+
+    const [gap] = behind.replays()
+    if (!same(gap, { type: "replay_complete", from: 1, to: 4, replayed: 2, complete: false })) {
+      return `the gap was reported as ${JSON.stringify(gap)}`
+    }
+    if (!same(received, ["three", "four"])) return `after a restart the client saw ${received}`
+    return client.getLastSequence() === 4 ? null : `the client restarted counting at ${client.getLastSequence()}`
+  })
+
+  // Final result
+  if (allTestsPassed) {
+    logger.info("✅ All tests passed! The AIDEN WebSocket is working correctly.")
+  } else {
+    logger.error("❌ Some tests failed. The AIDEN WebSocket may not be working correctly.")
+    process.exitCode = 1
+  }
+}
+
+// Run the verification
+verifyAidenWebSocket().catch((error) => {
+  logger.error("AIDEN WebSocket verification failed with unhandled exception", { error })
+  process.exitCode = 1
+})
@@ -0,0 +1,237 @@
+/**
+ * AIDEN Workflow Verification Script
+ *
+ * Runs workflows on a task engine with the built-in handlers, enriching from the snapshot files in
+ * tests/fixtures/knowledge. Checks the enrich, risk assessment and presentation pipeline end to end, definition
+ * validation including dependency cycles, that steps downstream of a failure are skipped, and that a run whose steps
+ * were all cancelled is reported cancelled.
+ */
+
+import path from "node:path"
+import {
+  AidenTaskType,
+  AidenWorkflowStatus,
+  AidenWorkflowStepStatus,
+  type AidenWorkflowDefinition,
+  type AidenWorkflowRun,
+} from "../lib/aiden/aiden-client"
+import { AidenEventBus } from "../lib/aiden/aiden-events"
+import { AidenTaskEngine, AidenTaskError } from "../lib/aiden/task-engine"
+import { presentationGenerationHandler, registerDefaultTaskHandlers } from "../lib/aiden/task-handlers"
+import { AidenWorkflowEngine } from "../lib/aiden/workflow-engine"
+import { logger } from "../lib/logging/enhanced-logger"
+
+process.env.KNOWLEDGE_SNAPSHOT_DIR = path.join(__dirname, "..", "tests", "fixtures", "knowledge")
+
+const row = (...columns: Array<string | number>) => columns.join("\t")
+
+const UPLOAD = [
+  "##fileformat=VCFv4.2",
+  row("#CHROM", "POS", "ID", "REF", "ALT", "QUAL", "FILTER", "INFO"),
+  row("chrtoy", 27, "rs1", "C", "T", 50, "PASS", "."),
+  row("chrtoy", 29, ".", "T", "C", 50, "PASS", "."),
+  row("chrtoy", 30, ".", "GA", "G", 50, "PASS", "."),
+].join("\n")
+
+const PIPELINE: AidenWorkflowDefinition = {
+  name: "Hereditary panel review",
+  steps: [
+    {
+      id: "enrich",
+      task_type: AidenTaskType.GENOMIC_ENRICHMENT,
+      payload: { patientId: "patient-1", data: UPLOAD, format: "vcf" },
+    },
+    {
+      id: "risk",
+      task_type: AidenTaskType.RISK_ASSESSMENT,
+      depends_on: ["enrich"],
+      payload: { patientId: "patient-1" },
+      inputs: { variants: "enrich.variants" },
+    },
+    {
+      id: "present",
+      task_type: AidenTaskType.PRESENTATION_GENERATION,
+      depends_on: ["enrich", "risk"],
+    },
+  ],
+}
+
+function createEngines() {
+  const events = new AidenEventBus()
+  const tasks = new AidenTaskEngine({ events, retryPolicy: { maxAttempts: 1 } })
+  registerDefaultTaskHandlers(tasks)
+  return { tasks, workflows: new AidenWorkflowEngine(tasks, { events }) }
+}
+
+async function settled(workflows: AidenWorkflowEngine, runId: string): Promise<AidenWorkflowRun> {
+  const deadline = Date.now() + 5000
+
+  while (Date.now() < deadline) {
+    const run = await workflows.getRun(runId)
+    if (run && run.status !== AidenWorkflowStatus.RUNNING) return run
+    await new Promise((resolve) => setTimeout(resolve, 20))
+  }
+
+  throw new Error(`Workflow run ${runId} did not finish`)
+}
+
+async function verifyAidenWorkflows() {
+  logger.info("Starting AIDEN workflow verification...")
+  let allTestsPassed = true
+
+  const check = async (name: string, test: () => Promise<string | null>) => {
+    try {
+      const failure = await test()
+
+      if (failure) {
+        logger.error(`${name} Failed: ${failure}`)
+        allTestsPassed = false
+      } else {
+        logger.info(`${name} Passed`)
+      }
+    } catch (error) {
+      logger.error(`${name} Failed with exception`, { error: error instanceof Error ? error.message : error })
+      allTestsPassed = false
+    }
+  }
+
+  const same = (actual: unknown, expected: unknown) => JSON.stringify(actual) === JSON.stringify(expected)
+
+  // Test 1: The VCF is enriched, its variants feed the risk assessment, and both results feed the presentation
+  await check("Test 1: Enrichment, risk assessment and presentation", async () => {
+    const { tasks, workflows } = createEngines()
+    const run = await settled(workflows, (await workflows.submit(PIPELINE, "user-1")).run_id)
+
+    const statuses = run.steps.map((step) => `${step.step_id}:${step.status}`)
+    if (run.status !== AidenWorkflowStatus.COMPLETED) return `the run ${run.status} with steps ${statuses}`
+
+    const [enrich, risk, present] = await Promise.all(run.steps.map((step) => tasks.getTask(step.task_id!)))
+    if (enrich?.result.variantCount !== 3 || enrich.result.patientId !== "patient-1") {
+      return `enrichment gave ${JSON.stringify({ ...enrich?.result, variants: undefined })}`
+    }
+    if (risk?.result.score !== 60 || risk.result.level !== "high") {
+      return `risk assessment gave ${JSON.stringify(risk?.result)}`
+    }
+
+    const slides = present?.result.slides.map(
+      (slide: { step: string; title: string }) => `${slide.step}:${slide.title}`,
+    )
+    if (!same(slides, ["enrich:Genomic findings", "risk:Risk assessment"])) return `slides were ${slides}`
+    if (present?.result.title !== "Findings for patient patient-1") return `the title was ${present?.result.title}`
+    return present.user_id === "user-1" ? null : `the presentation task belonged to ${present.user_id}`
+  })
+
+  // Test 2: Definitions with cycles, unknown steps or inputs from steps they do not wait for are rejected
+  await check("Test 2: Definition validation", async () => {
+    const { workflows } = createEngines()
+    const step = (id: string, dependsOn: string[], inputs?: Record<string, string>) => ({
+      id,
+      task_type: AidenTaskType.CLINICAL_SUMMARY,
+      depends_on: dependsOn,
+      inputs,
+    })
+
+    const messages = [
+      [step("a", ["c"]), step("b", ["a"]), step("c", ["b"]), step("d", [])],
+      [step("a", ["missing"])],
+      [step("a", []), step("b", [], { healthRecord: "a.record" })],
+      [step("a", []), step("a", [])],
+      [{ id: "a", task_type: "genome_assembly" as AidenTaskType }],
+    ].map((steps) => {
+      try {
+        workflows.validate({ name: "Invalid", steps })
+        return null
+      } catch (error) {
+        return error instanceof AidenTaskError ? error.message : `${error}`
+      }
+    })
+    const expected = [
+      "Workflow has a dependency cycle between: a, b, c",
+      "Step a depends on unknown step missing",
+      "Input healthRecord of step b reads from a, which it does not depend on",
+      "Duplicate workflow step id: a",
+      "Step a has unsupported task type: genome_assembly",
+    ]
+    if (!same(messages, expected)) return `validation gave ${JSON.stringify(messages)}`
+
+    workflows.validate(PIPELINE)
+    return null
+  })
+
+  // Test 3: Steps after a failed step are skipped while independent steps still run
+  await check("Test 3: Upstream failures skip dependent steps", async () => {
+    const { workflows } = createEngines()
+    const definition: AidenWorkflowDefinition = {
+      ...PIPELINE,
+      steps: [
+        { ...PIPELINE.steps[0], payload: { patientId: "patient-1", data: UPLOAD, format: "xml" } },
+        ...PIPELINE.steps.slice(1),
+        { id: "summary", task_type: AidenTaskType.CLINICAL_SUMMARY, payload: { patientId: "patient-1" } },
+      ],
+    }
+    const run = await settled(workflows, (await workflows.submit(definition)).run_id)
+
+    const statuses = run.steps.map((step) => `${step.step_id}:${step.status}`)
+    const expected = ["enrich:failed", "risk:skipped", "present:skipped", "summary:completed"]
+    if (!same(statuses, expected)) return `steps were ${statuses}`
+    if (run.status !== AidenWorkflowStatus.PARTIALLY_COMPLETED) return `the run was ${run.status}`
+
+    const skipped = run.steps.filter((step) => step.status === AidenWorkflowStepStatus.SKIPPED)
+    const reasons = skipped.map((step) => step.error)
+    return same(reasons, ["Skipped because step enrich failed", "Skipped because step enrich failed"])
+      ? null
+      : `skip reasons were ${reasons}`
+  })
+
+  // Test 4: A presentation needs at least one step result it can present
+  await check("Test 4: Presentation without step results", async () => {
+    const failure = await presentationGenerationHandler(
+      { upstream: { lookup: { unrelated: true } } },
+      { task: {} as any, attempt: 1, signal: new AbortController().signal, reportProgress: async () => {} },
+    ).then(
+      () => null,
+      (error) => error.message,
+    )
+    return failure?.startsWith("A presentation needs") ? null : `the presentation gave ${failure}`
+  })
+
+  // Test 5: Cancelling the only running task cancels the run, even when failures let other steps continue
+  await check("Test 5: Cancelled steps", async () => {
+    const { tasks, workflows } = createEngines()
+    tasks.registerHandler(
+      AidenTaskType.LAB_ANALYSIS,
+      (_payload, { signal }) =>
+        new Promise((_resolve, reject) => signal.addEventListener("abort", () => reject(signal.reason))),
+    )
+
+    const { run_id: runId } = await workflows.submit({
+      name: "Lab review",
+      failure_policy: "continue",
+      steps: [
+        { id: "labs", task_type: AidenTaskType.LAB_ANALYSIS, payload: { patientId: "patient-1" } },
+        { id: "summary", task_type: AidenTaskType.CLINICAL_SUMMARY, depends_on: ["labs"] },
+      ],
+    })
+    const started = await workflows.getRun(runId)
+    await tasks.cancel(started!.steps[0].task_id!)
+    const run = await settled(workflows, runId)
+
+    const statuses = run.steps.map((step) => `${step.step_id}:${step.status}`)
+    if (!same(statuses, ["labs:cancelled", "summary:skipped"])) return `steps were ${statuses}`
+    return run.status === AidenWorkflowStatus.CANCELLED ? null : `the run was ${run.status}`
+  })
+
+  // Final result
+  if (allTestsPassed) {
+    logger.info("✅ All tests passed! AIDEN workflows are working correctly.")
+  } else {
+    logger.error("❌ Some tests failed. AIDEN workflows may not be working correctly.")
+    process.exitCode = 1
+  }
+}
+
+// Run the verification
+verifyAidenWorkflows().catch((error) => {
+  logger.error("AIDEN workflow verification failed with unhandled exception", { error })
+  process.exitCode = 1
+})
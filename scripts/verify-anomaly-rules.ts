@@ -0,0 +1,250 @@
+/**
+ * Anomaly Rules Verification Script
+ *
+ * Feeds lab results and variant calls to anomaly engines seeded with the default rules. Checks rule validation,
+ * threshold, delta and newly pathogenic variant rules with the events they publish, dry runs of draft rules over the
+ * recorded history, and that variants enriched for a known patient reach the rules.
+ */
+
+import path from "node:path"
+import { AidenTaskStatus, AidenTaskType } from "../lib/aiden/aiden-client"
+import { AidenEventBus, getAidenEventBus } from "../lib/aiden/aiden-events"
+import { AidenWebSocketEventType } from "../lib/aiden/aiden-websocket"
+import { AidenAnomalyEngine, AnomalyRuleError } from "../lib/aiden/anomaly-engine"
+import {
+  AnomalyRuleType,
+  validateAnomalyRule,
+  type AnomalyRule,
+  type ThresholdAnomalyRule,
+} from "../lib/aiden/anomaly-rules"
+import { AidenTaskEngine } from "../lib/aiden/task-engine"
+import { registerDefaultTaskHandlers } from "../lib/aiden/task-handlers"
+import type { GenomicVariant, VariantSignificance } from "../lib/genomics/types"
+import type { LabTest } from "../lib/lab/types"
+import { logger } from "../lib/logging/enhanced-logger"
+
+process.env.KNOWLEDGE_SNAPSHOT_DIR = path.join(__dirname, "..", "tests", "fixtures", "knowledge")
+
+const lab = (id: string, name: string, value: number, unit: string, timestamp: string): LabTest => ({
+  id,
+  name,
+  value,
+  unit,
+  referenceRange: "",
+  status: "normal",
+  timestamp,
+})
+
+const call = (significance: VariantSignificance, gene = "BRCA1"): GenomicVariant => ({
+  id: "17-43045712-G-A",
+  chromosome: "17",
+  position: 43045712,
+  reference: "G",
+  alternate: "A",
+  gene,
+  consequence: "missense_variant",
+  significance,
+  frequency: 0,
+  hgvs: "c.5123C>T",
+})
+
+function createEngine() {
+  const events = new AidenEventBus()
+  const published: string[] = []
+  events.subscribe((event) => {
+    if (event.event_type === AidenWebSocketEventType.ANOMALY_DETECTED) published.push(event.payload.rule_id)
+  })
+  return { engine: new AidenAnomalyEngine({ events }), published }
+}
+
+async function verifyAnomalyRules() {
+  logger.info("Starting anomaly rules verification...")
+  let allTestsPassed = true
+
+  const check = async (name: string, test: () => Promise<string | null>) => {
+    try {
+      const failure = await test()
+
+      if (failure) {
+        logger.error(`${name} Failed: ${failure}`)
+        allTestsPassed = false
+      } else {
+        logger.info(`${name} Passed`)
+      }
+    } catch (error) {
+      logger.error(`${name} Failed with exception`, { error: error instanceof Error ? error.message : error })
+      allTestsPassed = false
+    }
+  }
+
+  const same = (actual: unknown, expected: unknown) => JSON.stringify(actual) === JSON.stringify(expected)
+
+  // Test 1: Rules are validated by type, including the significances a variant rule watches for
+  await check("Test 1: Rule validation", async () => {
+    const problems = [
+      { type: AnomalyRuleType.THRESHOLD, name: "K", severity: "high", test: "potassium", min: 6, max: 3 },
+      { type: AnomalyRuleType.DELTA, name: "Cr", severity: "high", test: "creatinine", change_type: "percent" },
+      { type: AnomalyRuleType.PATHOGENIC_VARIANT, name: "P", severity: "high", significances: ["pathogenc"] },
+      { type: "unknown", name: " ", severity: "urgent" },
+    ].map((rule) => validateAnomalyRule(rule as Partial<AnomalyRule>))
+    const expected = [
+      ["min must not be greater than max"],
+      ["max_change must be positive", "direction must be increase, decrease or either"],
+      ["significances must be from benign, likely_benign, uncertain, likely_pathogenic, pathogenic"],
+      [
+        "name is required",
+        "severity must be one of info, low, medium, high, critical",
+        "type must be one of threshold, delta, pathogenic_variant",
+      ],
+    ]
+    if (!same(problems, expected)) return `problems were ${JSON.stringify(problems)}`
+
+    const { engine } = createEngine()
+    const rejected = await engine
+      .createRule({ type: AnomalyRuleType.THRESHOLD, name: "Sodium", severity: "high" } as Partial<AnomalyRule>)
+      .then(
+        () => null,
+        (error) => error,
+      )
+    return rejected instanceof AnomalyRuleError && rejected.statusCode === 400 ? null : `createRule gave ${rejected}`
+  })
+
+  // Test 2: Threshold and delta rules fire on new results only, and publish an event per finding
+  await check("Test 2: Lab result rules", async () => {
+    const { engine, published } = createEngine()
+    const first = await engine.evaluateLabResults("patient-1", [
+      lab("k-1", "Potassium", 6.4, "mmol/L", "2025-03-01T08:00:00Z"),
+      lab("cr-1", "Creatinine", 1.0, "mg/dL", "2025-03-01T08:00:00Z"),
+    ])
+    const second = await engine.evaluateLabResults("patient-1", [
+      lab("k-1", "Potassium", 6.4, "mmol/L", "2025-03-01T08:00:00Z"),
+      lab("cr-2", "Creatinine", 1.6, "mg/dL", "2025-03-02T08:00:00Z"),
+      lab("hb-1", "Hemoglobin", 13, "g/dL", "2025-03-02T08:00:00Z"),
+      lab("cr-3", "Creatinine", 2.6, "mg/dL", "2025-03-06T08:00:00Z"),
+    ])
+
+    const messages = [...first, ...second].map((finding) => `${finding.rule_id}: ${finding.message}`)
+    const expected = [
+      "potassium-critical: Potassium 6.4 mmol/L is above 6",
+      "creatinine-rise: Creatinine rose by 60% (1 → 1.6 mg/dL) in 24h",
+    ]
+    if (!same(messages, expected)) return `findings were ${JSON.stringify(messages)}`
+    return same(published, ["potassium-critical", "creatinine-rise"]) ? null : `events were ${published}`
+  })
+
+  // Test 3: A variant rule fires the first time a call is pathogenic, not again while it stays pathogenic
+  await check("Test 3: Newly pathogenic variant rule", async () => {
+    const { engine, published } = createEngine()
+    const calls: VariantSignificance[] = ["uncertain", "likely_pathogenic", "pathogenic", "benign", "pathogenic"]
+
+    const messages: string[] = []
+    for (const [index, significance] of calls.entries()) {
+      const findings = await engine.evaluateVariantCalls("patient-1", [call(significance)], `2025-0${index + 1}-01`)
+      messages.push(...findings.map((finding) => finding.message))
+    }
+
+    const expected = [
+      "BRCA1 c.5123C>T reclassified from uncertain to likely pathogenic",
+      "BRCA1 c.5123C>T reclassified from benign to pathogenic",
+    ]
+    if (!same(messages, expected)) return `findings were ${JSON.stringify(messages)}`
+    return published.length === 2 ? null : `${published.length} events were published`
+  })
+
+  // Test 4: Dry runs try draft rules over the recorded history, within the dates and patient, without publishing
+  await check("Test 4: Dry run", async () => {
+    const { engine, published } = createEngine()
+    await engine.evaluateLabResults("patient-1", [
+      lab("k-1", "Potassium", 5.4, "mmol/L", "2025-03-01T08:00:00Z"),
+      lab("k-2", "Potassium", 5.7, "mmol/L", "2025-04-01T08:00:00Z"),
+    ])
+    await engine.evaluateLabResults("patient-2", [lab("k-3", "Potassium", 5.9, "mmol/L", "2025-04-02T08:00:00Z")])
+    await engine.evaluateVariantCalls("patient-2", [call("pathogenic", "TP53")], "2025-04-03T08:00:00Z")
+    const before = published.length
+
+    const draft = {
+      id: "draft",
+      name: "Potassium above 5.5",
+      type: AnomalyRuleType.THRESHOLD,
+      enabled: true,
+      severity: "medium",
+      test: "potassium",
+      max: 5.5,
+    } as ThresholdAnomalyRule
+    const all = await engine.dryRun({ rules: [draft] })
+    const april = await engine.dryRun({ rules: [draft], from: "2025-04-01T00:00:00Z", patientId: "patient-1" })
+    const stored = await engine.dryRun({ patientId: "patient-2" })
+
+    const results = [all, april, stored].map((result) => [
+      result.findings.map((finding) => `${finding.patient_id}:${finding.lab_test?.id ?? finding.variant?.gene}`),
+      result.evaluated,
+    ])
+    const expected = [
+      [["patient-2:k-3", "patient-1:k-2"], { lab_results: 3, variant_calls: 1, rules: 1 }],
+      [["patient-1:k-2"], { lab_results: 1, variant_calls: 0, rules: 1 }],
+      [["patient-2:TP53"], { lab_results: 1, variant_calls: 1, rules: 4 }],
+    ]
+    if (!same(results, expected)) return `dry runs gave ${JSON.stringify(results)}`
+    if (published.length !== before) return "a dry run published events"
+
+    const invalid = await engine.dryRun({ rules: [{ ...draft, max: undefined }] }).then(
+      () => null,
+      (error) => error,
+    )
+    return invalid instanceof AnomalyRuleError ? null : "an invalid draft rule was dry-run"
+  })
+
+  // Test 5: Variants enriched for a known patient go through the rules; uploads without a patient do not
+  await check("Test 5: Enriched variant calls", async () => {
+    const published: Array<{ patient_id: string; gene: string }> = []
+    getAidenEventBus().subscribe((event) => {
+      if (event.event_type !== AidenWebSocketEventType.ANOMALY_DETECTED) return
+      published.push({ patient_id: event.payload.patient_id, gene: event.payload.variant?.gene })
+    })
+
+    const tasks = new AidenTaskEngine({ retryPolicy: { maxAttempts: 1 } })
+    registerDefaultTaskHandlers(tasks)
+    const upload = (patientId?: string) =>
+      tasks.submit({
+        task_type: AidenTaskType.GENOMIC_ENRICHMENT,
+        payload: {
+          patientId,
+          format: "json",
+          data: JSON.stringify({
+            variants: [
+              { chrom: "toy", pos: 27, ref: "C", alt: "T" },
+              { chrom: "toy", pos: 29, ref: "T", alt: "C" },
+            ],
+          }),
+        },
+      })
+
+    const submitted = [await upload("patient-9"), await upload()]
+    const deadline = Date.now() + 5000
+    let finished = await Promise.all(submitted.map((task) => tasks.getTask(task.task_id)))
+    while (finished.some((task) => task?.status !== AidenTaskStatus.COMPLETED) && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 20))
+      finished = await Promise.all(submitted.map((task) => tasks.getTask(task.task_id)))
+    }
+
+    const anomalies = finished.map((task) => task?.result?.anomalies?.map((finding: any) => finding.variant.id))
+    if (!same(anomalies, [["toy-27-C-T"], []])) return `anomalies were ${JSON.stringify(anomalies)}`
+    return same(published, [{ patient_id: "patient-9", gene: "GENEA" }])
+      ? null
+      : `events were ${JSON.stringify(published)}`
+  })
+
+  // Final result
+  if (allTestsPassed) {
+    logger.info("✅ All tests passed! Anomaly rules are working correctly.")
+  } else {
+    logger.error("❌ Some tests failed. Anomaly rules may not be working correctly.")
+    process.exitCode = 1
+  }
+}
+
+// Run the verification
+verifyAnomalyRules().catch((error) => {
+  logger.error("Anomaly rules verification failed with unhandled exception", { error })
+  process.exitCode = 1
+})
@@ -0,0 +1,247 @@
+/**
+ * CDS Hooks Verification Script
+ *
+ * Calls the patient-view and order-select services with the CDS Hooks sandbox requests in tests/fixtures/cds-hooks,
+ * both with the EHR's prefetch and fetching it from the mock FHIR server with the request's access token, and
+ * checks the cards for pathogenic variants, lab anomalies and gene–drug interactions, the request guards, and the
+ * verification of signed CDS client tokens.
+ */
+
+import { generateKeyPairSync, randomUUID, sign } from "node:crypto"
+import { readFileSync } from "fs"
+import path from "path"
+import { startMockFhirServer } from "./mock-fhir-server"
+import { AidenAnomalyEngine } from "../lib/aiden/anomaly-engine"
+import type { CdsCard } from "../lib/fhir/cds-cards"
+import { CdsHooksService, CdsHooksError, renderPrefetchTemplate, type CdsHookRequest } from "../lib/fhir/cds-hooks"
+import { CdsHooksAuthenticator } from "../lib/fhir/cds-hooks-auth"
+import { getBundleMatches, type FhirBundle } from "../lib/fhir/fhir-client"
+import { logger } from "../lib/logging/enhanced-logger"
+
+const FIXTURE_DIR = path.join(__dirname, "..", "tests", "fixtures", "cds-hooks")
+
+function loadRequest(file: string): CdsHookRequest {
+  return JSON.parse(readFileSync(path.join(FIXTURE_DIR, file), "utf8"))
+}
+
+async function verifyCdsHooks() {
+  logger.info("Starting CDS Hooks verification...")
+  let allTestsPassed = true
+
+  const patientView = loadRequest("patient-view.json")
+  const orderSelect = loadRequest("order-select.json")
+  const accessToken = patientView.fhirAuthorization!.access_token
+
+  // The mock server only answers requests carrying the sandbox request's access token
+  const mock = await startMockFhirServer({ accessToken })
+  getBundleMatches(patientView.prefetch!.observations as FhirBundle).forEach((resource) =>
+    mock.resources.set(`${resource.resourceType}/${resource.id}`, resource),
+  )
+
+  const service = new CdsHooksService({ allowedServers: [mock.url], anomalyEngine: new AidenAnomalyEngine() })
+
+  const check = async (name: string, test: () => Promise<string | null>) => {
+    try {
+      const failure = await test()
+
+      if (failure) {
+        logger.error(`${name} Failed: ${failure}`)
+        allTestsPassed = false
+      } else {
+        logger.info(`${name} Passed`)
+      }
+    } catch (error) {
+      logger.error(`${name} Failed with exception`, { error: error instanceof Error ? error.message : error })
+      allTestsPassed = false
+    }
+  }
+
+  const expectError = async (action: () => Promise<unknown>, statusCode: number) => {
+    try {
+      await action()
+      return false
+    } catch (error) {
+      return error instanceof CdsHooksError && error.statusCode === statusCode
+    }
+  }
+
+  // Requests sent to the mock server instead of the fixture's localhost:4010
+  const live = (request: CdsHookRequest, changes: Partial<CdsHookRequest> = {}): CdsHookRequest => ({
+    ...structuredClone(request),
+    fhirServer: mock.url,
+    ...changes,
+  })
+
+  const describeCards = (cards: CdsCard[]) => cards.map((card) => `${card.indicator}: ${card.summary}`).join(" | ")
+
+  // Cards expected for the fixture patient: critical potassium and the pathogenic BRCA1 variant
+  const checkPatientViewCards = (cards: CdsCard[]) => {
+    const potassium = cards.find((card) => card.summary.startsWith("Critical potassium"))
+    const brca1 = cards.find((card) => card.summary.includes("BRCA1"))
+
+    if (cards.length !== 2) return `expected 2 cards, got ${describeCards(cards)}`
+    if (potassium?.indicator !== "critical") return "no critical potassium card"
+    if (brca1?.indicator !== "warning" || !brca1.summary.startsWith("Pathogenic")) return "no pathogenic BRCA1 card"
+    if (!brca1.detail?.includes("NM_007294.4:c.68_69del") || !brca1.detail.includes("frameshift variant")) {
+      return `BRCA1 detail was ${brca1.detail}`
+    }
+    return cards.every((card) => card.uuid && card.source.label && card.summary.length <= 140)
+      ? null
+      : "cards are missing required fields"
+  }
+
+  // Test 1: Discovery and prefetch templates
+  await check("Test 1: Discovery", async () => {
+    const { services } = service.discover()
+    const hooks = services.map((definition) => `${definition.id}:${definition.hook}`)
+
+    if (hooks.join(",") !== "beaker-patient-view:patient-view,beaker-order-select:order-select") {
+      return `services were ${hooks.join(",")}`
+    }
+
+    const query = renderPrefetchTemplate(services[0].prefetch.observations, patientView)
+    if (query !== "Observation?patient=pat-1001&category=laboratory&_count=200") return `rendered ${query}`
+    if (renderPrefetchTemplate("Practitioner/{{userPractitionerId}}", patientView) !== "Practitioner/prac-301") {
+      return "user template was not rendered"
+    }
+    return renderPrefetchTemplate("Encounter/{{context.appointmentId}}", patientView) === null
+      ? null
+      : "a template with a missing token was rendered"
+  })
+
+  // Test 2: patient-view with the sandbox's prefetch
+  await check("Test 2: Patient view with prefetch", async () => {
+    const { cards } = await service.invoke("beaker-patient-view", live(patientView))
+    return checkPatientViewCards(cards)
+  })
+
+  // Test 3: patient-view without prefetch fetches the Observations with the request's access token
+  await check("Test 3: Patient view without prefetch", async () => {
+    const { cards } = await service.invoke("beaker-patient-view", live(patientView, { prefetch: undefined }))
+    const failure = checkPatientViewCards(cards)
+    if (failure) return failure
+
+    const unauthorized = live(patientView, {
+      prefetch: { observations: null },
+      fhirAuthorization: { ...patientView.fhirAuthorization!, access_token: "expired-token" },
+    })
+    const { cards: fallback } = await service.invoke("beaker-patient-view", unauthorized)
+    return fallback.length === 0 ? null : `a failed prefetch gave ${describeCards(fallback)}`
+  })
+
+  // Test 4: order-select cards for the selected MedicationRequest only
+  await check("Test 4: Order select", async () => {
+    const { cards } = await service.invoke("beaker-order-select", live(orderSelect))
+    const clopidogrel = cards[0]
+
+    if (cards.length !== 1) return `expected 1 card, got ${describeCards(cards)}`
+    if (!clopidogrel.summary.includes("CYP2C19") || !clopidogrel.summary.includes("clopidogrel")) {
+      return `card was ${clopidogrel.summary}`
+    }
+    if (clopidogrel.indicator !== "warning" || !clopidogrel.detail?.includes("rs4244285")) {
+      return `card detail was ${clopidogrel.detail}`
+    }
+    return clopidogrel.links?.[0]?.url.includes("cpicpgx.org") ? null : "no CPIC link"
+  })
+
+  // Test 5: Without a selection every draft order is checked, including spironolactone against potassium
+  await check("Test 5: Drug–lab cautions", async () => {
+    const request = structuredClone(orderSelect)
+    request.context.selections = []
+
+    const { cards } = await service.invoke("beaker-order-select", live(request, { prefetch: {} }))
+    const spironolactone = cards.find((card) => card.summary.includes("spironolactone"))
+
+    if (cards.length !== 2) return `expected 2 cards, got ${describeCards(cards)}`
+    if (spironolactone?.indicator !== "critical") return "no critical potassium card for spironolactone"
+    return spironolactone.detail?.includes("6.8 mmol/L") ? null : `card detail was ${spironolactone.detail}`
+  })
+
+  // Test 6: Request guards
+  await check("Test 6: Request guards", async () => {
+    if (!(await expectError(() => service.invoke("unknown-service", patientView), 404))) {
+      return "an unknown service was called"
+    }
+    if (!(await expectError(() => service.invoke("beaker-order-select", patientView), 400))) {
+      return "a patient-view request reached the order-select service"
+    }
+
+    const withoutPatient = structuredClone(patientView)
+    delete withoutPatient.context.patientId
+    if (!(await expectError(() => service.invoke("beaker-patient-view", withoutPatient), 400))) {
+      return "a request without a patient was answered"
+    }
+
+    const elsewhere = live(patientView, { prefetch: undefined, fhirServer: "https://attacker.example/fhir" })
+    return (await expectError(() => service.invoke("beaker-patient-view", elsewhere), 403))
+      ? null
+      : "the access token was sent to a server that is not allowed"
+  })
+
+  // Test 7: Signed CDS client tokens
+  await check("Test 7: Client authentication", async () => {
+    const { privateKey, publicKey } = generateKeyPairSync("ec", { namedCurve: "secp384r1" })
+    const jwks = { keys: [{ ...publicKey.export({ format: "jwk" }), kid: "sandbox-1", alg: "ES384" }] }
+    const audience = "https://beaker.example/api/cds-services/beaker-patient-view"
+    const issuer = "https://sandbox.cds-hooks.org"
+
+    const fetchJwks = (async () => new Response(JSON.stringify(jwks), { status: 200 })) as typeof fetch
+    const authenticator = new CdsHooksAuthenticator({
+      trustedIssuers: [{ iss: issuer, jwksUrl: "https://sandbox.cds-hooks.org/.well-known/jwks.json" }],
+      fetch: fetchJwks,
+    })
+
+    const createToken = (claims: Record<string, any>) => {
+      const encode = (value: any) => Buffer.from(JSON.stringify(value)).toString("base64url")
+      const now = Math.floor(Date.now() / 1000)
+      const header = encode({ alg: "ES384", typ: "JWT", kid: "sandbox-1" })
+      const payload = encode({ iss: issuer, aud: audience, iat: now, exp: now + 300, jti: randomUUID(), ...claims })
+      const signature = sign("sha384", Buffer.from(`${header}.${payload}`), {
+        key: privateKey,
+        dsaEncoding: "ieee-p1363",
+      })
+      return `Bearer ${header}.${payload}.${signature.toString("base64url")}`
+    }
+
+    const rejected = (authorization: string | null) =>
+      expectError(() => authenticator.authenticate(authorization, audience), 401)
+
+    const token = createToken({ sub: "cds-hooks-sandbox" })
+    const identity = await authenticator.authenticate(token, audience)
+
+    if (identity?.iss !== issuer || identity.sub !== "cds-hooks-sandbox") return "a valid token was not accepted"
+    if (!(await rejected(token))) return "a token was accepted twice"
+    if (!(await rejected(null))) return "a call without a token was accepted"
+    if (!(await rejected(createToken({ aud: "https://other.example/cds-services/x" })))) {
+      return "a token for another service was accepted"
+    }
+    if (!(await rejected(createToken({ exp: Math.floor(Date.now() / 1000) - 600 })))) {
+      return "an expired token was accepted"
+    }
+    if (!(await rejected(createToken({ iss: "https://untrusted.example" })))) return "an untrusted issuer was accepted"
+
+    const [header, , signature] = createToken({}).split(".")
+    const tampered = `${header}.${Buffer.from(JSON.stringify({ iss: issuer, aud: audience })).toString("base64url")}`
+    if (!(await rejected(`${tampered}.${signature}`))) return "a tampered token was accepted"
+
+    return (await new CdsHooksAuthenticator().authenticate(null, audience)) === null
+      ? null
+      : "calls were not accepted without configured issuers"
+  })
+
+  await mock.close()
+
+  // Final result
+  if (allTestsPassed) {
+    logger.info("✅ All tests passed! CDS Hooks service is working correctly.")
+  } else {
+    logger.error("❌ Some tests failed. CDS Hooks service may not be working correctly.")
+    process.exitCode = 1
+  }
+}
+
+// Run the verification
+verifyCdsHooks().catch((error) => {
+  logger.error("CDS Hooks verification failed with unhandled exception", { error })
+  process.exitCode = 1
+})
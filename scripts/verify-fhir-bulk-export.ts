@@ -0,0 +1,197 @@
+/**
+ * FHIR Bulk Data Verification Script
+ *
+ * Runs system and group $export against the mock FHIR server: status polling, NDJSON downloads into the
+ * bulk data store, resuming interrupted downloads with and without Range support, cohort queries and
+ * cancellation.
+ */
+
+import { mkdtemp, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import path from "node:path"
+import { startMockFhirServer } from "./mock-fhir-server"
+import { FhirClient } from "../lib/fhir/fhir-client"
+import { BulkExportError, BulkExportManager } from "../lib/fhir/bulk-export"
+import { FileBulkDataStore, InMemoryBulkDataStore, type BulkDataStore } from "../lib/fhir/bulk-data-store"
+import { logger } from "../lib/logging/enhanced-logger"
+
+async function verifyBulkExport() {
+  logger.info("Starting FHIR Bulk Data verification...")
+  let allTestsPassed = true
+
+  const directory = await mkdtemp(path.join(tmpdir(), "beaker-bulk-"))
+  const mock = await startMockFhirServer({ exportPolls: 2 })
+  const flaky = await startMockFhirServer({ interruptExportAfterBytes: 1500 })
+  const noRanges = await startMockFhirServer({ interruptExportAfterBytes: 700, ignoreExportRanges: true })
+  const slow = await startMockFhirServer({ exportPolls: 1000 })
+
+  const createManager = (store: BulkDataStore = new InMemoryBulkDataStore()) =>
+    new BulkExportManager({ store, pollIntervalMs: 10, batchSize: 2 })
+  const systemManager = createManager()
+
+  const check = async (name: string, test: () => Promise<string | null>) => {
+    try {
+      const failure = await test()
+
+      if (failure) {
+        logger.error(`${name} Failed: ${failure}`)
+        allTestsPassed = false
+      } else {
+        logger.info(`${name} Passed`)
+      }
+    } catch (error) {
+      logger.error(`${name} Failed with exception`, { error: error instanceof Error ? error.message : error })
+      allTestsPassed = false
+    }
+  }
+
+  // Every resource of a type in a job, to compare against what the server exported
+  const loadedIds = async (manager: BulkExportManager, jobId: string, type: string) => {
+    const result = await manager.query({ job_id: jobId, type, limit: 500 })
+    return result.resources.map((resource) => resource.id)
+  }
+
+  // Test 1: A system export polls until ready and loads every file
+  await check("Test 1: System export", async () => {
+    const client = new FhirClient({ baseUrl: mock.url })
+    const request = { level: "system", types: ["Patient", "Observation", "Specimen"] }
+    const started = await systemManager.start(client, request, "verify")
+    const job = await systemManager.run(started.id, client)
+
+    if (job.status !== "completed") return `status was ${job.status}: ${job.error}`
+    if (job.files.some((file) => !file.complete || file.lines_loaded !== file.count)) return JSON.stringify(job.files)
+    if (!job.errors[0]?.includes("Specimen")) return `errors were ${job.errors.join("; ")}`
+    return (await loadedIds(systemManager, job.id, "Patient")).length === 4 ? null : "patients were not all loaded"
+  })
+
+  // Test 2: A group export only contains the group's members and their data
+  await check("Test 2: Group export", async () => {
+    const manager = createManager()
+    const client = new FhirClient({ baseUrl: mock.url })
+    const started = await manager.start(client, { level: "group", group_id: "grp-brca-cohort" }, "verify")
+    const job = await manager.run(started.id, client)
+    const patients = (await loadedIds(manager, job.id, "Patient")).sort()
+
+    if (job.status !== "completed") return `status was ${job.status}: ${job.error}`
+    if (patients.join(",") !== "pat-1001,pat-1002") return `patients were ${patients.join(",")}`
+    return job.files.some((file) => file.type === "Practitioner") ? "unrelated resources were exported" : null
+  })
+
+  // Test 3: An interrupted download resumes with Range after a restart without duplicating lines
+  await check("Test 3: Resume with Range", async () => {
+    const store = new FileBulkDataStore(directory)
+    const client = new FhirClient({ baseUrl: flaky.url })
+    const first = createManager(store)
+    const started = await first.start(client, { level: "patient", types: ["Observation", "Condition"] }, "verify")
+    const failed = await first.run(started.id, client)
+    const partial = failed.files.find((file) => file.bytes_loaded > 0 && !file.complete)
+
+    if (failed.status !== "failed" || !partial) return `first run ended ${failed.status} without partial progress`
+
+    // Each file is cut off once, so the second file fails on the first resume
+    const restarted = createManager(new FileBulkDataStore(directory))
+    let job = failed
+    for (let attempt = 0; attempt < 3 && job.status !== "completed"; attempt++) {
+      await restarted.resume(started.id, client)
+      job = await restarted.run(started.id, client)
+    }
+    const observations = await loadedIds(restarted, job.id, "Observation")
+
+    if (job.status !== "completed") return `resumed run ended ${job.status}: ${job.error}`
+    if (new Set(observations).size !== observations.length) return "resumed download duplicated resources"
+    return observations.length === job.files.find((file) => file.type === "Observation")?.count
+      ? null
+      : `loaded ${observations.length} observations`
+  })
+
+  // Test 4: Servers that ignore Range resend the file and the stored lines are skipped
+  await check("Test 4: Resume without Range", async () => {
+    const manager = createManager()
+    const client = new FhirClient({ baseUrl: noRanges.url })
+    const started = await manager.start(client, { level: "system", types: ["Observation"] }, "verify")
+    await manager.run(started.id, client)
+    await manager.resume(started.id, client)
+    const job = await manager.run(started.id, client)
+    const observations = await loadedIds(manager, job.id, "Observation")
+
+    if (job.status !== "completed") return `status was ${job.status}: ${job.error}`
+    return observations.length === job.files[0]?.count && new Set(observations).size === observations.length
+      ? null
+      : `loaded ${observations.join(",")}`
+  })
+
+  // Test 5: Loaded data can be queried by patient and code and summarized for the dashboard
+  await check("Test 5: Query and summary", async () => {
+    const client = new FhirClient({ baseUrl: mock.url })
+    const started = await systemManager.start(client, { level: "system" }, "verify")
+    await systemManager.run(started.id, client)
+
+    const byCode = await systemManager.query({ type: "Condition", code: "http://snomed.info/sct|254837009" })
+    const byPatient = await systemManager.query({ type: "Observation", patient: "pat-1002" })
+    const summary = await systemManager.summarize()
+
+    if (byCode.job_id !== started.id || byCode.resources[0]?.id !== "cond-2001") return "code query"
+    if (byPatient.total !== 1 || byPatient.resources[0]?.id !== "obs-6101") return "patient query"
+    if (summary.resource_counts.Condition !== 3 || summary.patient_count !== 4) return JSON.stringify(summary)
+    return summary.top_conditions.some((condition) => condition.display === "Breast cancer, right")
+      ? null
+      : JSON.stringify(summary.top_conditions)
+  })
+
+  // Test 6: Cancelling stops polling and marks the job cancelled
+  await check("Test 6: Cancel", async () => {
+    const manager = createManager()
+    const client = new FhirClient({ baseUrl: slow.url })
+    const started = await manager.start(client, { level: "system" }, "verify")
+    const running = manager.run(started.id, client)
+
+    await new Promise((resolve) => setTimeout(resolve, 50))
+    const cancelled = await manager.cancel(started.id, client)
+    await running
+
+    if (cancelled.status !== "cancelled" || manager.isRunning(started.id)) return `status was ${cancelled.status}`
+
+    try {
+      await manager.resume(started.id, client)
+      return "cancelled export was resumed"
+    } catch (error) {
+      return error instanceof BulkExportError && error.statusCode === 409 ? null : `unexpected error ${error}`
+    }
+  })
+
+  // Test 7: Invalid requests are rejected before reaching the server
+  await check("Test 7: Validation", async () => {
+    const failures = [
+      { level: "group" },
+      { level: "cohort" },
+      { types: ["patient; drop"] },
+      { since: "yesterday" },
+    ].filter((input) => {
+      try {
+        systemManager.validateRequest(input)
+        return true
+      } catch (error) {
+        return !(error instanceof BulkExportError)
+      }
+    })
+
+    return failures.length === 0 ? null : `accepted ${JSON.stringify(failures)}`
+  })
+
+  await Promise.all([mock.close(), flaky.close(), noRanges.close(), slow.close()])
+  await rm(directory, { recursive: true, force: true })
+
+  // Final result
+  if (allTestsPassed) {
+    logger.info("✅ All tests passed! FHIR Bulk Data export is working correctly.")
+  } else {
+    logger.error("❌ Some tests failed. FHIR Bulk Data export may not be working correctly.")
+    process.exitCode = 1
+  }
+}
+
+// Run the verification
+verifyBulkExport().catch((error) => {
+  logger.error("FHIR Bulk Data verification failed with unhandled exception", { error })
+  process.exitCode = 1
+})
@@ -0,0 +1,137 @@
+/**
+ * FHIR Client Verification Script
+ *
+ * Runs the FHIR R4 client against the mock FHIR server and checks read, search paging,
+ * _include/_revinclude handling and OperationOutcome error mapping.
+ */
+
+import { startMockFhirServer } from "./mock-fhir-server"
+import {
+  FhirClient,
+  FhirError,
+  getBundleIncludes,
+  getBundleLink,
+  getBundleMatches,
+  type FhirPatient,
+} from "../lib/fhir/fhir-client"
+import { logger } from "../lib/logging/enhanced-logger"
+
+async function verifyFhirClient() {
+  logger.info("Starting FHIR client verification...")
+  let allTestsPassed = true
+
+  const mock = await startMockFhirServer({ accessToken: "verify-token" })
+  const client = new FhirClient({ baseUrl: mock.url, getAccessToken: async () => "verify-token" })
+
+  const check = async (name: string, test: () => Promise<string | null>) => {
+    try {
+      const failure = await test()
+
+      if (failure) {
+        logger.error(`${name} Failed: ${failure}`)
+        allTestsPassed = false
+      } else {
+        logger.info(`${name} Passed`)
+      }
+    } catch (error) {
+      logger.error(`${name} Failed with exception`, { error: error instanceof Error ? error.message : error })
+      allTestsPassed = false
+    }
+  }
+
+  // Test 1: Read a patient
+  await check("Test 1: Read patient", async () => {
+    const patient = await client.read<FhirPatient>("Patient", "pat-1001")
+    return patient.name?.[0].family === "Alvarez" ? null : `unexpected patient ${JSON.stringify(patient.name)}`
+  })
+
+  // Test 2: Search with _count and follow next links
+  await check("Test 2: Search paging", async () => {
+    const first = await client.search<FhirPatient>("Patient", { _count: 2 })
+    const second = await client.getPage(first)
+    const all = await client.searchAll<FhirPatient>("Patient", { _count: 1 })
+
+    if (first.total !== 4 || getBundleMatches(first).length !== 2) return `first page had ${first.entry?.length} entries`
+    if (!second || getBundleMatches(second)[0]?.id !== "pat-1003") return "next page did not continue the results"
+    if (getBundleLink(second, "next")) return "last page still has a next link"
+    return all.length === 4 ? null : `searchAll returned ${all.length} patients`
+  })
+
+  // Test 3: Search parameters narrow the results
+  await check("Test 3: Search parameters", async () => {
+    const bundle = await client.search<FhirPatient>("Patient", { family: "alvarez", gender: "male" })
+    const ids = getBundleMatches(bundle).map((patient) => patient.id)
+    return ids.length === 1 && ids[0] === "pat-1003" ? null : `matched ${ids.join(", ")}`
+  })
+
+  // Test 4: _include resources are kept apart from matches
+  await check("Test 4: _include", async () => {
+    const bundle = await client.search<FhirPatient>("Patient", {
+      identifier: "MRN-204817",
+      _include: ["Patient:general-practitioner"],
+    })
+    const practitioners = getBundleIncludes(bundle, "Practitioner")
+    return getBundleMatches(bundle).length === 1 && practitioners[0]?.id === "prac-301"
+      ? null
+      : `got ${bundle.entry?.length} entries`
+  })
+
+  // Test 5: _revinclude returns resources pointing at the matches
+  await check("Test 5: _revinclude", async () => {
+    const bundle = await client.search("Practitioner", { _id: "prac-301", _revinclude: ["Patient:general-practitioner"] })
+    const patients = getBundleIncludes<FhirPatient>(bundle, "Patient")
+    return patients.length === 2 ? null : `got ${patients.length} referencing patients`
+  })
+
+  // Test 6: OperationOutcome responses become FhirErrors
+  await check("Test 6: OperationOutcome errors", async () => {
+    const expectError = async (request: Promise<unknown>, statusCode: number, text: string) => {
+      try {
+        await request
+        return "request did not fail"
+      } catch (error) {
+        if (!(error instanceof FhirError)) return `unexpected error ${error}`
+        if (error.statusCode !== statusCode) return `status ${error.statusCode} instead of ${statusCode}`
+        return error.message.includes(text) && error.issues.length > 0 ? null : `message was "${error.message}"`
+      }
+    }
+
+    const unauthenticated = new FhirClient({ baseUrl: mock.url })
+
+    return (
+      (await expectError(client.read("Patient", "missing"), 404, "Patient/missing is not known")) ||
+      (await expectError(client.search("Patient", { favourite_color: "blue" }), 400, "favourite_color")) ||
+      (await expectError(unauthenticated.read("Patient", "pat-1001"), 401, "bearer token"))
+    )
+  })
+
+  // Test 7: Page links to other hosts are refused so the token is not leaked
+  await check("Test 7: Foreign page links", async () => {
+    try {
+      await client.getPage({
+        resourceType: "Bundle",
+        type: "searchset",
+        link: [{ relation: "next", url: "https://example.com/fhir/Patient?page=2" }],
+      })
+      return "followed a link to another server"
+    } catch (error) {
+      return error instanceof FhirError ? null : `unexpected error ${error}`
+    }
+  })
+
+  await mock.close()
+
+  // Final result
+  if (allTestsPassed) {
+    logger.info("✅ All tests passed! The FHIR client is working correctly.")
+  } else {
+    logger.error("❌ Some tests failed. The FHIR client may not be working correctly.")
+    process.exitCode = 1
+  }
+}
+
+// Run the verification
+verifyFhirClient().catch((error) => {
+  logger.error("FHIR client verification failed with unhandled exception", { error })
+  process.exitCode = 1
+})
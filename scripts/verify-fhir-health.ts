@@ -0,0 +1,151 @@
+/**
+ * FHIR Health Check Verification Script
+ *
+ * Runs the connection health checks against the mock FHIR server: a healthy server, resource types answering
+ * 403, a rejected token, an unreachable server, limited SMART scopes, slow responses and the report history.
+ */
+
+import { startMockFhirServer } from "./mock-fhir-server"
+import { FhirClient } from "../lib/fhir/fhir-client"
+import { FhirHealthMonitor } from "../lib/fhir/fhir-health"
+import { logger } from "../lib/logging/enhanced-logger"
+
+async function verifyFhirHealth() {
+  logger.info("Starting FHIR health check verification...")
+  let allTestsPassed = true
+
+  const mock = await startMockFhirServer()
+  const restricted = await startMockFhirServer({ forbiddenResourceTypes: ["Observation", "DiagnosticReport"] })
+  const secured = await startMockFhirServer({ accessToken: "expected-token" })
+
+  const check = async (name: string, test: () => Promise<string | null>) => {
+    try {
+      const failure = await test()
+
+      if (failure) {
+        logger.error(`${name} Failed: ${failure}`)
+        allTestsPassed = false
+      } else {
+        logger.info(`${name} Passed`)
+      }
+    } catch (error) {
+      logger.error(`${name} Failed with exception`, { error: error instanceof Error ? error.message : error })
+      allTestsPassed = false
+    }
+  }
+
+  // Test 1: A healthy server without a SMART session is connected
+  await check("Test 1: Connected", async () => {
+    const report = await new FhirHealthMonitor().check("user-1", {
+      client: new FhirClient({ baseUrl: mock.url }),
+      connection: null,
+    })
+
+    if (report.state !== "connected") return `state was ${report.state}: ${report.degraded.join("; ")}`
+    if (report.fhir_version !== "4.0.1" || report.token.status !== "skipped") return "capability or token check"
+    return report.resources.length === 8 && report.resources.every((resource) => resource.status === "ok")
+      ? null
+      : JSON.stringify(report.resources)
+  })
+
+  // Test 2: Resource types answering 403 limit the connection and are named in the report
+  await check("Test 2: Forbidden resource types", async () => {
+    const report = await new FhirHealthMonitor().check("user-1", {
+      client: new FhirClient({ baseUrl: restricted.url }),
+      connection: null,
+    })
+    const denied = report.resources.filter((resource) => resource.http_status === 403).map((r) => r.resource_type)
+
+    if (report.state !== "limited") return `state was ${report.state}`
+    if (denied.join(",") !== "Observation,DiagnosticReport") return `denied ${denied.join(",")}`
+    return report.degraded.includes("Observation: Access denied") ? null : report.degraded.join("; ")
+  })
+
+  // Test 3: A token the server rejects disconnects
+  await check("Test 3: Rejected token", async () => {
+    const report = await new FhirHealthMonitor().check("user-1", {
+      client: new FhirClient({ baseUrl: secured.url, getAccessToken: async () => "wrong-token" }),
+      connection: { state: "connected", iss: secured.url, can_refresh: true },
+    })
+
+    if (report.capability.status !== "ok") return "public metadata was not readable"
+    return report.state === "disconnected" && report.token.http_status === 401 ? null : `state was ${report.state}`
+  })
+
+  // Test 4: An unreachable server and an unconfigured server both disconnect
+  await check("Test 4: Unreachable server", async () => {
+    const monitor = new FhirHealthMonitor()
+    const unreachable = await monitor.check("user-1", {
+      client: new FhirClient({ baseUrl: "http://127.0.0.1:9/fhir", timeoutMs: 2000 }),
+      connection: null,
+    })
+    const unconfigured = await monitor.getStatus("user-2", async () => {
+      throw new Error("FHIR server is not configured")
+    })
+
+    if (unreachable.state !== "disconnected" || unreachable.resources.length !== 0) return unreachable.summary
+    return unconfigured.state === "disconnected" && unconfigured.summary === "FHIR server is not configured"
+      ? null
+      : unconfigured.summary
+  })
+
+  // Test 5: Limited SMART scopes limit the connection even when every probe succeeds
+  await check("Test 5: Limited token", async () => {
+    const report = await new FhirHealthMonitor().check("user-1", {
+      client: new FhirClient({ baseUrl: mock.url }),
+      connection: { state: "limited", iss: mock.url, reason: "Not granted: patient/Observation.read" },
+    })
+
+    return report.state === "limited" && report.degraded[0] === "Authorization: Not granted: patient/Observation.read"
+      ? null
+      : `${report.state}: ${report.degraded.join("; ")}`
+  })
+
+  // Test 6: Slow responses are degraded
+  await check("Test 6: Slow responses", async () => {
+    const report = await new FhirHealthMonitor({ slowThresholdMs: -1, resourceTypes: ["Patient"] }).check("user-1", {
+      client: new FhirClient({ baseUrl: mock.url }),
+      connection: null,
+    })
+
+    return report.state === "limited" && report.resources[0]?.message?.startsWith("Slow response")
+      ? null
+      : `${report.state}: ${report.degraded.join("; ")}`
+  })
+
+  // Test 7: Status reuses fresh reports, refresh checks again and history is kept newest first
+  await check("Test 7: Cache and history", async () => {
+    const monitor = new FhirHealthMonitor({ resourceTypes: ["Patient", "Observation"], historySize: 2 })
+    let target = { client: new FhirClient({ baseUrl: mock.url }), connection: null }
+    const load = async () => target
+
+    await monitor.getStatus("user-1", load)
+    const cached = await monitor.getStatus("user-1", load)
+    if (cached.history.length !== 1) return `cached status ran ${cached.history.length} checks`
+
+    target = { client: new FhirClient({ baseUrl: restricted.url }), connection: null }
+    await monitor.getStatus("user-1", load, { refresh: true })
+    const latest = await monitor.getStatus("user-1", load, { refresh: true })
+
+    if (latest.history.length !== 2) return `history kept ${latest.history.length} entries`
+    return latest.history.map((entry) => entry.state).join(",") === "limited,limited" && latest.state === "limited"
+      ? null
+      : latest.history.map((entry) => entry.state).join(",")
+  })
+
+  await Promise.all([mock.close(), restricted.close(), secured.close()])
+
+  // Final result
+  if (allTestsPassed) {
+    logger.info("✅ All tests passed! FHIR health checks are working correctly.")
+  } else {
+    logger.error("❌ Some tests failed. FHIR health checks may not be working correctly.")
+    process.exitCode = 1
+  }
+}
+
+// Run the verification
+verifyFhirHealth().catch((error) => {
+  logger.error("FHIR health check verification failed with unhandled exception", { error })
+  process.exitCode = 1
+})
@@ -0,0 +1,215 @@
+/**
+ * FHIR Patient Search Verification Script
+ *
+ * Runs advanced patient searches against the mock FHIR server: string modifiers, birthdate prefixes, _has chains
+ * on Condition codes and _sort, then checks query validation, paging through cursors, and saved searches with
+ * their sharing rules.
+ */
+
+import { startMockFhirServer } from "./mock-fhir-server"
+import { FhirClient, getBundleMatches, type FhirBundle, type FhirPatient } from "../lib/fhir/fhir-client"
+import { PatientSearchError, decodeSearchCursor, parsePatientSearch, withCursorLinks } from "../lib/fhir/patient-search"
+import { SavedPatientSearchService, SavedSearchError } from "../lib/fhir/saved-searches"
+import { InMemorySavedPatientSearchStore } from "../lib/fhir/saved-search-store"
+import { logger } from "../lib/logging/enhanced-logger"
+
+const ROUTE_URL = "http://localhost:3000/api/fhir/patients"
+
+async function verifyFhirSearch() {
+  logger.info("Starting FHIR patient search verification...")
+  let allTestsPassed = true
+
+  const mock = await startMockFhirServer()
+  const client = new FhirClient({ baseUrl: mock.url })
+
+  const check = async (name: string, test: () => Promise<string | null>) => {
+    try {
+      const failure = await test()
+
+      if (failure) {
+        logger.error(`${name} Failed: ${failure}`)
+        allTestsPassed = false
+      } else {
+        logger.info(`${name} Passed`)
+      }
+    } catch (error) {
+      logger.error(`${name} Failed with exception`, { error: error instanceof Error ? error.message : error })
+      allTestsPassed = false
+    }
+  }
+
+  // Ids of the patients a search finds, in the server's order
+  const searchIds = async (query: string) => {
+    const bundle = await client.search<FhirPatient>("Patient", parsePatientSearch(new URLSearchParams(query)).params)
+    return getBundleMatches(bundle)
+      .map((patient) => patient.id)
+      .join(",")
+  }
+
+  const expectIds = async (query: string, expected: string) => {
+    const ids = await searchIds(query)
+    return ids === expected ? null : `${query} found [${ids}], expected [${expected}]`
+  }
+
+  const rejects = (query: string, fragment: string) => {
+    try {
+      parsePatientSearch(new URLSearchParams(query))
+      return `${query} was accepted`
+    } catch (error) {
+      if (!(error instanceof PatientSearchError) || error.statusCode !== 400) return `${query} threw ${error}`
+      return error.message.includes(fragment) ? null : `${query} failed with "${error.message}"`
+    }
+  }
+
+  // Test 1: :exact matches whole names case-sensitively, :contains matches anywhere in a name
+  await check("Test 1: String modifiers", async () => {
+    return (
+      (await expectIds("name:exact=Alvarez&_sort=_id", "pat-1001,pat-1003")) ||
+      (await expectIds("name:exact=alvarez", "")) ||
+      (await expectIds("name:exact=Alva", "")) ||
+      (await expectIds("name:contains=akam", "pat-1004")) ||
+      (await expectIds("gender:not=male&_sort=_id", "pat-1001,pat-1004"))
+    )
+  })
+
+  // Test 2: Birthdate prefixes, repeated for a range, compared at the precision given
+  await check("Test 2: Date prefixes", async () => {
+    return (
+      (await expectIds("birthdate=ge1950&birthdate=lt1970&_sort=_id", "pat-1001,pat-1002")) ||
+      (await expectIds("birthdate=lt1940", "pat-1003")) ||
+      (await expectIds("birthdate=gt1968-04", "pat-1004")) ||
+      (await expectIds("birthdate=1954-11-30", "pat-1002"))
+    )
+  })
+
+  // Test 3: _has finds patients through the Conditions that reference them
+  await check("Test 3: Chained Condition search", async () => {
+    return (
+      (await expectIds("_has:Condition:patient:code=254837009", "pat-1001")) ||
+      (await expectIds("_has:Condition:patient:code=http://snomed.info/sct|254837009&gender=female", "pat-1001")) ||
+      (await expectIds("_has:Condition:patient:code=http://hl7.org/fhir/sid/icd-10-cm|254837009", "")) ||
+      (await expectIds("_has:Condition:patient:code=99999999", ""))
+    )
+  })
+
+  // Test 4: _sort orders by one or more fields, - for descending
+  await check("Test 4: Sorting", async () => {
+    return (
+      (await expectIds("_sort=-birthdate", "pat-1004,pat-1001,pat-1002,pat-1003")) ||
+      (await expectIds("_sort=family,given", "pat-1003,pat-1001,pat-1002,pat-1004")) ||
+      (await expectIds("_sort=-family,given", "pat-1004,pat-1002,pat-1003,pat-1001"))
+    )
+  })
+
+  // Test 5: Unknown parameters, modifiers, dates, chains and sort fields are refused before reaching the server
+  await check("Test 5: Query validation", async () => {
+    const canonical = parsePatientSearch(
+      new URLSearchParams("birthDate=ge1968&gender=any&_count=500&_sort=-birthdate,&name:contains=alv"),
+    )
+
+    if (canonical.query !== "birthdate=ge1968&_sort=-birthdate&name%3Acontains=alv") {
+      return `canonical query was ${canonical.query}`
+    }
+    if (canonical.params._count !== 100) return `_count was ${canonical.params._count}`
+
+    return (
+      rejects("favourite_color=blue", "Unknown patient search parameter favourite_color") ||
+      rejects("gender:exact=male", ":exact modifier is not supported on gender") ||
+      rejects("name:above=x", ":above modifier") ||
+      rejects("birthdate=after1970", "must be a date") ||
+      rejects("_has:Encounter:patient:type=x", "not Encounter") ||
+      rejects("_has:Condition:subject:code=x", "_has:Condition:patient:code") ||
+      rejects("_sort=telecom", "cannot be sorted by telecom")
+    )
+  })
+
+  // Test 6: Cursors follow the server's page links through the route and stay on the user's server
+  await check("Test 6: Cursor paging", async () => {
+    const ids: string[] = []
+    const { params } = parsePatientSearch(new URLSearchParams("_sort=birthdate&_count=3"))
+    const first = await client.search<FhirPatient>("Patient", params)
+    let page: FhirBundle<FhirPatient> | null = withCursorLinks(first, ROUTE_URL)
+
+    for (let pages = 0; page && pages < 5; pages++) {
+      ids.push(...getBundleMatches(page).map((patient) => patient.id))
+
+      const next = page.link?.find((link) => link.relation === "next")?.url
+      if (next && !next.startsWith(`${ROUTE_URL}?_cursor=`)) return `next link was not a cursor: ${next}`
+
+      const cursor = next && new URL(next).searchParams.get("_cursor")
+      const bundle = cursor ? await client.request<FhirBundle<FhirPatient>>(decodeSearchCursor(cursor, mock.url)) : null
+      page = bundle && withCursorLinks(bundle, ROUTE_URL)
+    }
+
+    if (ids.join(",") !== "pat-1003,pat-1002,pat-1001,pat-1004") return `paged through [${ids.join(",")}]`
+
+    const foreign = Buffer.from("https://evil.example.org/fhir/Patient?_getpagesoffset=3").toString("base64url")
+    try {
+      decodeSearchCursor(foreign, mock.url)
+      return "a cursor for another server was accepted"
+    } catch (error) {
+      return error instanceof PatientSearchError ? null : `expected a PatientSearchError, got ${error}`
+    }
+  })
+
+  // Test 7: Saved searches are private unless shared, and only their owner may change them
+  await check("Test 7: Saved searches", async () => {
+    const service = new SavedPatientSearchService(new InMemorySavedPatientSearchStore())
+    const owner = { id: "user-1", name: "ada@example.org" }
+
+    const breast = await service.create(owner, {
+      name: "Breast cancer patients",
+      query: "?_has:Condition:patient:code=254837009&_sort=-birthdate",
+    })
+    const elderly = await service.create(owner, { name: "Born before 1950", query: "birthdate=lt1950", shared: true })
+
+    if (breast.query !== "_has%3ACondition%3Apatient%3Acode=254837009&_sort=-birthdate") {
+      return `query was stored as ${breast.query}`
+    }
+
+    const others = await service.list("user-2")
+    if (others.map((search) => search.name).join(",") !== "Born before 1950" || others[0].owned) {
+      return `another user saw ${JSON.stringify(others)}`
+    }
+
+    const expectError = async (action: Promise<unknown>, status: number) => {
+      try {
+        await action
+        return `expected a ${status}`
+      } catch (error) {
+        return error instanceof SavedSearchError && error.statusCode === status ? null : `expected ${status}: ${error}`
+      }
+    }
+
+    const refused =
+      (await expectError(service.update(elderly.id, "user-2", { name: "Mine now" }), 403)) ||
+      (await expectError(service.remove(breast.id, "user-2"), 404)) ||
+      (await expectError(service.create(owner, { name: "Bad", query: "favourite_color=blue" }), 400)) ||
+      (await expectError(service.create(owner, { name: "Empty", query: "_count=5" }), 400)) ||
+      (await expectError(service.create(owner, { name: " ", query: "gender=male" }), 400))
+    if (refused) return refused
+
+    const unshared = await service.update(elderly.id, "user-1", { shared: false })
+    if (unshared.shared || (await service.list("user-2")).length !== 0) return "unsharing left the search visible"
+
+    await service.remove(breast.id, "user-1")
+    const remaining = await service.list("user-1")
+    return remaining.map((search) => search.id).join(",") === elderly.id ? null : "the search was not deleted"
+  })
+
+  await mock.close()
+
+  // Final result
+  if (allTestsPassed) {
+    logger.info("✅ All tests passed! Patient search is working correctly.")
+  } else {
+    logger.error("❌ Some tests failed. Patient search may not be working correctly.")
+    process.exitCode = 1
+  }
+}
+
+// Run the verification
+verifyFhirSearch().catch((error) => {
+  logger.error("FHIR patient search verification failed with unhandled exception", { error })
+  process.exitCode = 1
+})
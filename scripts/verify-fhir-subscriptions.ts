@@ -0,0 +1,291 @@
+/**
+ * FHIR Subscriptions Verification Script
+ *
+ * Creates R5 and backport Subscriptions on the mock FHIR server with a local webhook in front of the subscription
+ * manager, then checks the handshake, that transactions for a subscribed patient invalidate the patient data cache
+ * and publish PATIENT_UPDATE events, that lost notifications are detected from the event numbering, the webhook's
+ * guards, and removing a subscription.
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http"
+import type { AddressInfo } from "node:net"
+import { startMockFhirServer, type MockFhirServer } from "./mock-fhir-server"
+import { AidenEventBus } from "../lib/aiden/aiden-events"
+import { AidenWebSocketEventType, type AidenWebSocketEvent } from "../lib/aiden/aiden-websocket"
+import { FhirClient, type FhirBundle, type FhirResource } from "../lib/fhir/fhir-client"
+import { FhirSubscriptionError, FhirSubscriptionManager } from "../lib/fhir/fhir-subscriptions"
+import { PatientDataCache } from "../lib/fhir/patient-cache"
+import { InMemoryFhirSubscriptionStore } from "../lib/fhir/subscription-store"
+import { logger } from "../lib/logging/enhanced-logger"
+
+const TOPIC = "http://example.org/SubscriptionTopic/patient-results"
+const LABORATORY = { system: "http://terminology.hl7.org/CodeSystem/observation-category", code: "laboratory" }
+
+function observationTransaction(patientId: string, loinc: string, value: number): FhirBundle {
+  return {
+    resourceType: "Bundle",
+    type: "transaction",
+    entry: [
+      {
+        fullUrl: `urn:uuid:${crypto.randomUUID()}`,
+        resource: {
+          resourceType: "Observation",
+          status: "final",
+          category: [{ coding: [LABORATORY] }],
+          code: { coding: [{ system: "http://loinc.org", code: loinc }] },
+          subject: { reference: `Patient/${patientId}` },
+          effectiveDateTime: new Date().toISOString(),
+          valueQuantity: { value, unit: "mmol/L" },
+        },
+        request: { method: "POST", url: "Observation" },
+      },
+    ],
+  }
+}
+
+async function verifyFhirSubscriptions() {
+  logger.info("Starting FHIR Subscriptions verification...")
+  let allTestsPassed = true
+
+  const cache = new PatientDataCache()
+  const events = new AidenEventBus()
+  const manager = new FhirSubscriptionManager({ store: new InMemoryFhirSubscriptionStore(), cache, events })
+  const published: AidenWebSocketEvent[] = []
+  events.subscribe((event) => published.push(event))
+
+  // Stands in for the webhook route in front of the manager
+  const webhook = createServer(async (request: IncomingMessage, response: ServerResponse) => {
+    const id = request.url?.match(/^\/api\/fhir\/subscriptions\/([^/]+)\/webhook$/)?.[1] || ""
+    let body = ""
+    for await (const chunk of request) body += chunk
+
+    try {
+      const result = await manager.receive(id, request.headers.authorization || null, JSON.parse(body))
+      response.writeHead(200, { "Content-Type": "application/json" })
+      response.end(JSON.stringify(result))
+    } catch (error) {
+      response.writeHead(error instanceof FhirSubscriptionError ? error.statusCode : 500)
+      response.end(JSON.stringify({ message: error instanceof Error ? error.message : "Unknown error" }))
+    }
+  })
+  await new Promise<void>((resolve) => webhook.listen(0, "127.0.0.1", resolve))
+  const webhookBase = `http://127.0.0.1:${(webhook.address() as AddressInfo).port}`
+
+  const mock = await startMockFhirServer()
+  const lossy = await startMockFhirServer({ dropNotifications: 1 })
+  const client = new FhirClient({ baseUrl: mock.url })
+
+  const check = async (name: string, test: () => Promise<string | null>) => {
+    try {
+      const failure = await test()
+
+      if (failure) {
+        logger.error(`${name} Failed: ${failure}`)
+        allTestsPassed = false
+      } else {
+        logger.info(`${name} Passed`)
+      }
+    } catch (error) {
+      logger.error(`${name} Failed with exception`, { error: error instanceof Error ? error.message : error })
+      allTestsPassed = false
+    }
+  }
+
+  // Cache a patient's record, counting the loads that reach the "server"
+  let loads = 0
+  const readRecord = (server: MockFhirServer, patientId: string) =>
+    cache.get(patientId, `${server.url}|user-1`, "health_record", async () => ({ patientId, load: ++loads }))
+
+  const patientUpdates = () => published.filter((event) => event.event_type === AidenWebSocketEventType.PATIENT_UPDATE)
+
+  const serverSubscription = (server: MockFhirServer, resourceId: string | null) =>
+    server.resources.get(`Subscription/${resourceId}`) as FhirResource | undefined
+
+  // Test 1: Patient data cache
+  await check("Test 1: Patient data cache", async () => {
+    const shortLived = new PatientDataCache({ ttlMs: 50 })
+    let calls = 0
+    const load = async () => ++calls
+
+    const [first, second] = await Promise.all([
+      shortLived.get("pat-1", "server-a|u", "summary", load),
+      shortLived.get("pat-1", "server-a|u", "summary", load),
+    ])
+    if (first !== 1 || second !== 1) return "concurrent reads did not share one load"
+    if ((await shortLived.get("pat-1", "server-a|u", "summary", load, { refresh: true })) !== 2) {
+      return "a refresh was served from the cache"
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, 60))
+    if ((await shortLived.get("pat-1", "server-a|u", "summary", load)) !== 3) return "a stale entry was served"
+
+    await shortLived.get("pat-1", "server-b|u", "summary", load)
+    if (shortLived.invalidatePatient("pat-1", "server-a") !== 1) return "invalidation was not scoped to the server"
+    if ((await shortLived.get("pat-1", "server-b|u", "summary", load)) !== 4) {
+      return "another server's entry was dropped"
+    }
+
+    const failing = () => Promise.reject(new Error("FHIR server is down"))
+    await shortLived.get("pat-2", "server-a|u", "summary", failing).catch(() => undefined)
+    return (await shortLived.get("pat-2", "server-a|u", "summary", load)) === 5 ? null : "a failed load was cached"
+  })
+
+  // Test 2: R5 subscription filtered to one patient, activated by the handshake
+  let r5Id = ""
+  await check("Test 2: R5 subscription handshake", async () => {
+    const created = await manager.create(client, { topic: TOPIC, patient_id: "pat-1001" }, webhookBase, "admin")
+    r5Id = created.id
+    await mock.flushNotifications()
+
+    const resource = serverSubscription(mock, created.resource_id)
+    const subscription = await manager.get(created.id)
+
+    if ("secret" in created || "secret" in subscription) return "the notification secret was returned"
+    if (resource?.topic !== TOPIC || resource.content !== "id-only") return "the R5 Subscription was not created"
+    if (resource.filterBy?.[0]?.value !== "Patient/pat-1001") return `filter was ${JSON.stringify(resource.filterBy)}`
+    if (resource.endpoint !== `${webhookBase}/api/fhir/subscriptions/${created.id}/webhook`) {
+      return `endpoint was ${resource.endpoint}`
+    }
+    if (resource.status !== "active") return "the webhook did not accept the handshake"
+    return subscription.status === "active" ? null : `subscription status was ${subscription.status}`
+  })
+
+  // Test 3: Events for the subscribed patient invalidate their cache and reach open views
+  await check("Test 3: Event notifications", async () => {
+    await readRecord(mock, "pat-1001")
+    await readRecord(mock, "pat-1002")
+    const before = loads
+    published.length = 0
+
+    await client.transaction(observationTransaction("pat-1001", "2823-3", 6.1))
+    await client.transaction(observationTransaction("pat-1002", "2823-3", 4.2))
+    await mock.flushNotifications()
+
+    const [update, ...others] = patientUpdates()
+    if (!update || others.length > 0) return `expected 1 patient update, got ${patientUpdates().length}`
+    if (update.metadata?.patient_id !== "pat-1001" || update.payload.resource_type !== "Observation") {
+      return `update was ${JSON.stringify(update.payload)}`
+    }
+    if (update.payload.event_number !== 1 || update.payload.subscription_id !== r5Id) return "event number was lost"
+
+    await readRecord(mock, "pat-1001")
+    if (loads !== before + 1) return "the subscribed patient's cache was not invalidated"
+    await readRecord(mock, "pat-1002")
+    if (loads !== before + 1) return "another patient's cache was invalidated"
+
+    const subscription = await manager.get(r5Id)
+    return subscription.events_received === 1 ? null : `events_received was ${subscription.events_received}`
+  })
+
+  // Test 4: Backport subscription for every patient, with Parameters notifications
+  await check("Test 4: Backport subscription", async () => {
+    const created = await manager.create(client, { topic: TOPIC, fhir_version: "R4B" }, webhookBase, "admin")
+    await mock.flushNotifications()
+
+    const resource = serverSubscription(mock, created.resource_id)
+    if (resource?.criteria !== TOPIC || !resource.channel?.header?.[0]?.startsWith("Authorization: Bearer ")) {
+      return "the backport Subscription was not created"
+    }
+    if ((await manager.get(created.id)).status !== "active") return "the handshake was not accepted"
+
+    await readRecord(mock, "pat-1002")
+    const before = loads
+    published.length = 0
+
+    await client.transaction(observationTransaction("pat-1002", "718-7", 13.1))
+    await mock.flushNotifications()
+
+    // An id-only event for an unfiltered subscription cannot name the patient, so every open view reloads
+    const [update] = patientUpdates()
+    if (patientUpdates().length !== 1 || update.payload.patient_id !== null || update.metadata?.patient_id) {
+      return `updates were ${JSON.stringify(patientUpdates().map((event) => event.payload))}`
+    }
+
+    await readRecord(mock, "pat-1002")
+    return loads === before + 1 ? null : "the server's cache was not invalidated"
+  })
+
+  // Test 5: A lost notification shows up as a gap in the event numbering
+  await check("Test 5: Missed notifications", async () => {
+    const lossyClient = new FhirClient({ baseUrl: lossy.url })
+    const created = await manager.create(lossyClient, { topic: TOPIC, patient_id: "pat-1001" }, webhookBase, "admin")
+    await lossy.flushNotifications()
+
+    published.length = 0
+    await lossyClient.transaction(observationTransaction("pat-1001", "2160-0", 1.4))
+    await lossyClient.transaction(observationTransaction("pat-1001", "2160-0", 1.6))
+    await lossy.flushNotifications()
+
+    const missed = patientUpdates().find((event) => event.payload.missed_events === 1)
+    if (!missed || missed.metadata?.patient_id !== "pat-1001") return "the missed event was not reported"
+
+    const subscription = await manager.get(created.id)
+    return subscription.events_received === 2 ? null : `events_received was ${subscription.events_received}`
+  })
+
+  // Test 6: Webhook guards
+  await check("Test 6: Webhook guards", async () => {
+    const post = (id: string, authorization: string, body: unknown) =>
+      fetch(`${webhookBase}/api/fhir/subscriptions/${id}/webhook`, {
+        method: "POST",
+        headers: { Authorization: authorization, "Content-Type": "application/fhir+json" },
+        body: JSON.stringify(body),
+      })
+
+    const secret = serverSubscription(mock, (await manager.get(r5Id)).resource_id)?.parameter?.[0]?.value
+    const heartbeat = {
+      resourceType: "Bundle",
+      type: "subscription-notification",
+      entry: [
+        { resource: { resourceType: "SubscriptionStatus", type: "heartbeat", eventsSinceSubscriptionStart: "1" } },
+      ],
+    }
+
+    if ((await post(r5Id, "Bearer wrong-secret", heartbeat)).status !== 401) return "a wrong secret was accepted"
+    if ((await post("unknown", secret, heartbeat)).status !== 404) return "an unknown subscription was accepted"
+    if ((await post(r5Id, secret, { resourceType: "Bundle", type: "searchset" })).status !== 400) {
+      return "a Bundle that is not a notification was accepted"
+    }
+
+    const response = await post(r5Id, secret, heartbeat)
+    const result = await response.json()
+    return response.status === 200 && result.type === "heartbeat" && result.missed_events === 0
+      ? null
+      : `heartbeat answered ${response.status} ${JSON.stringify(result)}`
+  })
+
+  // Test 7: Removing a subscription deletes it from the server and refuses later notifications
+  await check("Test 7: Remove subscription", async () => {
+    const { resource_id: resourceId } = await manager.get(r5Id)
+    const secret = serverSubscription(mock, resourceId)?.parameter?.[0]?.value
+    const removed = await manager.remove(r5Id, client, "admin")
+
+    if (removed.status !== "off") return `status was ${removed.status}`
+    if (serverSubscription(mock, resourceId)) return "the Subscription is still on the server"
+
+    try {
+      await manager.receive(r5Id, secret, { resourceType: "Bundle", type: "subscription-notification", entry: [] })
+      return "a notification for a removed subscription was accepted"
+    } catch (error) {
+      return error instanceof FhirSubscriptionError && error.statusCode === 410 ? null : "expected a 410"
+    }
+  })
+
+  await mock.close()
+  await lossy.close()
+  await new Promise((resolve) => webhook.close(resolve))
+
+  // Final result
+  if (allTestsPassed) {
+    logger.info("✅ All tests passed! FHIR Subscriptions are working correctly.")
+  } else {
+    logger.error("❌ Some tests failed. FHIR Subscriptions may not be working correctly.")
+    process.exitCode = 1
+  }
+}
+
+// Run the verification
+verifyFhirSubscriptions().catch((error) => {
+  logger.error("FHIR Subscriptions verification failed with unhandled exception", { error })
+  process.exitCode = 1
+})
@@ -0,0 +1,223 @@
+/**
+ * FHIR Transformer Verification Script
+ *
+ * Maps the fixture Patients and clinical resources to PatientSummary and PatientHealthRecord, covering
+ * multiple names and identifiers, missing fields and SNOMED/LOINC/RxNorm codings, then loads a health
+ * record from the mock FHIR server and groups its lab results into panels.
+ */
+
+import { readFileSync } from "fs"
+import path from "path"
+import { startMockFhirServer } from "./mock-fhir-server"
+import { FhirClient, type FhirBundle, type FhirPatient } from "../lib/fhir/fhir-client"
+import { CODE_SYSTEMS, toCodedValue, transformHealthRecord, transformPatient } from "../lib/fhir/fhir-transformer"
+import { toLabPanels } from "../lib/fhir/lab-panels"
+import { getPatientHealthRecord } from "../lib/fhir/patient-record"
+import { logger } from "../lib/logging/enhanced-logger"
+
+const FIXTURE_DIR = path.join(__dirname, "..", "tests", "fixtures", "fhir")
+const NOW = new Date("2026-06-01T00:00:00Z")
+
+function loadBundle(file: string): FhirBundle {
+  return JSON.parse(readFileSync(path.join(FIXTURE_DIR, file), "utf8"))
+}
+
+function findPatient(bundle: FhirBundle, id: string): FhirPatient {
+  const patient = bundle.entry?.find((entry) => entry.resource?.id === id)?.resource
+  if (!patient) throw new Error(`Fixture patient ${id} not found`)
+  return patient as FhirPatient
+}
+
+async function verifyFhirTransformer() {
+  logger.info("Starting FHIR transformer verification...")
+  let allTestsPassed = true
+
+  const patients = loadBundle("patients.json")
+  const edgeCases = loadBundle(path.join("edge-cases", "patients.json"))
+  const clinical = loadBundle("clinical-record.json")
+
+  const check = async (name: string, test: () => Promise<string | null> | string | null) => {
+    try {
+      const failure = await test()
+
+      if (failure) {
+        logger.error(`${name} Failed: ${failure}`)
+        allTestsPassed = false
+      } else {
+        logger.info(`${name} Passed`)
+      }
+    } catch (error) {
+      logger.error(`${name} Failed with exception`, { error: error instanceof Error ? error.message : error })
+      allTestsPassed = false
+    }
+  }
+
+  // Test 1: A complete patient maps every summary field
+  await check("Test 1: Patient summary", () => {
+    const summary = transformPatient(findPatient(patients, "pat-1001"), NOW)
+    const mrn = summary.identifiers.find((identifier) => identifier.type === "Medical Record Number")?.value
+    const ssn = summary.identifiers.find((identifier) => identifier.type === "Social Security Number")?.value
+
+    if (summary.name !== "Maria Elena Alvarez") return `name was ${summary.name}`
+    if (mrn !== "MRN-204817" || ssn !== "999-12-3456") return `identifiers were ${JSON.stringify(summary.identifiers)}`
+    if (summary.age !== 58 || summary.address !== "412 Birch Street, Madison, WI 53703, US") {
+      return `age ${summary.age}, address ${summary.address}`
+    }
+    return summary.phone === "555-201-3344" && summary.email === "maria.alvarez@example.org" && !summary.deceased
+      ? null
+      : "telecom or deceased flag was wrong"
+  })
+
+  // Test 2: Deceased patients are aged at death and identifier types given only as text are kept
+  await check("Test 2: Deceased patient and text identifier type", () => {
+    const deceased = transformPatient(findPatient(patients, "pat-1003"), NOW)
+    const textType = transformPatient(findPatient(patients, "pat-1004"), NOW)
+
+    if (!deceased.deceased || deceased.deceasedDate !== "2025-12-19T04:30:00Z") return "deceased date missing"
+    if (deceased.age !== 86 || deceased.active) return `deceased age ${deceased.age}, active ${deceased.active}`
+    return textType.identifiers[0]?.type === "Medical Record Number" ? null : JSON.stringify(textType.identifiers)
+  })
+
+  // Test 3: Official names win, old names, expired identifiers and old contacts are dropped
+  await check("Test 3: Multiple names and identifiers", () => {
+    const summary = transformPatient(findPatient(edgeCases, "edge-names"), NOW)
+    const types = summary.identifiers.map((identifier) => `${identifier.type}=${identifier.value}`)
+
+    if (summary.name !== "Katherine Anne Brennan MD") return `name was ${summary.name}`
+    if (summary.names.join("|") !== "Katherine Anne Brennan MD|Kate|KB") return `names were ${summary.names.join("|")}`
+    if (types.join(",") !== "Medical Record Number=MRN-777001,Enterprise ID=E4410,Identifier=X-1") {
+      return `identifiers were ${types.join(",")}`
+    }
+    if (summary.phone !== "555-000-0002" || summary.address !== "Clinic Tower, Suite 9") {
+      return `phone ${summary.phone}, address ${summary.address}`
+    }
+    return summary.deceased && summary.deceasedDate === undefined ? null : "deceasedBoolean was not mapped"
+  })
+
+  // Test 4: Patients with nothing but an id still produce a summary
+  await check("Test 4: Missing fields", () => {
+    const empty = transformPatient(findPatient(edgeCases, "edge-empty"), NOW)
+    const partial = transformPatient(findPatient(edgeCases, "edge-partial-date"), NOW)
+
+    if (empty.name !== "Unknown Name" || empty.identifiers.length !== 0 || !empty.active) return JSON.stringify(empty)
+    if (empty.age !== undefined || empty.address !== undefined || empty.phone !== undefined) {
+      return JSON.stringify(empty)
+    }
+    return partial.name === "Osei" && partial.age === 25 ? null : `partial patient was ${partial.name}, ${partial.age}`
+  })
+
+  // Test 5: Codeable concepts prefer SNOMED CT, LOINC and RxNorm codings and fall back sensibly
+  await check("Test 5: Codeable concepts", () => {
+    const icdAndSnomed = toCodedValue({
+      coding: [
+        { system: CODE_SYSTEMS.ICD10, code: "E11.9" },
+        { system: CODE_SYSTEMS.SNOMED, code: "44054006", display: "Diabetes mellitus type 2" },
+      ],
+    })
+    const codeOnly = toCodedValue({ coding: [{ system: CODE_SYSTEMS.LOINC, code: "2345-7" }] })
+    const missing = toCodedValue(undefined, "Unnamed")
+
+    if (icdAndSnomed.terminology !== "SNOMED CT" || icdAndSnomed.code !== "44054006") {
+      return JSON.stringify(icdAndSnomed)
+    }
+    if (codeOnly.display !== "2345-7" || codeOnly.terminology !== "LOINC") return JSON.stringify(codeOnly)
+    return missing.display === "Unnamed" && missing.codings.length === 0 ? null : JSON.stringify(missing)
+  })
+
+  // Health record of the fixture patient pat-1001
+  const fixtureRecord = () =>
+    transformHealthRecord(
+      findPatient(patients, "pat-1001"),
+      [clinical].map((bundle) => ({
+        ...bundle,
+        entry: bundle.entry?.filter(
+          (entry) =>
+            entry.resource?.resourceType === "Medication" ||
+            JSON.stringify(entry.resource).includes('"Patient/pat-1001"'),
+        ),
+      })),
+      NOW,
+    )
+
+  // Test 6: The fixture clinical resources map to a complete health record
+  await check("Test 6: Health record", () => {
+    const record = fixtureRecord()
+    const [cancer, diabetes] = record.conditions
+    const [tamoxifen, metformin] = record.medications
+    const hemoglobin = record.observations.find((observation) => observation.id === "obs-6001")
+    const pressure = record.observations.find((observation) => observation.id === "obs-6002")
+
+    if (cancer?.display !== "Breast cancer, right" || cancer.code.terminology !== "SNOMED CT") return "condition text"
+    if (diabetes?.clinicalStatus !== "resolved" || diabetes.onsetDate !== "2015-02-01") return "condition status"
+    if (tamoxifen?.code.code !== "198240" || tamoxifen.code.terminology !== "RxNorm") return "referenced medication"
+    if (metformin?.dosage !== "500 mg Oral twice daily") return `dosage was ${metformin?.dosage}`
+    if (record.allergies[0]?.reactions.join(",") !== "Hives,Anaphylaxis") return "allergy reactions"
+    if (hemoglobin?.valueText !== "10.9 g/dL" || hemoglobin.interpretation !== "L") return "observation value"
+    if (hemoglobin.referenceRange !== "12-15.5 g/dL" || hemoglobin.code.terminology !== "LOINC") {
+      return "reference range"
+    }
+    if (pressure?.components.map((component) => component.valueText).join("/") !== "128 mmHg/82 mmHg") {
+      return "observation components"
+    }
+    if (record.procedures[0]?.performer !== "Dr. Samuel Okafor") return "procedure performer"
+    if (record.immunizations[0]?.code.terminology !== "CVX") return "immunization code"
+    return record.diagnosticReports[0]?.resultIds.join(",") === "obs-6003" ? null : "report results"
+  })
+
+  // Test 7: The health record loads from the FHIR server with patient-scoped searches
+  await check("Test 7: Health record from FHIR server", async () => {
+    const mock = await startMockFhirServer()
+
+    try {
+      const client = new FhirClient({ baseUrl: mock.url })
+      const record = await getPatientHealthRecord(client, "pat-1001")
+      const sparse = await getPatientHealthRecord(client, "pat-1002")
+
+      if (record.conditions.length !== 2 || record.observations.length !== 3) {
+        return `loaded ${record.conditions.length} conditions, ${record.observations.length} observations`
+      }
+      if (record.medications[0]?.display !== "tamoxifen 20 MG Oral Tablet") return "included Medication not resolved"
+      if (sparse.conditions[0]?.display !== "Hypertension" || sparse.observations[0]?.display !== "2345-7") {
+        return "sparse resources were not mapped"
+      }
+      return sparse.medications.length === 0 && sparse.allergies.length === 0 ? null : "pat-1002 got other data"
+    } finally {
+      await mock.close()
+    }
+  })
+
+  // Test 8: Laboratory Observations group into report and collection day panels with trends
+  await check("Test 8: Lab panels", () => {
+    const record = fixtureRecord()
+    const hemoglobin = record.observations.find((observation) => observation.id === "obs-6001")!
+    record.observations.push({ ...hemoglobin, id: "obs-earlier", value: 12.4, effectiveDate: "2025-11-02T08:00:00Z" })
+
+    const panels = toLabPanels(record)
+    const latest = panels[0]?.tests[0]
+
+    if (panels.map((panel) => panel.id).join(",") !== "labs-2026-02-14,labs-2025-11-02,report-9001") {
+      return `panels were ${panels.map((panel) => panel.id).join(",")}`
+    }
+    if (panels.some((panel) => panel.tests.some((test) => test.id === "obs-6002"))) return "vital signs were included"
+    if (latest?.status !== "abnormal" || latest.trend !== "decreasing" || latest.previousValue !== 12.4) {
+      return `latest hemoglobin was ${JSON.stringify(latest)}`
+    }
+    return panels[2].category === "Genetics" && panels[2].notes === "Pathogenic BRCA1 variant detected."
+      ? null
+      : "report panel"
+  })
+
+  // Final result
+  if (allTestsPassed) {
+    logger.info("✅ All tests passed! The FHIR transformer is working correctly.")
+  } else {
+    logger.error("❌ Some tests failed. The FHIR transformer may not be working correctly.")
+    process.exitCode = 1
+  }
+}
+
+// Run the verification
+verifyFhirTransformer().catch((error) => {
+  logger.error("FHIR transformer verification failed with unhandled exception", { error })
+  process.exitCode = 1
+})
@@ -0,0 +1,300 @@
+/**
+ * FHIR Write-back Verification Script
+ *
+ * Drafts AIDEN clinical summaries, risk assessments and genomic findings, signs them and publishes them to
+ * the mock FHIR server, checking the DocumentReference, DiagnosticReport, Genomics Reporting Observations
+ * and Provenance it receives, the review guards, that retries after lost or rejected transactions
+ * never duplicate resources, and the follow-up run once a draft is published.
+ */
+
+import { startMockFhirServer, type MockFhirServer } from "./mock-fhir-server"
+import { AidenTaskType, isTerminalStatus, type AidenTask } from "../lib/aiden/aiden-client"
+import { AidenTaskEngine } from "../lib/aiden/task-engine"
+import { registerDefaultTaskHandlers } from "../lib/aiden/task-handlers"
+import { FhirClient, type FhirResource } from "../lib/fhir/fhir-client"
+import { FhirWritebackManager, WritebackError } from "../lib/fhir/fhir-writeback"
+import { WRITEBACK_IDENTIFIER_SYSTEM } from "../lib/fhir/writeback-resources"
+import type { WritebackKind, WritebackSigner } from "../lib/fhir/writeback-store"
+import type { GenomicVariant } from "../lib/genomics/types"
+import { logger } from "../lib/logging/enhanced-logger"
+
+const PATIENT_ID = "pat-1001"
+
+const SIGNER: WritebackSigner = { user_id: "user-1", display: "Dr. Ada Reviewer", reference: "Practitioner/prac-2001" }
+
+const HEALTH_RECORD = {
+  conditions: [{ display: "Breast cancer, right", clinicalStatus: "active" }],
+  medications: [{ display: "Tamoxifen 20 mg", status: "active" }],
+  allergies: [{ display: "Penicillin" }],
+  observations: [{ display: "Hemoglobin", interpretation: "L" }],
+}
+
+const VARIANTS: GenomicVariant[] = [
+  {
+    id: "var-brca1",
+    position: 43124027,
+    chromosome: "17",
+    reference: "AG",
+    alternate: "A",
+    gene: "BRCA1",
+    consequence: "frameshift_variant",
+    significance: "pathogenic",
+    frequency: 0.0001,
+    rsid: "rs80357914",
+    hgvs: "NM_007294.4:c.68_69del",
+  },
+  {
+    id: "var-tp53",
+    position: 7675088,
+    chromosome: "17",
+    reference: "C",
+    alternate: "T",
+    gene: "TP53",
+    consequence: "missense_variant",
+    significance: "uncertain",
+    frequency: 0.002,
+  },
+]
+
+async function verifyWriteback() {
+  logger.info("Starting FHIR write-back verification...")
+  let allTestsPassed = true
+
+  const mock = await startMockFhirServer()
+  const lossy = await startMockFhirServer({ dropTransactionResponses: 1 })
+  const busy = await startMockFhirServer({ rejectTransactions: 2 })
+
+  const engine = new AidenTaskEngine()
+  registerDefaultTaskHandlers(engine)
+
+  const draftFor = (manager: FhirWritebackManager, patientId: string, kind: WritebackKind, taskId: string) =>
+    manager.createDraft(patientId, { kind, task_id: taskId }, "verify")
+
+  const createManager = () =>
+    new FhirWritebackManager({ retryDelayMs: 10, maxAttempts: 2, getTask: (taskId) => engine.getTask(taskId) })
+
+  const check = async (name: string, test: () => Promise<string | null>) => {
+    try {
+      const failure = await test()
+
+      if (failure) {
+        logger.error(`${name} Failed: ${failure}`)
+        allTestsPassed = false
+      } else {
+        logger.info(`${name} Passed`)
+      }
+    } catch (error) {
+      logger.error(`${name} Failed with exception`, { error: error instanceof Error ? error.message : error })
+      allTestsPassed = false
+    }
+  }
+
+  const completedTask = async (taskType: AidenTaskType, payload: any): Promise<AidenTask> => {
+    const submitted = await engine.submit({ task_type: taskType, payload, metadata: { patientId: payload.patientId } })
+
+    for (let attempt = 0; attempt < 100; attempt++) {
+      const task = await engine.getTask(submitted.task_id)
+      if (task && isTerminalStatus(task.status)) return task
+      await new Promise((resolve) => setTimeout(resolve, 20))
+    }
+
+    throw new Error(`Task ${submitted.task_id} did not finish`)
+  }
+
+  // Resources the server holds with a write-back identifier of the given draft
+  const publishedFor = (server: MockFhirServer, draftId: string) =>
+    Array.from(server.resources.values()).filter((resource) =>
+      (resource.identifier || []).some(
+        (identifier: any) =>
+          identifier.system === WRITEBACK_IDENTIFIER_SYSTEM && identifier.value.startsWith(`${draftId}/`),
+      ),
+    )
+
+  const provenanceFor = (server: MockFhirServer, resource: FhirResource) =>
+    Array.from(server.resources.values()).filter(
+      (candidate) =>
+        candidate.resourceType === "Provenance" &&
+        candidate.target.some((target: any) => target.reference === `${resource.resourceType}/${resource.id}`),
+    )
+
+  const expectError = async (action: () => Promise<unknown>, statusCode: number) => {
+    try {
+      await action()
+      return false
+    } catch (error) {
+      return error instanceof WritebackError && error.statusCode === statusCode
+    }
+  }
+
+  const summaryTask = await completedTask(AidenTaskType.CLINICAL_SUMMARY, {
+    patientId: PATIENT_ID,
+    healthRecord: HEALTH_RECORD,
+  })
+  const riskTask = await completedTask(AidenTaskType.RISK_ASSESSMENT, {
+    patientId: PATIENT_ID,
+    healthRecord: HEALTH_RECORD,
+    variants: [{ gene: "BRCA1", significance: "pathogenic" }],
+  })
+
+  // Test 1: Drafts come from completed tasks of the right type and patient, once per task
+  await check("Test 1: Draft creation", async () => {
+    const manager = createManager()
+    const draft = await draftFor(manager, PATIENT_ID, "clinical_summary", summaryTask.task_id)
+    const again = await draftFor(manager, PATIENT_ID, "clinical_summary", summaryTask.task_id)
+
+    if (draft.status !== "pending_review" || !draft.narrative.includes("Breast cancer, right")) {
+      return `draft was ${draft.status}: ${draft.narrative}`
+    }
+    if (again.id !== draft.id) return "a second draft was created for the same task"
+
+    const rejected = await Promise.all([
+      expectError(() => draftFor(manager, PATIENT_ID, "clinical_summary", riskTask.task_id), 400),
+      expectError(() => draftFor(manager, "pat-1002", "risk_assessment", riskTask.task_id), 400),
+      expectError(() => draftFor(manager, PATIENT_ID, "risk_assessment", "missing"), 404),
+      expectError(() => manager.createDraft(PATIENT_ID, { kind: "genomic_findings", variants: [] }, "verify"), 400),
+    ])
+    return rejected.every(Boolean) ? null : `invalid drafts accepted: ${JSON.stringify(rejected)}`
+  })
+
+  // Test 2: A signed clinical summary becomes a DocumentReference with the reviewed text and a Provenance
+  await check("Test 2: Clinical summary", async () => {
+    const manager = createManager()
+    const client = new FhirClient({ baseUrl: mock.url })
+    const draft = await draftFor(manager, PATIENT_ID, "clinical_summary", summaryTask.task_id)
+    const published = await manager.sign(draft.id, client, SIGNER, { narrative: "Reviewed: stable on tamoxifen." })
+    const [document] = publishedFor(mock, draft.id)
+    const [provenance] = document ? provenanceFor(mock, document) : []
+    const text = Buffer.from(document?.content?.[0]?.attachment?.data || "", "base64").toString("utf8")
+
+    if (published.status !== "published") return `status was ${published.status}: ${published.error}`
+    if (document?.resourceType !== "DocumentReference") return "no DocumentReference was created"
+    if (text !== "Reviewed: stable on tamoxifen.") return `document text was ${text}`
+    if (document.authenticator?.reference !== SIGNER.reference) return "document is not authenticated by the signer"
+    if (!provenance) return "no Provenance targets the document"
+    if (provenance.signature?.[0]?.who?.reference !== SIGNER.reference) return "Provenance is not signed"
+    return provenance.entity?.[0]?.what?.identifier?.value === summaryTask.task_id ? null : "Provenance has no source"
+  })
+
+  // Test 3: A signed risk assessment becomes a DiagnosticReport
+  await check("Test 3: Risk assessment", async () => {
+    const manager = createManager()
+    const client = new FhirClient({ baseUrl: mock.url })
+    const draft = await draftFor(manager, PATIENT_ID, "risk_assessment", riskTask.task_id)
+    const published = await manager.sign(draft.id, client, SIGNER)
+    const [report] = publishedFor(mock, draft.id)
+
+    if (published.status !== "published") return `status was ${published.status}: ${published.error}`
+    if (report?.resourceType !== "DiagnosticReport") return "no DiagnosticReport was created"
+    if (report.subject?.reference !== `Patient/${PATIENT_ID}`) return "report is not about the patient"
+    return report.conclusion?.includes(`score ${riskTask.result.score}/100`) ? null : `conclusion ${report.conclusion}`
+  })
+
+  // Test 4: Genomic findings follow the Genomics Reporting IG with references resolved by the server
+  await check("Test 4: Genomic findings", async () => {
+    const manager = createManager()
+    const client = new FhirClient({ baseUrl: mock.url })
+    const draft = await manager.createDraft(PATIENT_ID, { kind: "genomic_findings", variants: VARIANTS }, "verify")
+    await manager.sign(draft.id, client, SIGNER)
+
+    const resources = publishedFor(mock, draft.id)
+    const report = resources.find((resource) => resource.resourceType === "DiagnosticReport")
+    const observations = (report?.result || []).map((result: any) => mock.resources.get(result.reference))
+    const variant = observations.find((observation: any) => observation?.meta?.profile?.[0]?.endsWith("/variant"))
+    const implication = observations.find((observation: any) =>
+      observation?.derivedFrom?.some((reference: any) => reference.reference === `Observation/${variant?.id}`),
+    )
+    const componentValue = (resource: any, code: string) =>
+      resource?.component?.find((component: any) => component.code.coding[0].code === code)
+
+    if (!report || observations.length !== 4 || observations.some((item: any) => !item)) return "report results"
+    if (componentValue(variant, "69547-8")?.valueString !== "AG") return "variant has no reference allele"
+    if (componentValue(variant, "48004-6")?.valueCodeableConcept?.coding?.[0]?.code !== VARIANTS[0].hgvs) {
+      return "variant has no c.HGVS"
+    }
+    const significance = componentValue(implication, "53037-8")?.valueCodeableConcept?.coding?.[0]?.code
+    return significance === "LA6668-3" ? null : `implication significance was ${significance}`
+  })
+
+  // Test 5: A transaction the server applied but did not confirm is not sent again
+  await check("Test 5: Lost response", async () => {
+    const manager = createManager()
+    const client = new FhirClient({ baseUrl: lossy.url })
+    const draft = await draftFor(manager, PATIENT_ID, "clinical_summary", summaryTask.task_id)
+    const published = await manager.sign(draft.id, client, SIGNER)
+    const documents = publishedFor(lossy, draft.id)
+
+    if (published.status !== "published" || published.attempts !== 2) {
+      return `status was ${published.status} after ${published.attempts} attempts`
+    }
+    if (documents.length !== 1 || provenanceFor(lossy, documents[0]).length !== 1) return "resources were duplicated"
+    return published.published.every((resource) => !resource.created) ? null : JSON.stringify(published.published)
+  })
+
+  // Test 6: Rejected transactions fail the draft after the retry budget, and a later retry publishes it
+  await check("Test 6: Retry", async () => {
+    const manager = createManager()
+    const client = new FhirClient({ baseUrl: busy.url })
+    const draft = await draftFor(manager, PATIENT_ID, "risk_assessment", riskTask.task_id)
+    const failed = await manager.sign(draft.id, client, SIGNER)
+
+    if (failed.status !== "failed" || failed.attempts !== 2) return `first run ended ${failed.status}`
+
+    const published = await manager.publish(draft.id, client)
+    if (published.status !== "published" || published.attempts !== 3) return `retry ended ${published.status}`
+    if (publishedFor(busy, draft.id).length !== 1) return "resources were duplicated"
+    return (await expectError(() => manager.publish(draft.id, client), 409)) ? null : "published draft was resent"
+  })
+
+  // Test 7: Review guards
+  await check("Test 7: Review", async () => {
+    const manager = createManager()
+    const client = new FhirClient({ baseUrl: mock.url })
+    const draft = await manager.createDraft(PATIENT_ID, { kind: "genomic_findings", variants: VARIANTS }, "verify")
+
+    if (!(await expectError(() => manager.sign(draft.id, client, SIGNER, { narrative: " " }), 400))) {
+      return "an empty narrative was signed"
+    }
+    if (!(await expectError(() => manager.reject(draft.id, "", "reviewer"), 400))) return "rejected without a reason"
+
+    const rejected = await manager.reject(draft.id, "Variants not confirmed", "reviewer")
+    if (rejected.status !== "rejected") return `status was ${rejected.status}`
+    if (!(await expectError(() => manager.sign(draft.id, client, SIGNER), 409))) return "a rejected draft was signed"
+    return publishedFor(mock, draft.id).length === 0 ? null : "a rejected draft reached the server"
+  })
+
+  // Test 8: The publish follow-up sees each published draft once, and cannot fail a publish
+  await check("Test 8: Publish follow-up", async () => {
+    const followed: string[] = []
+    const client = new FhirClient({ baseUrl: mock.url })
+    const manager = new FhirWritebackManager({
+      retryDelayMs: 10,
+      onPublished: async (draft) => {
+        followed.push(`${draft.kind}:${draft.status}:${draft.signed_by?.user_id}`)
+        throw new Error("tracking is down")
+      },
+    })
+    const draft = await manager.createDraft(PATIENT_ID, { kind: "genomic_findings", variants: VARIANTS }, "verify")
+    const published = await manager.sign(draft.id, client, SIGNER)
+
+    if (published.status !== "published") return `a failing follow-up left the draft ${published.status}`
+    if (!(await expectError(() => manager.publish(draft.id, client), 409))) return "the draft was published again"
+    const expected = `genomic_findings:published:${SIGNER.user_id}`
+    return followed.length === 1 && followed[0] === expected ? null : `followed up ${followed}`
+  })
+
+  await Promise.all([mock.close(), lossy.close(), busy.close()])
+
+  // Final result
+  if (allTestsPassed) {
+    logger.info("✅ All tests passed! FHIR write-back is working correctly.")
+  } else {
+    logger.error("❌ Some tests failed. FHIR write-back may not be working correctly.")
+    process.exitCode = 1
+  }
+}
+
+// Run the verification
+verifyWriteback().catch((error) => {
+  logger.error("FHIR write-back verification failed with unhandled exception", { error })
+  process.exitCode = 1
+})
@@ -0,0 +1,239 @@
+/**
+ * Genome Browser Verification Script
+ *
+ * Serves genome browser tracks from the files in tests/fixtures/knowledge: the Ensembl-style GFF3 of a synthetic
+ * 160 bp genome, a cytoband file for its ideogram and a protein domain table. Checks locus queries, coordinate
+ * zooming and panning, the tracks of a region, gene lookups, protein coordinates for the lollipops and unreadable
+ * track files.
+ */
+
+import { copyFile, mkdtemp, rm, writeFile } from "node:fs/promises"
+import os from "node:os"
+import path from "node:path"
+import {
+  GenomicEnrichmentService,
+  createSnapshotAdapters,
+} from "../lib/agent/services/genomic-enrichment/service"
+import {
+  formatRegion,
+  panRegion,
+  parseRegion,
+  regionWidth,
+  zoomRegion,
+  type GenomicRegion,
+} from "../lib/genomics/browser/region"
+import { GenomeBrowserService, parseProteinDomains } from "../lib/genomics/browser/service"
+import { proteinLength, proteinPosition, type TranscriptModel } from "../lib/genomics/gene-model"
+import { logger } from "../lib/logging/enhanced-logger"
+
+const FIXTURE_DIR = path.join(__dirname, "..", "tests", "fixtures", "knowledge")
+
+const browserFor = (directory: string) =>
+  new GenomeBrowserService(new GenomicEnrichmentService(createSnapshotAdapters(() => directory)), () => directory)
+
+async function verifyGenomeBrowser() {
+  logger.info("Starting genome browser verification...")
+  let allTestsPassed = true
+
+  const check = async (name: string, test: () => Promise<string | null>) => {
+    try {
+      const failure = await test()
+
+      if (failure) {
+        logger.error(`${name} Failed: ${failure}`)
+        allTestsPassed = false
+      } else {
+        logger.info(`${name} Passed`)
+      }
+    } catch (error) {
+      logger.error(`${name} Failed with exception`, { error: error instanceof Error ? error.message : error })
+      allTestsPassed = false
+    }
+  }
+
+  const same = (actual: unknown, expected: unknown) => JSON.stringify(actual) === JSON.stringify(expected)
+  const statusOf = (action: () => unknown) => {
+    try {
+      action()
+      return null
+    } catch (error) {
+      return (error as { statusCode?: number }).statusCode
+    }
+  }
+  const span = (region: GenomicRegion) => [region.chromosome, region.start, region.end]
+
+  const browser = browserFor(FIXTURE_DIR)
+
+  // Test 1: Locus queries are read as genome browsers write them
+  await check("Test 1: Region queries", async () => {
+    const brca1 = parseRegion("chr17:43,044,295-43,125,483")
+    if (!same(span(brca1), ["17", 43044295, 43125483])) return `the BRCA1 range was ${span(brca1)}`
+    if (formatRegion(brca1) !== "chr17:43,044,295-43,125,483") return `it was written as ${formatRegion(brca1)}`
+
+    const queries = [
+      ["17:43044295", ["17", 43044245, 43044344]],
+      ["chrX", ["X", 1, 156040895]],
+      ["chrM:100-200", ["MT", 100, 200]],
+      ["chr17:83,000,000-90,000,000", ["17", 83000000, 83257441]],
+      [" chr1 : 1,000 – 2,000 ", ["1", 1000, 2000]],
+    ] as const
+    for (const [query, expected] of queries) {
+      const region = span(parseRegion(query))
+      if (!same(region, expected)) return `${query} was read as ${region}`
+    }
+
+    const rejected = ["chr17:90,000,000-91,000,000", "chr17:200-100", "chr17:0-100", "BRCA1", "chr17:12a", ""].map(
+      (query) => statusOf(() => parseRegion(query)),
+    )
+    return same(rejected, [400, 400, 400, 400, 400, 400]) ? null : `rejections were ${rejected}`
+  })
+
+  // Test 2: Zooming and panning keep coordinates exact and stay inside the chromosome
+  await check("Test 2: Zoom and pan", async () => {
+    const region = parseRegion("chr17:43,000,001-43,100,000")
+
+    const zoomedIn = zoomRegion(region, 0.5)
+    if (!same(span(zoomedIn), ["17", 43025001, 43075000])) return `zooming in gave ${span(zoomedIn)}`
+
+    const anchored = zoomRegion(region, 0.5, 43000001)
+    if (!same(span(anchored), ["17", 43000001, 43050000])) return `zooming at the start gave ${span(anchored)}`
+
+    const narrowest = zoomRegion(region, 1e-9)
+    if (regionWidth(narrowest) !== 40) return `the narrowest view was ${regionWidth(narrowest)} bases`
+
+    const whole = zoomRegion(region, 1e6)
+    if (!same(span(whole), ["17", 1, 83257441])) return `zooming out gave ${span(whole)}`
+
+    const panned = panRegion(region, 0.2)
+    if (!same(span(panned), ["17", 43020001, 43120000])) return `panning right gave ${span(panned)}`
+
+    const atStart = panRegion(parseRegion("chr17:101-1,100"), -1)
+    if (!same(span(atStart), ["17", 1, 1000])) return `panning past the start gave ${span(atStart)}`
+
+    const atEnd = panRegion(parseRegion("toy:101-150"), 2, 160)
+    return same(span(atEnd), ["toy", 111, 160]) ? null : `panning past the end gave ${span(atEnd)}`
+  })
+
+  // Test 3: A region's tracks hold its cytobands, genes with their exons and the genes' protein domains
+  await check("Test 3: Region tracks", async () => {
+    const tracks = await browser.tracks("chrtoy:1-160")
+    if (tracks.chromosome.length !== 160 || tracks.chromosome.bands.length !== 5) {
+      return `the chromosome was ${tracks.chromosome.length} bases with ${tracks.chromosome.bands.length} bands`
+    }
+    if (!same(tracks.chromosome.bands[0], { name: "p12", start: 1, end: 40, stain: "gneg" })) {
+      return `the first band was ${JSON.stringify(tracks.chromosome.bands[0])}`
+    }
+    if (!same(tracks.sources, { genes: true, cytobands: true, domains: true }) || tracks.assembly !== "TOY1") {
+      return `sources were ${JSON.stringify(tracks.sources)}, assembly ${tracks.assembly}`
+    }
+
+    const genes = tracks.genes.map((track) => [track.gene.name, track.transcripts.map((transcript) => transcript.id)])
+    if (!same(genes, [["GENEA", ["TOYT0001.2"]], ["GENEB", ["TOYT0002"]]])) return `genes were ${JSON.stringify(genes)}`
+
+    const exons = tracks.genes[0].transcripts[0].exons
+    if (!same(exons, [{ start: 11, end: 40 }, { start: 61, end: 90 }])) return `exons were ${JSON.stringify(exons)}`
+
+    const domains = tracks.genes[0].domains.map((domain) => [domain.name, domain.transcript_id, domain.start])
+    const expected = [
+      ["Other isoform domain", "TOYT0099", 1],
+      ["Toy kinase", "TOYT0001", 2],
+      ["Toy tail", null, 8],
+    ]
+    if (!same(domains, expected) || tracks.genes[1].domains.length > 0) return `domains were ${JSON.stringify(domains)}`
+
+    const right = await browser.tracks("toy:100-170")
+    if (!same(span(right.region), ["toy", 100, 160])) return `the clamped region was ${span(right.region)}`
+    const names = right.genes.map((track) => track.gene.name)
+    return same(names, ["GENEB"]) ? null : `a region right of GENEA held ${names}`
+  })
+
+  // Test 4: Genes are found by name or ID, and a browser without annotation files still draws its ruler
+  await check("Test 4: Gene lookup and missing files", async () => {
+    const genea = await browser.locate("genea")
+    if (!same(span(genea), ["toy", 3, 98])) return `GENEA was located at ${span(genea)}`
+    // GENEB and its context are narrower than the narrowest view
+    const geneb = await browser.locate("TOYG0002")
+    if (!same(span(geneb), ["toy", 108, 147])) return `GENEB was located by its ID at ${span(geneb)}`
+
+    const missing = await browser.locate("NOPE").then(
+      () => null,
+      (error) => error.statusCode,
+    )
+    if (missing !== 404) return `an unknown gene gave ${missing}`
+
+    const empty = await mkdtemp(path.join(os.tmpdir(), "genome-browser-"))
+    try {
+      const bare = browserFor(empty)
+      const tracks = await bare.tracks("chr17:43,044,295-43,125,483")
+      if (tracks.genes.length > 0 || tracks.chromosome.length !== 83257441 || tracks.sources.cytobands) {
+        return `tracks without files were ${JSON.stringify(tracks.sources)} with ${tracks.genes.length} genes`
+      }
+      const unavailable = await bare.locate("BRCA1").then(
+        () => null,
+        (error) => error.statusCode,
+      )
+      return unavailable === 503 ? null : `a lookup without gene models gave ${unavailable}`
+    } finally {
+      await rm(empty, { recursive: true, force: true })
+    }
+  })
+
+  // Test 5: Lollipops are placed at amino acids through the transcript's exons, on either strand
+  await check("Test 5: Protein coordinates", async () => {
+    const tracks = await browser.tracks("toy:1-160")
+    const [genea, geneb] = tracks.genes.map((track) => track.transcripts[0]) as TranscriptModel[]
+
+    const forward = [21, 23, 24, 40, 61, 76, 50, 10].map((position) => proteinPosition(genea, position))
+    if (!same(forward, [1, 1, 2, 7, 7, 12, null, null])) return `GENEA positions were ${forward}`
+
+    const reverse = [131, 129, 128, 114].map((position) => proteinPosition(geneb, position))
+    if (!same(reverse, [1, 1, 2, 6])) return `GENEB positions were ${reverse}`
+
+    const lengths = [proteinLength(genea), proteinLength(geneb)]
+    return same(lengths, [12, 6]) ? null : `protein lengths were ${lengths}`
+  })
+
+  // Test 6: Unreadable track files leave their track empty; malformed domain tables name the line
+  await check("Test 6: Malformed track files", async () => {
+    const directory = await mkdtemp(path.join(os.tmpdir(), "genome-browser-"))
+    try {
+      await copyFile(path.join(FIXTURE_DIR, "ensembl.gff3"), path.join(directory, "ensembl.gff3"))
+      await writeFile(path.join(directory, "cytoBand.txt"), "toy\t40\t20\tp11\tgneg\n")
+
+      const tracks = await browserFor(directory).tracks("toy:1-100")
+      if (tracks.sources.cytobands || !tracks.sources.genes || tracks.genes.length !== 1) {
+        return `a broken cytoband file gave ${JSON.stringify(tracks.sources)}`
+      }
+    } finally {
+      await rm(directory, { recursive: true, force: true })
+    }
+
+    const errors = [
+      ["gene\tstart\tend", "GENEA\t1\t5"],
+      ["gene\tname\tstart\tend", "GENEA\tKinase\t1\t5", "GENEA\tTail\t9\t3"],
+      ["symbol\tdescription\taa_start\taa_end", "", "GENEA\t\t1\t5"],
+    ].map((content) => {
+      try {
+        parseProteinDomains(content)
+        return null
+      } catch (error) {
+        return (error as Error).message.split(":")[0]
+      }
+    })
+    return same(errors, ["Line 1", "Line 3", "Line 3"]) ? null : `errors were ${errors}`
+  })
+
+  // Final result
+  if (allTestsPassed) {
+    logger.info("✅ All tests passed! Genome browser is working correctly.")
+  } else {
+    logger.error("❌ Some tests failed. Genome browser may not be working correctly.")
+    process.exitCode = 1
+  }
+}
+
+// Run the verification
+verifyGenomeBrowser().catch((error) => {
+  logger.error("Genome browser verification failed with unhandled exception", { error })
+  process.exitCode = 1
+})
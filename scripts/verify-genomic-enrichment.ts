@@ -0,0 +1,315 @@
+/**
+ * Genomic Enrichment Verification Script
+ *
+ * Enriches variants from the snapshot files in tests/fixtures/knowledge: a ClinVar VCF, a gnomAD sites VCF and an
+ * Ensembl-style GFF3 of a synthetic 160 bp genome with one gene on each strand. Checks transcript consequences and
+ * HGVS, each adapter's annotations and provenance, VCF, Beaker and JSON uploads, and unavailable or replaced
+ * snapshots.
+ */
+
+import { copyFile, mkdtemp, readFile, rm, utimes, writeFile } from "node:fs/promises"
+import os from "node:os"
+import path from "node:path"
+import {
+  GenomicEnrichmentError,
+  GenomicEnrichmentService,
+  createSnapshotAdapters,
+} from "../lib/agent/services/genomic-enrichment/service"
+import { KnowledgeSource } from "../lib/agent/services/genomic-enrichment"
+import { ClinVarAdapter } from "../lib/genomics/knowledge/clinvar"
+import { GnomadAdapter } from "../lib/genomics/knowledge/gnomad"
+import { GeneModelIndex, parseGff3 } from "../lib/genomics/gene-model"
+import { VariantUploadError } from "../lib/genomics/variant-uploads"
+import type { GenomicVariant } from "../lib/genomics/types"
+import { logger } from "../lib/logging/enhanced-logger"
+
+const FIXTURE_DIR = path.join(__dirname, "..", "tests", "fixtures", "knowledge")
+
+const row = (...columns: Array<string | number>) => columns.join("\t")
+
+const UPLOAD = [
+  "##fileformat=VCFv4.2",
+  row("#CHROM", "POS", "ID", "REF", "ALT", "QUAL", "FILTER", "INFO"),
+  row("chrtoy", 27, "rs1", "C", "T", 50, "PASS", "."),
+  row("chrtoy", 29, ".", "T", "C", 50, "PASS", "."),
+  row("chrtoy", 30, ".", "GA", "G", 50, "PASS", "."),
+  row("chrtoy", 128, ".", "C", "T", 50, "PASS", "."),
+  row("chrtoy", 9000, ".", "A", "G", 50, "PASS", "."),
+  row("chrtoy", "x", ".", "A", "G", 50, "PASS", "."),
+].join("\n")
+
+const variant = (chromosome: string, position: number, reference: string, alternate: string): GenomicVariant => ({
+  id: `${chromosome}-${position}-${reference}-${alternate}`,
+  chromosome,
+  position,
+  reference,
+  alternate,
+  gene: "",
+  consequence: "SNV",
+  significance: "uncertain",
+  frequency: 0,
+})
+
+async function verifyGenomicEnrichment() {
+  logger.info("Starting genomic enrichment verification...")
+  let allTestsPassed = true
+
+  const check = async (name: string, test: () => Promise<string | null>) => {
+    try {
+      const failure = await test()
+
+      if (failure) {
+        logger.error(`${name} Failed: ${failure}`)
+        allTestsPassed = false
+      } else {
+        logger.info(`${name} Passed`)
+      }
+    } catch (error) {
+      logger.error(`${name} Failed with exception`, { error: error instanceof Error ? error.message : error })
+      allTestsPassed = false
+    }
+  }
+
+  const same = (actual: unknown, expected: unknown) => JSON.stringify(actual) === JSON.stringify(expected)
+  const gff3 = await readFile(path.join(FIXTURE_DIR, "ensembl.gff3"), "utf8")
+  const model = await parseGff3(gff3.split("\n"))
+  const index = new GeneModelIndex(model)
+  const service = new GenomicEnrichmentService(createSnapshotAdapters(() => FIXTURE_DIR))
+
+  const effect = (position: number, reference: string, alternate: string) => {
+    const found = index.mostSevereEffect("toy", position, reference, alternate)
+    return found && [found.transcript.gene, found.consequences[0], found.hgvs_c, found.hgvs_p].join(" ")
+  }
+
+  // Test 1: Gene models, including features listed before their parents
+  await check("Test 1: GFF3 gene models", async () => {
+    const summary = model.transcripts.map((transcript) => ({
+      id: transcript.id,
+      gene: transcript.gene,
+      strand: transcript.strand,
+      canonical: transcript.canonical,
+      exons: transcript.exons.length,
+      cds: transcript.cds,
+    }))
+    const expected = [
+      { id: "TOYT0001.2", gene: "GENEA", strand: "+", canonical: true, exons: 2, cds: { start: 21, end: 76 } },
+      { id: "TOYT0002", gene: "GENEB", strand: "-", canonical: false, exons: 1, cds: { start: 114, end: 131 } },
+    ]
+    if (!same(summary, expected)) return `transcripts were ${JSON.stringify(summary)}`
+    if (model.version !== "2025-01" || model.assembly !== "TOY1") {
+      return `provenance was ${model.version}/${model.assembly}`
+    }
+    return model.reference?.("toy", 21, 23) === "ATG" ? null : "##FASTA sequence was not read"
+  })
+
+  // Test 2: Coding, splice, intronic and UTR consequences with HGVS on the forward strand
+  await check("Test 2: Forward strand consequences", async () => {
+    const effects = [
+      effect(27, "C", "T"),
+      effect(33, "C", "T"),
+      effect(29, "T", "C"),
+      effect(21, "A", "G"),
+      effect(42, "T", "A"),
+      effect(49, "T", "G"),
+      effect(58, "C", "T"),
+      effect(14, "A", "G"),
+      effect(80, "T", "C"),
+      effect(5, "C", "G"),
+    ]
+    const expected = [
+      "GENEA missense_variant c.7C>T p.(Arg3Cys)",
+      "GENEA stop_gained c.13C>T p.(Gln5Ter)",
+      "GENEA synonymous_variant c.9T>C p.(Arg3=)",
+      "GENEA start_lost c.1A>G p.(Met1?)",
+      "GENEA splice_donor_variant c.20+2T>A ",
+      "GENEA intron_variant c.20+9T>G ",
+      "GENEA splice_region_variant c.21-3C>T ",
+      "GENEA 5_prime_UTR_variant c.-7A>G ",
+      "GENEA 3_prime_UTR_variant c.*4T>C ",
+      "GENEA upstream_gene_variant  ",
+    ]
+    const wrong = effects.map((actual, i) => (actual === expected[i] ? null : `${actual} (expected ${expected[i]})`))
+    return wrong.filter(Boolean).join("; ") || null
+  })
+
+  // Test 3: Indels are shifted 3' for HGVS and duplications recognized
+  await check("Test 3: Indel HGVS", async () => {
+    const effects = [effect(30, "GA", "G"), effect(30, "G", "GA"), effect(30, "G", "GTTT"), effect(24, "GCTC", "G")]
+    const expected = [
+      "GENEA frameshift_variant c.12del ",
+      "GENEA frameshift_variant c.12dup ",
+      "GENEA inframe_insertion c.10_11insTTT ",
+      "GENEA inframe_deletion c.5_7del ",
+    ]
+    const wrong = effects.map((actual, i) => (actual === expected[i] ? null : `${actual} (expected ${expected[i]})`))
+    return wrong.filter(Boolean).join("; ") || null
+  })
+
+  // Test 4: The reverse strand complements alleles and counts from the other end
+  await check("Test 4: Reverse strand consequences", async () => {
+    const effects = [effect(128, "C", "T"), effect(136, "C", "A"), effect(131, "T", "C")]
+    const expected = [
+      "GENEB missense_variant c.4G>A p.(Asp2Asn)",
+      "GENEB 5_prime_UTR_variant c.-5G>T ",
+      "GENEB start_lost c.1A>G p.(Met1?)",
+    ]
+    const wrong = effects.map((actual, i) => (actual === expected[i] ? null : `${actual} (expected ${expected[i]})`))
+    return wrong.filter(Boolean).join("; ") || null
+  })
+
+  // Test 5: ClinVar and gnomAD annotations and provenance
+  await check("Test 5: ClinVar and gnomAD adapters", async () => {
+    const clinvar = new ClinVarAdapter(() => FIXTURE_DIR)
+    const gnomad = new GnomadAdapter(() => FIXTURE_DIR)
+    const [clinvarSnapshot, gnomadSnapshot] = [await clinvar.load(), await gnomad.load()]
+
+    if (clinvarSnapshot?.version !== "2025-09-14" || clinvarSnapshot.records !== 3) {
+      return `ClinVar provenance was ${JSON.stringify(clinvarSnapshot)}`
+    }
+    if (gnomadSnapshot?.version !== "test-1" || !/^[0-9a-f]{64}$/.test(gnomadSnapshot.sha256)) {
+      return `gnomAD provenance was ${JSON.stringify(gnomadSnapshot)}`
+    }
+
+    const pathogenic = clinvar.annotate(variant("toy", 27, "C", "T"))
+    if (
+      pathogenic?.significance !== "pathogenic" ||
+      pathogenic.stars !== 2 ||
+      !same(pathogenic.conditions, ["Toy syndrome"]) ||
+      pathogenic.variation_id !== "900001"
+    ) {
+      return `ClinVar annotation was ${JSON.stringify(pathogenic)}`
+    }
+    if (clinvar.annotate(variant("toy", 29, "T", "C"))?.stars !== 3) return "expert panel review was not 3 stars"
+
+    // gnomAD writes chrtoy, the upload writes toy; Finnish frequencies are left out of popmax
+    const common = gnomad.annotate(variant("toy", 29, "T", "C"))
+    const expected = {
+      af: 0.12,
+      ac: 2400,
+      an: 20000,
+      homozygotes: 150,
+      popmax: { population: "afr", af: 0.3 },
+      populations: { afr: 0.3, nfe: 0.1, fin: 0.5 },
+      snapshot_version: "test-1",
+    }
+    return same(common, expected) ? null : `gnomAD annotation was ${JSON.stringify(common)}`
+  })
+
+  // Test 6: A VCF upload is enriched from every source, with line errors and per-source counts
+  await check("Test 6: VCF enrichment", async () => {
+    const result = await service.enrichUpload({ data: UPLOAD, format: "vcf", sources: Object.values(KnowledgeSource) })
+
+    if (result.variantCount !== 5 || result.enrichedVariantCount !== 4) {
+      return `enriched ${result.enrichedVariantCount} of ${result.variantCount} variants`
+    }
+    if (result.errorCount !== 1 || result.errors[0]?.line !== 8) return `errors were ${JSON.stringify(result.errors)}`
+
+    const counts = result.sources.map((report) => `${report.source}:${report.status}:${report.annotatedCount}`)
+    if (!same(counts, ["clinvar:applied:3", "gnomad:applied:2", "ensembl:applied:4"])) return `sources were ${counts}`
+
+    const [missense, , frameshift] = result.variants
+    const shown = {
+      gene: missense.gene,
+      consequence: missense.consequence,
+      significance: missense.significance,
+      frequency: missense.frequency,
+      hgvs: missense.hgvs,
+      rsid: missense.rsid,
+    }
+    const expected = {
+      gene: "GENEA",
+      consequence: "missense_variant",
+      significance: "pathogenic",
+      frequency: 0.00001,
+      hgvs: "c.7C>T",
+      rsid: "rs1",
+    }
+    if (!same(shown, expected)) return `missense variant was ${JSON.stringify(shown)}`
+    if (frameshift.significance !== "likely_pathogenic" || frameshift.hgvs !== "c.12del") {
+      return `frameshift was ${frameshift.significance} ${frameshift.hgvs}`
+    }
+
+    // The ACMG/AMP tier sits beside the asserted significance rather than replacing it
+    const tiers = [missense, frameshift].map((variant) => variant.classification?.tier)
+    if (!same(tiers, ["uncertain", "likely_pathogenic"])) return `ACMG tiers were ${tiers}`
+    return Object.keys(result.variants[4].annotations).length === 0 ? null : "a distant variant was annotated"
+  })
+
+  // Test 7: Beaker report tables and JSON lists, with selected sources only
+  await check("Test 7: Beaker and JSON uploads", async () => {
+    const beaker = [
+      "Genomic Report - Hereditary Panel",
+      "Patient: TEST, PATIENT",
+      "",
+      ["Gene", "Chromosome", "Position", "Ref Allele", "Alt Allele", "HGVS c."].join("\t"),
+      ["GENEA", "toy", "27", "C", "T", "c.7C>T"].join("\t"),
+      ["GENEA", "toy", "29", "T", "X", ""].join("\t"),
+    ].join("\n")
+    const fromBeaker = await service.enrichUpload({ data: beaker, format: "beaker", sources: ["clinvar"] })
+    if (fromBeaker.variantCount !== 1 || fromBeaker.errors[0]?.line !== 6 || fromBeaker.sources.length !== 1) {
+      return `Beaker upload gave ${JSON.stringify({ ...fromBeaker, variants: fromBeaker.variants.length })}`
+    }
+    if (fromBeaker.variants[0].significance !== "pathogenic" || fromBeaker.variants[0].annotations.ensembl) {
+      return "Beaker variant was not enriched from ClinVar alone"
+    }
+
+    const json = JSON.stringify({ variants: [{ chrom: "chrtoy", pos: 128, ref: "C", alt: "T" }, { chrom: "toy" }] })
+    const fromJson = await service.enrichUpload({ data: json, format: "json", sources: ["ensembl"] })
+    const jsonError = fromJson.errors[0]?.message
+    if (fromJson.variants[0]?.hgvs !== "c.4G>A" || jsonError !== 'Variant 2: position "" is not a positive integer') {
+      return `JSON upload gave ${JSON.stringify(fromJson)}`
+    }
+
+    const rejected = await Promise.all(
+      [
+        { data: "no table here", format: "beaker" },
+        { data: "{", format: "json" },
+        { data: UPLOAD, format: "vcf", sources: ["omim"] },
+        { data: UPLOAD, format: "bam" },
+      ].map((request) => service.enrichUpload(request).then(() => null, (error) => error)),
+    )
+    const kinds = rejected.map((error) => error?.name)
+    const expected = ["VariantUploadError", "VariantUploadError", "GenomicEnrichmentError", "GenomicEnrichmentError"]
+    return same(kinds, expected) && rejected[0] instanceof VariantUploadError ? null : `rejections were ${kinds}`
+  })
+
+  // Test 8: Missing snapshots leave a source unavailable; replaced snapshots are reloaded
+  await check("Test 8: Snapshot availability and reloads", async () => {
+    const directory = await mkdtemp(path.join(os.tmpdir(), "knowledge-"))
+    try {
+      const partial = new GenomicEnrichmentService(createSnapshotAdapters(() => directory))
+      const none = await partial.enrichUpload({ data: UPLOAD, format: "vcf" }).then(() => null, (error) => error)
+      if (!(none instanceof GenomicEnrichmentError) || none.statusCode !== 503) return "no snapshots did not fail"
+
+      await copyFile(path.join(FIXTURE_DIR, "clinvar.vcf"), path.join(directory, "clinvar.vcf"))
+      const first = await partial.enrichUpload({ data: UPLOAD, format: "vcf" })
+      const statuses = first.sources.map((report) => report.status)
+      if (!same(statuses, ["applied", "unavailable", "unavailable"])) return `statuses were ${statuses}`
+      if (first.sources[1].message !== "No snapshot is installed") return `message was ${first.sources[1].message}`
+
+      const clinvar = await readFile(path.join(directory, "clinvar.vcf"), "utf8")
+      await writeFile(path.join(directory, "clinvar.vcf"), clinvar.replace("2025-09-14", "2025-10-05"))
+      await utimes(path.join(directory, "clinvar.vcf"), new Date(), new Date(Date.now() + 60000))
+      const second = await partial.enrichUpload({ data: UPLOAD, format: "vcf" })
+
+      const versions = [first, second].map((result) => result.variants[0].annotations.clinvar?.snapshot_version)
+      return same(versions, ["2025-09-14", "2025-10-05"]) ? null : `versions were ${versions}`
+    } finally {
+      await rm(directory, { recursive: true, force: true })
+    }
+  })
+
+  // Final result
+  if (allTestsPassed) {
+    logger.info("✅ All tests passed! Genomic enrichment is working correctly.")
+  } else {
+    logger.error("❌ Some tests failed. Genomic enrichment may not be working correctly.")
+    process.exitCode = 1
+  }
+}
+
+// Run the verification
+verifyGenomicEnrichment().catch((error) => {
+  logger.error("Genomic enrichment verification failed with unhandled exception", { error })
+  process.exitCode = 1
+})
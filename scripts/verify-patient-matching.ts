@@ -0,0 +1,250 @@
+/**
+ * Patient Matching Verification Script
+ *
+ * Scores demographic pairs with the probabilistic matcher, turns VCF SAMPLE headers and lab report headers into
+ * source records, then loads the mock FHIR server's patients alongside them and resolves the proposed duplicates,
+ * checking merges, the audit trail and that rejected pairs stay rejected.
+ */
+
+import { startMockFhirServer } from "./mock-fhir-server"
+import { FhirClient } from "../lib/fhir/fhir-client"
+import {
+  ConflictResolutionError,
+  ConflictResolutionService,
+  parseIngestRequest,
+} from "../lib/matching/conflict-resolution"
+import { InMemoryPatientMatchStore } from "../lib/matching/match-store"
+import { candidatePairs, matchPatients, soundex, type PatientDemographics } from "../lib/matching/patient-matcher"
+import { fromLabReport, fromVcfHeader, parsePersonName } from "../lib/matching/source-records"
+import { logger } from "../lib/logging/enhanced-logger"
+
+const MARIA: PatientDemographics = {
+  family: "Alvarez",
+  given: ["Maria", "Elena"],
+  birthDate: "1968-04-12",
+  gender: "female",
+  identifiers: [{ value: "MRN-204817" }],
+  postalCode: "53703",
+}
+
+const VCF_HEADER = [
+  "##fileformat=VCFv4.2",
+  '##SAMPLE=<ID=TUMOR01,Name="ALVAREZ, Maria",DOB=19680412,Sex=F,MRN=MRN-204817>',
+  '##SAMPLE=<ID=NORMAL01,Name="ALVAREZ, Maria",DOB=19680412,Sex=F>',
+  "##SAMPLE=<ID=CTRL,Description=Reference control>",
+  "#CHROM\tPOS\tID\tREF\tALT\tQUAL\tFILTER\tINFO\tFORMAT\tTUMOR01\tNORMAL01",
+].join("\n")
+
+async function verifyPatientMatching() {
+  logger.info("Starting patient matching verification...")
+  let allTestsPassed = true
+
+  const mock = await startMockFhirServer()
+  const client = new FhirClient({ baseUrl: mock.url })
+
+  const check = async (name: string, test: () => Promise<string | null>) => {
+    try {
+      const failure = await test()
+
+      if (failure) {
+        logger.error(`${name} Failed: ${failure}`)
+        allTestsPassed = false
+      } else {
+        logger.info(`${name} Passed`)
+      }
+    } catch (error) {
+      logger.error(`${name} Failed with exception`, { error: error instanceof Error ? error.message : error })
+      allTestsPassed = false
+    }
+  }
+
+  const expectError = async (action: Promise<unknown>, status: number, fragment = "") => {
+    try {
+      await action
+      return `expected a ${status}`
+    } catch (error) {
+      if (!(error instanceof ConflictResolutionError) || error.statusCode !== status) {
+        return `expected ${status}: ${error}`
+      }
+      return error.message.includes(fragment) ? null : `failed with "${error.message}"`
+    }
+  }
+
+  // Test 1: Agreeing records score as probable matches, typos count as partial agreement, strangers do not match
+  await check("Test 1: Match scoring", async () => {
+    const same = matchPatients(MARIA, { ...MARIA, given: ["Maria"], postalCode: undefined })
+    if (same.classification !== "probable" || same.score < 0.99) return `identical records scored ${same.score}`
+
+    const typo = matchPatients(MARIA, { family: "Alvarex", given: ["Marie"], birthDate: "1968-12-04" })
+    const outcome = (field: string) => typo.fields.find((comparison) => comparison.field === field)?.outcome
+    if (outcome("family") !== "partial" || outcome("birthDate") !== "partial") {
+      return `typo outcomes were family ${outcome("family")}, birthDate ${outcome("birthDate")}`
+    }
+
+    const relative = matchPatients(MARIA, {
+      family: "Alvarez",
+      given: ["Jorge"],
+      birthDate: "1939-07-08",
+      gender: "male",
+      identifiers: [{ value: "MRN-118093" }],
+    })
+    if (relative.classification !== null) return `a relative scored ${relative.score}`
+
+    const otherSystems = matchPatients(
+      { ...MARIA, identifiers: [{ system: "urn:hospital-a", value: "100" }] },
+      { ...MARIA, identifiers: [{ system: "urn:hospital-b", value: "200" }] },
+    )
+    if (otherSystems.fields[0].outcome !== "missing") return "identifiers from different systems were compared"
+
+    return soundex("Robert") === "R163" && soundex("Ashcraft") === "A261" ? null : "soundex codes were wrong"
+  })
+
+  // Test 2: Only records that share a blocking key are compared
+  await check("Test 2: Blocking", async () => {
+    const pairs = candidatePairs([
+      { id: "b", demographics: MARIA },
+      { id: "a", demographics: { family: "Alvares", given: ["M"], birthDate: "1968-01-01" } },
+      { id: "c", demographics: { family: "Nakamura", given: ["Aiko"], birthDate: "1990-02-21" } },
+    ])
+
+    const keys = pairs.map(([left, right]) => `${left.id}-${right.id}`).join(",")
+    return keys === "a-b" ? null : `candidate pairs were [${keys}]`
+  })
+
+  // Test 3: VCF SAMPLE lines and lab report headers become source records
+  await check("Test 3: Source adapters", async () => {
+    const samples = fromVcfHeader(VCF_HEADER, "run-42.vcf")
+    if (samples.map((sample) => sample.source_id).join(",") !== "run-42.vcf#TUMOR01,run-42.vcf#NORMAL01") {
+      return `VCF samples were ${JSON.stringify(samples)}`
+    }
+
+    const tumor = samples[0].demographics
+    if (tumor.family !== "ALVAREZ" || tumor.birthDate !== "1968-04-12" || tumor.gender !== "female") {
+      return `VCF demographics were ${JSON.stringify(tumor)}`
+    }
+
+    const lab = fromLabReport({ reportId: "LR-9", name: "Chen^Wei", birthDate: "11/30/1954", sex: "M" })
+    if (lab.demographics.family !== "Chen" || lab.demographics.birthDate !== "1954-11-30") {
+      return `lab demographics were ${JSON.stringify(lab.demographics)}`
+    }
+
+    const name = parsePersonName("Aiko Nakamura")
+    return name.family === "Nakamura" && name.given?.join(" ") === "Aiko" ? null : `parsed ${JSON.stringify(name)}`
+  })
+
+  const service = new ConflictResolutionService(new InMemoryPatientMatchStore())
+
+  // Test 4: EHR patients, a VCF and lab reports are matched against each other
+  await check("Test 4: Ingest and propose", async () => {
+    await service.importFhirPatients(client)
+    const result = await service.ingest(
+      parseIngestRequest({
+        vcf: VCF_HEADER,
+        file_name: "run-42.vcf",
+        lab_reports: [
+          { reportId: "LR-7", name: "Alvarez, Maria E", birthDate: "1968-12-04", sex: "F", mrn: "MRN-204817" },
+          { reportId: "LR-9", name: "Chen^Wei", birthDate: "11/30/1954", sex: "M" },
+        ],
+      }),
+    )
+
+    if (result.records !== 8) return `${result.records} records were stored`
+
+    const proposals = await service.list()
+    const pairs = proposals.map((proposal) => `${proposal.left_record_id}|${proposal.right_record_id}`)
+    const expected = [
+      `fhir:${mock.url}/Patient/pat-1001|vcf:run-42.vcf#TUMOR01`,
+      `fhir:${mock.url}/Patient/pat-1001|lab:LR-7`,
+      `fhir:${mock.url}/Patient/pat-1002|lab:LR-9`,
+    ]
+
+    const missing = expected.filter((pair) => !pairs.includes(pair))
+    if (missing.length > 0) return `missing proposals ${missing.join(", ")} in [${pairs.join(", ")}]`
+    if (pairs.some((pair) => pair.includes("pat-1003"))) return "Jorge Alvarez was proposed as a duplicate"
+
+    const scores = proposals.map((proposal) => proposal.score)
+    return scores.every((score, index) => index === 0 || scores[index - 1] >= score) ? null : "not sorted by score"
+  })
+
+  // Test 5: Merges need a decision for every conflicting field, and record the choices in the audit trail
+  await check("Test 5: Merge with field choices", async () => {
+    const proposals = await service.list()
+    const labMerge = proposals.find((proposal) => proposal.right_record_id === "lab:LR-7")!
+
+    const refused =
+      (await expectError(service.resolve(labMerge.id, { action: "merge" }, "ada@example.org"), 400, "birthDate")) ||
+      (await expectError(service.resolve(labMerge.id, { action: "combine" }, "ada@example.org"), 400)) ||
+      (await expectError(service.resolve("missing", { action: "defer" }, "ada@example.org"), 404))
+    if (refused) return refused
+
+    const merged = await service.resolve(
+      labMerge.id,
+      { action: "merge", choices: { birthDate: "left", given: "right" }, note: "Same MRN" },
+      "ada@example.org",
+    )
+    if (merged.status !== "merged" || merged.merged_demographics?.birthDate !== "1968-04-12") {
+      return `merge stored ${JSON.stringify(merged.merged_demographics)}`
+    }
+
+    const [entry] = await service.audit(labMerge.id)
+    const birthDate = entry?.decisions.find((decision) => decision.field === "birthDate")
+    if (entry?.actor !== "ada@example.org" || entry.note !== "Same MRN" || birthDate?.chosen !== "1968-04-12") {
+      return `audit entry was ${JSON.stringify(entry)}`
+    }
+
+    return expectError(service.resolve(labMerge.id, { action: "defer" }, "ada@example.org"), 409)
+  })
+
+  // Test 6: Merging links whole groups, closing proposals the merge already settles
+  await check("Test 6: Linked records", async () => {
+    const tumor = (await service.list()).find((proposal) => proposal.right_record_id === "vcf:run-42.vcf#TUMOR01")
+    if (!tumor) return "the tumor sample proposal was not open"
+
+    await service.resolve(tumor.id, { action: "merge", choices: { family: "left", given: "left" } }, "ada@example.org")
+
+    const labTumor = (await service.list(["merged"])).find(
+      (proposal) => proposal.left_record_id === "lab:LR-7" && proposal.right_record_id === "vcf:run-42.vcf#TUMOR01",
+    )
+    if (!labTumor) return "the lab report and tumor sample proposal was not closed by the merge"
+
+    const [entry] = await service.audit(labTumor.id)
+    return entry?.note === `Linked by the merge of proposal ${tumor.id}` ? null : `audit entry was ${entry?.note}`
+  })
+
+  // Test 7: Pairs marked as different patients are not proposed again on rescans; deferred ones stay open
+  await check("Test 7: Rejected pairs stay rejected", async () => {
+    const chen = (await service.list()).find((proposal) => proposal.right_record_id === "lab:LR-9")!
+    await service.resolve(chen.id, { action: "not_duplicate", note: "Different Wei Chen" }, "ada@example.org")
+
+    const normal = (await service.list()).find((proposal) => proposal.right_record_id.includes("NORMAL01"))
+    if (normal) await service.resolve(normal.id, { action: "defer" }, "ada@example.org")
+
+    await service.importFhirPatients(client)
+    const open = await service.list()
+
+    if (open.some((proposal) => proposal.id === chen.id)) return "the rejected pair was proposed again"
+    if (normal && open.find((proposal) => proposal.id === normal.id)?.status !== "deferred") {
+      return "the deferred proposal was reopened or dropped"
+    }
+
+    const trail = await service.audit()
+    const newestFirst = trail.every((entry, index) => index === 0 || trail[index - 1].created_at >= entry.created_at)
+    return trail.length >= 4 && newestFirst ? null : `audit trail had ${trail.length} entries`
+  })
+
+  await mock.close()
+
+  // Final result
+  if (allTestsPassed) {
+    logger.info("✅ All tests passed! Patient matching is working correctly.")
+  } else {
+    logger.error("❌ Some tests failed. Patient matching may not be working correctly.")
+    process.exitCode = 1
+  }
+}
+
+// Run the verification
+verifyPatientMatching().catch((error) => {
+  logger.error("Patient matching verification failed with unhandled exception", { error })
+  process.exitCode = 1
+})
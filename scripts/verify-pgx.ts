@@ -0,0 +1,236 @@
+/**
+ * Pharmacogenomics Verification Script
+ *
+ * Calls star alleles, diplotypes and phenotypes for the core pharmacogenes from a fixture VCF and variations of it.
+ * Checks activity scores, phased haplotypes, ambiguous and uncallable genes, the guideline recommendations, the
+ * drug–gene interaction flags on medication orders and the validation of uploads.
+ */
+
+import { readFile } from "node:fs/promises"
+import path from "node:path"
+import { gzipSync } from "node:zlib"
+import type { MedicationSummary } from "../lib/fhir/fhir-transformer"
+import { drugGeneInteractions } from "../lib/genomics/pgx/interactions"
+import { PharmacogenomicsService } from "../lib/genomics/pgx/service"
+import { InMemoryPgxReportStore } from "../lib/genomics/pgx/store"
+import type { GeneCall, PgxReport } from "../lib/genomics/pgx/types"
+import { logger } from "../lib/logging/enhanced-logger"
+
+const FIXTURE = path.join(__dirname, "..", "tests", "fixtures", "pgx", "sample.vcf")
+
+const medication = (id: string, display: string, status = "active"): MedicationSummary => ({
+  id,
+  display,
+  status,
+  code: { display, codings: [{ system: "http://www.nlm.nih.gov/research/umls/rxnorm", display }] },
+})
+
+async function verifyPgx() {
+  logger.info("Starting pharmacogenomics verification...")
+  let allTestsPassed = true
+
+  const vcf = await readFile(FIXTURE, "utf8")
+  const service = new PharmacogenomicsService(new InMemoryPgxReportStore())
+
+  const check = async (name: string, test: () => Promise<string | null>) => {
+    try {
+      const failure = await test()
+
+      if (failure) {
+        logger.error(`${name} Failed: ${failure}`)
+        allTestsPassed = false
+      } else {
+        logger.info(`${name} Passed`)
+      }
+    } catch (error) {
+      logger.error(`${name} Failed with exception`, { error: error instanceof Error ? error.message : error })
+      allTestsPassed = false
+    }
+  }
+
+  const same = (actual: unknown, expected: unknown) => JSON.stringify(actual) === JSON.stringify(expected)
+  const statusOf = (action: () => Promise<unknown>) =>
+    action().then(
+      () => null,
+      (error) => error.statusCode,
+    )
+  const gene = (report: PgxReport, name: string) => report.genes.find((call) => call.gene === name) as GeneCall
+  /** The fixture with one record's genotype replaced */
+  const withGenotype = (id: string, genotype: string) =>
+    vcf.replace(new RegExp(`(\\t${id}\\t.*\\t)[^\\t]+:40$`, "m"), `$1${genotype}:40`)
+
+  const report = await service.genotype({ patient_id: "pat-1", data: vcf, file_name: "sample.vcf" }, "user-ada")
+
+  // Test 1: Diplotypes are called for every core pharmacogene
+  await check("Test 1: Star-allele diplotypes", async () => {
+    const diplotypes = report.genes.map((call) => [call.gene, call.diplotype])
+    const expected = [
+      ["CYP2C19", "*2/*17"],
+      ["CYP2D6", "*4/*10"],
+      ["TPMT", "*1/*3A"],
+      ["DPYD", "Reference/c.2846A>T"],
+      ["SLCO1B1", "*5/*37"],
+    ]
+    if (!same(diplotypes, expected)) return `diplotypes were ${JSON.stringify(diplotypes)}`
+    if (report.sample !== "PGX-01" || report.recordCount !== 12) return `read ${report.sample}, ${report.recordCount}`
+
+    const observed = gene(report, "CYP2D6").observed.map((variant) => [variant.id, variant.dosage])
+    if (!same(observed, [["rs1135840", 2], ["rs3892097", 1], ["rs1065852", 2]])) {
+      return `CYP2D6 observed ${JSON.stringify(observed)}`
+    }
+    return null
+  })
+
+  // Test 2: Phenotypes come from allele functions or activity scores
+  await check("Test 2: Phenotypes and activity scores", async () => {
+    const phenotypes = report.genes.map((call) => [call.phenotype, call.activity_score])
+    const expected = [
+      ["Intermediate Metabolizer", null],
+      ["Intermediate Metabolizer", 0.25],
+      ["Intermediate Metabolizer", null],
+      ["Intermediate Metabolizer", 1.5],
+      ["Decreased Function", null],
+    ]
+    if (!same(phenotypes, expected)) return `phenotypes were ${JSON.stringify(phenotypes)}`
+
+    const reference = await service.genotype({ patient_id: "pat-2", data: vcf.split("\nchr1\t")[0] + "\n" }, null)
+    const uncovered = reference.genes.map((call) => call.status)
+    if (uncovered.some((status) => status !== "not_covered")) return `a file without records gave ${uncovered}`
+
+    const normal = await service.genotype(
+      { patient_id: "pat-2", data: withGenotype("rs3892097", "0/0").replace(/\t1\/1:40/g, "\t0/0:40") },
+      null,
+    )
+    const cyp2d6 = gene(normal, "CYP2D6")
+    if (cyp2d6.diplotype !== "*1/*1" || cyp2d6.activity_score !== 2 || cyp2d6.phenotype !== "Normal Metabolizer") {
+      return `reference CYP2D6 was ${cyp2d6.diplotype} ${cyp2d6.activity_score} ${cyp2d6.phenotype}`
+    }
+    return cyp2d6.message?.includes("deletions (*5)") ? null : "CYP2D6 did not note the structural alleles it misses"
+  })
+
+  // Test 3: Phased genotypes are matched per haplotype, unphased ones by dosage
+  await check("Test 3: Phased haplotypes", async () => {
+    const unphased = await service.genotype(
+      { patient_id: "pat-3", data: withGenotype("rs2306283", "0/1").replace("\t0|1:40", "\t0/1:40") },
+      null,
+    )
+    const slco1b1 = gene(unphased, "SLCO1B1")
+    if (slco1b1.diplotype !== "*1/*15") return `unphased SLCO1B1 was ${slco1b1.diplotype}`
+
+    const cis = await service.genotype({ patient_id: "pat-3", data: withGenotype("rs2306283", "0|1") }, null)
+    const phased = gene(cis, "SLCO1B1")
+    if (phased.diplotype !== "*1/*15" || phased.phenotype !== "Decreased Function") {
+      return `phased in cis SLCO1B1 was ${phased.diplotype} ${phased.phenotype}`
+    }
+    return gene(report, "SLCO1B1").observed.every((variant) => variant.phased) ? null : "phase was not kept"
+  })
+
+  // Test 4: Ambiguous, uncalled and unexplained genotypes are reported instead of guessed
+  await check("Test 4: Ambiguous and indeterminate calls", async () => {
+    const tpmt = gene(report, "TPMT")
+    if (tpmt.status !== "ambiguous" || !same(tpmt.alternatives, ["*3B/*3C"])) {
+      return `TPMT was ${tpmt.status} with ${tpmt.alternatives}`
+    }
+    if (!tpmt.message?.includes("Also consistent with *3B/*3C")) return `TPMT message was ${tpmt.message}`
+
+    const cyp2c19 = gene(report, "CYP2C19")
+    if (cyp2c19.status !== "called" || !same(cyp2c19.missing, ["rs28399504", "rs4986893"])) {
+      return `CYP2C19 was ${cyp2c19.status}, missing ${cyp2c19.missing}`
+    }
+
+    const noCall = await service.genotype({ patient_id: "pat-4", data: withGenotype("rs4244285", "./.") }, null)
+    const uncalled = gene(noCall, "CYP2C19")
+    if (uncalled.status !== "indeterminate" || !same(uncalled.no_calls, ["rs4244285"]) || uncalled.diplotype) {
+      return `a no-call gave ${uncalled.status} ${uncalled.diplotype}`
+    }
+    if (uncalled.recommendations.length > 0) return "an indeterminate gene had recommendations"
+
+    const unexplained = await service.genotype(
+      { patient_id: "pat-4", data: withGenotype("rs1065852", "0/0").replace("\t1/1:40", "\t0/0:40") },
+      null,
+    )
+    const cyp2d6 = gene(unexplained, "CYP2D6")
+    return cyp2d6.status === "indeterminate" && cyp2d6.message?.includes("c.506-1G>A (rs3892097)")
+      ? null
+      : `an allele outside the tables gave ${cyp2d6.status}: ${cyp2d6.message}`
+  })
+
+  // Test 5: Phenotypes map to the guideline recommendations and flag the medication orders they affect
+  await check("Test 5: Recommendations and drug-gene flags", async () => {
+    const clopidogrel = gene(report, "CYP2C19").recommendations.find((item) => item.drug === "clopidogrel")
+    if (clopidogrel?.action !== "avoid" || clopidogrel.strength !== "strong") {
+      return `clopidogrel was ${JSON.stringify(clopidogrel)}`
+    }
+
+    const interactions = drugGeneInteractions(report, [
+      medication("med-1", "Simvastatin 40 MG Oral Tablet"),
+      medication("med-2", "Clopidogrel 75 MG Oral Tablet"),
+      medication("med-3", "Lisinopril 10 MG Oral Tablet"),
+      medication("med-4", "Xeloda 500 MG Oral Tablet"),
+      medication("med-5", "Codeine Phosphate 30 MG Oral Tablet", "stopped"),
+      medication("med-6", "Citalopram 20 MG Oral Tablet"),
+      medication("med-7", "Zocortin cream"),
+    ])
+    const flags = interactions.map((item) => [item.medication_id, item.drug, item.gene, item.severity])
+    const expected = [
+      ["med-2", "clopidogrel", "CYP2C19", "high"],
+      ["med-1", "simvastatin", "SLCO1B1", "moderate"],
+      ["med-4", "capecitabine", "DPYD", "moderate"],
+    ]
+    return same(flags, expected) ? null : `flags were ${JSON.stringify(flags)}`
+  })
+
+  // Test 6: Uploads are validated, multi-sample files need a sample and reports are kept per patient
+  await check("Test 6: Upload validation and reports", async () => {
+    const twoSamples = vcf
+      .replace("\tPGX-01\n", "\tPGX-01\tPGX-02\n")
+      .replace(/(\t[^\t]+:40)$/gm, "$1\t0/0:40")
+    const noSamples = vcf
+      .replace("\tFORMAT\tPGX-01\n", "\n")
+      .replace(/\tGT:DP\t[^\t]+:40$/gm, "")
+
+    const rejected = await Promise.all([
+      statusOf(() => service.genotype({ data: vcf }, null)),
+      statusOf(() => service.genotype({ patient_id: "pat-5", data: "" }, null)),
+      statusOf(() => service.genotype({ patient_id: "pat-5", data: vcf, encoding: "hex" }, null)),
+      statusOf(() => service.genotype({ patient_id: "pat-5", data: twoSamples }, null)),
+      statusOf(() => service.genotype({ patient_id: "pat-5", data: twoSamples, sample: "PGX-03" }, null)),
+      statusOf(() => service.genotype({ patient_id: "pat-5", data: noSamples }, null)),
+      statusOf(() => service.genotype({ patient_id: "pat-5", data: "chr1\t1\t.\tA\tG" }, null)),
+    ])
+    if (!same(rejected, [400, 400, 400, 400, 400, 422, 422])) return `rejections were ${rejected}`
+
+    const second = await service.genotype({ patient_id: "pat-5", data: twoSamples, sample: "PGX-02" }, null)
+    const diplotypes = second.genes.map((call) => call.diplotype)
+    if (!same(diplotypes, ["*1/*1", "*1/*1", "*1/*1", "Reference/Reference", "*1/*1"])) {
+      return `PGX-02 was ${diplotypes}`
+    }
+
+    const compressed = await service.genotype(
+      {
+        patient_id: "pat-1",
+        data: gzipSync(Buffer.from(vcf)).toString("base64"),
+        encoding: "base64",
+      },
+      "user-ada",
+      new Date(Date.now() + 1000),
+    )
+    const reports = await service.listReports("pat-1")
+    if (!same(reports.map((item) => item.id), [compressed.id, report.id])) return "reports were not newest first"
+    return (await service.latestReport("pat-1"))?.genes[0].diplotype === "*2/*17" ? null : "latest report differed"
+  })
+
+  // Final result
+  if (allTestsPassed) {
+    logger.info("✅ All tests passed! Pharmacogenomics is working correctly.")
+  } else {
+    logger.error("❌ Some tests failed. Pharmacogenomics may not be working correctly.")
+    process.exitCode = 1
+  }
+}
+
+// Run the verification
+verifyPgx().catch((error) => {
+  logger.error("Pharmacogenomics verification failed with unhandled exception", { error })
+  process.exitCode = 1
+})
@@ -0,0 +1,142 @@
+/**
+ * SMART on FHIR Verification Script
+ *
+ * Runs the SMART authorization flow against the mock FHIR server: discovery, PKCE code exchange,
+ * token refresh, connection status and disconnect for both standalone and EHR launches.
+ */
+
+import { startMockFhirServer } from "./mock-fhir-server"
+import { FhirClient, type FhirPatient } from "../lib/fhir/fhir-client"
+import { SmartAuthError, SmartAuthManager, discoverSmartConfiguration } from "../lib/fhir/smart-auth"
+import { logger } from "../lib/logging/enhanced-logger"
+
+const REDIRECT_URI = "http://localhost:3000/api/fhir/auth/callback"
+
+async function verifySmartAuth() {
+  logger.info("Starting SMART on FHIR verification...")
+  let allTestsPassed = true
+
+  const mock = await startMockFhirServer({ accessToken: "unused-static-token" })
+  const manager = new SmartAuthManager({ clientId: "beaker-verify", allowedIssuers: [mock.url] })
+
+  const check = async (name: string, test: () => Promise<string | null>) => {
+    try {
+      const failure = await test()
+
+      if (failure) {
+        logger.error(`${name} Failed: ${failure}`)
+        allTestsPassed = false
+      } else {
+        logger.info(`${name} Passed`)
+      }
+    } catch (error) {
+      logger.error(`${name} Failed with exception`, { error: error instanceof Error ? error.message : error })
+      allTestsPassed = false
+    }
+  }
+
+  // Follow the authorization redirect the way a browser would and return the callback parameters
+  const authorize = async (target: SmartAuthManager, userId: string, params: { scope?: string; launch?: string }) => {
+    const { url, request } = await target.beginAuthorization({ ...params, iss: mock.url, redirectUri: REDIRECT_URI })
+    const response = await fetch(url, { redirect: "manual" })
+    const callback = new URL(response.headers.get("location") || "")
+    const record = await target.completeAuthorization(userId, request, {
+      code: callback.searchParams.get("code"),
+      state: callback.searchParams.get("state"),
+    })
+    return { url: new URL(url), request, record }
+  }
+
+  // Test 1: Discovery finds the OAuth endpoints
+  await check("Test 1: Discovery", async () => {
+    const configuration = await discoverSmartConfiguration(mock.url)
+    return configuration.token_endpoint.endsWith("/oauth/token") ? null : JSON.stringify(configuration)
+  })
+
+  // Test 2: Standalone launch with PKCE stores tokens for the user
+  await check("Test 2: Standalone launch", async () => {
+    const { url, record } = await authorize(manager, "user-1", { scope: "openid patient/*.read offline_access" })
+
+    if (url.searchParams.get("code_challenge_method") !== "S256") return "authorize URL has no PKCE challenge"
+    if (url.searchParams.get("aud") !== mock.url) return "authorize URL has no aud"
+    if (!record.scope.includes("launch/patient")) return `standalone scope was ${record.scope}`
+    if (!record.refresh_token || record.patient !== "pat-1001") return "token has no refresh token or patient context"
+    return null
+  })
+
+  // Test 3: The stored token reads from the FHIR server
+  await check("Test 3: Authorized FHIR read", async () => {
+    const client = new FhirClient({ baseUrl: mock.url, getAccessToken: () => manager.getAccessToken("user-1") })
+    const patient = await client.read<FhirPatient>("Patient", "pat-1001")
+    return patient.id === "pat-1001" ? null : "patient was not returned"
+  })
+
+  // Test 4: Tokens close to expiry are refreshed once, even with concurrent callers
+  await check("Test 4: Refresh", async () => {
+    const eager = new SmartAuthManager({
+      clientId: "beaker-verify",
+      allowedIssuers: [mock.url],
+      refreshMarginSeconds: 7200,
+    })
+    const { record } = await authorize(eager, "user-2", { scope: "patient/*.read offline_access" })
+    const [first, second] = await Promise.all([eager.getAccessToken("user-2"), eager.getAccessToken("user-2")])
+
+    if (!first || first === record.access_token) return "token was not refreshed"
+    return first === second ? null : "concurrent callers refreshed twice"
+  })
+
+  // Test 5: Status reports limited access without offline_access and disconnected after disconnect
+  await check("Test 5: Connection status", async () => {
+    await authorize(manager, "user-3", { scope: "patient/*.read" })
+    const limited = await manager.getStatus("user-3")
+    const connected = await manager.getStatus("user-1")
+    await manager.disconnect("user-1")
+    const disconnected = await manager.getStatus("user-1")
+
+    if (limited.state !== "limited") return `user without refresh token was ${limited.state}`
+    if (connected.state !== "connected") return `connected user was ${connected.state}: ${connected.reason}`
+    return disconnected.state === "disconnected" ? null : `disconnected user was ${disconnected.state}`
+  })
+
+  // Test 6: EHR launches pass the launch token and ask for the launch scope
+  await check("Test 6: EHR launch", async () => {
+    const { url, record } = await authorize(manager, "user-4", { launch: "launch-xyz" })
+    if (url.searchParams.get("launch") !== "launch-xyz") return "launch parameter missing"
+    return record.launch_type === "ehr" && record.scope.split(" ").includes("launch") ? null : record.scope
+  })
+
+  // Test 7: Mismatched state and unknown issuers are rejected
+  await check("Test 7: Rejected requests", async () => {
+    const { request } = await manager.beginAuthorization({ redirectUri: REDIRECT_URI })
+
+    try {
+      await manager.completeAuthorization("user-5", request, { code: "abc", state: "forged" })
+      return "forged state was accepted"
+    } catch (error) {
+      if (!(error instanceof SmartAuthError)) return `unexpected error ${error}`
+    }
+
+    try {
+      await manager.beginAuthorization({ iss: "https://evil.example.com/fhir", redirectUri: REDIRECT_URI })
+      return "unknown issuer was accepted"
+    } catch (error) {
+      return error instanceof SmartAuthError && error.statusCode === 403 ? null : `unexpected error ${error}`
+    }
+  })
+
+  await mock.close()
+
+  // Final result
+  if (allTestsPassed) {
+    logger.info("✅ All tests passed! SMART on FHIR authorization is working correctly.")
+  } else {
+    logger.error("❌ Some tests failed. SMART on FHIR authorization may not be working correctly.")
+    process.exitCode = 1
+  }
+}
+
+// Run the verification
+verifySmartAuth().catch((error) => {
+  logger.error("SMART on FHIR verification failed with unhandled exception", { error })
+  process.exitCode = 1
+})
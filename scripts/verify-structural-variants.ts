@@ -0,0 +1,204 @@
+/**
+ * Structural Variant Verification Script
+ *
+ * Reads the files in tests/fixtures/structural: a VCF of symbolic deletions, duplications and inversions, paired,
+ * one-sided and single breakends and a sequence-resolved deletion, and a DNAcopy-style segment table of two samples.
+ * Checks the extents read from each record, breakend pairing, segment tables in the formats segmenters write, and
+ * the circular view's genome layout.
+ */
+
+import { readFile } from "node:fs/promises"
+import path from "node:path"
+import {
+  GenomicEnrichmentService,
+  createSnapshotAdapters,
+} from "../lib/agent/services/genomic-enrichment/service"
+import { angleAt, circularLayout, variantAngles, withinAngles } from "../lib/genomics/browser/circular"
+import { parseCnvSegments, VariantUploadError } from "../lib/genomics/variant-uploads"
+import { parseVcf } from "../lib/genomics/vcf-parser"
+import { pairBreakends, toGenomicVariant } from "../lib/genomics/vcf-variants"
+import type { GenomicVariant } from "../lib/genomics/types"
+import { logger } from "../lib/logging/enhanced-logger"
+
+const FIXTURE_DIR = path.join(__dirname, "..", "tests", "fixtures", "structural")
+const KNOWLEDGE_DIR = path.join(__dirname, "..", "tests", "fixtures", "knowledge")
+
+const fixture = (name: string) => readFile(path.join(FIXTURE_DIR, name), "utf8")
+
+const row = (...columns: Array<string | number>) => columns.join("\t")
+
+async function verifyStructuralVariants() {
+  logger.info("Starting structural variant verification...")
+  let allTestsPassed = true
+
+  const check = async (name: string, test: () => Promise<string | null>) => {
+    try {
+      const failure = await test()
+
+      if (failure) {
+        logger.error(`${name} Failed: ${failure}`)
+        allTestsPassed = false
+      } else {
+        logger.info(`${name} Passed`)
+      }
+    } catch (error) {
+      logger.error(`${name} Failed with exception`, { error: error instanceof Error ? error.message : error })
+      allTestsPassed = false
+    }
+  }
+
+  const same = (actual: unknown, expected: unknown) => JSON.stringify(actual) === JSON.stringify(expected)
+
+  const parsed = await parseVcf(await fixture("structural-variants.vcf"))
+  const variants = parsed.variants.map((variant) => toGenomicVariant(variant, parsed.header))
+  const byPosition = (position: number) => variants.find((variant) => variant.position === position)
+
+  // Test 1: Symbolic alleles run to END, or SVLEN bases on, and keep the sample's copy number
+  await check("Test 1: Deletions, duplications and inversions", async () => {
+    if (parsed.errorCount > 0) return `the VCF had errors: ${JSON.stringify(parsed.errors)}`
+
+    const extents = [43044000, 127735000, 1000000, 200000].map((position) => {
+      const structural = byPosition(position)?.structural
+      return structural && [structural.type, structural.end, structural.length, structural.copyNumber]
+    })
+    const expected = [
+      ["DEL", 43125500, 81500, 1],
+      ["DUP", 127739500, 4500, 4],
+      ["INV", 1250000, 250000, null],
+      ["DEL", 200011, 11, null],
+    ]
+    if (!same(extents, expected)) return `extents were ${JSON.stringify(extents)}`
+
+    const snv = byPosition(300000)
+    if (!snv || snv.structural || snv.consequence !== "SNV") return `the SNV was read as ${JSON.stringify(snv)}`
+    const tandem = byPosition(127735000)
+    return tandem?.consequence === "DUP" && tandem.alternate === "<DUP:TANDEM>"
+      ? null
+      : `the tandem duplication was ${tandem?.consequence} ${tandem?.alternate}`
+  })
+
+  // Test 2: Breakends name the position they join in either bracket notation, and pairs become one rearrangement
+  await check("Test 2: Breakends", async () => {
+    const mates = [130714000, 23290000, 500000, 900000].map((position) => {
+      const structural = byPosition(position)?.structural
+      return structural && [structural.type, structural.mate]
+    })
+    const expected = [
+      ["BND", { chromosome: "22", position: 23290000 }],
+      ["BND", { chromosome: "9", position: 130714000 }],
+      ["BND", { chromosome: "5", position: 2000000 }],
+      ["BND", null],
+    ]
+    if (!same(mates, expected)) return `mates were ${JSON.stringify(mates)}`
+
+    const paired = pairBreakends(variants).filter((variant) => variant.structural?.type === "BND")
+    const kept = paired.map((variant) => `${variant.chromosome}:${variant.position}`)
+    if (!same(kept, ["9:130714000", "12:500000", "1:900000"])) return `breakends kept were ${kept}`
+
+    const service = new GenomicEnrichmentService(createSnapshotAdapters(() => KNOWLEDGE_DIR))
+    const upload = await service.enrichUpload({
+      data: await fixture("structural-variants.vcf"),
+      format: "vcf",
+      sources: ["clinvar"],
+    })
+    return upload.variantCount === 8 && upload.recordCount === 9 && same(upload.samples, ["TUMOR"])
+      ? null
+      : `the upload held ${upload.variantCount} variants of ${upload.recordCount} records`
+  })
+
+  // Test 3: Segment tables are read in DNAcopy, GATK and CNVkit layouts and called against a diploid baseline
+  await check("Test 3: Copy-number segments", async () => {
+    const seg = parseCnvSegments(await fixture("segments.seg"))
+    const calls = seg.variants.map((variant) => [variant.id, variant.consequence, variant.structural?.log2Ratio])
+    const expected = [
+      ["TUMOR:17-40000000-N-<CNV>-47000000", "copy_number_loss", -0.8124],
+      ["TUMOR:8-120000000-N-<CNV>-135000000", "copy_number_gain", 0.931],
+      ["TUMOR:1-1-N-<CNV>-248000000", "copy_number_neutral", 0.012],
+      ["NORMAL:17-40000000-N-<CNV>-47000000", "copy_number_neutral", 0.0031],
+    ]
+    if (!same(calls, expected)) return `segments were ${JSON.stringify(calls)}`
+    if (!same(seg.samples, ["TUMOR", "NORMAL"])) return `samples were ${seg.samples}`
+    if (seg.errorCount !== 1 || seg.errors[0].line !== 5) return `errors were ${JSON.stringify(seg.errors)}`
+
+    const gatk = parseCnvSegments(
+      [
+        row("@HD", "VN:1.6"),
+        row("@RG", "ID:GATKCopyNumber", "SM:TUMOR"),
+        row("CONTIG", "START", "END", "NUM_POINTS_COPY_RATIO", "MEAN_LOG2_COPY_RATIO", "CALL"),
+        row("chr2", 10000, 20000, 12, -1.2, "-"),
+      ].join("\n"),
+    )
+    const cnvkit = parseCnvSegments(
+      [
+        row("chromosome", "start", "end", "gene", "log2", "cn", "depth", "probes", "weight"),
+        row("chr17", 43044294, 43125483, "BRCA1,NBR2,NBR1,TMEM106A,ARL4D", -0.9, 1, 210, 80, 77),
+        row("chr17", 50000000, 40000000, "-", 0.1, 2, 210, 80, 77),
+      ].join("\n"),
+    )
+    const read = [...gatk.variants, ...cnvkit.variants].map((variant) => [
+      variant.chromosome,
+      variant.position,
+      variant.structural?.end,
+      variant.structural?.copyNumber,
+      variant.gene,
+      variant.consequence,
+    ])
+    const expectedRead = [
+      ["2", 10000, 20000, null, "", "copy_number_loss"],
+      ["17", 43044294, 43125483, 1, "BRCA1,NBR2,NBR1 +2", "copy_number_loss"],
+    ]
+    if (!same(read, expectedRead)) return `GATK and CNVkit segments were ${JSON.stringify(read)}`
+    if (cnvkit.errors[0]?.line !== 3) return `the reversed segment gave ${JSON.stringify(cnvkit.errors)}`
+
+    try {
+      parseCnvSegments("chrom\tstart\tend\tnum.mark\nchr1\t1\t100\t5")
+      return "a table without a log2 ratio or copy number was accepted"
+    } catch (error) {
+      return error instanceof VariantUploadError && error.statusCode === 422 ? null : `it threw ${error}`
+    }
+  })
+
+  // Test 4: The circular layout runs clockwise from the top in karyotype order and places spans inside their arc
+  await check("Test 4: Circular layout", async () => {
+    const layout = circularLayout()
+    const order = layout.map((arc) => arc.chromosome)
+    if (order.length !== 24 || order[0] !== "1" || order[21] !== "22" || order[23] !== "Y") return `order was ${order}`
+    if (Math.abs(layout[0].startAngle + Math.PI / 2) > 1e-9) return `chromosome 1 started at ${layout[0].startAngle}`
+
+    const last = layout[23]
+    const turn = last.endAngle - layout[0].startAngle
+    if (turn >= Math.PI * 2 || turn < Math.PI * 1.9) return `the arcs took ${turn} radians`
+    if (layout.some((arc, index) => index > 0 && arc.startAngle <= layout[index - 1].endAngle)) {
+      return "chromosome arcs overlapped"
+    }
+
+    const ends = [angleAt(layout, "17", 1), angleAt(layout, "17", 1e12), angleAt(layout, "MT", 100)]
+    const chr17 = layout[16]
+    if (!same(ends, [chr17.startAngle, chr17.endAngle, null])) return `chromosome 17 ends were ${ends}`
+
+    const deletion = variants.find((variant) => variant.id.startsWith("17-43044000")) as GenomicVariant
+    const [start, end] = variantAngles(layout, deletion)!
+    if (!(start >= chr17.startAngle && end > start && end <= chr17.endAngle)) {
+      return `the deletion spanned ${start}-${end}`
+    }
+
+    // Clicks are measured with atan2, from -π to π, so points on the last arcs read a turn lower than their layout
+    const wrapped = withinAngles(last.endAngle - Math.PI * 2 - 1e-6, last.startAngle, last.endAngle)
+    const outside = withinAngles(layout[0].startAngle - 0.001, last.startAngle, last.endAngle)
+    return wrapped && !outside ? null : `wrapping angles gave ${wrapped} and ${outside}`
+  })
+
+  // Final result
+  if (allTestsPassed) {
+    logger.info("✅ All tests passed! Structural variants are working correctly.")
+  } else {
+    logger.error("❌ Some tests failed. Structural variants may not be working correctly.")
+    process.exitCode = 1
+  }
+}
+
+// Run the verification
+verifyStructuralVariants().catch((error) => {
+  logger.error("Structural variant verification failed with unhandled exception", { error })
+  process.exitCode = 1
+})
@@ -0,0 +1,339 @@
+/**
+ * VCF Parser Verification Script
+ *
+ * Parses a small multi-sample VCF 4.3 file and checks header typing of INFO and FORMAT values, multi-allelic
+ * splitting, normalization against a reference, line-level errors, gzip and BGZF input, and the GenomicVariant
+ * records the viewer receives.
+ */
+
+import { deflateRawSync, gzipSync } from "node:zlib"
+import { VcfFormatError, parseVcf, type VcfParseResult, type VcfVariant } from "../lib/genomics/vcf-parser"
+import { createFastaReference, normalizeAllele } from "../lib/genomics/vcf-normalize"
+import { toGenomicVariant } from "../lib/genomics/vcf-variants"
+import { logger } from "../lib/logging/enhanced-logger"
+
+//                       1        10        18
+const FASTA = ">chr1 test contig\nGGATCCACACACAGTTTT\n"
+
+const row = (...columns: Array<string | number>) => columns.join("\t")
+
+const VCF = [
+  "##fileformat=VCFv4.3",
+  "##contig=<ID=chr1,length=18>",
+  '##INFO=<ID=DP,Number=1,Type=Integer,Description="Total depth">',
+  '##INFO=<ID=AF,Number=A,Type=Float,Description="Allele frequency">',
+  '##INFO=<ID=DB,Number=0,Type=Flag,Description="dbSNP membership">',
+  '##INFO=<ID=AC,Number=A,Type=Integer,Description="Allele count">',
+  '##INFO=<ID=ANN,Number=.,Type=String,Description="Functional annotations">',
+  '##INFO=<ID=CSQ,Number=.,Type=String,Description="VEP annotations. Format: Allele|Consequence|IMPACT|SYMBOL|HGVSc">',
+  '##INFO=<ID=CLNSIG,Number=.,Type=String,Description="ClinVar significance">',
+  '##INFO=<ID=NOTE,Number=1,Type=String,Description="Free text, with \\"quotes\\"">',
+  '##INFO=<ID=gnomAD_AF,Number=A,Type=Float,Description="gnomAD allele frequency">',
+  '##FORMAT=<ID=GT,Number=1,Type=String,Description="Genotype">',
+  '##FORMAT=<ID=DP,Number=1,Type=Integer,Description="Read depth">',
+  '##FORMAT=<ID=AD,Number=R,Type=Integer,Description="Allelic depths">',
+  '##FORMAT=<ID=PL,Number=G,Type=Integer,Description="Phred genotype likelihoods">',
+  '##FILTER=<ID=q10,Description="Quality below 10">',
+  row("#CHROM", "POS", "ID", "REF", "ALT", "QUAL", "FILTER", "INFO", "FORMAT", "S1", "S2", "S3"),
+  // 18: an MNV written with padding, annotated by SnpEff and ClinVar
+  row(
+    "chr1",
+    2,
+    "rs123",
+    "GATC",
+    "GTTC",
+    50,
+    "PASS",
+    "DP=40;DB;ANN=GTTC|missense_variant&splice_region_variant|MODERATE|BRCA1|ENSG1|transcript|ENST1|" +
+      "protein_coding|10/23|c.100A>T|p.Lys34Ter;CLNSIG=Pathogenic/Likely_pathogenic;gnomAD_AF=0.0002;NOTE=a%3Bb",
+    "GT:DP",
+    "0/1:20",
+    "1/1:15",
+    "./.:.",
+  ),
+  // 19: a CA deletion written at the right end of the repeat, annotated by VEP
+  row(
+    "chr1",
+    11,
+    ".",
+    "ACA",
+    "A",
+    30,
+    "q10",
+    "DP=12;CSQ=-|frameshift_variant|HIGH|TP53|ENST1:c.215del",
+    "GT",
+    "0/1",
+    "0/0",
+    "0|1",
+  ),
+  // 20: multi-allelic, an SNV and a T inserted into the poly-T run
+  row(
+    "chr1",
+    15,
+    ".",
+    "T",
+    "G,TT",
+    99,
+    "PASS",
+    "AC=3,1;AF=0.5,0.1667",
+    "GT:AD:PL",
+    "1/2:2,10,12:60,30,50,20,0,40",
+    "0/1:5,5,0:0,10,20,30,40,50",
+    "2|2:0,0,9:90,80,70,60,50,0",
+  ),
+  row("chr1", "abc", ".", "A", "G", 10, "PASS", ".", "GT", "0/1", "0/1", "0/1"),
+  row("chr1", 4, ".", "T", "C", 10, "PASS", "DP=many", "GT", "0/1", "0/1", "0/1"),
+  row("chr1", 4, ".", "T", "C", 10, "PASS", "AC=1,2", "GT", "0/1", "0/1", "0/1"),
+  row("chr1", 4, ".", "T", "C", 10, "PASS", ".", "GT", "0/1", "0/3", "0/1"),
+  row("chr1", 4, ".", "T", "C", 10, "PASS", ".", "GT", "0/1", "0/1"),
+  row("chr1", 4, ".", "T", "T", 10, "PASS", ".", "GT", "0/1", "0/1", "0/1"),
+  // 27: REF does not match the reference, which only the reference check notices
+  row("chr1", 6, ".", "A", "G", 10, "PASS", ".", "GT", "0/1", "0/1", "0/1"),
+  // 28: a reference-only site
+  row("chr1", 17, ".", "T", ".", 10, "PASS", ".", "GT", "0/0", "0/0", "0/0"),
+  // 29: a symbolic deletion, with INFO fields the header does not declare
+  row("chr1", 16, ".", "T", "<DEL>", 20, "PASS", "SVTYPE=DEL;END=18", "GT", "0/1", "./.", "0/0"),
+  "",
+].join("\n")
+
+/** BGZF block: a gzip member with the BC extra field holding the block size */
+function bgzfBlock(data: Buffer): Buffer {
+  const compressed = deflateRawSync(data)
+  const header = Buffer.from([0x1f, 0x8b, 8, 4, 0, 0, 0, 0, 0, 0xff, 6, 0, 0x42, 0x43, 2, 0, 0, 0])
+  header.writeUInt16LE(header.length + compressed.length + 8 - 1, 16)
+  // The gzip trailer of the same data is its CRC32 and length
+  return Buffer.concat([header, compressed, gzipSync(data).subarray(-8)])
+}
+
+async function* inChunks(bytes: Buffer, size: number): AsyncGenerator<Uint8Array> {
+  for (let offset = 0; offset < bytes.length; offset += size) yield bytes.subarray(offset, offset + size)
+}
+
+async function verifyVcfParser() {
+  logger.info("Starting VCF parser verification...")
+  let allTestsPassed = true
+
+  const check = async (name: string, test: () => Promise<string | null>) => {
+    try {
+      const failure = await test()
+
+      if (failure) {
+        logger.error(`${name} Failed: ${failure}`)
+        allTestsPassed = false
+      } else {
+        logger.info(`${name} Passed`)
+      }
+    } catch (error) {
+      logger.error(`${name} Failed with exception`, { error: error instanceof Error ? error.message : error })
+      allTestsPassed = false
+    }
+  }
+
+  const reference = createFastaReference(FASTA)
+  const plain = await parseVcf(VCF)
+  const aligned = await parseVcf(VCF, { reference })
+
+  const onLine = (result: VcfParseResult, line: number) => result.variants.filter((variant) => variant.line === line)
+  const same = (actual: unknown, expected: unknown) => JSON.stringify(actual) === JSON.stringify(expected)
+  const describe = (variant: VcfVariant | undefined) =>
+    variant && `${variant.chromosome}:${variant.position} ${variant.reference}>${variant.alternate}`
+
+  // Test 1: INFO and FORMAT values are typed from the header, VCF 4.3 text is percent-decoded
+  await check("Test 1: Header typing", async () => {
+    const [mnv] = onLine(plain, 18)
+    if (plain.header.samples.join(",") !== "S1,S2,S3") return `samples were ${plain.header.samples}`
+    if (plain.header.info.NOTE.description !== 'Free text, with "quotes"') return "quoted description was not unescaped"
+    if (plain.header.filters.q10 !== "Quality below 10" || plain.header.contigs.chr1?.length !== 18) {
+      return "FILTER or contig lines were not read"
+    }
+
+    const { DP, DB, NOTE, CLNSIG, gnomAD_AF } = mnv.info
+    if (DP !== 40 || DB !== true || NOTE !== "a;b" || gnomAD_AF !== 0.0002) {
+      return `INFO was ${JSON.stringify(mnv.info)}`
+    }
+    if (!same(CLNSIG, ["Pathogenic/Likely_pathogenic"])) return `CLNSIG was ${JSON.stringify(CLNSIG)}`
+
+    const s1 = mnv.genotypes.S1
+    const s3 = mnv.genotypes.S3
+    if (s1.fields.DP !== 20 || s1.zygosity !== "het" || mnv.genotypes.S2.zygosity !== "hom_alt") {
+      return `genotypes were ${JSON.stringify(mnv.genotypes)}`
+    }
+    if (s3.zygosity !== "no_call" || s3.fields.DP !== null) return `S3 was ${JSON.stringify(s3)}`
+
+    const [deletion] = onLine(plain, 19)
+    return same(deletion.filters, ["q10"]) && deletion.genotypes.S3.phased ? null : "FILTER or phasing was lost"
+  })
+
+  // Test 2: Multi-allelic records split into one variant per ALT, with A, R and G values and genotypes per allele
+  await check("Test 2: Multi-allelic splitting", async () => {
+    const [snv, insertion] = onLine(plain, 20)
+    if (!snv || !insertion) return `line 20 gave ${onLine(plain, 20).length} variants`
+    if (snv.alleleIndex !== 1 || insertion.alleleIndex !== 2 || insertion.alleleCount !== 2) return "allele indexes"
+
+    if (snv.info.AC !== 3 || insertion.info.AC !== 1 || insertion.info.AF !== 0.1667) {
+      return `split INFO was ${JSON.stringify([snv.info, insertion.info])}`
+    }
+
+    const expected = {
+      snv: { S1: [[1, 0], "het"], S2: [[0, 1], "het"], S3: [[0, 0], "hom_ref"] },
+      insertion: { S1: [[0, 1], "het"], S2: [[0, 0], "hom_ref"], S3: [[1, 1], "hom_alt"] },
+    }
+    for (const [name, variant] of [
+      ["snv", snv],
+      ["insertion", insertion],
+    ] as const) {
+      const actual = Object.fromEntries(
+        Object.entries(variant.genotypes).map(([sample, genotype]) => [sample, [genotype.alleles, genotype.zygosity]]),
+      )
+      if (!same(actual, expected[name])) return `${name} genotypes were ${JSON.stringify(actual)}`
+    }
+
+    const s1 = [snv.genotypes.S1.fields, insertion.genotypes.S1.fields]
+    if (!same(s1[0].AD, [2, 10]) || !same(s1[1].AD, [2, 12])) return `AD was ${JSON.stringify(s1)}`
+    if (!same(s1[0].PL, [60, 30, 50]) || !same(s1[1].PL, [60, 20, 40])) return `PL was ${JSON.stringify(s1)}`
+
+    return insertion.genotypes.S3.phased ? null : "phasing was lost when splitting"
+  })
+
+  // Test 3: Alleles are trimmed, and shifted left through repeats when a reference is available
+  await check("Test 3: Normalization", async () => {
+    const results = [
+      [describe(onLine(plain, 18)[0]), "chr1:3 A>T"],
+      [describe(onLine(plain, 19)[0]), "chr1:11 ACA>A"],
+      [describe(onLine(aligned, 19)[0]), "chr1:5 CCA>C"],
+      [describe(onLine(aligned, 20)[1]), "chr1:14 G>GT"],
+      [describe(onLine(aligned, 29)[0]), "chr1:16 T><DEL>"],
+    ]
+
+    const wrong = results.find(([actual, expected]) => actual !== expected)
+    if (wrong) return `normalized to ${wrong[0]}, expected ${wrong[1]}`
+
+    const original = onLine(aligned, 19)[0].original
+    if (!same(original, { position: 11, reference: "ACA", alternate: "A" })) return "the original alleles were lost"
+
+    const atStart = normalizeAllele("chr1", 1, "GG", "G", reference)
+    return atStart.position === 1 && atStart.reference === "GG" ? null : "shifted past the start of the contig"
+  })
+
+  // Test 4: Bad records are skipped and reported by line; good records around them still parse
+  await check("Test 4: Line-level errors", async () => {
+    const lines = plain.errors.map((error) => error.line).join(",")
+    if (lines !== "21,22,23,24,25,26") return `errors were on lines ${lines}: ${JSON.stringify(plain.errors)}`
+
+    const messages = plain.errors.map((error) => error.message)
+    const expectedFragments = [
+      'POS "abc"',
+      'DP value "many" is not an Integer',
+      "AC has 2 values, the header declares 1",
+      "refers to ALT allele 3",
+      "Expected 12 columns, found 11",
+      "the same as REF",
+    ]
+    const missing = expectedFragments.find((fragment, index) => !messages[index].includes(fragment))
+    if (missing) return `no error mentioned ${missing}: ${messages.join(" / ")}`
+
+    if (plain.variants.length !== 6 || plain.recordCount !== 12) {
+      return `${plain.variants.length} variants from ${plain.recordCount} records`
+    }
+
+    const mismatch = aligned.errors.find((error) => error.line === 27)
+    if (!mismatch?.message.includes("does not match the reference C")) return "REF was not checked"
+
+    const capped = await parseVcf(VCF, { maxErrors: 2 })
+    return capped.errors.length === 2 && capped.errorCount === 6 ? null : "maxErrors did not cap the errors"
+  })
+
+  // Test 5: Files without a usable header are refused as a whole
+  await check("Test 5: Header errors", async () => {
+    const refuse = async (text: string, fragment: string, line: number) => {
+      try {
+        await parseVcf(text)
+        return `accepted ${JSON.stringify(text.slice(0, 40))}`
+      } catch (error) {
+        if (!(error instanceof VcfFormatError)) return `threw ${error}`
+        return error.message.includes(fragment) && error.line === line ? null : `line ${error.line}: ${error.message}`
+      }
+    }
+
+    return (
+      (await refuse("", "empty", 0)) ||
+      (await refuse("CHROM POS\n", "not a VCF", 1)) ||
+      (await refuse("##fileformat=VCFv5.0\n", "Unsupported format VCFv5.0", 1)) ||
+      (await refuse("##fileformat=VCFv4.2\nchr1\t1\t.\tA\tG\t.\t.\t.\n", "before the #CHROM", 2)) ||
+      (await refuse("##fileformat=VCFv4.2\n#CHROM POS ID REF ALT QUAL FILTER INFO\n", "separated by tabs", 2)) ||
+      (await refuse("##fileformat=VCFv4.2\n##source=test\n", "#CHROM header line is missing", 3))
+    )
+  })
+
+  // Test 6: gzip and multi-block BGZF input decompresses as it streams, damaged files are refused
+  await check("Test 6: Compressed input", async () => {
+    const bytes = Buffer.from(VCF)
+    const gzipped = await parseVcf(gzipSync(bytes))
+
+    // Blocks end mid-line, the last one is the empty end-of-file block
+    const third = Math.floor(bytes.length / 3)
+    const blocks = [bytes.subarray(0, third), bytes.subarray(third, 2 * third), bytes.subarray(2 * third)]
+    blocks.push(Buffer.alloc(0))
+    const bgzf = Buffer.concat(blocks.map(bgzfBlock))
+    const streamed = await parseVcf(inChunks(bgzf, 7))
+
+    for (const [name, result] of [
+      ["gzip", gzipped],
+      ["BGZF", streamed],
+    ] as const) {
+      if (!same(result.variants, plain.variants) || !same(result.errors, plain.errors)) {
+        return `${name} input parsed to ${result.variants.length} variants and ${result.errors.length} errors`
+      }
+    }
+
+    try {
+      await parseVcf(bgzf.subarray(0, bgzf.length - 60))
+      return "a truncated file was accepted"
+    } catch (error) {
+      return error instanceof VcfFormatError && error.message.includes("damaged") ? null : `threw ${error}`
+    }
+  })
+
+  // Test 7: Variants map to the viewer's GenomicVariant with annotations from ANN, CSQ and ClinVar
+  await check("Test 7: GenomicVariant mapping", async () => {
+    const [mnv, deletion, snv, insertion, sv] = aligned.variants.map((variant) =>
+      toGenomicVariant(variant, aligned.header),
+    )
+
+    const expected = {
+      id: "1-3-A-T",
+      position: 3,
+      chromosome: "1",
+      reference: "A",
+      alternate: "T",
+      gene: "BRCA1",
+      consequence: "missense_variant",
+      significance: "pathogenic",
+      frequency: 0.0002,
+      rsid: "rs123",
+      hgvs: "c.100A>T",
+    }
+    if (!same(mnv, expected)) return `MNV mapped to ${JSON.stringify(mnv)}`
+
+    if (deletion.gene !== "TP53" || deletion.consequence !== "frameshift_variant" || deletion.hgvs !== "c.215del") {
+      return `VEP annotation mapped to ${JSON.stringify(deletion)}`
+    }
+
+    const classes = [snv, insertion, sv].map((variant) => `${variant?.consequence}/${variant?.significance}`)
+    return same(classes, ["SNV/uncertain", "insertion/uncertain", "DEL/uncertain"]) ? null : `classes were ${classes}`
+  })
+
+  // Final result
+  if (allTestsPassed) {
+    logger.info("✅ All tests passed! VCF parsing is working correctly.")
+  } else {
+    logger.error("❌ Some tests failed. VCF parsing may not be working correctly.")
+    process.exitCode = 1
+  }
+}
+
+// Run the verification
+verifyVcfParser().catch((error) => {
+  logger.error("VCF parser verification failed with unhandled exception", { error })
+  process.exitCode = 1
+})
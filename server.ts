@@ -0,0 +1,41 @@
+/**
+ * Custom Next.js server
+ * Route handlers can't accept WebSocket upgrades, so the AIDEN real-time endpoint is served here
+ * alongside the regular Next.js request handler. Usage: npm run dev:realtime / npm run start:realtime
+ */
+
+import { createServer } from "node:http"
+import next from "next"
+import { AIDEN_WEBSOCKET_PATH } from "./lib/aiden/aiden-websocket"
+import { getAidenWebSocketServer } from "./lib/aiden/aiden-websocket-server"
+import { logger } from "./lib/logging/enhanced-logger"
+
+const dev = process.env.NODE_ENV !== "production"
+const port = Number(process.env.PORT) || 3000
+
+const app = next({ dev, port })
+const handle = app.getRequestHandler()
+
+app.prepare().then(() => {
+  const aidenSockets = getAidenWebSocketServer()
+  const handleNextUpgrade = app.getUpgradeHandler()
+
+  const server = createServer((request, response) => {
+    handle(request, response)
+  })
+
+  server.on("upgrade", (request, socket, head) => {
+    const { pathname } = new URL(request.url || "/", "http://localhost")
+
+    if (pathname === AIDEN_WEBSOCKET_PATH) {
+      aidenSockets.handleUpgrade(request, socket, head)
+    } else {
+      // Leaves hot reloading in development working
+      handleNextUpgrade(request, socket, head)
+    }
+  })
+
+  server.listen(port, () => {
+    logger.info("Server ready", { url: `http://localhost:${port}`, realtime: AIDEN_WEBSOCKET_PATH })
+  })
+})
@@ -0,0 +1,32 @@
+-- AIDEN event history, written by SupabaseAidenEventHistoryStore (lib/aiden/event-history-store.ts)
+-- The server reads and writes it with the service role key, so row level security is on without any policies
+
+create table if not exists public.aiden_events (
+  event_id uuid primary key,
+  sequence bigint,
+  event_type text not null,
+  "timestamp" timestamptz not null,
+  payload jsonb not null default '{}'::jsonb,
+  metadata jsonb,
+  patient_id text,
+  severity text not null default 'info'
+    check (severity in ('info', 'low', 'medium', 'high', 'critical')),
+  -- Copied from metadata.user_id and metadata.roles so viewer rules can be applied in the query
+  user_id text,
+  audience_roles text[],
+  acknowledged_at timestamptz,
+  acknowledged_by text,
+  annotations jsonb not null default '[]'::jsonb
+);
+
+alter table public.aiden_events enable row level security;
+
+-- History pages are ordered newest first, and retention deletes by timestamp
+create index if not exists aiden_events_timestamp_idx on public.aiden_events ("timestamp" desc, sequence desc);
+create index if not exists aiden_events_event_type_idx on public.aiden_events (event_type, "timestamp" desc);
+create index if not exists aiden_events_patient_id_idx on public.aiden_events (patient_id, "timestamp" desc);
+create index if not exists aiden_events_severity_idx on public.aiden_events (severity, "timestamp" desc);
+create index if not exists aiden_events_user_id_idx on public.aiden_events (user_id);
+create index if not exists aiden_events_audience_roles_idx on public.aiden_events using gin (audience_roles);
+create index if not exists aiden_events_unacknowledged_idx on public.aiden_events ("timestamp" desc)
+  where acknowledged_at is null;